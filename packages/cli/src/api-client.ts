@@ -5,11 +5,15 @@ const DEFAULT_BASE_URL = 'http://localhost:9876';
 const MAX_RESPONSE_SIZE = 100 * 1024 * 1024; // 100MB
 
 interface RequestOptions {
-  method: 'GET' | 'POST';
+  method: 'GET' | 'POST' | 'DELETE';
   path: string;
   body?: unknown;
   timeout?: number;
   signal?: AbortSignal;
+  /** Bearer token for this request only; overrides the client's API token. */
+  token?: string;
+  /** Resolve with the body as text instead of parsing it as JSON (errors are still JSON). */
+  raw?: boolean;
 }
 
 export interface IndexConfig {
@@ -20,6 +24,18 @@ export interface IndexConfig {
   languages?: string[];
 }
 
+/** Structured search filters, mirrors the server's `SearchFilters` (POST /api/search `filters`). */
+export interface SearchFilters {
+  languages?: string[];
+  kinds?: string[];
+  paths?: string[];
+  exclude_paths?: string[];
+  tags?: string[];
+  service?: string;
+  bounded_context?: string;
+  exclude_tests?: boolean;
+}
+
 export interface IndexFile {
   path: string;
   content: string;
@@ -31,6 +47,67 @@ export interface ApiClientOptions {
   defaultTimeout?: number;
   maxRetries?: number;
   debug?: boolean;
+  /** Per-user API token sent as `Authorization: Bearer` (default: env PAPARATS_TOKEN). */
+  token?: string;
+}
+
+/** Token metadata as returned by the server's /api/tokens admin API. */
+export interface ApiTokenInfo {
+  id: string;
+  user: string;
+  label: string | null;
+  createdAt: number;
+  lastUsedAt: number | null;
+  revokedAt: number | null;
+  /** Access rules; null = unrestricted on that axis. */
+  groups: string[] | null;
+  projects: string[] | null;
+  audiences: string[] | null;
+}
+
+export interface CreateTokenOptions {
+  label?: string;
+  groups?: string[];
+  projects?: string[];
+  audiences?: string[];
+  timeout?: number;
+}
+
+/** A definition as returned by GET /api/symbol. */
+export interface SymbolDefinitionInfo {
+  chunk_id: string;
+  group: string;
+  project: string;
+  file: string;
+  language: string;
+  startLine: number;
+  endLine: number;
+  kind: string | null;
+  symbol: string;
+  match: 'exact' | 'prefix' | 'fuzzy';
+  in_degree: number;
+}
+
+export interface FindSymbolOptions {
+  group?: string;
+  project?: string;
+  mode?: 'exact' | 'prefix' | 'fuzzy';
+  kinds?: string[];
+  limit?: number;
+  timeout?: number;
+}
+
+export interface ExportGraphOptions {
+  project?: string;
+  /** File or directory inside `project`. */
+  path?: string;
+  /** Export the neighbourhood of this chunk id instead. */
+  chunk?: string;
+  depth?: number;
+  level?: 'chunk' | 'file' | 'project';
+  format?: 'json' | 'graphml' | 'dot';
+  limit?: number;
+  timeout?: number;
 }
 
 interface ApiResponse<T = unknown> {
@@ -70,6 +147,7 @@ export class ApiClient {
   private defaultTimeout: number;
   private maxRetries: number;
   private debug: boolean;
+  private token: string | undefined;
 
   constructor(options?: ApiClientOptions | string) {
     const opts = typeof options === 'string' ? { baseUrl: options } : (options ?? {});
@@ -77,6 +155,7 @@ export class ApiClient {
     this.defaultTimeout = opts.defaultTimeout ?? 120_000;
     this.maxRetries = opts.maxRetries ?? 3;
     this.debug = opts.debug ?? false;
+    this.token = opts.token ?? (process.env.PAPARATS_TOKEN || undefined);
 
     try {
       new URL(this.baseUrl);
@@ -96,6 +175,7 @@ export class ApiClient {
     const payload = options.body ? JSON.stringify(options.body) : undefined;
     const client = url.protocol === 'https:' ? https : http;
     const timeout = options.timeout ?? this.defaultTimeout;
+    const token = options.token ?? this.token;
 
     this.log(`${options.method} ${url.href}`, options.body);
 
@@ -107,6 +187,7 @@ export class ApiClient {
           headers: {
             'Content-Type': 'application/json',
             ...(payload && { 'Content-Length': Buffer.byteLength(payload) }),
+            ...(token && { Authorization: `Bearer ${token}` }),
           },
           timeout,
           ...(options.signal && { signal: options.signal }),
@@ -128,8 +209,13 @@ export class ApiClient {
           res.on('end', () => {
             try {
               const body = Buffer.concat(chunks).toString('utf-8');
-              const data = body ? (JSON.parse(body) as T) : ({} as T);
               const status = res.statusCode ?? 500;
+              if (options.raw && status < 400) {
+                this.log(`Response: ${status}`);
+                resolve({ status, data: body as T });
+                return;
+              }
+              const data = body ? (JSON.parse(body) as T) : ({} as T);
 
               this.log(`Response: ${status}`);
 
@@ -201,12 +287,24 @@ export class ApiClient {
   async search(
     group: string,
     query: string,
-    options?: { project?: string; limit?: number; timeout?: number; signal?: AbortSignal }
+    options?: {
+      project?: string;
+      limit?: number;
+      filters?: SearchFilters;
+      timeout?: number;
+      signal?: AbortSignal;
+    }
   ): Promise<ApiResponse> {
     return this.requestWithRetry({
       method: 'POST',
       path: '/api/search',
-      body: { group, query, project: options?.project ?? 'all', limit: options?.limit ?? 5 },
+      body: {
+        group,
+        query,
+        project: options?.project ?? 'all',
+        limit: options?.limit ?? 5,
+        ...(options?.filters ? { filters: options.filters } : {}),
+      },
       timeout: options?.timeout ?? 30_000,
       signal: options?.signal,
     });
@@ -288,6 +386,43 @@ export class ApiClient {
     });
   }
 
+  /** Look up definitions of a symbol by name (exact, prefix or fuzzy). */
+  async findSymbol(
+    name: string,
+    options?: FindSymbolOptions
+  ): Promise<ApiResponse<{ results: SymbolDefinitionInfo[]; total: number; truncated?: boolean }>> {
+    const params = new URLSearchParams({ name });
+    if (options?.group) params.set('group', options.group);
+    if (options?.project) params.set('project', options.project);
+    if (options?.mode) params.set('mode', options.mode);
+    if (options?.kinds && options.kinds.length > 0) params.set('kinds', options.kinds.join(','));
+    if (options?.limit !== undefined) params.set('limit', String(options.limit));
+    return this.requestWithRetry({
+      method: 'GET',
+      path: `/api/symbol?${params.toString()}`,
+      timeout: options?.timeout ?? 30_000,
+    });
+  }
+
+  /** Export a group's symbol graph; the body is the rendered document (JSON, GraphML or DOT). */
+  async exportGraph(group: string, options?: ExportGraphOptions): Promise<ApiResponse<string>> {
+    const params = new URLSearchParams();
+    if (options?.project) params.set('project', options.project);
+    if (options?.path) params.set('path', options.path);
+    if (options?.chunk) params.set('chunk', options.chunk);
+    if (options?.depth !== undefined) params.set('depth', String(options.depth));
+    if (options?.level) params.set('level', options.level);
+    if (options?.format) params.set('format', options.format);
+    if (options?.limit !== undefined) params.set('limit', String(options.limit));
+    const query = params.toString();
+    return this.requestWithRetry({
+      method: 'GET',
+      path: `/api/graph/${encodeURIComponent(group)}${query ? `?${query}` : ''}`,
+      timeout: options?.timeout ?? 60_000,
+      raw: true,
+    });
+  }
+
   async health(options?: { timeout?: number }): Promise<ApiResponse> {
     return this.request({ method: 'GET', path: '/health', timeout: options?.timeout ?? 5_000 });
   }
@@ -299,4 +434,53 @@ export class ApiClient {
       timeout: options?.timeout ?? 10_000,
     });
   }
+
+  /** List API tokens (admin). Metadata only — plaintext tokens are never returned. */
+  async listTokens(
+    adminToken: string,
+    options?: { all?: boolean; timeout?: number }
+  ): Promise<ApiResponse<{ tokens: ApiTokenInfo[] }>> {
+    return this.request({
+      method: 'GET',
+      path: options?.all ? '/api/tokens?all=true' : '/api/tokens',
+      token: adminToken,
+      timeout: options?.timeout ?? 10_000,
+    });
+  }
+
+  /** Mint a token for `user` (admin). The response is the only place the plaintext appears. */
+  async createToken(
+    adminToken: string,
+    user: string,
+    options?: CreateTokenOptions
+  ): Promise<ApiResponse<ApiTokenInfo & { token: string }>> {
+    const { timeout, ...fields } = options ?? {};
+    return this.request({
+      method: 'POST',
+      path: '/api/tokens',
+      body: {
+        user,
+        ...(fields.label ? { label: fields.label } : {}),
+        ...(fields.groups ? { groups: fields.groups } : {}),
+        ...(fields.projects ? { projects: fields.projects } : {}),
+        ...(fields.audiences ? { audiences: fields.audiences } : {}),
+      },
+      token: adminToken,
+      timeout: timeout ?? 10_000,
+    });
+  }
+
+  /** Revoke a token by id (admin). */
+  async revokeToken(
+    adminToken: string,
+    id: string,
+    options?: { timeout?: number }
+  ): Promise<ApiResponse<{ revoked: string }>> {
+    return this.request({
+      method: 'DELETE',
+      path: `/api/tokens/${encodeURIComponent(id)}`,
+      token: adminToken,
+      timeout: options?.timeout ?? 10_000,
+    });
+  }
 }
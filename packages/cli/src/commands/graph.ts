@@ -0,0 +1,101 @@
+import fs from 'fs';
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { ApiClient, type ExportGraphOptions } from '../api-client.js';
+
+export type GraphClient = Pick<ApiClient, 'exportGraph'>;
+
+const FORMATS = ['json', 'graphml', 'dot'] as const;
+const LEVELS = ['chunk', 'file', 'project'] as const;
+
+export interface GraphExportOptions {
+  project?: string;
+  path?: string;
+  chunk?: string;
+  depth?: string;
+  level?: string;
+  format?: string;
+  limit?: string;
+  /** Write here instead of stdout. */
+  output?: string;
+}
+
+function parseBounded(raw: string | undefined, name: string, max: number): number | undefined {
+  if (raw === undefined) return undefined;
+  const n = parseInt(raw, 10);
+  if (Number.isNaN(n) || n <= 0 || n > max) {
+    throw new Error(`Invalid ${name}: ${raw}. Must be between 1 and ${max}.`);
+  }
+  return n;
+}
+
+/** Turn CLI flags into request options, rejecting bad values before hitting the server. */
+export function buildGraphExportOptions(opts: GraphExportOptions): ExportGraphOptions {
+  const format = opts.format ?? 'json';
+  if (!(FORMATS as readonly string[]).includes(format)) {
+    throw new Error(`Invalid format: ${format}. Must be one of: ${FORMATS.join(', ')}`);
+  }
+  const level = opts.level ?? 'chunk';
+  if (!(LEVELS as readonly string[]).includes(level)) {
+    throw new Error(`Invalid level: ${level}. Must be one of: ${LEVELS.join(', ')}`);
+  }
+  if (opts.path && !opts.project) {
+    throw new Error('--path requires --project');
+  }
+  if (opts.chunk && (opts.project || opts.path)) {
+    throw new Error('--chunk cannot be combined with --project or --path');
+  }
+  return {
+    project: opts.project,
+    path: opts.path,
+    chunk: opts.chunk,
+    depth: parseBounded(opts.depth, 'depth', 3),
+    level: level as ExportGraphOptions['level'],
+    format: format as ExportGraphOptions['format'],
+    limit: parseBounded(opts.limit, 'limit', 50_000),
+  };
+}
+
+/** Fetch the export and write it to `--output` or stdout. Returns the document. */
+export async function runGraphExport(
+  client: GraphClient,
+  group: string,
+  opts: GraphExportOptions = {}
+): Promise<string> {
+  const res = await client.exportGraph(group, buildGraphExportOptions(opts));
+  const body = res.data.endsWith('\n') ? res.data : `${res.data}\n`;
+  if (opts.output) {
+    fs.writeFileSync(opts.output, body);
+    console.error(chalk.green(`Wrote ${opts.format ?? 'json'} graph to ${opts.output}`));
+  } else {
+    process.stdout.write(body);
+  }
+  return body;
+}
+
+export const graphCommand = new Command('graph').description(
+  'Work with the symbol graph (calls, references, extends, ...)'
+);
+
+graphCommand.addCommand(
+  new Command('export')
+    .description('Export symbol edges as JSON node-link, GraphML or Graphviz DOT')
+    .argument('<group>', 'Group to export')
+    .option('-p, --project <name>', 'Only edges touching this project')
+    .option('--path <path>', 'Only edges touching this file or directory (needs --project)')
+    .option('--chunk <id>', 'Only the neighbourhood of this chunk id')
+    .option('--depth <n>', 'Hops around --chunk (1-3)', '1')
+    .option('-l, --level <level>', 'Node granularity: chunk, file or project', 'chunk')
+    .option('-f, --format <format>', 'Output format: json, graphml or dot', 'json')
+    .option('-n, --limit <n>', 'Max edges (1-50000)', '5000')
+    .option('-o, --output <file>', 'Write to a file instead of stdout')
+    .option('--server <url>', 'MCP server URL', 'http://localhost:9876')
+    .action(async (group: string, opts: GraphExportOptions & { server: string }) => {
+      try {
+        await runGraphExport(new ApiClient(opts.server), group, opts);
+      } catch (err) {
+        console.error(chalk.red((err as Error).message));
+        process.exit(1);
+      }
+    })
+);
@@ -0,0 +1,210 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+
+const INDEXER_BASE = process.env['PAPARATS_INDEXER_URL'] ?? 'http://localhost:9877';
+
+/** Per-repo progress of a job, as the indexer's `/jobs` API returns it. */
+export interface JobRepoProgress {
+  repo: string;
+  status: string;
+  phase: string | null;
+  filesProcessed: number;
+  filesTotal: number;
+  chunks: number;
+  error: string | null;
+}
+
+export interface IndexerJob {
+  id: string;
+  kind: string;
+  trigger: string;
+  repos: string[] | null;
+  force: boolean;
+  status: string;
+  attempts: number;
+  maxAttempts: number;
+  runAfter: string;
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  progress: JobRepoProgress[];
+}
+
+export interface JobsOptions {
+  json?: boolean;
+  status?: string;
+  limit?: number;
+  cancel?: boolean;
+}
+
+export interface JobsDeps {
+  request?: (method: 'GET' | 'POST', path: string) => Promise<{ status: number; data: unknown }>;
+}
+
+async function defaultRequest(
+  method: 'GET' | 'POST',
+  urlPath: string
+): Promise<{ status: number; data: unknown }> {
+  const res = await fetch(`${INDEXER_BASE}${urlPath}`, { method });
+  return { status: res.status, data: await res.json().catch(() => null) };
+}
+
+function apiError(data: unknown, status: number): Error {
+  const message = (data as { error?: unknown } | null)?.error;
+  return new Error(typeof message === 'string' ? message : `Indexer returned ${status}`);
+}
+
+/**
+ * List the indexer's recent jobs, or show (and with `cancel`, cancel) one.
+ * Returns what was printed so callers and tests can inspect it.
+ */
+export async function runJobs(
+  id: string | undefined,
+  opts: JobsOptions = {},
+  deps: JobsDeps = {}
+): Promise<IndexerJob[]> {
+  const request = deps.request ?? defaultRequest;
+
+  if (id) {
+    const path = `/jobs/${encodeURIComponent(id)}`;
+    const res = opts.cancel ? await request('POST', `${path}/cancel`) : await request('GET', path);
+    if (res.status >= 400) throw apiError(res.data, res.status);
+    const job = res.data as IndexerJob;
+    if (opts.json) console.log(JSON.stringify(job, null, 2));
+    else printJob(job);
+    return [job];
+  }
+
+  if (opts.cancel) throw new Error('--cancel needs a job id');
+  const query = new URLSearchParams();
+  if (opts.status) query.set('status', opts.status);
+  if (opts.limit !== undefined) query.set('limit', String(opts.limit));
+  const qs = query.toString();
+  const res = await request('GET', qs ? `/jobs?${qs}` : '/jobs');
+  if (res.status >= 400) throw apiError(res.data, res.status);
+  const { jobs } = res.data as { jobs: IndexerJob[] };
+  if (opts.json) console.log(JSON.stringify(jobs, null, 2));
+  else printJobs(jobs);
+  return jobs;
+}
+
+function colorStatus(status: string): string {
+  switch (status) {
+    case 'succeeded':
+      return chalk.green(status);
+    case 'failed':
+      return chalk.red(status);
+    case 'running':
+      return chalk.cyan(status);
+    case 'cancelled':
+    case 'skipped':
+      return chalk.dim(status);
+    default:
+      return chalk.yellow(status);
+  }
+}
+
+/** `3/5 repos` for a job under way or done; the filter for one still queued. */
+function repoSummary(job: IndexerJob): string {
+  if (job.progress.length > 0) {
+    const done = job.progress.filter((p) => p.status !== 'running').length;
+    return `${done}/${job.progress.length} repos`;
+  }
+  return job.repos ? job.repos.join(', ') : 'all';
+}
+
+function printJobs(jobs: IndexerJob[]): void {
+  if (jobs.length === 0) {
+    console.log(chalk.dim('No jobs.'));
+    return;
+  }
+  const cols = ['id', 'kind', 'trigger', 'status', 'attempts', 'repos', 'created'] as const;
+  const labels: Record<(typeof cols)[number], string> = {
+    id: 'ID',
+    kind: 'KIND',
+    trigger: 'TRIGGER',
+    status: 'STATUS',
+    attempts: 'ATTEMPTS',
+    repos: 'REPOS',
+    created: 'CREATED',
+  };
+  const truncate = (s: string, n: number): string => (s.length > n ? s.slice(0, n - 1) + '…' : s);
+  const display = jobs.map((job) => ({
+    id: job.id,
+    kind: job.force ? `${job.kind} (force)` : job.kind,
+    trigger: job.trigger,
+    status: job.status,
+    attempts: `${job.attempts}/${job.maxAttempts}`,
+    repos: truncate(repoSummary(job), 40),
+    created: job.createdAt,
+  }));
+
+  const widths = Object.fromEntries(cols.map((c) => [c, labels[c].length])) as Record<
+    (typeof cols)[number],
+    number
+  >;
+  for (const row of display) {
+    for (const c of cols) widths[c] = Math.max(widths[c], row[c].length);
+  }
+  const fmt = (vals: Record<(typeof cols)[number], string>): string =>
+    cols.map((c) => vals[c].padEnd(widths[c])).join('  ');
+  console.log(chalk.bold(fmt(labels)));
+  for (const row of display) console.log(fmt(row));
+}
+
+function printJob(job: IndexerJob): void {
+  console.log(chalk.bold(`\nJob ${job.id}\n`));
+  console.log(`  Kind:     ${job.kind}${job.force ? ' (force)' : ''} — ${job.trigger}`);
+  console.log(`  Status:   ${colorStatus(job.status)}`);
+  console.log(`  Attempts: ${job.attempts}/${job.maxAttempts}`);
+  console.log(`  Repos:    ${job.repos ? job.repos.join(', ') : 'all'}`);
+  console.log(`  Created:  ${chalk.dim(job.createdAt)}`);
+  if (job.startedAt) console.log(`  Started:  ${chalk.dim(job.startedAt)}`);
+  if (job.finishedAt) console.log(`  Finished: ${chalk.dim(job.finishedAt)}`);
+  if (job.status === 'queued' && job.attempts > 0) {
+    console.log(`  Retry at: ${chalk.dim(job.runAfter)}`);
+  }
+  if (job.error) console.log(`  Error:    ${chalk.red(job.error)}`);
+
+  if (job.progress.length > 0) {
+    console.log(chalk.bold('\n  Progress:'));
+    for (const p of job.progress) {
+      const parts: string[] = [];
+      if (p.phase) parts.push(p.phase);
+      if (p.filesTotal > 0) parts.push(`${p.filesProcessed}/${p.filesTotal} files`);
+      if (p.chunks > 0) parts.push(`${p.chunks} chunks`);
+      console.log(`    ${p.repo}  ${colorStatus(p.status)}  ${chalk.dim(parts.join(', '))}`);
+      if (p.error) console.log(`      ${chalk.red(p.error)}`);
+    }
+  }
+  console.log();
+}
+
+export const jobsCommand = new Command('jobs')
+  .description('Show indexing jobs and their progress')
+  .argument('[id]', 'Job id to show in detail')
+  .option(
+    '--status <status>',
+    'Only jobs in this status (queued, running, succeeded, failed, cancelled)'
+  )
+  .option('--limit <n>', 'Number of jobs to list', '20')
+  .option('--cancel', 'Cancel the given job')
+  .option('--json', 'Output as JSON')
+  .action(
+    async (
+      id: string | undefined,
+      opts: { status?: string; limit: string; cancel?: boolean; json?: boolean }
+    ) => {
+      try {
+        const limit = parseInt(opts.limit, 10);
+        if (Number.isNaN(limit) || limit <= 0) {
+          throw new Error(`Invalid limit: ${opts.limit}. Must be a positive number.`);
+        }
+        await runJobs(id, { status: opts.status, limit, cancel: opts.cancel, json: opts.json });
+      } catch (err) {
+        console.error(chalk.red((err as Error).message));
+        process.exit(1);
+      }
+    }
+  );
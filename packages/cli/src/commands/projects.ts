@@ -46,7 +46,7 @@ export interface AddDeps {
   isDirectory?: (p: string) => boolean;
 }
 
-const REPO_URL_RE = /^(git@|https?:\/\/).+\.git$/;
+const REPO_URL_RE = /^([\w.-]+@[^:/]+:|(https?|ssh):\/\/).+$/;
 const REPO_SHORTHAND_RE = /^[^/]+\/[^/]+$/;
 
 export function detectKind(input: string): 'local' | 'remote' {
@@ -57,12 +57,13 @@ export function detectKind(input: string): 'local' | 'remote' {
 
 function shorthandFromUrl(url: string): string {
   // Convert "git@github.com:org/repo.git" or "https://github.com/org/repo.git" -> "org/repo".
+  // Other hosts keep the full clone URL; the indexer reads their credentials from `hosts:`.
   const noGit = url.replace(/\.git$/, '');
-  const matchSsh = noGit.match(/^git@[^:]+:(.+)$/);
+  const matchSsh = noGit.match(/^git@github\.com:([^/]+\/[^/]+)$/);
   if (matchSsh) return matchSsh[1]!;
-  const matchHttps = noGit.match(/^https?:\/\/[^/]+\/(.+)$/);
+  const matchHttps = noGit.match(/^https:\/\/github\.com\/([^/]+\/[^/]+)$/);
   if (matchHttps) return matchHttps[1]!;
-  return noGit;
+  return url;
 }
 
 export async function runAdd(
@@ -2,7 +2,7 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
 import { readConfig } from '../config.js';
-import { ApiClient } from '../api-client.js';
+import { ApiClient, type SearchFilters } from '../api-client.js';
 
 export interface SearchResultItem {
   project: string;
@@ -42,6 +42,7 @@ export interface SearchOptions {
   limit?: number;
   project?: string;
   group?: string;
+  filters?: SearchFilters;
   timeout?: number;
   json?: boolean;
   verbose?: boolean;
@@ -51,7 +52,13 @@ interface SearchClient {
   search(
     group: string,
     query: string,
-    opts: { project?: string; limit?: number; timeout?: number; signal?: AbortSignal }
+    opts: {
+      project?: string;
+      limit?: number;
+      filters?: SearchFilters;
+      timeout?: number;
+      signal?: AbortSignal;
+    }
   ): Promise<{ status: number; data: unknown }>;
   stats?(options?: { timeout?: number }): Promise<{ status: number; data: unknown }>;
 }
@@ -75,6 +82,43 @@ async function inferSingleGroup(client: SearchClient): Promise<string | null> {
   }
 }
 
+/** Split a comma-separated flag value (`--language go,ts`) into a list; undefined when empty. */
+function splitList(raw: string | undefined): string[] | undefined {
+  const items = (raw ?? '')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+/** Build the `filters` payload from CLI flags; undefined when no filter flag is set. */
+export function buildSearchFilters(opts: {
+  language?: string;
+  kind?: string;
+  path?: string;
+  excludePath?: string;
+  tag?: string;
+  service?: string;
+  boundedContext?: string;
+  excludeTests?: boolean;
+}): SearchFilters | undefined {
+  const filters: SearchFilters = {};
+  const languages = splitList(opts.language);
+  const kinds = splitList(opts.kind);
+  const paths = splitList(opts.path);
+  const excludePaths = splitList(opts.excludePath);
+  const tags = splitList(opts.tag);
+  if (languages) filters.languages = languages;
+  if (kinds) filters.kinds = kinds;
+  if (paths) filters.paths = paths;
+  if (excludePaths) filters.exclude_paths = excludePaths;
+  if (tags) filters.tags = tags;
+  if (opts.service) filters.service = opts.service;
+  if (opts.boundedContext) filters.bounded_context = opts.boundedContext;
+  if (opts.excludeTests) filters.exclude_tests = true;
+  return Object.keys(filters).length > 0 ? filters : undefined;
+}
+
 function outputError(message: string, json: boolean): never {
   if (json) {
     console.log(JSON.stringify({ error: message }));
@@ -122,6 +166,7 @@ export async function runSearch(
     const res = await client.search(group!, query, {
       project,
       limit,
+      filters: opts.filters,
       timeout,
     });
 
@@ -155,6 +200,9 @@ export async function runSearch(
       console.log(chalk.dim(`  Query: ${query}`));
       console.log(chalk.dim(`  Project filter: ${opts.project ?? 'all'}`));
       console.log(chalk.dim(`  Limit: ${limit}`));
+      if (opts.filters) {
+        console.log(chalk.dim(`  Filters: ${JSON.stringify(opts.filters)}`));
+      }
       console.log();
     }
 
@@ -218,6 +266,14 @@ export const searchCommand = new Command('search')
   .option('-n, --limit <n>', 'Max results', '5')
   .option('-p, --project <name>', 'Filter by project name', 'all')
   .option('-g, --group <name>', 'Override group from config')
+  .option('-l, --language <langs>', 'Only these languages (comma-separated, e.g. go,typescript)')
+  .option('-k, --kind <kinds>', 'Only these chunk kinds (comma-separated, e.g. method,function)')
+  .option('--path <globs>', 'Only files matching these globs (comma-separated)')
+  .option('--exclude-path <globs>', 'Drop files matching these globs (comma-separated)')
+  .option('--tag <tags>', 'Only chunks with any of these tags (comma-separated)')
+  .option('--service <name>', 'Only chunks from this service')
+  .option('--bounded-context <name>', 'Only chunks from this bounded context')
+  .option('--exclude-tests', 'Drop test code from the results')
   .option('--server <url>', 'MCP server URL', 'http://localhost:9876')
   .option('--timeout <ms>', 'Request timeout in milliseconds', '30000')
   .option('--json', 'Output as JSON')
@@ -229,6 +285,14 @@ export const searchCommand = new Command('search')
         limit: string;
         project: string;
         group?: string;
+        language?: string;
+        kind?: string;
+        path?: string;
+        excludePath?: string;
+        tag?: string;
+        service?: string;
+        boundedContext?: string;
+        excludeTests?: boolean;
         server: string;
         timeout?: string;
         json?: boolean;
@@ -305,6 +369,7 @@ export const searchCommand = new Command('search')
             limit,
             project: opts.project,
             group: opts.group,
+            filters: buildSearchFilters(opts),
             timeout,
             json: opts.json,
             verbose: opts.verbose,
@@ -0,0 +1,95 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { ApiClient, type FindSymbolOptions, type SymbolDefinitionInfo } from '../api-client.js';
+
+export type SymbolClient = Pick<ApiClient, 'findSymbol'>;
+
+const MATCH_MODES = ['exact', 'prefix', 'fuzzy'] as const;
+
+export interface SymbolOptions {
+  group?: string;
+  project?: string;
+  mode?: string;
+  /** Comma-separated chunk kinds, e.g. `class,interface`. */
+  kind?: string;
+  limit?: string;
+  json?: boolean;
+}
+
+/** Turn CLI flags into request options, rejecting a bad --mode or --limit up front. */
+export function buildSymbolOptions(opts: SymbolOptions): FindSymbolOptions {
+  const mode = opts.mode ?? 'exact';
+  if (!(MATCH_MODES as readonly string[]).includes(mode)) {
+    throw new Error(`Invalid mode: ${mode}. Must be one of: ${MATCH_MODES.join(', ')}`);
+  }
+  let limit: number | undefined;
+  if (opts.limit !== undefined) {
+    limit = parseInt(opts.limit, 10);
+    if (Number.isNaN(limit) || limit <= 0 || limit > 50) {
+      throw new Error(`Invalid limit: ${opts.limit}. Must be between 1 and 50.`);
+    }
+  }
+  const kinds = (opts.kind ?? '')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+  return {
+    group: opts.group,
+    project: opts.project && opts.project !== 'all' ? opts.project : undefined,
+    mode: mode as FindSymbolOptions['mode'],
+    kinds: kinds.length > 0 ? kinds : undefined,
+    limit,
+  };
+}
+
+export async function runSymbol(
+  client: SymbolClient,
+  name: string,
+  opts: SymbolOptions = {}
+): Promise<SymbolDefinitionInfo[]> {
+  const res = await client.findSymbol(name, buildSymbolOptions(opts));
+  const results = res.data.results ?? [];
+  if (opts.json) {
+    console.log(JSON.stringify(results, null, 2));
+    return results;
+  }
+  if (res.data.truncated) {
+    console.log(
+      chalk.yellow(
+        'Scan limit reached; some matches may be missing. Narrow with --group or --project.'
+      )
+    );
+  }
+  if (results.length === 0) {
+    const hint = (opts.mode ?? 'exact') === 'exact' ? ' Try --mode prefix or --mode fuzzy.' : '';
+    console.log(chalk.yellow(`No definitions found for "${name}".${hint}`));
+    return results;
+  }
+  for (const d of results) {
+    const location = `${chalk.cyan(`[${d.project}]`)} ${chalk.bold(d.file)}:${chalk.yellow(`${d.startLine}-${d.endLine}`)}`;
+    console.log(
+      `${location}  ${d.kind ?? 'unknown'} ${chalk.bold(d.symbol)} ${chalk.dim(`(${d.in_degree} incoming)`)}`
+    );
+    console.log(chalk.dim(`  ${d.chunk_id}`));
+  }
+  return results;
+}
+
+export const symbolCommand = new Command('symbol')
+  .description('Find where a symbol is defined (go-to-definition by name)')
+  .argument('<name>', 'Symbol name, e.g. parseChunkId')
+  .option('-g, --group <name>', 'Only this group (default: all)')
+  .option('-p, --project <name>', 'Only this project', 'all')
+  .option('-m, --mode <mode>', 'Match mode: exact, prefix or fuzzy', 'exact')
+  .option('-k, --kind <kinds>', 'Only these kinds (comma-separated, e.g. class,interface)')
+  .option('-n, --limit <n>', 'Max definitions (1-50)', '10')
+  .option('--server <url>', 'MCP server URL', 'http://localhost:9876')
+  .option('--json', 'Output as JSON')
+  .action(async (name: string, opts: SymbolOptions & { server: string }) => {
+    try {
+      await runSymbol(new ApiClient(opts.server), name, opts);
+    } catch (err) {
+      console.error(chalk.red((err as Error).message));
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,209 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { ApiClient, type ApiTokenInfo } from '../api-client.js';
+
+export type TokensClient = Pick<ApiClient, 'listTokens' | 'createToken' | 'revokeToken'>;
+
+export interface TokensOptions {
+  server?: string;
+  /** Server admin secret (default: env PAPARATS_ADMIN_TOKEN). */
+  adminToken?: string;
+  json?: boolean;
+}
+
+function resolveAdminToken(opts: TokensOptions): string {
+  const token = opts.adminToken ?? process.env.PAPARATS_ADMIN_TOKEN;
+  if (!token) {
+    throw new Error(
+      'Admin token required: pass --admin-token or set PAPARATS_ADMIN_TOKEN (must match the server)'
+    );
+  }
+  return token;
+}
+
+/** Access-rule flags on `tokens create`, as comma-separated lists. */
+export interface TokenScopeOptions {
+  groups?: string;
+  projects?: string;
+  audiences?: string;
+}
+
+/** Split a comma-separated flag value into a list; undefined (= unrestricted) when empty. */
+function splitList(raw: string | undefined): string[] | undefined {
+  const items = (raw ?? '')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+/** One-line summary of a token's access rules, e.g. `groups=backend projects=billing`. */
+function formatScope(t: ApiTokenInfo): string {
+  const parts = (['groups', 'projects', 'audiences'] as const)
+    .filter((axis) => t[axis] != null)
+    .map((axis) => `${axis}=${t[axis]!.join(',') || '(none)'}`);
+  return parts.length > 0 ? parts.join(' ') : 'all';
+}
+
+function formatTime(ms: number | null): string {
+  return ms === null ? '-' : new Date(ms).toISOString().replace('T', ' ').slice(0, 16);
+}
+
+export async function runTokensCreate(
+  client: TokensClient,
+  user: string,
+  opts: TokensOptions & TokenScopeOptions & { label?: string } = {}
+): Promise<ApiTokenInfo & { token: string }> {
+  const res = await client.createToken(resolveAdminToken(opts), user, {
+    label: opts.label,
+    groups: splitList(opts.groups),
+    projects: splitList(opts.projects),
+    audiences: splitList(opts.audiences),
+  });
+  const issued = res.data;
+  if (opts.json) {
+    console.log(JSON.stringify(issued, null, 2));
+    return issued;
+  }
+  console.log(chalk.green(`Created token ${issued.id} for ${issued.user}`));
+  console.log(chalk.dim(`Access: ${formatScope(issued)}`));
+  console.log();
+  console.log(`  ${issued.token}`);
+  console.log();
+  console.log(
+    chalk.yellow('Copy it now — the server stores only a hash and cannot show it again.')
+  );
+  console.log(
+    chalk.dim('Clients send it as `Authorization: Bearer <token>` (CLI: PAPARATS_TOKEN).')
+  );
+  return issued;
+}
+
+export async function runTokensList(
+  client: TokensClient,
+  opts: TokensOptions & { all?: boolean } = {}
+): Promise<ApiTokenInfo[]> {
+  const res = await client.listTokens(resolveAdminToken(opts), { all: opts.all });
+  const tokens = res.data.tokens ?? [];
+  if (opts.json) {
+    console.log(JSON.stringify(tokens, null, 2));
+    return tokens;
+  }
+  if (tokens.length === 0) {
+    console.log(chalk.dim('No API tokens. Create one: paparats tokens create <user>'));
+    return tokens;
+  }
+  const rows = tokens.map((t) => ({
+    id: t.id,
+    user: t.user,
+    label: t.label ?? '-',
+    scope: formatScope(t),
+    created: formatTime(t.createdAt),
+    lastUsed: formatTime(t.lastUsedAt),
+    revoked: formatTime(t.revokedAt),
+  }));
+  const cols = opts.all
+    ? (['id', 'user', 'label', 'scope', 'created', 'lastUsed', 'revoked'] as const)
+    : (['id', 'user', 'label', 'scope', 'created', 'lastUsed'] as const);
+  const labels: Record<(typeof cols)[number], string> = {
+    id: 'ID',
+    user: 'USER',
+    label: 'LABEL',
+    scope: 'ACCESS',
+    created: 'CREATED',
+    lastUsed: 'LAST USED',
+    revoked: 'REVOKED',
+  };
+  const widths = new Map<string, number>();
+  for (const c of cols) {
+    widths.set(c, Math.max(labels[c].length, ...rows.map((r) => r[c].length)));
+  }
+  const fmt = (vals: Record<(typeof cols)[number], string>): string =>
+    cols.map((c) => vals[c].padEnd(widths.get(c) ?? 0)).join('  ');
+  console.log(chalk.bold(fmt(labels)));
+  for (const row of rows) console.log(fmt(row));
+  return tokens;
+}
+
+export async function runTokensRevoke(
+  client: TokensClient,
+  id: string,
+  opts: TokensOptions = {}
+): Promise<void> {
+  await client.revokeToken(resolveAdminToken(opts), id);
+  if (opts.json) {
+    console.log(JSON.stringify({ revoked: id }));
+  } else {
+    console.log(chalk.green(`Revoked token ${id}`));
+  }
+}
+
+// ── Commands ────────────────────────────────────────────────────────────────
+
+function withTokensOptions(cmd: Command): Command {
+  return cmd
+    .option('--server <url>', 'MCP server URL', 'http://localhost:9876')
+    .option('--admin-token <token>', 'Server admin token (default: env PAPARATS_ADMIN_TOKEN)')
+    .option('--json', 'Output as JSON');
+}
+
+function fail(err: unknown): never {
+  console.error(chalk.red((err as Error).message));
+  process.exit(1);
+}
+
+export const tokensCommand = new Command('tokens').description(
+  'Manage per-user API tokens for an authenticated server (PAPARATS_AUTH=tokens)'
+);
+
+tokensCommand.addCommand(
+  withTokensOptions(
+    new Command('create')
+      .description('Mint a token for a user (printed once)')
+      .argument('<user>', 'User the token authenticates as')
+      .option('--label <label>', 'Free-form note, e.g. the machine or client it is for')
+      .option('--groups <list>', 'Comma-separated groups the token may use (default: all)')
+      .option('--projects <list>', 'Comma-separated projects the token may use (default: all)')
+      .option(
+        '--audiences <list>',
+        'Comma-separated docs audiences search_docs may return (default: all)'
+      )
+  ).action(
+    async (
+      user: string,
+      opts: TokensOptions & TokenScopeOptions & { server: string; label?: string }
+    ) => {
+      try {
+        await runTokensCreate(new ApiClient(opts.server), user, opts);
+      } catch (err) {
+        fail(err);
+      }
+    }
+  )
+);
+
+tokensCommand.addCommand(
+  withTokensOptions(
+    new Command('list')
+      .description('List API tokens (metadata only)')
+      .option('--all', 'Include revoked tokens')
+  ).action(async (opts: TokensOptions & { server: string; all?: boolean }) => {
+    try {
+      await runTokensList(new ApiClient(opts.server), opts);
+    } catch (err) {
+      fail(err);
+    }
+  })
+);
+
+tokensCommand.addCommand(
+  withTokensOptions(
+    new Command('revoke').description('Revoke a token by id').argument('<id>', 'Token id')
+  ).action(async (id: string, opts: TokensOptions & { server: string }) => {
+    try {
+      await runTokensRevoke(new ApiClient(opts.server), id, opts);
+    } catch (err) {
+      fail(err);
+    }
+  })
+);
@@ -7,6 +7,9 @@ import {
   normalizeExcludePatterns as normalizeExcludeFromShared,
   filterFilesByGitignore,
   DEFAULT_EXCLUDE_BARE,
+  isComposeFile,
+  isKubernetesManifest,
+  isOpenApiFile,
 } from '@paparats/shared';
 
 export const CONFIG_FILE = '.paparats.yml';
@@ -23,6 +26,18 @@ const LANGUAGE_PATTERNS: Record<string, string[]> = {
   c: ['**/*.c', '**/*.h'],
   cpp: ['**/*.cpp', '**/*.hpp', '**/*.cc', '**/*.hh', '**/*.cxx', '**/*.h'],
   csharp: ['**/*.cs'],
+  php: ['**/*.php'],
+  kotlin: ['**/*.kt', '**/*.kts'],
+  swift: ['**/*.swift'],
+  scala: ['**/*.scala', '**/*.sc'],
+  protobuf: ['**/*.proto'],
+  graphql: ['**/*.graphql', '**/*.graphqls', '**/*.gql'],
+  openapi: ['**/{openapi,swagger}*.{yaml,yml,json}', '**/*.{openapi,swagger}.{yaml,yml,json}'],
+  sql: ['**/*.sql'],
+  kubernetes: ['**/{k8s,kubernetes,manifests,helm,charts}/**/*.{yaml,yml}', '**/*.k8s.{yaml,yml}'],
+  compose: ['**/{docker-compose,compose}*.{yaml,yml}'],
+  notebook: ['**/*.ipynb'],
+  mdx: ['**/*.mdx'],
   generic: ['**/*'],
 };
 
@@ -43,6 +58,7 @@ export interface PaparatsConfig {
     overlap?: number;
     concurrency?: number;
     batchSize?: number;
+    chunkHeader?: string;
   };
   watcher?: {
     enabled?: boolean;
@@ -68,6 +84,18 @@ export const SUPPORTED_LANGUAGES = [
   'c',
   'cpp',
   'csharp',
+  'php',
+  'kotlin',
+  'swift',
+  'scala',
+  'protobuf',
+  'graphql',
+  'openapi',
+  'sql',
+  'kubernetes',
+  'compose',
+  'notebook',
+  'mdx',
 ] as const;
 
 export type SupportedLanguage = (typeof SUPPORTED_LANGUAGES)[number];
@@ -82,12 +110,29 @@ const DETECT_PRIORITY: Array<[string, SupportedLanguage]> = [
   ['requirements.txt', 'python'],
   ['setup.py', 'python'],
   ['pom.xml', 'java'],
+  ['build.gradle.kts', 'kotlin'],
   ['build.gradle', 'java'],
+  ['build.sbt', 'scala'],
+  ['Package.swift', 'swift'],
+  ['composer.json', 'php'],
   ['Gemfile', 'ruby'],
   ['Rakefile', 'ruby'],
   ['main.tf', 'terraform'],
   ['CMakeLists.txt', 'cpp'],
   ['Makefile', 'c'],
+  // Schemas and migrations kept as plain SQL
+  ['db/structure.sql', 'sql'],
+  ['schema.sql', 'sql'],
+  ['prisma/migrations', 'sql'],
+  ['flyway.conf', 'sql'],
+  // Deployment manifests and Helm charts
+  ['Chart.yaml', 'kubernetes'],
+  ['kustomization.yaml', 'kubernetes'],
+  ['k8s', 'kubernetes'],
+  ['docker-compose.yml', 'compose'],
+  ['docker-compose.yaml', 'compose'],
+  ['compose.yaml', 'compose'],
+  ['compose.yml', 'compose'],
 ];
 
 function hasCSharpFiles(dir: string): boolean {
@@ -135,6 +180,9 @@ function validateConfig(config: PaparatsConfig, configPath: string): void {
         throw new Error(`Invalid concurrency in ${configPath}: expected number between 1-100`);
       }
     }
+    if (idx.chunkHeader !== undefined && typeof idx.chunkHeader !== 'string') {
+      throw new Error(`Invalid chunkHeader in ${configPath}: expected string`);
+    }
   }
 
   if (config.watcher) {
@@ -362,6 +410,19 @@ const EXT_TO_LANG: Record<string, string> = {
   '.hh': 'cpp',
   '.cxx': 'cpp',
   '.cs': 'csharp',
+  '.php': 'php',
+  '.kt': 'kotlin',
+  '.kts': 'kotlin',
+  '.swift': 'swift',
+  '.scala': 'scala',
+  '.sc': 'scala',
+  '.proto': 'protobuf',
+  '.graphql': 'graphql',
+  '.graphqls': 'graphql',
+  '.gql': 'graphql',
+  '.sql': 'sql',
+  '.ipynb': 'notebook',
+  '.mdx': 'mdx',
 };
 
 /**
@@ -370,6 +431,10 @@ const EXT_TO_LANG: Record<string, string> = {
  * configured language when it includes c or cpp.
  */
 export function getLanguageFromPath(filePath: string, projectLanguages?: string[]): string {
+  if (isOpenApiFile(filePath)) return 'openapi';
+  if (isComposeFile(filePath)) return 'compose';
+  if (isKubernetesManifest(filePath)) return 'kubernetes';
+
   const ext = path.extname(filePath).toLowerCase();
   const direct = EXT_TO_LANG[ext];
 
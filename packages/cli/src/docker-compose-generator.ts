@@ -219,6 +219,7 @@ function indexerService(
 
   const env: Record<string, string> = {
     GITHUB_TOKEN: '${GITHUB_TOKEN:-}',
+    WEBHOOK_SECRET: '${WEBHOOK_SECRET:-}',
     CRON: `\${CRON:-${config.cron ?? '0 */6 * * *'}}`,
     QDRANT_URL: qdrantUrl,
   };
@@ -11,6 +11,10 @@ import { groupsCommand } from './commands/groups.js';
 import { addCommand, listCommand, removeCommand } from './commands/projects.js';
 import { startCommand, stopCommand, restartCommand } from './commands/lifecycle.js';
 import { editCommand } from './commands/edit.js';
+import { tokensCommand } from './commands/tokens.js';
+import { symbolCommand } from './commands/symbol.js';
+import { graphCommand } from './commands/graph.js';
+import { jobsCommand } from './commands/jobs.js';
 
 // Read version from the package's own package.json so `paparats --version`
 // stays in sync with the published npm version automatically. The compiled
@@ -32,8 +36,12 @@ program.addCommand(restartCommand);
 program.addCommand(editCommand);
 program.addCommand(updateCommand);
 program.addCommand(searchCommand);
+program.addCommand(symbolCommand);
+program.addCommand(graphCommand);
 program.addCommand(statusCommand);
+program.addCommand(jobsCommand);
 program.addCommand(doctorCommand);
 program.addCommand(groupsCommand);
+program.addCommand(tokensCommand);
 
 program.parse();
@@ -107,6 +107,8 @@ export interface ProjectsFile {
     language?: string | string[];
     [key: string]: unknown;
   };
+  /** Per-host credentials and link templates; passed through to the indexer untouched. */
+  hosts?: Record<string, unknown>;
   repos: ProjectEntry[];
 }
 
@@ -126,7 +128,9 @@ export function readProjectsFile(home: string = PAPARATS_HOME): ProjectsFile {
   const obj = parsed as Record<string, unknown>;
   const repos = Array.isArray(obj['repos']) ? (obj['repos'] as ProjectEntry[]) : [];
   const defaults = obj['defaults'] as ProjectsFile['defaults'];
-  return defaults ? { defaults, repos } : { repos };
+  const hosts = obj['hosts'] as ProjectsFile['hosts'];
+  // `repos` goes last so add-hints splice into the tail of the file.
+  return { ...(defaults ? { defaults } : {}), ...(hosts ? { hosts } : {}), repos };
 }
 
 export interface WriteProjectsOptions {
@@ -171,7 +175,8 @@ const HEADER = `# paparats-mcp — project list (read by indexer at /config/proj
 #
 # Per-entry fields (path OR url required; everything else optional):
 #   path: /absolute/host/path         # local bind-mount  (mutex with url)
-#   url:  owner/repo                  # remote git repo   (mutex with path)
+#   url:  owner/repo                  # remote git repo   (mutex with path); GitHub shorthand or any clone URL
+#   clone: { depth: 50, filter: blob:none }  # shallow / partial clone (remote only)
 #   name: my-project                  # override derived name
 #   group: my-team                    # Qdrant collection bucket (default: defaults.group → 'default')
 #   language: ruby                    # or [ruby, javascript]; auto-detected on \`paparats add\` from marker files
@@ -183,6 +188,10 @@ const HEADER = `# paparats-mcp — project list (read by indexer at /config/proj
 #   metadata:
 #     git: { enabled: true, lookbackDays: 365 }
 #
+# Credentials and web links for non-GitHub hosts go in a top-level map, secrets by env var:
+#   hosts:
+#     gitlab.example.com: { type: gitlab, username: oauth2, password_env: GITLAB_TOKEN }
+#
 # Built-in per-language exclude defaults (node_modules, vendor, tmp, …) are applied automatically
 # based on \`language:\`. New entries added via \`paparats add\` include a commented \`exclude_extra:\`
 # starter showing those defaults, so you can see what's already in effect and uncomment to add more.
@@ -286,7 +295,7 @@ export function resolveProjectName(entry: ProjectEntry): string {
   if (entry.name && entry.name.trim()) return entry.name.trim();
   if (entry.path) return path.basename(entry.path);
   if (entry.url) {
-    // url is "owner/repo"
+    // url is "owner/repo" or a clone URL ending in the repo name
     const parts = entry.url.split('/');
     const last = parts[parts.length - 1] ?? '';
     return last.replace(/\.git$/, '');
@@ -59,7 +59,9 @@ describe('ApiClient', () => {
           req.on('end', () => {
             const data = JSON.parse(body || '{}');
             res.writeHead(200);
-            res.end(JSON.stringify({ results: [], total: 0, query: data.query }));
+            res.end(
+              JSON.stringify({ results: [], total: 0, query: data.query, filters: data.filters })
+            );
           });
         } else if (req.url === '/api/index') {
           let body = '';
@@ -82,6 +84,13 @@ describe('ApiClient', () => {
         } else if (req.url === '/api/file-deleted') {
           res.writeHead(200);
           res.end(JSON.stringify({ status: 'ok', message: 'File removed from index' }));
+        } else if (req.url?.startsWith('/api/symbol?')) {
+          const params = new URL(req.url, 'http://localhost').searchParams;
+          res.writeHead(200);
+          res.end(JSON.stringify({ results: [], total: 0, params: Object.fromEntries(params) }));
+        } else if (req.url?.startsWith('/api/graph/')) {
+          res.writeHead(200, { 'Content-Type': 'text/vnd.graphviz' });
+          res.end(`digraph "${req.url}" {}`);
         } else if (req.url === '/api/stats') {
           res.writeHead(200);
           res.end(JSON.stringify({ groups: {}, cache: {}, watcher: {}, usage: {} }));
@@ -123,6 +132,18 @@ describe('ApiClient', () => {
       expect((res.data as { results?: unknown[] }).results).toEqual([]);
     });
 
+    it('search sends filters only when set', async () => {
+      const withFilters = await client.search('g', 'foo', {
+        filters: { languages: ['go'], paths: ['internal/**'] },
+      });
+      expect((withFilters.data as { filters?: unknown }).filters).toEqual({
+        languages: ['go'],
+        paths: ['internal/**'],
+      });
+      const without = await client.search('g', 'foo');
+      expect((without.data as { filters?: unknown }).filters).toBeUndefined();
+    });
+
     it('indexContent sends group, project, files and returns data', async () => {
       const res = await client.indexContent('g', 'p', [
         { path: 'src/foo.ts', content: 'const x = 1;', language: 'typescript' },
@@ -145,6 +166,35 @@ describe('ApiClient', () => {
       expect((res.data as { message?: string }).message).toBe('File removed from index');
     });
 
+    it('findSymbol sends the lookup as query parameters', async () => {
+      const res = await client.findSymbol('parseChunkId', {
+        group: 'g',
+        mode: 'prefix',
+        kinds: ['function', 'method'],
+        limit: 3,
+      });
+      expect(res.status).toBe(200);
+      expect((res.data as unknown as { params: Record<string, string> }).params).toEqual({
+        name: 'parseChunkId',
+        group: 'g',
+        mode: 'prefix',
+        kinds: 'function,method',
+        limit: '3',
+      });
+    });
+
+    it('exportGraph returns the rendered document as text', async () => {
+      const res = await client.exportGraph('my group', {
+        project: 'p',
+        path: 'src',
+        level: 'file',
+        format: 'dot',
+      });
+      expect(res.data).toBe(
+        'digraph "/api/graph/my%20group?project=p&path=src&level=file&format=dot" {}'
+      );
+    });
+
     it('stats returns 200', async () => {
       const res = await client.stats();
       expect(res.status).toBe(200);
@@ -289,6 +339,55 @@ describe('ApiClient', () => {
     });
   });
 
+  describe('authorization', () => {
+    let server: Server;
+    let port: number;
+    let seen: Array<{ method?: string; url?: string; auth?: string }>;
+
+    beforeEach(async () => {
+      seen = [];
+      server = await createTestServer((req, res) => {
+        seen.push({ method: req.method, url: req.url, auth: req.headers.authorization });
+        res.setHeader('Content-Type', 'application/json');
+        res.writeHead(200);
+        res.end(JSON.stringify({ tokens: [], revoked: 'abc' }));
+      });
+      port = getPort(server);
+    });
+
+    afterEach(async () => {
+      vi.unstubAllEnvs();
+      await new Promise<void>((resolve, reject) => {
+        server.close((err) => (err ? reject(err) : resolve()));
+      });
+    });
+
+    it('sends no Authorization header without a token', async () => {
+      vi.stubEnv('PAPARATS_TOKEN', '');
+      await new ApiClient(`http://127.0.0.1:${port}`).stats();
+      expect(seen[0]!.auth).toBeUndefined();
+    });
+
+    it('sends the API token as a bearer, defaulting to PAPARATS_TOKEN', async () => {
+      await new ApiClient({ baseUrl: `http://127.0.0.1:${port}`, token: 'ppt_a' }).stats();
+      vi.stubEnv('PAPARATS_TOKEN', 'ppt_env');
+      await new ApiClient(`http://127.0.0.1:${port}`).stats();
+      expect(seen.map((r) => r.auth)).toEqual(['Bearer ppt_a', 'Bearer ppt_env']);
+    });
+
+    it('token admin calls use the admin token instead of the API token', async () => {
+      const client = new ApiClient({ baseUrl: `http://127.0.0.1:${port}`, token: 'ppt_a' });
+      await client.listTokens('admin', { all: true });
+      await client.createToken('admin', 'alice', { label: 'ci' });
+      await client.revokeToken('admin', 'abc');
+      expect(seen).toEqual([
+        { method: 'GET', url: '/api/tokens?all=true', auth: 'Bearer admin' },
+        { method: 'POST', url: '/api/tokens', auth: 'Bearer admin' },
+        { method: 'DELETE', url: '/api/tokens/abc', auth: 'Bearer admin' },
+      ]);
+    });
+  });
+
   describe('debug logging', () => {
     it('does not log when debug is false', async () => {
       const server = await createTestServer((_req, res) => {
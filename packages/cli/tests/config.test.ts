@@ -229,6 +229,20 @@ embeddings:
       expect(detectLanguage(tmpDir)).toBe('csharp');
     });
 
+    it('detects kotlin from build.gradle.kts rather than java', () => {
+      fs.writeFileSync(path.join(tmpDir, 'build.gradle.kts'), '');
+      expect(detectLanguage(tmpDir)).toBe('kotlin');
+    });
+
+    it('detects php, swift and scala from their manifests', () => {
+      fs.writeFileSync(path.join(tmpDir, 'composer.json'), '{}');
+      expect(detectLanguage(tmpDir)).toBe('php');
+      fs.writeFileSync(path.join(tmpDir, 'Package.swift'), '');
+      expect(detectLanguage(tmpDir)).toBe('swift');
+      fs.writeFileSync(path.join(tmpDir, 'build.sbt'), '');
+      expect(detectLanguage(tmpDir)).toBe('scala');
+    });
+
     it('detectLanguages returns multiple when project has both', () => {
       fs.writeFileSync(path.join(tmpDir, 'package.json'), '{}');
       fs.writeFileSync(path.join(tmpDir, 'requirements.txt'), '');
@@ -256,6 +270,15 @@ embeddings:
       expect(SUPPORTED_LANGUAGES).toContain('typescript');
       expect(SUPPORTED_LANGUAGES).toContain('csharp');
       expect(SUPPORTED_LANGUAGES).toContain('rust');
+      expect(SUPPORTED_LANGUAGES).toContain('kotlin');
+      expect(SUPPORTED_LANGUAGES).toContain('php');
+      expect(SUPPORTED_LANGUAGES).toContain('protobuf');
+      expect(SUPPORTED_LANGUAGES).toContain('openapi');
+      expect(SUPPORTED_LANGUAGES).toContain('sql');
+      expect(SUPPORTED_LANGUAGES).toContain('kubernetes');
+      expect(SUPPORTED_LANGUAGES).toContain('compose');
+      expect(SUPPORTED_LANGUAGES).toContain('notebook');
+      expect(SUPPORTED_LANGUAGES).toContain('mdx');
     });
   });
 
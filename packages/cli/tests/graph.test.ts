@@ -0,0 +1,84 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  buildGraphExportOptions,
+  runGraphExport,
+  type GraphClient,
+} from '../src/commands/graph.js';
+
+function createMockClient(body = 'digraph "g" {\n}\n'): GraphClient & {
+  exportGraph: ReturnType<typeof vi.fn>;
+} {
+  return { exportGraph: vi.fn().mockResolvedValue({ status: 200, data: body }) };
+}
+
+describe('graph export', () => {
+  let writeSpy: ReturnType<typeof vi.spyOn>;
+  let errorSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    writeSpy = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    writeSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+
+  it('builds request options from flags', () => {
+    expect(
+      buildGraphExportOptions({
+        project: 'billing',
+        path: 'src/api',
+        level: 'file',
+        format: 'graphml',
+        limit: '100',
+      })
+    ).toEqual({
+      project: 'billing',
+      path: 'src/api',
+      chunk: undefined,
+      depth: undefined,
+      level: 'file',
+      format: 'graphml',
+      limit: 100,
+    });
+    expect(buildGraphExportOptions({})).toMatchObject({ level: 'chunk', format: 'json' });
+  });
+
+  it('rejects bad flags before calling the server', () => {
+    expect(() => buildGraphExportOptions({ format: 'svg' })).toThrow('Invalid format');
+    expect(() => buildGraphExportOptions({ level: 'module' })).toThrow('Invalid level');
+    expect(() => buildGraphExportOptions({ path: 'src' })).toThrow('--path requires --project');
+    expect(() => buildGraphExportOptions({ chunk: 'g//p//a.ts//1-2//h', project: 'p' })).toThrow(
+      '--chunk cannot be combined'
+    );
+    expect(() => buildGraphExportOptions({ chunk: 'x', depth: '4' })).toThrow('Invalid depth');
+    expect(() => buildGraphExportOptions({ limit: '0' })).toThrow('Invalid limit');
+  });
+
+  it('writes the document to stdout', async () => {
+    const client = createMockClient();
+    await runGraphExport(client, 'backend', { format: 'dot' });
+    expect(client.exportGraph).toHaveBeenCalledWith(
+      'backend',
+      expect.objectContaining({ format: 'dot' })
+    );
+    expect(writeSpy).toHaveBeenCalledWith('digraph "g" {\n}\n');
+  });
+
+  it('writes to --output and adds a trailing newline', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'paparats-graph-'));
+    try {
+      const output = path.join(dir, 'graph.json');
+      await runGraphExport(createMockClient('{"nodes":[]}'), 'backend', { output });
+      expect(fs.readFileSync(output, 'utf8')).toBe('{"nodes":[]}\n');
+      expect(writeSpy).not.toHaveBeenCalled();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { runJobs, type IndexerJob } from '../src/commands/jobs.js';
+
+const job: IndexerJob = {
+  id: '0192f0c4-1111-7000-8000-000000000001',
+  kind: 'index',
+  trigger: 'manual',
+  repos: ['org/app'],
+  force: false,
+  status: 'running',
+  attempts: 1,
+  maxAttempts: 3,
+  runAfter: '2026-10-19T10:00:00.000Z',
+  error: null,
+  createdAt: '2026-10-19T10:00:00.000Z',
+  startedAt: '2026-10-19T10:00:01.000Z',
+  finishedAt: null,
+  progress: [
+    {
+      repo: 'org/app',
+      status: 'running',
+      phase: 'embed',
+      filesProcessed: 120,
+      filesTotal: 400,
+      chunks: 830,
+      error: null,
+    },
+  ],
+};
+
+describe('runJobs', () => {
+  let logSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+  });
+
+  const output = () => logSpy.mock.calls.map((c) => String(c[0])).join('\n');
+
+  it('lists jobs with their filters and repo progress', async () => {
+    const request = vi.fn().mockResolvedValue({ status: 200, data: { jobs: [job] } });
+    const jobs = await runJobs(undefined, { status: 'running', limit: 5 }, { request });
+
+    expect(request).toHaveBeenCalledWith('GET', '/jobs?status=running&limit=5');
+    expect(jobs).toEqual([job]);
+    expect(output()).toContain('0/1 repos');
+    expect(output()).toContain('1/3');
+  });
+
+  it('shows one job with per-repo phase and counts', async () => {
+    const request = vi.fn().mockResolvedValue({ status: 200, data: job });
+    await runJobs(job.id, {}, { request });
+
+    expect(request).toHaveBeenCalledWith('GET', `/jobs/${job.id}`);
+    expect(output()).toContain('embed, 120/400 files, 830 chunks');
+  });
+
+  it('cancels a job and surfaces indexer errors', async () => {
+    const request = vi
+      .fn()
+      .mockResolvedValueOnce({ status: 202, data: job })
+      .mockResolvedValueOnce({ status: 409, data: { error: 'Job already succeeded' } });
+
+    await runJobs(job.id, { cancel: true, json: true }, { request });
+    expect(request).toHaveBeenCalledWith('POST', `/jobs/${job.id}/cancel`);
+    expect(JSON.parse(output())).toMatchObject({ id: job.id });
+
+    await expect(runJobs(job.id, { cancel: true }, { request })).rejects.toThrow(
+      'Job already succeeded'
+    );
+    await expect(runJobs(undefined, { cancel: true }, { request })).rejects.toThrow(/job id/);
+  });
+});
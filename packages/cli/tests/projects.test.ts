@@ -39,6 +39,8 @@ describe('detectKind', () => {
     ['git@github.com:org/repo.git', 'remote'],
     ['https://github.com/org/repo.git', 'remote'],
     ['org/repo', 'remote'],
+    ['ssh://git@git.example.com:7999/proj/repo.git', 'remote'],
+    ['https://gitlab.example.com/team/sub/repo', 'remote'],
     // Disambiguate locals: anything that LOOKS like owner/repo we treat as remote.
     // The user must pass an absolute path for local projects.
     ['/var/log/billing', 'local'],
@@ -95,6 +97,21 @@ describe('runAdd', () => {
     expect(file.repos[0]!.url).toBe('acme/widgets');
   });
 
+  it('keeps the clone URL of a non-GitHub host and the hosts map', async () => {
+    fs.writeFileSync(
+      path.join(tmpHome, 'projects.yml'),
+      'hosts:\n  gitlab.example.com:\n    type: gitlab\nrepos: []\n'
+    );
+    await runAdd(
+      'git@gitlab.example.com:team/billing.git',
+      { paparatsHome: tmpHome },
+      { restartStack: vi.fn(), triggerReindex: vi.fn().mockResolvedValue(undefined) }
+    );
+    const file = readYml();
+    expect(file.repos[0]!.url).toBe('git@gitlab.example.com:team/billing.git');
+    expect(file.hosts).toEqual({ 'gitlab.example.com': { type: 'gitlab' } });
+  });
+
   it('--no-restart skips restart on local add', async () => {
     const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sample-'));
     const restart = vi.fn();
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import {
   runSearch,
+  buildSearchFilters,
   validateSearchResponse,
   type SearchResponseData,
 } from '../src/commands/search.js';
@@ -247,6 +248,24 @@ describe('search', () => {
       expect(client.search).toHaveBeenCalledWith('config-group', 'foo', expect.any(Object));
     });
 
+    it('passes filters to client', async () => {
+      const client = mockSearch({ status: 200, data: validData });
+      const spinner = createMockSpinner();
+
+      await runSearch(
+        client,
+        'foo',
+        { group: 'my-group', filters: { languages: ['go'], kinds: ['method'] } },
+        { spinner }
+      );
+
+      expect(client.search).toHaveBeenCalledWith(
+        'my-group',
+        'foo',
+        expect.objectContaining({ filters: { languages: ['go'], kinds: ['method'] } })
+      );
+    });
+
     it('passes limit and timeout to client', async () => {
       const client = mockSearch({ status: 200, data: validData });
       const spinner = createMockSpinner();
@@ -291,3 +310,34 @@ describe('search', () => {
     });
   });
 });
+
+describe('buildSearchFilters', () => {
+  it('returns undefined when no filter flag is set', () => {
+    expect(buildSearchFilters({})).toBeUndefined();
+    expect(buildSearchFilters({ language: ' , ' })).toBeUndefined();
+  });
+
+  it('splits comma-separated lists and maps flag names to filter fields', () => {
+    expect(
+      buildSearchFilters({
+        language: 'go, typescript',
+        kind: 'method',
+        path: 'internal/billing/**',
+        excludePath: '**/*_test.go,**/mocks/**',
+        tag: 'payments',
+        service: 'billing',
+        boundedContext: 'invoicing',
+        excludeTests: true,
+      })
+    ).toEqual({
+      languages: ['go', 'typescript'],
+      kinds: ['method'],
+      paths: ['internal/billing/**'],
+      exclude_paths: ['**/*_test.go', '**/mocks/**'],
+      tags: ['payments'],
+      service: 'billing',
+      bounded_context: 'invoicing',
+      exclude_tests: true,
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { buildSymbolOptions, runSymbol, type SymbolClient } from '../src/commands/symbol.js';
+
+const definition = {
+  chunk_id: 'backend//billing//src/invoice.ts//10-40//abc',
+  group: 'backend',
+  project: 'billing',
+  file: 'src/invoice.ts',
+  language: 'typescript',
+  startLine: 10,
+  endLine: 40,
+  kind: 'class',
+  symbol: 'InvoiceService',
+  match: 'exact' as const,
+  in_degree: 7,
+};
+
+function createMockClient(): SymbolClient & { findSymbol: ReturnType<typeof vi.fn> } {
+  return {
+    findSymbol: vi
+      .fn()
+      .mockResolvedValue({ status: 200, data: { results: [definition], total: 1 } }),
+  };
+}
+
+describe('symbol', () => {
+  let logSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+  });
+
+  function output(): string {
+    return logSpy.mock.calls.map((c) => c.join(' ')).join('\n');
+  }
+
+  it('builds request options from flags', () => {
+    expect(
+      buildSymbolOptions({
+        group: 'backend',
+        project: 'all',
+        mode: 'prefix',
+        kind: 'class, interface',
+        limit: '5',
+      })
+    ).toEqual({
+      group: 'backend',
+      project: undefined,
+      mode: 'prefix',
+      kinds: ['class', 'interface'],
+      limit: 5,
+    });
+    expect(buildSymbolOptions({})).toMatchObject({ mode: 'exact', kinds: undefined });
+  });
+
+  it('rejects a bad mode or limit', () => {
+    expect(() => buildSymbolOptions({ mode: 'regex' })).toThrow('Invalid mode');
+    expect(() => buildSymbolOptions({ limit: '0' })).toThrow('Invalid limit');
+    expect(() => buildSymbolOptions({ limit: '500' })).toThrow('Invalid limit');
+  });
+
+  it('prints each definition with its location and chunk id', async () => {
+    const client = createMockClient();
+    const results = await runSymbol(client, 'InvoiceService', { project: 'billing' });
+    expect(client.findSymbol).toHaveBeenCalledWith(
+      'InvoiceService',
+      expect.objectContaining({ project: 'billing', mode: 'exact' })
+    );
+    expect(results).toHaveLength(1);
+    const text = output();
+    expect(text).toContain('[billing]');
+    expect(text).toContain('src/invoice.ts');
+    expect(text).toContain('10-40');
+    expect(text).toContain('7 incoming');
+    expect(text).toContain(definition.chunk_id);
+  });
+
+  it('--json prints the raw results', async () => {
+    const client = createMockClient();
+    await runSymbol(client, 'InvoiceService', { json: true });
+    expect(JSON.parse(String(logSpy.mock.calls[0]![0]))).toEqual([definition]);
+  });
+
+  it('suggests looser modes when an exact lookup finds nothing', async () => {
+    const client = createMockClient();
+    client.findSymbol.mockResolvedValue({ status: 200, data: { results: [], total: 0 } });
+    await runSymbol(client, 'Invoice');
+    expect(output()).toContain('--mode prefix');
+  });
+
+  it('surfaces server errors', async () => {
+    const client = createMockClient();
+    client.findSymbol.mockRejectedValue(new Error('HTTP 403: Access denied'));
+    await expect(runSymbol(client, 'X')).rejects.toThrow('HTTP 403');
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  runTokensCreate,
+  runTokensList,
+  runTokensRevoke,
+  type TokensClient,
+} from '../src/commands/tokens.js';
+
+const issued = {
+  id: 'a1b2c3',
+  user: 'alice',
+  label: 'laptop',
+  createdAt: Date.UTC(2026, 0, 2, 3, 4),
+  lastUsedAt: null,
+  revokedAt: null,
+  groups: null,
+  projects: null,
+  audiences: null,
+  token: 'ppt_secret',
+};
+
+function createMockClient(): TokensClient & {
+  listTokens: ReturnType<typeof vi.fn>;
+  createToken: ReturnType<typeof vi.fn>;
+  revokeToken: ReturnType<typeof vi.fn>;
+} {
+  const meta = { ...issued, token: undefined };
+  return {
+    listTokens: vi.fn().mockResolvedValue({ status: 200, data: { tokens: [meta] } }),
+    createToken: vi.fn().mockResolvedValue({ status: 201, data: issued }),
+    revokeToken: vi.fn().mockResolvedValue({ status: 200, data: { revoked: issued.id } }),
+  };
+}
+
+describe('tokens', () => {
+  let logSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.stubEnv('PAPARATS_ADMIN_TOKEN', '');
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    vi.unstubAllEnvs();
+  });
+
+  function output(): string {
+    return logSpy.mock.calls.map((c) => c.join(' ')).join('\n');
+  }
+
+  it('requires an admin token', async () => {
+    const client = createMockClient();
+    await expect(runTokensList(client)).rejects.toThrow('Admin token required');
+    expect(client.listTokens).not.toHaveBeenCalled();
+  });
+
+  it('falls back to PAPARATS_ADMIN_TOKEN', async () => {
+    vi.stubEnv('PAPARATS_ADMIN_TOKEN', 'env-admin');
+    const client = createMockClient();
+    await runTokensList(client);
+    expect(client.listTokens).toHaveBeenCalledWith('env-admin', { all: undefined });
+  });
+
+  it('create prints the plaintext token once', async () => {
+    const client = createMockClient();
+    const result = await runTokensCreate(client, 'alice', { adminToken: 'adm', label: 'laptop' });
+    expect(client.createToken).toHaveBeenCalledWith('adm', 'alice', { label: 'laptop' });
+    expect(result.token).toBe('ppt_secret');
+    expect(output()).toContain('ppt_secret');
+    expect(output()).toContain('a1b2c3');
+  });
+
+  it('create passes --groups/--projects/--audiences as lists', async () => {
+    const client = createMockClient();
+    client.createToken.mockResolvedValue({
+      status: 201,
+      data: { ...issued, groups: ['backend'], projects: ['billing', 'ledger'] },
+    });
+    await runTokensCreate(client, 'alice', {
+      adminToken: 'adm',
+      groups: 'backend',
+      projects: 'billing, ledger',
+    });
+    expect(client.createToken).toHaveBeenCalledWith('adm', 'alice', {
+      label: undefined,
+      groups: ['backend'],
+      projects: ['billing', 'ledger'],
+      audiences: undefined,
+    });
+    expect(output()).toContain('Access: groups=backend projects=billing,ledger');
+  });
+
+  it('create --json prints the issued record', async () => {
+    const client = createMockClient();
+    await runTokensCreate(client, 'alice', { adminToken: 'adm', json: true });
+    expect(JSON.parse(String(logSpy.mock.calls[0]![0]))).toEqual(issued);
+  });
+
+  it('list prints a table without token values', async () => {
+    const client = createMockClient();
+    const tokens = await runTokensList(client, { adminToken: 'adm' });
+    expect(tokens).toHaveLength(1);
+    const text = output();
+    expect(text).toContain('LAST USED');
+    expect(text).toContain('alice');
+    expect(text).toContain('2026-01-02 03:04');
+    expect(text).toContain('ACCESS');
+    expect(text).not.toContain('REVOKED');
+    expect(text).not.toContain('ppt_secret');
+  });
+
+  it('list --all adds the revoked column', async () => {
+    const client = createMockClient();
+    await runTokensList(client, { adminToken: 'adm', all: true });
+    expect(client.listTokens).toHaveBeenCalledWith('adm', { all: true });
+    expect(output()).toContain('REVOKED');
+  });
+
+  it('list reports an empty server', async () => {
+    const client = createMockClient();
+    client.listTokens.mockResolvedValue({ status: 200, data: { tokens: [] } });
+    await runTokensList(client, { adminToken: 'adm' });
+    expect(output()).toContain('No API tokens');
+  });
+
+  it('revoke calls the server with the id', async () => {
+    const client = createMockClient();
+    await runTokensRevoke(client, 'a1b2c3', { adminToken: 'adm' });
+    expect(client.revokeToken).toHaveBeenCalledWith('adm', 'a1b2c3');
+    expect(output()).toContain('Revoked token a1b2c3');
+  });
+
+  it('surfaces server errors', async () => {
+    const client = createMockClient();
+    client.revokeToken.mockRejectedValue(new Error('HTTP 404: Token not found'));
+    await expect(runTokensRevoke(client, 'nope', { adminToken: 'adm' })).rejects.toThrow(
+      'HTTP 404'
+    );
+  });
+});
@@ -0,0 +1,110 @@
+import { remoteGit } from './git-hosts.js';
+import type { RepoConfig } from './types.js';
+
+/** Branch heads of a remote, as reported by `git ls-remote --symref`. */
+export interface RemoteBranches {
+  /** Branch HEAD points at; null when the remote doesn't say. */
+  defaultBranch: string | null;
+  /** Branch name → head sha. */
+  heads: Map<string, string>;
+}
+
+const HEADS_PREFIX = 'refs/heads/';
+
+/**
+ * Parse `git ls-remote --symref <url>`:
+ *   ref: refs/heads/main    HEAD
+ *   <sha>    HEAD
+ *   <sha>    refs/heads/main
+ *   <sha>    refs/tags/v1
+ * Only branch heads are kept; tags, pull refs and HEAD itself are skipped.
+ */
+export function parseLsRemoteBranches(output: string): RemoteBranches {
+  let defaultBranch: string | null = null;
+  const heads = new Map<string, string>();
+  for (const line of output.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    const parts = trimmed.split(/\s+/);
+    if (parts[0] === 'ref:') {
+      if (parts[2] === 'HEAD' && parts[1]?.startsWith(HEADS_PREFIX)) {
+        defaultBranch = parts[1].slice(HEADS_PREFIX.length);
+      }
+      continue;
+    }
+    const [sha, ref] = parts;
+    if (!sha || !ref?.startsWith(HEADS_PREFIX) || !/^[0-9a-f]{40}$/.test(sha)) continue;
+    heads.set(ref.slice(HEADS_PREFIX.length), sha);
+  }
+  return { defaultBranch, heads };
+}
+
+/** List a remote repo's branches without a working copy. */
+export async function listRemoteBranches(repo: RepoConfig): Promise<RemoteBranches> {
+  const output = await remoteGit(repo).listRemote(['--symref', repo.url]);
+  return parseLsRemoteBranches(output);
+}
+
+/** Whether `pattern` has glob characters, i.e. names a set of branches. */
+export function isBranchPattern(pattern: string): boolean {
+  return pattern.includes('*') || pattern.includes('?');
+}
+
+/**
+ * Match a branch name against a `branches:` entry. `*` and `?` stay within
+ * one path segment (`release/*` matches `release/2.x`, not `release/2.x/rc`);
+ * `**` crosses segments. Anything else matches literally.
+ */
+export function matchBranch(branch: string, pattern: string): boolean {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i]!;
+    if (ch === '*' && pattern[i + 1] === '*') {
+      source += '.*';
+      i++;
+    } else if (ch === '*') {
+      source += '[^/]*';
+    } else if (ch === '?') {
+      source += '[^/]';
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`).test(branch);
+}
+
+/**
+ * Branches of a remote selected by `patterns`, sorted. The default branch is
+ * never a variant — the plain project already covers it. A literal name the
+ * remote doesn't have is reported in `missing` rather than silently dropped.
+ */
+export function selectBranches(
+  patterns: string[],
+  remote: RemoteBranches
+): { branches: string[]; missing: string[] } {
+  const selected = new Set<string>();
+  const missing: string[] = [];
+  for (const pattern of patterns) {
+    if (!isBranchPattern(pattern)) {
+      if (remote.heads.has(pattern)) selected.add(pattern);
+      else missing.push(pattern);
+      continue;
+    }
+    for (const branch of remote.heads.keys()) {
+      if (matchBranch(branch, pattern)) selected.add(branch);
+    }
+  }
+  if (remote.defaultBranch) selected.delete(remote.defaultBranch);
+  return { branches: [...selected].sort(), missing };
+}
+
+/**
+ * The repo as indexed on `branch`: its own checkout and bookkeeping key
+ * (`org/repo@branch`), the same name and overrides. The server names the
+ * project `<name>@<branch>`.
+ */
+export function branchVariant(repo: RepoConfig, branch: string): RepoConfig {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { branches: _branches, ...rest } = repo;
+  return { ...rest, branch, fullName: `${repo.fullName}@${branch}` };
+}
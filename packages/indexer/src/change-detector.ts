@@ -1,10 +1,10 @@
 import fs from 'fs';
 import path from 'path';
 import crypto from 'crypto';
-import { simpleGit } from 'simple-git';
 import { glob } from 'glob';
 import { filterFilesByGitignore } from '@paparats/shared';
 import type { ProjectConfig } from '@paparats/server';
+import { remoteGit } from './git-hosts.js';
 import type { RepoConfig } from './types.js';
 
 export interface Fingerprint {
@@ -13,8 +13,8 @@ export interface Fingerprint {
 }
 
 /**
- * Remote-git detector. Queries `git ls-remote <url> HEAD` and uses the SHA as
- * the fingerprint. No working copy required — this is what makes the fast
+ * Remote-git detector. Queries `git ls-remote <url> HEAD` — or the branch head
+ * for a branch variant — and uses the SHA as the fingerprint. No working copy required — this is what makes the fast
  * cron cheap for cloud repos.
  *
  * Any failure to compute a fingerprint surfaces as a thrown error; callers
@@ -25,7 +25,15 @@ export class GitDetector {
     if (!repo.url) {
       throw new Error(`GitDetector requires a remote url; got empty for ${repo.fullName}`);
     }
-    const git = simpleGit();
+    const git = remoteGit(repo);
+    if (repo.branch) {
+      const ref = `refs/heads/${repo.branch}`;
+      const sha = parseLsRemoteRef(await git.listRemote([repo.url, ref]), ref);
+      if (!sha) {
+        throw new Error(`Branch ${repo.branch} not found on the remote for ${repo.fullName}`);
+      }
+      return { kind: 'git', value: sha };
+    }
     const result = await git.listRemote(['--symref', repo.url, 'HEAD']);
     const sha = parseLsRemoteHead(result);
     if (!sha) {
@@ -110,3 +118,12 @@ export function parseLsRemoteHead(output: string): string | null {
   }
   return null;
 }
+
+/** The sha of exactly `ref` in `git ls-remote` output, or null when absent. */
+export function parseLsRemoteRef(output: string, ref: string): string | null {
+  for (const line of output.split('\n')) {
+    const [sha, name] = line.trim().split(/\s+/);
+    if (name === ref && sha && /^[0-9a-f]{40}$/.test(sha)) return sha;
+  }
+  return null;
+}
@@ -1,7 +1,14 @@
 import fs from 'fs';
 import path from 'path';
 import * as yaml from 'js-yaml';
-import type { RepoConfig, IndexerFileConfig, RepoOverrides } from './types.js';
+import { remoteRepo } from './git-hosts.js';
+import type {
+  CloneOptions,
+  GitHostConfig,
+  RepoConfig,
+  IndexerFileConfig,
+  RepoOverrides,
+} from './types.js';
 
 /** Current name. */
 const CONFIG_FILE = 'projects.yml';
@@ -63,6 +70,85 @@ function mergeOverrides(
   return merged;
 }
 
+const HOST_TYPES = ['github', 'gitlab', 'bitbucket', 'gitea'];
+const HOST_STRING_FIELDS = [
+  'token_env',
+  'token_header',
+  'username',
+  'password_env',
+  'ssh_key',
+  'known_hosts',
+] as const;
+const LINK_FIELDS = ['commit', 'issue', 'ticket'] as const;
+
+/**
+ * Validate the `hosts:` map. Credentials are named by env var, so a host
+ * entry never holds a secret itself.
+ */
+function parseHosts(raw: unknown): Record<string, GitHostConfig> | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Invalid indexer config: "hosts" must map hostnames to host settings');
+  }
+  const hosts: Record<string, GitHostConfig> = {};
+  for (const [name, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new Error(`Invalid host "${name}": expected an object`);
+    }
+    const host = value as Record<string, unknown>;
+    if (host['type'] !== undefined && !HOST_TYPES.includes(host['type'] as string)) {
+      throw new Error(`Invalid host "${name}": "type" must be one of ${HOST_TYPES.join(', ')}`);
+    }
+    for (const field of HOST_STRING_FIELDS) {
+      const v = host[field];
+      if (v !== undefined && (typeof v !== 'string' || !v.trim())) {
+        throw new Error(`Invalid host "${name}": "${field}" must be a non-empty string`);
+      }
+    }
+    if (host['token_header'] !== undefined && !String(host['token_header']).includes('{token}')) {
+      throw new Error(`Invalid host "${name}": "token_header" must contain {token}`);
+    }
+    if ((host['username'] === undefined) !== (host['password_env'] === undefined)) {
+      throw new Error(`Invalid host "${name}": "username" and "password_env" go together`);
+    }
+    const links = host['links'];
+    if (links !== undefined) {
+      const valid =
+        !!links &&
+        typeof links === 'object' &&
+        Object.entries(links).every(
+          ([k, v]) => (LINK_FIELDS as readonly string[]).includes(k) && typeof v === 'string'
+        );
+      if (!valid) {
+        throw new Error(
+          `Invalid host "${name}": "links" takes ${LINK_FIELDS.join(', ')} URL templates`
+        );
+      }
+    }
+    hosts[name.toLowerCase()] = host as GitHostConfig;
+  }
+  return hosts;
+}
+
+/** Validate a `clone:` block: a positive integer depth and / or a filter spec. */
+function parseCloneOptions(raw: unknown, where: string): CloneOptions | undefined {
+  if (raw === undefined) return undefined;
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`Invalid ${where}: "clone" must be an object with "depth" and/or "filter"`);
+  }
+  const { depth, filter } = raw as Record<string, unknown>;
+  if (depth !== undefined && (!Number.isInteger(depth) || (depth as number) < 1)) {
+    throw new Error(`Invalid ${where}: "clone.depth" must be a positive integer`);
+  }
+  if (filter !== undefined && (typeof filter !== 'string' || !filter.trim())) {
+    throw new Error(`Invalid ${where}: "clone.filter" must be a filter spec such as "blob:none"`);
+  }
+  return {
+    ...(depth !== undefined ? { depth: depth as number } : {}),
+    ...(filter !== undefined ? { filter: (filter as string).trim() } : {}),
+  };
+}
+
 /**
  * Parse a single repo entry from the config file into a RepoConfig.
  * Entry must have exactly one source: `url` (remote git) or `path` (local bind-mount).
@@ -70,7 +156,8 @@ function mergeOverrides(
 function parseRepoEntry(
   entry: IndexerFileConfig['repos'][number],
   defaults: IndexerFileConfig['defaults'],
-  token?: string
+  token?: string,
+  hosts?: Record<string, GitHostConfig>
 ): RepoConfig {
   const hasUrl = typeof entry.url === 'string' && entry.url.trim().length > 0;
   const hasPath = typeof entry.path === 'string' && entry.path.trim().length > 0;
@@ -84,9 +171,38 @@ function parseRepoEntry(
     throw new Error('Invalid repo entry: must set exactly one of "url" or "path"');
   }
 
-  // Extract overrides (everything except `url` / `path` / `name`)
+  if (entry.branches !== undefined) {
+    if (hasPath) {
+      throw new Error(
+        `Invalid repo entry "${entry.path}": "branches" needs a remote "url" — a local path has one working tree`
+      );
+    }
+    const valid =
+      Array.isArray(entry.branches) &&
+      entry.branches.every((b) => typeof b === 'string' && b.trim().length > 0);
+    if (!valid) {
+      throw new Error(
+        `Invalid repo entry "${entry.url}": "branches" must be a list of branch names or globs`
+      );
+    }
+  }
+
+  if (entry.clone !== undefined && hasPath) {
+    throw new Error(
+      `Invalid repo entry "${entry.path}": "clone" needs a remote "url" — a local path isn't cloned`
+    );
+  }
+
+  // Extract overrides (everything except `url` / `path` / `name` / `branches` / `clone`)
   /* eslint-disable @typescript-eslint/no-unused-vars */
-  const { url: _url, path: _path, name: _name, ...repoOverrides } = entry;
+  const {
+    url: _url,
+    path: _path,
+    name: _name,
+    branches: _branches,
+    clone: _clone,
+    ...repoOverrides
+  } = entry;
   /* eslint-enable @typescript-eslint/no-unused-vars */
   const overrides = mergeOverrides(defaults, repoOverrides);
 
@@ -109,23 +225,20 @@ function parseRepoEntry(
     };
   }
 
-  // Remote git repo path
-  const fullName = entry.url!.trim();
-  const parts = fullName.split('/');
-  if (parts.length !== 2 || !parts[0] || !parts[1]) {
-    throw new Error(`Invalid repo format: "${fullName}". Expected "owner/repo".`);
-  }
-  const [owner, repoName] = parts as [string, string];
-  const host = token ? `${token}@github.com` : 'github.com';
-  const url = `https://${host}/${owner}/${repoName}.git`;
-  const name = (entry.name?.trim() || repoName).trim();
+  // Remote git repo: GitHub shorthand or a clone URL on any host
+  const remote = remoteRepo(entry.url!, token, hosts);
+  const name = (entry.name?.trim() || remote.name).trim();
+  const branches = entry.branches?.map((b) => b.trim());
+  const clone =
+    parseCloneOptions(entry.clone, `repo entry "${entry.url}"`) ??
+    parseCloneOptions(defaults?.clone, 'defaults');
 
   return {
-    url,
-    owner,
+    ...remote,
     name,
-    fullName,
     overrides: Object.keys(overrides).length > 0 ? overrides : undefined,
+    ...(branches && branches.length > 0 ? { branches } : {}),
+    ...(clone ? { clone } : {}),
   };
 }
 
@@ -175,7 +288,8 @@ export function loadIndexerConfig(configPath: string, token?: string): LoadConfi
   }
   validateConfig(parsed);
 
-  const repos = parsed.repos.map((entry) => parseRepoEntry(entry, parsed.defaults, token));
+  const hosts = parseHosts(parsed.hosts);
+  const repos = parsed.repos.map((entry) => parseRepoEntry(entry, parsed.defaults, token, hosts));
 
   // Reject duplicate project names within the file (regardless of source).
   const seen = new Map<string, number>();
@@ -135,6 +135,7 @@ function sameRepo(a: RepoConfig, b: RepoConfig): boolean {
   if (a.url !== b.url) return false;
   if (a.localPath !== b.localPath) return false;
   if (a.fullName !== b.fullName) return false;
+  if (JSON.stringify(a.branches ?? []) !== JSON.stringify(b.branches ?? [])) return false;
   return JSON.stringify(a.overrides ?? {}) === JSON.stringify(b.overrides ?? {});
 }
 
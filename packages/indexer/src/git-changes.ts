@@ -0,0 +1,83 @@
+import path from 'path';
+import { simpleGit } from 'simple-git';
+
+/** Files touched between two commits, as project-relative paths. */
+export interface RepoChanges {
+  /** Added, modified, copied or type-changed files, plus the new side of renames. */
+  changed: string[];
+  /** Deleted files, plus the old side of renames. */
+  deleted: string[];
+}
+
+/** SHA of the checkout's HEAD. */
+export async function headCommit(localPath: string): Promise<string> {
+  return (await simpleGit(localPath).revparse(['HEAD'])).trim();
+}
+
+/**
+ * Files changed from `from` to `to` in a checkout, via
+ * `git diff --name-status`. Returns null when the diff can't stand in for a
+ * full walk: `from` is gone from the clone, or it is not an ancestor of `to`
+ * (a force-push rewrote history).
+ */
+export async function changedFilesSince(
+  localPath: string,
+  from: string,
+  to: string
+): Promise<RepoChanges | null> {
+  const git = simpleGit(localPath);
+  try {
+    // `merge-base --is-ancestor` answers by exit code alone, which simple-git
+    // doesn't surface; compare the merge base with `from` instead.
+    const sha = (await git.revparse(['--verify', `${from}^{commit}`])).trim();
+    const base = (await git.raw(['merge-base', sha, to])).trim();
+    if (base !== sha) return null;
+  } catch {
+    return null;
+  }
+  const output = await git.raw(['diff', '--name-status', '-M', '-z', from, to]);
+  return parseNameStatus(output);
+}
+
+/**
+ * Parse `git diff --name-status -z`. Entries are NUL-separated: a status
+ * letter then one path, or two (old, new) for renames and copies — whose
+ * status carries a similarity score, e.g. `R087`.
+ */
+export function parseNameStatus(output: string): RepoChanges {
+  const changed = new Set<string>();
+  const deleted = new Set<string>();
+  const fields = output.split('\0');
+  let i = 0;
+  while (i < fields.length) {
+    const status = fields[i++]?.trim();
+    if (!status) continue;
+    const kind = status[0];
+    if (kind === 'R' || kind === 'C') {
+      const from = fields[i++];
+      const to = fields[i++];
+      if (kind === 'R' && from) deleted.add(from);
+      if (to) changed.add(to);
+      continue;
+    }
+    const file = fields[i++];
+    if (!file) continue;
+    if (kind === 'D') deleted.add(file);
+    else changed.add(file);
+  }
+  // A path deleted and re-added in the same range (rename onto it) is a change.
+  for (const file of changed) deleted.delete(file);
+  return { changed: [...changed], deleted: [...deleted] };
+}
+
+/**
+ * Whether a diff touches a file that can alter how every other file is
+ * indexed — patterns, excludes, overrides, ignore rules — so only a full walk
+ * picks up what it newly includes or drops. `.paparats.yml` counts at the
+ * project root only; a `.gitignore` applies to its subtree wherever it sits.
+ */
+export function touchesIndexConfig(changes: RepoChanges): boolean {
+  return [...changes.changed, ...changes.deleted].some(
+    (f) => f === '.paparats.yml' || path.posix.basename(f) === '.gitignore'
+  );
+}
@@ -0,0 +1,245 @@
+import { simpleGit, type SimpleGit } from 'simple-git';
+import type { ProjectLinks } from '@paparats/server';
+import type { GitHostConfig, GitHostType, RepoConfig } from './types.js';
+
+const GITHUB_HOST = 'github.com';
+
+/** A remote repo's clone URL split into host and repo path. */
+export interface ParsedRepoUrl {
+  /** URL to clone, as given (shorthand expanded to GitHub HTTPS). */
+  url: string;
+  /** Hostname, without user or port. */
+  host: string;
+  /** Everything before the repo name: a user, org, or nested group path. */
+  owner: string;
+  /** Repository name, without `.git`. */
+  name: string;
+}
+
+/**
+ * Parse a `url:` entry: GitHub `owner/repo` shorthand, or a clone URL on any
+ * host — `https://host/group/repo.git`, `ssh://git@host:7999/proj/repo.git`
+ * or scp-style `git@host:group/repo.git`.
+ */
+export function parseRepoUrl(input: string): ParsedRepoUrl {
+  const value = input.trim();
+  const invalid = (reason: string) =>
+    new Error(`Invalid repo format: "${value}". Expected "owner/repo" or a clone URL (${reason}).`);
+
+  let host: string;
+  let repoPath: string;
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(value)) {
+    let parsed: URL;
+    try {
+      parsed = new URL(value);
+    } catch {
+      throw invalid('malformed URL');
+    }
+    if (!['https:', 'http:', 'ssh:'].includes(parsed.protocol)) {
+      throw invalid(`unsupported scheme ${parsed.protocol}`);
+    }
+    host = parsed.hostname;
+    repoPath = decodeURIComponent(parsed.pathname);
+  } else if (value.includes(':')) {
+    const scp = /^(?:[^@/]+@)?([^:/]+):(.+)$/.exec(value);
+    if (!scp) throw invalid('unrecognised scp-style address');
+    host = scp[1]!;
+    repoPath = scp[2]!;
+  } else {
+    const parts = value.split('/');
+    if (parts.length !== 2 || !parts[0] || !parts[1]) throw invalid('not owner/repo');
+    return {
+      url: `https://${GITHUB_HOST}/${parts[0]}/${parts[1]}.git`,
+      host: GITHUB_HOST,
+      owner: parts[0],
+      name: parts[1],
+    };
+  }
+
+  const segments = repoPath
+    .replace(/\.git\/?$/, '')
+    .split('/')
+    .filter(Boolean);
+  if (!host || segments.length < 2) throw invalid('no owner/repo path');
+  const name = segments.pop()!;
+  return { url: value, host: host.toLowerCase(), owner: segments.join('/'), name };
+}
+
+/**
+ * Build a remote RepoConfig from a `url:` entry. GitHub repos keep the
+ * `owner/repo` bookkeeping name and, when the host has no `hosts:` entry,
+ * take GITHUB_TOKEN in the HTTPS URL as before. Other hosts are named
+ * `host/owner/repo` so equal paths on two servers don't collide. Throws for
+ * a plain `http:` URL on a host with HTTP credentials — they'd go out in clear.
+ */
+export function remoteRepo(
+  input: string,
+  token?: string,
+  hosts?: Record<string, GitHostConfig>
+): Pick<RepoConfig, 'url' | 'owner' | 'name' | 'fullName' | 'host' | 'gitHost'> {
+  const parsed = parseRepoUrl(input);
+  const gitHost = hosts?.[parsed.host];
+  if (gitHost && hasHttpCredentials(gitHost) && /^http:/i.test(parsed.url)) {
+    throw new Error(
+      `Refusing to send credentials for ${parsed.host} over plain http: use an https:// URL for "${parsed.url}"`
+    );
+  }
+  const base = gitHost ? { gitHost } : {};
+  if (parsed.host !== GITHUB_HOST) {
+    return {
+      url: parsed.url,
+      owner: parsed.owner,
+      name: parsed.name,
+      fullName: `${parsed.host}/${parsed.owner}/${parsed.name}`,
+      host: parsed.host,
+      ...base,
+    };
+  }
+  let url = parsed.url;
+  if (token && !gitHost && url.startsWith(`https://${GITHUB_HOST}/`)) {
+    url = url.replace(`https://${GITHUB_HOST}/`, `https://${token}@${GITHUB_HOST}/`);
+  }
+  return {
+    url,
+    owner: parsed.owner,
+    name: parsed.name,
+    fullName: `${parsed.owner}/${parsed.name}`,
+    ...base,
+  };
+}
+
+/** Environment authenticating git to a host: `GIT_CONFIG_*` entries and `GIT_SSH_COMMAND`. */
+export interface GitAuth {
+  env: Record<string, string>;
+}
+
+function hasHttpCredentials(host: GitHostConfig): boolean {
+  return !!host.token_env || !!(host.username && host.password_env);
+}
+
+function secret(envName: string, field: string): string {
+  const value = process.env[envName];
+  if (!value) throw new Error(`${field}: environment variable ${envName} is not set`);
+  return value;
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Authentication for a host, or null when it needs none. HTTP credentials go
+ * in an `http.extraHeader` passed through git's `GIT_CONFIG_COUNT` environment
+ * — not `-c`, which would show the secret in the process list, and never
+ * stored in the clone's `.git/config`; SSH ones in `GIT_SSH_COMMAND`. Throws
+ * when a named environment variable is unset.
+ */
+export function gitAuth(host: GitHostConfig | undefined): GitAuth | null {
+  if (!host) return null;
+  const env: Record<string, string> = {};
+  let header: string | undefined;
+  if (host.token_env) {
+    const token = secret(host.token_env, 'token_env');
+    header = (host.token_header ?? 'Authorization: Bearer {token}').replace('{token}', token);
+  } else if (host.username && host.password_env) {
+    const password = secret(host.password_env, 'password_env');
+    const basic = Buffer.from(`${host.username}:${password}`).toString('base64');
+    header = `Authorization: Basic ${basic}`;
+  }
+  if (header) {
+    env['GIT_CONFIG_COUNT'] = '1';
+    env['GIT_CONFIG_KEY_0'] = 'http.extraHeader';
+    env['GIT_CONFIG_VALUE_0'] = header;
+  }
+
+  if (host.ssh_key || host.known_hosts) {
+    const args = ['ssh'];
+    if (host.ssh_key) args.push('-i', shellQuote(host.ssh_key), '-o', 'IdentitiesOnly=yes');
+    if (host.known_hosts) {
+      args.push(
+        '-o',
+        `UserKnownHostsFile=${shellQuote(host.known_hosts)}`,
+        '-o',
+        'StrictHostKeyChecking=yes'
+      );
+    }
+    env['GIT_SSH_COMMAND'] = args.join(' ');
+  }
+
+  return Object.keys(env).length > 0 ? { env } : null;
+}
+
+/** Editor and pager variables: of no use to a clone or fetch, and simple-git refuses to pass them on. */
+const INTERACTIVE_ENV = new Set([
+  'editor',
+  'pager',
+  'git_editor',
+  'git_pager',
+  'git_sequence_editor',
+]);
+
+/** A simple-git instance carrying the repo's host credentials. */
+export function remoteGit(repo: RepoConfig, baseDir?: string): SimpleGit {
+  const auth = gitAuth(repo.gitHost);
+  if (!auth) return baseDir ? simpleGit(baseDir) : simpleGit();
+  const git = simpleGit({
+    ...(baseDir ? { baseDir } : {}),
+    // Both variables are ours, built from projects.yml — not user input.
+    unsafe: { allowUnsafeSshCommand: true, allowUnsafeConfigEnvCount: true },
+  });
+  const env = Object.fromEntries(
+    Object.entries(process.env).filter(([key]) => !INTERACTIVE_ENV.has(key.toLowerCase()))
+  );
+  return git.env({ ...env, ...auth.env });
+}
+
+const DEFAULT_LINKS: Record<GitHostType, { commit: string; issue?: string }> = {
+  github: {
+    commit: 'https://{host}/{repo}/commit/{sha}',
+    issue: 'https://{host}/{repo}/issues/{number}',
+  },
+  gitea: {
+    commit: 'https://{host}/{repo}/commit/{sha}',
+    issue: 'https://{host}/{repo}/issues/{number}',
+  },
+  gitlab: {
+    commit: 'https://{host}/{repo}/-/commit/{sha}',
+    issue: 'https://{host}/{repo}/-/issues/{number}',
+  },
+  // Bitbucket Server / Data Center: commits only, issues live in a tracker.
+  bitbucket: { commit: 'https://{host}/projects/{owner}/repos/{name}/commits/{sha}' },
+};
+
+const KNOWN_HOSTS: Record<string, GitHostType> = {
+  'github.com': 'github',
+  'gitlab.com': 'gitlab',
+};
+
+/**
+ * Link templates for a remote repo: the host's `links`, falling back to its
+ * type's defaults. `{host}`, `{owner}` and `{name}` are filled in here; the
+ * server fills `{repo}`, `{sha}`, `{number}` and `{key}`. Undefined for local
+ * projects and hosts of unknown type without templates.
+ */
+export function repoLinks(repo: RepoConfig): ProjectLinks | undefined {
+  if (!repo.url) return undefined;
+  const host = repo.host ?? GITHUB_HOST;
+  const type = repo.gitHost?.type ?? KNOWN_HOSTS[host];
+  const defaults = type ? DEFAULT_LINKS[type] : undefined;
+  const templates = { ...defaults, ...repo.gitHost?.links };
+  if (!templates.commit && !templates.issue && !templates.ticket) return undefined;
+
+  // Bitbucket Server serves HTTPS clones under /scm/<project>/<repo>.
+  const owner = type === 'bitbucket' ? repo.owner.replace(/^scm\//, '') : repo.owner;
+  const values: Record<string, string> = { host, owner, name: repo.name };
+  const fill = (template: string | undefined) =>
+    template?.replace(/\{(host|owner|name)\}/g, (_, key: string) => values[key]!);
+  const links: ProjectLinks = { repo: `${owner}/${repo.name}` };
+  const commit = fill(templates.commit);
+  const issue = fill(templates.issue);
+  const ticket = fill(templates.ticket);
+  if (commit) links.commit = commit;
+  if (issue) links.issue = issue;
+  if (ticket) links.ticket = ticket;
+  return links;
+}
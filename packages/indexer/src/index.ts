@@ -15,19 +15,44 @@ import {
   createMetrics,
   DocsStore,
   DocsIdfStore,
+  createCodeIdfStore,
   createArchEmbeddingProvider,
   resolveArchEmbeddingConfig,
+  branchProjectName,
+} from '@paparats/server';
+import type {
+  TreeSitterManager,
+  ProjectConfig,
+  PaparatsConfig,
+  IndexRunOptions,
 } from '@paparats/server';
-import type { TreeSitterManager, ProjectConfig, PaparatsConfig } from '@paparats/server';
 import { DEFAULT_GROUP, normalizeExcludePatterns } from '@paparats/shared';
 import { parseReposEnv, cloneOrPull, repoPath } from './repo-manager.js';
+import {
+  changedFilesSince,
+  headCommit,
+  touchesIndexConfig,
+  type RepoChanges,
+} from './git-changes.js';
+import { branchVariant, listRemoteBranches, selectBranches } from './branches.js';
+import { repoLinks } from './git-hosts.js';
 import { startScheduler } from './scheduler.js';
 import { tryLoadIndexerConfig, resolveConfigPath } from './config-loader.js';
 import { ConfigWatcher } from './config-watcher.js';
 import { resolveTriggerTargets } from './trigger-filter.js';
+import { PushCoalescer, webhookRouter } from './webhooks.js';
 import { StateStore } from './state-store.js';
+import { JobStore, JOB_STATUSES, isFinished } from './job-store.js';
+import { JobRunner, type JobContext, type JobOutcome } from './job-runner.js';
 import { GitDetector, MtimeDetector, type Fingerprint } from './change-detector.js';
-import type { RepoConfig, RepoOverrides, HealthResponse, RepoStatus, RunStatus } from './types.js';
+import type {
+  RepoConfig,
+  RepoOverrides,
+  HealthResponse,
+  RepoStatus,
+  RunStatus,
+  JobStatus,
+} from './types.js';
 
 // ── Config ──────────────────────────────────────────────────────────────────
 
@@ -56,6 +81,14 @@ const PAPARATS_GROUP = process.env['PAPARATS_GROUP']?.trim() || undefined;
  * one Qdrant don't evict each other's chunks. Default '' = unchanged behavior.
  */
 const PAPARATS_PROJECT_SUFFIX = process.env['PAPARATS_PROJECT_SUFFIX']?.trim() ?? '';
+/** Shared secret for the `/webhooks/*` push receivers. Unset = endpoints off. */
+const WEBHOOK_SECRET = process.env['WEBHOOK_SECRET'] || undefined;
+/** Quiet window after a push before the change check runs; a burst shares one check. */
+const WEBHOOK_DEBOUNCE_MS = parseInt(process.env['WEBHOOK_DEBOUNCE_MS'] ?? '5000', 10);
+/** Runs per job; a job whose repos fail is retried with backoff until then. */
+const JOB_MAX_ATTEMPTS = parseInt(process.env['JOB_MAX_ATTEMPTS'] ?? '3', 10);
+/** Wait before a failed job's first retry, doubled for each one after. */
+const JOB_RETRY_DELAY_MS = parseInt(process.env['JOB_RETRY_DELAY_MS'] ?? '60000', 10);
 
 if (EMBED_URL !== 'http://127.0.0.1:18434') {
   process.env['EMBED_URL'] = EMBED_URL;
@@ -105,6 +138,8 @@ const metrics = await createMetrics();
 embeddingProvider.attachMetrics(metrics);
 
 const metadataStore = new MetadataStore();
+// BM25 corpus stats for hybrid code search; the server reads the same file.
+const codeIdfStore = createCodeIdfStore();
 const qdrantClient = createQdrantClient({ url: QDRANT_URL, apiKey: QDRANT_API_KEY });
 
 let treeSitter: TreeSitterManager | undefined;
@@ -145,9 +180,11 @@ const indexer = new Indexer({
   metrics,
   projectSuffix: PAPARATS_PROJECT_SUFFIX,
   ...(docsStore ? { docsStore } : {}),
+  idf: codeIdfStore,
 });
 
 const stateStore = new StateStore(STATE_DB_PATH);
+const jobStore = new JobStore(STATE_DB_PATH);
 const gitDetector = new GitDetector();
 const mtimeDetector = new MtimeDetector();
 
@@ -204,6 +241,8 @@ function applyOverrides(project: ProjectConfig, overrides: RepoOverrides): Proje
       result.indexing.concurrency = overrides.indexing.concurrency;
     if (overrides.indexing.batchSize !== undefined)
       result.indexing.batchSize = overrides.indexing.batchSize;
+    if (overrides.indexing.chunkHeader !== undefined)
+      result.indexing.chunkHeader = overrides.indexing.chunkHeader;
   }
 
   return result;
@@ -222,8 +261,18 @@ function buildDefaultProject(repo: RepoConfig, localPath: string): ProjectConfig
  * Resolve a `ProjectConfig` for a repo using whichever source applies:
  * `.paparats.yml` in the repo, indexer YAML overrides, or auto-detection.
  * The repo must already be on disk (either bind-mounted or cloned).
+ * A branch variant resolves like its checkout, then takes the
+ * `<project>@<branch>` name. Remote repos carry their host's link templates.
  */
 function resolveRepoProject(repo: RepoConfig, localPath: string): ProjectConfig {
+  let project = resolveCheckoutProject(repo, localPath);
+  const links = repoLinks(repo);
+  if (links) project = { ...project, links };
+  if (!repo.branch) return project;
+  return { ...project, name: branchProjectName(project.name, repo.branch) };
+}
+
+function resolveCheckoutProject(repo: RepoConfig, localPath: string): ProjectConfig {
   const configPath = path.join(localPath, '.paparats.yml');
   const hasRepoConfig = fs.existsSync(configPath);
   const overrides = repo.overrides;
@@ -247,16 +296,144 @@ interface IndexRepoResult {
   chunks: number;
   success: boolean;
   project?: ProjectConfig;
+  /** HEAD of the indexed checkout; remote repos only. */
+  commit?: string;
+}
+
+/**
+ * The diff from the last indexed commit to the pulled HEAD, or null when only
+ * a full walk will do: no commit on record, history rewritten or missing, or
+ * a config file touched.
+ */
+async function incrementalChanges(
+  repo: RepoConfig,
+  localPath: string,
+  since: string | undefined,
+  head: string | undefined
+): Promise<RepoChanges | null> {
+  if (!since || !head) return null;
+  let changes: RepoChanges | null;
+  try {
+    changes = await changedFilesSince(localPath, since, head);
+  } catch (err) {
+    console.warn(
+      `[indexer] ${repo.fullName}: git diff failed (${(err as Error).message}), running a full index`
+    );
+    return null;
+  }
+  if (!changes) {
+    console.log(
+      `[indexer] ${repo.fullName}: ${since.slice(0, 12)} is not an ancestor of HEAD (force-push or missing history), running a full index`
+    );
+    return null;
+  }
+  if (touchesIndexConfig(changes)) {
+    console.log(`[indexer] ${repo.fullName}: project config changed, running a full index`);
+    return null;
+  }
+  return changes;
+}
+
+/** Status entry for a repo; branch variants get theirs on first index. */
+function statusOf(repo: RepoConfig): RepoStatus {
+  let status = repoStatuses.get(repo.fullName);
+  if (!status) {
+    status = { repo: repo.fullName, status: 'idle' };
+    repoStatuses.set(repo.fullName, status);
+  }
+  return status;
+}
+
+/** Bookkeeping key of the repo a branch variant was expanded from. */
+function baseFullName(repo: RepoConfig): string {
+  return repo.branch ? repo.fullName.slice(0, -(repo.branch.length + 1)) : repo.fullName;
+}
+
+/**
+ * Each repo followed by its branch variants: the remote branches its
+ * `branches:` entries match, default branch excluded. Variants come right
+ * after their base so that the base is indexed first and a variant can dedup
+ * against it. Variants of branches no longer selected are pruned. A remote
+ * that can't be listed keeps its base and skips its variants this cycle.
+ */
+async function withBranchVariants(targets: RepoConfig[]): Promise<RepoConfig[]> {
+  const expanded: RepoConfig[] = [];
+  for (const repo of targets) {
+    expanded.push(repo);
+    if (repo.localPath || repo.branch) continue;
+    let variants: RepoConfig[] = [];
+    if (repo.branches) {
+      try {
+        const { branches, missing } = selectBranches(repo.branches, await listRemoteBranches(repo));
+        if (missing.length > 0) {
+          console.warn(
+            `[indexer] ${repo.fullName}: branch(es) not on the remote: ${missing.join(', ')}`
+          );
+        }
+        variants = branches.map((branch) => branchVariant(repo, branch));
+      } catch (err) {
+        console.warn(
+          `[indexer] ${repo.fullName}: listing branches failed (${(err as Error).message}), skipping branch variants`
+        );
+        continue;
+      }
+    }
+    await pruneBranchVariants(repo, new Set(variants.map((v) => v.fullName)));
+    expanded.push(...variants);
+  }
+  return expanded;
 }
 
-async function indexRepo(repo: RepoConfig, opts?: { force?: boolean }): Promise<IndexRepoResult> {
+/**
+ * Drop the index, checkout and bookkeeping of every variant of `repo` that is
+ * no longer selected — the branch was deleted upstream or left `branches:`.
+ */
+async function pruneBranchVariants(repo: RepoConfig, live: Set<string>): Promise<void> {
+  const prefix = `${repo.fullName}@`;
+  for (const fullName of stateStore.fullNamesWithPrefix(prefix)) {
+    if (live.has(fullName)) continue;
+    const variant = branchVariant(repo, fullName.slice(prefix.length));
+    const localPath = repoPath(variant, REPOS_DIR);
+    try {
+      if (fs.existsSync(localPath)) {
+        const project = resolveRepoProject(variant, localPath);
+        await indexer.deleteProjectChunks(project.group, project.name);
+        fs.rmSync(localPath, { recursive: true, force: true });
+      }
+      stateStore.delete(fullName);
+      repoStatuses.delete(fullName);
+      console.log(`[indexer] ${fullName}: branch no longer indexed, removed`);
+    } catch (err) {
+      console.warn(`[indexer] ${fullName}: pruning failed: ${(err as Error).message}`);
+    }
+  }
+}
+
+/**
+ * Pull and index one repo. With `since` — the last indexed commit — a remote
+ * repo only reindexes the files `git diff` reports between it and the new
+ * HEAD; any doubt about that diff falls back to a full `indexProject`. An
+ * incremental run in which any file failed reports failure, so the commit
+ * isn't recorded past it. Progress goes to `job`, whose cancellation stops the run between files.
+ */
+async function indexRepo(
+  repo: RepoConfig,
+  opts: { force?: boolean; since?: string; job: JobContext }
+): Promise<IndexRepoResult> {
   const localPath = repoPath(repo, REPOS_DIR);
-  const status = repoStatuses.get(repo.fullName)!;
+  const status = statusOf(repo);
   status.status = 'running';
-  const force = opts?.force === true;
+  const force = opts.force === true;
+  const { job } = opts;
+  const run: IndexRunOptions = {
+    signal: job.signal,
+    onProgress: (progress) => job.progress(repo.fullName, progress),
+  };
 
   try {
+    job.progress(repo.fullName, { phase: 'clone' });
     await cloneOrPull(repo, REPOS_DIR);
+    const commit = repo.localPath ? undefined : await headCommit(localPath);
 
     const project = resolveRepoProject(repo, localPath);
     const overrides = repo.overrides;
@@ -280,7 +457,22 @@ async function indexRepo(repo: RepoConfig, opts?: { force?: boolean }): Promise<
       await indexer.deleteProjectChunks(project.group, project.name);
     }
 
-    const chunks = await indexer.indexProject(project);
+    const changes = force ? null : await incrementalChanges(repo, localPath, opts.since, commit);
+    let chunks: number;
+    if (changes) {
+      console.log(
+        `[indexer] ${repo.fullName}: incremental ${opts.since!.slice(0, 12)}..${commit!.slice(0, 12)} (${changes.changed.length} changed, ${changes.deleted.length} deleted)`
+      );
+      const errorsBefore = indexer.stats.errors;
+      chunks = await indexer.indexChangedFiles(project, changes, run);
+      // Files that failed are logged and skipped. Recording this commit would
+      // leave them out of every later diff, so fail the run: the retry diffs
+      // from the same last indexed commit and picks them up again.
+      const fileErrors = indexer.stats.errors - errorsBefore;
+      if (fileErrors > 0) throw new Error(`${fileErrors} changed file(s) failed to index`);
+    } else {
+      chunks = await indexer.indexProject(project, run);
+    }
 
     // Docs pass (opt-in). Non-fatal: a docs failure must not fail the code index.
     if (INDEX_DOCS) {
@@ -298,13 +490,19 @@ async function indexRepo(repo: RepoConfig, opts?: { force?: boolean }): Promise<
     status.lastRun = new Date().toISOString();
     status.chunksIndexed = chunks;
     status.lastError = undefined;
+    job.progress(repo.fullName, { status: 'succeeded', chunks });
     console.log(`[indexer] ${repo.fullName}: indexed ${chunks} chunks`);
-    return { chunks, success: true, project };
+    return { chunks, success: true, project, commit };
   } catch (err) {
+    const message = (err as Error).message;
     status.status = 'error';
     status.lastRun = new Date().toISOString();
-    status.lastError = (err as Error).message;
-    console.error(`[indexer] ${repo.fullName}: failed - ${(err as Error).message}`);
+    status.lastError = message;
+    job.progress(repo.fullName, {
+      status: job.signal.aborted ? 'cancelled' : 'failed',
+      error: message,
+    });
+    console.error(`[indexer] ${repo.fullName}: failed - ${message}`);
     return { chunks: 0, success: false };
   }
 }
@@ -318,11 +516,12 @@ async function indexRepo(repo: RepoConfig, opts?: { force?: boolean }): Promise<
 async function refreshFingerprint(
   repo: RepoConfig,
   project: ProjectConfig,
-  chunks: number
+  chunks: number,
+  commit?: string
 ): Promise<void> {
   try {
     const fp = await computeFingerprint(repo, project);
-    stateStore.set(repo.fullName, fp.value, fp.kind, chunks);
+    stateStore.set(repo.fullName, fp.value, fp.kind, chunks, commit);
   } catch (err) {
     console.warn(
       `[indexer] ${repo.fullName}: post-index fingerprint refresh failed: ${(err as Error).message}`
@@ -338,52 +537,51 @@ async function computeFingerprint(repo: RepoConfig, project?: ProjectConfig): Pr
   return gitDetector.fingerprint(repo);
 }
 
-let indexCycleRunning = false;
-let fastCycleRunning = false;
-
-async function runIndexCycle(filter?: string[], opts?: { force?: boolean }): Promise<void> {
-  if (indexCycleRunning) {
-    console.warn('[indexer] Index cycle already running, skipping');
-    return;
-  }
-  if (fastCycleRunning) {
-    console.warn('[indexer] Fast cycle running, deferring full cycle');
-    return;
-  }
-
-  indexCycleRunning = true;
+/**
+ * Full cycle for an `index` job: pull and index every repo in the job's
+ * filter (all of them without one) plus their branch variants. Jobs run one
+ * at a time, so this never overlaps the fast cycle.
+ */
+async function runIndexCycle(job: JobContext): Promise<JobOutcome> {
+  const { repos: filter, force } = job.job;
   globalStatus = 'running';
   const startTime = Date.now();
-  // Shallow-copy: the hot-reload watcher swaps `repos` in place
-  // (`repos.length = 0; repos.push(...next)`). If a config change lands
-  // mid-cycle and `targets === repos`, the for-of loop below would terminate
-  // early. resolveTriggerTargets already returns a fresh array.
-  const targets = filter ? resolveTriggerTargets(repos, filter) : [...repos];
-  const force = opts?.force === true;
-
-  console.log(
-    `[indexer] Starting index cycle for ${targets.length} repo(s)${force ? ' (force)' : ''}...`
-  );
+  const failed = new Set<string>();
 
   try {
+    // Shallow-copy: the hot-reload watcher swaps `repos` in place
+    // (`repos.length = 0; repos.push(...next)`). If a config change lands
+    // mid-cycle and `targets === repos`, the for-of loop below would terminate
+    // early. resolveTriggerTargets already returns a fresh array.
+    const targets = await withBranchVariants(
+      filter ? resolveTriggerTargets(repos, filter) : [...repos]
+    );
+    console.log(
+      `[indexer] Starting index cycle for ${targets.length} repo(s)${force ? ' (force)' : ''}...`
+    );
+
     let totalChunks = 0;
     for (const repo of targets) {
-      const result = await indexRepo(repo, { force });
+      if (job.signal.aborted) break;
+      const result = await indexRepo(repo, { force, job });
       totalChunks += result.chunks;
       if (result.success && result.project) {
-        await refreshFingerprint(repo, result.project, result.chunks);
+        await refreshFingerprint(repo, result.project, result.chunks, result.commit);
+      } else if (!job.signal.aborted) {
+        failed.add(baseFullName(repo));
       }
     }
 
     const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
     lastRunAt = new Date().toISOString();
     globalStatus = 'success';
-    console.log(`[indexer] Index cycle complete: ${totalChunks} total chunks in ${elapsed}s`);
+    console.log(
+      `[indexer] Index cycle ${job.signal.aborted ? 'cancelled' : 'complete'}: ${totalChunks} total chunks in ${elapsed}s`
+    );
+    return { failed: [...failed] };
   } catch (err) {
     globalStatus = 'error';
     throw err;
-  } finally {
-    indexCycleRunning = false;
   }
 }
 
@@ -418,78 +616,124 @@ async function probeFingerprint(repo: RepoConfig): Promise<FingerprintProbe> {
 
 /**
  * Fast cycle: compute a cheap fingerprint per repo (remote `ls-remote` or
- * local file-stat hash) and only invoke indexProject() when it differs from
- * the last persisted fingerprint. Fingerprint probes run concurrently — a
+ * local file-stat hash) and only reindex when it differs from the last
+ * persisted fingerprint — for remote repos, just the files changed since the
+ * last indexed commit. Fingerprint probes run concurrently — a
  * slow remote can't block the others — but the indexing phase stays
  * sequential because indexProject() is heavy on the embedding server and
  * Qdrant. Probe failures fall through to a defensive reindex.
+ * Runs as a `check` job; the job's filter limits the check to those repos
+ * (and their branch variants), as for a webhook push.
  */
-async function runChangeCheckCycle(): Promise<void> {
-  if (fastCycleRunning) {
-    console.log('[indexer] Fast cycle already running, skipping');
-    return;
-  }
-  if (indexCycleRunning) {
-    console.log('[indexer] Full cycle running, skipping fast check');
-    return;
-  }
-
-  fastCycleRunning = true;
+async function runChangeCheckCycle(job: JobContext): Promise<JobOutcome> {
+  const filter = job.job.repos;
   const startTime = Date.now();
-  const targets = [...repos];
   let skipped = 0;
   let indexed = 0;
   let totalChunks = 0;
-
-  try {
-    const probes = await Promise.all(targets.map((repo) => probeFingerprint(repo)));
-
-    for (const probe of probes) {
-      const { repo } = probe;
-      if (probe.outcome === 'fingerprint') {
-        const stored = stateStore.get(repo.fullName);
-        if (stored && stored.fingerprint === probe.current.value) {
-          skipped++;
-          continue;
-        }
-        console.log(
-          `[indexer] ${repo.fullName}: changed (${stored?.fingerprint ?? 'new'} → ${probe.current.value.slice(0, 12)}), reindexing`
-        );
-        const result = await indexRepo(repo);
-        if (result.success) {
-          indexed++;
-          totalChunks += result.chunks;
-          stateStore.set(repo.fullName, probe.current.value, probe.current.kind, result.chunks);
-        }
-      } else {
-        console.warn(
-          `[indexer] ${repo.fullName}: fingerprint failed (${probe.error.message}), reindexing defensively`
+  // Reindexing a default branch replaces the chunks its variants share, so
+  // each of their variants then takes a full pass to re-share them.
+  const reindexedBases = new Set<string>();
+  const failed = new Set<string>();
+
+  const bases = filter ? resolveTriggerTargets(repos, filter) : [...repos];
+  const targets = await withBranchVariants(bases);
+  const probes = await Promise.all(targets.map((repo) => probeFingerprint(repo)));
+
+  for (const probe of probes) {
+    if (job.signal.aborted) break;
+    const { repo } = probe;
+    const baseChanged = repo.branch !== undefined && reindexedBases.has(baseFullName(repo));
+    if (probe.outcome === 'fingerprint') {
+      const stored = stateStore.get(repo.fullName);
+      if (stored && stored.fingerprint === probe.current.value && !baseChanged) {
+        skipped++;
+        job.progress(repo.fullName, { status: 'skipped' });
+        continue;
+      }
+      console.log(
+        baseChanged
+          ? `[indexer] ${repo.fullName}: default branch reindexed, reindexing`
+          : `[indexer] ${repo.fullName}: changed (${stored?.fingerprint ?? 'new'} → ${probe.current.value.slice(0, 12)}), reindexing`
+      );
+      if (!repo.branch) reindexedBases.add(repo.fullName);
+      const result = await indexRepo(repo, {
+        since: baseChanged ? undefined : (stored?.lastCommit ?? undefined),
+        job,
+      });
+      if (result.success) {
+        indexed++;
+        totalChunks += result.chunks;
+        stateStore.set(
+          repo.fullName,
+          probe.current.value,
+          probe.current.kind,
+          result.chunks,
+          result.commit
         );
-        const result = await indexRepo(repo);
-        if (result.success) {
-          indexed++;
-          totalChunks += result.chunks;
-          // State not advanced — next tick will retry the fingerprint.
-        }
+      } else if (!job.signal.aborted) {
+        failed.add(baseFullName(repo));
+      }
+    } else {
+      console.warn(
+        `[indexer] ${repo.fullName}: fingerprint failed (${probe.error.message}), reindexing defensively`
+      );
+      if (!repo.branch) reindexedBases.add(repo.fullName);
+      const result = await indexRepo(repo, { job });
+      if (result.success) {
+        indexed++;
+        totalChunks += result.chunks;
+        // State not advanced — next tick will retry the fingerprint.
+      } else if (!job.signal.aborted) {
+        failed.add(baseFullName(repo));
       }
     }
+  }
 
-    const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
-    if (indexed > 0) {
-      lastRunAt = new Date().toISOString();
-      globalStatus = 'success';
-    }
-    console.log(
-      `[indexer] Fast cycle complete: ${indexed} indexed, ${skipped} skipped, ${totalChunks} chunks in ${elapsed}s`
-    );
-  } finally {
-    fastCycleRunning = false;
+  const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+  if (indexed > 0) {
+    lastRunAt = new Date().toISOString();
+    globalStatus = 'success';
   }
+  console.log(
+    `[indexer] Fast cycle ${job.signal.aborted ? 'cancelled' : 'complete'}: ${indexed} indexed, ${skipped} skipped, ${totalChunks} chunks in ${elapsed}s`
+  );
+  return { failed: [...failed] };
 }
 
+/** Jobs run one at a time; see {@link JobRunner}. */
+const jobRunner = new JobRunner({
+  store: jobStore,
+  run: (job) => (job.job.kind === 'check' ? runChangeCheckCycle(job) : runIndexCycle(job)),
+  maxAttempts: JOB_MAX_ATTEMPTS,
+  retryBaseMs: JOB_RETRY_DELAY_MS,
+});
+
 // ── HTTP API ────────────────────────────────────────────────────────────────
 
 const app = express();
+
+// Webhooks read their raw body for signature checks, so they go before express.json().
+let pushCoalescer: PushCoalescer | undefined;
+if (WEBHOOK_SECRET) {
+  const coalescer = new PushCoalescer({
+    delayMs: WEBHOOK_DEBOUNCE_MS,
+    // Never loses a push: only a job that hasn't started absorbs it.
+    run: async (names) => {
+      const { job } = jobRunner.enqueue({ kind: 'check', trigger: 'webhook', repos: names });
+      console.log(`[indexer] Webhook push: checking ${names.join(', ')} (job ${job.id})`);
+    },
+  });
+  pushCoalescer = coalescer;
+  app.use(
+    webhookRouter({
+      secret: WEBHOOK_SECRET,
+      getRepos: () => repos,
+      onPush: (targets) => coalescer.add(targets.map((r) => r.fullName)),
+    })
+  );
+}
+
 app.use(express.json());
 
 app.post('/trigger', async (req, res) => {
@@ -517,12 +761,12 @@ app.post('/trigger', async (req, res) => {
       targets = repos;
     }
 
-    // Run async — don't block the response
-    runIndexCycle(filter, { force }).catch((err) => {
-      console.error('[indexer] Triggered cycle failed:', (err as Error).message);
-    });
+    // Queue it — don't block the response. An identical job still waiting
+    // to start absorbs the trigger; its id is returned either way.
+    const { job } = jobRunner.enqueue({ kind: 'index', trigger: 'manual', repos: filter, force });
     res.json({
       status: 'triggered',
+      jobId: job.id,
       repos: targets.map((r) => r.fullName),
       force,
     });
@@ -531,6 +775,44 @@ app.post('/trigger', async (req, res) => {
   }
 });
 
+app.get('/jobs', (req, res) => {
+  const status = req.query['status'];
+  if (status !== undefined && !JOB_STATUSES.includes(status as JobStatus)) {
+    res.status(400).json({ error: `status must be one of: ${JOB_STATUSES.join(', ')}` });
+    return;
+  }
+  const limit = parseInt(String(req.query['limit'] ?? '50'), 10);
+  if (!Number.isInteger(limit) || limit < 1) {
+    res.status(400).json({ error: 'limit must be a positive integer' });
+    return;
+  }
+  res.json({ jobs: jobStore.list({ status: status as JobStatus | undefined, limit }) });
+});
+
+app.get('/jobs/:id', (req, res) => {
+  const job = jobStore.get(req.params['id']);
+  if (!job) {
+    res.status(404).json({ error: 'Job not found' });
+    return;
+  }
+  res.json(job);
+});
+
+app.post('/jobs/:id/cancel', (req, res) => {
+  const existing = jobStore.get(req.params['id']);
+  if (!existing) {
+    res.status(404).json({ error: 'Job not found' });
+    return;
+  }
+  if (isFinished(existing.status)) {
+    res.status(409).json({ error: `Job already ${existing.status}`, job: existing });
+    return;
+  }
+  const job = jobRunner.cancel(existing.id)!;
+  // A running job stops at its next file; 202 until it has.
+  res.status(job.status === 'cancelled' ? 200 : 202).json(job);
+});
+
 if (metrics.enabled) {
   app.get('/metrics', metrics.getMetricsHandler());
 }
@@ -564,20 +846,30 @@ const server = app.listen(PORT, '0.0.0.0', () => {
   if (metrics.enabled) {
     console.log(`[indexer] Metrics: http://localhost:${PORT}/metrics`);
   }
+  if (WEBHOOK_SECRET) {
+    console.log(
+      `[indexer] Webhooks: http://0.0.0.0:${PORT}/webhooks/{github,gitlab,gitea} (debounce ${WEBHOOK_DEBOUNCE_MS}ms)`
+    );
+  }
 });
 
+// Pick up jobs queued before a restart.
+jobRunner.start();
+
 // Start cron schedulers
 if (repos.length > 0) {
-  startScheduler(effectiveCron, () => runIndexCycle());
+  startScheduler(effectiveCron, async () => {
+    jobRunner.enqueue({ kind: 'index', trigger: 'cron' });
+  });
   if (CHANGE_DETECTION_ENABLED) {
-    startScheduler(effectiveCronFast, () => runChangeCheckCycle());
+    startScheduler(effectiveCronFast, async () => {
+      jobRunner.enqueue({ kind: 'check', trigger: 'cron' });
+    });
   }
 
   // Run initial index cycle on startup
-  console.log('[indexer] Running initial index cycle...');
-  runIndexCycle().catch((err) => {
-    console.error('[indexer] Initial cycle failed:', (err as Error).message);
-  });
+  console.log('[indexer] Queueing initial index cycle...');
+  jobRunner.enqueue({ kind: 'index', trigger: 'startup' });
 }
 
 // ── Hot-reload watcher ──────────────────────────────────────────────────────
@@ -602,6 +894,11 @@ if (fileConfig && configFilePath) {
         for (const repo of change.removed) {
           repoStatuses.delete(repo.fullName);
           stateStore.delete(repo.fullName);
+          pruneBranchVariants(repo, new Set()).catch((err) => {
+            console.error(
+              `[indexer] Pruning branches of ${repo.fullName} failed: ${(err as Error).message}`
+            );
+          });
         }
         // Register added repos.
         for (const repo of change.added) {
@@ -623,20 +920,14 @@ if (fileConfig && configFilePath) {
             stateStore.delete(prior.fullName);
           }
         }
-        // Reindex added + modified.
+        // Reindex added + modified, branch variants included.
         const targets = [...change.added, ...change.modified.map((m) => m.next)];
-        for (const repo of targets) {
-          indexRepo(repo)
-            .then(async (result) => {
-              if (result.success && result.project) {
-                await refreshFingerprint(repo, result.project, result.chunks);
-              }
-            })
-            .catch((err) => {
-              console.error(
-                `[indexer] Hot-reload index for ${repo.fullName} failed: ${(err as Error).message}`
-              );
-            });
+        if (targets.length > 0) {
+          jobRunner.enqueue({
+            kind: 'index',
+            trigger: 'config',
+            repos: targets.map((r) => r.fullName),
+          });
         }
       },
       onError: (err) => console.error(`[indexer] config-watcher error: ${err.message}`),
@@ -651,10 +942,14 @@ if (fileConfig && configFilePath) {
 async function shutdown(): Promise<void> {
   console.log('\n[indexer] Shutting down...');
   server.close();
+  pushCoalescer?.close();
+  jobRunner.close();
   await configWatcher?.close();
   embeddingProvider.close();
   metadataStore.close();
+  codeIdfStore.close();
   stateStore.close();
+  jobStore.close();
   treeSitter?.close();
   process.exit(0);
 }
@@ -0,0 +1,207 @@
+import type { EnqueueJob, JobStore } from './job-store.js';
+import type { Job, JobRepoProgress } from './types.js';
+
+/** Longest wait between retries, however many attempts a job has had. */
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+/** What a job body hands back once it has gone through its repos. */
+export interface JobOutcome {
+  /** Repos (as `/trigger` names them) whose run failed; a retry covers only these. */
+  failed: string[];
+}
+
+export interface JobContext {
+  job: Job;
+  /** Aborted when the job is cancelled. */
+  signal: AbortSignal;
+  /** Record a repo's progress; the first update for a repo marks it started. */
+  progress(repo: string, update: Partial<Omit<JobRepoProgress, 'repo' | 'startedAt'>>): void;
+}
+
+export interface JobRunnerOptions {
+  store: JobStore;
+  /** Run a claimed job; a rejection fails the whole attempt. */
+  run: (ctx: JobContext) => Promise<JobOutcome>;
+  /** Runs per job before it is marked failed. */
+  maxAttempts: number;
+  /** Delay before the first retry; doubled for each one after. */
+  retryBaseMs: number;
+}
+
+/** Backoff before retrying after the given attempt (1-based). */
+export function retryDelay(attempt: number, baseMs: number): number {
+  return Math.min(baseMs * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Works the job queue one job at a time, so index runs never overlap. A job
+ * whose repos fail goes back in the queue with exponential backoff until it
+ * runs out of attempts. Cancelling the running job aborts its signal; the body
+ * stops at the next file or repo boundary.
+ */
+export class JobRunner {
+  private current: { id: string; controller: AbortController } | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private draining = false;
+  private closed = false;
+
+  constructor(private readonly opts: JobRunnerOptions) {}
+
+  /** Requeue jobs a restart interrupted, then start working the queue. */
+  start(): void {
+    const requeued = this.opts.store.requeueInterrupted();
+    if (requeued > 0) console.log(`[indexer] Requeued ${requeued} interrupted job(s)`);
+    this.kick();
+  }
+
+  enqueue(input: Omit<EnqueueJob, 'maxAttempts'>): { job: Job; existing: boolean } {
+    const result = this.opts.store.enqueue({ ...input, maxAttempts: this.opts.maxAttempts });
+    this.kick();
+    return result;
+  }
+
+  /**
+   * Cancel a queued job, or abort the running one — it then stays `running`
+   * until its body returns. Undefined for an unknown id.
+   */
+  cancel(id: string): Job | undefined {
+    if (this.current?.id === id) {
+      this.current.controller.abort(new Error('Job cancelled'));
+    } else {
+      this.opts.store.cancel(id);
+    }
+    return this.opts.store.get(id);
+  }
+
+  /**
+   * Stop picking up jobs. A job still running is left `running` in the store
+   * and requeued by {@link start} on the next boot.
+   */
+  close(): void {
+    this.closed = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private kick(): void {
+    if (this.closed || this.draining) return;
+    void this.drain();
+  }
+
+  private async drain(): Promise<void> {
+    this.draining = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    // Nothing here may reject: drain() runs detached, and an unhandled
+    // rejection (say, a failed SQLite write) would take the process down.
+    try {
+      let job: Job | undefined;
+      while (!this.closed && (job = this.opts.store.claimNext())) {
+        try {
+          await this.runJob(job);
+        } catch (err) {
+          this.abandon(job, err as Error);
+        }
+      }
+      this.scheduleWake();
+    } catch (err) {
+      console.error(`[indexer] Job queue stalled: ${(err as Error).message}`);
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  /**
+   * Fail a job whose bookkeeping threw. If the store can't record that either,
+   * the job stays `running` and {@link start} requeues it on the next boot.
+   */
+  private abandon(job: Job, err: Error): void {
+    console.error(`[indexer] Job ${job.id} failed to record its outcome: ${err.message}`);
+    try {
+      this.opts.store.finish(job.id, 'failed', err.message);
+    } catch (finishErr) {
+      console.error(`[indexer] Job ${job.id} left running: ${(finishErr as Error).message}`);
+    }
+  }
+
+  /** Wake up when the next backed-off retry is due. */
+  private scheduleWake(): void {
+    if (this.closed) return;
+    const next = this.opts.store.nextRunAfter();
+    if (!next) return;
+    this.timer = setTimeout(
+      () => {
+        this.timer = null;
+        this.kick();
+      },
+      Math.max(0, Date.parse(next) - Date.now())
+    );
+    this.timer.unref();
+  }
+
+  private async runJob(job: Job): Promise<void> {
+    const { store } = this.opts;
+    const controller = new AbortController();
+    this.current = { id: job.id, controller };
+    const repos = new Map<string, JobRepoProgress>();
+    const ctx: JobContext = {
+      job,
+      signal: controller.signal,
+      progress: (repo, update) => {
+        const entry: JobRepoProgress = repos.get(repo) ?? {
+          repo,
+          status: 'running',
+          phase: null,
+          filesProcessed: 0,
+          filesTotal: 0,
+          chunks: 0,
+          error: null,
+          startedAt: new Date().toISOString(),
+          finishedAt: null,
+        };
+        Object.assign(entry, update);
+        if (entry.status !== 'running') entry.finishedAt ??= new Date().toISOString();
+        repos.set(repo, entry);
+        store.saveRepo(job.id, entry);
+      },
+    };
+
+    console.log(
+      `[indexer] Job ${job.id} (${job.kind}, ${job.trigger}) started, attempt ${job.attempts}/${job.maxAttempts}`
+    );
+    let failed: string[] = [];
+    let error: string | null = null;
+    try {
+      ({ failed } = await this.opts.run(ctx));
+      if (failed.length > 0) error = `failed: ${failed.join(', ')}`;
+    } catch (err) {
+      error = (err as Error).message;
+    } finally {
+      this.current = null;
+    }
+
+    if (controller.signal.aborted) {
+      for (const entry of repos.values()) {
+        if (entry.status === 'running') ctx.progress(entry.repo, { status: 'cancelled' });
+      }
+      store.finish(job.id, 'cancelled', null);
+      console.log(`[indexer] Job ${job.id} cancelled`);
+    } else if (error === null) {
+      store.finish(job.id, 'succeeded', null);
+      console.log(`[indexer] Job ${job.id} succeeded`);
+    } else if (job.attempts < job.maxAttempts) {
+      const delay = retryDelay(job.attempts, this.opts.retryBaseMs);
+      store.retry(job.id, {
+        repos: failed.length > 0 ? failed : job.repos,
+        runAfter: new Date(Date.now() + delay),
+        error,
+      });
+      console.warn(
+        `[indexer] Job ${job.id} ${error}; retrying in ${Math.round(delay / 1000)}s (attempt ${job.attempts}/${job.maxAttempts})`
+      );
+    } else {
+      store.finish(job.id, 'failed', error);
+      console.error(`[indexer] Job ${job.id} ${error}; giving up after ${job.attempts} attempt(s)`);
+    }
+  }
+}
@@ -0,0 +1,285 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { v7 as uuidv7 } from 'uuid';
+import type { Job, JobKind, JobRepoProgress, JobStatus, JobTrigger } from './types.js';
+
+export interface EnqueueJob {
+  kind: JobKind;
+  trigger: JobTrigger;
+  /** Repo filter; empty or omitted = every repo. */
+  repos?: string[] | null;
+  force?: boolean;
+  maxAttempts: number;
+}
+
+/** Finished jobs kept for `GET /jobs`; older ones are pruned. */
+const DEFAULT_HISTORY = 200;
+
+export const JOB_STATUSES: readonly JobStatus[] = [
+  'queued',
+  'running',
+  'succeeded',
+  'failed',
+  'cancelled',
+];
+
+const FINISHED: readonly JobStatus[] = ['succeeded', 'failed', 'cancelled'];
+
+const JOB_COLUMNS = `id, kind, trigger, repos, force, status, attempts,
+  max_attempts AS maxAttempts, run_after AS runAfter, error,
+  created_at AS createdAt, started_at AS startedAt, finished_at AS finishedAt`;
+
+type JobRow = Omit<Job, 'repos' | 'force' | 'progress'> & { repos: string | null; force: number };
+
+/** The stored form of a repo filter — deduped and sorted, so equal filters compare equal — or null for every repo. */
+function serializeRepos(repos: string[] | null | undefined): string | null {
+  return repos?.length ? JSON.stringify([...new Set(repos)].sort()) : null;
+}
+
+/**
+ * Durable queue of index jobs, kept next to the fingerprints in the indexer
+ * state DB so queued work and its history survive a restart. One row per job
+ * in `jobs`; the latest attempt's per-repo progress in `job_repos`.
+ */
+export class JobStore {
+  private db: Database.Database;
+  private closed = false;
+  private insertStmt: Database.Statement;
+  private findQueuedStmt: Database.Statement;
+  private getStmt: Database.Statement;
+  private progressStmt: Database.Statement;
+  private nextDueStmt: Database.Statement;
+  private claimStmt: Database.Statement;
+  private clearProgressStmt: Database.Statement;
+  private saveRepoStmt: Database.Statement;
+  private finishStmt: Database.Statement;
+  private retryStmt: Database.Statement;
+  private cancelStmt: Database.Statement;
+  private nextRunAfterStmt: Database.Statement;
+  private pruneStmt: Database.Statement;
+
+  constructor(
+    dbPath: string,
+    private readonly history = DEFAULT_HISTORY
+  ) {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('synchronous = NORMAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.db.pragma('foreign_keys = ON');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS jobs (
+        id            TEXT PRIMARY KEY,
+        kind          TEXT NOT NULL,
+        trigger       TEXT NOT NULL,
+        repos         TEXT,
+        force         INTEGER NOT NULL DEFAULT 0,
+        status        TEXT NOT NULL,
+        attempts      INTEGER NOT NULL DEFAULT 0,
+        max_attempts  INTEGER NOT NULL,
+        run_after     TEXT NOT NULL,
+        error         TEXT,
+        created_at    TEXT NOT NULL,
+        started_at    TEXT,
+        finished_at   TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status, run_after);
+      CREATE TABLE IF NOT EXISTS job_repos (
+        job_id           TEXT NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+        repo             TEXT NOT NULL,
+        status           TEXT NOT NULL,
+        phase            TEXT,
+        files_processed  INTEGER NOT NULL DEFAULT 0,
+        files_total      INTEGER NOT NULL DEFAULT 0,
+        chunks           INTEGER NOT NULL DEFAULT 0,
+        error            TEXT,
+        started_at       TEXT NOT NULL,
+        finished_at      TEXT,
+        PRIMARY KEY (job_id, repo)
+      );
+    `);
+
+    this.insertStmt = this.db.prepare(
+      `INSERT INTO jobs (id, kind, trigger, repos, force, status, max_attempts, run_after, created_at)
+       VALUES (@id, @kind, @trigger, @repos, @force, 'queued', @maxAttempts, @now, @now)`
+    );
+    // `IS` so that a null filter matches a null filter.
+    this.findQueuedStmt = this.db.prepare(
+      `SELECT id FROM jobs
+       WHERE status = 'queued' AND attempts = 0 AND kind = ? AND force = ? AND repos IS ?
+       ORDER BY rowid LIMIT 1`
+    );
+    this.getStmt = this.db.prepare(`SELECT ${JOB_COLUMNS} FROM jobs WHERE id = ?`);
+    this.progressStmt = this.db.prepare(
+      `SELECT repo, status, phase, files_processed AS filesProcessed, files_total AS filesTotal,
+              chunks, error, started_at AS startedAt, finished_at AS finishedAt
+       FROM job_repos WHERE job_id = ? ORDER BY rowid`
+    );
+    this.nextDueStmt = this.db.prepare(
+      `SELECT id FROM jobs WHERE status = 'queued' AND run_after <= ? ORDER BY rowid LIMIT 1`
+    );
+    this.claimStmt = this.db.prepare(
+      `UPDATE jobs SET status = 'running', attempts = attempts + 1, started_at = ?, finished_at = NULL
+       WHERE id = ?`
+    );
+    this.clearProgressStmt = this.db.prepare('DELETE FROM job_repos WHERE job_id = ?');
+    this.saveRepoStmt = this.db.prepare(
+      `INSERT INTO job_repos (job_id, repo, status, phase, files_processed, files_total, chunks, error, started_at, finished_at)
+       VALUES (@jobId, @repo, @status, @phase, @filesProcessed, @filesTotal, @chunks, @error, @startedAt, @finishedAt)
+       ON CONFLICT(job_id, repo) DO UPDATE SET
+         status          = excluded.status,
+         phase           = excluded.phase,
+         files_processed = excluded.files_processed,
+         files_total     = excluded.files_total,
+         chunks          = excluded.chunks,
+         error           = excluded.error,
+         finished_at     = excluded.finished_at`
+    );
+    this.finishStmt = this.db.prepare(
+      'UPDATE jobs SET status = ?, error = ?, finished_at = ? WHERE id = ?'
+    );
+    this.retryStmt = this.db.prepare(
+      `UPDATE jobs SET status = 'queued', repos = @repos, run_after = @runAfter, error = @error
+       WHERE id = @id`
+    );
+    this.cancelStmt = this.db.prepare(
+      `UPDATE jobs SET status = 'cancelled', finished_at = ? WHERE id = ? AND status = 'queued'`
+    );
+    this.nextRunAfterStmt = this.db.prepare(
+      `SELECT MIN(run_after) AS runAfter FROM jobs WHERE status = 'queued'`
+    );
+    this.pruneStmt = this.db.prepare(
+      `DELETE FROM jobs WHERE status IN ('succeeded', 'failed', 'cancelled') AND rowid NOT IN (
+         SELECT rowid FROM jobs WHERE status IN ('succeeded', 'failed', 'cancelled')
+         ORDER BY rowid DESC LIMIT ?
+       )`
+    );
+  }
+
+  /**
+   * Queue a job. An identical one — same kind, force flag and repo filter —
+   * that hasn't started yet absorbs the request instead (`existing: true`),
+   * so overlapping triggers don't pile up.
+   */
+  enqueue(input: EnqueueJob, now = new Date()): { job: Job; existing: boolean } {
+    const repos = serializeRepos(input.repos);
+    const force = input.force ? 1 : 0;
+    const queued = this.db.transaction(() => {
+      const found = this.findQueuedStmt.get(input.kind, force, repos) as { id: string } | undefined;
+      if (found) return { id: found.id, existing: true };
+      const id = uuidv7();
+      this.insertStmt.run({
+        id,
+        kind: input.kind,
+        trigger: input.trigger,
+        repos,
+        force,
+        maxAttempts: input.maxAttempts,
+        now: now.toISOString(),
+      });
+      return { id, existing: false };
+    })();
+    return { job: this.get(queued.id)!, existing: queued.existing };
+  }
+
+  /** Start the oldest queued job that is due: mark it running and reset its progress. */
+  claimNext(now = new Date()): Job | undefined {
+    const id = this.db.transaction(() => {
+      const due = this.nextDueStmt.get(now.toISOString()) as { id: string } | undefined;
+      if (!due) return undefined;
+      this.claimStmt.run(now.toISOString(), due.id);
+      this.clearProgressStmt.run(due.id);
+      return due.id;
+    })();
+    return id ? this.get(id) : undefined;
+  }
+
+  /** Earliest `runAfter` among queued jobs, if any. */
+  nextRunAfter(): string | undefined {
+    const row = this.nextRunAfterStmt.get() as { runAfter: string | null };
+    return row.runAfter ?? undefined;
+  }
+
+  saveRepo(jobId: string, progress: JobRepoProgress): void {
+    this.saveRepoStmt.run({ jobId, ...progress });
+  }
+
+  finish(id: string, status: 'succeeded' | 'failed' | 'cancelled', error: string | null): void {
+    this.finishStmt.run(status, error, new Date().toISOString(), id);
+    this.pruneStmt.run(this.history);
+  }
+
+  /** Put a failed run back in the queue, narrowed to `repos`, not before `runAfter`. */
+  retry(id: string, opts: { repos: string[] | null; runAfter: Date; error: string }): void {
+    this.retryStmt.run({
+      id,
+      repos: serializeRepos(opts.repos),
+      runAfter: opts.runAfter.toISOString(),
+      error: opts.error,
+    });
+  }
+
+  /** Cancel a job that hasn't started; false when it is running or already done. */
+  cancel(id: string): boolean {
+    return this.cancelStmt.run(new Date().toISOString(), id).changes > 0;
+  }
+
+  /**
+   * Recover from a restart: jobs left `running` go back in the queue, or fail
+   * when they already used up their attempts — a job that keeps taking the
+   * process down must not restart it forever.
+   */
+  requeueInterrupted(): number {
+    return this.db.transaction(() => {
+      const now = new Date().toISOString();
+      this.db
+        .prepare(
+          `UPDATE jobs SET status = 'failed', error = 'interrupted by a restart', finished_at = ?
+           WHERE status = 'running' AND attempts >= max_attempts`
+        )
+        .run(now);
+      return this.db
+        .prepare(
+          `UPDATE jobs SET status = 'queued', started_at = NULL, run_after = ? WHERE status = 'running'`
+        )
+        .run(now).changes;
+    })();
+  }
+
+  get(id: string): Job | undefined {
+    const row = this.getStmt.get(id) as JobRow | undefined;
+    return row ? this.toJob(row) : undefined;
+  }
+
+  /** Newest first. */
+  list(opts: { status?: JobStatus; limit?: number } = {}): Job[] {
+    const where = opts.status ? 'WHERE status = ?' : '';
+    const params: unknown[] = opts.status ? [opts.status] : [];
+    const rows = this.db
+      .prepare(`SELECT ${JOB_COLUMNS} FROM jobs ${where} ORDER BY rowid DESC LIMIT ?`)
+      .all(...params, opts.limit ?? 50) as JobRow[];
+    return rows.map((row) => this.toJob(row));
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.db.close();
+    this.closed = true;
+  }
+
+  private toJob(row: JobRow): Job {
+    return {
+      ...row,
+      repos: row.repos ? (JSON.parse(row.repos) as string[]) : null,
+      force: row.force === 1,
+      progress: this.progressStmt.all(row.id) as JobRepoProgress[],
+    };
+  }
+}
+
+/** True once a job can no longer run or be cancelled. */
+export function isFinished(status: JobStatus): boolean {
+  return FINISHED.includes(status);
+}
@@ -1,11 +1,14 @@
-import { simpleGit } from 'simple-git';
 import fs from 'fs';
 import path from 'path';
+import { remoteGit, remoteRepo } from './git-hosts.js';
 import type { RepoConfig } from './types.js';
 
 /**
  * Parse comma-separated repos env into RepoConfig[].
- * Accepts formats: "org/repo", "org/repo,org/other"
+ * Accepts formats: "org/repo", "org/repo,org/other", or clone URLs on any
+ * host ("https://gitlab.example.com/team/repo.git"). Only GitHub repos get
+ * credentials here (`token`); per-host ones come from the `hosts:` map, so
+ * repos on other private hosts belong in projects.yml.
  */
 export function parseReposEnv(repos: string, token?: string): RepoConfig[] {
   if (!repos.trim()) return [];
@@ -14,16 +17,7 @@ export function parseReposEnv(repos: string, token?: string): RepoConfig[] {
     .split(',')
     .map((r) => r.trim())
     .filter(Boolean)
-    .map((fullName) => {
-      const parts = fullName.split('/');
-      if (parts.length !== 2 || !parts[0] || !parts[1]) {
-        throw new Error(`Invalid repo format: "${fullName}". Expected "owner/repo".`);
-      }
-      const [owner, name] = parts as [string, string];
-      const host = token ? `${token}@github.com` : 'github.com';
-      const url = `https://${host}/${owner}/${name}.git`;
-      return { url, owner, name, fullName };
-    });
+    .map((entry) => remoteRepo(entry, token));
 }
 
 /**
@@ -36,24 +30,45 @@ export async function cloneOrPull(repo: RepoConfig, reposDir: string): Promise<v
     return;
   }
 
-  const dest = path.join(reposDir, repo.owner, repo.name);
+  const dest = repoPath(repo, reposDir);
 
   if (fs.existsSync(path.join(dest, '.git'))) {
     console.log(`[repo-manager] Pulling latest for ${repo.fullName}...`);
-    const git = simpleGit(dest);
+    const git = remoteGit(repo, dest);
     await git.pull();
   } else {
     console.log(`[repo-manager] Cloning ${repo.fullName}...`);
-    fs.mkdirSync(path.join(reposDir, repo.owner), { recursive: true });
-    const git = simpleGit();
-    await git.clone(repo.url, dest);
+    fs.mkdirSync(path.dirname(dest), { recursive: true });
+    const git = remoteGit(repo);
+    const options = cloneArgs(repo);
+    if (options.length > 0) {
+      await git.clone(repo.url, dest, options);
+    } else {
+      await git.clone(repo.url, dest);
+    }
   }
 }
 
+/** `git clone` options for a repo's branch and shallow / partial settings. */
+function cloneArgs(repo: RepoConfig): string[] {
+  const args: string[] = [];
+  if (repo.branch) args.push('--branch', repo.branch, '--single-branch');
+  if (repo.clone?.depth) args.push('--depth', String(repo.clone.depth));
+  if (repo.clone?.filter) args.push(`--filter=${repo.clone.filter}`);
+  return args;
+}
+
 /**
  * Get the local path for a repo. Returns the bind-mounted path for local projects.
+ * Repos on hosts other than github.com sit under a directory named after the host.
+ * A branch variant gets its own checkout under `_branches/<branch>/`, ending in
+ * the repo name like the default one so both resolve to the same project name.
  */
 export function repoPath(repo: RepoConfig, reposDir: string): string {
   if (repo.localPath) return repo.localPath;
-  return path.join(reposDir, repo.owner, repo.name);
+  const checkout = [...(repo.host ? [repo.host] : []), repo.owner, repo.name];
+  if (repo.branch) {
+    return path.join(reposDir, '_branches', encodeURIComponent(repo.branch), ...checkout);
+  }
+  return path.join(reposDir, ...checkout);
 }
@@ -7,6 +7,8 @@ export interface StoredFingerprint {
   kind: string;
   lastIndexedAt: string;
   lastChunks: number | null;
+  /** HEAD commit of the checkout that was indexed; null for local-path repos. */
+  lastCommit: string | null;
 }
 
 /**
@@ -34,6 +36,7 @@ export class StateStore {
   private getStmt: Database.Statement;
   private upsertStmt: Database.Statement;
   private deleteStmt: Database.Statement;
+  private namesStmt: Database.Statement;
 
   constructor(dbPath: string) {
     fs.mkdirSync(path.dirname(dbPath), { recursive: true });
@@ -47,27 +50,38 @@ export class StateStore {
         fingerprint      TEXT NOT NULL,
         kind             TEXT NOT NULL,
         last_indexed_at  TEXT NOT NULL,
-        last_chunks      INTEGER
+        last_chunks      INTEGER,
+        last_commit      TEXT
       )
     `);
+    this.migrateLastCommit();
 
     this.getStmt = this.db.prepare(
-      'SELECT fingerprint, kind, last_indexed_at AS lastIndexedAt, last_chunks AS lastChunks FROM repo_fingerprints WHERE full_name = ?'
+      'SELECT fingerprint, kind, last_indexed_at AS lastIndexedAt, last_chunks AS lastChunks, last_commit AS lastCommit FROM repo_fingerprints WHERE full_name = ?'
     );
     this.upsertStmt = this.db.prepare(
-      `INSERT INTO repo_fingerprints (full_name, fingerprint, kind, last_indexed_at, last_chunks)
-       VALUES (@fullName, @fingerprint, @kind, @lastIndexedAt, @lastChunks)
+      `INSERT INTO repo_fingerprints (full_name, fingerprint, kind, last_indexed_at, last_chunks, last_commit)
+       VALUES (@fullName, @fingerprint, @kind, @lastIndexedAt, @lastChunks, @lastCommit)
        ON CONFLICT(full_name) DO UPDATE SET
          fingerprint     = excluded.fingerprint,
          kind            = excluded.kind,
          last_indexed_at = excluded.last_indexed_at,
-         last_chunks     = excluded.last_chunks`
+         last_chunks     = excluded.last_chunks,
+         last_commit     = excluded.last_commit`
     );
     this.deleteStmt = this.db.prepare('DELETE FROM repo_fingerprints WHERE full_name = ?');
+    this.namesStmt = this.db.prepare('SELECT full_name AS fullName FROM repo_fingerprints');
 
     this.applyReindexEpoch();
   }
 
+  /** Databases created before incremental reindexing lack `last_commit`. */
+  private migrateLastCommit(): void {
+    const columns = this.db.pragma('table_info(repo_fingerprints)') as Array<{ name: string }>;
+    if (columns.some((c) => c.name === 'last_commit')) return;
+    this.db.exec('ALTER TABLE repo_fingerprints ADD COLUMN last_commit TEXT');
+  }
+
   /**
    * One-time forced reindex gate. When the code's {@link REINDEX_EPOCH} is newer
    * than the value persisted in this database, drop every stored fingerprint so
@@ -87,19 +101,29 @@ export class StateStore {
   }
 
   get(fullName: string): StoredFingerprint | undefined {
-    const row = this.getStmt.get(fullName) as
-      | { fingerprint: string; kind: string; lastIndexedAt: string; lastChunks: number | null }
-      | undefined;
-    return row;
+    return this.getStmt.get(fullName) as StoredFingerprint | undefined;
   }
 
-  set(fullName: string, fingerprint: string, kind: string, chunks: number | undefined): void {
+  /**
+   * Record a successful index. `lastCommit` is the HEAD that was indexed; the
+   * next fast cycle diffs from it. Leaving it out clears any stored commit, so
+   * a later cycle falls back to a full run rather than diffing from a commit
+   * the index may not reflect.
+   */
+  set(
+    fullName: string,
+    fingerprint: string,
+    kind: string,
+    chunks: number | undefined,
+    lastCommit?: string
+  ): void {
     this.upsertStmt.run({
       fullName,
       fingerprint,
       kind,
       lastIndexedAt: new Date().toISOString(),
       lastChunks: chunks ?? null,
+      lastCommit: lastCommit ?? null,
     });
   }
 
@@ -107,6 +131,15 @@ export class StateStore {
     this.deleteStmt.run(fullName);
   }
 
+  /** Every recorded `fullName` starting with `prefix` — e.g. a repo's branch variants. */
+  fullNamesWithPrefix(prefix: string): string[] {
+    const rows = this.namesStmt.all() as Array<{ fullName: string }>;
+    return rows
+      .map((r) => r.fullName)
+      .filter((name) => name.startsWith(prefix))
+      .sort();
+  }
+
   close(): void {
     if (this.closed) return;
     this.db.close();
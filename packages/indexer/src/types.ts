@@ -1,3 +1,5 @@
+import type { IndexPhase } from '@paparats/server';
+
 export interface RepoConfig {
   /** Repository URL (e.g. https://github.com/org/repo.git). Empty string for local-path projects. */
   url: string;
@@ -11,6 +13,57 @@ export interface RepoConfig {
   localPath?: string;
   /** Per-repo overrides from indexer config file */
   overrides?: RepoOverrides;
+  /**
+   * Extra branches to index besides the default one: names or globs
+   * (`release/*`). Remote repos only.
+   */
+  branches?: string[];
+  /** Set on a branch variant: the non-default branch this entry indexes. */
+  branch?: string;
+  /** Git host of a remote repo other than github.com (e.g. "gitlab.example.com"). */
+  host?: string;
+  /** Credentials and link templates for the repo's host, from `hosts:` in projects.yml. */
+  gitHost?: GitHostConfig;
+  /** Shallow / partial clone settings. */
+  clone?: CloneOptions;
+}
+
+/** Kind of git server; picks the default commit and issue link templates. */
+export type GitHostType = 'github' | 'gitlab' | 'bitbucket' | 'gitea';
+
+/**
+ * Per-host settings in projects.yml, keyed by hostname. Secrets are never
+ * written in the file: `*_env` fields name the environment variable holding
+ * them, read each time git talks to the host.
+ */
+export interface GitHostConfig {
+  /** Server kind. github.com and gitlab.com are recognised without it. */
+  type?: GitHostType;
+  /** Env var holding an access token, sent as an HTTP header. */
+  token_env?: string;
+  /** Header carrying the token; `{token}` is replaced. Default `Authorization: Bearer {token}`. */
+  token_header?: string;
+  /** HTTP basic auth user, with the password (or token) in `password_env`. */
+  username?: string;
+  password_env?: string;
+  /** Private key for SSH remotes. */
+  ssh_key?: string;
+  /** known_hosts file for SSH remotes; when set, unknown host keys are refused. */
+  known_hosts?: string;
+  /**
+   * Web link templates for get_chunk_meta. `{host}`, `{owner}`, `{name}` and
+   * `{repo}` (owner/name) describe the repo; `{sha}` a commit, `{number}` an
+   * issue and `{key}` a tracker ticket (e.g. `https://jira.example.com/browse/{key}`).
+   */
+  links?: { commit?: string; issue?: string; ticket?: string };
+}
+
+/** Shallow / partial clone settings for remote repos. */
+export interface CloneOptions {
+  /** `git clone --depth`: history kept in the clone (limits git metadata to it). */
+  depth?: number;
+  /** `git clone --filter`, e.g. `blob:none` to fetch file contents on demand. */
+  filter?: string;
 }
 
 /** Per-repo overrides in projects.yml */
@@ -27,6 +80,7 @@ export interface RepoOverrides {
     overlap?: number;
     concurrency?: number;
     batchSize?: number;
+    chunkHeader?: string;
   };
   metadata?: {
     service?: string;
@@ -37,6 +91,7 @@ export interface RepoOverrides {
       enabled?: boolean;
       maxCommitsPerFile?: number;
       ticketPatterns?: string[];
+      ownershipMonths?: number;
     };
   };
 }
@@ -48,14 +103,23 @@ export interface RepoOverrides {
 export interface IndexerFileConfig {
   repos: Array<
     {
-      /** Repository in "owner/repo" format. Mutually exclusive with `path`. */
+      /**
+       * GitHub "owner/repo", or a clone URL on any host (`https://…`,
+       * `ssh://…`, `git@host:path`). Mutually exclusive with `path`.
+       */
       url?: string;
       /** Absolute host path mounted at /projects/<name> in the indexer container. Mutually exclusive with `url`. */
       path?: string;
       /** Optional override for the project name (defaults to basename of `path` or repo of `url`). */
       name?: string;
+      /** Extra branches (names or globs) indexed as `<name>@<branch>`. Requires `url`. */
+      branches?: string[];
+      /** Shallow / partial clone settings. Requires `url`. */
+      clone?: CloneOptions;
     } & RepoOverrides
   >;
+  /** Per-host credentials and link templates, keyed by hostname. */
+  hosts?: Record<string, GitHostConfig>;
   defaults?: {
     group?: string;
     language?: string | string[];
@@ -65,6 +129,8 @@ export interface IndexerFileConfig {
     cron_fast?: string;
     indexing?: RepoOverrides['indexing'];
     metadata?: RepoOverrides['metadata'];
+    /** Clone settings for every remote repo without its own. */
+    clone?: CloneOptions;
   };
 }
 
@@ -102,3 +168,50 @@ export interface HealthResponse {
   repoCount: number;
   repos: RepoStatus[];
 }
+
+/** What a job runs: a full index cycle, or a fingerprint change check. */
+export type JobKind = 'index' | 'check';
+
+/** Where a job came from. */
+export type JobTrigger = 'manual' | 'cron' | 'webhook' | 'config' | 'startup';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/** A repo's part in a job run; `skipped` when a change check found it unchanged. */
+export type JobRepoStatus = 'running' | 'succeeded' | 'failed' | 'skipped' | 'cancelled';
+
+/** `clone` covers the clone / pull; the rest are the server indexer's phases. */
+export type JobPhase = 'clone' | IndexPhase;
+
+export interface JobRepoProgress {
+  repo: string;
+  status: JobRepoStatus;
+  phase: JobPhase | null;
+  filesProcessed: number;
+  filesTotal: number;
+  chunks: number;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+export interface Job {
+  id: string;
+  kind: JobKind;
+  trigger: JobTrigger;
+  /** Repo filter as given to `/trigger`; null = every configured repo. */
+  repos: string[] | null;
+  force: boolean;
+  status: JobStatus;
+  /** Runs started so far, including the current one. */
+  attempts: number;
+  maxAttempts: number;
+  /** Earliest start; later than `createdAt` while a retry backs off. */
+  runAfter: string;
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  /** Per-repo progress of the latest attempt, in run order. */
+  progress: JobRepoProgress[];
+}
@@ -0,0 +1,249 @@
+import crypto from 'crypto';
+import express, { type Router } from 'express';
+import { matchBranch } from './branches.js';
+import { remoteRepo } from './git-hosts.js';
+import { resolveTriggerTargets } from './trigger-filter.js';
+import type { RepoConfig } from './types.js';
+
+export const WEBHOOK_PROVIDERS = ['github', 'gitlab', 'gitea'] as const;
+export type WebhookProvider = (typeof WEBHOOK_PROVIDERS)[number];
+
+/** A branch push, as far as the indexer cares. */
+export interface PushEvent {
+  /** Clone / web URLs of the pushed repo, in the payload's order. */
+  urls: string[];
+  /** Pushed branch, without `refs/heads/`. */
+  branch: string;
+  /** The repo's default branch; null when the payload doesn't say. */
+  defaultBranch: string | null;
+}
+
+type Headers = Record<string, string | string[] | undefined>;
+
+function header(headers: Headers, name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+function hmacHex(secret: string, body: Buffer): string {
+  return crypto.createHmac('sha256', secret).update(body).digest('hex');
+}
+
+/**
+ * Check a delivery against the shared secret: GitHub's `X-Hub-Signature-256`
+ * (`sha256=<hmac>`), Gitea's `X-Gitea-Signature` (bare hmac), both over the
+ * raw body, or GitLab's `X-Gitlab-Token`, which carries the secret itself.
+ */
+export function verifyWebhook(
+  provider: WebhookProvider,
+  secret: string,
+  headers: Headers,
+  body: Buffer
+): boolean {
+  switch (provider) {
+    case 'github': {
+      const signature = header(headers, 'x-hub-signature-256');
+      return !!signature && safeEqual(signature, `sha256=${hmacHex(secret, body)}`);
+    }
+    case 'gitea': {
+      const signature = header(headers, 'x-gitea-signature');
+      return !!signature && safeEqual(signature, hmacHex(secret, body));
+    }
+    case 'gitlab': {
+      const token = header(headers, 'x-gitlab-token');
+      return !!token && safeEqual(token, secret);
+    }
+  }
+}
+
+/** The delivery's event name; push events are `push` (GitHub, Gitea) and `Push Hook` (GitLab). */
+export function webhookEvent(provider: WebhookProvider, headers: Headers): string | undefined {
+  switch (provider) {
+    case 'github':
+      return header(headers, 'x-github-event');
+    case 'gitea':
+      return header(headers, 'x-gitea-event');
+    case 'gitlab':
+      return header(headers, 'x-gitlab-event');
+  }
+}
+
+function isPush(provider: WebhookProvider, event: string | undefined): boolean {
+  return provider === 'gitlab' ? event === 'Push Hook' : event === 'push';
+}
+
+const HEADS_PREFIX = 'refs/heads/';
+
+/**
+ * Read a push payload. GitHub and Gitea describe the repo under `repository`,
+ * GitLab under `project`. Null for pushes that aren't to a branch (tags) or
+ * payloads missing the repo.
+ */
+export function parsePushEvent(provider: WebhookProvider, payload: unknown): PushEvent | null {
+  if (!payload || typeof payload !== 'object') return null;
+  const body = payload as Record<string, unknown>;
+  const ref = body['ref'];
+  if (typeof ref !== 'string' || !ref.startsWith(HEADS_PREFIX)) return null;
+
+  const repo = body[provider === 'gitlab' ? 'project' : 'repository'];
+  if (!repo || typeof repo !== 'object') return null;
+  const fields =
+    provider === 'gitlab'
+      ? ['git_http_url', 'git_ssh_url', 'web_url']
+      : ['clone_url', 'ssh_url', 'html_url'];
+  const r = repo as Record<string, unknown>;
+  const urls = fields.map((f) => r[f]).filter((u): u is string => typeof u === 'string' && !!u);
+  if (urls.length === 0) return null;
+
+  const defaultBranch = r['default_branch'];
+  return {
+    urls,
+    branch: ref.slice(HEADS_PREFIX.length),
+    defaultBranch: typeof defaultBranch === 'string' && defaultBranch ? defaultBranch : null,
+  };
+}
+
+/**
+ * Configured repos a push concerns: the pushed repo, matched by the same
+ * bookkeeping name its `url:` entry gets, when the branch is its default one
+ * or one of its `branches:`.
+ */
+export function pushTargets(repos: RepoConfig[], push: PushEvent): RepoConfig[] {
+  const names = new Set<string>();
+  for (const url of push.urls) {
+    try {
+      names.add(remoteRepo(url).fullName);
+    } catch {
+      // Not a URL we can name a repo by; the other ones may be.
+    }
+  }
+  return resolveTriggerTargets(repos, [...names]).filter(
+    (repo) =>
+      !repo.localPath &&
+      (push.defaultBranch === null ||
+        push.branch === push.defaultBranch ||
+        (repo.branches ?? []).some((pattern) => matchBranch(push.branch, pattern)))
+  );
+}
+
+export interface WebhookRouterOptions {
+  /** Shared secret configured on the webhooks. */
+  secret: string;
+  /** Current repo list (hot-reloaded). */
+  getRepos: () => RepoConfig[];
+  /** Called with the repos a verified push concerns. */
+  onPush: (repos: RepoConfig[]) => void;
+}
+
+/** Payload cap; GitHub's own limit for webhook deliveries. */
+const MAX_PAYLOAD = '25mb';
+
+/**
+ * `POST /webhooks/:provider` for GitHub, GitLab and Gitea push hooks. Reads
+ * the raw body itself — the signature covers the exact bytes — so it must be
+ * mounted before any JSON body parser. Deliveries that don't concern a
+ * configured repo are acknowledged with `status: "ignored"`, so the sender
+ * doesn't report them as failures.
+ */
+export function webhookRouter(opts: WebhookRouterOptions): Router {
+  const router = express.Router();
+  router.post(
+    '/webhooks/:provider',
+    express.raw({ type: () => true, limit: MAX_PAYLOAD }),
+    (req, res) => {
+      const provider = req.params['provider'] as WebhookProvider;
+      if (!WEBHOOK_PROVIDERS.includes(provider)) {
+        res.status(404).json({ error: `Unknown webhook provider: ${provider}` });
+        return;
+      }
+      const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+      if (!verifyWebhook(provider, opts.secret, req.headers, body)) {
+        res.status(401).json({ error: 'Invalid webhook signature' });
+        return;
+      }
+
+      const event = webhookEvent(provider, req.headers);
+      if (!isPush(provider, event)) {
+        res.json({ status: 'ignored', reason: `${event ?? 'unknown'} event` });
+        return;
+      }
+      let payload: unknown;
+      try {
+        payload = JSON.parse(body.toString('utf8'));
+      } catch {
+        res.status(400).json({ error: 'Webhook payload must be JSON' });
+        return;
+      }
+      const push = parsePushEvent(provider, payload);
+      if (!push) {
+        res.json({ status: 'ignored', reason: 'not a branch push' });
+        return;
+      }
+      const targets = pushTargets(opts.getRepos(), push);
+      if (targets.length === 0) {
+        res.json({ status: 'ignored', reason: 'no configured repo tracks this branch' });
+        return;
+      }
+
+      opts.onPush(targets);
+      res.status(202).json({
+        status: 'queued',
+        repos: targets.map((r) => r.fullName),
+        branch: push.branch,
+      });
+    }
+  );
+  return router;
+}
+
+export interface PushCoalescerOptions {
+  /** Wait after the first push of a burst before running. */
+  delayMs: number;
+  /** Run a change check on the given repo full names. */
+  run: (repos: string[]) => Promise<void>;
+}
+
+/**
+ * Collects pushed repos and runs one change check for a whole burst: the
+ * first push arms a timer, later ones join the pending set.
+ */
+export class PushCoalescer {
+  private pending = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly opts: PushCoalescerOptions) {}
+
+  add(repos: string[]): void {
+    for (const repo of repos) this.pending.add(repo);
+    this.schedule();
+  }
+
+  close(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.pending.clear();
+  }
+
+  private schedule(): void {
+    if (this.timer || this.pending.size === 0) return;
+    this.timer = setTimeout(() => void this.flush(), this.opts.delayMs);
+    this.timer.unref();
+  }
+
+  private async flush(): Promise<void> {
+    this.timer = null;
+    const batch = [...this.pending];
+    this.pending.clear();
+    try {
+      await this.opts.run(batch);
+    } catch (err) {
+      console.error(`[indexer] Webhook change check failed: ${(err as Error).message}`);
+    }
+  }
+}
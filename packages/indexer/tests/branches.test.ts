@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  branchVariant,
+  matchBranch,
+  parseLsRemoteBranches,
+  selectBranches,
+} from '../src/branches.js';
+import type { RepoConfig } from '../src/types.js';
+
+const sha = (c: string): string => c.repeat(40);
+
+describe('parseLsRemoteBranches', () => {
+  it('keeps branch heads and the default branch, skipping tags and pull refs', () => {
+    const out = [
+      'ref: refs/heads/main\tHEAD',
+      `${sha('a')}\tHEAD`,
+      `${sha('a')}\trefs/heads/main`,
+      `${sha('b')}\trefs/heads/release/2.x`,
+      `${sha('c')}\trefs/tags/v1`,
+      `${sha('d')}\trefs/pull/1/head`,
+    ].join('\n');
+    const remote = parseLsRemoteBranches(out);
+    expect(remote.defaultBranch).toBe('main');
+    expect([...remote.heads]).toEqual([
+      ['main', sha('a')],
+      ['release/2.x', sha('b')],
+    ]);
+  });
+
+  it('has no default branch without a symref line', () => {
+    expect(parseLsRemoteBranches(`${sha('a')}\trefs/heads/dev`).defaultBranch).toBeNull();
+  });
+});
+
+describe('matchBranch', () => {
+  it('keeps * within a segment and lets ** cross segments', () => {
+    expect(matchBranch('release/2.x', 'release/*')).toBe(true);
+    expect(matchBranch('release/2.x/rc', 'release/*')).toBe(false);
+    expect(matchBranch('release/2.x/rc', 'release/**')).toBe(true);
+    expect(matchBranch('v1.2', 'v?.?')).toBe(true);
+    expect(matchBranch('v1x2', 'v1.2')).toBe(false);
+  });
+});
+
+describe('selectBranches', () => {
+  const remote = parseLsRemoteBranches(
+    [
+      'ref: refs/heads/main\tHEAD',
+      `${sha('a')}\trefs/heads/main`,
+      `${sha('b')}\trefs/heads/release/2.x`,
+      `${sha('c')}\trefs/heads/release/1.x`,
+      `${sha('d')}\trefs/heads/develop`,
+    ].join('\n')
+  );
+
+  it('expands globs, drops the default branch and reports missing names', () => {
+    expect(selectBranches(['release/*', 'develop', 'main', 'gone'], remote)).toEqual({
+      branches: ['develop', 'release/1.x', 'release/2.x'],
+      missing: ['gone'],
+    });
+    expect(selectBranches(['*'], remote).branches).toEqual(['develop']);
+  });
+});
+
+describe('branchVariant', () => {
+  it('keys the variant by branch and drops the branch list', () => {
+    const repo: RepoConfig = {
+      url: 'https://github.com/org/repo.git',
+      owner: 'org',
+      name: 'repo',
+      fullName: 'org/repo',
+      branches: ['release/*'],
+      overrides: { group: 'prod' },
+    };
+    expect(branchVariant(repo, 'release/2.x')).toEqual({
+      url: 'https://github.com/org/repo.git',
+      owner: 'org',
+      name: 'repo',
+      fullName: 'org/repo@release/2.x',
+      branch: 'release/2.x',
+      overrides: { group: 'prod' },
+    });
+  });
+});
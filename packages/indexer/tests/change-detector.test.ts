@@ -2,7 +2,12 @@ import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import fs from 'fs';
 import os from 'os';
 import path from 'path';
-import { MtimeDetector, GitDetector, parseLsRemoteHead } from '../src/change-detector.js';
+import {
+  MtimeDetector,
+  GitDetector,
+  parseLsRemoteHead,
+  parseLsRemoteRef,
+} from '../src/change-detector.js';
 import type { ProjectConfig } from '@paparats/server';
 import type { RepoConfig } from '../src/types.js';
 
@@ -31,7 +36,7 @@ function makeProject(root: string, overrides: Partial<ProjectConfig> = {}): Proj
       bounded_context: '',
       tags: [],
       directory_tags: {},
-      git: { enabled: false, maxCommitsPerFile: 0, ticketPatterns: [] },
+      git: { enabled: false, maxCommitsPerFile: 0, ticketPatterns: [], ownershipMonths: 12 },
     },
     ...overrides,
   } as ProjectConfig;
@@ -65,6 +70,19 @@ describe('parseLsRemoteHead', () => {
   });
 });
 
+describe('parseLsRemoteRef', () => {
+  it('returns the sha of exactly the requested ref', () => {
+    const out = [
+      'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa\trefs/heads/release',
+      'bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb\trefs/heads/release/2.x',
+    ].join('\n');
+    expect(parseLsRemoteRef(out, 'refs/heads/release/2.x')).toBe(
+      'bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb'
+    );
+    expect(parseLsRemoteRef(out, 'refs/heads/main')).toBeNull();
+  });
+});
+
 describe('MtimeDetector', () => {
   let dir: string;
   let detector: MtimeDetector;
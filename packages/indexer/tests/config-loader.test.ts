@@ -263,6 +263,115 @@ repos:
     expect(() => loadIndexerConfig(configPath)).toThrow(/Duplicate project name "billing"/);
   });
 
+  it('parses branches on a remote entry, keeping them out of the overrides', () => {
+    writeConfig(`
+repos:
+  - url: org/repo
+    branches: [develop, 'release/*']
+  - url: org/other
+`);
+    const result = loadIndexerConfig(configPath);
+    expect(result.repos[0]!.branches).toEqual(['develop', 'release/*']);
+    expect(result.repos[0]!.overrides).toBeUndefined();
+    expect(result.repos[1]!.branches).toBeUndefined();
+  });
+
+  it('rejects branches on a local-path entry or in the wrong shape', () => {
+    writeConfig(`
+repos:
+  - path: /Users/alice/code/billing
+    branches: [develop]
+`);
+    expect(() => loadIndexerConfig(configPath)).toThrow(/"branches" needs a remote "url"/);
+
+    writeConfig(`
+repos:
+  - url: org/repo
+    branches: develop
+`);
+    expect(() => loadIndexerConfig(configPath)).toThrow(/must be a list/);
+  });
+
+  it('accepts clone URLs on any host with their host settings and clone options', () => {
+    writeConfig(`
+hosts:
+  GitLab.example.com:
+    type: gitlab
+    username: oauth2
+    password_env: GITLAB_TOKEN
+defaults:
+  clone: { depth: 100 }
+repos:
+  - url: https://gitlab.example.com/team/billing.git
+  - url: git@bitbucket.example.com:proj/ledger.git
+    clone: { filter: 'blob:none' }
+  - url: org/repo
+`);
+    const result = loadIndexerConfig(configPath, 'ghp_abc123');
+    expect(result.repos[0]).toMatchObject({
+      url: 'https://gitlab.example.com/team/billing.git',
+      fullName: 'gitlab.example.com/team/billing',
+      name: 'billing',
+      host: 'gitlab.example.com',
+      gitHost: { type: 'gitlab', username: 'oauth2', password_env: 'GITLAB_TOKEN' },
+      clone: { depth: 100 },
+    });
+    expect(result.repos[1]).toMatchObject({
+      fullName: 'bitbucket.example.com/proj/ledger',
+      clone: { filter: 'blob:none' },
+    });
+    expect(result.repos[1]!.gitHost).toBeUndefined();
+    expect(result.repos[2]!.url).toBe('https://ghp_abc123@github.com/org/repo.git');
+  });
+
+  it('rejects malformed hosts and clone settings', () => {
+    writeConfig(`
+hosts:
+  git.example.com: { type: sourcehut }
+repos:
+  - url: org/repo
+`);
+    expect(() => loadIndexerConfig(configPath)).toThrow(/"type" must be one of/);
+
+    writeConfig(`
+hosts:
+  git.example.com: { username: bot }
+repos:
+  - url: org/repo
+`);
+    expect(() => loadIndexerConfig(configPath)).toThrow(
+      /"username" and "password_env" go together/
+    );
+
+    writeConfig(`
+hosts:
+  git.example.com: { token_env: TOKEN, token_header: 'Authorization: Bearer' }
+repos:
+  - url: org/repo
+`);
+    expect(() => loadIndexerConfig(configPath)).toThrow(/must contain \{token\}/);
+
+    writeConfig(`
+repos:
+  - url: org/repo
+    clone: { depth: 0 }
+`);
+    expect(() => loadIndexerConfig(configPath)).toThrow(/"clone.depth" must be a positive integer/);
+
+    writeConfig(`
+repos:
+  - path: /Users/alice/code/billing
+    clone: { depth: 1 }
+`);
+    expect(() => loadIndexerConfig(configPath)).toThrow(/"clone" needs a remote "url"/);
+
+    writeConfig(`
+repos:
+  - url: ftp://git.example.com/team/repo.git
+`);
+    expect(() => loadIndexerConfig(configPath)).toThrow(/Invalid repo format.*unsupported scheme/);
+  });
+
   it('parses mixed file with local-path and remote entries', () => {
     writeConfig(`
 repos:
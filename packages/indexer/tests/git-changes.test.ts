@@ -0,0 +1,111 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execSync } from 'child_process';
+import {
+  changedFilesSince,
+  headCommit,
+  parseNameStatus,
+  touchesIndexConfig,
+} from '../src/git-changes.js';
+
+describe('parseNameStatus', () => {
+  it('splits renames into a removal and a change', () => {
+    const output = ['M', 'src/a.ts', 'A', 'src/b.ts', 'D', 'src/c.ts', 'R087', 'old.ts', 'new.ts'];
+    expect(parseNameStatus(output.join('\0') + '\0')).toEqual({
+      changed: ['src/a.ts', 'src/b.ts', 'new.ts'],
+      deleted: ['src/c.ts', 'old.ts'],
+    });
+  });
+
+  it('keeps the source of a copy and reads type changes as changes', () => {
+    const output = ['C100', 'a.ts', 'b.ts', 'T', 'link.ts'];
+    expect(parseNameStatus(output.join('\0'))).toEqual({
+      changed: ['b.ts', 'link.ts'],
+      deleted: [],
+    });
+  });
+
+  it('returns nothing for an empty diff', () => {
+    expect(parseNameStatus('')).toEqual({ changed: [], deleted: [] });
+  });
+});
+
+describe('touchesIndexConfig', () => {
+  it('flags the root project config and a .gitignore at any depth', () => {
+    expect(touchesIndexConfig({ changed: ['.paparats.yml'], deleted: [] })).toBe(true);
+    expect(touchesIndexConfig({ changed: ['src/a.ts'], deleted: ['.gitignore'] })).toBe(true);
+    expect(touchesIndexConfig({ changed: ['packages/x/.gitignore'], deleted: [] })).toBe(true);
+  });
+
+  it('ignores ordinary files and a nested .paparats.yml', () => {
+    expect(
+      touchesIndexConfig({ changed: ['src/a.ts', 'docs/.paparats.yml'], deleted: ['b.gitignore'] })
+    ).toBe(false);
+  });
+});
+
+describe('changedFilesSince', () => {
+  let tmpDir: string | undefined;
+
+  afterEach(() => {
+    if (tmpDir) fs.rmSync(tmpDir, { recursive: true, force: true });
+    tmpDir = undefined;
+  });
+
+  function git(cmd: string): string {
+    return execSync(`git ${cmd}`, {
+      cwd: tmpDir,
+      encoding: 'utf8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+    }).trim();
+  }
+
+  function write(file: string, content: string): void {
+    fs.writeFileSync(path.join(tmpDir!, file), content);
+  }
+
+  function init(): string {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'paparats-git-changes-'));
+    git('init');
+    git('config user.email "test@test.com"');
+    git('config user.name "Test"');
+    write('a.ts', 'export const a = 1;\n');
+    write('b.ts', 'export const b = 1;\n');
+    write('c.ts', 'export const c = "a file long enough to be detected as a rename";\n');
+    git('add -A');
+    git('commit -m base');
+    return git('rev-parse HEAD');
+  }
+
+  it('lists files changed since an ancestor commit', async () => {
+    const base = init();
+    write('b.ts', 'export const b = 2;\n');
+    write('d.ts', 'export const d = 1;\n');
+    fs.rmSync(path.join(tmpDir!, 'a.ts'));
+    git('mv c.ts e.ts');
+    git('add -A');
+    git('commit -m change');
+
+    const head = await headCommit(tmpDir!);
+    expect(head).toBe(git('rev-parse HEAD'));
+    const changes = await changedFilesSince(tmpDir!, base, head);
+    expect(changes?.changed.sort()).toEqual(['b.ts', 'd.ts', 'e.ts']);
+    expect(changes?.deleted.sort()).toEqual(['a.ts', 'c.ts']);
+  });
+
+  it('returns null after a force-push or for an unknown commit', async () => {
+    const base = init();
+    write('b.ts', 'export const b = 2;\n');
+    git('commit -am first');
+    const first = git('rev-parse HEAD');
+    git(`reset --hard ${base}`);
+    write('b.ts', 'export const b = 3;\n');
+    git('commit -am rewritten');
+    const head = await headCommit(tmpDir!);
+
+    expect(await changedFilesSince(tmpDir!, first, head)).toBeNull();
+    expect(await changedFilesSince(tmpDir!, 'f'.repeat(40), head)).toBeNull();
+  });
+});
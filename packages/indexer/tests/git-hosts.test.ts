@@ -0,0 +1,191 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import os from 'os';
+import { gitAuth, parseRepoUrl, remoteGit, remoteRepo, repoLinks } from '../src/git-hosts.js';
+import type { RepoConfig } from '../src/types.js';
+
+describe('parseRepoUrl', () => {
+  it.each([
+    ['org/repo', 'github.com', 'org', 'repo'],
+    [
+      'https://gitlab.example.com/team/sub/billing.git',
+      'gitlab.example.com',
+      'team/sub',
+      'billing',
+    ],
+    ['https://gitea.example.com/team/billing', 'gitea.example.com', 'team', 'billing'],
+    [
+      'ssh://git@Bitbucket.example.com:7999/proj/ledger.git',
+      'bitbucket.example.com',
+      'proj',
+      'ledger',
+    ],
+    ['git@gitlab.example.com:team/billing.git', 'gitlab.example.com', 'team', 'billing'],
+  ])('splits %s', (input, host, owner, name) => {
+    expect(parseRepoUrl(input)).toMatchObject({ host, owner, name });
+  });
+
+  it('expands the GitHub shorthand and keeps URLs as given', () => {
+    expect(parseRepoUrl('org/repo').url).toBe('https://github.com/org/repo.git');
+    expect(parseRepoUrl(' git@host.example.com:a/b.git ').url).toBe('git@host.example.com:a/b.git');
+  });
+
+  it.each(['just-a-name', 'a/b/c', 'https://git.example.com/repo.git', 'file:///srv/a/b.git'])(
+    'rejects %s',
+    (input) => {
+      expect(() => parseRepoUrl(input)).toThrow(/Invalid repo format/);
+    }
+  );
+});
+
+describe('remoteRepo', () => {
+  it('keeps GITHUB_TOKEN for github.com unless the host has its own settings', () => {
+    expect(remoteRepo('https://github.com/org/repo.git', 'tok').url).toBe(
+      'https://tok@github.com/org/repo.git'
+    );
+    const hosts = { 'github.com': { username: 'bot', password_env: 'GH_PASS' } };
+    expect(remoteRepo('org/repo', 'tok', hosts)).toEqual({
+      url: 'https://github.com/org/repo.git',
+      owner: 'org',
+      name: 'repo',
+      fullName: 'org/repo',
+      gitHost: hosts['github.com'],
+    });
+  });
+
+  it('refuses plain http for a host with HTTP credentials', () => {
+    const hosts = {
+      'git.example.com': { token_env: 'GIT_TOKEN' },
+      'mirror.example.com': { ssh_key: '/keys/deploy' },
+    };
+    expect(() => remoteRepo('http://git.example.com/team/repo.git', undefined, hosts)).toThrow(
+      /over plain http/
+    );
+    expect(remoteRepo('https://git.example.com/team/repo.git', undefined, hosts).gitHost).toBe(
+      hosts['git.example.com']
+    );
+    // No HTTP credentials to leak: an SSH-only host or an unknown one may use http.
+    expect(remoteRepo('http://mirror.example.com/team/repo.git', undefined, hosts).url).toBe(
+      'http://mirror.example.com/team/repo.git'
+    );
+    expect(remoteRepo('http://other.example.com/team/repo.git', undefined, hosts).url).toBe(
+      'http://other.example.com/team/repo.git'
+    );
+  });
+});
+
+describe('gitAuth', () => {
+  afterEach(() => {
+    delete process.env['TEST_GIT_TOKEN'];
+  });
+
+  const header = (value: string) => ({
+    env: {
+      GIT_CONFIG_COUNT: '1',
+      GIT_CONFIG_KEY_0: 'http.extraHeader',
+      GIT_CONFIG_VALUE_0: value,
+    },
+  });
+
+  it('sends a token or basic credentials as a per-command header', () => {
+    process.env['TEST_GIT_TOKEN'] = 's3cret';
+    expect(gitAuth({ token_env: 'TEST_GIT_TOKEN' })).toEqual(
+      header('Authorization: Bearer s3cret')
+    );
+    expect(
+      gitAuth({ token_env: 'TEST_GIT_TOKEN', token_header: 'Authorization: token {token}' })
+    ).toEqual(header('Authorization: token s3cret'));
+    expect(gitAuth({ username: 'oauth2', password_env: 'TEST_GIT_TOKEN' })).toEqual(
+      header(`Authorization: Basic ${btoa('oauth2:s3cret')}`)
+    );
+  });
+
+  it('hands git the header through its environment, never on the command line', async () => {
+    process.env['TEST_GIT_TOKEN'] = 's3cret';
+    const repo = {
+      ...remoteRepo('https://git.example.com/org/repo.git'),
+      gitHost: { token_env: 'TEST_GIT_TOKEN' },
+    };
+    const git = remoteGit(repo, os.tmpdir());
+    const argv: string[] = [];
+    git.outputHandler((_command, _stdout, _stderr, args) => argv.push(...args));
+
+    const value = await git.raw(['config', '--get', 'http.extraHeader']);
+    expect(value.trim()).toBe('Authorization: Bearer s3cret');
+    expect(argv).toContain('http.extraHeader');
+    expect(argv.join(' ')).not.toContain('s3cret');
+  });
+
+  it('builds an SSH command pinning the key and known hosts', () => {
+    expect(gitAuth({ ssh_key: '/keys/deploy key', known_hosts: '/keys/known_hosts' })).toEqual({
+      env: {
+        GIT_SSH_COMMAND:
+          "ssh -i '/keys/deploy key' -o IdentitiesOnly=yes -o UserKnownHostsFile='/keys/known_hosts' -o StrictHostKeyChecking=yes",
+      },
+    });
+  });
+
+  it('needs nothing without credentials and fails on an unset variable', () => {
+    expect(gitAuth(undefined)).toBeNull();
+    expect(gitAuth({ type: 'gitlab' })).toBeNull();
+    expect(() => gitAuth({ token_env: 'TEST_GIT_TOKEN' })).toThrow(/TEST_GIT_TOKEN is not set/);
+  });
+});
+
+describe('repoLinks', () => {
+  const repo = (over: Partial<RepoConfig>): RepoConfig => ({
+    url: 'https://github.com/org/repo.git',
+    owner: 'org',
+    name: 'repo',
+    fullName: 'org/repo',
+    ...over,
+  });
+
+  it('uses the defaults of known hosts and host types', () => {
+    expect(repoLinks(repo({}))).toEqual({
+      repo: 'org/repo',
+      commit: 'https://github.com/{repo}/commit/{sha}',
+      issue: 'https://github.com/{repo}/issues/{number}',
+    });
+    expect(
+      repoLinks(
+        repo({
+          url: 'https://bitbucket.example.com/scm/PAY/ledger.git',
+          owner: 'scm/PAY',
+          name: 'ledger',
+          host: 'bitbucket.example.com',
+          gitHost: { type: 'bitbucket' },
+        })
+      )
+    ).toEqual({
+      repo: 'PAY/ledger',
+      commit: 'https://bitbucket.example.com/projects/PAY/repos/ledger/commits/{sha}',
+    });
+  });
+
+  it('lets the host override templates and add a tracker', () => {
+    const links = repoLinks(
+      repo({
+        host: 'gitlab.example.com',
+        owner: 'team',
+        gitHost: {
+          type: 'gitlab',
+          links: {
+            commit: 'https://code.example.com/{owner}/{name}/-/commit/{sha}',
+            ticket: 'https://jira.example.com/browse/{key}',
+          },
+        },
+      })
+    );
+    expect(links).toEqual({
+      repo: 'team/repo',
+      commit: 'https://code.example.com/team/repo/-/commit/{sha}',
+      issue: 'https://gitlab.example.com/{repo}/-/issues/{number}',
+      ticket: 'https://jira.example.com/browse/{key}',
+    });
+  });
+
+  it('has none for local projects and hosts of unknown type', () => {
+    expect(repoLinks(repo({ url: '', localPath: '/projects/repo' }))).toBeUndefined();
+    expect(repoLinks(repo({ host: 'git.example.com' }))).toBeUndefined();
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { JobStore } from '../src/job-store.js';
+import { JobRunner, retryDelay, type JobContext, type JobOutcome } from '../src/job-runner.js';
+
+describe('retryDelay', () => {
+  it('doubles per attempt up to an hour', () => {
+    expect([1, 2, 3].map((n) => retryDelay(n, 60_000))).toEqual([60_000, 120_000, 240_000]);
+    expect(retryDelay(20, 60_000)).toBe(60 * 60 * 1000);
+  });
+});
+
+describe('JobRunner', () => {
+  let dir: string;
+  let store: JobStore;
+  let runner: JobRunner | undefined;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'paparats-runner-'));
+    store = new JobStore(path.join(dir, 'state.db'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    runner?.close();
+    runner = undefined;
+    store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  function start(run: (ctx: JobContext) => Promise<JobOutcome>, maxAttempts = 3): JobRunner {
+    runner = new JobRunner({ store, run, maxAttempts, retryBaseMs: 10 });
+    runner.start();
+    return runner;
+  }
+
+  it('runs jobs one at a time and records progress', async () => {
+    let active = 0;
+    let overlapped = false;
+    const r = start(async (ctx) => {
+      active++;
+      overlapped ||= active > 1;
+      ctx.progress('org/app', { phase: 'clone' });
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      ctx.progress('org/app', { phase: 'embed', filesProcessed: 3, filesTotal: 3, chunks: 7 });
+      ctx.progress('org/app', { status: 'succeeded' });
+      active--;
+      return { failed: [] };
+    });
+
+    const first = r.enqueue({ kind: 'index', trigger: 'manual' }).job;
+    const second = r.enqueue({ kind: 'check', trigger: 'cron' }).job;
+    await vi.waitFor(() => expect(store.get(second.id)!.status).toBe('succeeded'));
+
+    expect(overlapped).toBe(false);
+    expect(store.get(first.id)).toMatchObject({ status: 'succeeded', attempts: 1 });
+    expect(store.get(first.id)!.progress).toEqual([
+      expect.objectContaining({
+        repo: 'org/app',
+        status: 'succeeded',
+        phase: 'embed',
+        filesProcessed: 3,
+        filesTotal: 3,
+        chunks: 7,
+        finishedAt: expect.any(String),
+      }),
+    ]);
+  });
+
+  it('retries only the failed repos until the job succeeds or runs out of attempts', async () => {
+    const run = vi
+      .fn<(ctx: JobContext) => Promise<JobOutcome>>()
+      .mockResolvedValueOnce({ failed: ['org/b'] })
+      .mockResolvedValueOnce({ failed: [] });
+    const r = start(run);
+    const job = r.enqueue({ kind: 'index', trigger: 'manual', repos: ['org/a', 'org/b'] }).job;
+
+    await vi.waitFor(() => expect(store.get(job.id)!.status).toBe('succeeded'));
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(run.mock.calls[1]![0].job).toMatchObject({ repos: ['org/b'], attempts: 2 });
+
+    const failing = r.enqueue({ kind: 'check', trigger: 'cron' }).job;
+    run.mockRejectedValue(new Error('embedding server down'));
+    await vi.waitFor(() => expect(store.get(failing.id)!.status).toBe('failed'));
+    expect(store.get(failing.id)).toMatchObject({ attempts: 3, error: 'embedding server down' });
+  });
+
+  it('fails a job whose outcome the store cannot write, and keeps working the queue', async () => {
+    vi.spyOn(store, 'finish').mockImplementationOnce(() => {
+      throw new Error('SQLITE_BUSY: database is locked');
+    });
+    const r = start(async (ctx) => {
+      ctx.progress('org/app', { status: 'succeeded' });
+      return { failed: [] };
+    }, 1);
+
+    const first = r.enqueue({ kind: 'index', trigger: 'manual' }).job;
+    await vi.waitFor(() => expect(store.get(first.id)!.status).toBe('failed'));
+    expect(store.get(first.id)!.error).toBe('SQLITE_BUSY: database is locked');
+
+    const second = r.enqueue({ kind: 'check', trigger: 'cron' }).job;
+    await vi.waitFor(() => expect(store.get(second.id)!.status).toBe('succeeded'));
+  });
+
+  it('cancels a queued job and aborts the running one', async () => {
+    const r = start(async (ctx) => {
+      ctx.progress('org/app', { phase: 'embed' });
+      await new Promise((resolve) => ctx.signal.addEventListener('abort', resolve));
+      return { failed: [] };
+    });
+    const running = r.enqueue({ kind: 'index', trigger: 'manual' }).job;
+    const queued = r.enqueue({ kind: 'check', trigger: 'cron' }).job;
+    await vi.waitFor(() => expect(store.get(running.id)!.status).toBe('running'));
+
+    expect(r.cancel(queued.id)!.status).toBe('cancelled');
+    expect(r.cancel(running.id)!.status).toBe('running');
+    await vi.waitFor(() => expect(store.get(running.id)!.status).toBe('cancelled'));
+    expect(store.get(running.id)!.progress[0]).toMatchObject({ status: 'cancelled' });
+    expect(r.cancel('unknown')).toBeUndefined();
+  });
+});
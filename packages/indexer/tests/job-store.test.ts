@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { JobStore } from '../src/job-store.js';
+import { StateStore } from '../src/state-store.js';
+
+describe('JobStore', () => {
+  let dir: string;
+  let dbPath: string;
+  let store: JobStore;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'paparats-jobs-'));
+    dbPath = path.join(dir, 'state.db');
+    store = new JobStore(dbPath, 2);
+  });
+
+  afterEach(() => {
+    store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('folds a trigger into an identical job that has not started', () => {
+    const first = store.enqueue({
+      kind: 'index',
+      trigger: 'manual',
+      repos: ['b', 'a'],
+      maxAttempts: 3,
+    });
+    expect(first.existing).toBe(false);
+    expect(first.job).toMatchObject({
+      kind: 'index',
+      trigger: 'manual',
+      repos: ['a', 'b'],
+      force: false,
+      status: 'queued',
+      attempts: 0,
+      progress: [],
+    });
+
+    const again = store.enqueue({
+      kind: 'index',
+      trigger: 'cron',
+      repos: ['a', 'b'],
+      maxAttempts: 3,
+    });
+    expect(again).toMatchObject({ existing: true, job: { id: first.job.id } });
+    expect(
+      store.enqueue({
+        kind: 'index',
+        trigger: 'manual',
+        repos: ['a', 'b'],
+        force: true,
+        maxAttempts: 3,
+      }).existing
+    ).toBe(false);
+    expect(store.enqueue({ kind: 'check', trigger: 'cron', maxAttempts: 3 }).existing).toBe(false);
+    expect(
+      store.enqueue({ kind: 'check', trigger: 'cron', repos: [], maxAttempts: 3 }).existing
+    ).toBe(true);
+  });
+
+  it('claims jobs in order and records per-repo progress', () => {
+    const a = store.enqueue({ kind: 'index', trigger: 'manual', maxAttempts: 3 }).job;
+    const b = store.enqueue({ kind: 'check', trigger: 'cron', maxAttempts: 3 }).job;
+
+    const claimed = store.claimNext()!;
+    expect(claimed).toMatchObject({ id: a.id, status: 'running', attempts: 1 });
+    // A running job no longer absorbs triggers.
+    expect(store.enqueue({ kind: 'index', trigger: 'cron', maxAttempts: 3 }).existing).toBe(false);
+
+    store.saveRepo(a.id, {
+      repo: 'org/app',
+      status: 'running',
+      phase: 'embed',
+      filesProcessed: 10,
+      filesTotal: 40,
+      chunks: 55,
+      error: null,
+      startedAt: '2026-01-01T00:00:00.000Z',
+      finishedAt: null,
+    });
+    expect(store.get(a.id)!.progress).toEqual([
+      {
+        repo: 'org/app',
+        status: 'running',
+        phase: 'embed',
+        filesProcessed: 10,
+        filesTotal: 40,
+        chunks: 55,
+        error: null,
+        startedAt: '2026-01-01T00:00:00.000Z',
+        finishedAt: null,
+      },
+    ]);
+
+    store.finish(a.id, 'succeeded', null);
+    expect(store.get(a.id)).toMatchObject({ status: 'succeeded', error: null });
+    expect(store.get(a.id)!.finishedAt).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+    expect(store.claimNext()!.id).toBe(b.id);
+  });
+
+  it('holds a retry back until it is due and narrows it to the failed repos', () => {
+    const job = store.enqueue({ kind: 'index', trigger: 'manual', maxAttempts: 3 }).job;
+    store.claimNext();
+    const runAfter = new Date(Date.now() + 60_000);
+    store.retry(job.id, { repos: ['org/app'], runAfter, error: 'failed: org/app' });
+
+    expect(store.get(job.id)).toMatchObject({
+      status: 'queued',
+      repos: ['org/app'],
+      error: 'failed: org/app',
+    });
+    expect(store.nextRunAfter()).toBe(runAfter.toISOString());
+    expect(store.claimNext()).toBeUndefined();
+    expect(store.claimNext(new Date(runAfter.getTime() + 1))).toMatchObject({ attempts: 2 });
+  });
+
+  it('stores a retried repo filter in the same form enqueue does', () => {
+    const job = store.enqueue({ kind: 'index', trigger: 'manual', maxAttempts: 3 }).job;
+    store.claimNext();
+    store.retry(job.id, { repos: ['org/b', 'org/a', 'org/b'], runAfter: new Date(), error: 'x' });
+
+    expect(store.get(job.id)!.repos).toEqual(['org/a', 'org/b']);
+  });
+
+  it('cancels queued jobs only', () => {
+    const queued = store.enqueue({ kind: 'index', trigger: 'manual', maxAttempts: 3 }).job;
+    expect(store.cancel(queued.id)).toBe(true);
+    expect(store.get(queued.id)!.status).toBe('cancelled');
+    expect(store.cancel(queued.id)).toBe(false);
+    expect(store.cancel('nope')).toBe(false);
+  });
+
+  it('requeues interrupted jobs on restart unless their attempts are used up', () => {
+    const retried = store.enqueue({ kind: 'index', trigger: 'manual', maxAttempts: 2 }).job;
+    const spent = store.enqueue({ kind: 'check', trigger: 'cron', maxAttempts: 1 }).job;
+    store.claimNext();
+    store.claimNext();
+    store.close();
+
+    store = new JobStore(dbPath);
+    expect(store.requeueInterrupted()).toBe(1);
+    expect(store.get(retried.id)).toMatchObject({ status: 'queued', attempts: 1 });
+    expect(store.get(spent.id)).toMatchObject({
+      status: 'failed',
+      error: 'interrupted by a restart',
+    });
+  });
+
+  it('keeps a bounded history of finished jobs, newest first', () => {
+    const ids: string[] = [];
+    for (const kind of ['index', 'check', 'index'] as const) {
+      const job = store.enqueue({ kind, trigger: 'cron', maxAttempts: 1 }).job;
+      store.claimNext();
+      store.finish(job.id, 'succeeded', null);
+      ids.push(job.id);
+    }
+    const pending = store.enqueue({ kind: 'check', trigger: 'cron', maxAttempts: 1 }).job;
+
+    expect(store.list().map((j) => j.id)).toEqual([pending.id, ids[2], ids[1]]);
+    expect(store.list({ status: 'queued' }).map((j) => j.id)).toEqual([pending.id]);
+    expect(store.list({ limit: 1 })).toHaveLength(1);
+    expect(store.get(ids[0]!)).toBeUndefined();
+  });
+
+  it('shares the state database with the fingerprint store', () => {
+    const state = new StateStore(dbPath);
+    state.set('org/app', 'abc', 'git', 1);
+    store.enqueue({ kind: 'index', trigger: 'manual', maxAttempts: 1 });
+    expect(state.get('org/app')?.fingerprint).toBe('abc');
+    expect(store.list()).toHaveLength(1);
+    state.close();
+  });
+});
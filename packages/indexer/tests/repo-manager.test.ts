@@ -7,7 +7,7 @@ import type { RepoConfig } from '../src/types.js';
 
 // Spy-able simple-git mock that records pull/clone calls.
 const pullCalls: string[] = [];
-const cloneCalls: Array<{ url: string; dest: string }> = [];
+const cloneCalls: Array<{ url: string; dest: string; options?: string[] }> = [];
 let activeRepoPath: string | undefined;
 
 vi.mock('simple-git', () => ({
@@ -17,8 +17,8 @@ vi.mock('simple-git', () => ({
       pull: vi.fn().mockImplementation(async () => {
         if (activeRepoPath) pullCalls.push(activeRepoPath);
       }),
-      clone: vi.fn().mockImplementation(async (url: string, dest: string) => {
-        cloneCalls.push({ url, dest });
+      clone: vi.fn().mockImplementation(async (url: string, dest: string, options?: string[]) => {
+        cloneCalls.push({ url, dest, ...(options ? { options } : {}) });
       }),
     };
   },
@@ -72,6 +72,17 @@ describe('parseReposEnv', () => {
     expect(() => parseReposEnv('a/b/c')).toThrow(/Invalid repo format/);
   });
 
+  it('accepts clone URLs on other hosts, named after the host', () => {
+    const [repo] = parseReposEnv('https://gitlab.example.com/team/sub/billing.git', 'ghp_abc123');
+    expect(repo).toEqual({
+      url: 'https://gitlab.example.com/team/sub/billing.git',
+      owner: 'team/sub',
+      name: 'billing',
+      fullName: 'gitlab.example.com/team/sub/billing',
+      host: 'gitlab.example.com',
+    });
+  });
+
   it('skips empty entries from trailing comma', () => {
     const repos = parseReposEnv('org/a,');
     expect(repos).toHaveLength(1);
@@ -100,6 +111,32 @@ describe('repoPath', () => {
     };
     expect(repoPath(repo, '/data/repos')).toBe(path.join('/data/repos', 'org', 'repo'));
   });
+
+  it('puts repos on other hosts under a directory named after the host', () => {
+    const repo: RepoConfig = {
+      url: 'git@gitlab.example.com:team/repo.git',
+      owner: 'team',
+      name: 'repo',
+      fullName: 'gitlab.example.com/team/repo',
+      host: 'gitlab.example.com',
+    };
+    expect(repoPath(repo, '/data/repos')).toBe(
+      path.join('/data/repos', 'gitlab.example.com', 'team', 'repo')
+    );
+  });
+
+  it('gives a branch variant its own checkout ending in the repo name', () => {
+    const repo: RepoConfig = {
+      url: 'https://github.com/org/repo.git',
+      owner: 'org',
+      name: 'repo',
+      fullName: 'org/repo@release/2.x',
+      branch: 'release/2.x',
+    };
+    expect(repoPath(repo, '/data/repos')).toBe(
+      path.join('/data/repos', '_branches', 'release%2F2.x', 'org', 'repo')
+    );
+  });
 });
 
 describe('cloneOrPull', () => {
@@ -157,4 +194,34 @@ describe('cloneOrPull', () => {
     expect(pullCalls[0]).toBe(path.join(tmpDir, 'org', 'repo'));
     expect(cloneCalls).toHaveLength(0);
   });
+
+  it('clones only the branch for a branch variant', async () => {
+    const repo: RepoConfig = {
+      url: 'https://github.com/org/repo.git',
+      owner: 'org',
+      name: 'repo',
+      fullName: 'org/repo@feat',
+      branch: 'feat',
+    };
+    await cloneOrPull(repo, tmpDir);
+    expect(cloneCalls).toEqual([
+      {
+        url: 'https://github.com/org/repo.git',
+        dest: path.join(tmpDir, '_branches', 'feat', 'org', 'repo'),
+        options: ['--branch', 'feat', '--single-branch'],
+      },
+    ]);
+  });
+
+  it('passes shallow and partial clone options', async () => {
+    const repo: RepoConfig = {
+      url: 'https://github.com/org/repo.git',
+      owner: 'org',
+      name: 'repo',
+      fullName: 'org/repo',
+      clone: { depth: 50, filter: 'blob:none' },
+    };
+    await cloneOrPull(repo, tmpDir);
+    expect(cloneCalls[0]!.options).toEqual(['--depth', '50', '--filter=blob:none']);
+  });
 });
@@ -46,12 +46,31 @@ describe('StateStore', () => {
     expect(store.get('foo/bar')?.lastChunks).toBeNull();
   });
 
+  it('stores the last indexed commit and clears it when omitted', () => {
+    const sha = 'a'.repeat(40);
+    store.set('foo/bar', sha, 'git', 3, sha);
+    expect(store.get('foo/bar')?.lastCommit).toBe(sha);
+    store.set('foo/bar', sha, 'git', 3);
+    expect(store.get('foo/bar')?.lastCommit).toBeNull();
+  });
+
   it('deletes an entry', () => {
     store.set('foo/bar', 'abc', 'git', 1);
     store.delete('foo/bar');
     expect(store.get('foo/bar')).toBeUndefined();
   });
 
+  it('lists the entries under a prefix', () => {
+    store.set('org/repo', 'a', 'git', 1);
+    store.set('org/repo@release/2.x', 'b', 'git', 1);
+    store.set('org/repo@feat', 'c', 'git', 1);
+    store.set('org/repo-other', 'd', 'git', 1);
+    expect(store.fullNamesWithPrefix('org/repo@')).toEqual([
+      'org/repo@feat',
+      'org/repo@release/2.x',
+    ]);
+  });
+
   it('delete is a no-op for unknown keys', () => {
     expect(() => store.delete('does/not-exist')).not.toThrow();
   });
@@ -106,6 +125,9 @@ describe('StateStore', () => {
       const migrated = new StateStore(legacyPath);
       try {
         expect(migrated.get('org/repo')).toBeUndefined();
+        // …and the table gains the last_commit column.
+        migrated.set('org/repo', 'fresh', 'git', 1, 'b'.repeat(40));
+        expect(migrated.get('org/repo')?.lastCommit).toBe('b'.repeat(40));
       } finally {
         migrated.close();
       }
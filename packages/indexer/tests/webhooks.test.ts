@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import crypto from 'crypto';
+import express from 'express';
+import type { Server } from 'http';
+import {
+  PushCoalescer,
+  parsePushEvent,
+  pushTargets,
+  verifyWebhook,
+  webhookRouter,
+} from '../src/webhooks.js';
+import type { RepoConfig } from '../src/types.js';
+
+const SECRET = 'hook-secret';
+
+const repos: RepoConfig[] = [
+  {
+    url: 'https://github.com/org/billing.git',
+    owner: 'org',
+    name: 'billing',
+    fullName: 'org/billing',
+    branches: ['release/*'],
+  },
+  {
+    url: 'https://gitlab.example.com/team/ledger.git',
+    owner: 'team',
+    name: 'ledger',
+    fullName: 'gitlab.example.com/team/ledger',
+    host: 'gitlab.example.com',
+  },
+  { url: '', owner: '_local', name: 'docs', fullName: 'docs', localPath: '/projects/docs' },
+];
+
+function githubPush(ref: string) {
+  return {
+    ref,
+    repository: {
+      full_name: 'org/billing',
+      clone_url: 'https://github.com/org/billing.git',
+      ssh_url: 'git@github.com:org/billing.git',
+      html_url: 'https://github.com/org/billing',
+      default_branch: 'main',
+    },
+  };
+}
+
+function sign(body: string): string {
+  return crypto.createHmac('sha256', SECRET).update(body).digest('hex');
+}
+
+describe('verifyWebhook', () => {
+  const body = Buffer.from('{"ref":"refs/heads/main"}');
+
+  it('checks GitHub and Gitea HMACs over the raw body', () => {
+    const hmac = sign(body.toString());
+    expect(verifyWebhook('github', SECRET, { 'x-hub-signature-256': `sha256=${hmac}` }, body)).toBe(
+      true
+    );
+    expect(verifyWebhook('gitea', SECRET, { 'x-gitea-signature': hmac }, body)).toBe(true);
+    expect(verifyWebhook('github', SECRET, { 'x-hub-signature-256': hmac }, body)).toBe(false);
+    expect(verifyWebhook('gitea', 'other', { 'x-gitea-signature': hmac }, body)).toBe(false);
+    expect(verifyWebhook('github', SECRET, {}, body)).toBe(false);
+  });
+
+  it('compares the GitLab token with the secret', () => {
+    expect(verifyWebhook('gitlab', SECRET, { 'x-gitlab-token': SECRET }, body)).toBe(true);
+    expect(verifyWebhook('gitlab', SECRET, { 'x-gitlab-token': 'nope' }, body)).toBe(false);
+  });
+});
+
+describe('parsePushEvent / pushTargets', () => {
+  it('reads GitHub and GitLab payloads and skips tag pushes', () => {
+    expect(parsePushEvent('github', githubPush('refs/heads/main'))).toEqual({
+      urls: [
+        'https://github.com/org/billing.git',
+        'git@github.com:org/billing.git',
+        'https://github.com/org/billing',
+      ],
+      branch: 'main',
+      defaultBranch: 'main',
+    });
+    expect(
+      parsePushEvent('gitlab', {
+        ref: 'refs/heads/main',
+        project: { git_ssh_url: 'git@gitlab.example.com:team/ledger.git' },
+      })
+    ).toEqual({
+      urls: ['git@gitlab.example.com:team/ledger.git'],
+      branch: 'main',
+      defaultBranch: null,
+    });
+    expect(parsePushEvent('github', githubPush('refs/tags/v1'))).toBeNull();
+    expect(parsePushEvent('gitea', { ref: 'refs/heads/main' })).toBeNull();
+  });
+
+  it('matches the repo on its default branch or a tracked branch only', () => {
+    const push = parsePushEvent('github', githubPush('refs/heads/main'))!;
+    expect(pushTargets(repos, push).map((r) => r.fullName)).toEqual(['org/billing']);
+    expect(pushTargets(repos, { ...push, branch: 'release/2.x' })).toHaveLength(1);
+    expect(pushTargets(repos, { ...push, branch: 'feature/x' })).toEqual([]);
+
+    const gitlab = parsePushEvent('gitlab', {
+      ref: 'refs/heads/dev',
+      project: { git_http_url: 'https://gitlab.example.com/team/ledger.git' },
+    })!;
+    expect(pushTargets(repos, gitlab).map((r) => r.fullName)).toEqual([
+      'gitlab.example.com/team/ledger',
+    ]);
+  });
+});
+
+describe('webhookRouter', () => {
+  let server: Server | undefined;
+
+  afterEach(() => {
+    server?.close();
+    server = undefined;
+  });
+
+  async function start(onPush: (repos: RepoConfig[]) => void): Promise<string> {
+    const app = express();
+    app.use(webhookRouter({ secret: SECRET, getRepos: () => repos, onPush }));
+    app.use(express.json());
+    server = app.listen(0);
+    await new Promise<void>((resolve) => server!.once('listening', resolve));
+    const { port } = server.address() as { port: number };
+    return `http://127.0.0.1:${port}`;
+  }
+
+  it('queues a verified push and ignores other deliveries', async () => {
+    const onPush = vi.fn();
+    const base = await start(onPush);
+    const body = JSON.stringify(githubPush('refs/heads/main'));
+    const post = (headers: Record<string, string>, payload = body) =>
+      fetch(`${base}/webhooks/github`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', ...headers },
+        body: payload,
+      });
+
+    const pushed = await post({
+      'x-github-event': 'push',
+      'x-hub-signature-256': `sha256=${sign(body)}`,
+    });
+    expect(pushed.status).toBe(202);
+    expect(await pushed.json()).toEqual({
+      status: 'queued',
+      repos: ['org/billing'],
+      branch: 'main',
+    });
+    expect(onPush).toHaveBeenCalledWith([repos[0]]);
+
+    const ping = await post({
+      'x-github-event': 'ping',
+      'x-hub-signature-256': `sha256=${sign(body)}`,
+    });
+    expect(await ping.json()).toEqual({ status: 'ignored', reason: 'ping event' });
+
+    const forged = await post({ 'x-github-event': 'push', 'x-hub-signature-256': 'sha256=00' });
+    expect(forged.status).toBe(401);
+
+    const unknown = await fetch(`${base}/webhooks/bitbucket`, { method: 'POST', body });
+    expect(unknown.status).toBe(404);
+    expect(onPush).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('PushCoalescer', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('runs one check per burst', async () => {
+    vi.useFakeTimers();
+    const run = vi.fn<(repos: string[]) => Promise<void>>().mockResolvedValue(undefined);
+    const coalescer = new PushCoalescer({ delayMs: 1000, run });
+
+    coalescer.add(['org/a']);
+    await vi.advanceTimersByTimeAsync(500);
+    coalescer.add(['org/b', 'org/a']);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(run).toHaveBeenLastCalledWith(['org/a', 'org/b']);
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(run).toHaveBeenCalledTimes(1);
+
+    // A later push starts a new burst.
+    coalescer.add(['org/c']);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(run).toHaveBeenLastCalledWith(['org/c']);
+    coalescer.close();
+  });
+});
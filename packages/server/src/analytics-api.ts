@@ -82,6 +82,23 @@ interface EmbeddingHealthSection {
   timeouts: number;
 }
 
+interface RerankSection {
+  /** Searches in window whose results were ordered by a reranker. */
+  searches: number;
+  /** Most-used reranker in window (null = reranking off). */
+  reranker: string | null;
+  /** Share of returned results whose rank the reranker changed (0..1). */
+  reorderedShare: number;
+  /** Fetched chunks (get_chunk after a reranked search) with a known pre-rerank rank. */
+  fetched: number;
+  /** Mean 0-based rank of those fetched chunks before / after reranking. */
+  avgRankBefore: number | null;
+  avgRankAfter: number | null;
+  /** Fetched chunks the reranker moved up / down. Promoted > demoted = it helped. */
+  promoted: number;
+  demoted: number;
+}
+
 interface UserRow {
   user: string;
   searches: number;
@@ -152,6 +169,7 @@ interface AnalyticsResponse {
   timeseries: SearchTimePoint[];
   failedSearches: FailedSearchRow[];
   embedding: EmbeddingHealthSection;
+  rerank: RerankSection;
   indexer: IndexerSection;
 }
 
@@ -549,6 +567,65 @@ function embeddingHealth(
   };
 }
 
+/**
+ * Did reranking help? Looks at the chunks the LLM actually opened after a
+ * reranked search and compares their rank before and after the reranker —
+ * a useful chunk should have moved up.
+ */
+function rerankEffect(store: AnalyticsStore, since: number, until: number): RerankSection {
+  const usage = store.database
+    .prepare(
+      `SELECT reranker, COUNT(*) AS n
+       FROM search_events
+       WHERE ts BETWEEN ? AND ? AND reranker IS NOT NULL
+       GROUP BY reranker
+       ORDER BY n DESC`
+    )
+    .all(since, until) as Array<{ reranker: string; n: number }>;
+
+  const reordered = store.database
+    .prepare(
+      `SELECT AVG(CASE WHEN sr.rank != sr.pre_rerank_rank THEN 1.0 ELSE 0.0 END) AS share
+       FROM search_events se
+       JOIN search_results sr ON sr.search_id = se.id
+       WHERE se.ts BETWEEN ? AND ? AND sr.pre_rerank_rank IS NOT NULL`
+    )
+    .get(since, until) as { share: number | null } | undefined;
+
+  const fetched = store.database
+    .prepare(
+      `SELECT COUNT(*) AS n,
+              AVG(sr.pre_rerank_rank) AS rank_before,
+              AVG(sr.rank) AS rank_after,
+              COALESCE(SUM(CASE WHEN sr.rank < sr.pre_rerank_rank THEN 1 ELSE 0 END), 0) AS promoted,
+              COALESCE(SUM(CASE WHEN sr.rank > sr.pre_rerank_rank THEN 1 ELSE 0 END), 0) AS demoted
+       FROM chunk_fetches cf
+       JOIN search_events se ON se.id = cf.preceding_search_id
+       JOIN search_results sr ON sr.search_id = se.id AND sr.chunk_id = cf.chunk_id
+       WHERE cf.ts BETWEEN ? AND ? AND sr.pre_rerank_rank IS NOT NULL`
+    )
+    .get(since, until) as
+    | {
+        n: number;
+        rank_before: number | null;
+        rank_after: number | null;
+        promoted: number;
+        demoted: number;
+      }
+    | undefined;
+
+  return {
+    searches: usage.reduce((a, r) => a + r.n, 0),
+    reranker: usage[0]?.reranker ?? null,
+    reorderedShare: reordered?.share ?? 0,
+    fetched: fetched?.n ?? 0,
+    avgRankBefore: fetched?.rank_before ?? null,
+    avgRankAfter: fetched?.rank_after ?? null,
+    promoted: fetched?.promoted ?? 0,
+    demoted: fetched?.demoted ?? 0,
+  };
+}
+
 function countSearches(store: AnalyticsStore, since: number, until: number): number {
   const row = store.database
     .prepare('SELECT COUNT(*) AS n FROM search_events WHERE ts BETWEEN ? AND ?')
@@ -642,6 +719,16 @@ export function buildAnalyticsRouter(options: BuildAnalyticsRouterOptions): Rout
         errors: 0,
         timeouts: 0,
       };
+      let rerank: RerankSection = {
+        searches: 0,
+        reranker: null,
+        reorderedShare: 0,
+        fetched: 0,
+        avgRankBefore: null,
+        avgRankAfter: null,
+        promoted: 0,
+        demoted: 0,
+      };
 
       if (store) {
         tokenSavings = tokenSavingsReport(store, { since, until });
@@ -659,6 +746,7 @@ export function buildAnalyticsRouter(options: BuildAnalyticsRouterOptions): Rout
         timeseries = searchesOverTime(store, since, until, bucketForPeriod(label));
         failed = recentFailedSearches(store, since, until, 10);
         embedding = embeddingHealth(store, since, until);
+        rerank = rerankEffect(store, since, until);
       }
 
       // Anchor scope detection: searches with an anchor exist, no off-anchor
@@ -682,6 +770,7 @@ export function buildAnalyticsRouter(options: BuildAnalyticsRouterOptions): Rout
         timeseries,
         failedSearches: failed,
         embedding,
+        rerank,
         indexer: indexerHealth,
       };
 
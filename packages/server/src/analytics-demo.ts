@@ -146,6 +146,16 @@ interface DemoResponse {
     errors: number;
     timeouts: number;
   };
+  rerank: {
+    searches: number;
+    reranker: string;
+    reorderedShare: number;
+    fetched: number;
+    avgRankBefore: number;
+    avgRankAfter: number;
+    promoted: number;
+    demoted: number;
+  };
   indexer: {
     reachable: true;
     url: string;
@@ -322,6 +332,16 @@ export function buildDemoAnalytics(
       errors: 0,
       timeouts: 1,
     },
+    rerank: {
+      searches: Math.round(totalSearches * 0.92),
+      reranker: 'llama:bge-reranker-v2-m3',
+      reorderedShare: 0.46,
+      fetched: Math.round(totalFetches * 0.9),
+      avgRankBefore: 5.8,
+      avgRankAfter: 1.7,
+      promoted: Math.round(totalFetches * 0.62),
+      demoted: Math.round(totalFetches * 0.08),
+    },
     indexer: {
       reachable: true,
       url: 'http://paparats-indexer:9877',
@@ -1,4 +1,4 @@
-import express, { type Express, type RequestHandler } from 'express';
+import express, { type Express, type RequestHandler, type Response } from 'express';
 import cors from 'cors';
 import path from 'path';
 import { fileURLToPath } from 'url';
@@ -7,9 +7,33 @@ import { buildProjectConfigFromContent } from './config.js';
 import { Indexer, parseChunkId } from './indexer.js';
 import { Searcher } from './searcher.js';
 import { McpHandler } from './mcp-handler.js';
+import { SEARCH_MODES } from './code-bm25.js';
+import { CHUNK_KINDS, parseSearchFilters } from './search-filters.js';
+import {
+  SYMBOL_MATCH_MODES,
+  type SymbolMatchMode,
+  findSymbolDefinitions,
+  resolveSymbolProjects,
+} from './symbol-lookup.js';
+import {
+  GRAPH_FORMATS,
+  GRAPH_LEVELS,
+  type GraphFormat,
+  type GraphLevel,
+  buildGraph,
+  collectGraphEdges,
+  renderGraph,
+} from './graph-export.js';
+import {
+  DIFF_SIDES,
+  DiffInputError,
+  type DiffSide,
+  buildDiffContext,
+  readDiff,
+} from './diff-context.js';
 import { WatcherManager } from './watcher.js';
 import type { MetadataStore } from './metadata-db.js';
-import type { ProjectConfig } from './types.js';
+import type { ProjectConfig, SearchFilters, SearchMode } from './types.js';
 import type { CachedEmbeddingProvider } from './embeddings.js';
 import type { MetricsRegistry } from './metrics.js';
 import type { Telemetry } from './telemetry/facade.js';
@@ -17,6 +41,20 @@ import type { AnalyticsStore } from './telemetry/analytics-store.js';
 import { identityMiddleware } from './telemetry/identity-middleware.js';
 import { tctx } from './telemetry/context.js';
 import { buildAnalyticsRouter } from './analytics-api.js';
+import { buildTokensRouter } from './tokens-api.js';
+import { adminAuth, bearerAuth } from './auth/middleware.js';
+import type { ApiTokenStore } from './auth/token-store.js';
+import {
+  AccessDeniedError,
+  access,
+  canAccessChunk,
+  canAccessGroup,
+  canAccessProject,
+  checkChunk,
+  checkGroupWide,
+  checkScope,
+  narrowProjects,
+} from './auth/access.js';
 
 /** Run a promise with a timeout; reject with Error on timeout */
 export async function withTimeout<T>(
@@ -131,6 +169,15 @@ export interface CreateAppOptions {
   docsAudienceScope?: string[];
   /** Optional terminology-layer store. Pass to enable the term_* MCP tools. */
   terminologyStore?: import('./terminology/store.js').TerminologyStore;
+  /** Optional per-user API token store (backs `requireTokens` and the /api/tokens admin API). */
+  tokenStore?: ApiTokenStore;
+  /**
+   * Require `Authorization: Bearer <token>` on MCP and /api routes. The token's
+   * user becomes the request identity. Needs `tokenStore`.
+   */
+  requireTokens?: boolean;
+  /** Secret for the /api/tokens admin API. The admin API is not mounted without it. */
+  adminToken?: string;
 }
 
 export interface CreateAppResult {
@@ -159,6 +206,9 @@ export function createApp(options: CreateAppOptions): CreateAppResult {
     docsStore,
     docsAudienceScope,
     terminologyStore,
+    tokenStore,
+    requireTokens,
+    adminToken,
   } = options;
 
   // ── Group discovery from Qdrant ───────────────────────────────────────────
@@ -283,11 +333,46 @@ export function createApp(options: CreateAppOptions): CreateAppResult {
     next();
   });
 
+  const uiAuth = buildUiBasicAuth(process.env['PAPARATS_UI_BASIC_AUTH']);
+
+  // Health/metrics stay open for probes and scrapers and /api/tokens keeps its
+  // admin secret. The console routes keep their basic-auth when it's configured;
+  // without it they need a token like the rest of the API.
+  if (tokenStore && requireTokens) {
+    app.use(
+      bearerAuth(tokenStore, {
+        exempt: [
+          '/health',
+          '/metrics',
+          ...(uiAuth ? ['/ui', '/api/analytics'] : []),
+          '/api/tokens',
+        ],
+      })
+    );
+  }
+
+  /** Answer 403 when the caller's token rules forbid the request (see auth/access.ts). */
+  const refuse = (res: Response, route: string, denied: AccessDeniedError | null): boolean => {
+    if (!denied) return false;
+    metrics?.incAccessDeniedTotal(route, denied.resource);
+    res.status(403).json({ error: denied.message });
+    return true;
+  };
+
   // ── POST /api/search ───────────────────────────────────────────────────────
 
   app.post('/api/search', async (req, res) => {
     try {
-      const { group, query, project, limit } = req.body;
+      const {
+        group,
+        query,
+        project,
+        limit,
+        mode,
+        intent_weight: intentWeight,
+        filters: rawFilters,
+        branch,
+      } = req.body;
 
       if (!query) {
         res.status(400).json({ error: 'query is required' });
@@ -297,9 +382,40 @@ export function createApp(options: CreateAppOptions): CreateAppResult {
         res.status(400).json({ error: 'group is required' });
         return;
       }
+      if (mode !== undefined && !SEARCH_MODES.includes(mode)) {
+        res.status(400).json({ error: `mode must be one of: ${SEARCH_MODES.join(', ')}` });
+        return;
+      }
+      if (
+        intentWeight !== undefined &&
+        (typeof intentWeight !== 'number' || !(intentWeight >= 0 && intentWeight <= 1))
+      ) {
+        res.status(400).json({ error: 'intent_weight must be a number between 0 and 1' });
+        return;
+      }
+      if (branch !== undefined && (typeof branch !== 'string' || !branch.trim())) {
+        res.status(400).json({ error: 'branch must be a non-empty string' });
+        return;
+      }
+      if (refuse(res, '/api/search', checkScope(group, project))) return;
+
+      let filters: SearchFilters | undefined;
+      try {
+        filters = parseSearchFilters(rawFilters);
+      } catch (err) {
+        res.status(400).json({ error: (err as Error).message });
+        return;
+      }
 
       const response = await withTimeout(
-        searcher.search(group, query, { project, limit }),
+        searcher.search(group, query, {
+          project,
+          limit,
+          mode: mode as SearchMode | undefined,
+          intentWeight: intentWeight as number | undefined,
+          filters,
+          ...(branch ? { branch: branch as string } : {}),
+        }),
         SEARCH_TIMEOUT_MS,
         'Search timeout'
       );
@@ -324,6 +440,7 @@ export function createApp(options: CreateAppOptions): CreateAppResult {
         res.status(400).json({ error: 'group, project, and files (array) are required' });
         return;
       }
+      if (refuse(res, '/api/index', checkScope(group, projectName))) return;
 
       const project = buildProjectConfigFromContent(projectName, group, apiConfig);
       registerProject(project);
@@ -371,6 +488,7 @@ export function createApp(options: CreateAppOptions): CreateAppResult {
         res.status(400).json({ error: 'group is required' });
         return;
       }
+      if (refuse(res, '/api/arch/reindex', checkGroupWide(group))) return;
       if (!archStore) {
         res.status(501).json({ error: 'arch store not configured on this server' });
         return;
@@ -392,6 +510,30 @@ export function createApp(options: CreateAppOptions): CreateAppResult {
     }
   });
 
+  // ── POST /api/hybrid/migrate ────────────────────────────────────────────────
+  // Move a group's code collection from the legacy single-vector layout to the
+  // hybrid one (named dense + BM25 sparse). Stored embeddings are reused — no
+  // re-embedding — but the collection is rewritten, so run it while the indexer
+  // is idle. No-op for groups that are already hybrid.
+
+  app.post('/api/hybrid/migrate', async (req, res) => {
+    try {
+      const { group } = req.body;
+      if (!group) {
+        res.status(400).json({ error: 'group is required' });
+        return;
+      }
+      if (refuse(res, '/api/hybrid/migrate', checkGroupWide(group))) return;
+      console.log(`[api] Migrating ${sanitizeForLog(group)} to hybrid vectors...`);
+      const migrated = await indexer.migrateToHybrid(group);
+      searcher.invalidateGroupCache(group);
+      res.json({ status: 'ok', group, migrated });
+    } catch (err) {
+      console.error('[api] Hybrid migration error:', err);
+      res.status(500).json({ error: (err as Error).message });
+    }
+  });
+
   // ── POST /api/file-changed (content-based) ─────────────────────────────────
 
   app.post('/api/file-changed', async (req, res) => {
@@ -402,6 +544,7 @@ export function createApp(options: CreateAppOptions): CreateAppResult {
         res.status(400).json({ error: 'group, project, path, and content are required' });
         return;
       }
+      if (refuse(res, '/api/file-changed', checkScope(group, projectName))) return;
 
       const projects = projectsByGroup.get(group);
       const project = projects?.find((p) => p.name === projectName);
@@ -440,6 +583,7 @@ export function createApp(options: CreateAppOptions): CreateAppResult {
         res.status(400).json({ error: 'group, project, and path are required' });
         return;
       }
+      if (refuse(res, '/api/file-deleted', checkScope(group, projectName))) return;
 
       const projects = projectsByGroup.get(group);
       const project = projects?.find((p) => p.name === projectName);
@@ -487,6 +631,15 @@ export function createApp(options: CreateAppOptions): CreateAppResult {
         res.status(403).json({ error: 'Access denied: unknown group' });
         return;
       }
+      if (
+        refuse(
+          res,
+          '/api/chunk',
+          checkChunk(chunkId, (p) => indexer.storedProjectName(p))
+        )
+      ) {
+        return;
+      }
 
       const payload = await indexer.getChunkById(chunkId);
       if (!payload) {
@@ -536,6 +689,15 @@ export function createApp(options: CreateAppOptions): CreateAppResult {
         res.status(403).json({ error: 'Access denied: unknown group' });
         return;
       }
+      if (
+        refuse(
+          res,
+          '/api/chunk/meta',
+          checkChunk(chunkId, (p) => indexer.storedProjectName(p))
+        )
+      ) {
+        return;
+      }
 
       const commitLimit = Math.min(
         50,
@@ -564,6 +726,219 @@ export function createApp(options: CreateAppOptions): CreateAppResult {
     }
   });
 
+  // ── GET /api/symbol ────────────────────────────────────────────────────────
+
+  app.get('/api/symbol', async (req, res) => {
+    try {
+      const name = typeof req.query.name === 'string' ? req.query.name.trim() : '';
+      const group = typeof req.query.group === 'string' ? req.query.group : undefined;
+      const project = typeof req.query.project === 'string' ? req.query.project : undefined;
+      const mode = typeof req.query.mode === 'string' ? req.query.mode : 'exact';
+      const kinds =
+        typeof req.query.kinds === 'string'
+          ? req.query.kinds
+              .split(',')
+              .map((k) => k.trim())
+              .filter(Boolean)
+          : undefined;
+
+      if (!name) {
+        res.status(400).json({ error: 'name is required' });
+        return;
+      }
+      if (!(SYMBOL_MATCH_MODES as readonly string[]).includes(mode)) {
+        res.status(400).json({ error: `mode must be one of: ${SYMBOL_MATCH_MODES.join(', ')}` });
+        return;
+      }
+      const unknownKind = kinds?.find((k) => !(CHUNK_KINDS as readonly string[]).includes(k));
+      if (unknownKind) {
+        res.status(400).json({ error: `unknown kind "${unknownKind}"` });
+        return;
+      }
+      if (refuse(res, '/api/symbol', checkScope(group, project))) return;
+
+      const limit = Math.min(50, Math.max(1, parseInt(String(req.query.limit ?? '10'), 10) || 10));
+      const groups = group
+        ? [group]
+        : Array.from(projectsByGroup.keys()).filter((g) => canAccessGroup(g));
+
+      const { definitions: results, truncated } = await withTimeout(
+        findSymbolDefinitions({ indexer, metadataStore }, groups, name, {
+          mode: mode as SymbolMatchMode,
+          projects: resolveSymbolProjects(searcher.getProjectScope(), project),
+          kinds,
+          limit,
+        }),
+        SEARCH_TIMEOUT_MS,
+        'Symbol lookup timeout'
+      );
+      res.json({ results, total: results.length, truncated });
+    } catch (err) {
+      if ((err as Error).message === 'Symbol lookup timeout') {
+        res.status(504).json({ error: 'Symbol lookup timed out after 30s' });
+      } else {
+        console.error('[api] Symbol lookup error:', err);
+        res.status(500).json({ error: (err as Error).message });
+      }
+    }
+  });
+
+  // ── GET /api/graph/:group ──────────────────────────────────────────────────
+
+  app.get('/api/graph/:group', (req, res) => {
+    try {
+      const group = req.params.group;
+      const project = typeof req.query.project === 'string' ? req.query.project : undefined;
+      const filePath = typeof req.query.path === 'string' ? req.query.path : undefined;
+      const chunkId = typeof req.query.chunk === 'string' ? req.query.chunk : undefined;
+      const level = typeof req.query.level === 'string' ? req.query.level : 'chunk';
+      const format = typeof req.query.format === 'string' ? req.query.format : 'json';
+
+      if (!(GRAPH_FORMATS as readonly string[]).includes(format)) {
+        res.status(400).json({ error: `format must be one of: ${GRAPH_FORMATS.join(', ')}` });
+        return;
+      }
+      if (!(GRAPH_LEVELS as readonly string[]).includes(level)) {
+        res.status(400).json({ error: `level must be one of: ${GRAPH_LEVELS.join(', ')}` });
+        return;
+      }
+      if (filePath && !project) {
+        res.status(400).json({ error: 'path requires project' });
+        return;
+      }
+      if (chunkId && parseChunkId(chunkId)?.group !== group) {
+        res.status(400).json({ error: `chunk must be a chunk id in group "${group}"` });
+        return;
+      }
+      if (refuse(res, '/api/graph', checkScope(group, project))) return;
+      if (
+        chunkId &&
+        refuse(
+          res,
+          '/api/graph',
+          checkChunk(chunkId, (p) => indexer.storedProjectName(p))
+        )
+      ) {
+        return;
+      }
+      if (!projectsByGroup.has(group)) {
+        res.status(404).json({ error: `Group "${group}" not found` });
+        return;
+      }
+      if (!metadataStore) {
+        res.status(501).json({ error: 'Metadata store is not configured' });
+        return;
+      }
+
+      const depth = Math.min(3, Math.max(1, parseInt(String(req.query.depth ?? '1'), 10) || 1));
+      const limit = Math.min(
+        50_000,
+        Math.max(1, parseInt(String(req.query.limit ?? '5000'), 10) || 5000)
+      );
+      const { edges, inScope, truncated } = collectGraphEdges(
+        metadataStore,
+        group,
+        chunkId
+          ? { chunkId, depth }
+          : {
+              project: project ? indexer.storedProjectName(project) : undefined,
+              path: filePath,
+            },
+        limit
+      );
+
+      // Both ends must be readable: by the token, and within the server's project scope.
+      const reachable = narrowProjects(searcher.getProjectScope());
+      const storedName = (p: string): string => indexer.storedProjectName(p);
+      const readable = (id: string): boolean => {
+        if (!canAccessChunk(id, storedName)) return false;
+        if (reachable === null) return true;
+        const parsed = parseChunkId(id);
+        return !!parsed && reachable.includes(indexer.cleanProjectName(parsed.project));
+      };
+
+      const graph = buildGraph(
+        edges.filter((e) => readable(e.from_chunk_id) && readable(e.to_chunk_id)),
+        {
+          group,
+          level: level as GraphLevel,
+          inScope,
+          cleanProject: (p) => indexer.cleanProjectName(p),
+          truncated,
+        }
+      );
+      const { contentType, body } = renderGraph(graph, format as GraphFormat);
+      res.type(contentType).send(body);
+    } catch (err) {
+      console.error('[api] Graph export error:', err);
+      res.status(500).json({ error: (err as Error).message });
+    }
+  });
+
+  // ── POST /api/diff-context ─────────────────────────────────────────────────
+
+  app.post('/api/diff-context', async (req, res) => {
+    try {
+      const { group, project: projectName, range, diff } = req.body ?? {};
+      const side = req.body?.side ?? 'base';
+
+      if (typeof group !== 'string' || typeof projectName !== 'string') {
+        res.status(400).json({ error: 'group and project are required' });
+        return;
+      }
+      if (
+        (range !== undefined && typeof range !== 'string') ||
+        (diff !== undefined && typeof diff !== 'string')
+      ) {
+        res.status(400).json({ error: 'range and diff must be strings' });
+        return;
+      }
+      if (!(DIFF_SIDES as readonly string[]).includes(side)) {
+        res.status(400).json({ error: `side must be one of: ${DIFF_SIDES.join(', ')}` });
+        return;
+      }
+      if (refuse(res, '/api/diff-context', checkScope(group, projectName))) return;
+      if (!projectsByGroup.has(group)) {
+        res.status(404).json({ error: `Group "${group}" not found` });
+        return;
+      }
+
+      const limit = Math.min(200, Math.max(1, parseInt(String(req.body.limit ?? '50'), 10) || 50));
+      const projectPath = projectsByGroup.get(group)?.find((p) => p.name === projectName)?.path;
+
+      // Dependents must be readable: by the token, and within the server's project scope.
+      const reachable = narrowProjects(searcher.getProjectScope());
+      const storedName = (p: string): string => indexer.storedProjectName(p);
+      const readable = (id: string): boolean => {
+        if (!canAccessChunk(id, storedName)) return false;
+        if (reachable === null) return true;
+        const parsed = parseChunkId(id);
+        return !!parsed && reachable.includes(indexer.cleanProjectName(parsed.project));
+      };
+
+      const context = await withTimeout(
+        readDiff({ range, diff, projectPath }).then((files) =>
+          buildDiffContext(
+            { indexer, metadataStore, archStore, canReadChunk: readable },
+            { group, project: projectName, files, side: side as DiffSide, limit }
+          )
+        ),
+        SEARCH_TIMEOUT_MS,
+        'Diff context timeout'
+      );
+      res.json(context);
+    } catch (err) {
+      if (err instanceof DiffInputError) {
+        res.status(400).json({ error: err.message });
+      } else if ((err as Error).message === 'Diff context timeout') {
+        res.status(504).json({ error: 'Diff context timed out after 30s' });
+      } else {
+        console.error('[api] Diff context error:', err);
+        res.status(500).json({ error: (err as Error).message });
+      }
+    }
+  });
+
   // ── DELETE /api/project/:group/:name ──────────────────────────────────────
 
   app.delete('/api/project/:group/:name', async (req, res) => {
@@ -574,6 +949,7 @@ export function createApp(options: CreateAppOptions): CreateAppResult {
         res.status(400).json({ error: 'group and name are required' });
         return;
       }
+      if (refuse(res, '/api/project', checkScope(group, projectName))) return;
 
       // Delete chunks from Qdrant
       await indexer.deleteProjectChunks(group, projectName);
@@ -648,6 +1024,14 @@ export function createApp(options: CreateAppOptions): CreateAppResult {
         queryCacheStats = searcher.getQueryCacheStats();
       }
 
+      // Only what the caller's token can reach (unrestricted without token auth).
+      groups = Object.fromEntries(Object.entries(groups).filter(([g]) => canAccessGroup(g)));
+      const registeredProjects: Record<string, string[]> = {};
+      for (const [g, ps] of projectsByGroup) {
+        if (!canAccessGroup(g)) continue;
+        registeredProjects[g] = ps.map((p) => p.name).filter((name) => canAccessProject(name));
+      }
+
       const ident = tctx.getOrAnonymous();
       res.json({
         identity: {
@@ -660,9 +1044,7 @@ export function createApp(options: CreateAppOptions): CreateAppResult {
         telemetry: telemetry ? 'enabled' : 'disabled',
         groups,
         projectScope: searcher.getProjectScope(),
-        registeredProjects: Object.fromEntries(
-          Array.from(projectsByGroup.entries()).map(([g, ps]) => [g, ps.map((p) => p.name)])
-        ),
+        registeredProjects,
         cache: cacheStats,
         queryCache: queryCacheStats,
         watcher: watcherStats,
@@ -682,15 +1064,37 @@ export function createApp(options: CreateAppOptions): CreateAppResult {
 
   // ── Analytics UI ──────────────────────────────────────────────────────────
   // /ui (static dashboard) and /api/analytics (aggregated JSON) are scoped
-  // behind optional basic-auth so the rest of the API and MCP routes stay
-  // open for clients that don't speak HTTP auth.
+  // behind optional basic-auth. Without it they fall under bearerAuth when
+  // per-user token auth is on; the rest of the API and MCP routes are only
+  // guarded by tokens (see bearerAuth above).
 
-  const uiAuth = buildUiBasicAuth(process.env['PAPARATS_UI_BASIC_AUTH']);
   const uiDir = path.resolve(fileURLToPath(import.meta.url), '..', '..', 'ui');
 
+  // Analytics span every group and user, so a token restricted to some of
+  // them can't read them — same as the analytics MCP tools.
+  const unrestrictedOnly: RequestHandler = (_req, res, next) => {
+    const rules = access.current();
+    const denied =
+      rules.groups !== null || rules.projects !== null
+        ? new AccessDeniedError('scope', 'analytics need a token without group or project rules')
+        : null;
+    if (!refuse(res, '/api/analytics', denied)) next();
+  };
+
   const uiHandlers: RequestHandler[] = uiAuth ? [uiAuth] : [];
   app.use('/ui', ...uiHandlers, express.static(uiDir, { extensions: ['html'] }));
-  app.use('/api/analytics', ...uiHandlers, buildAnalyticsRouter({ indexer, analytics }));
+  app.use(
+    '/api/analytics',
+    ...uiHandlers,
+    unrestrictedOnly,
+    buildAnalyticsRouter({ indexer, analytics })
+  );
+
+  // ── Token admin API ───────────────────────────────────────────────────────
+
+  if (tokenStore && adminToken) {
+    app.use('/api/tokens', adminAuth(adminToken), buildTokensRouter({ store: tokenStore }));
+  }
 
   // ── MCP transports ─────────────────────────────────────────────────────────
 
@@ -32,8 +32,9 @@ function textForRange(contentLines: string[], startLine: number, endLine: number
 /**
  * Fixed-size split for leaf nodes that exceed maxChunkSize.
  * Produces chunks without overlap (AST chunks are self-contained).
+ * Also used by the contract chunkers for oversized declarations.
  */
-function fixedSplit(
+export function fixedSplit(
   contentLines: string[],
   startLine: number,
   endLine: number,
@@ -1,11 +1,13 @@
 /**
  * Tree-sitter S-expression query patterns for extracting symbol definitions and usages.
- * Each language has `definitions` and `usages` patterns with `@definition` / `@usage` captures.
+ * Each language has `definitions` and `usages` patterns with `@definition` / `@usage` captures,
+ * and optionally `hierarchy` patterns capturing supertype names as `@extends` / `@implements`.
  */
 
 export interface LanguageQuerySet {
   definitions: string;
   usages: string;
+  hierarchy?: string;
 }
 
 // ── TypeScript / JavaScript / TSX ─────────────────────────────────────────
@@ -27,6 +29,15 @@ const typescriptUsages = `
   (type_identifier) @usage
 `;
 
+const typescriptHierarchy = `
+  (extends_clause value: (identifier) @extends)
+  (extends_clause value: (member_expression property: (property_identifier) @extends))
+  (implements_clause (type_identifier) @implements)
+  (implements_clause (generic_type name: (type_identifier) @implements))
+  (extends_type_clause type: (type_identifier) @extends)
+  (extends_type_clause type: (generic_type name: (type_identifier) @extends))
+`;
+
 // ── Python ────────────────────────────────────────────────────────────────
 
 const pythonDefinitions = `
@@ -41,6 +52,11 @@ const pythonUsages = `
   (import_from_statement name: (dotted_name (identifier) @usage))
 `;
 
+const pythonHierarchy = `
+  (class_definition superclasses: (argument_list (identifier) @extends))
+  (class_definition superclasses: (argument_list (attribute attribute: (identifier) @extends)))
+`;
+
 // ── Go ────────────────────────────────────────────────────────────────────
 
 const goDefinitions = `
@@ -74,6 +90,14 @@ const rustUsages = `
   (use_declaration argument: (scoped_identifier name: (identifier) @usage))
 `;
 
+// `impl Trait for Type` implements the trait; `trait A: B` extends B.
+const rustHierarchy = `
+  (impl_item trait: (type_identifier) @implements)
+  (impl_item trait: (scoped_type_identifier name: (type_identifier) @implements))
+  (impl_item trait: (generic_type type: (type_identifier) @implements))
+  (trait_item bounds: (trait_bounds (type_identifier) @extends))
+`;
+
 // ── Java ──────────────────────────────────────────────────────────────────
 
 const javaDefinitions = `
@@ -88,6 +112,15 @@ const javaUsages = `
   (type_identifier) @usage
 `;
 
+const javaHierarchy = `
+  (superclass (type_identifier) @extends)
+  (superclass (generic_type (type_identifier) @extends))
+  (super_interfaces (type_list (type_identifier) @implements))
+  (super_interfaces (type_list (generic_type (type_identifier) @implements)))
+  (extends_interfaces (type_list (type_identifier) @extends))
+  (extends_interfaces (type_list (generic_type (type_identifier) @extends)))
+`;
+
 // ── Ruby ──────────────────────────────────────────────────────────────────
 
 const rubyDefinitions = `
@@ -101,6 +134,11 @@ const rubyUsages = `
   (constant) @usage
 `;
 
+const rubyHierarchy = `
+  (superclass (constant) @extends)
+  (superclass (scope_resolution name: (constant) @extends))
+`;
+
 // ── C ─────────────────────────────────────────────────────────────────────
 
 const cDefinitions = `
@@ -129,6 +167,11 @@ const cppUsages = `
   (type_identifier) @usage
 `;
 
+const cppHierarchy = `
+  (base_class_clause (type_identifier) @extends)
+  (base_class_clause (qualified_identifier name: (type_identifier) @extends))
+`;
+
 // ── C# ────────────────────────────────────────────────────────────────────
 
 const csharpDefinitions = `
@@ -145,6 +188,129 @@ const csharpUsages = `
   (variable_declaration type: (identifier) @usage)
 `;
 
+// C# base lists don't distinguish the base class from interfaces; the
+// conventional `I` prefix (IDisposable, IRepository) is the only signal.
+const csharpHierarchy = `
+  ((base_list (identifier) @implements) (#match? @implements "^I[A-Z]"))
+  ((base_list (identifier) @extends) (#not-match? @extends "^I[A-Z]"))
+  ((base_list (generic_name (identifier) @implements)) (#match? @implements "^I[A-Z]"))
+  ((base_list (generic_name (identifier) @extends)) (#not-match? @extends "^I[A-Z]"))
+`;
+
+// ── PHP ───────────────────────────────────────────────────────────────────
+
+const phpDefinitions = `
+  (function_definition name: (name) @definition)
+  (class_declaration name: (name) @definition)
+  (interface_declaration name: (name) @definition)
+  (trait_declaration name: (name) @definition)
+  (enum_declaration name: (name) @definition)
+  (method_declaration name: (name) @definition)
+  (const_declaration (const_element (name) @definition))
+`;
+
+const phpUsages = `
+  (function_call_expression function: (name) @usage)
+  (function_call_expression function: (qualified_name (name) @usage))
+  (member_call_expression name: (name) @usage)
+  (nullsafe_member_call_expression name: (name) @usage)
+  (scoped_call_expression scope: (name) @usage)
+  (scoped_call_expression name: (name) @usage)
+  (object_creation_expression (name) @usage)
+  (object_creation_expression (qualified_name (name) @usage))
+  (named_type (name) @usage)
+  (use_declaration (name) @usage)
+`;
+
+const phpHierarchy = `
+  (base_clause (name) @extends)
+  (base_clause (qualified_name (name) @extends))
+  (class_interface_clause (name) @implements)
+  (class_interface_clause (qualified_name (name) @implements))
+`;
+
+// ── Kotlin ────────────────────────────────────────────────────────────────
+
+// The Kotlin grammar has no field names; a declaration's name is its direct
+// identifier child.
+const kotlinDefinitions = `
+  (class_declaration (type_identifier) @definition)
+  (object_declaration (type_identifier) @definition)
+  (function_declaration (simple_identifier) @definition)
+  (type_alias (type_identifier) @definition)
+  (property_declaration (variable_declaration (simple_identifier) @definition))
+`;
+
+const kotlinUsages = `
+  (call_expression (simple_identifier) @usage)
+  (call_expression (navigation_expression (navigation_suffix (simple_identifier) @usage)))
+  (user_type (type_identifier) @usage)
+`;
+
+// Only a superclass is written with a constructor call (`: Base(), Iface`).
+const kotlinHierarchy = `
+  (delegation_specifier (constructor_invocation (user_type (type_identifier) @extends)))
+  (delegation_specifier (user_type (type_identifier) @implements))
+`;
+
+// ── Swift ─────────────────────────────────────────────────────────────────
+
+// `class_declaration` covers class, struct, enum, actor and extension; an
+// extension names an existing type (`user_type`), so it defines nothing.
+const swiftDefinitions = `
+  (class_declaration name: (type_identifier) @definition)
+  (protocol_declaration name: (type_identifier) @definition)
+  (function_declaration name: (simple_identifier) @definition)
+  (protocol_function_declaration name: (simple_identifier) @definition)
+  (typealias_declaration name: (type_identifier) @definition)
+  (property_declaration name: (pattern bound_identifier: (simple_identifier) @definition))
+`;
+
+const swiftUsages = `
+  (call_expression (simple_identifier) @usage)
+  (call_expression (navigation_expression suffix: (navigation_suffix suffix: (simple_identifier) @usage)))
+  (user_type (type_identifier) @usage)
+`;
+
+// Swift inheritance lists don't mark the superclass either. It must come
+// first, so the first entry of a `class` is taken as the superclass and every
+// other entry (and every struct / enum / extension entry) as a conformance.
+const swiftHierarchy = `
+  (protocol_declaration (inheritance_specifier inherits_from: (user_type (type_identifier) @extends)))
+  (class_declaration declaration_kind: "class" . name: (type_identifier) . (inheritance_specifier inherits_from: (user_type (type_identifier) @extends)))
+  (class_declaration declaration_kind: "class" (inheritance_specifier) . (inheritance_specifier inherits_from: (user_type (type_identifier) @implements)))
+  (class_declaration declaration_kind: ["struct" "enum" "extension" "actor"] (inheritance_specifier inherits_from: (user_type (type_identifier) @implements)))
+`;
+
+// ── Scala ─────────────────────────────────────────────────────────────────
+
+const scalaDefinitions = `
+  (class_definition name: (identifier) @definition)
+  (object_definition name: (identifier) @definition)
+  (trait_definition name: (identifier) @definition)
+  (function_definition name: (identifier) @definition)
+  (function_declaration name: (identifier) @definition)
+  (type_definition name: (type_identifier) @definition)
+  (val_definition pattern: (identifier) @definition)
+  (var_definition pattern: (identifier) @definition)
+`;
+
+const scalaUsages = `
+  (call_expression function: (identifier) @usage)
+  (call_expression function: (field_expression field: (identifier) @usage))
+  (type_identifier) @usage
+`;
+
+// `extends A with B with C`: A is the superclass (or first trait), the rest are mixins.
+const scalaHierarchy = `
+  (extends_clause type: (type_identifier) @extends)
+  (extends_clause type: (generic_type type: (type_identifier) @extends))
+  (extends_clause type: (compound_type base: (type_identifier) @extends))
+  (extends_clause type: (compound_type base: (generic_type type: (type_identifier) @extends)))
+  (extends_clause type: (compound_type extra: (type_identifier) @implements))
+  (extends_clause type: (compound_type extra: (generic_type type: (type_identifier) @implements)))
+`;
+
 // ── Terraform / HCL ───────────────────────────────────────────────────────
 
 const terraformDefinitions = `
@@ -158,16 +324,32 @@ const terraformUsages = `
 // ── Queries map ───────────────────────────────────────────────────────────
 
 export const LANGUAGE_QUERIES: Record<string, LanguageQuerySet> = {
-  typescript: { definitions: typescriptDefinitions, usages: typescriptUsages },
-  javascript: { definitions: typescriptDefinitions, usages: typescriptUsages },
-  tsx: { definitions: typescriptDefinitions, usages: typescriptUsages },
-  python: { definitions: pythonDefinitions, usages: pythonUsages },
+  typescript: {
+    definitions: typescriptDefinitions,
+    usages: typescriptUsages,
+    hierarchy: typescriptHierarchy,
+  },
+  javascript: {
+    definitions: typescriptDefinitions,
+    usages: typescriptUsages,
+    hierarchy: typescriptHierarchy,
+  },
+  tsx: {
+    definitions: typescriptDefinitions,
+    usages: typescriptUsages,
+    hierarchy: typescriptHierarchy,
+  },
+  python: { definitions: pythonDefinitions, usages: pythonUsages, hierarchy: pythonHierarchy },
   go: { definitions: goDefinitions, usages: goUsages },
-  rust: { definitions: rustDefinitions, usages: rustUsages },
-  java: { definitions: javaDefinitions, usages: javaUsages },
-  ruby: { definitions: rubyDefinitions, usages: rubyUsages },
+  rust: { definitions: rustDefinitions, usages: rustUsages, hierarchy: rustHierarchy },
+  java: { definitions: javaDefinitions, usages: javaUsages, hierarchy: javaHierarchy },
+  ruby: { definitions: rubyDefinitions, usages: rubyUsages, hierarchy: rubyHierarchy },
   c: { definitions: cDefinitions, usages: cUsages },
-  cpp: { definitions: cppDefinitions, usages: cppUsages },
-  csharp: { definitions: csharpDefinitions, usages: csharpUsages },
+  cpp: { definitions: cppDefinitions, usages: cppUsages, hierarchy: cppHierarchy },
+  csharp: { definitions: csharpDefinitions, usages: csharpUsages, hierarchy: csharpHierarchy },
+  php: { definitions: phpDefinitions, usages: phpUsages, hierarchy: phpHierarchy },
+  kotlin: { definitions: kotlinDefinitions, usages: kotlinUsages, hierarchy: kotlinHierarchy },
+  swift: { definitions: swiftDefinitions, usages: swiftUsages, hierarchy: swiftHierarchy },
+  scala: { definitions: scalaDefinitions, usages: scalaUsages, hierarchy: scalaHierarchy },
   terraform: { definitions: terraformDefinitions, usages: terraformUsages },
 };
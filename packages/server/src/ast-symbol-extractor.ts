@@ -1,7 +1,8 @@
 import { Query } from 'web-tree-sitter';
 import type { Node, Tree, Language } from 'web-tree-sitter';
 import { LANGUAGE_QUERIES } from './ast-queries.js';
-import type { ChunkKind } from './types.js';
+import { declarationDoc, summarizeDocs } from './doc-comments.js';
+import type { ChunkKind, HeritageRef, ImportBinding, TableRefs } from './types.js';
 
 export interface DefinedSymbol {
   name: string;
@@ -12,6 +13,20 @@ export interface SymbolExtractionResult {
   defines_symbols: string[];
   uses_symbols: string[];
   defined_symbols: DefinedSymbol[];
+  /**
+   * The file's import bindings this chunk relies on: named imports whose local
+   * name the chunk uses, plus namespace / package / wildcard imports whenever
+   * the chunk uses anything. Lets the symbol graph resolve uses through imports.
+   */
+  imports: ImportBinding[];
+  /** Supertypes of the types this chunk declares or holds methods of. */
+  heritage: HeritageRef[];
+  /** Set by the SQL scanner; other chunks get theirs from `extractTableRefs`. */
+  tables?: TableRefs;
+  /** Doc comments / docstrings of the declarations in this chunk (see doc-comments.ts). */
+  doc_summary?: string;
+  /** Classes / modules / namespaces enclosing the chunk, outermost first. */
+  scope?: string[];
 }
 
 /** Map tree-sitter parent node type → ChunkKind */
@@ -56,6 +71,23 @@ const NODE_TYPE_TO_KIND: Record<string, ChunkKind> = {
   class_specifier: 'class',
   // C#
   struct_declaration: 'class',
+  // PHP — a trait is a mixin with an implementation, not a type
+  trait_declaration: 'class',
+  const_element: 'constant',
+  // Kotlin
+  object_declaration: 'class',
+  type_alias: 'type',
+  property_declaration: 'variable',
+  // Swift (class_declaration covers structs, enums and extensions)
+  protocol_declaration: 'interface',
+  protocol_function_declaration: 'method',
+  typealias_declaration: 'type',
+  // Scala
+  object_definition: 'class',
+  trait_definition: 'interface',
+  type_definition: 'type',
+  val_definition: 'variable',
+  var_definition: 'variable',
 };
 
 /** Keywords and noise tokens to filter out of symbol lists */
@@ -234,6 +266,14 @@ function collectTerraformDefs(root: Node): TerraformDef[] {
         if (bare) {
           defs.push({ name, kind, row: node.startPosition.row });
         }
+      } else if (blockType === 'locals') {
+        // Each attribute of a `locals` block is its own `local.<name>` value.
+        const body = node.namedChildren.find((c) => c?.type === 'body');
+        for (const attr of body?.namedChildren ?? []) {
+          const id = attr?.type === 'attribute' ? firstIdentifier(attr) : null;
+          if (id)
+            defs.push({ name: `local.${id.text}`, kind: 'variable', row: attr!.startPosition.row });
+        }
       }
     }
     for (let i = 0; i < node.namedChildCount; i++) {
@@ -316,10 +356,379 @@ function extractTerraformSymbols(
       defines_symbols: defined_symbols.map((d) => d.name),
       uses_symbols: Array.from(usesSet),
       defined_symbols,
+      imports: [],
+      heritage: [],
     };
   });
 }
 
+// ── Imports ────────────────────────────────────────────────────────────────
+
+/** Strip the quotes off a string literal node (`"fmt"`, `'./x'`). */
+function stringLiteralValue(node: Node | null): string {
+  return node ? node.text.replace(/^['"`]|['"`]$/g, '') : '';
+}
+
+function collectJsImports(node: Node, out: ImportBinding[]): void {
+  if (node.type === 'import_statement') {
+    const source = stringLiteralValue(node.childForFieldName('source'));
+    const clause = node.namedChildren.find((c) => c?.type === 'import_clause');
+    if (!source || !clause) return;
+    for (const part of clause.namedChildren) {
+      if (!part) continue;
+      if (part.type === 'identifier') {
+        out.push({ local: part.text, imported: 'default', source });
+      } else if (part.type === 'namespace_import') {
+        const id = firstIdentifier(part);
+        if (id) out.push({ local: id.text, imported: '*', source });
+      } else if (part.type === 'named_imports') {
+        for (const spec of part.namedChildren) {
+          if (spec?.type !== 'import_specifier') continue;
+          const name = spec.childForFieldName('name')?.text;
+          const alias = spec.childForFieldName('alias')?.text;
+          if (name) out.push({ local: alias ?? name, imported: name, source });
+        }
+      }
+    }
+    return;
+  }
+
+  // CommonJS: `const x = require('./x')` / `const { a, b: c } = require('./x')`
+  if (node.type === 'variable_declarator') {
+    const value = node.childForFieldName('value');
+    const callee = value?.type === 'call_expression' ? value.childForFieldName('function') : null;
+    if (callee?.type === 'identifier' && callee.text === 'require') {
+      const arg = value!.childForFieldName('arguments')?.namedChild(0) ?? null;
+      const source = arg?.type === 'string' ? stringLiteralValue(arg) : '';
+      const name = node.childForFieldName('name');
+      if (source && name) {
+        if (name.type === 'identifier') {
+          out.push({ local: name.text, imported: '*', source });
+        } else if (name.type === 'object_pattern') {
+          for (const prop of name.namedChildren) {
+            if (prop?.type === 'shorthand_property_identifier_pattern') {
+              out.push({ local: prop.text, imported: prop.text, source });
+            } else if (prop?.type === 'pair_pattern') {
+              const key = prop.childForFieldName('key')?.text;
+              const local = prop.childForFieldName('value');
+              if (key && local?.type === 'identifier') {
+                out.push({ local: local.text, imported: key, source });
+              }
+            }
+          }
+        }
+      }
+      return;
+    }
+  }
+
+  for (const c of node.namedChildren) {
+    if (c) collectJsImports(c, out);
+  }
+}
+
+function collectPythonImports(root: Node, out: ImportBinding[]): void {
+  for (const stmt of root.namedChildren) {
+    if (stmt?.type === 'import_statement') {
+      // `import a.b` / `import a.b as ab` bind a module object — namespace imports.
+      for (const name of stmt.childrenForFieldName('name')) {
+        if (!name) continue;
+        const dotted = name.type === 'aliased_import' ? name.childForFieldName('name') : name;
+        const alias = name.type === 'aliased_import' ? name.childForFieldName('alias') : null;
+        if (!dotted) continue;
+        out.push({
+          local: alias?.text ?? dotted.text.split('.')[0]!,
+          imported: '*',
+          source: dotted.text,
+        });
+      }
+    } else if (stmt?.type === 'import_from_statement') {
+      const source = stmt.childForFieldName('module_name')?.text;
+      if (!source) continue;
+      if (stmt.namedChildren.some((c) => c?.type === 'wildcard_import')) {
+        out.push({ local: '*', imported: '*', source });
+        continue;
+      }
+      for (const name of stmt.childrenForFieldName('name')) {
+        if (!name) continue;
+        if (name.type === 'aliased_import') {
+          const imported = name.childForFieldName('name')?.text;
+          const alias = name.childForFieldName('alias')?.text;
+          if (imported) out.push({ local: alias ?? imported, imported, source });
+        } else {
+          out.push({ local: name.text, imported: name.text, source });
+        }
+      }
+    }
+  }
+}
+
+function collectGoImports(root: Node, out: ImportBinding[]): void {
+  const specs: Node[] = [];
+  const walk = (node: Node): void => {
+    if (node.type === 'import_spec') {
+      specs.push(node);
+      return;
+    }
+    for (const c of node.namedChildren) {
+      if (
+        c &&
+        (c.type === 'import_declaration' ||
+          c.type === 'import_spec_list' ||
+          c.type === 'import_spec')
+      ) {
+        walk(c);
+      }
+    }
+  };
+  walk(root);
+  for (const spec of specs) {
+    const source = stringLiteralValue(spec.childForFieldName('path'));
+    const alias = spec.childForFieldName('name')?.text;
+    // Blank imports (`_`) are side-effect only and bring nothing into scope.
+    if (!source || alias === '_') continue;
+    out.push({ local: alias ?? source.split('/').pop()!, imported: '*', source });
+  }
+}
+
+function joinRustPath(prefix: string, path: string): string {
+  if (!prefix) return path;
+  return path ? `${prefix}::${path}` : prefix;
+}
+
+function collectRustUse(node: Node, prefix: string, out: ImportBinding[]): void {
+  switch (node.type) {
+    case 'scoped_identifier': {
+      const source = joinRustPath(prefix, node.childForFieldName('path')?.text ?? '');
+      const name = node.childForFieldName('name')?.text;
+      if (source && name) out.push({ local: name, imported: name, source });
+      return;
+    }
+    case 'identifier':
+      if (prefix) out.push({ local: node.text, imported: node.text, source: prefix });
+      return;
+    case 'use_as_clause': {
+      const path = node.childForFieldName('path');
+      const alias = node.childForFieldName('alias')?.text;
+      if (!path || !alias) return;
+      if (path.type === 'scoped_identifier') {
+        const source = joinRustPath(prefix, path.childForFieldName('path')?.text ?? '');
+        const imported = path.childForFieldName('name')?.text;
+        if (source && imported) out.push({ local: alias, imported, source });
+      } else if (prefix) {
+        out.push({ local: alias, imported: path.text, source: prefix });
+      }
+      return;
+    }
+    case 'scoped_use_list': {
+      const next = joinRustPath(prefix, node.childForFieldName('path')?.text ?? '');
+      const list = node.childForFieldName('list');
+      for (const item of list?.namedChildren ?? []) {
+        if (item) collectRustUse(item, next, out);
+      }
+      return;
+    }
+    case 'use_list':
+      for (const item of node.namedChildren) {
+        if (item) collectRustUse(item, prefix, out);
+      }
+      return;
+    case 'use_wildcard': {
+      const source = joinRustPath(prefix, node.namedChild(0)?.text ?? '');
+      if (source) out.push({ local: '*', imported: '*', source });
+      return;
+    }
+  }
+}
+
+function collectJavaImports(root: Node, out: ImportBinding[]): void {
+  for (const decl of root.namedChildren) {
+    if (decl?.type !== 'import_declaration') continue;
+    const target = decl.namedChildren.find((c) => c?.type === 'scoped_identifier');
+    if (!target) continue;
+    if (decl.namedChildren.some((c) => c?.type === 'asterisk')) {
+      out.push({ local: '*', imported: '*', source: target.text });
+      continue;
+    }
+    const scope = target.childForFieldName('scope')?.text;
+    const name = target.childForFieldName('name')?.text;
+    if (scope && name) out.push({ local: name, imported: name, source: scope });
+  }
+}
+
+/**
+ * Extract the import bindings of a whole file. Supports TS/JS/TSX (`import`
+ * and CommonJS `require`), Python, Go, Rust (`use`) and Java; other languages
+ * return an empty list and their edges fall back to name matching.
+ */
+export function extractFileImports(tree: Tree, lang: string): ImportBinding[] {
+  const out: ImportBinding[] = [];
+  const root = tree.rootNode;
+  switch (lang) {
+    case 'typescript':
+    case 'tsx':
+    case 'javascript':
+      collectJsImports(root, out);
+      break;
+    case 'python':
+      collectPythonImports(root, out);
+      break;
+    case 'go':
+      collectGoImports(root, out);
+      break;
+    case 'rust':
+      for (const decl of root.namedChildren) {
+        const arg = decl?.type === 'use_declaration' ? decl.childForFieldName('argument') : null;
+        if (arg) collectRustUse(arg, '', out);
+      }
+      break;
+    case 'java':
+      collectJavaImports(root, out);
+      break;
+  }
+  return out;
+}
+
+/** Narrow the file's imports to the ones a chunk's uses can resolve through. */
+function importsForChunk(fileImports: ImportBinding[], uses: Set<string>): ImportBinding[] {
+  if (uses.size === 0) return [];
+  return fileImports.filter((b) => b.imported === '*' || uses.has(b.local));
+}
+
+// ── Type hierarchy ─────────────────────────────────────────────────────────
+
+/** Declarations whose supertypes the `hierarchy` queries capture. */
+const TYPE_DECLARATION_NODES = new Set([
+  'class_declaration',
+  'abstract_class_declaration',
+  'interface_declaration',
+  'struct_declaration',
+  'record_declaration',
+  'enum_declaration',
+  'class_definition',
+  'impl_item',
+  'trait_item',
+  'class_specifier',
+  'struct_specifier',
+  'class',
+  'trait_declaration',
+  'object_declaration',
+  'protocol_declaration',
+  'object_definition',
+  'trait_definition',
+]);
+
+/** Member declarations that can override a supertype method. */
+const METHOD_NODES = new Set([
+  'method_definition',
+  'method_signature',
+  'abstract_method_signature',
+  'method_declaration',
+  'function_definition',
+  'function_item',
+  'function_signature_item',
+  'field_declaration',
+  'method',
+  'singleton_method',
+  'function_declaration',
+  'protocol_function_declaration',
+]);
+
+interface TypeDecl {
+  type: string;
+  row: number;
+  supertypes: Array<{ supertype: string; relation: HeritageRef['relation'] }>;
+  methods: Array<{ name: string; row: number }>;
+}
+
+/** First direct child of one of `types` — for grammars without field names (Kotlin). */
+function childOfType(node: Node, types: string[]): Node | null {
+  return node.namedChildren.find((c) => c !== null && types.includes(c.type)) ?? null;
+}
+
+/** Method name, including C++ members whose name sits inside a function declarator. */
+function methodName(node: Node): string | null {
+  const name = node.childForFieldName('name') ?? childOfType(node, ['simple_identifier']);
+  if (name) return name.text;
+  let decl = node.childForFieldName('declarator');
+  while (decl && decl.type !== 'function_declarator') {
+    decl = decl.childForFieldName('declarator');
+  }
+  return decl?.childForFieldName('declarator')?.text ?? null;
+}
+
+/** Methods declared directly in a type body — nested types and method bodies are skipped. */
+function collectMethods(decl: Node): TypeDecl['methods'] {
+  const out: TypeDecl['methods'] = [];
+  const walk = (node: Node): void => {
+    for (const c of node.namedChildren) {
+      if (!c || TYPE_DECLARATION_NODES.has(c.type)) continue;
+      if (METHOD_NODES.has(c.type)) {
+        const name = methodName(c);
+        if (name && !isNoise(name)) out.push({ name, row: c.startPosition.row });
+        continue;
+      }
+      walk(c);
+    }
+  };
+  const body = decl.childForFieldName('body') ?? childOfType(decl, ['class_body']);
+  if (body) walk(body);
+  return out;
+}
+
+/** Name of the declaring type; Rust `impl Trait for Type` names it in the `type` field. */
+function declaredTypeName(decl: Node): string | null {
+  if (decl.type === 'impl_item') {
+    const t = decl.childForFieldName('type');
+    return (t?.type === 'generic_type' ? t.childForFieldName('type') : t)?.text ?? null;
+  }
+  const name = decl.childForFieldName('name') ?? childOfType(decl, ['type_identifier']);
+  return name?.text ?? null;
+}
+
+/** Group `@extends` / `@implements` captures by the type declaration they belong to. */
+function collectTypeDecls(captures: Array<{ name: string; node: Node }>): TypeDecl[] {
+  const byId = new Map<number, TypeDecl>();
+  for (const { name, node } of captures) {
+    if (name !== 'extends' && name !== 'implements') continue;
+    if (isNoise(node.text)) continue;
+    let decl: Node | null = node.parent;
+    for (let depth = 0; decl && depth < 6 && !TYPE_DECLARATION_NODES.has(decl.type); depth++) {
+      decl = decl.parent;
+    }
+    if (!decl || !TYPE_DECLARATION_NODES.has(decl.type)) continue;
+    let entry = byId.get(decl.id);
+    if (!entry) {
+      const type = declaredTypeName(decl);
+      if (!type) continue;
+      entry = { type, row: decl.startPosition.row, supertypes: [], methods: collectMethods(decl) };
+      byId.set(decl.id, entry);
+    }
+    if (!entry.supertypes.some((s) => s.supertype === node.text)) {
+      entry.supertypes.push({ supertype: node.text, relation: name });
+    }
+  }
+  return Array.from(byId.values());
+}
+
+function heritageForChunk(
+  decls: TypeDecl[],
+  chunk: { startLine: number; endLine: number }
+): HeritageRef[] {
+  const refs: HeritageRef[] = [];
+  for (const d of decls) {
+    const declared = d.row >= chunk.startLine && d.row <= chunk.endLine;
+    const methods = d.methods
+      .filter((m) => m.row >= chunk.startLine && m.row <= chunk.endLine)
+      .map((m) => m.name);
+    if (!declared && methods.length === 0) continue;
+    for (const s of d.supertypes) {
+      refs.push({ type: d.type, supertype: s.supertype, relation: s.relation, declared, methods });
+    }
+  }
+  return refs;
+}
+
 /**
  * Resolve ChunkKind from a tree-sitter capture node by walking up to find a known parent type.
  */
@@ -334,6 +743,67 @@ function resolveKind(node: Node): ChunkKind {
   return 'unknown';
 }
 
+/** The declaration node a definition capture names (its nearest NODE_TYPE_TO_KIND ancestor). */
+function declarationOf(identifierNode: Node): Node | null {
+  let decl: Node | null = identifierNode.parent;
+  for (let depth = 0; decl && depth < 4; depth++) {
+    if (NODE_TYPE_TO_KIND[decl.type]) return decl;
+    decl = decl.parent;
+  }
+  return null;
+}
+
+/** Node types whose name is a scope for the code inside them: types, modules, namespaces, impls. */
+const NAMED_SCOPE_NODES = new Set([
+  'class_declaration',
+  'class_definition',
+  'class',
+  'module',
+  'interface_declaration',
+  'internal_module',
+  'struct_item',
+  'trait_item',
+  'impl_item',
+  'mod_item',
+  'class_specifier',
+  'struct_specifier',
+  'namespace_definition',
+  'namespace_declaration',
+  'struct_declaration',
+  'record_declaration',
+  'trait_declaration',
+  'object_declaration',
+  'protocol_declaration',
+  'object_definition',
+  'trait_definition',
+]);
+
+function scopeName(node: Node): string | null {
+  // `impl Display for Invoice` has no name, only the implementing type
+  const name = node.childForFieldName('name') ?? node.childForFieldName('type');
+  if (name) return name.text;
+  const ident = node.namedChildren.find(
+    (c): c is Node => c !== null && (c.type.endsWith('identifier') || c.type === 'constant')
+  );
+  return ident?.text ?? null;
+}
+
+/**
+ * Names of the scopes enclosing a chunk's first line, outermost first. A scope
+ * opened inside the chunk (the class the chunk itself declares) doesn't count.
+ */
+function enclosingScope(root: Node, chunk: { startLine: number }): string[] {
+  const scope: string[] = [];
+  let node: Node | null = root.descendantForPosition({ row: chunk.startLine, column: 0 });
+  // The root (a Python `module`) isn't a scope.
+  for (; node?.parent; node = node.parent) {
+    if (node.startPosition.row >= chunk.startLine || !NAMED_SCOPE_NODES.has(node.type)) continue;
+    const name = scopeName(node);
+    if (name) scope.unshift(name);
+  }
+  return scope;
+}
+
 /**
  * Tree-sitter node types that introduce a "function-like scope" — anything
  * declared inside one of these (apart from the declaration the node itself
@@ -389,6 +859,27 @@ const FUNCTION_LIKE_SCOPE_NODES_PER_LANG: Record<string, Set<string>> = {
     'lambda_expression',
     'anonymous_method_expression',
   ]),
+  php: new Set([
+    'function_definition',
+    'method_declaration',
+    'anonymous_function_creation_expression',
+    'arrow_function',
+  ]),
+  kotlin: new Set([
+    'function_declaration',
+    'secondary_constructor',
+    'anonymous_initializer',
+    'lambda_literal',
+    'anonymous_function',
+  ]),
+  swift: new Set([
+    'function_declaration',
+    'init_declaration',
+    'deinit_declaration',
+    'computed_property',
+    'lambda_literal',
+  ]),
+  scala: new Set(['function_definition']),
 };
 
 /**
@@ -420,11 +911,7 @@ function isTopLevelDeclaration(identifierNode: Node, scopeNodes: Set<string>): b
   // counting enclosing scopes. Detect this by looking up the identifier's
   // ancestor chain for a NODE_TYPE_TO_KIND match — if that match is
   // function-like, the first function-like-scope hit is the symbol's home.
-  let decl: Node | null = identifierNode.parent;
-  for (let depth = 0; decl && depth < 4; depth++) {
-    if (NODE_TYPE_TO_KIND[decl.type]) break;
-    decl = decl.parent;
-  }
+  const decl = declarationOf(identifierNode);
   const declIsFunctionLike = decl !== null && scopeNodes.has(decl.type);
 
   while (ancestor) {
@@ -458,7 +945,13 @@ export function extractSymbolsForChunks(
 ): SymbolExtractionResult[] {
   const querySet = LANGUAGE_QUERIES[lang];
   if (!querySet) {
-    return chunks.map(() => ({ defines_symbols: [], uses_symbols: [], defined_symbols: [] }));
+    return chunks.map(() => ({
+      defines_symbols: [],
+      uses_symbols: [],
+      defined_symbols: [],
+      imports: [],
+      heritage: [],
+    }));
   }
 
   if (lang === 'terraform') {
@@ -470,6 +963,7 @@ export function extractSymbolsForChunks(
 
   let defQuery: Query | null = null;
   let useQuery: Query | null = null;
+  let hierarchyQuery: Query | null = null;
 
   try {
     try {
@@ -484,12 +978,24 @@ export function extractSymbolsForChunks(
       // Query compilation failed — skip usages
     }
 
+    if (querySet.hierarchy) {
+      try {
+        hierarchyQuery = new Query(language, querySet.hierarchy);
+      } catch {
+        // Query compilation failed — skip type hierarchy
+      }
+    }
+
     // Collect all captures once, sorted by row (tree-sitter returns them in order)
     const defCaptures = defQuery ? defQuery.captures(tree.rootNode) : [];
     const useCaptures = useQuery ? useQuery.captures(tree.rootNode) : [];
 
     // Two-pointer approach: captures and chunks are both sorted by line number,
     // so we advance pointers instead of scanning all captures for every chunk.
+    const fileImports = extractFileImports(tree, lang);
+    const typeDecls = hierarchyQuery
+      ? collectTypeDecls(hierarchyQuery.captures(tree.rootNode))
+      : [];
     const results: SymbolExtractionResult[] = [];
     let defIdx = 0;
     let useIdx = 0;
@@ -497,6 +1003,7 @@ export function extractSymbolsForChunks(
     for (const chunk of chunks) {
       const defines = new Map<string, ChunkKind>();
       const uses = new Set<string>();
+      const docs = new Map<number, string>();
 
       // Advance defIdx past captures before this chunk
       while (
@@ -518,6 +1025,11 @@ export function extractSymbolsForChunks(
         if (isNoise(text) || defines.has(text)) continue;
         if (!isTopLevelDeclaration(captureNode, scopeNodes)) continue;
         defines.set(text, resolveKind(captureNode));
+        const decl = declarationOf(captureNode);
+        if (decl && !docs.has(decl.id)) {
+          const doc = declarationDoc(decl, lang);
+          if (doc) docs.set(decl.id, doc);
+        }
       }
 
       // Advance useIdx past captures before this chunk
@@ -549,11 +1061,16 @@ export function extractSymbolsForChunks(
           kind,
         })
       );
+      const scope = enclosingScope(tree.rootNode, chunk);
 
       results.push({
         defines_symbols: defined_symbols.map((d) => d.name),
         uses_symbols: Array.from(uses),
         defined_symbols,
+        imports: importsForChunk(fileImports, uses),
+        heritage: heritageForChunk(typeDecls, chunk),
+        ...(docs.size > 0 ? { doc_summary: summarizeDocs([...docs.values()]) } : {}),
+        ...(scope.length > 0 ? { scope } : {}),
       });
     }
 
@@ -561,5 +1078,6 @@ export function extractSymbolsForChunks(
   } finally {
     defQuery?.delete();
     useQuery?.delete();
+    hierarchyQuery?.delete();
   }
 }
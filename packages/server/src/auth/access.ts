@@ -0,0 +1,130 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { parseChunkId } from '../indexer.js';
+import { splitBranchProject } from '../branches.js';
+
+/**
+ * Per-caller access rules, carried through a request the same way the
+ * telemetry context is. bearerAuth binds the rules attached to the caller's
+ * API token; everything downstream (Searcher, MCP tools, REST routes) reads
+ * them through `access.current()` and never sees the token itself.
+ *
+ * Each axis is an allow-list; `null` means unrestricted on that axis. Outside
+ * a request, or on a server without token auth, the rules are UNRESTRICTED —
+ * the server-wide scopes (PAPARATS_PROJECTS, PAPARATS_DOCS_AUDIENCE) still
+ * apply on top, and a caller's rules can only narrow within them.
+ */
+export interface AccessRules {
+  /** Groups the caller may read and write. */
+  groups: string[] | null;
+  /**
+   * Project names (clean, unsuffixed) the caller may read and write, in any
+   * allowed group. A project's branch variants (`project@branch`) come with it.
+   */
+  projects: string[] | null;
+  /** Docs audiences search_docs may return to the caller. */
+  audiences: string[] | null;
+}
+
+export const UNRESTRICTED: AccessRules = Object.freeze({
+  groups: null,
+  projects: null,
+  audiences: null,
+});
+
+/** What a denial was about — the `resource` label on paparats_access_denied_total. */
+export type AccessResource = 'group' | 'project' | 'chunk' | 'scope';
+
+export class AccessDeniedError extends Error {
+  constructor(
+    readonly resource: AccessResource,
+    message: string
+  ) {
+    super(`Access denied: ${message}`);
+    this.name = 'AccessDeniedError';
+  }
+}
+
+const als = new AsyncLocalStorage<AccessRules>();
+
+export const access = {
+  run<T>(rules: AccessRules, fn: () => T): T {
+    return als.run(rules, fn);
+  },
+  current(): AccessRules {
+    return als.getStore() ?? UNRESTRICTED;
+  },
+};
+
+export function canAccessGroup(group: string, rules: AccessRules = access.current()): boolean {
+  return rules.groups === null || rules.groups.includes(group);
+}
+
+export function canAccessProject(project: string, rules: AccessRules = access.current()): boolean {
+  return rules.projects === null || rules.projects.includes(splitBranchProject(project).project);
+}
+
+/**
+ * Whether the caller may read a chunk, judged from its id. Chunk ids carry the
+ * STORED project name, so `storedProjectName` maps each allowed (clean) project
+ * to its storage form. An unparseable id is only readable by unrestricted callers.
+ */
+export function canAccessChunk(
+  chunkId: string,
+  storedProjectName: (project: string) => string,
+  rules: AccessRules = access.current()
+): boolean {
+  if (rules.groups === null && rules.projects === null) return true;
+  const parsed = parseChunkId(chunkId);
+  if (!parsed || !canAccessGroup(parsed.group, rules)) return false;
+  const base = splitBranchProject(parsed.project).project;
+  return rules.projects === null || rules.projects.some((p) => storedProjectName(p) === base);
+}
+
+/**
+ * Intersect an allow-list with the caller's project rules. `null` on both
+ * sides stays unrestricted; an empty result means nothing is reachable.
+ */
+export function narrowProjects(
+  projects: string[] | null,
+  rules: AccessRules = access.current()
+): string[] | null {
+  if (rules.projects === null) return projects;
+  if (projects === null) return rules.projects;
+  const allowed = new Set(rules.projects);
+  return projects.filter((p) => allowed.has(p));
+}
+
+/** Denial for acting on `group` (and `project`, unless omitted or "all"), or null when allowed. */
+export function checkScope(
+  group: string | undefined,
+  project: string | undefined,
+  rules: AccessRules = access.current()
+): AccessDeniedError | null {
+  if (group !== undefined && !canAccessGroup(group, rules)) {
+    return new AccessDeniedError('group', `group "${group}" is not available to this token`);
+  }
+  if (project !== undefined && project !== 'all' && !canAccessProject(project, rules)) {
+    return new AccessDeniedError('project', `project "${project}" is not available to this token`);
+  }
+  return null;
+}
+
+/** Like checkScope, for operations over a whole group — closed to project-restricted callers. */
+export function checkGroupWide(
+  group: string,
+  rules: AccessRules = access.current()
+): AccessDeniedError | null {
+  const denied = checkScope(group, undefined, rules);
+  if (denied || rules.projects === null) return denied;
+  return new AccessDeniedError('scope', `needs access to every project in group "${group}"`);
+}
+
+/** Denial for reading a chunk by id (see canAccessChunk), or null when allowed. */
+export function checkChunk(
+  chunkId: string,
+  storedProjectName: (project: string) => string,
+  rules: AccessRules = access.current()
+): AccessDeniedError | null {
+  if (canAccessChunk(chunkId, storedProjectName, rules)) return null;
+  return new AccessDeniedError('chunk', `chunk "${chunkId}" is not available to this token`);
+}
@@ -0,0 +1,73 @@
+import { timingSafeEqual } from 'crypto';
+import type { Request, RequestHandler } from 'express';
+import { tctx } from '../telemetry/context.js';
+import { access } from './access.js';
+import { hashToken, type ApiTokenStore } from './token-store.js';
+
+/** Token from an `Authorization: Bearer <token>` header, or null. */
+export function readBearerToken(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (!header) return null;
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(header);
+  return match ? match[1]! : null;
+}
+
+function isExempt(reqPath: string, exempt: readonly string[]): boolean {
+  return exempt.some((p) => reqPath === p || reqPath.startsWith(`${p}/`));
+}
+
+function reject(res: Parameters<RequestHandler>[1], message: string): void {
+  res.set('WWW-Authenticate', 'Bearer realm="paparats"');
+  res.status(401).json({ error: message });
+}
+
+export interface BearerAuthOptions {
+  /** Path prefixes that stay open (health checks, routes with their own guard). */
+  exempt?: readonly string[];
+}
+
+/**
+ * Require a valid per-user API token on every request outside `exempt`.
+ * Must run inside identityMiddleware: the token's user replaces whatever the
+ * client put in the identity header, so analytics attribution can't be spoofed.
+ * The token's access rules are bound for the rest of the request (see access.ts).
+ */
+export function bearerAuth(store: ApiTokenStore, options?: BearerAuthOptions): RequestHandler {
+  const exempt = options?.exempt ?? [];
+  return (req, res, next) => {
+    if (isExempt(req.path, exempt)) {
+      next();
+      return;
+    }
+    const token = readBearerToken(req);
+    if (!token) {
+      reject(res, 'Authentication required');
+      return;
+    }
+    const record = store.verify(token);
+    if (!record) {
+      reject(res, 'Invalid or revoked API token');
+      return;
+    }
+    tctx.patch({ user: record.user });
+    const { groups, projects, audiences } = record;
+    access.run({ groups, projects, audiences }, () => next());
+  };
+}
+
+/**
+ * Guard for the token admin API: the bearer must equal the operator-configured
+ * admin secret. Compared on digests so the check is constant-time regardless
+ * of the presented length.
+ */
+export function adminAuth(adminToken: string): RequestHandler {
+  const expected = Buffer.from(hashToken(adminToken), 'hex');
+  return (req, res, next) => {
+    const token = readBearerToken(req);
+    if (token && timingSafeEqual(Buffer.from(hashToken(token), 'hex'), expected)) {
+      next();
+      return;
+    }
+    reject(res, 'Admin token required');
+  };
+}
@@ -0,0 +1,238 @@
+import path from 'path';
+import os from 'os';
+import fs from 'fs';
+import { createHash, randomBytes } from 'crypto';
+import Database from 'better-sqlite3';
+import type { AccessRules } from './access.js';
+
+/**
+ * Per-user API tokens for the MCP and HTTP API routes (`~/.paparats/auth.db`).
+ *
+ * Only the SHA-256 of a token is stored — the plaintext is returned once from
+ * `create()` and never again, so a leaked database can't be replayed against
+ * the server. Tokens are high-entropy random strings, which is why a plain
+ * (unsalted) hash is enough: there is nothing to brute-force a dictionary
+ * against. Revocation is a soft delete so `list()` can still show who had
+ * access and when it ended.
+ *
+ * Each token also carries the caller's access rules (allowed groups, projects,
+ * docs audiences) as JSON arrays; NULL means unrestricted on that axis.
+ */
+
+const PAPARATS_DIR = path.join(os.homedir(), '.paparats');
+const DEFAULT_DB_PATH = path.join(PAPARATS_DIR, 'auth.db');
+
+/** Prefix on every issued token — makes them greppable in logs and secret scanners. */
+export const TOKEN_PREFIX = 'ppt_';
+
+/** last_used_at is only rewritten when older than this, so hot clients don't turn reads into writes. */
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+const CREATE_API_TOKENS =
+  `CREATE TABLE IF NOT EXISTS api_tokens (` +
+  `id TEXT PRIMARY KEY, user TEXT NOT NULL, label TEXT, token_hash TEXT NOT NULL UNIQUE, ` +
+  `created_at INTEGER NOT NULL, last_used_at INTEGER, revoked_at INTEGER, ` +
+  `groups TEXT, projects TEXT, audiences TEXT)`;
+
+const ACCESS_COLUMNS = ['groups', 'projects', 'audiences'] as const;
+const SELECT_COLUMNS =
+  'id, user, label, created_at, last_used_at, revoked_at, groups, projects, audiences';
+
+export interface ApiToken extends AccessRules {
+  id: string;
+  user: string;
+  label: string | null;
+  /** Unix ms. */
+  createdAt: number;
+  lastUsedAt: number | null;
+  revokedAt: number | null;
+}
+
+/** Returned by `create()` only — the one place the plaintext token exists. */
+export interface IssuedApiToken extends ApiToken {
+  token: string;
+}
+
+export interface CreateApiTokenOptions extends Partial<AccessRules> {
+  label?: string;
+}
+
+interface ApiTokenRow {
+  id: string;
+  user: string;
+  label: string | null;
+  created_at: number;
+  last_used_at: number | null;
+  revoked_at: number | null;
+  groups: string | null;
+  projects: string | null;
+  audiences: string | null;
+}
+
+/** Normalise an allow-list: trimmed, deduplicated, `null` when unset. An empty list stays empty (deny all). */
+function cleanList(list: string[] | null | undefined): string[] | null {
+  if (list === undefined || list === null) return null;
+  return Array.from(new Set(list.map((s) => s.trim()).filter(Boolean)));
+}
+
+function parseList(json: string | null): string[] | null {
+  return json === null ? null : (JSON.parse(json) as string[]);
+}
+
+function toApiToken(row: ApiTokenRow): ApiToken {
+  return {
+    id: row.id,
+    user: row.user,
+    label: row.label,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+    revokedAt: row.revoked_at,
+    groups: parseList(row.groups),
+    projects: parseList(row.projects),
+    audiences: parseList(row.audiences),
+  };
+}
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export class ApiTokenStore {
+  private db: Database.Database;
+  private closed = false;
+
+  private insertStmt: Database.Statement;
+  private listActiveStmt: Database.Statement;
+  private listAllStmt: Database.Statement;
+  private revokeStmt: Database.Statement;
+  private byHashStmt: Database.Statement;
+  private touchStmt: Database.Statement;
+  private countActiveStmt: Database.Statement;
+
+  constructor(dbPath?: string) {
+    const p = dbPath ?? DEFAULT_DB_PATH;
+    fs.mkdirSync(path.dirname(p), { recursive: true });
+    this.db = new Database(p);
+    try {
+      this.db.pragma('journal_mode = WAL');
+      this.db.pragma('synchronous = NORMAL');
+    } catch {
+      // WAL unsupported — continue with defaults.
+    }
+    this.db.pragma('busy_timeout = 30000');
+
+    this.db.prepare(CREATE_API_TOKENS).run();
+
+    // auth.db files created before per-token access rules: add the columns as
+    // NULL (unrestricted), which is what those tokens could already do.
+    const cols = this.db.prepare("PRAGMA table_info('api_tokens')").all() as Array<{
+      name: string;
+    }>;
+    for (const col of ACCESS_COLUMNS) {
+      if (!cols.some((c) => c.name === col)) {
+        this.db.exec(`ALTER TABLE api_tokens ADD COLUMN ${col} TEXT`);
+      }
+    }
+
+    this.insertStmt = this.db.prepare(
+      `INSERT INTO api_tokens (id, user, label, token_hash, created_at, groups, projects, audiences)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    this.listActiveStmt = this.db.prepare(
+      `SELECT ${SELECT_COLUMNS} FROM api_tokens WHERE revoked_at IS NULL ORDER BY created_at, id`
+    );
+    this.listAllStmt = this.db.prepare(
+      `SELECT ${SELECT_COLUMNS} FROM api_tokens ORDER BY created_at, id`
+    );
+    this.revokeStmt = this.db.prepare(
+      `UPDATE api_tokens SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL`
+    );
+    this.byHashStmt = this.db.prepare(
+      `SELECT ${SELECT_COLUMNS} FROM api_tokens WHERE token_hash = ?`
+    );
+    this.touchStmt = this.db.prepare(`UPDATE api_tokens SET last_used_at = ? WHERE id = ?`);
+    this.countActiveStmt = this.db.prepare(
+      `SELECT COUNT(*) AS n FROM api_tokens WHERE revoked_at IS NULL`
+    );
+  }
+
+  /**
+   * Mint a token for `user`, optionally limited to some groups / projects /
+   * docs audiences. The plaintext is only ever returned here.
+   */
+  create(
+    user: string,
+    options: CreateApiTokenOptions = {},
+    now: number = Date.now()
+  ): IssuedApiToken {
+    const trimmed = user.trim();
+    if (!trimmed) throw new Error('Token user must be a non-empty string');
+    const id = randomBytes(6).toString('hex');
+    const token = TOKEN_PREFIX + randomBytes(32).toString('base64url');
+    const label = options.label?.trim() || null;
+    const groups = cleanList(options.groups);
+    const projects = cleanList(options.projects);
+    const audiences = cleanList(options.audiences);
+    const toJson = (list: string[] | null): string | null =>
+      list === null ? null : JSON.stringify(list);
+    this.insertStmt.run(
+      id,
+      trimmed,
+      label,
+      hashToken(token),
+      now,
+      toJson(groups),
+      toJson(projects),
+      toJson(audiences)
+    );
+    return {
+      id,
+      user: trimmed,
+      label,
+      createdAt: now,
+      lastUsedAt: null,
+      revokedAt: null,
+      groups,
+      projects,
+      audiences,
+      token,
+    };
+  }
+
+  list(options?: { includeRevoked?: boolean }): ApiToken[] {
+    const stmt = options?.includeRevoked ? this.listAllStmt : this.listActiveStmt;
+    return (stmt.all() as ApiTokenRow[]).map(toApiToken);
+  }
+
+  /** Revoke by id. Returns false when the id is unknown or already revoked. */
+  revoke(id: string, now: number = Date.now()): boolean {
+    return this.revokeStmt.run(now, id).changes > 0;
+  }
+
+  /**
+   * Look up a presented token. Returns the token record when it exists and is
+   * not revoked, null otherwise. Bumps last_used_at (coarsely, see
+   * LAST_USED_RESOLUTION_MS).
+   */
+  verify(token: string, now: number = Date.now()): ApiToken | null {
+    if (!token.startsWith(TOKEN_PREFIX)) return null;
+    const row = this.byHashStmt.get(hashToken(token)) as ApiTokenRow | undefined;
+    if (!row || row.revoked_at !== null) return null;
+    if (row.last_used_at === null || now - row.last_used_at >= LAST_USED_RESOLUTION_MS) {
+      this.touchStmt.run(now, row.id);
+      row.last_used_at = now;
+    }
+    return toApiToken(row);
+  }
+
+  /** Number of tokens that can still authenticate. */
+  activeCount(): number {
+    return (this.countActiveStmt.get() as { n: number }).n;
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.db.close();
+  }
+}
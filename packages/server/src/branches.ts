@@ -0,0 +1,68 @@
+/**
+ * Branch variants. A repo indexed on more than its default branch gets one
+ * logical project per extra branch, named `<project>@<branch>`, whose chunks
+ * carry a `branch` payload field. The plain project is the default branch.
+ *
+ * Storage is deduplicated by file: when a file on the branch chunks to exactly
+ * what the default branch already holds, the variant stores nothing for it and
+ * tags the default branch's points with the branch in a `branches` array
+ * instead. A branch's view is therefore its own chunks plus the default-branch
+ * chunks tagged with it — see {@link branchCondition}.
+ */
+
+export const BRANCH_SEPARATOR = '@';
+
+/** Project name of `branch`'s variant of `project`. */
+export function branchProjectName(project: string, branch: string): string {
+  return `${project}${BRANCH_SEPARATOR}${branch}`;
+}
+
+/**
+ * Split a (clean or stored) project name into its base project and branch.
+ * Branch is null for a default-branch project.
+ */
+export function splitBranchProject(name: string): { project: string; branch: string | null } {
+  const at = name.indexOf(BRANCH_SEPARATOR);
+  if (at <= 0) return { project: name, branch: null };
+  return { project: name.slice(0, at), branch: name.slice(at + 1) };
+}
+
+/**
+ * Qdrant condition selecting `branch`'s view of the given stored base project
+ * names, or of every project when `projects` is null: the branch's own chunks
+ * and the default-branch chunks it shares.
+ */
+export function branchCondition(
+  branch: string,
+  projects: string[] | null
+): Record<string, unknown> {
+  if (!projects) {
+    return {
+      should: [
+        { key: 'branch', match: { value: branch } },
+        { key: 'branches', match: { value: branch } },
+      ],
+    };
+  }
+  return {
+    should: [
+      {
+        key: 'project',
+        match: { any: projects.map((p) => branchProjectName(p, branch)) },
+      },
+      {
+        must: [
+          { key: 'project', match: { any: projects } },
+          { key: 'branches', match: { value: branch } },
+        ],
+      },
+    ],
+  };
+}
+
+/** Whether a chunk payload is part of `branch`'s view. */
+export function isOnBranch(payload: Record<string, unknown>, branch: string): boolean {
+  if (payload['branch'] === branch) return true;
+  const shared = payload['branches'];
+  return Array.isArray(shared) && shared.includes(branch);
+}
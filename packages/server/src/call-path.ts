@@ -0,0 +1,252 @@
+import type { MetadataStore } from './metadata-db.js';
+import type { EdgeConfidence, RelationType, SymbolEdge } from './types.js';
+
+/**
+ * Shortest call chains between two sets of chunks, for `trace_path`.
+ *
+ * A bounded bidirectional BFS over `symbol_edges`: the source side follows
+ * edges forward (`getEdgesFrom`), the target side follows them backward
+ * (`getEdgesTo`), and each round expands whichever frontier is smaller. Both
+ * sides keep every same-depth parent, so all shortest chains through the
+ * meeting layer can be enumerated — not just the first one found.
+ *
+ * Hub chunks (degree at or above the group p95, from the degree snapshot) are
+ * reached but never expanded unless `includeHubs` is set: a path through a
+ * logger or a base `Error` class is technically shortest and tells you
+ * nothing. Endpoints are always expanded, hub or not.
+ */
+
+export type EdgeReader = Pick<
+  MetadataStore,
+  'getEdgesFrom' | 'getEdgesTo' | 'getGroupDegreeSnapshot'
+>;
+
+/** One hop of a path, with confidence defaulted for pre-confidence rows. */
+export interface PathEdge {
+  from: string;
+  to: string;
+  relation: RelationType;
+  symbol: string;
+  confidence: EdgeConfidence;
+}
+
+export interface TracePathOptions {
+  /** Longest path to look for, in edges (default 6). */
+  maxHops?: number;
+  /** Max paths to return (default 3). */
+  limit?: number;
+  /** Only follow these relations (default: all). */
+  relationTypes?: readonly RelationType[];
+  /** Walk through hub chunks too (default false). */
+  includeHubs?: boolean;
+  /** Stop after this many chunks have been reached from either side (default 5000). */
+  maxVisited?: number;
+  /** Chunks the caller may see; unreadable chunks are neither crossed nor returned. */
+  canRead?: (chunkId: string) => boolean;
+}
+
+export interface TracePathResult {
+  /** Shortest paths, strongest weakest-link first. Empty when none was found. */
+  paths: PathEdge[][];
+  /** Length of the returned paths, or null when none was found. */
+  hops: number | null;
+  /** Chunks reached from both sides together. */
+  visited: number;
+  /** Hub chunks that were reached but not expanded. */
+  skippedHubs: number;
+  /** True when the search hit `maxVisited` before the frontiers met. */
+  truncated: boolean;
+}
+
+/** Lower is stronger. A path is only as trustworthy as its weakest edge. */
+const CONFIDENCE_RANK: Record<EdgeConfidence, number> = {
+  RESOLVED: 0,
+  EXTRACTED: 1,
+  INFERRED: 2,
+  AMBIGUOUS: 3,
+};
+
+function toPathEdge(e: SymbolEdge): PathEdge {
+  return {
+    from: e.from_chunk_id,
+    to: e.to_chunk_id,
+    relation: e.relation_type,
+    symbol: e.symbol_name,
+    confidence: e.confidence ?? 'INFERRED',
+  };
+}
+
+function weakestLink(path: PathEdge[]): number {
+  return Math.max(0, ...path.map((e) => CONFIDENCE_RANK[e.confidence]));
+}
+
+/** BFS state for one side: depth per reached chunk, and the same-depth links back toward the side's roots. */
+interface Side {
+  depth: Map<string, number>;
+  links: Map<string, PathEdge[]>;
+  frontier: string[];
+  level: number;
+}
+
+function newSide(roots: string[]): Side {
+  return {
+    depth: new Map(roots.map((r) => [r, 0])),
+    links: new Map(),
+    frontier: [...roots],
+    level: 0,
+  };
+}
+
+export function traceCallPaths(
+  store: EdgeReader,
+  sources: string[],
+  targets: string[],
+  options: TracePathOptions = {}
+): TracePathResult {
+  const maxHops = options.maxHops ?? 6;
+  const limit = options.limit ?? 3;
+  const maxVisited = options.maxVisited ?? 5000;
+  const canRead = options.canRead ?? (() => true);
+  const allowed =
+    options.relationTypes && options.relationTypes.length > 0
+      ? new Set<string>(options.relationTypes)
+      : null;
+
+  const endpoints = new Set([...sources, ...targets]);
+  const hubsByGroup = new Map<string, Set<string>>();
+  const isHub = (id: string): boolean => {
+    if (options.includeHubs || endpoints.has(id)) return false;
+    const group = id.split('//')[0] ?? '';
+    let hubs = hubsByGroup.get(group);
+    if (!hubs) {
+      hubs = store.getGroupDegreeSnapshot(group).hubChunkIds;
+      hubsByGroup.set(group, hubs);
+    }
+    return hubs.has(id);
+  };
+
+  const fwd = newSide(sources);
+  const bwd = newSide(targets);
+  const skipped = new Set<string>();
+  let truncated = false;
+  let meeting: string[] = [];
+
+  while (
+    meeting.length === 0 &&
+    fwd.frontier.length > 0 &&
+    bwd.frontier.length > 0 &&
+    fwd.level + bwd.level < maxHops
+  ) {
+    if (fwd.depth.size + bwd.depth.size >= maxVisited) {
+      truncated = true;
+      break;
+    }
+    const forward = fwd.frontier.length <= bwd.frontier.length;
+    const side = forward ? fwd : bwd;
+    const other = forward ? bwd : fwd;
+    const next: string[] = [];
+    const nextLevel = side.level + 1;
+
+    for (const node of side.frontier) {
+      if (isHub(node)) {
+        skipped.add(node);
+        continue;
+      }
+      const edges = forward ? store.getEdgesFrom(node) : store.getEdgesTo(node);
+      for (const raw of edges) {
+        if (allowed && !allowed.has(raw.relation_type)) continue;
+        const edge = toPathEdge(raw);
+        const neighbour = forward ? edge.to : edge.from;
+        if (!canRead(neighbour)) continue;
+        const seen = side.depth.get(neighbour);
+        if (seen === undefined) {
+          side.depth.set(neighbour, nextLevel);
+          side.links.set(neighbour, [edge]);
+          next.push(neighbour);
+        } else if (seen === nextLevel) {
+          // Another shortest way in. Keep one edge per chunk pair — the most
+          // confident — so a calls + references pair doesn't double the paths.
+          const links = side.links.get(neighbour)!;
+          const twin = links.findIndex((l) => l.from === edge.from && l.to === edge.to);
+          if (twin === -1) links.push(edge);
+          else if (CONFIDENCE_RANK[edge.confidence] < CONFIDENCE_RANK[links[twin]!.confidence]) {
+            links[twin] = edge;
+          }
+        }
+      }
+    }
+    side.frontier = next;
+    side.level = nextLevel;
+
+    // A hub can end a path but not sit in the middle of one.
+    meeting = next.filter((n) => other.depth.has(n) && !isHub(n));
+  }
+
+  if (meeting.length === 0) {
+    // Sources and targets may overlap outright (0 hops) — not a path worth reporting.
+    return {
+      paths: [],
+      hops: null,
+      visited: fwd.depth.size + bwd.depth.size,
+      skippedHubs: skipped.size,
+      truncated,
+    };
+  }
+
+  const total = (n: string): number => fwd.depth.get(n)! + bwd.depth.get(n)!;
+  const hops = Math.min(...meeting.map(total));
+  const through = meeting.filter((n) => total(n) === hops);
+
+  // Enumerate prefixes (source → node) and suffixes (node → target) from the
+  // link maps, bounded so a dense layer can't blow up combinatorially.
+  const cap = limit * 4;
+  const prefixes = (node: string): PathEdge[][] => {
+    const links = fwd.links.get(node);
+    if (!links) return [[]];
+    const out: PathEdge[][] = [];
+    for (const link of links) {
+      for (const head of prefixes(link.from)) {
+        out.push([...head, link]);
+        if (out.length >= cap) return out;
+      }
+    }
+    return out;
+  };
+  const suffixes = (node: string): PathEdge[][] => {
+    const links = bwd.links.get(node);
+    if (!links) return [[]];
+    const out: PathEdge[][] = [];
+    for (const link of links) {
+      for (const tail of suffixes(link.to)) {
+        out.push([link, ...tail]);
+        if (out.length >= cap) return out;
+      }
+    }
+    return out;
+  };
+
+  const paths: PathEdge[][] = [];
+  const seenPaths = new Set<string>();
+  for (const node of through) {
+    for (const head of prefixes(node)) {
+      for (const tail of suffixes(node)) {
+        const path = [...head, ...tail];
+        const key = path.map((e) => `${e.from}>${e.to}`).join('|');
+        if (seenPaths.has(key)) continue;
+        seenPaths.add(key);
+        paths.push(path);
+      }
+      if (paths.length >= cap) break;
+    }
+    if (paths.length >= cap) break;
+  }
+
+  paths.sort((a, b) => weakestLink(a) - weakestLink(b));
+  return {
+    paths: paths.slice(0, limit),
+    hops,
+    visited: fwd.depth.size + bwd.depth.size,
+    skippedHubs: skipped.size,
+    truncated,
+  };
+}
@@ -0,0 +1,75 @@
+import crypto from 'crypto';
+
+/**
+ * Contextual chunk headers. A chunk is embedded with a short header naming
+ * where it lives — file, enclosing class / module chain, symbol, service — so a
+ * method body that never mentions its class or file still lands near queries
+ * about them. Only the embedding input gets the header: the stored `content`
+ * (what clients see, what BM25 weighs, what `hash` covers) stays the raw chunk.
+ *
+ * The header is a per-project template (`indexing.chunkHeader`) with
+ * `{placeholder}` fields. A line whose placeholders aren't all filled is
+ * dropped, so a chunk without a symbol loses only the symbol line. An empty
+ * template turns headers off.
+ */
+
+export const CHUNK_HEADER_FIELDS = [
+  'file',
+  'project',
+  'language',
+  'scope',
+  'symbol',
+  'kind',
+  'service',
+  'bounded_context',
+  'tags',
+] as const;
+
+export type ChunkHeaderField = (typeof CHUNK_HEADER_FIELDS)[number];
+
+export type ChunkHeaderValues = Partial<Record<ChunkHeaderField, string | null>>;
+
+export const DEFAULT_CHUNK_HEADER = [
+  'File: {file}',
+  'Scope: {scope}',
+  'Symbol: {kind} {symbol}',
+  'Service: {service}',
+  'Bounded context: {bounded_context}',
+].join('\n');
+
+/** Recorded in the collection metadata for projects embedded without a header. */
+export const NO_CHUNK_HEADER = 'none';
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+/** Placeholders in `template` that aren't {@link CHUNK_HEADER_FIELDS}. */
+export function unknownChunkHeaderFields(template: string): string[] {
+  const known = new Set<string>(CHUNK_HEADER_FIELDS);
+  return [...template.matchAll(PLACEHOLDER)].map((m) => m[1]!).filter((f) => !known.has(f));
+}
+
+/** Fill the template; lines with an empty or unknown placeholder are dropped. */
+export function renderChunkHeader(template: string, values: ChunkHeaderValues): string {
+  const lines: string[] = [];
+  for (const line of template.split('\n')) {
+    let complete = true;
+    const rendered = line.replace(PLACEHOLDER, (_, field: string) => {
+      const value = values[field as ChunkHeaderField];
+      if (!value) complete = false;
+      return value ?? '';
+    });
+    if (complete && rendered.trim()) lines.push(rendered.trimEnd());
+  }
+  return lines.join('\n');
+}
+
+/** Text to embed for a chunk: header, blank line, content — or the content alone. */
+export function embeddingInput(header: string, content: string): string {
+  return header ? `${header}\n\n${content}` : content;
+}
+
+/** Short stable id of a template, stored per project in the collection metadata. */
+export function chunkHeaderFingerprint(template: string): string {
+  if (!template.trim()) return NO_CHUNK_HEADER;
+  return crypto.createHash('sha256').update(template).digest('hex').slice(0, 16);
+}
@@ -64,6 +64,10 @@ export class Chunker {
       case 'c':
       case 'cpp':
       case 'csharp':
+      case 'php':
+      case 'kotlin':
+      case 'swift':
+      case 'scala':
         chunks = this.chunkByBraces(content);
         break;
       default:
@@ -0,0 +1,106 @@
+import path from 'path';
+import os from 'os';
+import {
+  buildDocumentSparseVector,
+  buildQuerySparseVector,
+  type CorpusStats,
+  type SparseVector,
+} from './docs/bm25.js';
+import { DocsIdfStore } from './docs/idf-store.js';
+import type { SearchMode } from './types.js';
+
+/**
+ * BM25 sparse vectors for the CODE collection — the docs layer's hybrid pipeline
+ * (docs/bm25.ts weights + docs/idf-store.ts corpus stats) reused with a
+ * code-aware tokenizer and its own IDF file.
+ *
+ * Code collections created since hybrid search carry a named dense vector
+ * (`dense`) and a named sparse vector (`text`). Collections created before it
+ * hold a single unnamed dense vector ("legacy" layout); they keep working
+ * dense-only until migrated with {@link Indexer.migrateToHybrid}. Collections
+ * created since doc extraction also carry a named dense `doc` vector: the
+ * embedding of a chunk's doc comments (`doc_summary`), set only on chunks that
+ * have one.
+ */
+
+/** Named dense vector key on hybrid code collections. */
+export const CODE_DENSE_VECTOR = 'dense';
+/** Named sparse vector key (BM25) on hybrid code collections. */
+export const CODE_SPARSE_VECTOR = 'text';
+/** Named dense vector key for the embedded doc summary of a chunk. */
+export const CODE_DOC_VECTOR = 'doc';
+
+export const SEARCH_MODES = ['dense', 'sparse', 'hybrid'] as const satisfies readonly SearchMode[];
+export const DEFAULT_SEARCH_MODE: SearchMode = 'hybrid';
+
+/**
+ * Vector layout of a code collection. `named` = `dense` + `text` (hybrid-capable);
+ * `documented` = `named` plus the `doc` vector (intent-weighted search);
+ * `legacy` = one unnamed dense vector, dense search only.
+ */
+export type VectorLayout = 'documented' | 'named' | 'legacy';
+
+/** Read the layout from a `getCollection` response. */
+export function vectorLayoutOf(info: unknown): VectorLayout {
+  const vectors = (info as { config?: { params?: { vectors?: unknown } } } | null)?.config?.params
+    ?.vectors;
+  if (vectors === null || typeof vectors !== 'object' || !(CODE_DENSE_VECTOR in vectors)) {
+    return 'legacy';
+  }
+  return CODE_DOC_VECTOR in vectors ? 'documented' : 'named';
+}
+
+const PAPARATS_DIR = path.join(os.homedir(), '.paparats');
+
+/**
+ * Default location of the code IDF store. Shared by the server (query side) and
+ * the indexer (document side) through the `~/.paparats` volume — same as
+ * metadata.db — so both weight terms against the same corpus.
+ */
+export const DEFAULT_CODE_IDF_DB_PATH = path.join(PAPARATS_DIR, 'code-idf.db');
+
+/** Open the code-collection IDF store (same schema as the docs one, separate file). */
+export function createCodeIdfStore(dbPath?: string): DocsIdfStore {
+  return new DocsIdfStore(dbPath ?? DEFAULT_CODE_IDF_DB_PATH);
+}
+
+/** Corpus stats for a group with no IDF store attached: every term is equally rare. */
+export const EMPTY_CORPUS: CorpusStats = {
+  docCount: 0,
+  avgDocLength: 0,
+  docFreq: () => 0,
+};
+
+/**
+ * Tokenise source code for BM25. Each identifier is kept whole (lowercased, so
+ * `MAX_RETRIES` matches `max_retries`) AND split into its camelCase /
+ * snake_case parts, so `getUserToken` is found by both the exact identifier and
+ * "user token". No stop-words — in code, short words like `in` or `not` are
+ * often the point, and their corpus IDF keeps them cheap anyway.
+ */
+export function tokenizeCode(text: string): string[] {
+  const out: string[] = [];
+  for (const word of text.split(/[^A-Za-z0-9_]+/)) {
+    if (word.length < 2) continue;
+    out.push(word.toLowerCase());
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[\s_]+/);
+    if (parts.length < 2) continue;
+    for (const part of parts) {
+      if (part.length > 1) out.push(part.toLowerCase());
+    }
+  }
+  return out;
+}
+
+/** BM25 document vector for a code chunk (indexing side). */
+export function buildCodeDocumentSparseVector(text: string, stats: CorpusStats): SparseVector {
+  return buildDocumentSparseVector(text, stats, tokenizeCode);
+}
+
+/** IDF-weighted query vector for a code search (query side). */
+export function buildCodeQuerySparseVector(query: string, stats: CorpusStats): SparseVector {
+  return buildQuerySparseVector(query, stats, tokenizeCode);
+}
@@ -0,0 +1,108 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * CODEOWNERS files: who owns a path, by declaration. Same lookup as GitHub —
+ * the first of `.github/CODEOWNERS`, `CODEOWNERS`, `docs/CODEOWNERS` (plus
+ * GitLab's `.gitlab/CODEOWNERS`) — and the same matching: gitignore-style
+ * patterns, the last matching line wins, and a pattern with no owners marks
+ * the path as explicitly unowned. GitLab `[Section]` headers are skipped, so
+ * their lines merge into one rule list.
+ */
+
+export const CODEOWNERS_PATHS = [
+  '.github/CODEOWNERS',
+  'CODEOWNERS',
+  'docs/CODEOWNERS',
+  '.gitlab/CODEOWNERS',
+];
+
+export interface CodeownersRule {
+  pattern: string;
+  owners: string[];
+  regex: RegExp;
+}
+
+/** Translate one CODEOWNERS pattern into a regex over project-relative paths. */
+export function codeownersPatternToRegExp(pattern: string): RegExp {
+  let p = pattern;
+  // A slash at the start or in the middle anchors the pattern to the repo
+  // root; otherwise it matches at any depth, like `.gitignore`.
+  const anchored = p.startsWith('/') || p.replace(/\/+$/, '').includes('/');
+  p = p.replace(/^\/+/, '');
+  const dirOnly = p.endsWith('/');
+  p = p.replace(/\/+$/, '');
+
+  let body = '';
+  for (let i = 0; i < p.length; i++) {
+    const ch = p[i]!;
+    if (ch === '*' && p[i + 1] === '*') {
+      // `**/` matches any number of directories (none included); a trailing
+      // or inner `**` matches anything.
+      if (p[i + 2] === '/') {
+        body += '(?:.*/)?';
+        i += 2;
+      } else {
+        body += '.*';
+        i += 1;
+      }
+    } else if (ch === '*') {
+      body += '[^/]*';
+    } else if (ch === '?') {
+      body += '[^/]';
+    } else {
+      body += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  const prefix = anchored ? '^' : '^(?:.*/)?';
+  // `docs/*` owns the files directly in docs/ only; anything else also owns
+  // everything beneath a matching directory. `dir/` never matches a file.
+  const suffix = p.endsWith('/*') ? '$' : dirOnly ? '/.*$' : '(?:/.*)?$';
+  return new RegExp(prefix + body + suffix);
+}
+
+/** Parse CODEOWNERS text into rules, in file order. */
+export function parseCodeowners(text: string): CodeownersRule[] {
+  const rules: CodeownersRule[] = [];
+  for (const raw of text.split('\n')) {
+    const line = raw.replace(/(^|\s)#.*$/, '').trim();
+    if (!line || /^\^?\[[^\]]*\]/.test(line)) continue;
+    // `\ ` escapes a space inside a pattern.
+    const [pattern, ...owners] = line
+      .split(/(?<!\\)\s+/)
+      .map((part) => part.replace(/\\(.)/g, '$1'));
+    if (!pattern) continue;
+    rules.push({ pattern, owners, regex: codeownersPatternToRegExp(pattern) });
+  }
+  return rules;
+}
+
+/**
+ * Owners of a project-relative file: those of the last rule matching it.
+ * Null when no rule matches; an empty list when the matching rule names none.
+ */
+export function ownersOf(rules: CodeownersRule[], file: string): string[] | null {
+  const normalized = file.split(path.sep).join('/');
+  for (let i = rules.length - 1; i >= 0; i--) {
+    const rule = rules[i]!;
+    if (rule.regex.test(normalized)) return rule.owners;
+  }
+  return null;
+}
+
+/** The project's CODEOWNERS rules and where they came from, or null when it has none. */
+export async function loadCodeowners(
+  projectPath: string
+): Promise<{ file: string; rules: CodeownersRule[] } | null> {
+  for (const file of CODEOWNERS_PATHS) {
+    let text: string;
+    try {
+      text = await fs.readFile(path.join(projectPath, file), 'utf8');
+    } catch {
+      continue;
+    }
+    return { file, rules: parseCodeowners(text) };
+  }
+  return null;
+}
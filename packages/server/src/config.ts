@@ -7,6 +7,11 @@ import {
   LANGUAGE_EXCLUDE_DEFAULTS,
   DEFAULT_GROUP,
 } from '@paparats/shared';
+import {
+  CHUNK_HEADER_FIELDS,
+  DEFAULT_CHUNK_HEADER,
+  unknownChunkHeaderFields,
+} from './chunk-header.js';
 import { validateTicketPatterns } from './ticket-extractor.js';
 import type {
   PaparatsConfig,
@@ -81,11 +86,74 @@ const LANGUAGE_PROFILES: Record<string, LanguageProfile> = {
     exclude: getExcludeForLanguage('csharp'),
     extensions: ['.cs'],
   },
+  php: {
+    patterns: ['**/*.php'],
+    exclude: getExcludeForLanguage('php'),
+    extensions: ['.php'],
+  },
+  kotlin: {
+    patterns: ['**/*.kt', '**/*.kts'],
+    exclude: getExcludeForLanguage('kotlin'),
+    extensions: ['.kt', '.kts'],
+  },
+  swift: {
+    patterns: ['**/*.swift'],
+    exclude: getExcludeForLanguage('swift'),
+    extensions: ['.swift'],
+  },
+  scala: {
+    patterns: ['**/*.scala', '**/*.sc'],
+    exclude: getExcludeForLanguage('scala'),
+    extensions: ['.scala', '.sc'],
+  },
   terraform: {
     patterns: ['**/*.tf', '**/*.hcl'],
     exclude: getExcludeForLanguage('terraform'),
     extensions: ['.tf', '.hcl'],
   },
+  protobuf: {
+    patterns: ['**/*.proto'],
+    exclude: getExcludeForLanguage('protobuf'),
+    extensions: ['.proto'],
+  },
+  graphql: {
+    patterns: ['**/*.graphql', '**/*.graphqls', '**/*.gql'],
+    exclude: getExcludeForLanguage('graphql'),
+    extensions: ['.graphql', '.graphqls', '.gql'],
+  },
+  // Only files named like a spec; other YAML/JSON is config, not contract.
+  openapi: {
+    patterns: ['**/{openapi,swagger}*.{yaml,yml,json}', '**/*.{openapi,swagger}.{yaml,yml,json}'],
+    exclude: getExcludeForLanguage('openapi'),
+    extensions: ['.yaml', '.yml', '.json'],
+  },
+  sql: {
+    patterns: ['**/*.sql'],
+    exclude: getExcludeForLanguage('sql'),
+    extensions: ['.sql'],
+  },
+  // Manifests live in plain YAML; each file is sniffed for `apiVersion` + `kind`.
+  kubernetes: {
+    patterns: ['**/{k8s,kubernetes,manifests,helm,charts}/**/*.{yaml,yml}', '**/*.k8s.{yaml,yml}'],
+    exclude: getExcludeForLanguage('kubernetes'),
+    extensions: ['.yaml', '.yml'],
+  },
+  compose: {
+    patterns: ['**/{docker-compose,compose}*.{yaml,yml}'],
+    exclude: getExcludeForLanguage('compose'),
+    extensions: ['.yaml', '.yml'],
+  },
+  // Chunked per cell and indexed in the kernel's language (see notebook-chunker.ts).
+  notebook: {
+    patterns: ['**/*.ipynb'],
+    exclude: getExcludeForLanguage('notebook'),
+    extensions: ['.ipynb'],
+  },
+  mdx: {
+    patterns: ['**/*.mdx'],
+    exclude: getExcludeForLanguage('mdx'),
+    extensions: ['.mdx'],
+  },
   generic: {
     patterns: ['**/*'],
     exclude: getExcludeForLanguage('generic'),
@@ -112,6 +180,7 @@ const DEFAULT_INDEXING: ResolvedIndexingConfig = {
   overlap: 128,
   concurrency: 2,
   batchSize: 50,
+  chunkHeader: DEFAULT_CHUNK_HEADER,
 };
 
 const DEFAULT_WATCHER: Required<WatcherConfig> = {
@@ -132,6 +201,7 @@ const DEFAULT_GIT_METADATA: Required<GitMetadataConfig> = {
   enabled: true,
   maxCommitsPerFile: 50,
   ticketPatterns: [],
+  ownershipMonths: 12,
 };
 
 function validateGitConfig(git: GitMetadataConfig | undefined): void {
@@ -150,6 +220,17 @@ function validateGitConfig(git: GitMetadataConfig | undefined): void {
   if (git.ticketPatterns !== undefined) {
     validateTicketPatterns(git.ticketPatterns);
   }
+  if (git.ownershipMonths !== undefined) {
+    if (
+      !Number.isInteger(git.ownershipMonths) ||
+      git.ownershipMonths < 1 ||
+      git.ownershipMonths > 120
+    ) {
+      throw new Error(
+        `metadata.git.ownershipMonths must be between 1 and 120, got ${git.ownershipMonths}`
+      );
+    }
+  }
 }
 
 function resolveMetadata(
@@ -166,6 +247,7 @@ function resolveMetadata(
       enabled: raw?.git?.enabled ?? DEFAULT_GIT_METADATA.enabled,
       maxCommitsPerFile: raw?.git?.maxCommitsPerFile ?? DEFAULT_GIT_METADATA.maxCommitsPerFile,
       ticketPatterns: raw?.git?.ticketPatterns ?? DEFAULT_GIT_METADATA.ticketPatterns,
+      ownershipMonths: raw?.git?.ownershipMonths ?? DEFAULT_GIT_METADATA.ownershipMonths,
     },
   };
 }
@@ -214,6 +296,18 @@ function validateIndexingConfig(config: Partial<ResolvedIndexingConfig>): void {
       throw new Error(`batchSize must be between 1 and 1000, got ${config.batchSize}`);
     }
   }
+  if (config.chunkHeader !== undefined) {
+    if (typeof config.chunkHeader !== 'string' || config.chunkHeader.length > 1000) {
+      throw new Error('chunkHeader must be a string of at most 1000 characters');
+    }
+    const unknown = unknownChunkHeaderFields(config.chunkHeader);
+    if (unknown.length > 0) {
+      throw new Error(
+        `chunkHeader has unknown placeholders: ${unknown.map((f) => `{${f}}`).join(', ')}. ` +
+          `Valid: ${CHUNK_HEADER_FIELDS.map((f) => `{${f}}`).join(', ')}`
+      );
+    }
+  }
 }
 
 // ── Read & resolve ─────────────────────────────────────────────────────────
@@ -319,6 +413,7 @@ export function resolveProject(projectDir: string, raw: PaparatsConfig): Project
     overlap: userIndexing.overlap ?? DEFAULT_INDEXING.overlap,
     concurrency: userIndexing.concurrency ?? DEFAULT_INDEXING.concurrency,
     batchSize: userIndexing.batchSize ?? DEFAULT_INDEXING.batchSize,
+    chunkHeader: userIndexing.chunkHeader ?? DEFAULT_INDEXING.chunkHeader,
   };
 
   if (raw.watcher?.debounce !== undefined) {
@@ -401,12 +496,29 @@ const DETECT_PRIORITY: Array<[string, string]> = [
   ['requirements.txt', 'python'],
   ['setup.py', 'python'],
   ['pom.xml', 'java'],
+  ['build.gradle.kts', 'kotlin'],
   ['build.gradle', 'java'],
+  ['build.sbt', 'scala'],
+  ['Package.swift', 'swift'],
+  ['composer.json', 'php'],
   ['Gemfile', 'ruby'],
   ['Rakefile', 'ruby'],
   ['CMakeLists.txt', 'cpp'],
   ['Makefile', 'c'],
   ['.terraform-version', 'terraform'],
+  // Schemas and migrations kept as plain SQL
+  ['db/structure.sql', 'sql'],
+  ['schema.sql', 'sql'],
+  ['prisma/migrations', 'sql'],
+  ['flyway.conf', 'sql'],
+  // Deployment manifests and Helm charts
+  ['Chart.yaml', 'kubernetes'],
+  ['kustomization.yaml', 'kubernetes'],
+  ['k8s', 'kubernetes'],
+  ['docker-compose.yml', 'compose'],
+  ['docker-compose.yaml', 'compose'],
+  ['compose.yaml', 'compose'],
+  ['compose.yml', 'compose'],
 ];
 
 /**
@@ -491,6 +603,7 @@ export function buildProjectConfigFromContent(
     overlap: cfg.overlap ?? DEFAULT_INDEXING.overlap,
     concurrency: cfg.concurrency ?? DEFAULT_INDEXING.concurrency,
     batchSize: cfg.batchSize ?? DEFAULT_INDEXING.batchSize,
+    chunkHeader: DEFAULT_INDEXING.chunkHeader,
   };
   if (apiConfig?.chunkSize !== undefined || apiConfig?.overlap !== undefined) {
     validateIndexingConfig(apiConfig);
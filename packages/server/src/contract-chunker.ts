@@ -0,0 +1,1137 @@
+import * as yaml from 'js-yaml';
+import { fixedSplit } from './ast-chunker.js';
+import type { DefinedSymbol, SymbolExtractionResult } from './ast-symbol-extractor.js';
+import { SQL_IDENT, SQL_NAME, normalizeTableName, sqlTableUses } from './table-refs.js';
+import type { ChunkKind, ChunkResult, HeritageRef } from './types.js';
+
+/**
+ * Schema-aware chunking for API contracts — Protobuf, GraphQL (SDL and
+ * operation documents), OpenAPI / Swagger in YAML or JSON — SQL schemas and
+ * migrations, and infrastructure manifests (Kubernetes / Helm templates,
+ * docker-compose).
+ *
+ * None of these has a bundled tree-sitter grammar, so each gets a small
+ * scanner that finds declaration boundaries and emits one chunk per
+ * declaration — message / enum / service / rpc, type / root field /
+ * operation / fragment, path+operation / component, CREATE / ALTER statement,
+ * Kubernetes object, compose service / volume / network — with
+ * `defines_symbols` and `uses_symbols` filled in. The symbol graph links by
+ * name, so generated clients and handlers (`GetUserRequest`, `getUser`)
+ * resolve back to the contract that declares them. SQL chunks also carry
+ * `tables`, which the graph links to code that queries or maps those tables.
+ * Manifests name what they select, mount and depend on (`ConfigMap/app-env`,
+ * `service.db`), so a change to one object reaches everything wired to it.
+ *
+ * Lines outside any declaration (syntax, package, imports, `info:`) become
+ * plain chunks with no definitions. Leading comments and descriptions stay
+ * with the declaration they document.
+ */
+
+export const CONTRACT_LANGUAGES = [
+  'protobuf',
+  'graphql',
+  'openapi',
+  'sql',
+  'kubernetes',
+  'compose',
+] as const;
+export type ContractLanguage = (typeof CONTRACT_LANGUAGES)[number];
+
+export function isContractLanguage(language: string): language is ContractLanguage {
+  return (CONTRACT_LANGUAGES as readonly string[]).includes(language);
+}
+
+export interface ContractChunks {
+  chunks: ChunkResult[];
+  /** Parallel to `chunks`. */
+  symbolResults: SymbolExtractionResult[];
+}
+
+/** A declaration's line range (0-indexed, inclusive) and what it defines. */
+interface Unit {
+  startLine: number;
+  endLine: number;
+  defines: DefinedSymbol[];
+  heritage?: HeritageRef[];
+  /** Tables the declaration creates (SQL only). */
+  tables?: string[];
+  /** Names read from the parsed document rather than the text (Kubernetes, compose). */
+  uses?: string[];
+}
+
+interface Scan {
+  units: Unit[];
+  /** True for lines holding only a comment or description. */
+  isComment: (line: number) => boolean;
+  usesOf: (text: string) => string[];
+  /** Tables a piece reads or alters; set for SQL only. */
+  tablesOf?: (text: string) => string[];
+}
+
+/**
+ * Chunk a contract file. Returns null when the scanner finds no declarations
+ * (empty file, minified JSON, a YAML file that only looked like OpenAPI) so
+ * the caller can fall back to the regular chunker.
+ */
+export function chunkContract(
+  content: string,
+  language: ContractLanguage,
+  maxChunkSize: number
+): ContractChunks | null {
+  if (!content.trim()) return null;
+  const lines = content.split('\n');
+  let scan: Scan;
+  switch (language) {
+    case 'protobuf':
+      scan = scanProtobuf(content, lines);
+      break;
+    case 'graphql':
+      scan = scanGraphql(content, lines);
+      break;
+    case 'openapi':
+      scan = scanOpenApi(lines);
+      break;
+    case 'sql':
+      scan = scanSql(content, lines);
+      break;
+    case 'kubernetes':
+      scan = scanKubernetes(content, lines);
+      break;
+    case 'compose':
+      scan = scanCompose(content, lines);
+      break;
+  }
+  if (scan.units.length === 0) return null;
+  return assemble(lines, scan, maxChunkSize);
+}
+
+// ── Assembly ────────────────────────────────────────────────────────────────
+
+/** Section headers, closing brackets and YAML document markers: `paths:`, `"schemas": {`, `},`, `---`. */
+const STRUCTURAL_LINE = /^\s*(?:[}\]],?|(?:"[^"]*"|'[^']*'|[\w$-]+)\s*:\s*[{[]?|---|\.\.\.)\s*$/;
+
+/**
+ * Turn units into chunks. Comment lines directly above a unit join it;
+ * uncovered runs become definition-less chunks, except runs of bare section
+ * headers, which join the unit below (or are dropped at the end of the file).
+ * Oversized units are split without overlap; only the first piece keeps the
+ * definitions and the unit's own `uses`.
+ */
+function assemble(lines: string[], scan: Scan, maxChunkSize: number): ContractChunks {
+  const units = [...scan.units].sort((a, b) => a.startLine - b.startLine);
+  let prevEnd = -1;
+  for (const u of units) {
+    while (u.startLine - 1 > prevEnd && scan.isComment(u.startLine - 1)) u.startLine--;
+    prevEnd = u.endLine;
+  }
+
+  const segments: Unit[] = [];
+  const gap = (start: number, end: number, next?: Unit): void => {
+    while (start <= end && !lines[start]!.trim()) start++;
+    while (end >= start && !lines[end]!.trim()) end--;
+    if (start > end) return;
+    if (lines.slice(start, end + 1).every((l) => !l.trim() || STRUCTURAL_LINE.test(l))) {
+      if (next) next.startLine = start;
+      return;
+    }
+    segments.push({ startLine: start, endLine: end, defines: [] });
+  };
+  let cursor = 0;
+  for (const u of units) {
+    if (u.startLine > cursor) gap(cursor, u.startLine - 1, u);
+    segments.push(u);
+    cursor = u.endLine + 1;
+  }
+  gap(cursor, lines.length - 1);
+
+  const chunks: ChunkResult[] = [];
+  const symbolResults: SymbolExtractionResult[] = [];
+  for (const seg of segments) {
+    const own = new Set(seg.defines.map((d) => d.name));
+    const ownTables = new Set(seg.tables);
+    fixedSplit(lines, seg.startLine, seg.endLine, maxChunkSize).forEach((piece, i) => {
+      chunks.push(piece);
+      symbolResults.push({
+        defines_symbols: i === 0 ? [...own] : [],
+        defined_symbols: i === 0 ? seg.defines : [],
+        uses_symbols: [
+          ...new Set([...(i === 0 ? (seg.uses ?? []) : []), ...scan.usesOf(piece.content)]),
+        ].filter((n) => !own.has(n)),
+        imports: [],
+        heritage: i === 0 ? (seg.heritage ?? []) : [],
+        ...(scan.tablesOf && {
+          tables: {
+            defines: i === 0 ? [...ownTables] : [],
+            uses: scan.tablesOf(piece.content).filter((n) => !ownTables.has(n)),
+          },
+        }),
+      });
+    });
+  }
+  return { chunks, symbolResults };
+}
+
+/** Add `unit`, folding it into the previous one when they share a line (one-line declarations). */
+function pushUnit(units: Unit[], unit: Unit): void {
+  const prev = units[units.length - 1];
+  if (prev && unit.startLine <= prev.endLine) {
+    prev.defines.push(...unit.defines);
+    if (unit.tables) prev.tables = [...(prev.tables ?? []), ...unit.tables];
+    if (unit.uses) prev.uses = [...(prev.uses ?? []), ...unit.uses];
+    prev.endLine = Math.max(prev.endLine, unit.endLine);
+    return;
+  }
+  units.push(unit);
+}
+
+/** Pull `end` up past trailing blank and comment lines (they belong to what follows). */
+function trimTrailing(
+  lines: string[],
+  start: number,
+  end: number,
+  isComment: (line: number) => boolean
+): number {
+  while (end > start && (!lines[end]!.trim() || isComment(end))) end--;
+  return end;
+}
+
+// ── Brace-language helpers (Protobuf, GraphQL, SQL) ─────────────────────────
+
+const blank = (s: string): string => s.replace(/[^\n]/g, ' ');
+
+/**
+ * Replace comments and string literals with spaces, keeping offsets and line
+ * breaks, so braces and keywords inside them are ignored. In SQL (`--`) only
+ * single quotes delimit strings — double quotes are identifiers — and
+ * `$$` / `$tag$` bodies are masked too unless `dollarQuotes` is false.
+ */
+function maskSource(
+  src: string,
+  lineComment: '//' | '#' | '--',
+  dollarQuotes = lineComment === '--'
+): string {
+  const sql = lineComment === '--';
+  let out = '';
+  let i = 0;
+  while (i < src.length) {
+    let end = -1;
+    const dollar =
+      dollarQuotes && src[i] === '$' ? /^\$(?:[A-Za-z_]\w*)?\$/.exec(src.slice(i)) : null;
+    if (src.startsWith(lineComment, i)) {
+      const nl = src.indexOf('\n', i);
+      end = nl === -1 ? src.length : nl;
+    } else if (lineComment !== '#' && src.startsWith('/*', i)) {
+      const close = src.indexOf('*/', i + 2);
+      end = close === -1 ? src.length : close + 2;
+    } else if (lineComment === '#' && src.startsWith('"""', i)) {
+      const close = src.indexOf('"""', i + 3);
+      end = close === -1 ? src.length : close + 3;
+    } else if (dollar && !/[\w$]/.test(src[i - 1] ?? '')) {
+      const close = src.indexOf(dollar[0], i + dollar[0].length);
+      end = close === -1 ? src.length : close + dollar[0].length;
+    } else if (src[i] === "'" || (src[i] === '"' && !sql)) {
+      end = i + 1;
+      while (end < src.length && src[end] !== src[i] && src[end] !== '\n') {
+        end += src[end] === '\\' && !sql ? 2 : 1;
+      }
+      end = Math.min(end + 1, src.length);
+    }
+    if (end === -1) {
+      out += src[i];
+      i++;
+    } else {
+      out += blank(src.slice(i, end));
+      i = end;
+    }
+  }
+  return out;
+}
+
+/** Offset → 0-indexed line number. */
+function lineIndex(src: string): (offset: number) => number {
+  const starts = [0];
+  for (let i = 0; i < src.length; i++) {
+    if (src.charCodeAt(i) === 10) starts.push(i + 1);
+  }
+  return (offset) => {
+    let lo = 0;
+    let hi = starts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (starts[mid]! <= offset) lo = mid;
+      else hi = mid - 1;
+    }
+    return lo;
+  };
+}
+
+/** Offset of the bracket closing the one at `open` (end of input when unbalanced). */
+function matchClose(masked: string, open: number, brackets = '{}'): number {
+  let depth = 0;
+  for (let i = open; i < masked.length; i++) {
+    if (masked[i] === brackets[0]) depth++;
+    else if (masked[i] === brackets[1] && --depth === 0) return i;
+  }
+  return masked.length - 1;
+}
+
+/**
+ * Matches of the global regex `re` in `[from, to)` that sit at nesting depth
+ * 0 relative to `from`. `brackets` lists the open/close pairs that count.
+ */
+function atDepthZero(
+  masked: string,
+  re: RegExp,
+  from: number,
+  to: number,
+  brackets = '{}'
+): RegExpExecArray[] {
+  const out: RegExpExecArray[] = [];
+  let depth = 0;
+  let pos = from;
+  re.lastIndex = from;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(masked)) !== null && m.index < to) {
+    for (; pos < m.index; pos++) {
+      const at = brackets.indexOf(masked[pos]!);
+      if (at !== -1) depth += at % 2 === 0 ? 1 : -1;
+    }
+    if (depth === 0) out.push(m);
+    if (m[0].length === 0) re.lastIndex++;
+  }
+  return out;
+}
+
+/** Last segment of a dotted name (`google.protobuf.Timestamp` → `Timestamp`). */
+const lastSegment = (name: string): string => name.slice(name.lastIndexOf('.') + 1);
+
+// ── Protobuf ────────────────────────────────────────────────────────────────
+
+const PROTO_DECL = /\b(message|enum|service|extend)\s+([A-Za-z_.][\w.]*)\s*\{/g;
+const PROTO_NESTED = /\b(message|enum)\s+([A-Za-z_]\w*)\s*\{/g;
+const PROTO_RPC = /\brpc\s+([A-Za-z_]\w*)\s*\(/g;
+
+const PROTO_FIELD_TYPE =
+  /^\s*(?:repeated\s+|optional\s+|required\s+)?([A-Za-z_.][\w.]*)\s+[A-Za-z_]\w*\s*=\s*\d/gm;
+const PROTO_MAP_VALUE = /\bmap\s*<\s*[\w.]+\s*,\s*([A-Za-z_.][\w.]*)\s*>/g;
+const PROTO_RPC_TYPE = /(?:\brpc\s+\w+\s*|\breturns\s*)\(\s*(?:stream\s+)?([A-Za-z_.][\w.]*)\s*\)/g;
+const PROTO_EXTEND = /\bextend\s+([A-Za-z_.][\w.]*)/g;
+
+const PROTO_BUILTINS = new Set([
+  'double',
+  'float',
+  'int32',
+  'int64',
+  'uint32',
+  'uint64',
+  'sint32',
+  'sint64',
+  'fixed32',
+  'fixed64',
+  'sfixed32',
+  'sfixed64',
+  'bool',
+  'string',
+  'bytes',
+  'option',
+  'group',
+]);
+
+function protobufUses(text: string): string[] {
+  const masked = maskSource(text, '//');
+  const uses = new Set<string>();
+  for (const re of [PROTO_FIELD_TYPE, PROTO_MAP_VALUE, PROTO_RPC_TYPE, PROTO_EXTEND]) {
+    for (const m of masked.matchAll(re)) {
+      const name = lastSegment(m[1]!);
+      if (name && !PROTO_BUILTINS.has(name)) uses.add(name);
+    }
+  }
+  return [...uses];
+}
+
+function scanProtobuf(content: string, lines: string[]): Scan {
+  const masked = maskSource(content, '//');
+  const maskedLines = masked.split('\n');
+  const lineAt = lineIndex(content);
+  const isComment = (line: number): boolean => !maskedLines[line]!.trim() && !!lines[line]!.trim();
+  const units: Unit[] = [];
+
+  for (const m of atDepthZero(masked, PROTO_DECL, 0, masked.length)) {
+    const keyword = m[1]!;
+    const name = lastSegment(m[2]!);
+    const open = m.index + m[0].length - 1;
+    const close = matchClose(masked, open);
+    const startLine = lineAt(m.index);
+    const endLine = lineAt(close);
+
+    if (keyword === 'service') {
+      // Header (comments, options) defines the service; each rpc is its own chunk.
+      const rpcs = atDepthZero(masked, PROTO_RPC, open + 1, close);
+      const firstRpc = rpcs[0] ? lineAt(rpcs[0].index) : endLine + 1;
+      const headerEnd = trimTrailing(lines, startLine, firstRpc - 1, isComment);
+      pushUnit(units, {
+        startLine,
+        endLine: Math.max(startLine, headerEnd),
+        defines: [{ name, kind: 'interface' }],
+      });
+      rpcs.forEach((r, i) => {
+        const after = r.index + r[0].length;
+        const stop = masked.slice(after, close).search(/[;{]/);
+        let end = stop === -1 ? close : after + stop;
+        if (masked[end] === '{') end = matchClose(masked, end);
+        pushUnit(units, {
+          startLine: lineAt(r.index),
+          endLine: i === rpcs.length - 1 ? endLine : lineAt(end),
+          defines: [{ name: r[1]!, kind: 'method' }],
+        });
+      });
+      continue;
+    }
+
+    const defines: DefinedSymbol[] = [];
+    if (keyword !== 'extend') {
+      defines.push({ name, kind: keyword === 'enum' ? 'enum' : 'type' });
+    }
+    if (keyword === 'message') {
+      for (const n of masked.slice(open + 1, close).matchAll(PROTO_NESTED)) {
+        defines.push({ name: n[2]!, kind: n[1] === 'enum' ? 'enum' : 'type' });
+      }
+    }
+    pushUnit(units, { startLine, endLine, defines });
+  }
+
+  return { units, isComment, usesOf: protobufUses };
+}
+
+// ── GraphQL ─────────────────────────────────────────────────────────────────
+
+const GQL_DEF =
+  /^[ \t]*(extend[ \t]+)?(type|interface|input|enum|union|scalar|query|mutation|subscription|fragment)\b[ \t]*([_A-Za-z]\w*)?/gm;
+const GQL_FIELD = /^[ \t]*([_A-Za-z]\w*)[ \t]*[(:]/gm;
+const GQL_TOKEN = /\.\.\.|[_A-Za-z]\w*|[{}()[\]:=|&@$]/g;
+const GQL_ROOT_TYPES = new Set(['Query', 'Mutation', 'Subscription']);
+const GQL_BUILTINS = new Set([
+  'Int',
+  'Float',
+  'String',
+  'Boolean',
+  'ID',
+  'on',
+  'true',
+  'false',
+  'null',
+]);
+
+const GQL_KIND: Record<string, ChunkKind> = {
+  type: 'type',
+  interface: 'interface',
+  input: 'type',
+  enum: 'enum',
+  union: 'type',
+  scalar: 'type',
+  query: 'function',
+  mutation: 'function',
+  subscription: 'function',
+  fragment: 'type',
+};
+
+/**
+ * Named types an SDL chunk refers to (field, argument and union member types,
+ * `implements`), or — for an operation — its top-level fields, variable types,
+ * fragment spreads and type conditions. Nested selections are left out: their
+ * field names are not declared anywhere the graph could link to.
+ */
+function graphqlUses(text: string): string[] {
+  const tokens = maskSource(text, '#').match(GQL_TOKEN) ?? [];
+  const first = tokens[0];
+  const operation =
+    first === '{' || first === 'query' || first === 'mutation' || first === 'subscription';
+  const uses = new Set<string>();
+  let braces = 0;
+  let parens = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i]!;
+    if (t === '{') braces++;
+    else if (t === '}') braces--;
+    else if (t === '(') parens++;
+    else if (t === ')') parens--;
+    if (!/^[_A-Za-z]/.test(t) || GQL_BUILTINS.has(t)) continue;
+    const prev = tokens[i - 1];
+    if (prev === '$' || prev === '@') continue;
+
+    let used: boolean;
+    if (prev === '...' || prev === 'on') {
+      used = true;
+    } else if (operation) {
+      used =
+        (braces === 0 && parens > 0 && (prev === ':' || prev === '[')) ||
+        (braces === 1 && parens === 0 && tokens[i + 1] !== ':');
+    } else {
+      used =
+        prev === ':' ||
+        prev === '[' ||
+        prev === '|' ||
+        prev === '&' ||
+        prev === 'implements' ||
+        (prev === '=' && braces === 0 && parens === 0);
+    }
+    if (used) uses.add(t);
+  }
+  return [...uses];
+}
+
+function scanGraphql(content: string, lines: string[]): Scan {
+  const masked = maskSource(content, '#');
+  const maskedLines = masked.split('\n');
+  const lineAt = lineIndex(content);
+  const isComment = (line: number): boolean => !maskedLines[line]!.trim() && !!lines[line]!.trim();
+  const units: Unit[] = [];
+
+  const defs = atDepthZero(masked, GQL_DEF, 0, masked.length, '{}()');
+  defs.forEach((m, k) => {
+    const extend = !!m[1];
+    const keyword = m[2]!;
+    const name = m[3];
+    const next = defs[k + 1]?.index ?? masked.length;
+    const startLine = lineAt(m.index);
+
+    // The body is the first `{` outside argument / variable lists, if any.
+    let open = -1;
+    let parens = 0;
+    for (let i = m.index + m[0].length; i < next && open === -1; i++) {
+      if (masked[i] === '(') parens++;
+      else if (masked[i] === ')') parens--;
+      else if (masked[i] === '{' && parens === 0) open = i;
+    }
+    const close = open === -1 ? -1 : matchClose(masked, open);
+    const endLine =
+      close === -1
+        ? trimTrailing(lines, startLine, lineAt(Math.max(next - 1, m.index)), isComment)
+        : lineAt(close);
+
+    const defines: DefinedSymbol[] = name && !extend ? [{ name, kind: GQL_KIND[keyword]! }] : [];
+    const heritage: HeritageRef[] = [];
+    const implemented = masked
+      .slice(m.index, open === -1 ? next : open)
+      .match(/\bimplements\s+(.*)/s);
+    if (name && implemented) {
+      for (const supertype of implemented[1]!.split(/[\s&,]+/).filter(Boolean)) {
+        heritage.push({
+          type: name,
+          supertype,
+          relation: 'implements',
+          declared: true,
+          methods: [],
+        });
+      }
+    }
+
+    const fields =
+      keyword === 'type' && name && GQL_ROOT_TYPES.has(name) && close !== -1
+        ? atDepthZero(masked, GQL_FIELD, open + 1, close, '{}()')
+        : [];
+    if (fields.length === 0) {
+      pushUnit(units, { startLine, endLine, defines, heritage });
+      return;
+    }
+
+    // Root operation types: one chunk per field, after a header chunk for the type.
+    const firstField = lineAt(fields[0]!.index);
+    pushUnit(units, {
+      startLine,
+      endLine: Math.max(startLine, trimTrailing(lines, startLine, firstField - 1, isComment)),
+      defines,
+      heritage,
+    });
+    fields.forEach((f, i) => {
+      const following = fields[i + 1];
+      const fieldStart = lineAt(f.index);
+      pushUnit(units, {
+        startLine: fieldStart,
+        endLine: following
+          ? trimTrailing(lines, fieldStart, lineAt(following.index) - 1, isComment)
+          : endLine,
+        defines: [{ name: f[1]!, kind: 'method' }],
+      });
+    });
+  });
+
+  return { units, isComment, usesOf: graphqlUses };
+}
+
+// ── OpenAPI ─────────────────────────────────────────────────────────────────
+
+/** A mapping key at the start of a YAML line or a pretty-printed JSON line. */
+const MAP_KEY =
+  /^(\s*)(?:"((?:[^"\\]|\\.)*)"|'((?:[^']|'')*)'|([^\s#'"{}[\],-][^#]*?))\s*:(?:\s|$)/;
+const OPERATION_ID = /^\s*["']?operationId["']?\s*:\s*["']?([^"'\s,#]+)/;
+const OPENAPI_REF = /["']?\$ref["']?\s*:\s*["']?([^"'\s,}]+)/g;
+
+const HTTP_METHODS = new Set(['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace']);
+
+/** Swagger 2 keeps reusable objects at the root; OpenAPI 3 nests them under `components`. */
+const SWAGGER_SECTIONS = new Set(['definitions', 'parameters', 'responses']);
+
+function keyAt(lines: string[], i: number): { indent: number; key: string } | null {
+  const m = MAP_KEY.exec(lines[i]!);
+  if (!m || lines[i]!.trimStart().startsWith('#')) return null;
+  return { indent: m[1]!.length, key: (m[2] ?? m[3] ?? m[4])! };
+}
+
+const indentOf = (line: string): number => line.length - line.trimStart().length;
+
+/** Last line of the value under the key on line `i`, including a JSON closing bracket. */
+function blockEnd(lines: string[], i: number): number {
+  const indent = indentOf(lines[i]!);
+  let end = i;
+  for (let j = i + 1; j < lines.length; j++) {
+    const t = lines[j]!.trim();
+    if (!t || t.startsWith('#')) continue;
+    const ind = indentOf(lines[j]!);
+    if (ind < indent) break;
+    if (ind === indent) {
+      // YAML may indent a sequence at its key's level.
+      if (t === '-' || t.startsWith('- ')) {
+        end = j;
+        continue;
+      }
+      if (/^[}\]]/.test(t)) end = j;
+      break;
+    }
+    end = j;
+  }
+  return end;
+}
+
+/** Lines of the keys directly under the key on line `i`. */
+function childKeys(lines: string[], i: number): number[] {
+  const parent = indentOf(lines[i]!);
+  const end = blockEnd(lines, i);
+  const out: number[] = [];
+  let indent = -1;
+  for (let j = i + 1; j <= end; j++) {
+    const k = keyAt(lines, j);
+    if (!k || k.indent <= parent) continue;
+    if (indent === -1) indent = k.indent;
+    if (k.indent === indent) out.push(j);
+  }
+  return out;
+}
+
+function openApiUses(text: string): string[] {
+  const uses = new Set<string>();
+  for (const m of text.matchAll(OPENAPI_REF)) {
+    const name = m[1]!.slice(m[1]!.lastIndexOf('/') + 1).replace(/\.(?:ya?ml|json)$/i, '');
+    if (name) uses.add(name);
+  }
+  return [...uses];
+}
+
+function scanOpenApi(lines: string[]): Scan {
+  const isComment = (line: number): boolean => lines[line]!.trimStart().startsWith('#');
+  const units: Unit[] = [];
+  const scan: Scan = { units, isComment, usesOf: openApiUses };
+
+  let rootIndent = -1;
+  for (let i = 0; i < lines.length && rootIndent === -1; i++) {
+    const k = keyAt(lines, i);
+    if (k && (k.key === 'openapi' || k.key === 'swagger')) rootIndent = k.indent;
+  }
+  if (rootIndent === -1) return scan;
+
+  const roots: Array<{ line: number; key: string }> = [];
+  for (let i = 0; i < lines.length; i++) {
+    const k = keyAt(lines, i);
+    if (k?.indent === rootIndent) roots.push({ line: i, key: k.key });
+  }
+
+  const entries = (section: number, kind: ChunkKind): void => {
+    for (const line of childKeys(lines, section)) {
+      pushUnit(units, {
+        startLine: line,
+        endLine: blockEnd(lines, line),
+        defines: [{ name: keyAt(lines, line)!.key, kind }],
+      });
+    }
+  };
+
+  for (const root of roots) {
+    if (root.key === 'paths') {
+      // One chunk per path + method; the first also carries the path key and path-level fields.
+      for (const path of childKeys(lines, root.line)) {
+        const ops = childKeys(lines, path).filter((l) =>
+          HTTP_METHODS.has(keyAt(lines, l)!.key.toLowerCase())
+        );
+        ops.forEach((op, i) => {
+          const end = blockEnd(lines, op);
+          let operationId: string | undefined;
+          for (let j = op; j <= end && !operationId; j++) {
+            operationId = OPERATION_ID.exec(lines[j]!)?.[1];
+          }
+          pushUnit(units, {
+            startLine: i === 0 ? path : op,
+            endLine: end,
+            defines: operationId ? [{ name: operationId, kind: 'function' }] : [],
+          });
+        });
+      }
+    } else if (root.key === 'components') {
+      for (const section of childKeys(lines, root.line)) {
+        entries(section, keyAt(lines, section)!.key === 'schemas' ? 'type' : 'constant');
+      }
+    } else if (SWAGGER_SECTIONS.has(root.key)) {
+      entries(root.line, root.key === 'definitions' ? 'type' : 'constant');
+    }
+  }
+  return scan;
+}
+
+// ── SQL ─────────────────────────────────────────────────────────────────────
+
+/** Statement separators: `;` and T-SQL `GO` batch lines. */
+const SQL_SEPARATOR = /;|^[ \t]*go[ \t]*$/gim;
+const SQL_CREATE = new RegExp(
+  `^create\\s+(?:or\\s+replace\\s+)?(?:(?:global|local|temporary|temp|unlogged|materialized|recursive|unique|constraint|definer\\s*=\\s*\\S+)\\s+)*` +
+    `(table|view|function|procedure|trigger|index|type|sequence)\\s+(?:concurrently\\s+)?(?:if\\s+not\\s+exists\\s+)?(${SQL_NAME})?`,
+  'i'
+);
+const SQL_ALTER_TABLE = new RegExp(
+  `^alter\\s+table\\s+(?:if\\s+exists\\s+)?(?:only\\s+)?(${SQL_NAME})`,
+  'i'
+);
+const SQL_ADD_COLUMN = new RegExp(
+  `\\badd\\s+(?:column\\s+)?(?:if\\s+not\\s+exists\\s+)?(${SQL_IDENT})`,
+  'gi'
+);
+/** `CREATE INDEX … ON t`, `CREATE TRIGGER … ON t`. */
+const SQL_ON_TABLE = new RegExp(
+  `\\bcreate\\s+(?:or\\s+replace\\s+)?(?:unique\\s+|constraint\\s+)?(?:index|trigger)\\b[\\s\\S]*?\\bon\\s+(?:only\\s+)?(${SQL_NAME})`,
+  'gi'
+);
+const SQL_EXECUTE = new RegExp(`\\bexecute\\s+(?:function|procedure)\\s+(${SQL_NAME})`, 'gi');
+
+/** Table-body entries that are constraints, not columns. */
+const SQL_CONSTRAINT_WORDS = new Set([
+  'constraint',
+  'primary',
+  'foreign',
+  'unique',
+  'check',
+  'exclude',
+  'key',
+  'index',
+  'like',
+  'period',
+  'fulltext',
+  'spatial',
+]);
+
+const SQL_KIND: Record<string, ChunkKind> = {
+  table: 'table',
+  view: 'table',
+  function: 'function',
+  procedure: 'function',
+  trigger: 'function',
+  index: 'constant',
+  type: 'type',
+  sequence: 'constant',
+};
+
+/** Functions a trigger executes; everything else SQL refers to is a table (see `tablesOf`). */
+function sqlUses(text: string): string[] {
+  const uses = new Set<string>();
+  for (const m of maskSource(text, '--').matchAll(SQL_EXECUTE)) {
+    const name = normalizeTableName(m[1]!);
+    if (name) uses.add(name);
+  }
+  return [...uses];
+}
+
+/** Tables a piece queries, alters, indexes or points a foreign key at — function bodies included. */
+function sqlTables(text: string): string[] {
+  const masked = maskSource(text, '--', false);
+  const tables = new Set(sqlTableUses(masked));
+  for (const m of masked.matchAll(SQL_ON_TABLE)) {
+    const name = normalizeTableName(m[1]!);
+    if (name) tables.add(name);
+  }
+  return [...tables];
+}
+
+/** Column names declared in a `CREATE TABLE` body, `(` at `open`. */
+function sqlColumns(masked: string, open: number): string[] {
+  const close = matchClose(masked, open, '()');
+  const cuts = [
+    open,
+    ...atDepthZero(masked, /,/g, open + 1, close, '()').map((m) => m.index),
+    close,
+  ];
+  const columns: string[] = [];
+  for (let k = 0; k + 1 < cuts.length; k++) {
+    const entry = masked.slice(cuts[k]! + 1, cuts[k + 1]).trim();
+    const first = new RegExp(`^${SQL_IDENT}`).exec(entry)?.[0];
+    if (!first || SQL_CONSTRAINT_WORDS.has(first.toLowerCase())) continue;
+    const name = normalizeTableName(first);
+    if (name) columns.push(name);
+  }
+  return columns;
+}
+
+function scanSql(content: string, lines: string[]): Scan {
+  const masked = maskSource(content, '--');
+  const maskedLines = masked.split('\n');
+  const lineAt = lineIndex(content);
+  const isComment = (line: number): boolean => !maskedLines[line]!.trim() && !!lines[line]!.trim();
+  const units: Unit[] = [];
+
+  let from = 0;
+  const separators = atDepthZero(masked, SQL_SEPARATOR, 0, masked.length, '()');
+  for (const sep of [...separators, null]) {
+    const to = sep ? sep.index + sep[0].length : masked.length;
+    const text = masked.slice(from, to);
+    const lead = text.search(/\S/);
+    const start = from + lead;
+    from = to;
+    if (lead === -1) continue;
+    const statement = text.slice(lead);
+    const span = {
+      startLine: lineAt(start),
+      endLine: lineAt(start + statement.trimEnd().length - 1),
+    };
+
+    const create = SQL_CREATE.exec(statement);
+    if (create) {
+      const keyword = create[1]!.toLowerCase();
+      // `CREATE INDEX ON t` has no name; `on` normalizes to null.
+      const named = create[2] ? normalizeTableName(create[2]) : null;
+      let kind = SQL_KIND[keyword]!;
+      if (keyword === 'type' && /^\s*as\s+enum\b/i.test(statement.slice(create[0].length))) {
+        kind = 'enum';
+      }
+      const defines: DefinedSymbol[] = named ? [{ name: named, kind }] : [];
+      const tables = named && kind === 'table' ? [named] : [];
+      const paren = statement.slice(create[0].length).search(/\S/);
+      if (named && keyword === 'table' && statement[create[0].length + paren] === '(') {
+        for (const column of sqlColumns(masked, start + create[0].length + paren)) {
+          defines.push({ name: `${named}.${column}`, kind: 'variable' });
+        }
+      }
+      pushUnit(units, { ...span, defines, tables });
+      continue;
+    }
+
+    const alter = SQL_ALTER_TABLE.exec(statement);
+    const table = alter ? normalizeTableName(alter[1]!) : null;
+    if (table) {
+      const defines: DefinedSymbol[] = [];
+      for (const m of statement.matchAll(SQL_ADD_COLUMN)) {
+        const column = normalizeTableName(m[1]!);
+        if (column && !SQL_CONSTRAINT_WORDS.has(column)) {
+          defines.push({ name: `${table}.${column}`, kind: 'variable' });
+        }
+      }
+      pushUnit(units, { ...span, defines });
+    }
+  }
+
+  return { units, isComment, usesOf: sqlUses, tablesOf: sqlTables };
+}
+
+// ── Kubernetes manifests and Helm templates ─────────────────────────────────
+
+const YAML_DOC_SEPARATOR = /^---(?:\s|$)/;
+/** A Helm template action: `{{ .Values.image }}`, `{{- include "app.labels" . | nindent 4 }}`. */
+const HELM_ACTION = /\{\{[\s\S]*?\}\}/g;
+const HELM_NINDENT = /\|\s*n?indent\s+(\d+)\s*-?\}\}$/;
+const HELM_PLACEHOLDER = /__helm(\d+)__/g;
+
+/** Objects that own pods; a Service or PodDisruptionBudget selecting their pods links to them. */
+const K8S_WORKLOADS = new Set([
+  'Deployment',
+  'StatefulSet',
+  'DaemonSet',
+  'ReplicaSet',
+  'ReplicationController',
+  'Job',
+  'CronJob',
+  'Pod',
+]);
+
+/** Keys holding a `{ name }` reference to another object (env sources, volumes, Ingress backends). */
+const K8S_NAMED_REFS: Record<string, string> = {
+  configMap: 'ConfigMap',
+  configMapRef: 'ConfigMap',
+  configMapKeyRef: 'ConfigMap',
+  secret: 'Secret',
+  secretRef: 'Secret',
+  secretKeyRef: 'Secret',
+  service: 'Service',
+};
+
+/** Keys whose string value names another object. */
+const K8S_NAME_FIELDS: Record<string, string> = {
+  secretName: 'Secret',
+  claimName: 'PersistentVolumeClaim',
+  serviceAccountName: 'ServiceAccount',
+  serviceName: 'Service',
+};
+
+/** Keys holding a `{ kind, name }` reference (autoscalers, RBAC bindings). */
+const K8S_TYPED_REFS = new Set(['scaleTargetRef', 'targetRef', 'roleRef']);
+
+type YamlMap = Record<string, unknown>;
+
+const isMap = (value: unknown): value is YamlMap =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const mapAt = (value: unknown, ...path: string[]): YamlMap | undefined => {
+  for (const key of path) value = isMap(value) ? value[key] : undefined;
+  return isMap(value) ? value : undefined;
+};
+
+/**
+ * Make a Helm template parseable as YAML without moving any line. An action
+ * alone on its line becomes a placeholder key when it splices in a mapping
+ * (`{{- include "app.selectorLabels" . | nindent 6 }}`) and a blank line
+ * otherwise (`{{- if … }}`, `{{- end }}`); inline actions become placeholder
+ * scalars. `restore` puts the action text back, normalized (whitespace, trim
+ * markers and indent pipes dropped), so templates that name an object the
+ * same way (`{{ include "app.fullname" . }}-env`) still link.
+ */
+function stripHelm(lines: string[]): { lines: string[]; restore: (text: string) => string } {
+  const actions: string[] = [];
+  const placeholder = (action: string): string => {
+    const inner = action.replace(/^\{\{-?\s*|\s*-?\}\}$/g, '').replace(/\s+/g, ' ');
+    actions.push(`{{ ${inner} }}`);
+    return `__helm${actions.length - 1}__`;
+  };
+  const stripped = lines.map((line) => {
+    const t = line.trim();
+    if (!t.includes('{{')) return line;
+    if (t.startsWith('{{') && t.indexOf('}}') === t.length - 2) {
+      const nindent = HELM_NINDENT.exec(t);
+      if (!nindent) return '';
+      const action = t.replace(/\s*\|\s*n?indent\s+\d+/, '');
+      return `${' '.repeat(Number(nindent[1]))}${placeholder(action)}: ""`;
+    }
+    return line.replace(HELM_ACTION, placeholder);
+  });
+  return {
+    lines: stripped,
+    restore: (text) => text.replace(HELM_PLACEHOLDER, (_, i: string) => actions[Number(i)]!),
+  };
+}
+
+/** `selector:app=api,tier=web` — the same labels, however ordered, give the same name. */
+function selectorSymbol(
+  labels: YamlMap | undefined,
+  restore: (text: string) => string
+): string | null {
+  if (!labels) return null;
+  const pairs = Object.entries(labels)
+    .filter(([, v]) => ['string', 'number', 'boolean'].includes(typeof v))
+    .map(([k, v]) => restore(v === '' ? k : `${k}=${String(v)}`))
+    .sort();
+  return pairs.length > 0 ? `selector:${pairs.join(',')}` : null;
+}
+
+/** Objects a manifest mounts, reads env from, routes to, scales or binds; `metadata` is skipped. */
+function kubernetesRefs(node: unknown, out: Set<string>, restore: (text: string) => string): void {
+  if (Array.isArray(node)) {
+    for (const item of node) kubernetesRefs(item, out, restore);
+    return;
+  }
+  if (!isMap(node)) return;
+  for (const [key, value] of Object.entries(node)) {
+    if (key === 'metadata') continue;
+    const named = K8S_NAMED_REFS[key];
+    const target = isMap(value) ? (value.name ?? value.secretName) : undefined;
+    if (named && typeof target === 'string') out.add(restore(`${named}/${target}`));
+    const field = K8S_NAME_FIELDS[key];
+    if (field && typeof value === 'string') out.add(restore(`${field}/${value}`));
+    if (K8S_TYPED_REFS.has(key) && isMap(value)) {
+      if (typeof value.kind === 'string' && typeof value.name === 'string') {
+        out.add(restore(`${value.kind}/${value.name}`));
+      }
+    }
+    if (key === 'imagePullSecrets' || key === 'subjects') {
+      for (const item of Array.isArray(value) ? value : []) {
+        if (!isMap(item) || typeof item.name !== 'string') continue;
+        const kind = key === 'subjects' ? item.kind : 'Secret';
+        if (kind === 'ServiceAccount' || kind === 'Secret')
+          out.add(restore(`${kind}/${item.name}`));
+      }
+    }
+    kubernetesRefs(value, out, restore);
+  }
+}
+
+/** Definitions and references of one parsed object. */
+function kubernetesObject(
+  obj: unknown,
+  restore: (text: string) => string,
+  defines: DefinedSymbol[],
+  uses: Set<string>
+): void {
+  if (!isMap(obj) || typeof obj.kind !== 'string') return;
+  const kind = obj.kind;
+  const name = mapAt(obj, 'metadata')?.name;
+  if (typeof name === 'string')
+    defines.push({ name: restore(`${kind}/${name}`), kind: 'resource' });
+
+  const spec = mapAt(obj, 'spec');
+  if (K8S_WORKLOADS.has(kind)) {
+    // What a Service selects by: the workload's selector, else its pod labels.
+    const selector =
+      selectorSymbol(mapAt(spec, 'selector', 'matchLabels'), restore) ??
+      (kind === 'ReplicationController'
+        ? selectorSymbol(mapAt(spec, 'selector'), restore)
+        : null) ??
+      selectorSymbol(mapAt(spec, 'template', 'metadata', 'labels'), restore) ??
+      selectorSymbol(
+        mapAt(spec, 'jobTemplate', 'spec', 'template', 'metadata', 'labels'),
+        restore
+      ) ??
+      (kind === 'Pod' ? selectorSymbol(mapAt(obj, 'metadata', 'labels'), restore) : null);
+    if (selector) defines.push({ name: selector, kind: 'resource' });
+  } else {
+    const selector =
+      kind === 'Service'
+        ? selectorSymbol(mapAt(spec, 'selector'), restore)
+        : selectorSymbol(
+            mapAt(spec, 'selector', 'matchLabels') ?? mapAt(spec, 'podSelector', 'matchLabels'),
+            restore
+          );
+    if (selector) uses.add(selector);
+  }
+  kubernetesRefs(obj, uses, restore);
+}
+
+/** Fallback for a document the YAML parser rejects: root `kind:` plus `metadata.name`. */
+function kubernetesHeader(lines: string[], start: number, end: number): [string, string] | null {
+  let kind: string | undefined;
+  let name: string | undefined;
+  let inMetadata = false;
+  for (let i = start; i <= end; i++) {
+    const line = lines[i]!;
+    if (/^\S/.test(line)) inMetadata = /^metadata\s*:\s*$/.test(line);
+    kind ??= /^kind\s*:\s*["']?([\w.-]+)/.exec(line)?.[1];
+    if (inMetadata) name ??= /^\s+name\s*:\s*["']?([^"'#]+?)["']?\s*(?:#.*)?$/.exec(line)?.[1];
+  }
+  return kind && name ? [kind, name] : null;
+}
+
+function scanKubernetes(content: string, lines: string[]): Scan {
+  const isComment = (line: number): boolean => lines[line]!.trimStart().startsWith('#');
+  const units: Unit[] = [];
+  const helm = content.includes('{{') ? stripHelm(lines) : null;
+  const yamlLines = helm?.lines ?? lines;
+  const restore = helm?.restore ?? ((text: string) => text);
+
+  let from = 0;
+  for (let i = 0; i <= lines.length; i++) {
+    if (i < lines.length && !YAML_DOC_SEPARATOR.test(yamlLines[i]!)) continue;
+    let start = from;
+    from = i + 1;
+    while (start < i && (!lines[start]!.trim() || isComment(start))) start++;
+    if (start >= i) continue;
+    const end = trimTrailing(lines, start, i - 1, isComment);
+
+    const defines: DefinedSymbol[] = [];
+    const uses = new Set<string>();
+    try {
+      const doc = yaml.load(yamlLines.slice(start, end + 1).join('\n'));
+      const items = isMap(doc) && doc.kind === 'List' ? doc.items : undefined;
+      for (const obj of Array.isArray(items) ? items : [doc]) {
+        kubernetesObject(obj, restore, defines, uses);
+      }
+    } catch {
+      const header = kubernetesHeader(yamlLines, start, end);
+      if (header) defines.push({ name: restore(`${header[0]}/${header[1]}`), kind: 'resource' });
+    }
+    if (defines.length > 0)
+      units.push({ startLine: start, endLine: end, defines, uses: [...uses] });
+  }
+  return { units, isComment, usesOf: () => [] };
+}
+
+// ── docker-compose ──────────────────────────────────────────────────────────
+
+/** Top-level compose sections → the scope their entries are named under (`service.web`). */
+const COMPOSE_SECTIONS: Record<string, string> = {
+  services: 'service',
+  volumes: 'volume',
+  networks: 'network',
+  configs: 'config',
+  secrets: 'secret',
+};
+
+/** Names listed as an array of strings / `{ source }` objects, or as mapping keys. */
+function composeNames(value: unknown, field = 'source'): string[] {
+  if (isMap(value)) return Object.keys(value);
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((item) => {
+    if (typeof item === 'string') return [item];
+    const name = isMap(item) ? item[field] : undefined;
+    return typeof name === 'string' ? [name] : [];
+  });
+}
+
+/** Services, volumes, networks, configs and secrets one service depends on. */
+function composeServiceUses(service: unknown): string[] {
+  if (!isMap(service)) return [];
+  const uses = new Set<string>();
+  for (const dep of composeNames(service.depends_on)) uses.add(`service.${dep}`);
+  for (const link of composeNames(service.links)) uses.add(`service.${link.split(':')[0]}`);
+  for (const from of composeNames(service.volumes_from)) {
+    if (!from.startsWith('container:')) uses.add(`service.${from.split(':')[0]}`);
+  }
+  const extended = mapAt(service, 'extends');
+  if (typeof extended?.service === 'string' && extended.file === undefined) {
+    uses.add(`service.${extended.service}`);
+  }
+  for (const key of ['network_mode', 'pid', 'ipc']) {
+    const mode = service[key];
+    if (typeof mode === 'string' && mode.startsWith('service:')) {
+      uses.add(`service.${mode.slice('service:'.length)}`);
+    }
+  }
+  for (const volume of Array.isArray(service.volumes) ? service.volumes : []) {
+    const source = isMap(volume)
+      ? volume.type === 'volume' && volume.source
+      : typeof volume === 'string' && volume.includes(':') && volume.split(':')[0];
+    // Bind mounts are paths (`./data`, `/srv`, `${PWD}`); named volumes are bare words.
+    if (typeof source === 'string' && /^[\w][\w.-]*$/.test(source)) uses.add(`volume.${source}`);
+  }
+  for (const network of composeNames(service.networks)) uses.add(`network.${network}`);
+  for (const config of composeNames(service.configs)) uses.add(`config.${config}`);
+  for (const secret of composeNames(service.secrets)) uses.add(`secret.${secret}`);
+  return [...uses];
+}
+
+function scanCompose(content: string, lines: string[]): Scan {
+  const isComment = (line: number): boolean => lines[line]!.trimStart().startsWith('#');
+  const units: Unit[] = [];
+  let doc: unknown;
+  try {
+    doc = yaml.load(content);
+  } catch {
+    doc = undefined;
+  }
+
+  for (let i = 0; i < lines.length; i++) {
+    const section = keyAt(lines, i);
+    const scope = section?.indent === 0 ? COMPOSE_SECTIONS[section.key] : undefined;
+    if (!section || !scope) continue;
+    for (const line of childKeys(lines, i)) {
+      const name = keyAt(lines, line)!.key;
+      pushUnit(units, {
+        startLine: line,
+        endLine: blockEnd(lines, line),
+        defines: [{ name: `${scope}.${name}`, kind: 'resource' }],
+        uses: scope === 'service' ? composeServiceUses(mapAt(doc, section.key)?.[name]) : [],
+      });
+    }
+  }
+  return { units, isComment, usesOf: () => [] };
+}
@@ -0,0 +1,457 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import type { Indexer } from './indexer.js';
+import type { MetadataStore } from './metadata-db.js';
+import type { ArchStore } from './arch/store.js';
+import type { ArchContextResult } from './arch/types.js';
+import type { RelationType } from './types.js';
+import { parseChunkId } from './indexer.js';
+import { buildArchContext } from './arch/context.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Review context for a diff, for `review_diff` and `/api/diff-context`.
+ *
+ * A unified diff — from `git diff` over a range in the project's checkout, or
+ * pasted by the caller — is cut into per-file changed line ranges, and those
+ * are mapped onto indexed chunks by line overlap, the same way git metadata
+ * maps commit hunks. Around the touched chunks we collect what a reviewer
+ * wants next: the symbols they define, the code that depends on them (incoming
+ * symbol-graph edges, tests included), linked tickets and the arch decisions
+ * and lessons nearest to the change.
+ *
+ * The index holds one tree, so the diff is read from one side: `base` (the
+ * default) maps pre-change lines — right for a branch whose target is what's
+ * indexed; `head` maps post-change lines — right for commits already indexed.
+ */
+
+export const DIFF_SIDES = ['base', 'head'] as const;
+export type DiffSide = (typeof DIFF_SIDES)[number];
+
+/** Largest diff read from git or accepted from a caller. */
+export const MAX_DIFF_BYTES = 5 * 1024 * 1024;
+
+/** Files mapped per diff — huge diffs (vendoring, renames) are summarized, not reviewed. */
+const MAX_DIFF_FILES = 200;
+
+/** Incoming edges kept per touched chunk. */
+const MAX_CALLERS_PER_CHUNK = 20;
+
+/** `a..b`, `a...b` or a single revision — refs, SHAs, `HEAD~2`, `origin/main^`. */
+const GIT_RANGE = /^[\w./@{}~^-]+(?:\.{2,3}[\w./@{}~^-]+)?$/;
+
+/** Thrown for a diff request the caller has to fix: a bad range, no checkout, an oversized diff. */
+export class DiffInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DiffInputError';
+  }
+}
+
+export interface DiffLineRange {
+  /** 1-based, inclusive. */
+  startLine: number;
+  endLine: number;
+}
+
+export interface DiffFile {
+  /** Path before the change; null for an added file. */
+  oldFile: string | null;
+  /** Path after the change; null for a deleted file. */
+  newFile: string | null;
+  status: 'added' | 'deleted' | 'modified' | 'renamed';
+  /** Changed lines on the pre-change side. Pure insertions mark the line they follow. */
+  base: DiffLineRange[];
+  /** Changed lines on the post-change side. Pure deletions mark the line they follow. */
+  head: DiffLineRange[];
+}
+
+export interface DiffTouchedChunk {
+  chunk_id: string;
+  file: string;
+  /** 0-based rows, like every chunk. */
+  startLine: number;
+  endLine: number;
+  symbol_name: string | null;
+  kind: string | null;
+  defines_symbols: string[];
+}
+
+export interface DiffDependent {
+  chunk_id: string;
+  /** Clean project name of the dependent. */
+  project: string;
+  file: string;
+  startLine: number;
+  endLine: number;
+  relation: RelationType;
+  /** Symbol the edge goes through. */
+  symbol: string;
+  /** The touched chunk it depends on. */
+  target: string;
+}
+
+export interface DiffTicket {
+  ticket_key: string;
+  source: string;
+  /** Touched chunks linked to the ticket. */
+  chunks: number;
+}
+
+export interface DiffFileSummary {
+  file: string;
+  status: DiffFile['status'];
+  /** Changed ranges on the mapped side. */
+  hunks: number;
+  /** Indexed chunks the ranges overlap. */
+  chunks: number;
+}
+
+export interface DiffContext {
+  group: string;
+  /** Clean project name. */
+  project: string;
+  side: DiffSide;
+  files: DiffFileSummary[];
+  /** Files of the diff with no chunk on the mapped side — new, deleted, or not indexed. */
+  unmapped: string[];
+  chunks: DiffTouchedChunk[];
+  /** Symbols defined by the touched chunks, deduplicated. */
+  symbols: string[];
+  dependents: DiffDependent[];
+  tickets: DiffTicket[];
+  /** Null without an arch store. */
+  arch: ArchContextResult | null;
+  /** True when the diff had more files than were mapped. */
+  truncated: boolean;
+}
+
+/** Strip git's `a/` / `b/` prefix and quoting from a diff header path. */
+function diffPath(raw: string): string | null {
+  let p = raw.trim();
+  if (p.startsWith('"') && p.endsWith('"')) {
+    p = p.slice(1, -1).replace(/\\(["\\])/g, '$1');
+  }
+  if (p === '/dev/null') return null;
+  return p.replace(/^[ab]\//, '');
+}
+
+/** A hunk side `start,count` as a line range; a zero count marks the neighbouring line. */
+function hunkRange(start: number, count: number): DiffLineRange {
+  if (count === 0) {
+    const line = Math.max(1, start);
+    return { startLine: line, endLine: line };
+  }
+  return { startLine: start, endLine: start + count - 1 };
+}
+
+/**
+ * Parse a unified diff (`git diff`, `git show`, `diff -u`) into changed line
+ * ranges per file. Content lines are skipped, so any context size works; `-U0`
+ * just keeps the ranges tight.
+ */
+export function parseUnifiedDiff(diff: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  let current: DiffFile | null = null;
+  // Set by `diff --git` until its `---`/`+++` pair arrives; a pure rename,
+  // mode change or binary has no such pair and keeps the header's paths.
+  let headerOpen = false;
+  // Lines left in the current hunk body, so content that happens to look like
+  // a header (a removed `-- x` line reads `--- x`) isn't taken for one.
+  let oldLeft = 0;
+  let newLeft = 0;
+
+  const open = (oldFile: string | null, newFile: string | null): DiffFile => {
+    const file: DiffFile = { oldFile, newFile, status: 'modified', base: [], head: [] };
+    files.push(file);
+    return file;
+  };
+
+  const lines = diff.split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
+    if (oldLeft > 0 || newLeft > 0) {
+      if (line.startsWith('-')) oldLeft--;
+      else if (line.startsWith('+')) newLeft--;
+      else if (line.startsWith(' ') || line === '') {
+        oldLeft--;
+        newLeft--;
+      }
+      continue;
+    }
+    if (line.startsWith('diff --git ')) {
+      const m = line.match(/^diff --git "?a\/(.+?)"? "?b\/(.+?)"?$/);
+      current = open(m?.[1] ?? null, m?.[2] ?? null);
+      headerOpen = true;
+      continue;
+    }
+    if (headerOpen && current) {
+      if (line.startsWith('rename from ')) {
+        current.oldFile = line.slice('rename from '.length);
+        continue;
+      }
+      if (line.startsWith('rename to ')) {
+        current.newFile = line.slice('rename to '.length);
+        continue;
+      }
+      if (line.startsWith('new file mode')) {
+        current.oldFile = null;
+        continue;
+      }
+      if (line.startsWith('deleted file mode')) {
+        current.newFile = null;
+        continue;
+      }
+    }
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      const oldFile = diffPath(line.slice(4).split('\t')[0]!);
+      const newFile = diffPath(lines[i + 1]!.slice(4).split('\t')[0]!);
+      if (headerOpen && current) {
+        current.oldFile = oldFile;
+        current.newFile = newFile;
+      } else {
+        // Plain `diff -u` output: every file starts at its `---` line.
+        current = open(oldFile, newFile);
+      }
+      headerOpen = false;
+      i++;
+      continue;
+    }
+    const hunk = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+    if (hunk && current) {
+      headerOpen = false;
+      oldLeft = parseInt(hunk[2] ?? '1', 10);
+      newLeft = parseInt(hunk[4] ?? '1', 10);
+      current.base.push(hunkRange(parseInt(hunk[1]!, 10), oldLeft));
+      current.head.push(hunkRange(parseInt(hunk[3]!, 10), newLeft));
+    }
+  }
+
+  for (const f of files) {
+    if (f.oldFile === null) f.status = 'added';
+    else if (f.newFile === null) f.status = 'deleted';
+    else if (f.oldFile !== f.newFile) f.status = 'renamed';
+  }
+  return files;
+}
+
+/**
+ * Why `range` can't be passed to git, or null when it can. Only revisions and
+ * `..`/`...` ranges are allowed — never options or pathspecs.
+ */
+export function validateGitRange(range: string): string | null {
+  if (!range.trim()) return 'range is empty';
+  if (range.startsWith('-')) return 'range must not start with "-"';
+  if (!GIT_RANGE.test(range)) {
+    return 'range must be a revision or a "base..head" / "base...head" range';
+  }
+  return null;
+}
+
+/**
+ * The `-U0` diff of a range in a local checkout. A single revision is read as
+ * that commit's own change (`git show`); a range as `git diff` between its ends.
+ */
+export async function gitDiff(projectPath: string, range: string): Promise<string> {
+  const invalid = validateGitRange(range);
+  if (invalid) throw new DiffInputError(invalid);
+  const args = range.includes('..')
+    ? ['diff', '--no-color', '--no-ext-diff', '-M', '-U0', range, '--']
+    : ['show', '--no-color', '--no-ext-diff', '-M', '-U0', '--format=', range, '--'];
+  try {
+    const { stdout } = await execFileAsync('git', args, {
+      cwd: projectPath,
+      maxBuffer: MAX_DIFF_BYTES,
+    });
+    return stdout;
+  } catch (err) {
+    const stderr = (err as { stderr?: string }).stderr?.trim();
+    throw new DiffInputError(`git could not diff "${range}": ${stderr || (err as Error).message}`);
+  }
+}
+
+/**
+ * The parsed diff of a request: the `diff` body when given, else `range` run
+ * in the project's checkout. Servers that only hold the index (no local clone,
+ * e.g. projects discovered from Qdrant) need the body.
+ */
+export async function readDiff(input: {
+  range?: string;
+  diff?: string;
+  /** Local checkout of the project; empty when the server has none. */
+  projectPath?: string;
+}): Promise<DiffFile[]> {
+  let text: string;
+  if (input.diff) {
+    if (Buffer.byteLength(input.diff) > MAX_DIFF_BYTES) {
+      throw new DiffInputError(`diff is larger than ${MAX_DIFF_BYTES} bytes`);
+    }
+    text = input.diff;
+  } else if (input.range) {
+    if (!input.projectPath) {
+      throw new DiffInputError(
+        'This server has no checkout of the project to run git in — pass the diff text instead of a range'
+      );
+    }
+    text = await gitDiff(input.projectPath, input.range);
+  } else {
+    throw new DiffInputError('Pass a git range or a unified diff');
+  }
+  const files = parseUnifiedDiff(text);
+  if (files.length === 0) throw new DiffInputError('The diff has no file changes');
+  return files;
+}
+
+export interface BuildDiffContextDeps {
+  indexer: Pick<Indexer, 'getAdjacentChunks' | 'storedProjectName' | 'cleanProjectName'>;
+  /** Without it there are no dependents or tickets. */
+  metadataStore?: Pick<MetadataStore, 'getEdgesTo' | 'getTickets'>;
+  /** Without it `arch` is null. */
+  archStore?: ArchStore;
+  /** Visibility of a dependent chunk; everything is visible when omitted. */
+  canReadChunk?: (chunkId: string) => boolean;
+}
+
+export interface BuildDiffContextOptions {
+  group: string;
+  /** Clean project name. */
+  project: string;
+  files: DiffFile[];
+  side?: DiffSide;
+  /** Max dependents returned (default 50). */
+  limit?: number;
+}
+
+/** Map a parsed diff onto the index and gather its review context. */
+export async function buildDiffContext(
+  deps: BuildDiffContextDeps,
+  opts: BuildDiffContextOptions
+): Promise<DiffContext> {
+  const { group, project } = opts;
+  const side = opts.side ?? 'base';
+  const limit = opts.limit ?? 50;
+  const storedProject = deps.indexer.storedProjectName(project);
+
+  const files: DiffFileSummary[] = [];
+  const unmapped: string[] = [];
+  const chunks: DiffTouchedChunk[] = [];
+  const seenChunks = new Set<string>();
+  const mapped = opts.files.slice(0, MAX_DIFF_FILES);
+
+  for (const f of mapped) {
+    const file = side === 'base' ? f.oldFile : f.newFile;
+    const label = f.newFile ?? f.oldFile ?? '';
+    const ranges = side === 'base' ? f.base : f.head;
+    let touched = 0;
+    if (file) {
+      for (const r of ranges) {
+        // Hunk lines are 1-based; chunk rows are 0-based.
+        const payloads = await deps.indexer.getAdjacentChunks(
+          group,
+          storedProject,
+          file,
+          r.startLine - 1,
+          r.endLine - 1,
+          0
+        );
+        for (const p of payloads) {
+          const chunkId = typeof p['chunk_id'] === 'string' ? p['chunk_id'] : null;
+          if (!chunkId) continue;
+          touched++;
+          if (seenChunks.has(chunkId)) continue;
+          seenChunks.add(chunkId);
+          chunks.push({
+            chunk_id: chunkId,
+            file,
+            startLine: p['startLine'] as number,
+            endLine: p['endLine'] as number,
+            symbol_name: typeof p['symbol_name'] === 'string' ? p['symbol_name'] : null,
+            kind: typeof p['kind'] === 'string' ? p['kind'] : null,
+            defines_symbols: Array.isArray(p['defines_symbols'])
+              ? (p['defines_symbols'] as string[])
+              : [],
+          });
+        }
+      }
+    }
+    files.push({ file: label, status: f.status, hunks: ranges.length, chunks: touched });
+    if (touched === 0) unmapped.push(label);
+  }
+
+  const symbols = [
+    ...new Set(
+      chunks.flatMap((c) =>
+        c.defines_symbols.length > 0 ? c.defines_symbols : (c.symbol_name ?? [])
+      )
+    ),
+  ];
+
+  const dependents: DiffDependent[] = [];
+  const tickets = new Map<string, DiffTicket>();
+  if (deps.metadataStore) {
+    const seenEdges = new Set<string>();
+    for (const c of chunks) {
+      let kept = 0;
+      for (const e of deps.metadataStore.getEdgesTo(c.chunk_id)) {
+        // Edges between touched chunks are part of the change, not its blast radius.
+        if (seenChunks.has(e.from_chunk_id)) continue;
+        if (deps.canReadChunk && !deps.canReadChunk(e.from_chunk_id)) continue;
+        const key = `${e.from_chunk_id}→${e.to_chunk_id}→${e.symbol_name}`;
+        if (seenEdges.has(key)) continue;
+        seenEdges.add(key);
+        const parsed = parseChunkId(e.from_chunk_id);
+        if (!parsed) continue;
+        dependents.push({
+          chunk_id: e.from_chunk_id,
+          project: deps.indexer.cleanProjectName(parsed.project),
+          file: parsed.file,
+          startLine: parsed.startLine,
+          endLine: parsed.endLine,
+          relation: e.relation_type,
+          symbol: e.symbol_name,
+          target: c.chunk_id,
+        });
+        if (++kept >= MAX_CALLERS_PER_CHUNK) break;
+      }
+
+      for (const t of deps.metadataStore.getTickets(c.chunk_id)) {
+        const entry = tickets.get(t.ticket_key) ?? {
+          ticket_key: t.ticket_key,
+          source: t.source,
+          chunks: 0,
+        };
+        entry.chunks++;
+        tickets.set(t.ticket_key, entry);
+      }
+    }
+  }
+
+  let arch: ArchContextResult | null = null;
+  if (deps.archStore && chunks.length > 0) {
+    // The change described by what it touches: symbols first, then files.
+    const changedFiles = files.map((f) => f.file);
+    const question = [
+      symbols.length > 0 ? `Changes to ${symbols.slice(0, 30).join(', ')}` : 'Changes',
+      `in ${changedFiles.slice(0, 30).join(', ')}`,
+    ].join(' ');
+    arch = await buildArchContext(deps.archStore, group, question, {
+      project,
+      limits: { component: 3, decision: 5, lesson: 5 },
+    });
+  }
+
+  return {
+    group,
+    project,
+    side,
+    files,
+    unmapped,
+    chunks,
+    symbols,
+    dependents: dependents.slice(0, limit),
+    tickets: [...tickets.values()].sort((a, b) => b.chunks - a.chunks),
+    arch,
+    truncated: opts.files.length > mapped.length,
+  };
+}
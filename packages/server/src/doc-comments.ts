@@ -0,0 +1,134 @@
+import type { Node } from 'web-tree-sitter';
+
+/**
+ * Doc comments of declarations: JSDoc / KDoc / Javadoc blocks, rustdoc `///`,
+ * godoc and Ruby `#` runs, C# `///`, Python docstrings. The AST chunker keeps a
+ * leading comment in the chunk of the declaration it documents, so it is
+ * embedded as part of the code; here the same text is pulled out on its own,
+ * markers stripped, to be stored as the chunk's `doc_summary` and embedded
+ * into the `doc` vector — what the code is *for*, apart from how it does it.
+ */
+
+/** Cap on a chunk's doc summary; a class chunk can carry the docs of all its methods. */
+export const MAX_DOC_SUMMARY = 1000;
+
+/**
+ * Nodes a declaration sits in that start where it starts — a doc comment
+ * precedes `export function f`, `@decorator def f`, Go's `type ( … )`, not the
+ * inner node the symbol query captured.
+ */
+const DOC_WRAPPERS = new Set([
+  'export_statement',
+  'lexical_declaration',
+  'variable_declaration',
+  'ambient_declaration',
+  'decorated_definition',
+  'expression_statement',
+  'type_declaration',
+]);
+
+/** Rust attributes may sit between a doc comment and its item. */
+const ATTRIBUTE_NODES = new Set(['attribute_item']);
+
+/** Tool directives are comments, but document nothing. */
+const DIRECTIVE =
+  /^\s*(?:\/\/|#|\/\*)\s*(?:eslint[- ]|@ts-|prettier-ignore|istanbul |c8 |noqa|nolint|go:|type:\s*ignore|pylint:|rubocop:|mypy:|pragma\b|NOSONAR)/;
+
+/** Rust inner docs (`//!`, `/*!`) document the enclosing module, not the next item. */
+const INNER_DOC = /^\s*(?:\/\/!|\/\*!)/;
+
+function isComment(node: Node): boolean {
+  return node.type.endsWith('comment');
+}
+
+/** Indentation shared by the non-blank lines. */
+function commonIndent(lines: string[]): number {
+  const indents = lines.filter((l) => l.trim()).map((l) => l.length - l.trimStart().length);
+  return indents.length > 0 ? Math.min(...indents) : 0;
+}
+
+/** Drop the common indentation and the blank lines around a block of text. */
+function dedent(lines: string[]): string {
+  const trimmed = lines.map((l) => l.trimEnd());
+  while (trimmed.length > 0 && !trimmed[0]) trimmed.shift();
+  while (trimmed.length > 0 && !trimmed[trimmed.length - 1]) trimmed.pop();
+  const indent = commonIndent(trimmed);
+  return trimmed
+    .map((l) => l.slice(indent))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n');
+}
+
+/** Comment text without its markers: `/** … *\/`, leading `*`, `///`, `//`, `#`, `--`. */
+export function cleanComment(text: string): string {
+  const body = text.trim();
+  if (body.startsWith('/*')) {
+    const inner = body.replace(/^\/\*+!?/, '').replace(/\*+\/$/, '');
+    return dedent(inner.split('\n').map((l) => l.replace(/^\s*\*(?!\/)/, '')));
+  }
+  return dedent(body.split('\n').map((l) => l.replace(/^\s*(?:\/\/[/!]?|#+|--)/, '')));
+}
+
+/** A Python string literal's text without prefix and quotes, dedented. */
+function cleanDocstring(text: string): string {
+  const inner = text.replace(/^[rRuUbBfF]*("""|'''|"|')/, '').replace(/("""|'''|"|')$/, '');
+  const [first = '', ...rest] = inner.split('\n');
+  // The first line sits right after the quotes; only the rest carry the body's indent.
+  const indent = commonIndent(rest);
+  return dedent([first.trim(), ...rest.map((l) => l.slice(indent))]);
+}
+
+/** The docstring opening a Python function or class body. */
+function pythonDocstring(decl: Node): string | null {
+  if (decl.type !== 'function_definition' && decl.type !== 'class_definition') return null;
+  const first = decl
+    .childForFieldName('body')
+    ?.namedChildren.find((c): c is Node => c !== null && !isComment(c));
+  if (first?.type !== 'expression_statement') return null;
+  const literal = first.firstNamedChild;
+  return literal?.type === 'string' ? cleanDocstring(literal.text) : null;
+}
+
+/**
+ * The run of comments directly above `anchor`: no blank line between them and
+ * the declaration, none of them trailing code on its line.
+ */
+function leadingComments(anchor: Node): string | null {
+  const parts: string[] = [];
+  let row = anchor.startPosition.row;
+  for (let s = anchor.previousNamedSibling; s; s = s.previousNamedSibling) {
+    if (s.endPosition.row < row - 1) break;
+    if (ATTRIBUTE_NODES.has(s.type)) {
+      row = s.startPosition.row;
+      continue;
+    }
+    if (!isComment(s) || INNER_DOC.test(s.text)) break;
+    const before = s.previousNamedSibling;
+    if (before && before.endPosition.row === s.startPosition.row) break;
+    if (!DIRECTIVE.test(s.text)) parts.unshift(cleanComment(s.text));
+    row = s.startPosition.row;
+  }
+  const text = parts.filter((p) => p).join('\n');
+  return text || null;
+}
+
+/**
+ * Doc text of a declaration node (the node a symbol query capture names):
+ * its Python docstring, else the comments right above it or above the
+ * `export` / decorator / `type ( … )` wrapping it. Null when undocumented.
+ */
+export function declarationDoc(decl: Node, lang: string): string | null {
+  if (lang === 'python') {
+    const docstring = pythonDocstring(decl);
+    if (docstring) return docstring;
+  }
+  let anchor = decl;
+  while (anchor.parent && DOC_WRAPPERS.has(anchor.parent.type)) anchor = anchor.parent;
+  return leadingComments(anchor);
+}
+
+/** A chunk's doc summary: the distinct docs of its declarations, capped. */
+export function summarizeDocs(docs: string[]): string {
+  const text = [...new Set(docs)].join('\n\n');
+  return text.length > MAX_DOC_SUMMARY ? `${text.slice(0, MAX_DOC_SUMMARY - 1)}…` : text;
+}
@@ -116,13 +116,20 @@ export function idf(docFreq: number, docCount: number): number {
   return Math.log(1 + (n - docFreq + 0.5) / (docFreq + 0.5));
 }
 
+/** Splits text into BM25 terms. Indexing and query must use the same one. */
+export type Tokenizer = (text: string) => string[];
+
 /**
  * Build a BM25 sparse vector for a DOCUMENT (indexing side). Weights each unique
  * term by its BM25 score against the corpus stats. Terms not yet in the corpus
  * (docFreq 0) are still weighted — idf() handles df=0 gracefully.
  */
-export function buildDocumentSparseVector(text: string, stats: CorpusStats): SparseVector {
-  const tokens = tokenize(text);
+export function buildDocumentSparseVector(
+  text: string,
+  stats: CorpusStats,
+  tokenizer: Tokenizer = tokenize
+): SparseVector {
+  const tokens = tokenizer(text);
   const docLength = tokens.length;
   if (docLength === 0) return { indices: [], values: [] };
 
@@ -157,8 +164,12 @@ export function buildDocumentSparseVector(text: string, stats: CorpusStats): Spa
  * each term by its IDF only (no TF saturation) — the standard BM25 query-side
  * treatment. Fusion with dense happens in Qdrant via RRF.
  */
-export function buildQuerySparseVector(query: string, stats: CorpusStats): SparseVector {
-  const tokens = tokenize(query);
+export function buildQuerySparseVector(
+  query: string,
+  stats: CorpusStats,
+  tokenizer: Tokenizer = tokenize
+): SparseVector {
+  const tokens = tokenizer(query);
   if (tokens.length === 0) return { indices: [], values: [] };
   const seen = new Map<number, number>();
   for (const term of new Set(tokens)) {
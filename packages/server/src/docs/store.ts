@@ -548,7 +548,7 @@ function breadcrumbOf(hit: DocsSearchHit): string {
 function basename(file: string): string {
   const parts = file.split('/');
   const last = parts[parts.length - 1] ?? file;
-  return last.replace(/\.(md|markdown)$/i, '');
+  return last.replace(/\.(md|markdown|mdx)$/i, '');
 }
 
 export { NotMarkdownError };
@@ -1,7 +1,8 @@
 import { execFile } from 'child_process';
 import { promisify } from 'util';
 import type { QdrantClient } from '@qdrant/js-client-rest';
-import type { MetadataStore } from './metadata-db.js';
+import type { GitCachedBlameRange, MetadataStore } from './metadata-db.js';
+import type { Contributor } from './types.js';
 import { extractTickets } from './ticket-extractor.js';
 import { toCollectionName } from './indexer.js';
 
@@ -22,6 +23,12 @@ interface DiffHunk {
   endLine: number;
 }
 
+/**
+ * Contributors kept per chunk / file. Blame tails are long (one-line fixes by
+ * many people); ownership only needs the top of the list.
+ */
+const MAX_CONTRIBUTORS = 20;
+
 interface IndexedChunk {
   chunk_id: string;
   startLine: number;
@@ -34,6 +41,8 @@ export interface ExtractGitMetadataOptions {
   project: string;
   maxCommitsPerFile: number;
   ticketPatterns: string[];
+  /** Blame lines older than this don't count towards ownership */
+  ownershipMonths: number;
   metadataStore: MetadataStore;
   qdrantClient: QdrantClient;
   chunksByFile: Map<string, IndexedChunk[]>;
@@ -43,6 +52,7 @@ export interface ExtractGitMetadataResult {
   filesProcessed: number;
   commitsStored: number;
   ticketsStored: number;
+  contributorsStored: number;
 }
 
 // ── Collect indexed chunks from Qdrant ─────────────────────────────────────
@@ -198,6 +208,100 @@ async function getFileDiffHunks(
   }
 }
 
+/**
+ * `git blame` of the file at HEAD as runs of lines per commit. Whitespace-only
+ * changes (`-w`) don't move ownership — a reformat isn't authorship.
+ */
+async function getFileBlame(projectPath: string, filePath: string): Promise<GitCachedBlameRange[]> {
+  try {
+    const { stdout } = await execFileAsync(
+      'git',
+      ['blame', '--porcelain', '-w', 'HEAD', '--', filePath],
+      { cwd: projectPath, maxBuffer: 50 * 1024 * 1024 }
+    );
+
+    // Porcelain prints a `<sha> <orig> <final> [<count>]` header per line and
+    // the author fields only the first time a commit appears.
+    const authors = new Map<string, { email: string; time: number }>();
+    const ranges: GitCachedBlameRange[] = [];
+    let sha: string | null = null;
+    let line = 0;
+
+    for (const row of stdout.split('\n')) {
+      if (row.startsWith('\t')) {
+        const author = sha ? authors.get(sha) : undefined;
+        const last = ranges[ranges.length - 1];
+        if (author?.email) {
+          if (
+            last &&
+            last.endLine === line - 1 &&
+            last.email === author.email &&
+            last.time === author.time
+          ) {
+            last.endLine = line;
+          } else {
+            ranges.push({ startLine: line, endLine: line, email: author.email, time: author.time });
+          }
+        }
+        sha = null;
+        continue;
+      }
+
+      const header = row.match(/^([0-9a-f]{40,64}) \d+ (\d+)/);
+      if (header) {
+        sha = header[1]!;
+        line = parseInt(header[2]!, 10);
+        if (!authors.has(sha)) authors.set(sha, { email: '', time: 0 });
+        continue;
+      }
+
+      const author = sha ? authors.get(sha) : undefined;
+      if (!author) continue;
+      if (row.startsWith('author-mail ')) {
+        author.email = row.slice('author-mail '.length).replace(/^<|>$/g, '');
+      } else if (row.startsWith('author-time ')) {
+        author.time = parseInt(row.slice('author-time '.length), 10);
+      }
+    }
+
+    return ranges;
+  } catch (err) {
+    console.warn(
+      `[git-metadata] Failed to blame ${filePath} in ${projectPath}: ${(err as Error).message}`
+    );
+    return [];
+  }
+}
+
+/**
+ * Lines per author among the blame ranges within `[startLine, endLine]` and
+ * no older than `since` (epoch seconds), most lines first.
+ */
+export function tallyContributors(
+  blame: GitCachedBlameRange[],
+  since: number,
+  startLine = -Infinity,
+  endLine = Infinity
+): Contributor[] {
+  const byAuthor = new Map<string, { lines: number; last: number }>();
+  for (const range of blame) {
+    if (range.time < since) continue;
+    const lines = Math.min(range.endLine, endLine) - Math.max(range.startLine, startLine) + 1;
+    if (lines <= 0) continue;
+    const tally = byAuthor.get(range.email) ?? { lines: 0, last: 0 };
+    tally.lines += lines;
+    tally.last = Math.max(tally.last, range.time);
+    byAuthor.set(range.email, tally);
+  }
+  return Array.from(byAuthor, ([email, t]) => ({
+    author_email: email,
+    lines: t.lines,
+    last_at: new Date(t.last * 1000).toISOString(),
+  }))
+    .sort((a, b) => b.lines - a.lines || b.last_at.localeCompare(a.last_at))
+    .slice(0, MAX_CONTRIBUTORS);
+}
+
 // ── Overlap check ──────────────────────────────────────────────────────────
 
 function rangesOverlap(aStart: number, aEnd: number, bStart: number, bEnd: number): boolean {
@@ -234,6 +338,7 @@ export async function extractGitMetadata(
     project,
     maxCommitsPerFile,
     ticketPatterns,
+    ownershipMonths,
     metadataStore,
     qdrantClient,
     chunksByFile,
@@ -242,6 +347,11 @@ export async function extractGitMetadata(
   let filesProcessed = 0;
   let commitsStored = 0;
   let ticketsStored = 0;
+  let contributorsStored = 0;
+
+  const windowStart = new Date();
+  windowStart.setMonth(windowStart.getMonth() - ownershipMonths);
+  const since = Math.floor(windowStart.getTime() / 1000);
 
   // Commits and hunks only change when HEAD moves, so parsed git output is
   // cached per file keyed by HEAD — repeated enrichment (e.g. a file edited
@@ -251,30 +361,44 @@ export async function extractGitMetadata(
   // Not a git repo (or no commits yet) — every per-file git call would fail,
   // so skip enrichment entirely instead of spawning doomed subprocesses.
   if (!head) {
-    return { filesProcessed: 0, commitsStored: 0, ticketsStored: 0 };
+    return { filesProcessed: 0, commitsStored: 0, ticketsStored: 0, contributorsStored: 0 };
   }
 
   for (const [filePath, chunks] of chunksByFile) {
     let commits: CommitInfo[];
     let hunks: DiffHunk[];
+    let blame: GitCachedBlameRange[];
     const cached = metadataStore.getGitFileCache(group, project, filePath, head);
-    if (cached) {
-      ({ commits, hunks } = cached);
+    if (cached?.blame) {
+      ({ commits, hunks, blame } = cached);
     } else {
-      [commits, hunks] = await Promise.all([
-        getFileCommits(projectPath, filePath, maxCommitsPerFile),
-        getFileDiffHunks(projectPath, filePath, maxCommitsPerFile),
-      ]);
-      metadataStore.setGitFileCache(group, project, filePath, head, commits, hunks);
+      // A cache entry written before ownership was tracked lacks only the blame.
+      if (cached) {
+        ({ commits, hunks } = cached);
+      } else {
+        [commits, hunks] = await Promise.all([
+          getFileCommits(projectPath, filePath, maxCommitsPerFile),
+          getFileDiffHunks(projectPath, filePath, maxCommitsPerFile),
+        ]);
+      }
+      // No history means not at HEAD yet — nothing to blame.
+      blame = commits.length > 0 ? await getFileBlame(projectPath, filePath) : [];
+      metadataStore.setGitFileCache(group, project, filePath, head, commits, hunks, blame);
     }
 
     if (commits.length === 0) continue;
     filesProcessed++;
 
+    metadataStore.upsertFileContributors(group, project, filePath, tallyContributors(blame, since));
+
     // Collect Qdrant payload updates for this file, then batch them
     const pendingUpdates: Array<{ chunkId: string; payload: Record<string, unknown> }> = [];
 
     for (const chunk of chunks) {
+      const contributors = tallyContributors(blame, since, chunk.startLine, chunk.endLine);
+      metadataStore.upsertChunkContributors(chunk.chunk_id, contributors);
+      contributorsStored += contributors.length;
+
       // Find which commits affected this chunk
       const affectingCommits = commits.filter((commit) => {
         const affectedChunks = getChunksForCommit(commit.hash, hunks, [chunk]);
@@ -354,5 +478,5 @@ export async function extractGitMetadata(
     }
   }
 
-  return { filesProcessed, commitsStored, ticketsStored };
+  return { filesProcessed, commitsStored, ticketsStored, contributorsStored };
 }
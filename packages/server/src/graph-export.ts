@@ -0,0 +1,332 @@
+import type { MetadataStore } from './metadata-db.js';
+import type { EdgeConfidence, RelationType, SymbolEdge } from './types.js';
+import { parseChunkId } from './indexer.js';
+
+/**
+ * Symbol-graph export for `/api/graph/:group` and `paparats graph export`.
+ *
+ * Edges are pulled straight from `symbol_edges` for a scope (a whole group, a
+ * project, a file subtree, or the neighbourhood of one chunk), optionally
+ * collapsed to file- or project-level edges, and rendered as a JSON node-link
+ * document (the networkx `node_link_data` shape), GraphML or Graphviz DOT.
+ * Nothing is read from Qdrant: node attributes come from the chunk ids.
+ */
+
+export const GRAPH_FORMATS = ['json', 'graphml', 'dot'] as const;
+export type GraphFormat = (typeof GRAPH_FORMATS)[number];
+
+export const GRAPH_LEVELS = ['chunk', 'file', 'project'] as const;
+export type GraphLevel = (typeof GRAPH_LEVELS)[number];
+
+export type GraphEdgeReader = Pick<
+  MetadataStore,
+  'getEdgesInScope' | 'getEdgesFrom' | 'getEdgesTo'
+>;
+
+export interface GraphScope {
+  /** Stored (suffixed) project name. */
+  project?: string;
+  /** File or directory path inside `project`. */
+  path?: string;
+  /** Centre of a neighbourhood export; takes precedence over project/path. */
+  chunkId?: string;
+  /** Hops around `chunkId` (default 1). */
+  depth?: number;
+}
+
+export interface GraphNode {
+  id: string;
+  level: GraphLevel;
+  /** Clean project name. */
+  project: string;
+  file: string | null;
+  startLine: number | null;
+  endLine: number | null;
+  /** Outside the requested scope — only here because an in-scope edge touches it. */
+  external: boolean;
+}
+
+/** All edges between one pair of nodes, merged. */
+export interface GraphLink {
+  source: string;
+  target: string;
+  /** Number of underlying chunk edges. */
+  weight: number;
+  relations: RelationType[];
+  symbols: string[];
+  /** Strongest confidence among the merged edges. */
+  confidence: EdgeConfidence;
+}
+
+export interface ExportedGraph {
+  group: string;
+  level: GraphLevel;
+  nodes: GraphNode[];
+  links: GraphLink[];
+  /** True when the scope had more edges than the limit. */
+  truncated: boolean;
+}
+
+/** Symbols kept per merged link — enough to label it without ballooning collapsed exports. */
+const MAX_LINK_SYMBOLS = 20;
+
+const CONFIDENCE_RANK: Record<EdgeConfidence, number> = {
+  RESOLVED: 0,
+  EXTRACTED: 1,
+  INFERRED: 2,
+  AMBIGUOUS: 3,
+};
+
+/** Chunk-id prefixes a scope covers. A path matches the file itself and everything under it. */
+function scopePrefixes(group: string, scope: GraphScope): string[] {
+  if (!scope.project) return [`${group}//`];
+  const base = `${group}//${scope.project}//`;
+  const p = scope.path?.replace(/^\.?\/+/, '').replace(/\/+$/, '');
+  return p ? [`${base}${p}//`, `${base}${p}/`] : [base];
+}
+
+/**
+ * Edges for `scope`, capped at `limit`. A neighbourhood is a BFS over both
+ * directions from `chunkId`; everything else is one prefix query.
+ */
+export function collectGraphEdges(
+  store: GraphEdgeReader,
+  group: string,
+  scope: GraphScope,
+  limit: number
+): { edges: SymbolEdge[]; inScope: (chunkId: string) => boolean; truncated: boolean } {
+  if (!scope.chunkId) {
+    const prefixes = scopePrefixes(group, scope);
+    const rows = store.getEdgesInScope(group, prefixes, limit + 1);
+    return {
+      edges: rows.slice(0, limit),
+      inScope: (id) => prefixes.some((p) => id.startsWith(p)),
+      truncated: rows.length > limit,
+    };
+  }
+
+  const depth = scope.depth ?? 1;
+  const reached = new Set([scope.chunkId]);
+  const seen = new Set<string>();
+  const edges: SymbolEdge[] = [];
+  let frontier = [scope.chunkId];
+  let truncated = false;
+  for (let hop = 0; hop < depth && frontier.length > 0 && !truncated; hop++) {
+    const next: string[] = [];
+    for (const id of frontier) {
+      for (const e of [...store.getEdgesFrom(id), ...store.getEdgesTo(id)]) {
+        const key = `${e.from_chunk_id}>${e.to_chunk_id}>${e.relation_type}>${e.symbol_name}`;
+        if (seen.has(key)) continue;
+        if (edges.length >= limit) {
+          truncated = true;
+          break;
+        }
+        seen.add(key);
+        edges.push(e);
+        for (const n of [e.from_chunk_id, e.to_chunk_id]) {
+          if (!reached.has(n)) {
+            reached.add(n);
+            next.push(n);
+          }
+        }
+      }
+      if (truncated) break;
+    }
+    frontier = next;
+  }
+  return { edges, inScope: () => true, truncated };
+}
+
+/**
+ * Turn chunk edges into a graph at `level`. Collapsing maps each chunk to its
+ * file (`project//file`) or project and merges parallel edges; self-loops
+ * created by collapsing (calls inside one file) are dropped.
+ */
+export function buildGraph(
+  edges: SymbolEdge[],
+  options: {
+    group: string;
+    level: GraphLevel;
+    inScope: (chunkId: string) => boolean;
+    cleanProject: (storedName: string) => string;
+    truncated?: boolean;
+  }
+): ExportedGraph {
+  const { level } = options;
+  const nodes = new Map<string, GraphNode>();
+  const links = new Map<string, GraphLink>();
+
+  const nodeFor = (chunkId: string): string => {
+    const parsed = parseChunkId(chunkId);
+    const project = parsed ? options.cleanProject(parsed.project) : 'unknown';
+    const external = !options.inScope(chunkId);
+    let id = chunkId;
+    if (level === 'file') id = `${project}//${parsed?.file ?? chunkId}`;
+    if (level === 'project') id = project;
+    const existing = nodes.get(id);
+    if (existing) {
+      // A collapsed node is in scope as soon as any of its chunks is.
+      if (!external) existing.external = false;
+      return id;
+    }
+    nodes.set(id, {
+      id,
+      level,
+      project,
+      file: level === 'project' ? null : (parsed?.file ?? null),
+      startLine: level === 'chunk' ? (parsed?.startLine ?? null) : null,
+      endLine: level === 'chunk' ? (parsed?.endLine ?? null) : null,
+      external,
+    });
+    return id;
+  };
+
+  for (const e of edges) {
+    const source = nodeFor(e.from_chunk_id);
+    const target = nodeFor(e.to_chunk_id);
+    if (source === target && level !== 'chunk') continue;
+    const confidence = e.confidence ?? 'INFERRED';
+    const key = `${source}\n${target}`;
+    const link = links.get(key);
+    if (!link) {
+      links.set(key, {
+        source,
+        target,
+        weight: 1,
+        relations: [e.relation_type],
+        symbols: [e.symbol_name],
+        confidence,
+      });
+      continue;
+    }
+    link.weight++;
+    if (!link.relations.includes(e.relation_type)) link.relations.push(e.relation_type);
+    if (link.symbols.length < MAX_LINK_SYMBOLS && !link.symbols.includes(e.symbol_name)) {
+      link.symbols.push(e.symbol_name);
+    }
+    if (CONFIDENCE_RANK[confidence] < CONFIDENCE_RANK[link.confidence])
+      link.confidence = confidence;
+  }
+
+  // Collapsing can leave nodes whose only edges were self-loops.
+  const linked = new Set<string>();
+  for (const l of links.values()) {
+    linked.add(l.source);
+    linked.add(l.target);
+  }
+  return {
+    group: options.group,
+    level,
+    nodes: Array.from(nodes.values()).filter((n) => linked.has(n.id)),
+    links: Array.from(links.values()),
+    truncated: options.truncated ?? false,
+  };
+}
+
+// ── Renderers ───────────────────────────────────────────────────────────────
+
+/** networkx-style node-link document. */
+export function toNodeLinkJson(graph: ExportedGraph): Record<string, unknown> {
+  return {
+    directed: true,
+    multigraph: false,
+    graph: { group: graph.group, level: graph.level, truncated: graph.truncated },
+    nodes: graph.nodes,
+    links: graph.links,
+  };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function toGraphML(graph: ExportedGraph): string {
+  const keys: Array<[string, 'node' | 'edge', 'string' | 'int' | 'boolean']> = [
+    ['level', 'node', 'string'],
+    ['project', 'node', 'string'],
+    ['file', 'node', 'string'],
+    ['startLine', 'node', 'int'],
+    ['endLine', 'node', 'int'],
+    ['external', 'node', 'boolean'],
+    ['weight', 'edge', 'int'],
+    ['relations', 'edge', 'string'],
+    ['symbols', 'edge', 'string'],
+    ['confidence', 'edge', 'string'],
+  ];
+  const data = (key: string, value: string | number | boolean | null): string =>
+    value === null ? '' : `      <data key="${key}">${escapeXml(String(value))}</data>\n`;
+
+  let xml = '<?xml version="1.0" encoding="UTF-8"?>\n';
+  xml += '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">\n';
+  for (const [name, domain, type] of keys) {
+    xml += `  <key id="${name}" for="${domain}" attr.name="${name}" attr.type="${type}"/>\n`;
+  }
+  xml += `  <graph id="${escapeXml(graph.group)}" edgedefault="directed">\n`;
+  for (const n of graph.nodes) {
+    xml += `    <node id="${escapeXml(n.id)}">\n`;
+    xml += data('level', n.level);
+    xml += data('project', n.project);
+    xml += data('file', n.file);
+    xml += data('startLine', n.startLine);
+    xml += data('endLine', n.endLine);
+    xml += data('external', n.external);
+    xml += '    </node>\n';
+  }
+  for (const l of graph.links) {
+    xml += `    <edge source="${escapeXml(l.source)}" target="${escapeXml(l.target)}">\n`;
+    xml += data('weight', l.weight);
+    xml += data('relations', l.relations.join(','));
+    xml += data('symbols', l.symbols.join(','));
+    xml += data('confidence', l.confidence);
+    xml += '    </edge>\n';
+  }
+  xml += '  </graph>\n</graphml>\n';
+  return xml;
+}
+
+function dotString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function dotLabel(n: GraphNode): string {
+  if (n.level === 'project') return n.project;
+  if (n.level === 'file') return `${n.project}/${n.file ?? ''}`;
+  return `${n.project}/${n.file ?? ''}:${n.startLine ?? 0}`;
+}
+
+export function toDot(graph: ExportedGraph): string {
+  let dot = `digraph ${dotString(graph.group)} {\n`;
+  dot += '  node [shape=box];\n';
+  for (const n of graph.nodes) {
+    const style = n.external ? ', style=dashed' : '';
+    dot += `  ${dotString(n.id)} [label=${dotString(dotLabel(n))}${style}];\n`;
+  }
+  for (const l of graph.links) {
+    const label = l.weight > 1 ? `${l.relations.join(',')} ×${l.weight}` : l.relations.join(',');
+    dot += `  ${dotString(l.source)} -> ${dotString(l.target)} [label=${dotString(label)}, weight=${l.weight}];\n`;
+  }
+  dot += '}\n';
+  return dot;
+}
+
+/** Body and content type for `format`. */
+export function renderGraph(
+  graph: ExportedGraph,
+  format: GraphFormat
+): { contentType: string; body: string } {
+  switch (format) {
+    case 'graphml':
+      return { contentType: 'application/graphml+xml', body: toGraphML(graph) };
+    case 'dot':
+      return { contentType: 'text/vnd.graphviz', body: toDot(graph) };
+    case 'json':
+      return {
+        contentType: 'application/json',
+        body: JSON.stringify(toNodeLinkJson(graph), null, 2),
+      };
+  }
+}
@@ -0,0 +1,165 @@
+import path from 'path';
+import type { ImportBinding } from './types.js';
+
+/**
+ * Resolve import bindings to files inside the same project. Everything here is
+ * path arithmetic over the project's indexed files — no filesystem access, no
+ * tsconfig / go.mod / Cargo.toml parsing. Imports that leave the project
+ * (npm packages, the Go standard library, external crates) resolve to nothing
+ * and the symbol graph falls back to name matching for them.
+ */
+
+/** Project-relative file paths, plus a directory → files lookup for package imports. */
+export interface ProjectFileIndex {
+  files: Set<string>;
+  dirs: Map<string, string[]>;
+}
+
+export function buildFileIndex(files: Iterable<string>): ProjectFileIndex {
+  const index: ProjectFileIndex = { files: new Set(), dirs: new Map() };
+  for (const file of files) {
+    if (index.files.has(file)) continue;
+    index.files.add(file);
+    const dir = path.posix.dirname(file);
+    const list = index.dirs.get(dir);
+    if (list) list.push(file);
+    else index.dirs.set(dir, [file]);
+  }
+  return index;
+}
+
+const JS_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.mts', '.cts'];
+
+/** Files whose path equals `suffix` or ends with `/<suffix>` — for imports rooted at an unknown source root. */
+function filesEndingWith(index: ProjectFileIndex, suffix: string): string[] {
+  const out: string[] = [];
+  for (const file of index.files) {
+    if (file === suffix || file.endsWith(`/${suffix}`)) out.push(file);
+  }
+  return out;
+}
+
+/** Files directly inside a directory that equals `suffix` or ends with `/<suffix>`. */
+function filesInDirEndingWith(index: ProjectFileIndex, suffix: string, ext: string): string[] {
+  const out: string[] = [];
+  for (const [dir, files] of index.dirs) {
+    if (dir === suffix || dir.endsWith(`/${suffix}`)) {
+      out.push(...files.filter((f) => f.endsWith(ext)));
+    }
+  }
+  return out;
+}
+
+function resolveJs(fromFile: string, source: string, index: ProjectFileIndex): string[] {
+  // Bare specifiers are packages (or tsconfig path aliases we don't model).
+  if (!source.startsWith('.')) return [];
+  const base = path.posix.normalize(path.posix.join(path.posix.dirname(fromFile), source));
+  // ESM TypeScript imports `./x.js` for a `./x.ts` source file.
+  const stem = base.replace(/\.(m|c)?jsx?$/, '');
+  const candidates = [
+    base,
+    ...JS_EXTENSIONS.map((ext) => stem + ext),
+    ...JS_EXTENSIONS.map((ext) => `${stem}/index${ext}`),
+  ];
+  const hit = candidates.find((c) => index.files.has(c));
+  return hit ? [hit] : [];
+}
+
+function resolvePython(fromFile: string, source: string, index: ProjectFileIndex): string[] {
+  const dots = /^\.*/.exec(source)![0].length;
+  const modulePath = source.slice(dots).split('.').filter(Boolean).join('/');
+  if (dots > 0) {
+    // `from .m import x` is relative to the importing package; each extra dot climbs one level.
+    let dir = path.posix.dirname(fromFile);
+    for (let i = 1; i < dots; i++) dir = path.posix.dirname(dir);
+    const base = modulePath ? path.posix.join(dir, modulePath) : dir;
+    const candidates = modulePath
+      ? [`${base}.py`, `${base}/__init__.py`]
+      : [path.posix.join(base, '__init__.py')];
+    return candidates.filter((c) => index.files.has(c));
+  }
+  if (!modulePath) return [];
+  // Absolute imports are rooted at a source root we don't know (`src/`, repo root, …).
+  const asModule = filesEndingWith(index, `${modulePath}.py`);
+  return asModule.length > 0 ? asModule : filesEndingWith(index, `${modulePath}/__init__.py`);
+}
+
+function resolveGo(source: string, index: ProjectFileIndex): string[] {
+  // The module prefix (`github.com/org/repo`) isn't in the file paths, so try
+  // the longest trailing run of the import path that names a project directory.
+  const segments = source.split('/');
+  for (let i = 0; i < segments.length; i++) {
+    const dir = segments.slice(i).join('/');
+    const files = index.dirs.get(dir)?.filter((f) => f.endsWith('.go') && !f.endsWith('_test.go'));
+    if (files && files.length > 0) return files;
+  }
+  return [];
+}
+
+/** Directory holding the child modules of the module defined by `file`. */
+function rustModuleDir(file: string): string {
+  const base = path.posix.basename(file);
+  const dir = path.posix.dirname(file);
+  return base === 'mod.rs' || base === 'lib.rs' || base === 'main.rs'
+    ? dir
+    : path.posix.join(dir, base.replace(/\.rs$/, ''));
+}
+
+function resolveRust(fromFile: string, source: string, index: ProjectFileIndex): string[] {
+  const segments = source.split('::');
+  let dir: string;
+  if (segments[0] === 'crate') {
+    // Crate root is the nearest enclosing `src/` (workspaces have one per crate).
+    const parts = fromFile.split('/');
+    const srcAt = parts.lastIndexOf('src');
+    dir = srcAt >= 0 ? parts.slice(0, srcAt + 1).join('/') : path.posix.dirname(fromFile);
+    segments.shift();
+  } else if (segments[0] === 'self' || segments[0] === 'super') {
+    dir = rustModuleDir(fromFile);
+    if (segments[0] === 'self') segments.shift();
+    while (segments[0] === 'super') {
+      dir = path.posix.dirname(dir);
+      segments.shift();
+    }
+  } else {
+    // `std::…` or another crate.
+    return [];
+  }
+  if (segments.length === 0) return [];
+  const base = path.posix.join(dir, ...segments);
+  return [`${base}.rs`, `${base}/mod.rs`].filter((c) => index.files.has(c));
+}
+
+function resolveJava(binding: ImportBinding, index: ProjectFileIndex): string[] {
+  const pkgPath = binding.source.split('.').join('/');
+  if (binding.imported === '*') return filesInDirEndingWith(index, pkgPath, '.java');
+  const asClass = filesEndingWith(index, `${pkgPath}/${binding.imported}.java`);
+  // `import static a.b.Util.helper` — the source is the class file itself.
+  return asClass.length > 0 ? asClass : filesEndingWith(index, `${pkgPath}.java`);
+}
+
+/**
+ * Resolve one import binding of `fromFile` to the project files that define
+ * what it imports. Language is taken from the importing file's extension.
+ * Returns an empty list when the import points outside the project.
+ */
+export function resolveImport(
+  fromFile: string,
+  binding: ImportBinding,
+  index: ProjectFileIndex
+): string[] {
+  const ext = path.posix.extname(fromFile);
+  if (JS_EXTENSIONS.includes(ext)) return resolveJs(fromFile, binding.source, index);
+  switch (ext) {
+    case '.py':
+      return resolvePython(fromFile, binding.source, index);
+    case '.go':
+      return resolveGo(binding.source, index);
+    case '.rs':
+      return resolveRust(fromFile, binding.source, index);
+    case '.java':
+      return resolveJava(binding, index);
+    default:
+      return [];
+  }
+}
@@ -4,10 +4,13 @@ import { ArchStore } from './arch/store.js';
 import { createArchEmbeddingProvider, resolveArchEmbeddingConfig } from './arch/text-embeddings.js';
 import { DocsStore } from './docs/store.js';
 import { DocsIdfStore } from './docs/idf-store.js';
+import { createCodeIdfStore } from './code-bm25.js';
 import { TerminologyStore } from './terminology/store.js';
 import { Searcher } from './searcher.js';
+import { createRerankerFromEnv } from './reranker.js';
 import { WatcherManager } from './watcher.js';
 import { MetadataStore } from './metadata-db.js';
+import { ApiTokenStore } from './auth/token-store.js';
 import { createTreeSitterManager } from './tree-sitter-parser.js';
 import type { TreeSitterManager } from './tree-sitter-parser.js';
 import type { ProjectConfig } from './types.js';
@@ -52,6 +55,17 @@ const PAPARATS_DOCS_AUDIENCE = process.env.PAPARATS_DOCS_AUDIENCE
  * Default '' = upstream behavior unchanged. See applyProjectSuffix in indexer.ts.
  */
 const PAPARATS_PROJECT_SUFFIX = process.env.PAPARATS_PROJECT_SUFFIX?.trim() ?? '';
+/**
+ * `PAPARATS_AUTH=tokens` requires a per-user bearer token on MCP and /api
+ * routes. `PAPARATS_ADMIN_TOKEN` enables the /api/tokens admin API used by
+ * `paparats tokens` — set it first to mint tokens before switching auth on.
+ */
+const PAPARATS_AUTH = process.env.PAPARATS_AUTH?.trim().toLowerCase() ?? '';
+const PAPARATS_ADMIN_TOKEN = process.env.PAPARATS_ADMIN_TOKEN || undefined;
+if (PAPARATS_AUTH && PAPARATS_AUTH !== 'tokens') {
+  console.error(`[startup] Unknown PAPARATS_AUTH="${PAPARATS_AUTH}" (expected "tokens")`);
+  process.exit(1);
+}
 
 const embeddingConfig = resolveEmbeddingConfigFromEnv();
 const embeddingProvider = createEmbeddingProvider(embeddingConfig);
@@ -65,6 +79,18 @@ if (EMBED_URL !== 'http://127.0.0.1:18434') {
 
 const metadataStore = new MetadataStore();
 
+const tokenStore =
+  PAPARATS_AUTH === 'tokens' || PAPARATS_ADMIN_TOKEN ? new ApiTokenStore() : undefined;
+if (tokenStore && PAPARATS_AUTH === 'tokens') {
+  const active = tokenStore.activeCount();
+  console.log(`[startup] Token auth enabled (${active} active tokens)`);
+  if (active === 0 && !PAPARATS_ADMIN_TOKEN) {
+    console.warn(
+      '[startup] No API tokens issued and PAPARATS_ADMIN_TOKEN is unset — every MCP/API request will be rejected'
+    );
+  }
+}
+
 let treeSitter: TreeSitterManager | undefined;
 try {
   treeSitter = await createTreeSitterManager();
@@ -76,6 +102,9 @@ try {
 }
 
 const qdrantClient = createQdrantClient({ url: QDRANT_URL, apiKey: QDRANT_API_KEY });
+// BM25 corpus stats for hybrid code search — shared with the indexer service via
+// the ~/.paparats volume so both sides weight terms against the same corpus.
+const codeIdfStore = createCodeIdfStore();
 const queryCache = new QueryCache();
 const metrics = await createMetrics();
 const { telemetry, analytics } = await buildTelemetry();
@@ -93,6 +122,7 @@ const indexer = new Indexer({
   telemetry,
   metrics,
   projectSuffix: PAPARATS_PROJECT_SUFFIX,
+  idf: codeIdfStore,
 });
 
 const archEmbeddingConfig = resolveArchEmbeddingConfig(process.env);
@@ -120,6 +150,11 @@ const terminologyStore = new TerminologyStore({
   provider: archEmbeddingProvider,
 });
 
+const reranker = createRerankerFromEnv();
+if (reranker) {
+  console.log(`[startup] Search reranker: ${reranker.name}`);
+}
+
 const searcher = new Searcher({
   qdrantUrl: QDRANT_URL,
   embeddingProvider,
@@ -130,6 +165,9 @@ const searcher = new Searcher({
   telemetry,
   analytics: analytics ?? undefined,
   projectSuffix: PAPARATS_PROJECT_SUFFIX,
+  idf: codeIdfStore,
+  reranker,
+  rerankOverfetch: parseInt(process.env.RERANK_OVERFETCH ?? '', 10) || undefined,
 });
 
 const watcherManager = new WatcherManager({
@@ -165,6 +203,9 @@ const { app, mcpHandler, setShuttingDown, getShuttingDown, stopGroupPoll } = cre
   docsStore,
   ...(PAPARATS_DOCS_AUDIENCE ? { docsAudienceScope: PAPARATS_DOCS_AUDIENCE } : {}),
   terminologyStore,
+  tokenStore,
+  requireTokens: PAPARATS_AUTH === 'tokens',
+  adminToken: PAPARATS_ADMIN_TOKEN,
 });
 
 const GAUGE_REFRESH_INTERVAL_MS = 15_000;
@@ -264,6 +305,8 @@ async function shutdown(): Promise<void> {
   embeddingProvider.close();
   archEmbeddingProvider.close();
   metadataStore.close();
+  tokenStore?.close();
+  codeIdfStore.close();
   treeSitter?.close();
   stopRetention?.();
   analytics?.close();
@@ -2,7 +2,13 @@ import { QdrantClient } from '@qdrant/js-client-rest';
 import { glob } from 'glob';
 import fs from 'fs';
 import path from 'path';
-import { filterFilesByGitignore, detectLanguageByPath, detectNonSource } from '@paparats/shared';
+import {
+  createGitignoreFilter,
+  filterFilesByGitignore,
+  detectLanguageByPath,
+  detectNonSource,
+} from '@paparats/shared';
+import { Minimatch } from 'minimatch';
 import { v7 as uuidv7 } from 'uuid';
 import PQueue from 'p-queue';
 import { Chunker } from './chunker.js';
@@ -15,10 +21,48 @@ import { extractSymbolsForChunks } from './ast-symbol-extractor.js';
 import { resolveAstLanguage } from './ast-language.js';
 import type { SymbolExtractionResult } from './ast-symbol-extractor.js';
 import { buildSymbolEdges } from './symbol-graph.js';
+import { extractTableRefs } from './table-refs.js';
+import { isTestChunk } from './test-detection.js';
+import { loadCodeowners, ownersOf } from './codeowners.js';
+import { branchProjectName, isOnBranch, splitBranchProject } from './branches.js';
 import { chunkByAst } from './ast-chunker.js';
+import { chunkContract, isContractLanguage } from './contract-chunker.js';
+import type { ContractChunks } from './contract-chunker.js';
+import { chunkNotebook, parseNotebook } from './notebook-chunker.js';
+import type { CellSymbolExtractor } from './notebook-chunker.js';
+import { chunkMdx } from './mdx-chunker.js';
+import {
+  chunkHeaderFingerprint,
+  DEFAULT_CHUNK_HEADER,
+  embeddingInput,
+  NO_CHUNK_HEADER,
+  renderChunkHeader,
+} from './chunk-header.js';
 import type { DocsStore } from './docs/store.js';
 import { NotMarkdownError } from './docs/chunker.js';
-import type { ChunkResult, ProjectConfig, IndexerStats } from './types.js';
+import type { DocsIdfStore } from './docs/idf-store.js';
+import type { CorpusStats, SparseVector } from './docs/bm25.js';
+import {
+  CODE_DENSE_VECTOR,
+  CODE_SPARSE_VECTOR,
+  CODE_DOC_VECTOR,
+  EMPTY_CORPUS,
+  buildCodeDocumentSparseVector,
+  tokenizeCode,
+  vectorLayoutOf,
+  type VectorLayout,
+} from './code-bm25.js';
+import type {
+  ChunkResult,
+  HeritageRef,
+  ImportBinding,
+  ProjectConfig,
+  IndexerStats,
+  IndexPhase,
+  IndexProgress,
+  IndexRunOptions,
+  SymbolChunk,
+} from './types.js';
 import type { Telemetry } from './telemetry/facade.js';
 import type { MetricsRegistry } from './metrics.js';
 import { NoOpMetrics } from './metrics.js';
@@ -84,9 +128,13 @@ export function createQdrantClient(opts: {
  * one place (the `stored()` chokepoint on the write path) and stripped in
  * exactly one place (the display boundary), so a plain append is correct and
  * there is no double-append to guard against. An empty suffix is a no-op.
+ * A branch variant (`foo@release`) takes the suffix on its base name
+ * (`foo-v3@release`), so it still splits back to its stored base project.
  */
 export function applyProjectSuffix(projectName: string, suffix: string): string {
   if (suffix === '') return projectName;
+  const { project, branch } = splitBranchProject(projectName);
+  if (branch !== null) return branchProjectName(`${project}${suffix}`, branch);
   return `${projectName}${suffix}`;
 }
 
@@ -96,7 +144,10 @@ export function applyProjectSuffix(projectName: string, suffix: string): string
  * actually ends with the configured suffix (empty suffix is a no-op).
  */
 export function stripProjectSuffix(storedName: string, suffix: string): string {
-  if (suffix === '' || !storedName.endsWith(suffix)) return storedName;
+  if (suffix === '') return storedName;
+  const { project, branch } = splitBranchProject(storedName);
+  if (branch !== null) return branchProjectName(stripProjectSuffix(project, suffix), branch);
+  if (!storedName.endsWith(suffix)) return storedName;
   return storedName.slice(0, -suffix.length);
 }
 
@@ -146,6 +197,21 @@ export function parseChunkId(chunkId: string): {
   return { group, project, file, startLine, endLine, hash };
 }
 
+/** Running progress of one index run and its `onProgress` hook. */
+function progressReporter(options: IndexRunOptions): {
+  progress: IndexProgress;
+  report: (phase?: IndexPhase) => void;
+} {
+  const progress: IndexProgress = { phase: 'chunk', filesProcessed: 0, filesTotal: 0, chunks: 0 };
+  return {
+    progress,
+    report: (phase) => {
+      if (phase) progress.phase = phase;
+      options.onProgress?.({ ...progress });
+    },
+  };
+}
+
 export interface IndexerConfig {
   qdrantUrl: string;
   /** Qdrant API key for authenticated access (e.g. Qdrant Cloud) */
@@ -179,6 +245,12 @@ export interface IndexerConfig {
    * the code-only indexing path is unchanged; the daemon opts in via INDEX_DOCS.
    */
   docsStore?: DocsStore;
+  /**
+   * Optional BM25 corpus store for the code collections (see code-bm25.ts).
+   * Without it sparse vectors are still written, weighted as if every term were
+   * equally rare — exact-token matching works, term rarity is just not priced in.
+   */
+  idf?: DocsIdfStore;
 }
 
 /** Metadata stamped on each Qdrant collection so we can detect provider
@@ -190,11 +262,44 @@ export interface CollectionMeta {
   createdAt: number;
   /** Schema version of this metadata record (in case we change fields later). */
   metaVersion: number;
+  /**
+   * Fingerprint of the chunk header template each project's chunks were
+   * embedded under, by stored project name (see chunk-header.ts). Projects
+   * absent from a version-1 record were embedded without a header.
+   */
+  chunkHeaders: Record<string, string>;
 }
 
 /** Deterministic UUID for the per-collection metadata sentinel point. */
 const META_SENTINEL_ID = '00000000-0000-7000-8000-000000005ea7';
-const META_SCHEMA_VERSION = 1;
+const META_SCHEMA_VERSION = 2;
+
+/**
+ * Suffix of the scratch collection {@link Indexer.migrateToHybrid} copies a
+ * group through. Excluded from {@link Indexer.listGroups} like the sidecars.
+ */
+const MIGRATION_SUFFIX = '__hybrid_migration';
+
+/** Keyword payload indexes created on every code collection. */
+const PAYLOAD_INDEXES = [
+  'project',
+  'file',
+  'chunk_id',
+  'kind',
+  'tags',
+  'last_commit_at',
+  'ticket_keys',
+  'language',
+  'defines_symbols',
+  'uses_symbols',
+  'service',
+  'bounded_context',
+  'branch',
+  'branches',
+] as const;
+
+/** A code point's vector: unnamed dense on legacy collections, named dense + sparse otherwise. */
+type PointVector = number[] | Record<string, number[] | SparseVector>;
 
 /** Thrown when the current embedding provider doesn't match what stamped the
  *  Qdrant collection. Indexing or searching against a mismatched collection
@@ -226,6 +331,9 @@ export class CollectionMetaMismatchError extends Error {
 const QDRANT_TIMEOUT_MS = 30_000;
 const QDRANT_MAX_RETRIES = 3;
 
+/** Defining chunks a prefix / fuzzy symbol lookup scans per group before it stops. */
+export const SYMBOL_SCAN_MAX_CHUNKS = 20_000;
+
 export class Indexer {
   private qdrant: QdrantClient;
   private chunkers = new Map<string, Chunker>();
@@ -240,6 +348,9 @@ export class Indexer {
   /** Suffix appended to project names in the storage layer ('' = disabled). */
   private readonly projectSuffix: string;
   private docsStore: DocsStore | null;
+  private idf: DocsIdfStore | null;
+  /** Vector layout per group collection, learned on first touch. */
+  private layouts = new Map<string, VectorLayout>();
   stats: IndexerStats;
 
   constructor(config: IndexerConfig) {
@@ -260,6 +371,7 @@ export class Indexer {
     this.metrics = config.metrics ?? new NoOpMetrics();
     this.projectSuffix = config.projectSuffix ?? '';
     this.docsStore = config.docsStore ?? null;
+    this.idf = config.idf ?? null;
     this.stats = { files: 0, chunks: 0, cached: 0, errors: 0, skipped: 0 };
   }
 
@@ -285,6 +397,11 @@ export class Indexer {
     return this.stored(projectName);
   }
 
+  /** Inverse of {@link storedProjectName}, for project names parsed out of chunk ids. */
+  cleanProjectName(storedName: string): string {
+    return stripProjectSuffix(storedName, this.projectSuffix);
+  }
+
   /** Expose Qdrant client for git-metadata enrichment */
   get qdrantClient(): QdrantClient {
     return this.qdrant;
@@ -328,6 +445,80 @@ export class Indexer {
     throw new Error(`Qdrant failed after ${retries} retries: ${lastError?.message}`);
   }
 
+  /**
+   * Vector layout of a group's collection. A collection that doesn't exist yet
+   * reports `documented` — that's what {@link ensureCollection} creates. Legacy
+   * isn't cached: it can be migrated underneath a running process.
+   */
+  private async layoutOf(groupName: string): Promise<VectorLayout> {
+    const cached = this.layouts.get(groupName);
+    if (cached) return cached;
+    try {
+      const layout = vectorLayoutOf(await this.qdrant.getCollection(this.col(groupName)));
+      if (layout !== 'legacy') this.layouts.set(groupName, layout);
+      return layout;
+    } catch {
+      return 'documented';
+    }
+  }
+
+  /**
+   * Delete the chunks matching `must` from a group collection. With an IDF store
+   * attached, their terms are first subtracted from the corpus stats (recovered
+   * from the stored content) so document frequencies stay exact across updates.
+   */
+  private async deleteChunks(
+    groupName: string,
+    must: Array<Record<string, unknown>>
+  ): Promise<void> {
+    if (this.idf) await this.forgetTerms(groupName, must);
+    await this.retryQdrant(() =>
+      this.qdrant.delete(this.col(groupName), { filter: { must }, wait: true })
+    );
+  }
+
+  /** Reverse the BM25 corpus contribution of the chunks matching `must`. */
+  private async forgetTerms(
+    groupName: string,
+    must: Array<Record<string, unknown>>
+  ): Promise<void> {
+    if (!this.idf) return;
+    let offset: string | number | undefined = undefined;
+    try {
+      for (;;) {
+        const result = await this.qdrant.scroll(this.col(groupName), {
+          filter: { must, must_not: [{ key: '__meta', match: { value: true } }] },
+          with_payload: { include: ['content'] },
+          with_vector: false,
+          limit: 1000,
+          ...(offset !== undefined ? { offset } : {}),
+        });
+        for (const point of result.points) {
+          const content = (point.payload as Record<string, unknown> | null)?.['content'];
+          if (typeof content === 'string') {
+            const tokens = tokenizeCode(content);
+            this.idf.removeDocument(groupName, new Set(tokens), tokens.length);
+          }
+        }
+        if (!result.next_page_offset) break;
+        offset = result.next_page_offset as string | number;
+      }
+    } catch (err) {
+      console.warn(
+        `[indexer] Failed to update BM25 stats for deleted chunks in ${groupName}: ${(err as Error).message}`
+      );
+    }
+  }
+
+  /** Add freshly written chunks to the group's BM25 corpus stats. */
+  private recordTerms(groupName: string, contents: string[]): void {
+    if (!this.idf) return;
+    for (const content of contents) {
+      const tokens = tokenizeCode(content);
+      this.idf.addDocument(groupName, new Set(tokens), tokens.length);
+    }
+  }
+
   /** Fetch existing chunk hashes for a file from Qdrant */
   private async getFileChunkHashes(
     groupName: string,
@@ -372,6 +563,108 @@ export class Indexer {
     }
   }
 
+  /**
+   * Add `branch` to (or drop it from) the `branches` of a default-branch
+   * file's chunks — the branch's view then includes (or stops including)
+   * them. `baseProject` is the stored default-branch name.
+   */
+  private async shareWithBranch(
+    groupName: string,
+    baseProject: string,
+    relPath: string,
+    branch: string,
+    share: boolean
+  ): Promise<void> {
+    const must: Array<Record<string, unknown>> = [
+      { key: 'project', match: { value: baseProject } },
+      { key: 'file', match: { value: relPath } },
+    ];
+    // Dropping only has to visit the chunks that carry the branch.
+    if (!share) must.push({ key: 'branches', match: { value: branch } });
+
+    const byBranches = new Map<string, { branches: string[]; ids: Array<string | number> }>();
+    let offset: string | number | undefined = undefined;
+    for (;;) {
+      const result = await this.retryQdrant(() =>
+        this.qdrant.scroll(this.col(groupName), {
+          filter: { must },
+          with_payload: { include: ['branches'] },
+          with_vector: false,
+          limit: 1000,
+          ...(offset !== undefined ? { offset } : {}),
+        })
+      );
+      for (const point of result.points) {
+        const raw = (point.payload as Record<string, unknown> | null)?.['branches'];
+        const current = Array.isArray(raw) ? (raw as string[]) : [];
+        if (current.includes(branch) === share) continue;
+        const branches = share ? [...current, branch].sort() : current.filter((b) => b !== branch);
+        const key = branches.join('\0');
+        const entry = byBranches.get(key) ?? { branches, ids: [] };
+        entry.ids.push(point.id);
+        byBranches.set(key, entry);
+      }
+      if (!result.next_page_offset) break;
+      offset = result.next_page_offset as string | number;
+    }
+
+    for (const { branches, ids } of byBranches.values()) {
+      await this.retryQdrant(() =>
+        this.qdrant.setPayload(this.col(groupName), {
+          points: ids,
+          payload: { branches },
+          wait: true,
+        })
+      );
+    }
+  }
+
+  /**
+   * Drop `branch` from every default-branch file it no longer shares: files
+   * outside `keep` (the branch's current files), or every file when `keep`
+   * is null. Non-fatal, like orphan cleanup.
+   */
+  private async unshareMissingFiles(
+    groupName: string,
+    baseProject: string,
+    branch: string,
+    keep: Set<string> | null
+  ): Promise<void> {
+    try {
+      const files = new Set<string>();
+      let offset: string | number | undefined = undefined;
+      for (;;) {
+        const result = await this.retryQdrant(() =>
+          this.qdrant.scroll(this.col(groupName), {
+            filter: {
+              must: [
+                { key: 'project', match: { value: baseProject } },
+                { key: 'branches', match: { value: branch } },
+              ],
+            },
+            with_payload: { include: ['file'] },
+            with_vector: false,
+            limit: 1000,
+            ...(offset !== undefined ? { offset } : {}),
+          })
+        );
+        for (const point of result.points) {
+          const file = (point.payload as Record<string, unknown> | null)?.['file'];
+          if (typeof file === 'string' && !keep?.has(file)) files.add(file);
+        }
+        if (!result.next_page_offset) break;
+        offset = result.next_page_offset as string | number;
+      }
+      for (const file of files) {
+        await this.shareWithBranch(groupName, baseProject, file, branch, false);
+      }
+    } catch (err) {
+      console.warn(
+        `[indexer] Failed to clean up files shared with ${branch}: ${(err as Error).message}`
+      );
+    }
+  }
+
   /** Get all unique file paths currently indexed for a project in Qdrant */
   private async getIndexedFilePaths(groupName: string, projectName: string): Promise<Set<string>> {
     const files = new Set<string>();
@@ -408,6 +701,33 @@ export class Indexer {
     return files;
   }
 
+  /**
+   * Map every indexed file to its CODEOWNERS owners. Re-run in full each time
+   * — an edit to CODEOWNERS re-owns files whose content didn't change — and
+   * cleared when the project has no CODEOWNERS file. Non-fatal.
+   */
+  private async recordCodeOwners(
+    groupName: string,
+    storedName: string,
+    projectPath: string,
+    files: Iterable<string>
+  ): Promise<void> {
+    try {
+      const codeowners = await loadCodeowners(projectPath);
+      const owners = new Map<string, string[]>();
+      if (codeowners) {
+        for (const file of files) {
+          const fileOwners = ownersOf(codeowners.rules, file);
+          if (fileOwners) owners.set(file, fileOwners);
+        }
+        console.log(`  [indexer] CODEOWNERS: ${owners.size} files owned via ${codeowners.file}`);
+      }
+      this.metadataStore!.replaceCodeOwners(groupName, storedName, owners);
+    } catch (err) {
+      console.warn(`  [indexer] CODEOWNERS mapping failed (non-fatal): ${(err as Error).message}`);
+    }
+  }
+
   /** Remove Qdrant chunks and metadata for files that are no longer present */
   private async cleanupOrphanedChunks(
     groupName: string,
@@ -420,17 +740,10 @@ export class Indexer {
 
       if (orphaned.length > 0) {
         for (const relPath of orphaned) {
-          await this.retryQdrant(() =>
-            this.qdrant.delete(this.col(groupName), {
-              filter: {
-                must: [
-                  { key: 'project', match: { value: projectName } },
-                  { key: 'file', match: { value: relPath } },
-                ],
-              },
-              wait: true,
-            })
-          );
+          await this.deleteChunks(groupName, [
+            { key: 'project', match: { value: projectName } },
+            { key: 'file', match: { value: relPath } },
+          ]);
           this.metadataStore?.deleteByFile(groupName, projectName, relPath);
         }
         console.log(
@@ -499,14 +812,19 @@ export class Indexer {
 
   /**
    * Parse once, chunk by AST (with regex fallback), and extract symbols from the same tree.
-   * Returns chunks and optional symbol results.
+   * Returns chunks and optional symbol results, plus the language to index them as
+   * when it isn't the file's (a notebook's kernel language).
    */
   private async chunkFile(
     content: string,
     language: string,
     project: ProjectConfig,
     fileContext?: { groupName: string; file: string }
-  ): Promise<{ chunks: ChunkResult[]; symbolResults: SymbolExtractionResult[] | null }> {
+  ): Promise<{
+    chunks: ChunkResult[];
+    symbolResults: SymbolExtractionResult[] | null;
+    language?: string;
+  }> {
     const reportError = (
       errorClass:
         | 'ast_parse_failed'
@@ -530,6 +848,34 @@ export class Indexer {
       });
     };
 
+    // API contracts have their own scanners (no tree-sitter grammar)
+    if (isContractLanguage(language)) {
+      const contract = chunkContract(content, language, project.indexing.chunkSize * 3);
+      if (contract) return this.dropNonSourceResults(contract, fileContext?.file);
+    }
+
+    // Notebooks: one chunk per cell, code cells parsed in the kernel's language
+    if (language === 'notebook') {
+      const notebook = parseNotebook(content);
+      if (notebook) {
+        const cells = await chunkNotebook(
+          notebook,
+          project.indexing.chunkSize * 3,
+          this.cellSymbolExtractor(notebook.language)
+        );
+        return {
+          ...this.dropNonSourceResults(cells, fileContext?.file),
+          language: notebook.language,
+        };
+      }
+    }
+
+    // MDX: split like markdown docs, rendered components as symbol uses
+    if (language === 'mdx') {
+      const mdx = chunkMdx(content, project.indexing.chunkSize, project.indexing.chunkSize * 3);
+      if (mdx) return this.dropNonSourceResults(mdx, fileContext?.file);
+    }
+
     // Try AST-based chunking + symbol extraction (single parse)
     if (this.treeSitter) {
       try {
@@ -608,8 +954,36 @@ export class Indexer {
     return clean;
   }
 
-  /** Build Qdrant point payloads from chunks, embeddings, and symbol results */
-  private buildPointPayloads(
+  /** {@link dropNonSourceChunks} for scanner output, keeping `symbolResults` aligned. */
+  private dropNonSourceResults(result: ContractChunks, file?: string): ContractChunks {
+    const chunks = this.dropNonSourceChunks(result.chunks, file);
+    const kept = new Set(chunks);
+    return {
+      chunks,
+      symbolResults: result.symbolResults.filter((_, i) => kept.has(result.chunks[i]!)),
+    };
+  }
+
+  /** Symbols for notebook code cells from the kernel language's grammar, when it has one. */
+  private cellSymbolExtractor(language: string): CellSymbolExtractor | undefined {
+    const treeSitter = this.treeSitter;
+    if (!treeSitter) return undefined;
+    return async (code, ranges) => {
+      const parsed = await treeSitter.parseFile(code, language);
+      if (!parsed) return null;
+      try {
+        return extractSymbolsForChunks(parsed.tree, parsed.language, ranges, language);
+      } finally {
+        parsed.tree.delete();
+      }
+    };
+  }
+
+  /** Build Qdrant point payloads from chunks, embeddings, and symbol results.
+   *  Named-layout collections also get a BM25 sparse vector per chunk, and
+   *  collections with the doc vector the embedded doc summary of each chunk
+   *  that has one. */
+  private async buildPointPayloads(
     chunks: ChunkResult[],
     embeddings: number[][],
     groupName: string,
@@ -619,44 +993,102 @@ export class Indexer {
     tags: string[],
     service: string,
     boundedContext: string | null,
-    symbolResults: SymbolExtractionResult[] | null
-  ): Array<{ id: string; vector: number[]; payload: Record<string, unknown> }> {
-    return chunks.map((chunk, i) => ({
-      id: uuidv7(),
-      vector: embeddings[i]!,
-      payload: {
-        project: projectName,
-        file: relPath,
-        language,
-        startLine: chunk.startLine,
-        endLine: chunk.endLine,
-        content: chunk.content,
-        hash: chunk.hash,
-        chunk_id: buildChunkId(
-          groupName,
-          projectName,
-          relPath,
-          chunk.startLine,
-          chunk.endLine,
-          chunk.hash
+    symbolResults: SymbolExtractionResult[] | null,
+    layout: VectorLayout
+  ): Promise<Array<{ id: string; vector: PointVector; payload: Record<string, unknown> }>> {
+    const stats =
+      layout === 'legacy' ? EMPTY_CORPUS : (this.idf?.getCorpusStats(groupName) ?? EMPTY_CORPUS);
+    const docEmbeddings =
+      layout === 'documented' ? await this.embedDocSummaries(symbolResults) : [];
+    const { branch } = splitBranchProject(projectName);
+    return chunks.map((chunk, i) => {
+      const tables = symbolResults?.[i]?.tables ?? extractTableRefs(chunk.content);
+      return {
+        id: uuidv7(),
+        vector: this.pointVector(
+          embeddings[i]!,
+          chunk.content,
+          layout,
+          stats,
+          docEmbeddings[i] ?? null
         ),
-        symbol_name: symbolResults?.[i]?.defined_symbols?.[0]?.name ?? null,
-        kind: symbolResults?.[i]?.defined_symbols?.[0]?.kind ?? null,
-        service,
-        bounded_context: boundedContext,
-        tags,
-        defines_symbols: symbolResults?.[i]?.defines_symbols ?? [],
-        uses_symbols: symbolResults?.[i]?.uses_symbols ?? [],
-      },
-    }));
+        payload: {
+          project: projectName,
+          file: relPath,
+          language,
+          startLine: chunk.startLine,
+          endLine: chunk.endLine,
+          content: chunk.content,
+          hash: chunk.hash,
+          chunk_id: buildChunkId(
+            groupName,
+            projectName,
+            relPath,
+            chunk.startLine,
+            chunk.endLine,
+            chunk.hash
+          ),
+          symbol_name: symbolResults?.[i]?.defined_symbols?.[0]?.name ?? null,
+          kind: symbolResults?.[i]?.defined_symbols?.[0]?.kind ?? null,
+          service,
+          bounded_context: boundedContext,
+          tags,
+          defines_symbols: symbolResults?.[i]?.defines_symbols ?? [],
+          uses_symbols: symbolResults?.[i]?.uses_symbols ?? [],
+          imports: symbolResults?.[i]?.imports ?? [],
+          heritage: symbolResults?.[i]?.heritage ?? [],
+          defines_tables: tables.defines,
+          uses_tables: tables.uses,
+          doc_summary: symbolResults?.[i]?.doc_summary ?? null,
+          is_test: isTestChunk(relPath, language, symbolResults?.[i]?.scope),
+          ...(branch !== null ? { branch } : {}),
+        },
+      };
+    });
+  }
+
+  /** Embed the chunks' doc summaries in one batch; null for chunks without one. */
+  private async embedDocSummaries(
+    symbolResults: SymbolExtractionResult[] | null
+  ): Promise<Array<number[] | null>> {
+    const docs = (symbolResults ?? []).map((r) => r.doc_summary ?? null);
+    const texts = docs.filter((d): d is string => d !== null);
+    if (texts.length === 0) return [];
+    const embedded = await this.provider.embedBatchPassage(texts);
+    let next = 0;
+    return docs.map((d) => (d === null ? null : (embedded[next++] ?? null)));
+  }
+
+  /** Shape a chunk's vector for the collection layout. Empty sparse vectors
+   *  (no tokens) and missing doc embeddings are omitted — Qdrant treats a
+   *  missing named vector as absent. */
+  private pointVector(
+    dense: number[],
+    content: string,
+    layout: VectorLayout,
+    stats: CorpusStats,
+    doc: number[] | null = null
+  ): PointVector {
+    if (layout === 'legacy') return dense;
+    const sparse = buildCodeDocumentSparseVector(content, stats);
+    return {
+      [CODE_DENSE_VECTOR]: dense,
+      ...(sparse.indices.length > 0 ? { [CODE_SPARSE_VECTOR]: sparse } : {}),
+      ...(doc && layout === 'documented' ? { [CODE_DOC_VECTOR]: doc } : {}),
+    };
   }
 
   /** Ensure group collection exists in Qdrant and that its embedding metadata
    *  matches the current provider — mismatches mean a silent broken search,
-   *  so we surface them loudly. */
+   *  so we surface them loudly. New collections get the hybrid layout (named
+   *  dense + BM25 sparse + doc vectors); existing legacy ones are left as they
+   *  are until {@link migrateToHybrid} runs, and hybrid ones without the doc
+   *  vector until the group is reindexed from scratch. */
   async ensureCollection(groupName: string): Promise<void> {
     try {
-      await this.qdrant.getCollection(this.col(groupName));
+      const info = await this.qdrant.getCollection(this.col(groupName));
+      const layout = vectorLayoutOf(info);
+      if (layout !== 'legacy') this.layouts.set(groupName, layout);
       await this.validateCollectionMeta(groupName);
       return;
     } catch (err) {
@@ -665,85 +1097,10 @@ export class Indexer {
     }
 
     try {
-      await this.retryQdrant(() =>
-        this.qdrant.createCollection(this.col(groupName), {
-          vectors: {
-            size: this.dimensions,
-            distance: 'Cosine',
-          },
-        })
-      );
+      await this.createHybridCollection(this.col(groupName));
+      this.layouts.set(groupName, 'documented');
       await this.writeCollectionMeta(groupName);
-      await this.retryQdrant(() =>
-        this.qdrant.createPayloadIndex(this.col(groupName), {
-          field_name: 'project',
-          field_schema: 'keyword',
-          wait: true,
-        })
-      );
-      await this.retryQdrant(() =>
-        this.qdrant.createPayloadIndex(this.col(groupName), {
-          field_name: 'file',
-          field_schema: 'keyword',
-          wait: true,
-        })
-      );
-      await this.retryQdrant(() =>
-        this.qdrant.createPayloadIndex(this.col(groupName), {
-          field_name: 'chunk_id',
-          field_schema: 'keyword',
-          wait: true,
-        })
-      );
-      await this.retryQdrant(() =>
-        this.qdrant.createPayloadIndex(this.col(groupName), {
-          field_name: 'kind',
-          field_schema: 'keyword',
-          wait: true,
-        })
-      );
-      await this.retryQdrant(() =>
-        this.qdrant.createPayloadIndex(this.col(groupName), {
-          field_name: 'tags',
-          field_schema: 'keyword',
-          wait: true,
-        })
-      );
-      await this.retryQdrant(() =>
-        this.qdrant.createPayloadIndex(this.col(groupName), {
-          field_name: 'last_commit_at',
-          field_schema: 'keyword',
-          wait: true,
-        })
-      );
-      await this.retryQdrant(() =>
-        this.qdrant.createPayloadIndex(this.col(groupName), {
-          field_name: 'ticket_keys',
-          field_schema: 'keyword',
-          wait: true,
-        })
-      );
-      await this.retryQdrant(() =>
-        this.qdrant.createPayloadIndex(this.col(groupName), {
-          field_name: 'language',
-          field_schema: 'keyword',
-          wait: true,
-        })
-      );
-      await this.retryQdrant(() =>
-        this.qdrant.createPayloadIndex(this.col(groupName), {
-          field_name: 'defines_symbols',
-          field_schema: 'keyword',
-          wait: true,
-        })
-      );
-      await this.retryQdrant(() =>
-        this.qdrant.createPayloadIndex(this.col(groupName), {
-          field_name: 'uses_symbols',
-          field_schema: 'keyword',
-          wait: true,
-        })
-      );
+      await this.createPayloadIndexes(this.col(groupName));
     } catch (err) {
       // If creation failed, check if another process created it
       try {
@@ -755,15 +1112,51 @@ export class Indexer {
     }
   }
 
+  /** Create a code collection with the hybrid layout: named dense + named sparse,
+   *  plus the named dense doc vector. */
+  private async createHybridCollection(collection: string): Promise<void> {
+    await this.retryQdrant(() =>
+      this.qdrant.createCollection(collection, {
+        vectors: {
+          [CODE_DENSE_VECTOR]: { size: this.dimensions, distance: 'Cosine' },
+          [CODE_DOC_VECTOR]: { size: this.dimensions, distance: 'Cosine' },
+        },
+        sparse_vectors: { [CODE_SPARSE_VECTOR]: {} },
+      })
+    );
+  }
+
+  private async createPayloadIndexes(collection: string): Promise<void> {
+    for (const field of PAYLOAD_INDEXES) {
+      await this.retryQdrant(() =>
+        this.qdrant.createPayloadIndex(collection, {
+          field_name: field,
+          field_schema: 'keyword',
+          wait: true,
+        })
+      );
+    }
+    // `exclude_tests` filters on it in every search.
+    await this.retryQdrant(() =>
+      this.qdrant.createPayloadIndex(collection, {
+        field_name: 'is_test',
+        field_schema: 'bool',
+        wait: true,
+      })
+    );
+  }
+
   /** Write the embedding metadata sentinel point. Stored as a zero-vector
    *  point at a known UUID so search can exclude it via the `__meta` flag. */
   private async writeCollectionMeta(groupName: string): Promise<void> {
+    const layout = await this.layoutOf(groupName);
     const meta: CollectionMeta = {
       provider: this.providerId,
       model: this.modelId,
       dimensions: this.dimensions,
       createdAt: Date.now(),
       metaVersion: META_SCHEMA_VERSION,
+      chunkHeaders: {},
     };
     await this.retryQdrant(() =>
       this.qdrant.upsert(this.col(groupName), {
@@ -773,7 +1166,7 @@ export class Indexer {
             id: META_SENTINEL_ID,
             // Zero vector; never returned because all real searches exclude
             // __meta=true via filter.must_not.
-            vector: new Array(this.dimensions).fill(0),
+            vector: this.pointVector(new Array(this.dimensions).fill(0), '', layout, EMPTY_CORPUS),
             payload: { __meta: true, ...meta },
           },
         ],
@@ -800,7 +1193,14 @@ export class Indexer {
       const createdAt = typeof p['createdAt'] === 'number' ? p['createdAt'] : 0;
       const metaVersion = typeof p['metaVersion'] === 'number' ? p['metaVersion'] : 0;
       if (!provider || !model || dimensions === null) return null;
-      return { provider, model, dimensions, createdAt, metaVersion };
+      const chunkHeaders: Record<string, string> = {};
+      const recorded = p['chunkHeaders'];
+      if (recorded && typeof recorded === 'object' && !Array.isArray(recorded)) {
+        for (const [project, fingerprint] of Object.entries(recorded)) {
+          if (typeof fingerprint === 'string') chunkHeaders[project] = fingerprint;
+        }
+      }
+      return { provider, model, dimensions, createdAt, metaVersion, chunkHeaders };
     } catch {
       return null;
     }
@@ -841,8 +1241,92 @@ export class Indexer {
     }
   }
 
-  /** Index a single file into its group collection */
-  async indexFile(groupName: string, project: ProjectConfig, filePath: string): Promise<number> {
+  /** The project's chunk header template. Configs resolved before the field
+   *  existed carry none and get the default. */
+  private chunkHeaderOf(project: ProjectConfig): string {
+    return project.indexing.chunkHeader ?? DEFAULT_CHUNK_HEADER;
+  }
+
+  /** Chunk header bookkeeping for a project about to be indexed. `reembed`
+   *  when its chunks were embedded under a template other than the configured
+   *  one — hash-based skipping can't see that, the chunks are unchanged, their
+   *  embedding input isn't. `record` when the metadata doesn't hold the
+   *  configured template yet. */
+  private async checkChunkHeader(
+    groupName: string,
+    project: ProjectConfig
+  ): Promise<{ reembed: boolean; record: boolean }> {
+    const meta = await this.readCollectionMeta(groupName);
+    if (!meta) return { reembed: false, record: false };
+    const recorded =
+      meta.chunkHeaders[this.stored(project.name)] ??
+      (meta.metaVersion < 2 ? NO_CHUNK_HEADER : undefined);
+    if (recorded === chunkHeaderFingerprint(this.chunkHeaderOf(project))) {
+      return { reembed: false, record: false };
+    }
+    if (recorded === undefined) return { reembed: false, record: true };
+    console.log(
+      `  [indexer] Chunk header template of ${project.name} changed since it was embedded; re-embedding all files`
+    );
+    return { reembed: true, record: true };
+  }
+
+  /** Record the project's chunk header fingerprint on the metadata sentinel.
+   *  Non-fatal: the next run just re-embeds again. */
+  private async recordChunkHeader(groupName: string, project: ProjectConfig): Promise<void> {
+    try {
+      await this.retryQdrant(() =>
+        this.qdrant.setPayload(this.col(groupName), {
+          points: [META_SENTINEL_ID],
+          key: 'chunkHeaders',
+          payload: {
+            [this.stored(project.name)]: chunkHeaderFingerprint(this.chunkHeaderOf(project)),
+          },
+          wait: true,
+        })
+      );
+    } catch (err) {
+      console.warn(`[indexer] Failed to record chunk header: ${(err as Error).message}`);
+    }
+  }
+
+  /** What gets embedded for each chunk: its content under the project's
+   *  contextual header. The payload, BM25 vector and hash keep the raw content. */
+  private embeddingInputs(
+    chunks: ChunkResult[],
+    symbolResults: SymbolExtractionResult[] | null,
+    project: ProjectConfig,
+    relPath: string,
+    language: string,
+    tags: string[]
+  ): string[] {
+    const template = this.chunkHeaderOf(project);
+    return chunks.map((chunk, i) => {
+      const symbol = symbolResults?.[i]?.defined_symbols[0];
+      const header = renderChunkHeader(template, {
+        file: relPath,
+        // A branch variant embeds like its default branch, so shared chunks match.
+        project: splitBranchProject(project.name).project,
+        language,
+        scope: symbolResults?.[i]?.scope?.join('.'),
+        symbol: symbol?.name,
+        kind: symbol?.kind,
+        service: project.metadata.service,
+        bounded_context: project.metadata.bounded_context,
+        tags: tags.join(', '),
+      });
+      return embeddingInput(header, chunk.content);
+    });
+  }
+
+  /** Index a single file into its group collection. `reembed` skips the
+   *  unchanged-hashes shortcut (chunk header template changed). */
+  async indexFile(
+    groupName: string,
+    project: ProjectConfig,
+    filePath: string,
+    reembed = false
+  ): Promise<number> {
     const relPath = path.relative(project.path, filePath);
     // Storage-layer project name (suffix applied). Use for all Qdrant/chunk_id/
     // metadata calls; keep `project.name` for logging & telemetry (logical name).
@@ -861,12 +1345,16 @@ export class Indexer {
 
     if (!content.trim()) return 0;
 
+    const fileLanguage =
+      detectLanguageByPath(relPath, content) ?? project.languages[0] ?? 'generic';
+
     // Skip machine-generated / non-source content (base64 asset blobs, minified
     // bundles) before it reaches the chunker or embedder. Such files have a
     // source extension but no source structure — embedding them is worthless for
     // retrieval and drives llama-server into timeouts/OOM on the token wall.
-    const nonSource = detectNonSource(content);
-    if (nonSource.isNonSource) {
+    // Notebooks are judged per cell: their outputs (inline images) are dropped.
+    const nonSource = fileLanguage === 'notebook' ? null : detectNonSource(content);
+    if (nonSource?.isNonSource) {
       console.warn(`  [indexer] Skipping non-source file ${relPath}: ${nonSource.reason}`);
       if (this.telemetry) {
         this.telemetry.recordChunkingError({
@@ -875,7 +1363,7 @@ export class Indexer {
           groupName,
           projectName: project.name,
           file: relPath,
-          language: detectLanguageByPath(relPath, content) ?? project.languages[0] ?? 'generic',
+          language: fileLanguage,
           errorClass: 'binary',
           message: `non-source: ${nonSource.reason}`,
         });
@@ -884,38 +1372,55 @@ export class Indexer {
       return 0;
     }
 
-    const language = detectLanguageByPath(relPath, content) ?? project.languages[0] ?? 'generic';
-    const { chunks, symbolResults } = await this.chunkFile(content, language, project, {
+    const chunked = await this.chunkFile(content, fileLanguage, project, {
       groupName,
       file: relPath,
     });
+    const { chunks, symbolResults } = chunked;
+    const language = chunked.language ?? fileLanguage;
     if (chunks.length === 0) return 0;
 
     // Compare chunk hashes to skip unchanged files
     const newHashes = new Set(chunks.map((c) => c.hash));
     const existingHashes = await this.getFileChunkHashes(groupName, storedName, relPath);
-    if (this.hashSetsEqual(newHashes, existingHashes)) {
+
+    // A branch variant stores a file only where it differs from the default
+    // branch; an identical one is shared with the default branch's chunks.
+    const variant = splitBranchProject(storedName);
+    if (variant.branch !== null) {
+      const baseHashes = await this.getFileChunkHashes(groupName, variant.project, relPath);
+      const shared = this.hashSetsEqual(newHashes, baseHashes);
+      await this.shareWithBranch(groupName, variant.project, relPath, variant.branch, shared);
+      if (shared) {
+        if (existingHashes.size > 0) {
+          await this.deleteChunks(groupName, [
+            { key: 'project', match: { value: storedName } },
+            { key: 'file', match: { value: relPath } },
+          ]);
+        }
+        this.stats.skipped++;
+        return 0;
+      }
+    }
+
+    if (!reembed && this.hashSetsEqual(newHashes, existingHashes)) {
       this.stats.skipped++;
       return 0;
     }
 
     // Delete old chunks if file was previously indexed
     if (existingHashes.size > 0) {
-      await this.retryQdrant(() =>
-        this.qdrant.delete(this.col(groupName), {
-          filter: {
-            must: [
-              { key: 'project', match: { value: storedName } },
-              { key: 'file', match: { value: relPath } },
-            ],
-          },
-          wait: true,
-        })
-      );
+      await this.deleteChunks(groupName, [
+        { key: 'project', match: { value: storedName } },
+        { key: 'file', match: { value: relPath } },
+      ]);
     }
 
     const contents = chunks.map((c) => c.content);
-    const embeddings = await this.provider.embedBatchPassage(contents);
+    const tags = resolveTags(project.metadata, relPath);
+    const embeddings = await this.provider.embedBatchPassage(
+      this.embeddingInputs(chunks, symbolResults, project, relPath, language, tags)
+    );
 
     if (embeddings.length !== chunks.length) {
       throw new Error(
@@ -923,9 +1428,7 @@ export class Indexer {
       );
     }
 
-    const tags = resolveTags(project.metadata, relPath);
-
-    const points = this.buildPointPayloads(
+    const points = await this.buildPointPayloads(
       chunks,
       embeddings,
       groupName,
@@ -935,7 +1438,8 @@ export class Indexer {
       tags,
       project.metadata.service,
       project.metadata.bounded_context,
-      symbolResults
+      symbolResults,
+      await this.layoutOf(groupName)
     );
 
     const batchSize = project.indexing.batchSize;
@@ -945,6 +1449,7 @@ export class Indexer {
         this.qdrant.upsert(this.col(groupName), { points: batch, wait: true })
       );
     }
+    this.recordTerms(groupName, contents);
 
     this.telemetry?.upsertFile({
       groupName,
@@ -963,7 +1468,7 @@ export class Indexer {
   }
 
   /** Index all files in a project into its group collection */
-  async indexProject(project: ProjectConfig): Promise<number> {
+  async indexProject(project: ProjectConfig, options: IndexRunOptions = {}): Promise<number> {
     const groupName = project.group;
     // Storage-layer project name (suffix applied) — see indexFile.
     const storedName = this.stored(project.name);
@@ -973,8 +1478,11 @@ export class Indexer {
       return 0;
     }
 
+    const { progress, report } = progressReporter(options);
+    report();
     await this.ensureCollection(groupName);
     await this.evictProjectFromOtherGroups(groupName, project.name);
+    const header = await this.checkChunkHeader(groupName, project);
 
     const fileSet = new Set<string>();
     for (const pattern of project.patterns) {
@@ -991,17 +1499,21 @@ export class Indexer {
       files = filterFilesByGitignore(files, project.path);
     }
     console.log(`  ${files.length} files found`);
+    progress.filesTotal = files.length;
+    report('embed');
 
     const queue = new PQueue({ concurrency: project.indexing.concurrency });
     let totalChunks = 0;
     let processed = 0;
     const skippedBefore = this.stats.skipped;
+    const errorsBefore = this.stats.errors;
 
     const changedFiles = new Set<string>();
     const tasks = files.map((file) =>
       queue.add(async () => {
+        if (options.signal?.aborted) return;
         try {
-          const n = await this.indexFile(groupName, project, file);
+          const n = await this.indexFile(groupName, project, file, header.reembed);
           if (n > 0) changedFiles.add(path.relative(project.path, file));
           totalChunks += n;
           processed++;
@@ -1011,6 +1523,9 @@ export class Indexer {
           if (processed % 10 === 0 || processed === files.length) {
             const pct = Math.round((processed / files.length) * 100);
             console.log(`  [${processed}/${files.length}] ${pct}% — ${totalChunks} chunks`);
+            progress.filesProcessed = processed;
+            progress.chunks = totalChunks;
+            report();
             // Yield to the event loop so /health and /metrics handlers can run
             // between CPU-heavy tree-sitter parses.
             await new Promise<void>((resolve) => setImmediate(resolve));
@@ -1030,6 +1545,13 @@ export class Indexer {
 
     await Promise.all(tasks);
     this.stats.cached = this.provider.cacheHits; // Update once after all tasks complete
+    options.signal?.throwIfAborted();
+
+    // A file that failed keeps its old embedding; leave the template
+    // unrecorded so the next run re-embeds it too.
+    if (header.record && this.stats.errors === errorsBefore) {
+      await this.recordChunkHeader(groupName, project);
+    }
 
     const skippedThisProject = this.stats.skipped - skippedBefore;
     if (skippedThisProject > 0) {
@@ -1039,18 +1561,45 @@ export class Indexer {
     // Clean up orphaned chunks (files deleted from disk but still in Qdrant)
     const currentRelPaths = new Set(files.map((f) => path.relative(project.path, f)));
     await this.cleanupOrphanedChunks(groupName, storedName, currentRelPaths);
+    const variant = splitBranchProject(storedName);
+    if (variant.branch !== null) {
+      await this.unshareMissingFiles(groupName, variant.project, variant.branch, currentRelPaths);
+    }
+
+    await this.finishProjectIndex(project, currentRelPaths, changedFiles, totalChunks > 0, report);
+
+    return totalChunks;
+  }
+
+  /**
+   * Post-index pass shared by full and diff-driven runs: CODEOWNERS for every
+   * current file, git metadata for the files reindexed this run, and a symbol
+   * graph rebuild when chunks changed. Everything here is non-fatal.
+   */
+  private async finishProjectIndex(
+    project: ProjectConfig,
+    currentFiles: Iterable<string>,
+    changedFiles: Set<string>,
+    graphChanged: boolean,
+    onPhase?: (phase: IndexPhase) => void
+  ): Promise<void> {
+    if (!this.metadataStore) return;
+    const groupName = project.group;
+    const storedName = this.stored(project.name);
+    await this.recordCodeOwners(groupName, storedName, project.path, currentFiles);
+    this.metadataStore.setProjectLinks(groupName, storedName, project.links ?? null);
 
     // Post-indexing: git metadata + symbol graph (single Qdrant scan for both)
-    const needsGit = this.metadataStore && project.metadata.git.enabled && totalChunks > 0;
-    const needsSymbols = this.metadataStore && this.treeSitter && totalChunks > 0;
+    const needsGit = project.metadata.git.enabled && changedFiles.size > 0;
+    const needsSymbols = !!this.treeSitter && graphChanged;
 
     if (needsGit || needsSymbols) {
       try {
         const { chunksByFile, chunkSymbols } = await this.collectProjectChunksForPostIndex(
           groupName,
           storedName,
-          !!needsGit,
-          !!needsSymbols
+          needsGit,
+          needsSymbols
         );
 
         // Git metadata extraction — only for files actually reindexed this
@@ -1062,6 +1611,7 @@ export class Indexer {
         }
 
         if (needsGit && chunksByFile.size > 0) {
+          onPhase?.('git-metadata');
           try {
             const result = await extractGitMetadata({
               projectPath: project.path,
@@ -1069,12 +1619,13 @@ export class Indexer {
               project: storedName,
               maxCommitsPerFile: project.metadata.git.maxCommitsPerFile,
               ticketPatterns: project.metadata.git.ticketPatterns,
-              metadataStore: this.metadataStore!,
+              ownershipMonths: project.metadata.git.ownershipMonths,
+              metadataStore: this.metadataStore,
               qdrantClient: this.qdrant,
               chunksByFile,
             });
             console.log(
-              `  [indexer] Git metadata: ${result.filesProcessed} files, ${result.commitsStored} commits, ${result.ticketsStored} tickets`
+              `  [indexer] Git metadata: ${result.filesProcessed} files, ${result.commitsStored} commits, ${result.ticketsStored} tickets, ${result.contributorsStored} contributors`
             );
           } catch (err) {
             console.warn(
@@ -1085,18 +1636,20 @@ export class Indexer {
 
         // Symbol graph building
         if (needsSymbols && chunkSymbols.length > 0) {
+          onPhase?.('symbol-graph');
           try {
             const { edges, stats } = buildSymbolEdges(chunkSymbols);
-            this.metadataStore!.deleteEdgesByProject(groupName, storedName);
+            this.metadataStore.deleteEdgesByProject(groupName, storedName);
             if (edges.length > 0) {
-              await this.metadataStore!.upsertSymbolEdges(edges);
+              await this.metadataStore.upsertSymbolEdges(edges);
             }
+            const resolved = edges.filter((e) => e.confidence === 'RESOLVED').length;
             const skipNote =
               stats.skippedSymbols > 0
                 ? ` (skipped ${stats.skippedSymbols} high-fanout symbols, ~${stats.skippedEdges} edges)`
                 : '';
             console.log(
-              `  [indexer] Symbol graph: ${chunkSymbols.length} chunks, ${edges.length} edges${skipNote}`
+              `  [indexer] Symbol graph: ${chunkSymbols.length} chunks, ${edges.length} edges (${resolved} via imports)${skipNote}`
             );
           } catch (err) {
             console.warn(
@@ -1110,8 +1663,6 @@ export class Indexer {
         );
       }
     }
-
-    return totalChunks;
   }
 
   /**
@@ -1120,7 +1671,7 @@ export class Indexer {
    * embedder (qwen3), and chunker (structural markdown). No-op when no docsStore
    * was configured (the default), so the code path is never affected.
    *
-   * Only `.md`/`.markdown` files are considered. Each is markdown-detected by the
+   * Only `.md`/`.markdown`/`.mdx` files are considered. Each is markdown-detected by the
    * chunker; a file that isn't markdown (plain text, HTML, etc.) throws
    * NotMarkdownError and is logged-and-skipped — never indexed. The stored
    * (suffixed) project name is used so v2/v3 isolation holds on a shared Qdrant.
@@ -1142,7 +1693,7 @@ export class Indexer {
       return 0;
     }
 
-    const found = await glob(['**/*.md', '**/*.markdown'], {
+    const found = await glob(['**/*.md', '**/*.markdown', '**/*.mdx'], {
       cwd: project.path,
       absolute: true,
       ignore: project.exclude,
@@ -1199,7 +1750,16 @@ export class Indexer {
     needsSymbols: boolean
   ): Promise<{
     chunksByFile: Map<string, Array<{ chunk_id: string; startLine: number; endLine: number }>>;
-    chunkSymbols: Array<{ chunk_id: string; defines_symbols: string[]; uses_symbols: string[] }>;
+    chunkSymbols: Array<{
+      chunk_id: string;
+      defines_symbols: string[];
+      uses_symbols: string[];
+      imports: ImportBinding[];
+      heritage: HeritageRef[];
+      defines_tables: string[];
+      uses_tables: string[];
+      is_test: boolean;
+    }>;
   }> {
     const chunksByFile = new Map<
       string,
@@ -1209,12 +1769,27 @@ export class Indexer {
       chunk_id: string;
       defines_symbols: string[];
       uses_symbols: string[];
+      imports: ImportBinding[];
+      heritage: HeritageRef[];
+      defines_tables: string[];
+      uses_tables: string[];
+      is_test: boolean;
     }> = [];
 
     // Request all fields needed by both consumers
     const fields: string[] = ['chunk_id'];
     if (needsGit) fields.push('file', 'startLine', 'endLine');
-    if (needsSymbols) fields.push('defines_symbols', 'uses_symbols');
+    if (needsSymbols) {
+      fields.push(
+        'defines_symbols',
+        'uses_symbols',
+        'imports',
+        'heritage',
+        'defines_tables',
+        'uses_tables',
+        'is_test'
+      );
+    }
 
     let offset: string | number | undefined = undefined;
 
@@ -1253,10 +1828,21 @@ export class Indexer {
         if (needsSymbols) {
           const defs = payload['defines_symbols'];
           const uses = payload['uses_symbols'];
+          // Chunks indexed before import / heritage extraction carry neither
+          // and link by name only until their file is reindexed.
+          const imports = payload['imports'];
+          const heritage = payload['heritage'];
+          const definesTables = payload['defines_tables'];
+          const usesTables = payload['uses_tables'];
           chunkSymbols.push({
             chunk_id: chunkId,
             defines_symbols: Array.isArray(defs) ? (defs as string[]) : [],
             uses_symbols: Array.isArray(uses) ? (uses as string[]) : [],
+            imports: Array.isArray(imports) ? (imports as ImportBinding[]) : [],
+            heritage: Array.isArray(heritage) ? (heritage as HeritageRef[]) : [],
+            defines_tables: Array.isArray(definesTables) ? (definesTables as string[]) : [],
+            uses_tables: Array.isArray(usesTables) ? (usesTables as string[]) : [],
+            is_test: payload['is_test'] === true,
           });
         }
       }
@@ -1291,23 +1877,16 @@ export class Indexer {
     );
   }
 
-  /** Update a single file (delete old chunks + re-index) */
-  async updateFile(groupName: string, project: ProjectConfig, filePath: string): Promise<void> {
+  /** Update a single file (delete old chunks + re-index); returns the chunks written */
+  async updateFile(groupName: string, project: ProjectConfig, filePath: string): Promise<number> {
     const relPath = path.relative(project.path, filePath);
     const storedName = this.stored(project.name);
 
     try {
-      await this.retryQdrant(() =>
-        this.qdrant.delete(this.col(groupName), {
-          filter: {
-            must: [
-              { key: 'project', match: { value: storedName } },
-              { key: 'file', match: { value: relPath } },
-            ],
-          },
-          wait: true,
-        })
-      );
+      await this.deleteChunks(groupName, [
+        { key: 'project', match: { value: storedName } },
+        { key: 'file', match: { value: relPath } },
+      ]);
     } catch (err) {
       console.warn(
         `[indexer] Could not delete old chunks for ${relPath}: ${(err as Error).message}`
@@ -1317,8 +1896,23 @@ export class Indexer {
     if (fs.existsSync(filePath)) {
       const n = await this.indexFile(groupName, project, filePath);
       console.log(`[indexer] Updated ${groupName}/${project.name}/${relPath} (${n} chunks)`);
-    } else {
-      console.log(`[indexer] Deleted ${groupName}/${project.name}/${relPath}`);
+      return n;
+    }
+    await this.unshareFile(groupName, storedName, relPath);
+    console.log(`[indexer] Deleted ${groupName}/${project.name}/${relPath}`);
+    return 0;
+  }
+
+  /** A file gone from a branch variant stops sharing the default branch's copy. */
+  private async unshareFile(groupName: string, storedName: string, relPath: string): Promise<void> {
+    const variant = splitBranchProject(storedName);
+    if (variant.branch === null) return;
+    try {
+      await this.shareWithBranch(groupName, variant.project, relPath, variant.branch, false);
+    } catch (err) {
+      console.warn(
+        `[indexer] Could not unshare ${relPath} from ${variant.branch}: ${(err as Error).message}`
+      );
     }
   }
 
@@ -1328,23 +1922,123 @@ export class Indexer {
     const storedName = this.stored(project.name);
 
     try {
-      await this.retryQdrant(() =>
-        this.qdrant.delete(this.col(groupName), {
-          filter: {
-            must: [
-              { key: 'project', match: { value: storedName } },
-              { key: 'file', match: { value: relPath } },
-            ],
-          },
-          wait: true,
-        })
-      );
+      await this.deleteChunks(groupName, [
+        { key: 'project', match: { value: storedName } },
+        { key: 'file', match: { value: relPath } },
+      ]);
+      this.metadataStore?.deleteByFile(groupName, storedName, relPath);
+      await this.unshareFile(groupName, storedName, relPath);
       console.log(`[indexer] Removed ${groupName}/${project.name}/${relPath}`);
     } catch {
       // ignore
     }
   }
 
+  /**
+   * Apply a known set of file changes — e.g. `git diff --name-status` between
+   * the last indexed commit and HEAD — without walking the project. Changed
+   * paths go through {@link updateFile}, removed ones through
+   * {@link deleteFile}; changed paths outside the project's patterns,
+   * excludes or `.gitignore` are dropped. The post-index pass (CODEOWNERS, git metadata,
+   * symbol graph) then runs as in {@link indexProject}.
+   *
+   * A chunk header template change needs every file re-embedded, so that case
+   * falls back to a full {@link indexProject}.
+   */
+  async indexChangedFiles(
+    project: ProjectConfig,
+    changes: { changed: string[]; deleted: string[] },
+    options: IndexRunOptions = {}
+  ): Promise<number> {
+    const groupName = project.group;
+    const storedName = this.stored(project.name);
+
+    if (!fs.existsSync(project.path)) {
+      console.error(`  Project path not found: ${project.path}`);
+      return 0;
+    }
+
+    await this.ensureCollection(groupName);
+    const header = await this.checkChunkHeader(groupName, project);
+    if (header.reembed) {
+      console.log(`  [indexer] Chunk header changed — reindexing all of ${project.name}`);
+      return this.indexProject(project, options);
+    }
+    const { progress, report } = progressReporter(options);
+    report();
+
+    const include = project.patterns.map((p) => new Minimatch(p));
+    const exclude = project.exclude.map((e) => new Minimatch(e));
+    const gitignored = project.indexing.respectGitignore
+      ? createGitignoreFilter(project.path)
+      : null;
+    const indexable = (rel: string): boolean =>
+      include.some((m) => m.match(rel)) &&
+      !exclude.some((m) => m.match(rel)) &&
+      !gitignored?.(path.join(project.path, rel));
+
+    const changed = [...new Set(changes.changed)].filter(indexable);
+    // Removals skip the filters: a path the config no longer matches may
+    // still have chunks from before.
+    const deleted = [...new Set(changes.deleted)];
+    console.log(`  ${changed.length} changed, ${deleted.length} deleted file(s)`);
+
+    for (const rel of deleted) {
+      await this.deleteFile(groupName, project, path.join(project.path, rel));
+    }
+    options.signal?.throwIfAborted();
+    progress.filesTotal = changed.length;
+    report('embed');
+
+    const queue = new PQueue({ concurrency: project.indexing.concurrency });
+    let totalChunks = 0;
+    const changedFiles = new Set<string>();
+    const errorsBefore = this.stats.errors;
+    await Promise.all(
+      changed.map((rel) =>
+        queue.add(async () => {
+          if (options.signal?.aborted) return;
+          try {
+            const n = await this.updateFile(groupName, project, path.join(project.path, rel));
+            if (n > 0) changedFiles.add(rel);
+            totalChunks += n;
+            this.stats.files++;
+            this.stats.chunks += n;
+            progress.filesProcessed++;
+            progress.chunks = totalChunks;
+            if (progress.filesProcessed % 10 === 0 || progress.filesProcessed === changed.length) {
+              report();
+            }
+          } catch (err) {
+            this.stats.errors++;
+            this.metrics.incIndexErrorsTotal(groupName, 1);
+            console.error(`  Error indexing ${rel}:`);
+            console.error(`    ${(err as Error).message}`);
+          }
+        })
+      )
+    );
+    this.stats.cached = this.provider.cacheHits;
+    options.signal?.throwIfAborted();
+
+    if (header.record && this.stats.errors === errorsBefore) {
+      await this.recordChunkHeader(groupName, project);
+    }
+
+    if (this.metadataStore) {
+      const currentFiles = await this.getIndexedFilePaths(groupName, storedName);
+      await this.finishProjectIndex(
+        project,
+        currentFiles,
+        changedFiles,
+        totalChunks > 0 || deleted.length > 0,
+        report
+      );
+    }
+
+    return totalChunks;
+  }
+
   /** Content-based: index files from in-memory content (no filesystem access) */
   async indexFilesContent(
     project: ProjectConfig,
@@ -1354,6 +2048,7 @@ export class Indexer {
     await this.ensureCollection(groupName);
     // Storage-layer project name (suffix applied) — see indexFile.
     const storedName = this.stored(project.name);
+    const header = await this.checkChunkHeader(groupName, project);
 
     const defaultLang = project.languages[0] ?? 'generic';
     let totalChunks = 0;
@@ -1378,10 +2073,11 @@ export class Indexer {
           return;
         }
 
-        const { chunks, symbolResults } = await this.chunkFile(content, lang, project, {
+        const chunked = await this.chunkFile(content, lang, project, {
           groupName,
           file: relPath,
         });
+        const { chunks, symbolResults } = chunked;
         if (chunks.length === 0) {
           await yieldIfDue();
           return;
@@ -1390,7 +2086,7 @@ export class Indexer {
         // Compare chunk hashes to skip unchanged files
         const newHashes = new Set(chunks.map((c) => c.hash));
         const existingHashes = await this.getFileChunkHashes(groupName, storedName, relPath);
-        if (this.hashSetsEqual(newHashes, existingHashes)) {
+        if (!header.reembed && this.hashSetsEqual(newHashes, existingHashes)) {
           this.stats.skipped++;
           await yieldIfDue();
           return;
@@ -1398,21 +2094,24 @@ export class Indexer {
 
         // Delete old chunks if file was previously indexed
         if (existingHashes.size > 0) {
-          await this.retryQdrant(() =>
-            this.qdrant.delete(this.col(groupName), {
-              filter: {
-                must: [
-                  { key: 'project', match: { value: storedName } },
-                  { key: 'file', match: { value: relPath } },
-                ],
-              },
-              wait: true,
-            })
-          );
+          await this.deleteChunks(groupName, [
+            { key: 'project', match: { value: storedName } },
+            { key: 'file', match: { value: relPath } },
+          ]);
         }
 
         const contents = chunks.map((c) => c.content);
-        const embeddings = await this.provider.embedBatchPassage(contents);
+        const tags = resolveTags(project.metadata, relPath);
+        const embeddings = await this.provider.embedBatchPassage(
+          this.embeddingInputs(
+            chunks,
+            symbolResults,
+            project,
+            relPath,
+            chunked.language ?? lang,
+            tags
+          )
+        );
 
         if (embeddings.length !== chunks.length) {
           throw new Error(
@@ -1420,19 +2119,18 @@ export class Indexer {
           );
         }
 
-        const tags = resolveTags(project.metadata, relPath);
-
-        const points = this.buildPointPayloads(
+        const points = await this.buildPointPayloads(
           chunks,
           embeddings,
           groupName,
           storedName,
           relPath,
-          lang,
+          chunked.language ?? lang,
           tags,
           project.metadata.service,
           project.metadata.bounded_context,
-          symbolResults
+          symbolResults,
+          await this.layoutOf(groupName)
         );
 
         const batchSize = project.indexing.batchSize;
@@ -1442,12 +2140,13 @@ export class Indexer {
             this.qdrant.upsert(this.col(groupName), { points: batch, wait: true })
           );
         }
+        this.recordTerms(groupName, contents);
 
         this.telemetry?.upsertFile({
           groupName,
           projectName: project.name,
           file: relPath,
-          language: lang,
+          language: chunked.language ?? lang,
           totalLines: content.split('\n').length,
           totalBytes: Buffer.byteLength(content, 'utf8'),
           indexedAt: Date.now(),
@@ -1464,6 +2163,7 @@ export class Indexer {
 
     await Promise.all(tasks);
     this.stats.cached = this.provider.cacheHits;
+    if (header.record) await this.recordChunkHeader(groupName, project);
 
     return totalChunks;
   }
@@ -1479,17 +2179,10 @@ export class Indexer {
   ): Promise<number> {
     const storedName = this.stored(projectName);
     try {
-      await this.retryQdrant(() =>
-        this.qdrant.delete(this.col(groupName), {
-          filter: {
-            must: [
-              { key: 'project', match: { value: storedName } },
-              { key: 'file', match: { value: relPath } },
-            ],
-          },
-          wait: true,
-        })
-      );
+      await this.deleteChunks(groupName, [
+        { key: 'project', match: { value: storedName } },
+        { key: 'file', match: { value: relPath } },
+      ]);
     } catch (err) {
       console.warn(
         `[indexer] Could not delete old chunks for ${relPath}: ${(err as Error).message}`
@@ -1501,17 +2194,28 @@ export class Indexer {
       return 0;
     }
 
-    const { chunks, symbolResults } = await this.chunkFile(content, language, project, {
+    const chunked = await this.chunkFile(content, language, project, {
       groupName,
       file: relPath,
     });
+    const { chunks, symbolResults } = chunked;
     if (chunks.length === 0) {
       console.log(`[indexer] Updated ${groupName}/${projectName}/${relPath} (0 chunks)`);
       return 0;
     }
 
     const contents = chunks.map((c) => c.content);
-    const embeddings = await this.provider.embedBatchPassage(contents);
+    const tags = resolveTags(project.metadata, relPath);
+    const embeddings = await this.provider.embedBatchPassage(
+      this.embeddingInputs(
+        chunks,
+        symbolResults,
+        project,
+        relPath,
+        chunked.language ?? language,
+        tags
+      )
+    );
 
     if (embeddings.length !== chunks.length) {
       throw new Error(
@@ -1519,19 +2223,18 @@ export class Indexer {
       );
     }
 
-    const tags = resolveTags(project.metadata, relPath);
-
-    const points = this.buildPointPayloads(
+    const points = await this.buildPointPayloads(
       chunks,
       embeddings,
       groupName,
       storedName,
       relPath,
-      language,
+      chunked.language ?? language,
       tags,
       project.metadata.service,
       project.metadata.bounded_context,
-      symbolResults
+      symbolResults,
+      await this.layoutOf(groupName)
     );
 
     const batchSize = project.indexing.batchSize;
@@ -1541,12 +2244,13 @@ export class Indexer {
         this.qdrant.upsert(this.col(groupName), { points: batch, wait: true })
       );
     }
+    this.recordTerms(groupName, contents);
 
     this.telemetry?.upsertFile({
       groupName,
       projectName,
       file: relPath,
-      language,
+      language: chunked.language ?? language,
       totalLines: content.split('\n').length,
       totalBytes: Buffer.byteLength(content, 'utf8'),
       indexedAt: Date.now(),
@@ -1571,14 +2275,11 @@ export class Indexer {
   async deleteProjectChunks(groupName: string, projectName: string): Promise<void> {
     const storedName = this.stored(projectName);
     try {
-      await this.retryQdrant(() =>
-        this.qdrant.delete(this.col(groupName), {
-          filter: {
-            must: [{ key: 'project', match: { value: storedName } }],
-          },
-          wait: true,
-        })
-      );
+      await this.deleteChunks(groupName, [{ key: 'project', match: { value: storedName } }]);
+      const variant = splitBranchProject(storedName);
+      if (variant.branch !== null) {
+        await this.unshareMissingFiles(groupName, variant.project, variant.branch, null);
+      }
       console.log(`[indexer] Removed all chunks for ${groupName}/${projectName}`);
     } catch {
       // ignore (collection may not exist)
@@ -1589,17 +2290,10 @@ export class Indexer {
   async deleteFileByPath(groupName: string, projectName: string, relPath: string): Promise<void> {
     const storedName = this.stored(projectName);
     try {
-      await this.retryQdrant(() =>
-        this.qdrant.delete(this.col(groupName), {
-          filter: {
-            must: [
-              { key: 'project', match: { value: storedName } },
-              { key: 'file', match: { value: relPath } },
-            ],
-          },
-          wait: true,
-        })
-      );
+      await this.deleteChunks(groupName, [
+        { key: 'project', match: { value: storedName } },
+        { key: 'file', match: { value: relPath } },
+      ]);
       console.log(`[indexer] Removed ${groupName}/${projectName}/${relPath}`);
     } catch {
       // ignore
@@ -1613,6 +2307,8 @@ export class Indexer {
     } catch {
       // may not exist
     }
+    this.layouts.delete(groupName);
+    this.idf?.clearGroup(groupName);
 
     let total = 0;
     for (const project of projects) {
@@ -1621,6 +2317,128 @@ export class Indexer {
     return total;
   }
 
+  /**
+   * Migrate a legacy group collection (one unnamed dense vector) to the hybrid
+   * layout in place. Qdrant can't add named vectors to an existing collection,
+   * so the group is copied through a scratch collection:
+   *
+   *  1. rebuild the group's BM25 corpus stats from the stored chunk content;
+   *  2. copy every point into `<collection>__hybrid_migration` as named dense +
+   *     sparse — the stored embedding is reused, nothing is re-embedded;
+   *  3. drop and recreate the group collection with the hybrid layout, copy the
+   *     points back and drop the scratch copy.
+   *
+   * Point ids and payloads (git metadata, tickets, symbols) are preserved, and so
+   * is the metadata sentinel. A run interrupted after the drop resumes from the
+   * scratch copy. Returns the number of chunks migrated (0 if already hybrid).
+   */
+  async migrateToHybrid(groupName: string): Promise<number> {
+    const collection = this.col(groupName);
+    const scratch = `${collection}${MIGRATION_SUFFIX}`;
+
+    let info: unknown = null;
+    try {
+      info = await this.qdrant.getCollection(collection);
+    } catch {
+      // missing — only valid when resuming from the scratch copy
+    }
+    let scratchExists = true;
+    try {
+      await this.qdrant.getCollection(scratch);
+    } catch {
+      scratchExists = false;
+    }
+
+    const layout = info !== null ? vectorLayoutOf(info) : 'legacy';
+    if (layout !== 'legacy') {
+      this.layouts.set(groupName, layout);
+      if (!scratchExists) return 0;
+      // Interrupted during the copy-back — finish it (upserts are idempotent).
+    } else {
+      if (info !== null) {
+        if (scratchExists) {
+          // Leftover from a run that died before the drop; the original is intact.
+          await this.retryQdrant(() => this.qdrant.deleteCollection(scratch));
+        }
+        const stats = await this.rebuildTerms(groupName);
+        await this.createHybridCollection(scratch);
+        await this.copyPoints(collection, scratch, (vector, payload) => {
+          const content = typeof payload['content'] === 'string' ? payload['content'] : '';
+          return Array.isArray(vector) ? this.pointVector(vector, content, 'named', stats) : vector;
+        });
+        await this.retryQdrant(() => this.qdrant.deleteCollection(collection));
+      } else if (!scratchExists) {
+        throw new Error(`Collection ${collection} not found`);
+      }
+      await this.createHybridCollection(collection);
+      await this.createPayloadIndexes(collection);
+    }
+
+    const migrated = await this.copyPoints(scratch, collection, (vector) => vector);
+    await this.retryQdrant(() => this.qdrant.deleteCollection(scratch));
+    this.layouts.set(groupName, layout === 'legacy' ? 'documented' : layout);
+    console.log(`[indexer] Migrated ${collection} to hybrid vectors (${migrated} chunks)`);
+    return migrated;
+  }
+
+  /** Recompute a group's BM25 corpus stats from the chunk content stored in Qdrant. */
+  private async rebuildTerms(groupName: string): Promise<CorpusStats> {
+    if (!this.idf) return EMPTY_CORPUS;
+    this.idf.clearGroup(groupName);
+    let offset: string | number | undefined = undefined;
+    for (;;) {
+      const page = await this.retryQdrant(() =>
+        this.qdrant.scroll(this.col(groupName), {
+          filter: { must_not: [{ key: '__meta', match: { value: true } }] },
+          with_payload: { include: ['content'] },
+          with_vector: false,
+          limit: 1000,
+          ...(offset !== undefined ? { offset } : {}),
+        })
+      );
+      this.recordTerms(
+        groupName,
+        page.points
+          .map((p) => (p.payload as Record<string, unknown> | null)?.['content'])
+          .filter((c): c is string => typeof c === 'string')
+      );
+      if (!page.next_page_offset) break;
+      offset = page.next_page_offset as string | number;
+    }
+    return this.idf.getCorpusStats(groupName);
+  }
+
+  /** Copy every point (vectors + payload) between collections; returns the chunk count. */
+  private async copyPoints(
+    from: string,
+    to: string,
+    mapVector: (vector: PointVector, payload: Record<string, unknown>) => PointVector
+  ): Promise<number> {
+    let copied = 0;
+    let offset: string | number | undefined = undefined;
+    for (;;) {
+      const page = await this.retryQdrant(() =>
+        this.qdrant.scroll(from, {
+          with_payload: true,
+          with_vector: true,
+          limit: 256,
+          ...(offset !== undefined ? { offset } : {}),
+        })
+      );
+      const points = page.points.map((p) => {
+        const payload = (p.payload ?? {}) as Record<string, unknown>;
+        if (payload['__meta'] !== true) copied++;
+        return { id: p.id, vector: mapVector(p.vector as PointVector, payload), payload };
+      });
+      if (points.length > 0) {
+        await this.retryQdrant(() => this.qdrant.upsert(to, { points, wait: true }));
+      }
+      if (!page.next_page_offset) break;
+      offset = page.next_page_offset as string | number;
+    }
+    return copied;
+  }
+
   /** Get collection stats for a group. Subtracts the metadata sentinel point
    *  (one per collection since v0.8.0) so the reported count reflects real
    *  chunks, not implementation detail. */
@@ -1723,6 +2541,134 @@ export class Indexer {
     }
   }
 
+  /**
+   * The chunk covering the same lines of the same file on `branch`: the
+   * branch variant's own chunk when it stores the file, else the default
+   * branch's when the branch shares it. Null when the file isn't on the branch.
+   */
+  async getChunkOnBranch(chunkId: string, branch: string): Promise<Record<string, unknown> | null> {
+    const parsed = parseChunkId(chunkId);
+    if (!parsed) return null;
+    const { group, file, startLine, endLine } = parsed;
+    const base = splitBranchProject(parsed.project).project;
+
+    let candidates = await this.getAdjacentChunks(
+      group,
+      branchProjectName(base, branch),
+      file,
+      startLine,
+      endLine,
+      0
+    );
+    if (candidates.length === 0) {
+      const shared = await this.getAdjacentChunks(group, base, file, startLine, endLine, 0);
+      candidates = shared.filter((c) => isOnBranch(c, branch));
+    }
+
+    const overlap = (c: Record<string, unknown>): number =>
+      Math.min(endLine, c['endLine'] as number) - Math.max(startLine, c['startLine'] as number);
+    const best = candidates.reduce<Record<string, unknown> | null>(
+      (acc, c) => (acc === null || overlap(c) > overlap(acc) ? c : acc),
+      null
+    );
+    if (best && this.projectSuffix !== '' && typeof best['project'] === 'string') {
+      best['project'] = stripProjectSuffix(best['project'], this.projectSuffix);
+    }
+    return best;
+  }
+
+  /**
+   * Chunks in a group whose `defines_symbols` satisfy `matches`, without
+   * content or vectors. With `exact`, the keyword index does the matching
+   * server-side; otherwise defining chunks are scanned (prefix / fuzzy can't
+   * be expressed against a keyword index), up to `maxScanned` of them —
+   * `truncated` says the scan stopped there. `projects` are clean names.
+   * Returns no chunks when the collection doesn't exist.
+   */
+  async listSymbolChunks(
+    groupName: string,
+    options: {
+      exact?: string;
+      projects?: string[] | null;
+      matches: (definedSymbols: string[]) => boolean;
+      maxScanned?: number;
+    }
+  ): Promise<{ chunks: SymbolChunk[]; truncated: boolean }> {
+    const maxScanned = options.maxScanned ?? SYMBOL_SCAN_MAX_CHUNKS;
+    const must: Array<Record<string, unknown>> = [];
+    if (options.exact !== undefined) {
+      must.push({ key: 'defines_symbols', match: { value: options.exact } });
+    }
+    if (options.projects) {
+      const stored = options.projects.map((p) => applyProjectSuffix(p, this.projectSuffix));
+      must.push({ key: 'project', match: { any: stored } });
+    }
+    const filter = {
+      must,
+      must_not: [
+        { key: '__meta', match: { value: true } },
+        { is_empty: { key: 'defines_symbols' } },
+      ],
+    };
+
+    const chunks: SymbolChunk[] = [];
+    let scanned = 0;
+    let offset: string | number | undefined = undefined;
+    try {
+      for (;;) {
+        if (scanned >= maxScanned) return { chunks, truncated: true };
+        const page = await this.retryQdrant(() =>
+          this.qdrant.scroll(this.col(groupName), {
+            filter,
+            with_payload: {
+              include: [
+                'chunk_id',
+                'project',
+                'file',
+                'language',
+                'startLine',
+                'endLine',
+                'kind',
+                'defines_symbols',
+              ],
+            },
+            with_vector: false,
+            limit: Math.min(1000, maxScanned - scanned),
+            ...(offset !== undefined ? { offset } : {}),
+          })
+        );
+        scanned += page.points.length;
+        for (const point of page.points) {
+          const payload = point.payload as Record<string, unknown> | null;
+          const defs = payload?.['defines_symbols'];
+          if (!payload || typeof payload['chunk_id'] !== 'string' || !Array.isArray(defs)) {
+            continue;
+          }
+          if (!options.matches(defs as string[])) continue;
+          chunks.push({
+            chunk_id: payload['chunk_id'],
+            project: stripProjectSuffix(String(payload['project'] ?? ''), this.projectSuffix),
+            file: String(payload['file'] ?? ''),
+            language: String(payload['language'] ?? ''),
+            startLine: typeof payload['startLine'] === 'number' ? payload['startLine'] : 0,
+            endLine: typeof payload['endLine'] === 'number' ? payload['endLine'] : 0,
+            kind: typeof payload['kind'] === 'string' ? payload['kind'] : null,
+            defines_symbols: defs as string[],
+          });
+        }
+        if (!page.next_page_offset) break;
+        offset = page.next_page_offset as string | number;
+      }
+    } catch (err) {
+      const msg = (err as Error).message.toLowerCase();
+      if (msg.includes('not found') || msg.includes('does not exist')) {
+        return { chunks: [], truncated: false };
+      }
+      throw err;
+    }
+    return { chunks, truncated: false };
+  }
+
   /** List projects in a group using Qdrant facet on the `project` keyword field */
   async listProjectsInGroup(
     groupName: string
@@ -1784,7 +2730,8 @@ export class Indexer {
         col.name.startsWith(COLLECTION_PREFIX) &&
         !isArchCollection(col.name) &&
         !isDocsCollection(col.name) &&
-        !isTermsCollection(col.name)
+        !isTermsCollection(col.name) &&
+        !col.name.endsWith(MIGRATION_SUFFIX)
     );
     const infos = await Promise.all(
       paparatsCollections.map((col) => this.qdrant.getCollection(col.name))
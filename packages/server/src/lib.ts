@@ -7,6 +7,11 @@ export type { ChunkerConfig } from './chunker.js';
 
 export { chunkByAst } from './ast-chunker.js';
 export type { AstChunkerConfig } from './ast-chunker.js';
+export { chunkContract, isContractLanguage, CONTRACT_LANGUAGES } from './contract-chunker.js';
+export type { ContractChunks, ContractLanguage } from './contract-chunker.js';
+export { parseNotebook, chunkNotebook } from './notebook-chunker.js';
+export type { Notebook, NotebookCell, CellSymbolExtractor } from './notebook-chunker.js';
+export { chunkMdx, mdxComponentUses } from './mdx-chunker.js';
 
 export {
   readConfig,
@@ -44,9 +49,42 @@ export type { IndexerConfig } from './indexer.js';
 
 export { resolveTags, autoDetectTags } from './metadata.js';
 
+export {
+  BRANCH_SEPARATOR,
+  branchProjectName,
+  splitBranchProject,
+  branchCondition,
+  isOnBranch,
+} from './branches.js';
+
 export { Searcher } from './searcher.js';
 export type { SearcherConfig } from './searcher.js';
 
+export {
+  CODE_DENSE_VECTOR,
+  CODE_SPARSE_VECTOR,
+  CODE_DOC_VECTOR,
+  SEARCH_MODES,
+  DEFAULT_SEARCH_MODE,
+  DEFAULT_CODE_IDF_DB_PATH,
+  createCodeIdfStore,
+  tokenizeCode,
+  vectorLayoutOf,
+} from './code-bm25.js';
+export type { VectorLayout } from './code-bm25.js';
+
+export {
+  CHUNK_KINDS,
+  filterConditions,
+  filterExclusions,
+  compilePathFilter,
+  parseSearchFilters,
+  normalizeSearchFilters,
+} from './search-filters.js';
+
+export { LlamaServerReranker, HeuristicReranker, createRerankerFromEnv } from './reranker.js';
+export type { Reranker, LlamaServerRerankerConfig } from './reranker.js';
+
 export { expandQuery } from './query-expansion.js';
 
 export { detectQueryType, prefixQuery, prefixPassage, modelFamily } from './task-prefixes.js';
@@ -119,14 +157,37 @@ export type { Term, TermSearchHit, TermWriteResult } from './terminology/types.j
 
 export { createTreeSitterManager } from './tree-sitter-parser.js';
 export type { TreeSitterManager, ParsedFile } from './tree-sitter-parser.js';
-export { extractSymbolsForChunks } from './ast-symbol-extractor.js';
+export { extractSymbolsForChunks, extractFileImports } from './ast-symbol-extractor.js';
 export type { SymbolExtractionResult, DefinedSymbol } from './ast-symbol-extractor.js';
-export { buildSymbolEdges } from './symbol-graph.js';
+export { buildSymbolEdges, RELATION_TYPES } from './symbol-graph.js';
+export { extractTableRefs, normalizeTableName } from './table-refs.js';
+export { declarationDoc, cleanComment, summarizeDocs, MAX_DOC_SUMMARY } from './doc-comments.js';
+export { isTestFile, isTestChunk } from './test-detection.js';
+export { commitUrl, ticketUrl } from './links.js';
+export {
+  CODEOWNERS_PATHS,
+  codeownersPatternToRegExp,
+  parseCodeowners,
+  ownersOf,
+  loadCodeowners,
+} from './codeowners.js';
+export type { CodeownersRule } from './codeowners.js';
+export {
+  renderChunkHeader,
+  embeddingInput,
+  chunkHeaderFingerprint,
+  unknownChunkHeaderFields,
+  CHUNK_HEADER_FIELDS,
+  DEFAULT_CHUNK_HEADER,
+} from './chunk-header.js';
+export type { ChunkHeaderField, ChunkHeaderValues } from './chunk-header.js';
+export { buildFileIndex, resolveImport } from './import-resolver.js';
+export type { ProjectFileIndex } from './import-resolver.js';
 export { LANGUAGE_QUERIES } from './ast-queries.js';
 export type { LanguageQuerySet } from './ast-queries.js';
 export { extractTickets, validateTicketPatterns } from './ticket-extractor.js';
 export type { ExtractedTicket } from './ticket-extractor.js';
-export { extractGitMetadata, collectIndexedChunks } from './git-metadata.js';
+export { extractGitMetadata, collectIndexedChunks, tallyContributors } from './git-metadata.js';
 export type { ExtractGitMetadataOptions, ExtractGitMetadataResult } from './git-metadata.js';
 
 export { ProjectWatcher, WatcherManager } from './watcher.js';
@@ -181,16 +242,28 @@ export type {
   ChunkResult,
   ChunkCommit,
   ChunkTicket,
+  Contributor,
+  ProjectLinks,
+  SearchMode,
+  SearchOptions,
+  SearchFilters,
   SearchResult,
   SearchMetrics,
   SearchResponse,
   EmbeddingProvider,
   LanguageProfile,
   IndexerStats,
+  IndexPhase,
+  IndexProgress,
+  IndexRunOptions,
   IndexingConfig,
   WatcherConfig,
   EmbeddingsConfig,
   ResolvedIndexingConfig,
   RelationType,
   SymbolEdge,
+  EdgeConfidence,
+  ImportBinding,
+  HeritageRef,
+  TableRefs,
 } from './types.js';
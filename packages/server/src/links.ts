@@ -0,0 +1,30 @@
+import type { ChunkTicket, ProjectLinks } from './types.js';
+
+/** Fill `{name}` placeholders; unknown ones are left as they are. */
+function fill(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => values[name] ?? match);
+}
+
+/** Web page of a commit, or null when the project has no commit template. */
+export function commitUrl(links: ProjectLinks | null, sha: string): string | null {
+  if (!links?.commit) return null;
+  return fill(links.commit, { repo: links.repo, sha });
+}
+
+/**
+ * Web page of a ticket reference: `#12` and `org/repo#12` through the issue
+ * template, keyed tickets (`PAY-12`, custom patterns) through the ticket one.
+ */
+export function ticketUrl(
+  links: ProjectLinks | null,
+  ticket: Pick<ChunkTicket, 'ticket_key' | 'source'>
+): string | null {
+  if (!links) return null;
+  const issue = /^(?:([\w.-]+\/[\w.-]+))?#(\d+)$/.exec(ticket.ticket_key);
+  if (issue) {
+    if (!links.issue) return null;
+    return fill(links.issue, { repo: issue[1] ?? links.repo, number: issue[2]! });
+  }
+  if (!links.ticket) return null;
+  return fill(links.ticket, { repo: links.repo, key: ticket.ticket_key });
+}
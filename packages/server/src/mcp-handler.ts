@@ -8,11 +8,19 @@ const require = createRequire(import.meta.url);
 const { version: PKG_VERSION } = require('../package.json') as { version: string };
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
-import type { Searcher } from './searcher.js';
+import { compareByRank, type Searcher } from './searcher.js';
 import type { Indexer } from './indexer.js';
-import { parseChunkId } from './indexer.js';
+import { parseChunkId, SYMBOL_SCAN_MAX_CHUNKS } from './indexer.js';
+import { DEFAULT_SEARCH_MODE, SEARCH_MODES } from './code-bm25.js';
+import { CHUNK_KINDS, normalizeSearchFilters } from './search-filters.js';
+import { RELATION_TYPES } from './symbol-graph.js';
+import { isOnBranch, splitBranchProject } from './branches.js';
+import { commitUrl, ticketUrl } from './links.js';
+import { normalizeTableName } from './table-refs.js';
+import { traceCallPaths, type PathEdge } from './call-path.js';
+import { DIFF_SIDES, buildDiffContext, readDiff, type DiffContext } from './diff-context.js';
 import type { MetadataStore } from './metadata-db.js';
-import type { ProjectConfig } from './types.js';
+import type { Contributor, ProjectConfig, SymbolEdge } from './types.js';
 import {
   prompts,
   buildProjectOverviewSections,
@@ -41,6 +49,20 @@ import {
 } from './arch/context.js';
 import type { ArchContextResult, ArchWriteResult } from './arch/types.js';
 import { type MetricsRegistry, NoOpMetrics } from './metrics.js';
+import {
+  AccessDeniedError,
+  access,
+  canAccessChunk,
+  canAccessGroup,
+  canAccessProject,
+  checkChunk,
+  checkScope,
+} from './auth/access.js';
+import {
+  SYMBOL_MATCH_MODES,
+  findSymbolDefinitions,
+  resolveSymbolProjects,
+} from './symbol-lookup.js';
 
 const HIGH_CONFIDENCE_THRESHOLD = 0.6;
 const LOW_CONFIDENCE_THRESHOLD = 0.4;
@@ -87,6 +109,21 @@ function resolveChunkLocation(payload: Record<string, unknown>): ChunkLocation {
   };
 }
 
+/** Markdown table of blame contributors: who touched the most lines, and when last. */
+function formatContributors(contributors: Contributor[]): string {
+  let text = '| Author | Lines | Last change |\n';
+  text += '|--------|-------|-------------|\n';
+  for (const c of contributors) {
+    text += `| ${c.author_email} | ${c.lines} | ${c.last_at.split('T')[0] ?? c.last_at} |\n`;
+  }
+  return text;
+}
+
+/** CODEOWNERS owners as inline code, or a note that the matching rule names nobody. */
+function formatCodeOwners(owners: string[]): string {
+  return owners.length > 0 ? owners.map((o) => `\`${o}\``).join(', ') : '_explicitly unowned_';
+}
+
 /**
  * Cards older than this are flagged with a visible "stale" marker in
  * `arch_context` output. Matches the 90-day threshold the prompts already
@@ -360,6 +397,61 @@ export function renderArchContextSection(group: string, ctx: ArchContextResult):
   return lines;
 }
 
+/** Markdown for a `review_diff` result: touched code first, then its blast radius and context. */
+export function formatDiffContext(ctx: DiffContext): string {
+  const sideNote =
+    ctx.side === 'base' ? 'pre-change lines (base side)' : 'post-change lines (head side)';
+  let text = `## Diff review: ${ctx.project} (${ctx.files.length} file${ctx.files.length === 1 ? '' : 's'}, ${ctx.chunks.length} chunk${ctx.chunks.length === 1 ? '' : 's'} touched)\n\n`;
+  text += `_Hunks mapped onto the index by ${sideNote}._\n`;
+  if (ctx.truncated) text += '_Large diff — only the first files were mapped._\n';
+
+  text += '\n### Files\n\n';
+  text += '| File | Status | Hunks | Chunks |\n';
+  text += '|------|--------|-------|--------|\n';
+  for (const f of ctx.files) {
+    text += `| ${f.file} | ${f.status} | ${f.hunks} | ${f.chunks} |\n`;
+  }
+  if (ctx.unmapped.length > 0) {
+    text += `\n_No indexed chunks on this side for: ${ctx.unmapped.join(', ')} — new, deleted or unindexed files._\n`;
+  }
+
+  if (ctx.chunks.length > 0) {
+    text += '\n### Touched code\n\n';
+    text += '| File | Lines | Symbol | Chunk ID |\n';
+    text += '|------|-------|--------|----------|\n';
+    for (const c of ctx.chunks) {
+      const sym = c.symbol_name ? `\`${c.symbol_name}\` (${c.kind ?? 'unknown'})` : '—';
+      text += `| ${c.file} | ${c.startLine}-${c.endLine} | ${sym} | ${c.chunk_id} |\n`;
+    }
+  }
+  if (ctx.symbols.length > 0) {
+    text += `\n**Symbols changed:** ${ctx.symbols.map((s) => `\`${s}\``).join(', ')}\n`;
+  }
+
+  if (ctx.dependents.length > 0) {
+    text += `\n### Dependents (${ctx.dependents.length})\n\n`;
+    text += '| Code | Relation | Symbol | Depends on |\n';
+    text += '|------|----------|--------|------------|\n';
+    for (const d of ctx.dependents) {
+      text += `| ${d.project}/${d.file}:${d.startLine}-${d.endLine} _${d.chunk_id}_ | ${d.relation} | \`${d.symbol}\` | ${d.target} |\n`;
+    }
+  } else if (ctx.chunks.length > 0) {
+    text += '\n_No indexed code depends on the touched chunks._\n';
+  }
+
+  if (ctx.tickets.length > 0) {
+    text += '\n### Linked tickets\n\n';
+    for (const t of ctx.tickets) {
+      text += `- [${t.ticket_key}] (${t.source}) — ${t.chunks} touched chunk${t.chunks === 1 ? '' : 's'}\n`;
+    }
+  }
+
+  if (ctx.arch && !ctx.arch.empty) {
+    text += '\n' + renderArchContextSection(ctx.group, ctx.arch).join('\n');
+  }
+  return text;
+}
+
 /** Tool names available in each mode.
  *
  * Architectural-memory split: write tools (`arch_record_*`) live in coding mode
@@ -371,6 +463,10 @@ export const CODING_TOOLS = new Set([
   'search_code',
   'get_chunk',
   'find_usages',
+  'find_symbol',
+  'find_tests',
+  'trace_path',
+  'review_diff',
   'health_check',
   'delete_project',
   'list_projects',
@@ -395,9 +491,12 @@ export const SUPPORT_TOOLS = new Set([
   'search_code',
   'get_chunk',
   'find_usages',
+  'find_symbol',
+  'trace_path',
   'health_check',
   'list_projects',
   'get_chunk_meta',
+  'who_owns',
   'search_changes',
   'explain_feature',
   'recent_changes',
@@ -417,6 +516,36 @@ export const SUPPORT_TOOLS = new Set([
   'term_list',
 ]);
 
+/**
+ * Tools backed by stores that don't filter by the caller's projects (arch
+ * memory, docs, glossary): a project-restricted caller must name one of their
+ * projects, or they'd read / write group-wide entries.
+ */
+const PROJECT_SCOPED_TOOLS = new Set([
+  'arch_context',
+  'arch_list',
+  'arch_record_component',
+  'arch_record_decision',
+  'arch_record_lesson',
+  'arch_suggest_components',
+  'search_docs',
+  'term_search',
+  'term_list',
+  'term_record',
+]);
+
+const ANALYTICS_TOOLS = new Set([
+  'token_savings_report',
+  'top_queries',
+  'slowest_searches',
+  'cross_project_share',
+  'retry_rate',
+  'failed_chunks',
+]);
+
+/** Tools acting on a whole group (deletes by id, usage analytics) — closed to project-restricted callers. */
+const GROUP_WIDE_TOOLS = new Set(['arch_delete', 'term_delete', ...ANALYTICS_TOOLS]);
+
 /** Workflow-prompt names available in each mode. Content lives in prompts.json. */
 export const CODING_PROMPTS = [
   'find_implementation',
@@ -593,6 +722,192 @@ export class McpHandler {
     };
   }
 
+  /**
+   * Pre-check a tool call's arguments against the caller's access rules
+   * (see auth/access.ts). Returns the denial, or null when the call may run.
+   * Tools that fan out over groups or graph neighbours additionally filter
+   * their results, since those targets aren't known up front.
+   */
+  private checkToolAccess(tool: string, args: unknown): AccessDeniedError | null {
+    const rules = access.current();
+    if (rules.groups === null && rules.projects === null) return null;
+    const a = args != null && typeof args === 'object' ? (args as Record<string, unknown>) : {};
+    const group = typeof a['group'] === 'string' ? a['group'] : undefined;
+    const project =
+      typeof a['project'] === 'string' && a['project'] !== 'all' ? a['project'] : undefined;
+
+    // `chunk_id`, plus trace_path's endpoints when they are chunk ids rather than symbol names.
+    const chunkIds = [a['chunk_id'], a['from'], a['to']].filter(
+      (v, i): v is string => typeof v === 'string' && (i === 0 || parseChunkId(v) !== null)
+    );
+    let denied = checkScope(group, project, rules);
+    for (const id of chunkIds) {
+      denied ??= checkChunk(id, (p) => this.indexer.storedProjectName(p), rules);
+    }
+    if (denied) return denied;
+    if (rules.projects !== null) {
+      if (GROUP_WIDE_TOOLS.has(tool)) {
+        return new AccessDeniedError('scope', `${tool} needs access to every project in the group`);
+      }
+      if (PROJECT_SCOPED_TOOLS.has(tool) && project === undefined) {
+        return new AccessDeniedError(
+          'scope',
+          `${tool} needs "project" set to one of: ${rules.projects.join(', ')}`
+        );
+      }
+    }
+    if (rules.groups !== null && ANALYTICS_TOOLS.has(tool) && group === undefined) {
+      return new AccessDeniedError(
+        'scope',
+        `${tool} needs "group" set to one of: ${rules.groups.join(', ')}`
+      );
+    }
+    return null;
+  }
+
+  /** Wrap a tool callback so calls the caller's access rules forbid are refused and counted. */
+  private guardTool<TArgs extends unknown[], TResult>(
+    toolName: string,
+    fn: (...args: TArgs) => Promise<TResult>
+  ): (...args: TArgs) => Promise<TResult> {
+    return async (...args: TArgs) => {
+      const denied = this.checkToolAccess(toolName, args[0]);
+      if (!denied) return fn(...args);
+      this.metrics.incAccessDeniedTotal(toolName, denied.resource);
+      return {
+        content: [{ type: 'text' as const, text: denied.message }],
+        isError: true,
+      } as TResult;
+    };
+  }
+
+  /** Registered groups the caller may read — the fan-out set when a tool gets no `group`. */
+  private visibleGroupNames(): string[] {
+    return this.getGroupNames().filter((g) => canAccessGroup(g));
+  }
+
+  /** Files of the arch-memory component named `name` (case-insensitive), or null when there's none. */
+  private async componentFiles(
+    group: string,
+    project: string,
+    name: string
+  ): Promise<string[] | null> {
+    if (!this.archStore) return null;
+    const wanted = name.toLowerCase();
+    let offset: string | number | Record<string, unknown> | undefined = undefined;
+    for (;;) {
+      const page = await this.archStore.listPoints(group, {
+        kinds: ['component'],
+        project,
+        limit: 200,
+        ...(offset !== undefined ? { offset } : {}),
+      });
+      const match = page.points.find(
+        (p) => p.kind === 'component' && p.name.toLowerCase() === wanted
+      );
+      if (match?.kind === 'component') return match.files;
+      if (page.nextOffset === null) return null;
+      offset = page.nextOffset;
+    }
+  }
+
+  /** Whether the caller may see a chunk (a graph neighbour, a search hit) by id. */
+  private canReadChunk(chunkId: string): boolean {
+    return canAccessChunk(chunkId, (p) => this.indexer.storedProjectName(p));
+  }
+
+  /**
+   * The ids among `chunkIds` that are part of `branch`'s view: the branch
+   * variant's own chunks, and default-branch chunks the branch shares.
+   */
+  private async chunksOnBranch(chunkIds: string[], branch: string): Promise<Set<string>> {
+    const onBranch = new Set<string>();
+    await Promise.all(
+      [...new Set(chunkIds)].map(async (id) => {
+        const variant = splitBranchProject(parseChunkId(id)?.project ?? '').branch;
+        if (variant !== null) {
+          if (variant === branch) onBranch.add(id);
+          return;
+        }
+        const payload = await this.indexer.getChunkById(id);
+        if (payload && isOnBranch(payload, branch)) onBranch.add(id);
+      })
+    );
+    return onBranch;
+  }
+
+  /**
+   * find_usages in `table_usages` mode: the chunks creating a database table
+   * and every readable chunk with a `references` edge to them — queries, ORM
+   * models, migrations altering it.
+   */
+  private async findTableUsages(
+    metadataStore: MetadataStore,
+    table: string | undefined,
+    group: string | undefined,
+    limit: number
+  ): Promise<{ content: Array<{ type: 'text'; text: string }>; isError?: boolean }> {
+    const name = table ? normalizeTableName(table) : null;
+    if (!name) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: 'mode "table_usages" needs `table` set to a table name, e.g. "invoices".',
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const edges = (group ? [group] : this.visibleGroupNames())
+      .flatMap((g) => metadataStore.getTableReferences(g, name))
+      .filter((e) => this.canReadChunk(e.from_chunk_id) && this.canReadChunk(e.to_chunk_id));
+    const definitions = [...new Set(edges.map((e) => e.to_chunk_id))];
+    const users = new Map<string, SymbolEdge>();
+    for (const e of edges) {
+      if (!users.has(e.from_chunk_id)) users.set(e.from_chunk_id, e);
+    }
+    if (users.size === 0) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `No usages found for table \`${name}\`.\n\nCode is linked to a table only when the \`.sql\` file or migration creating it is indexed in the same project. Try search_code with the table name.`,
+          },
+        ],
+      };
+    }
+
+    const shown = [...users.values()].slice(0, limit);
+    const [defPayloads, usePayloads] = await Promise.all([
+      Promise.all(definitions.map((id) => this.indexer.getChunkById(id))),
+      Promise.all(shown.map((e) => this.indexer.getChunkById(e.from_chunk_id))),
+    ]);
+    const line = (id: string, ep: Record<string, unknown> | null, suffix: string): string => {
+      if (!ep) return `- _chunk: ${id}_${suffix}\n`;
+      const p = typeof ep['project'] === 'string' ? ep['project'] : 'unknown';
+      const f = typeof ep['file'] === 'string' ? ep['file'] : 'unknown';
+      const sl = typeof ep['startLine'] === 'number' ? ep['startLine'] : 0;
+      const sym = typeof ep['symbol_name'] === 'string' ? ` (${ep['symbol_name']})` : '';
+      return `- **[${p}] ${f}:${sl}**${sym}${suffix}\n  _chunk: ${id}_\n`;
+    };
+
+    let text = `## Usages of table \`${name}\`\n\n### Defined in (${definitions.length})\n\n`;
+    definitions.forEach((id, i) => {
+      text += line(id, defPayloads[i] ?? null, '');
+    });
+    text += `\n### Referenced by (${users.size}${shown.length < users.size ? `, showing ${shown.length}` : ''})\n\n`;
+    shown.forEach((e, i) => {
+      text += line(
+        e.from_chunk_id,
+        usePayloads[i] ?? null,
+        ` — references \`${e.confidence ?? 'INFERRED'}\``
+      );
+    });
+    return { content: [{ type: 'text' as const, text }] };
+  }
+
   private cleanupExpiredSessions(): void {
     const now = Date.now();
     let cleaned = 0;
@@ -626,6 +941,23 @@ export class McpHandler {
 
     const server = new McpServer({ name: 'paparats-mcp', version: PKG_VERSION }, { instructions });
 
+    // Monkey-patch server.tool so every registered handler enforces the
+    // caller's access rules. Installed first, so the telemetry wrapper below
+    // sits outside it and denied calls are still recorded.
+    {
+      const originalTool = server.tool.bind(server) as (...args: unknown[]) => unknown;
+      const guard = this.guardTool.bind(this);
+      server.tool = ((...args: unknown[]) => {
+        const last = args.length - 1;
+        const handler = args[last];
+        const name = typeof args[0] === 'string' ? args[0] : 'unknown';
+        if (typeof handler === 'function') {
+          args[last] = guard(name, handler as (...rest: unknown[]) => Promise<unknown>);
+        }
+        return originalTool(...args);
+      }) as typeof server.tool;
+    }
+
     // Monkey-patch server.tool so every registered handler is wrapped in telemetry.
     if (this.telemetry) {
       const originalTool = server.tool.bind(server) as (...args: unknown[]) => unknown;
@@ -647,7 +979,10 @@ export class McpHandler {
         const groupMap = this.getProjects();
         const sections: string[] = ['# Indexed Projects', ''];
 
-        for (const [group, projects] of groupMap) {
+        for (const [group, allProjects] of groupMap) {
+          if (!canAccessGroup(group)) continue;
+          const projects = allProjects.filter((p) => canAccessProject(p.name));
+          if (projects.length === 0) continue;
           const stats = await this.indexer.getGroupStats(group);
           sections.push(
             `## Group: ${group} (${stats.points} chunks)`,
@@ -725,6 +1060,18 @@ export class McpHandler {
               ],
             };
           }
+          if (!canAccessGroup(group)) {
+            metrics.incAccessDeniedTotal('arch-stats', 'group');
+            return {
+              contents: [
+                {
+                  uri: uri.href,
+                  mimeType: 'text/plain',
+                  text: `Access denied: group "${group}" is not available to this token`,
+                },
+              ],
+            };
+          }
           const stats = await archStore.stats(group);
           // Push the snapshot to the gauge so it survives in Prometheus too.
           for (const kind of ['component', 'decision', 'lesson'] as const) {
@@ -776,10 +1123,69 @@ export class McpHandler {
           group: z.string().optional().describe('Specific group or omit for all'),
           project: z.string().default('all').describe('Project name or "all"'),
           limit: z.coerce.number().min(1).max(20).default(5).describe('Max results'),
+          mode: z
+            .enum(SEARCH_MODES)
+            .default(DEFAULT_SEARCH_MODE)
+            .describe(
+              'Retrieval mode: "hybrid" (meaning + exact keywords, default), "dense" (meaning only), "sparse" (exact identifiers, error strings, config keys only)'
+            ),
+          intent_weight: z.coerce
+            .number()
+            .min(0)
+            .max(1)
+            .optional()
+            .describe(
+              'How much matching the doc comments ("intent") counts against matching the code body ("implementation"): 0 = code only (default), 1 = docs only. Raise it for "what does X" questions'
+            ),
+          languages: z
+            .array(z.string())
+            .optional()
+            .describe('Only chunks in these languages (e.g. ["go", "typescript"])'),
+          kinds: z
+            .array(z.enum(CHUNK_KINDS))
+            .optional()
+            .describe('Only these chunk kinds (e.g. ["method", "function"])'),
+          paths: z
+            .array(z.string())
+            .optional()
+            .describe('Only files matching any of these globs (e.g. ["internal/billing/**"])'),
+          exclude_paths: z
+            .array(z.string())
+            .optional()
+            .describe('Drop files matching any of these globs (e.g. ["**/*_test.go"])'),
+          tags: z.array(z.string()).optional().describe('Only chunks carrying any of these tags'),
+          service: z.string().optional().describe('Only chunks from this service'),
+          bounded_context: z.string().optional().describe('Only chunks from this bounded context'),
+          exclude_tests: z
+            .boolean()
+            .optional()
+            .describe('Drop test code (test files, spec/ and test directories) from the results'),
+          branch: z
+            .string()
+            .optional()
+            .describe(
+              'Search this indexed branch (e.g. "release/1.2") instead of the default branch'
+            ),
         },
-        async ({ query, group, project, limit }) => {
+        async ({
+          query,
+          group,
+          project,
+          limit,
+          mode,
+          intent_weight,
+          languages,
+          kinds,
+          paths,
+          exclude_paths,
+          tags,
+          service,
+          bounded_context,
+          exclude_tests,
+          branch,
+        }) => {
           try {
-            const groupNames = group ? [group] : this.getGroupNames();
+            const groupNames = group ? [group] : this.visibleGroupNames();
 
             if (groupNames.length === 0) {
               return {
@@ -792,6 +1198,17 @@ export class McpHandler {
               };
             }
 
+            const filters = normalizeSearchFilters({
+              languages,
+              kinds,
+              paths,
+              exclude_paths,
+              tags,
+              service,
+              bounded_context,
+              exclude_tests,
+            });
+
             const allResults: Array<{
               project: string;
               file: string;
@@ -800,6 +1217,7 @@ export class McpHandler {
               endLine: number;
               content: string;
               score: number;
+              rankScore?: number;
               hash: string;
               chunk_id: string | null;
               symbol_name: string | null;
@@ -812,6 +1230,10 @@ export class McpHandler {
               const response = await this.searcher.expandedSearch(g, query, {
                 project,
                 limit: limit * 2,
+                mode,
+                ...(intent_weight !== undefined ? { intentWeight: intent_weight } : {}),
+                filters,
+                ...(branch ? { branch } : {}),
               });
               allResults.push(...response.results);
             }
@@ -823,7 +1245,7 @@ export class McpHandler {
               return true;
             });
 
-            deduped.sort((a, b) => b.score - a.score);
+            deduped.sort(compareByRank);
             const top = deduped.slice(0, limit);
 
             if (top.length === 0) {
@@ -831,7 +1253,11 @@ export class McpHandler {
                 content: [
                   {
                     type: 'text' as const,
-                    text: 'No results found. Make sure the project is indexed.',
+                    text: filters
+                      ? 'No results matched the filters. Loosen or drop them and retry.'
+                      : branch
+                        ? `No results found on branch "${branch}". Make sure the branch is indexed.`
+                        : 'No results found. Make sure the project is indexed.',
                   },
                 ],
               };
@@ -839,19 +1265,20 @@ export class McpHandler {
 
             const formatted = top
               .map((r) => {
-                const score = (r.score * 100).toFixed(1);
+                const score = `${(r.score * 100).toFixed(1)}%`;
                 const symbolInfo = r.symbol_name
                   ? ` — ${r.kind ?? 'unknown'}: ${r.symbol_name}`
                   : '';
                 const chunkRef = r.chunk_id ? `\n_chunk: ${r.chunk_id}_` : '';
                 const symbolsLine = formatSymbolsLine(r.defines_symbols, r.uses_symbols);
-                return `**[${r.project}] ${r.file}:${r.startLine}-${r.endLine}** (${score}%${symbolInfo})${symbolsLine}${chunkRef}\n\`\`\`${sanitizeLang(r.language)}\n${r.content}\n\`\`\``;
+                return `**[${r.project}] ${r.file}:${r.startLine}-${r.endLine}** (${score}${symbolInfo})${symbolsLine}${chunkRef}\n\`\`\`${sanitizeLang(r.language)}\n${r.content}\n\`\`\``;
               })
               .join('\n\n---\n\n');
 
             const highCount = top.filter((r) => r.score >= HIGH_CONFIDENCE_THRESHOLD).length;
             const lowCount = top.filter((r) => r.score < LOW_CONFIDENCE_THRESHOLD).length;
-            const bestScore = top[0]?.score ?? 0;
+            // Ranked by position, so the best cosine isn't necessarily first.
+            const bestScore = Math.max(...top.map((r) => r.score));
 
             let guidance = '';
             if (bestScore < LOW_CONFIDENCE_THRESHOLD) {
@@ -866,7 +1293,9 @@ export class McpHandler {
 
             return { content: [{ type: 'text' as const, text: guidance + formatted }] };
           } catch (err) {
-            const details = group ? `group "${group}"` : `${this.getGroupNames().length} groups`;
+            const details = group
+              ? `group "${group}"`
+              : `${this.visibleGroupNames().length} groups`;
 
             return {
               content: [
@@ -885,7 +1314,9 @@ export class McpHandler {
     if (tools.has('health_check'))
       server.tool('health_check', prompts.tools.health_check.description, {}, async () => {
         try {
-          const groups = await this.indexer.listGroups();
+          const groups = Object.fromEntries(
+            Object.entries(await this.indexer.listGroups()).filter(([g]) => canAccessGroup(g))
+          );
 
           return {
             content: [
@@ -921,19 +1352,29 @@ export class McpHandler {
             .max(200)
             .default(0)
             .describe('Lines of surrounding context to include (0-200)'),
+          branch: z
+            .string()
+            .optional()
+            .describe(
+              'Show the same lines of the same file on this indexed branch (e.g. to compare a main chunk with a release branch)'
+            ),
         },
-        async ({ chunk_id, radius_lines }) => {
+        async ({ chunk_id, radius_lines, branch }) => {
           const fetchStart = performance.now();
           let fetchFound = false;
           try {
-            const payload = await this.indexer.getChunkById(chunk_id);
+            const payload = branch
+              ? await this.indexer.getChunkOnBranch(chunk_id, branch)
+              : await this.indexer.getChunkById(chunk_id);
 
             if (!payload) {
               return {
                 content: [
                   {
                     type: 'text' as const,
-                    text: `Chunk not found: ${chunk_id}\n\nThe chunk may have been removed during reindexing. Try searching again.`,
+                    text: branch
+                      ? `Chunk not found on branch "${branch}": ${chunk_id}\n\nThe file may not exist on that branch, or the branch is not indexed.`
+                      : `Chunk not found: ${chunk_id}\n\nThe chunk may have been removed during reindexing. Try searching again.`,
                   },
                 ],
               };
@@ -955,13 +1396,21 @@ export class McpHandler {
 
             // Metadata header
             text += `**[${project}] ${file}:${startLine}-${endLine}**\n`;
+            if (branch) {
+              const resolvedId = String(payload['chunk_id'] ?? chunk_id);
+              const own = splitBranchProject(parseChunkId(resolvedId)?.project ?? '').branch;
+              text += `Branch: \`${branch}\`${own ? '' : ' (same as the default branch)'}\n`;
+              text += `_chunk: ${resolvedId}_\n`;
+            }
             if (symbolName) text += `Symbol: \`${symbolName}\` (${kind ?? 'unknown'})\n`;
             const symbolsLine = formatSymbolsLine(definesSymbols, usesSymbols);
             if (symbolsLine) text += symbolsLine.slice(1) + '\n'; // slice(1) removes leading newline
             text += '\n';
 
             if (radius_lines > 0) {
-              const parsed = parseChunkId(chunk_id);
+              // On a branch the file is wholly the variant's or wholly shared, so
+              // the resolved chunk's project holds all its neighbours.
+              const parsed = parseChunkId((payload['chunk_id'] as string | undefined) ?? chunk_id);
               if (parsed) {
                 const adjacentChunks = await this.indexer.getAdjacentChunks(
                   parsed.group,
@@ -1072,6 +1521,11 @@ export class McpHandler {
             const symbolSuffix = symbolName ? ` — \`${symbolName}\` (${kind ?? 'unknown'})` : '';
             text += `**[${project}] ${file}:${startLine}-${endLine}**${symbolSuffix}\n\n`;
 
+            const parsed = parseChunkId(chunk_id);
+            const links = parsed
+              ? this.metadataStore.getProjectLinks(parsed.group, parsed.project)
+              : null;
+
             // Commits table
             const commits = this.metadataStore.getCommits(chunk_id, commit_limit);
             if (commits.length > 0) {
@@ -1080,7 +1534,9 @@ export class McpHandler {
               text += '|------|--------|---------|\n';
               for (const c of commits) {
                 const date = c.committed_at.split('T')[0] ?? c.committed_at;
-                text += `| ${date} | ${c.author_email} | ${c.message_summary} |\n`;
+                const url = commitUrl(links, c.commit_hash);
+                const when = url ? `[${date} ${c.commit_hash.slice(0, 7)}](${url})` : date;
+                text += `| ${when} | ${c.author_email} | ${c.message_summary} |\n`;
               }
             } else {
               text += '_No git history available for this chunk._\n';
@@ -1091,7 +1547,24 @@ export class McpHandler {
             if (tickets.length > 0) {
               text += `\n### Tickets\n`;
               for (const t of tickets) {
-                text += `- ${t.ticket_key} (${t.source})\n`;
+                const url = ticketUrl(links, t);
+                const key = url ? `[${t.ticket_key}](${url})` : t.ticket_key;
+                text += `- ${key} (${t.source})\n`;
+              }
+            }
+
+            // Owners: the CODEOWNERS rule for the file, then who wrote the lines
+            if (parsed) {
+              const codeOwners = this.metadataStore.getCodeOwners(
+                parsed.group,
+                parsed.project,
+                parsed.file
+              );
+              const contributors = this.metadataStore.getChunkContributors(chunk_id, 5);
+              if (codeOwners || contributors.length > 0) {
+                text += `\n### Owners\n`;
+                if (codeOwners) text += `CODEOWNERS: ${formatCodeOwners(codeOwners)}\n`;
+                if (contributors.length > 0) text += `\n${formatContributors(contributors)}`;
               }
             }
 
@@ -1119,6 +1592,162 @@ export class McpHandler {
         }
       );
 
+    // ── Tool: who_owns ──────────────────────────────────────────────────────
+    if (tools.has('who_owns'))
+      server.tool(
+        'who_owns',
+        prompts.tools.who_owns.description,
+        {
+          chunk_id: z
+            .string()
+            .optional()
+            .describe('Chunk ID from search_code — owners of that code'),
+          group: z.string().optional().describe('Group of the project (without chunk_id)'),
+          project: z.string().optional().describe('Project to look up (without chunk_id)'),
+          path: z
+            .string()
+            .optional()
+            .describe('File or directory inside the project (default: the whole project)'),
+          component: z
+            .string()
+            .optional()
+            .describe('Architecture component name — owners of the files it lists'),
+          limit: z.coerce.number().min(1).max(50).default(10).describe('Max contributors'),
+        },
+        async ({ chunk_id, group, project, path, component, limit }) => {
+          try {
+            if (!this.metadataStore) {
+              return {
+                content: [
+                  {
+                    type: 'text' as const,
+                    text: 'Ownership is not available. The metadata store is not configured.',
+                  },
+                ],
+              };
+            }
+
+            let scope: { group: string; project: string; paths: string[]; label: string };
+            let contributors: Contributor[];
+            if (chunk_id) {
+              const parsed = parseChunkId(chunk_id);
+              if (!parsed) {
+                return {
+                  content: [{ type: 'text' as const, text: `Invalid chunk_id: ${chunk_id}` }],
+                  isError: true,
+                };
+              }
+              scope = {
+                group: parsed.group,
+                project: parsed.project,
+                paths: [parsed.file],
+                label: `${parsed.file}:${parsed.startLine}-${parsed.endLine}`,
+              };
+              contributors = this.metadataStore.getChunkContributors(chunk_id, limit);
+            } else {
+              if (!group || !project) {
+                return {
+                  content: [
+                    {
+                      type: 'text' as const,
+                      text: 'Pass a chunk_id, or a group and project (optionally with a path or component).',
+                    },
+                  ],
+                  isError: true,
+                };
+              }
+              let paths = path ? [path] : [];
+              let label = path ?? project;
+              if (component) {
+                const files = await this.componentFiles(group, project, component);
+                if (!files) {
+                  return {
+                    content: [
+                      {
+                        type: 'text' as const,
+                        text: this.archStore
+                          ? `No component named "${component}" in project "${project}". Use arch_context to list components, or pass a path.`
+                          : 'Architecture memory is not configured — pass a path instead of a component.',
+                      },
+                    ],
+                  };
+                }
+                if (files.length === 0) {
+                  return {
+                    content: [
+                      {
+                        type: 'text' as const,
+                        text: `Component "${component}" lists no files. Update it with arch_record_component, or pass a path.`,
+                      },
+                    ],
+                  };
+                }
+                paths = files;
+                label = `component ${component}`;
+              }
+              scope = { group, project: this.indexer.storedProjectName(project), paths, label };
+              contributors = this.metadataStore.getContributors(
+                scope.group,
+                scope.project,
+                paths,
+                limit
+              );
+            }
+
+            const cleanProject = this.indexer.cleanProjectName(scope.project);
+            let text = `## Owners of \`${scope.label}\` [${cleanProject}]\n\n`;
+
+            // Files grouped by the owner list their CODEOWNERS rule names.
+            const owned = this.metadataStore.getCodeOwnersIn(
+              scope.group,
+              scope.project,
+              scope.paths
+            );
+            const byOwners = new Map<string, { owners: string[]; files: number }>();
+            for (const { owners } of owned) {
+              const key = owners.join(' ');
+              const entry = byOwners.get(key) ?? { owners, files: 0 };
+              entry.files++;
+              byOwners.set(key, entry);
+            }
+            text += '### CODEOWNERS\n';
+            if (byOwners.size === 0) {
+              text += '_No CODEOWNERS rule covers this code._\n';
+            } else {
+              const single = owned.length === 1;
+              for (const { owners, files } of [...byOwners.values()].sort(
+                (a, b) => b.files - a.files
+              )) {
+                const count = single ? '' : ` — ${files} file${files === 1 ? '' : 's'}`;
+                text += `- ${formatCodeOwners(owners)}${count}\n`;
+              }
+            }
+
+            text += '\n### Top contributors (git blame)\n';
+            if (contributors.length === 0) {
+              text +=
+                '_No blame data: nobody changed this code within the ownership window (`metadata.git.ownershipMonths`), or git metadata is disabled or not yet indexed._\n';
+            } else {
+              text += formatContributors(contributors);
+            }
+
+            text +=
+              '\nCODEOWNERS is who is accountable; contributors are who changed the code recently — route to the owning team, cc the top contributor.';
+            return { content: [{ type: 'text' as const, text }] };
+          } catch (err) {
+            return {
+              content: [
+                {
+                  type: 'text' as const,
+                  text: `Failed to look up owners: ${(err as Error).message}`,
+                },
+              ],
+              isError: true,
+            };
+          }
+        }
+      );
+
     // ── Tool: search_changes ─────────────────────────────────────────────────
     if (tools.has('search_changes'))
       server.tool(
@@ -1138,7 +1767,7 @@ export class McpHandler {
         },
         async ({ query, since, group, project, limit }) => {
           try {
-            const groupNames = group ? [group] : this.getGroupNames();
+            const groupNames = group ? [group] : this.visibleGroupNames();
 
             if (groupNames.length === 0) {
               return {
@@ -1167,6 +1796,7 @@ export class McpHandler {
               endLine: number;
               content: string;
               score: number;
+              rankScore?: number;
               hash: string;
               chunk_id: string | null;
               symbol_name: string | null;
@@ -1191,7 +1821,7 @@ export class McpHandler {
               return true;
             });
 
-            deduped.sort((a, b) => b.score - a.score);
+            deduped.sort(compareByRank);
             const top = deduped.slice(0, limit);
 
             if (top.length === 0) {
@@ -1285,7 +1915,24 @@ export class McpHandler {
         'find_usages',
         prompts.tools.find_usages.description,
         {
-          chunk_id: z.string().describe('Chunk ID to find usages of'),
+          chunk_id: z
+            .string()
+            .optional()
+            .describe('Chunk ID to find usages of (required unless mode is "table_usages")'),
+          mode: z
+            .enum(['symbols', 'table_usages'])
+            .default('symbols')
+            .describe(
+              'symbols (default) = symbol-graph neighbours of chunk_id; table_usages = code that queries, maps or migrates the database table named in `table`'
+            ),
+          table: z
+            .string()
+            .optional()
+            .describe('Table name for mode "table_usages", e.g. "invoices" or "billing.invoices"'),
+          group: z
+            .string()
+            .optional()
+            .describe('Group to look in for mode "table_usages" (default: all)'),
           direction: z
             .enum(['incoming', 'outgoing', 'both'])
             .default('incoming')
@@ -1293,9 +1940,11 @@ export class McpHandler {
               'incoming = who calls this chunk, outgoing = what this chunk calls, both = both directions'
             ),
           relation_types: z
-            .array(z.enum(['calls', 'called_by', 'references', 'referenced_by']))
+            .array(z.enum(RELATION_TYPES))
             .optional()
-            .describe('Filter by relation types (default: all)'),
+            .describe(
+              'Filter by relation types (default: all). Use ["implements"] or ["extends"] with direction "incoming" on an interface / base class to list its implementors / subclasses, ["overrides"] on a method to list overriding methods.'
+            ),
           limit: z.coerce.number().min(1).max(50).default(20).describe('Max results per direction'),
           include_hubs: z
             .boolean()
@@ -1303,8 +1952,24 @@ export class McpHandler {
             .describe(
               'When true (default) callers/callees whose own degree is above the group p95 are surfaced with a `[hub]` marker so the agent knows the link is noisy. Set false to drop hub neighbours entirely — useful when probing a specific path through the codebase.'
             ),
+          branch: z
+            .string()
+            .optional()
+            .describe(
+              'Find usages on this indexed branch: chunk_id is mapped to the same lines there, and only neighbours on the branch are listed'
+            ),
         },
-        async ({ chunk_id, direction, relation_types, limit, include_hubs }) => {
+        async ({
+          chunk_id,
+          mode,
+          table,
+          group,
+          direction,
+          relation_types,
+          limit,
+          include_hubs,
+          branch,
+        }) => {
           try {
             if (!this.metadataStore) {
               return {
@@ -1317,17 +1982,38 @@ export class McpHandler {
               };
             }
 
-            const payload = await this.indexer.getChunkById(chunk_id);
+            if (mode === 'table_usages') {
+              return await this.findTableUsages(this.metadataStore, table, group, limit);
+            }
+            if (!chunk_id) {
+              return {
+                content: [
+                  {
+                    type: 'text' as const,
+                    text: 'chunk_id is required. Pass a chunk_id from search results, or use mode "table_usages" with `table`.',
+                  },
+                ],
+                isError: true,
+              };
+            }
+
+            const payload = branch
+              ? await this.indexer.getChunkOnBranch(chunk_id, branch)
+              : await this.indexer.getChunkById(chunk_id);
             if (!payload) {
               return {
                 content: [
                   {
                     type: 'text' as const,
-                    text: `Chunk not found: ${chunk_id}\n\nThe chunk may have been removed during reindexing. Try searching again.`,
+                    text: branch
+                      ? `Chunk not found on branch "${branch}": ${chunk_id}\n\nThe file may not exist on that branch, or the branch is not indexed.`
+                      : `Chunk not found: ${chunk_id}\n\nThe chunk may have been removed during reindexing. Try searching again.`,
                   },
                 ],
               };
             }
+            // On a branch the seed is the branch's copy of the chunk.
+            const seedId = branch ? String(payload['chunk_id'] ?? chunk_id) : chunk_id;
 
             const defSymbols = Array.isArray(payload['defines_symbols'])
               ? (payload['defines_symbols'] as string[])
@@ -1336,14 +2022,18 @@ export class McpHandler {
             const wantIncoming = direction === 'incoming' || direction === 'both';
             const wantOutgoing = direction === 'outgoing' || direction === 'both';
 
-            let edgesTo = wantIncoming ? this.metadataStore.getEdgesTo(chunk_id) : [];
-            let edgesFrom = wantOutgoing ? this.metadataStore.getEdgesFrom(chunk_id) : [];
+            let edgesTo = wantIncoming ? this.metadataStore.getEdgesTo(seedId) : [];
+            let edgesFrom = wantOutgoing ? this.metadataStore.getEdgesFrom(seedId) : [];
 
             if (relation_types && relation_types.length > 0) {
               const allowed = new Set(relation_types);
               edgesTo = edgesTo.filter((e) => allowed.has(e.relation_type));
               edgesFrom = edgesFrom.filter((e) => allowed.has(e.relation_type));
             }
+            // Neighbours in groups / projects the caller can't read are dropped
+            // before the limit, so they neither leak nor eat result slots.
+            edgesTo = edgesTo.filter((e) => this.canReadChunk(e.from_chunk_id));
+            edgesFrom = edgesFrom.filter((e) => this.canReadChunk(e.to_chunk_id));
 
             // Hub-threshold filtering: edges whose *other endpoint* is itself
             // a hub (degree above the group p95) are either marked or dropped.
@@ -1354,7 +2044,7 @@ export class McpHandler {
             // `hubChunkIds` is pre-computed inside MetadataStore and lives in
             // the per-group degree cache, so this is O(1) lookup per edge
             // without any per-call Set construction.
-            const seedGroup = chunk_id.split('//')[0] ?? '';
+            const seedGroup = seedId.split('//')[0] ?? '';
             const hubChunkIds = seedGroup
               ? this.metadataStore.getGroupDegreeSnapshot(seedGroup).hubChunkIds
               : new Set<string>();
@@ -1364,6 +2054,15 @@ export class McpHandler {
               edgesFrom = edgesFrom.filter((e) => !isHub(e.to_chunk_id));
             }
 
+            if (branch) {
+              const onBranch = await this.chunksOnBranch(
+                [...edgesTo.map((e) => e.from_chunk_id), ...edgesFrom.map((e) => e.to_chunk_id)],
+                branch
+              );
+              edgesTo = edgesTo.filter((e) => onBranch.has(e.from_chunk_id));
+              edgesFrom = edgesFrom.filter((e) => onBranch.has(e.to_chunk_id));
+            }
+
             edgesTo = edgesTo.slice(0, limit);
             edgesFrom = edgesFrom.slice(0, limit);
 
@@ -1376,7 +2075,7 @@ export class McpHandler {
                 content: [
                   {
                     type: 'text' as const,
-                    text: `No usages found for chunk: ${chunk_id}${symbolInfo}\n\nThis may mean the symbols are not used in indexed code, or the project needs reindexing.`,
+                    text: `No usages found for chunk: ${seedId}${symbolInfo}\n\nThis may mean the symbols are not used in indexed code, or the project needs reindexing.`,
                   },
                 ],
               };
@@ -1484,6 +2183,350 @@ export class McpHandler {
         }
       );
 
+    // ── Tool: find_symbol ─────────────────────────────────────────────────
+    if (tools.has('find_symbol'))
+      server.tool(
+        'find_symbol',
+        prompts.tools.find_symbol.description,
+        {
+          name: z.string().min(1).describe('Symbol name, e.g. "parseChunkId" or "UserService"'),
+          group: z.string().optional().describe('Specific group or omit for all'),
+          project: z.string().default('all').describe('Project name or "all"'),
+          mode: z
+            .enum(SYMBOL_MATCH_MODES)
+            .default('exact')
+            .describe(
+              '"exact" (default) = this exact name, "prefix" = names starting with it, "fuzzy" = substring or a few typos. prefix and fuzzy ignore case.'
+            ),
+          kinds: z
+            .array(z.enum(CHUNK_KINDS))
+            .optional()
+            .describe('Only definitions of these kinds (e.g. ["class", "interface"])'),
+          limit: z.coerce.number().min(1).max(50).default(10).describe('Max definitions'),
+        },
+        async ({ name, group, project, mode, kinds, limit }) => {
+          try {
+            const groupNames = group ? [group] : this.visibleGroupNames();
+            if (groupNames.length === 0) {
+              return {
+                content: [
+                  { type: 'text' as const, text: 'No groups registered. Index a project first.' },
+                ],
+              };
+            }
+
+            const projects = resolveSymbolProjects(this.searcher.getProjectScope(), project);
+            const { definitions, truncated } = await findSymbolDefinitions(
+              { indexer: this.indexer, metadataStore: this.metadataStore },
+              groupNames,
+              name,
+              { mode, projects, kinds, limit }
+            );
+            const truncatedNote = truncated
+              ? `\n\n_Only the first ${SYMBOL_SCAN_MAX_CHUNKS} defining chunks per group were scanned; some matches may be missing. Narrow with \`group\` or \`project\`._`
+              : '';
+
+            if (definitions.length === 0) {
+              const hint =
+                mode === 'exact'
+                  ? ' Try mode "prefix" or "fuzzy", or search_code if you only know what it does.'
+                  : ' Try search_code if you only know what it does.';
+              return {
+                content: [
+                  {
+                    type: 'text' as const,
+                    text: `No definitions found for \`${name}\` (${mode}).${hint}${truncatedNote}`,
+                  },
+                ],
+              };
+            }
+
+            let text = `## Definitions of \`${name}\` (${definitions.length})\n\n`;
+            for (const d of definitions) {
+              const kind = d.kind ?? 'unknown';
+              text += `- **[${d.project}] ${d.file}:${d.startLine}-${d.endLine}** — ${kind} \`${d.symbol}\` (${d.in_degree} incoming)\n`;
+              text += `  _chunk: ${d.chunk_id}_\n`;
+            }
+            text +=
+              '\nUse get_chunk with a chunk_id to read the code, or find_usages to see callers.';
+            text += truncatedNote;
+            return { content: [{ type: 'text' as const, text }] };
+          } catch (err) {
+            return {
+              content: [
+                {
+                  type: 'text' as const,
+                  text: `Failed to find symbol: ${(err as Error).message}`,
+                },
+              ],
+              isError: true,
+            };
+          }
+        }
+      );
+
+    // ── Tool: find_tests ──────────────────────────────────────────────────
+    if (tools.has('find_tests'))
+      server.tool(
+        'find_tests',
+        prompts.tools.find_tests.description,
+        {
+          target: z
+            .string()
+            .min(1)
+            .describe('The code to find tests for: a chunk_id or an exact symbol name'),
+          group: z
+            .string()
+            .optional()
+            .describe('Group to resolve a symbol name in (default: all groups)'),
+          limit: z.coerce.number().min(1).max(50).default(20).describe('Max test chunks'),
+        },
+        async ({ target, group, limit }) => {
+          try {
+            if (!this.metadataStore) {
+              return {
+                content: [
+                  {
+                    type: 'text' as const,
+                    text: 'Symbol graph is not available. The metadata store is not configured.',
+                  },
+                ],
+              };
+            }
+
+            const groupNames = group ? [group] : this.visibleGroupNames();
+            const projects = resolveSymbolProjects(this.searcher.getProjectScope(), undefined);
+            const targets = parseChunkId(target)
+              ? [target]
+              : (
+                  await findSymbolDefinitions(
+                    { indexer: this.indexer, metadataStore: this.metadataStore },
+                    groupNames,
+                    target,
+                    { projects, limit: 20 }
+                  )
+                ).definitions.map((d) => d.chunk_id);
+            if (targets.length === 0) {
+              return {
+                content: [
+                  {
+                    type: 'text' as const,
+                    text: `No definition found for \`${target}\`. Pass a chunk_id, or use find_symbol to check the name.`,
+                  },
+                ],
+              };
+            }
+
+            // Test chunk → the symbols of the target it exercises.
+            const tests = new Map<string, SymbolEdge[]>();
+            for (const id of targets) {
+              for (const edge of this.metadataStore.getEdgesTo(id)) {
+                if (edge.relation_type !== 'tests') continue;
+                if (!this.canReadChunk(edge.from_chunk_id)) continue;
+                const edges = tests.get(edge.from_chunk_id) ?? [];
+                edges.push(edge);
+                tests.set(edge.from_chunk_id, edges);
+              }
+            }
+            if (tests.size === 0) {
+              return {
+                content: [
+                  {
+                    type: 'text' as const,
+                    text: `No tests found for \`${target}\`. A test is linked when a test file (\`*.test.ts\`, \`_test.go\`, \`test_*.py\`, \`spec/\` …) uses a symbol the code defines; it may only be tested indirectly, or the project needs reindexing.`,
+                  },
+                ],
+              };
+            }
+
+            const ids = Array.from(tests.keys()).slice(0, limit);
+            const payloads = await Promise.all(ids.map((id) => this.indexer.getChunkById(id)));
+            let text = `## Tests for \`${target}\` (${tests.size})\n\n`;
+            ids.forEach((id, i) => {
+              const payload = payloads[i];
+              const symbols = Array.from(new Set(tests.get(id)!.map((e) => e.symbol_name)));
+              const exercised = symbols.map((s) => `\`${s}\``).join(', ');
+              if (payload) {
+                const loc = resolveChunkLocation(payload);
+                const sym = loc.symbolName ? ` (${loc.symbolName})` : '';
+                text += `- **[${loc.project}] ${loc.file}:${loc.startLine}**${sym} — uses ${exercised}\n`;
+                text += `  _chunk: ${id}_\n`;
+              } else {
+                text += `- _chunk: ${id}_ — uses ${exercised}\n`;
+              }
+            });
+            if (tests.size > ids.length) {
+              text += `\n_${tests.size - ids.length} more — raise \`limit\` to see them._\n`;
+            }
+            text += '\nUse get_chunk with a chunk_id to read a test.';
+            return { content: [{ type: 'text' as const, text }] };
+          } catch (err) {
+            return {
+              content: [
+                {
+                  type: 'text' as const,
+                  text: `Failed to find tests: ${(err as Error).message}`,
+                },
+              ],
+              isError: true,
+            };
+          }
+        }
+      );
+
+    // ── Tool: trace_path ──────────────────────────────────────────────────
+    if (tools.has('trace_path'))
+      server.tool(
+        'trace_path',
+        prompts.tools.trace_path.description,
+        {
+          from: z.string().min(1).describe('Start: a chunk_id or an exact symbol name'),
+          to: z.string().min(1).describe('End: a chunk_id or an exact symbol name'),
+          group: z
+            .string()
+            .optional()
+            .describe('Group to resolve symbol names in (default: all groups)'),
+          max_hops: z.coerce
+            .number()
+            .min(1)
+            .max(10)
+            .default(6)
+            .describe('Longest chain to look for, in edges'),
+          limit: z.coerce.number().min(1).max(10).default(3).describe('Max paths'),
+          relation_types: z
+            .array(z.enum(RELATION_TYPES))
+            .optional()
+            .describe(
+              'Only follow these relation types (default: all). E.g. ["calls"] for pure call chains.'
+            ),
+          include_hubs: z
+            .boolean()
+            .default(false)
+            .describe(
+              'Walk through hub chunks (degree above the group p95). Off by default — paths through a logger or a base class are short but rarely what you want.'
+            ),
+        },
+        async ({ from, to, group, max_hops, limit, relation_types, include_hubs }) => {
+          try {
+            if (!this.metadataStore) {
+              return {
+                content: [
+                  {
+                    type: 'text' as const,
+                    text: 'Symbol graph is not available. The metadata store is not configured.',
+                  },
+                ],
+              };
+            }
+
+            // Symbol names resolve to their defining chunks; every definition
+            // is a candidate endpoint and the BFS picks the closest pair.
+            const groupNames = group ? [group] : this.visibleGroupNames();
+            const projects = resolveSymbolProjects(this.searcher.getProjectScope(), undefined);
+            const resolve = async (ref: string): Promise<string[]> => {
+              if (parseChunkId(ref)) return [ref];
+              const { definitions } = await findSymbolDefinitions(
+                { indexer: this.indexer, metadataStore: this.metadataStore },
+                groupNames,
+                ref,
+                { projects, limit: 20 }
+              );
+              return definitions.map((d) => d.chunk_id);
+            };
+            const [sources, targets] = await Promise.all([resolve(from), resolve(to)]);
+            for (const [ref, ids] of [
+              [from, sources],
+              [to, targets],
+            ] as const) {
+              if (ids.length === 0) {
+                return {
+                  content: [
+                    {
+                      type: 'text' as const,
+                      text: `No definition found for \`${ref}\`. Pass a chunk_id, or use find_symbol to check the name.`,
+                    },
+                  ],
+                };
+              }
+            }
+            if (sources.some((id) => targets.includes(id))) {
+              return {
+                content: [
+                  {
+                    type: 'text' as const,
+                    text: `\`${from}\` and \`${to}\` resolve to the same chunk — there is no path to trace.`,
+                  },
+                ],
+              };
+            }
+
+            const result = traceCallPaths(this.metadataStore, sources, targets, {
+              maxHops: max_hops,
+              limit,
+              relationTypes: relation_types,
+              includeHubs: include_hubs,
+              canRead: (id) => this.canReadChunk(id),
+            });
+
+            if (result.paths.length === 0) {
+              let text = `No path from \`${from}\` to \`${to}\` within ${max_hops} hops (${result.visited} chunks explored).`;
+              if (result.truncated) {
+                text += '\n\nThe search hit its node budget — narrow it with `relation_types`.';
+              }
+              if (result.skippedHubs > 0) {
+                text += `\n\n${result.skippedHubs} hub chunk(s) were not walked through. Set \`include_hubs: true\` to allow them.`;
+              }
+              text +=
+                '\n\nEdges run caller → callee (subtype → supertype); try swapping `from` and `to`.';
+              return { content: [{ type: 'text' as const, text }] };
+            }
+
+            // Locations for every chunk on the returned paths.
+            const ids = Array.from(
+              new Set(result.paths.flatMap((path) => [path[0]!.from, ...path.map((e) => e.to)]))
+            );
+            const payloads = await Promise.all(ids.map((id) => this.indexer.getChunkById(id)));
+            const locations = new Map<string, ChunkLocation>();
+            ids.forEach((id, i) => {
+              const payload = payloads[i];
+              if (payload) locations.set(id, resolveChunkLocation(payload));
+            });
+            const describeChunk = (id: string): string => {
+              const loc = locations.get(id);
+              if (!loc) return `_chunk: ${id}_`;
+              const sym = loc.symbolName ? ` \`${loc.symbolName}\`` : '';
+              return `**[${loc.project}] ${loc.file}:${loc.startLine}**${sym} _chunk: ${id}_`;
+            };
+            const describeEdge = (e: PathEdge): string =>
+              `${e.relation} \`${e.symbol}\` \`${e.confidence}\``;
+
+            let text = `## Paths from \`${from}\` to \`${to}\` (${result.paths.length} shortest, ${result.hops} hop${result.hops === 1 ? '' : 's'})\n`;
+            result.paths.forEach((path, i) => {
+              text += `\n### Path ${i + 1}\n\n`;
+              text += `1. ${describeChunk(path[0]!.from)}\n`;
+              path.forEach((edge, j) => {
+                text += `   ↓ ${describeEdge(edge)}\n`;
+                text += `${j + 2}. ${describeChunk(edge.to)}\n`;
+              });
+            });
+            if (result.skippedHubs > 0) {
+              text += `\n_${result.skippedHubs} hub chunk(s) were not walked through (\`include_hubs: true\` to allow)._\n`;
+            }
+            return { content: [{ type: 'text' as const, text }] };
+          } catch (err) {
+            return {
+              content: [
+                {
+                  type: 'text' as const,
+                  text: `Failed to trace path: ${(err as Error).message}`,
+                },
+              ],
+              isError: true,
+            };
+          }
+        }
+      );
+
     // ── Tool: explain_feature ────────────────────────────────────────────────
     if (tools.has('explain_feature'))
       server.tool(
@@ -1497,7 +2540,7 @@ export class McpHandler {
         },
         async ({ question, group, project, limit }) => {
           try {
-            const groupNames = group ? [group] : this.getGroupNames();
+            const groupNames = group ? [group] : this.visibleGroupNames();
 
             if (groupNames.length === 0) {
               return {
@@ -1514,6 +2557,7 @@ export class McpHandler {
               startLine: number;
               endLine: number;
               score: number;
+              rankScore?: number;
               hash: string;
               chunk_id: string | null;
               symbol_name: string | null;
@@ -1534,6 +2578,7 @@ export class McpHandler {
                   startLine: r.startLine,
                   endLine: r.endLine,
                   score: r.score,
+                  rankScore: r.rankScore,
                   hash: r.hash,
                   chunk_id: r.chunk_id,
                   symbol_name: r.symbol_name,
@@ -1550,7 +2595,7 @@ export class McpHandler {
               seen.add(r.hash);
               return true;
             });
-            deduped.sort((a, b) => b.score - a.score);
+            deduped.sort(compareByRank);
             const top = deduped.slice(0, limit);
 
             if (top.length === 0) {
@@ -1640,8 +2685,12 @@ export class McpHandler {
               }
 
               // ── Related Modules ──
-              const allIncoming = allEdgesTo.flat();
-              const allOutgoing = allEdgesFrom.flat();
+              const allIncoming = allEdgesTo
+                .flat()
+                .filter((e) => this.canReadChunk(e.from_chunk_id));
+              const allOutgoing = allEdgesFrom
+                .flat()
+                .filter((e) => this.canReadChunk(e.to_chunk_id));
 
               if (allIncoming.length > 0 || allOutgoing.length > 0) {
                 // Resolve edge targets to get file/service info
@@ -1755,7 +2804,7 @@ export class McpHandler {
         },
         async ({ question, since, group, project, limit }) => {
           try {
-            const groupNames = group ? [group] : this.getGroupNames();
+            const groupNames = group ? [group] : this.visibleGroupNames();
 
             if (groupNames.length === 0) {
               return {
@@ -1781,6 +2830,7 @@ export class McpHandler {
               startLine: number;
               endLine: number;
               score: number;
+              rankScore?: number;
               hash: string;
               chunk_id: string | null;
               symbol_name: string | null;
@@ -1801,6 +2851,7 @@ export class McpHandler {
                   startLine: r.startLine,
                   endLine: r.endLine,
                   score: r.score,
+                  rankScore: r.rankScore,
                   hash: r.hash,
                   chunk_id: r.chunk_id,
                   symbol_name: r.symbol_name,
@@ -1817,7 +2868,7 @@ export class McpHandler {
               seen.add(r.hash);
               return true;
             });
-            deduped.sort((a, b) => b.score - a.score);
+            deduped.sort(compareByRank);
             const top = deduped.slice(0, limit);
 
             if (top.length === 0) {
@@ -1975,10 +3026,16 @@ export class McpHandler {
             .max(2)
             .default(1)
             .describe('Graph traversal depth (1-2)'),
+          relation_types: z
+            .array(z.enum(RELATION_TYPES))
+            .optional()
+            .describe(
+              'Only traverse these relation types (default: all). E.g. ["extends", "implements", "overrides"] for the type-hierarchy blast radius of a base class or interface.'
+            ),
         },
-        async ({ question, group, project, limit, max_hops }) => {
+        async ({ question, group, project, limit, max_hops, relation_types }) => {
           try {
-            const groupNames = group ? [group] : this.getGroupNames();
+            const groupNames = group ? [group] : this.visibleGroupNames();
 
             if (groupNames.length === 0) {
               return {
@@ -1995,6 +3052,7 @@ export class McpHandler {
               startLine: number;
               endLine: number;
               score: number;
+              rankScore?: number;
               hash: string;
               chunk_id: string | null;
               symbol_name: string | null;
@@ -2015,6 +3073,7 @@ export class McpHandler {
                   startLine: r.startLine,
                   endLine: r.endLine,
                   score: r.score,
+                  rankScore: r.rankScore,
                   hash: r.hash,
                   chunk_id: r.chunk_id,
                   symbol_name: r.symbol_name,
@@ -2031,7 +3090,7 @@ export class McpHandler {
               seen.add(r.hash);
               return true;
             });
-            deduped.sort((a, b) => b.score - a.score);
+            deduped.sort(compareByRank);
             const seeds = deduped.slice(0, limit);
 
             if (seeds.length === 0) {
@@ -2074,6 +3133,12 @@ export class McpHandler {
               symbol: string;
             }> = [];
             const discoveredByHop = new Map<string, number>(); // chunkId -> hop level
+            const allowedRelations =
+              relation_types && relation_types.length > 0 ? new Set<string>(relation_types) : null;
+            const traversable = (e: SymbolEdge): boolean =>
+              (!allowedRelations || allowedRelations.has(e.relation_type)) &&
+              this.canReadChunk(e.from_chunk_id) &&
+              this.canReadChunk(e.to_chunk_id);
 
             // ── Hop 1 ──
             const seedIdArr = Array.from(seedIds);
@@ -2082,7 +3147,7 @@ export class McpHandler {
               Promise.all(seedIdArr.map((id) => this.metadataStore!.getEdgesFrom(id))),
             ]);
 
-            for (const edges of hop1EdgesTo.flat()) {
+            for (const edges of hop1EdgesTo.flat().filter(traversable)) {
               allEdges.push({
                 from: edges.from_chunk_id,
                 to: edges.to_chunk_id,
@@ -2093,7 +3158,7 @@ export class McpHandler {
                 discoveredByHop.set(edges.from_chunk_id, 1);
               }
             }
-            for (const edges of hop1EdgesFrom.flat()) {
+            for (const edges of hop1EdgesFrom.flat().filter(traversable)) {
               allEdges.push({
                 from: edges.from_chunk_id,
                 to: edges.to_chunk_id,
@@ -2116,7 +3181,7 @@ export class McpHandler {
               ]);
 
               let hop2Count = 0;
-              for (const edges of hop2EdgesTo.flat()) {
+              for (const edges of hop2EdgesTo.flat().filter(traversable)) {
                 allEdges.push({
                   from: edges.from_chunk_id,
                   to: edges.to_chunk_id,
@@ -2132,7 +3197,7 @@ export class McpHandler {
                   hop2Count++;
                 }
               }
-              for (const edges of hop2EdgesFrom.flat()) {
+              for (const edges of hop2EdgesFrom.flat().filter(traversable)) {
                 allEdges.push({
                   from: edges.from_chunk_id,
                   to: edges.to_chunk_id,
@@ -2229,6 +3294,64 @@ export class McpHandler {
         }
       );
 
+    // ── Tool: review_diff ──────────────────────────────────────────────────
+    if (tools.has('review_diff'))
+      server.tool(
+        'review_diff',
+        prompts.tools.review_diff.description,
+        {
+          group: z.string().describe('Group of the project'),
+          project: z.string().describe('Project the diff belongs to'),
+          range: z
+            .string()
+            .optional()
+            .describe(
+              'Git range ("main...feature", "HEAD~3..HEAD") or a commit SHA, run in the server checkout'
+            ),
+          diff: z.string().optional().describe('Unified diff text, instead of a range'),
+          side: z
+            .enum(DIFF_SIDES)
+            .default('base')
+            .describe(
+              'base = map pre-change lines (index tracks the target branch); head = map post-change lines (change already indexed)'
+            ),
+          limit: z.coerce.number().min(1).max(200).default(50).describe('Max dependents'),
+        },
+        async ({ group, project, range, diff, side, limit }) => {
+          try {
+            const projectPath = this.getProjects()
+              .get(group)
+              ?.find((p) => p.name === project)?.path;
+            const files = await readDiff({ range, diff, projectPath });
+            const ctx = await buildDiffContext(
+              {
+                indexer: this.indexer,
+                metadataStore: this.metadataStore ?? undefined,
+                archStore: this.archStore ?? undefined,
+                canReadChunk: (id) => this.canReadChunk(id),
+              },
+              { group, project, files, side, limit }
+            );
+            let text = formatDiffContext(ctx);
+            if (!this.metadataStore) {
+              text +=
+                '\n_Symbol graph not available: dependents and tickets need the metadata store._\n';
+            }
+            return { content: [{ type: 'text' as const, text }] };
+          } catch (err) {
+            return {
+              content: [
+                {
+                  type: 'text' as const,
+                  text: `Failed to review diff: ${(err as Error).message}`,
+                },
+              ],
+              isError: true,
+            };
+          }
+        }
+      );
+
     // ── Tool: list_projects ────────────────────────────────────────────────
     if (tools.has('list_projects'))
       server.tool(
@@ -2239,7 +3362,7 @@ export class McpHandler {
         },
         async ({ group }) => {
           try {
-            const groupNames = group ? [group] : this.getGroupNames();
+            const groupNames = group ? [group] : this.visibleGroupNames();
 
             if (groupNames.length === 0) {
               return {
@@ -2255,7 +3378,9 @@ export class McpHandler {
             const sections: string[] = [];
 
             for (const g of groupNames) {
-              const projects = await this.indexer.listProjectsInGroup(g);
+              const projects = (await this.indexer.listProjectsInGroup(g)).filter((p) =>
+                canAccessProject(p.name)
+              );
               const stats = await this.indexer.getGroupStats(g);
 
               sections.push(`## Group: ${g} (${stats.points} total chunks)\n`);
@@ -2457,7 +3582,7 @@ export class McpHandler {
             ),
         },
         async ({ question, group, min_score, project, limits }) => {
-          const groupNames = group ? [group] : this.getGroupNames();
+          const groupNames = group ? [group] : this.visibleGroupNames();
           if (groupNames.length === 0) {
             return {
               content: [
@@ -3000,9 +4125,10 @@ export class McpHandler {
           // Intersect the caller's audience with the server-enforced ceiling
           // (fail-closed). A disjoint request → empty set → no results, rather
           // than silently widening to the ceiling.
+          // The caller's token may narrow the ceiling further.
           const effectiveAudience = applyAudienceScope(
-            normalizeAudience(audience),
-            this.docsAudienceScope
+            applyAudienceScope(normalizeAudience(audience), this.docsAudienceScope),
+            access.current().audiences
           );
           if (effectiveAudience !== null && effectiveAudience.length === 0) {
             return {
@@ -3014,7 +4140,7 @@ export class McpHandler {
               ],
             };
           }
-          const groupNames = group ? [group] : this.getGroupNames();
+          const groupNames = group ? [group] : this.visibleGroupNames();
           const termStore = this.terminologyStore;
           const all = [];
           for (const g of groupNames) {
@@ -3076,7 +4202,7 @@ export class McpHandler {
           limit: z.number().int().min(1).max(30).optional().describe('Max results. Default 8.'),
         },
         async ({ query, project, group, limit }) => {
-          const groupNames = group ? [group] : this.getGroupNames();
+          const groupNames = group ? [group] : this.visibleGroupNames();
           const all = [];
           for (const g of groupNames) {
             const hits = await termStore.search(g, query, {
@@ -3115,7 +4241,7 @@ export class McpHandler {
           limit: z.number().int().min(1).max(500).optional().describe('Max terms. Default 200.'),
         },
         async ({ group, project, limit }) => {
-          const groupNames = group ? [group] : this.getGroupNames();
+          const groupNames = group ? [group] : this.visibleGroupNames();
           const all = [];
           for (const g of groupNames) {
             const terms = await termStore.list(g, {
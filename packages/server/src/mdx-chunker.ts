@@ -0,0 +1,96 @@
+import { fixedSplit } from './ast-chunker.js';
+import type { SymbolExtractionResult } from './ast-symbol-extractor.js';
+import type { ContractChunks } from './contract-chunker.js';
+import { chunkMarkdown, NotMarkdownError } from './docs/chunker.js';
+import type { ChunkResult, ImportBinding } from './types.js';
+
+/**
+ * MDX — markdown with ES imports and JSX components. Split the way the docs
+ * layer splits markdown (by heading, then by paragraph) so sections stay
+ * whole, but indexed as code: a chunk uses the components it renders
+ * (`<Callout>`, `<Tabs.Item>`), resolved through the file's imports, so
+ * `find_usages` on a component reaches the pages that render it.
+ */
+
+/** `import Chart from './Chart'`, `import { Tabs, Tab as Item } from '@acme/ui'`, `import * as ui from 'ui'`. */
+const MDX_IMPORT = /^import\s+([\s\S]+?)\s+from\s+['"]([^'"]+)['"];?[ \t]*$/gm;
+/** An opening JSX tag with a capitalized name; lower-case tags are plain HTML. */
+const JSX_COMPONENT = /<([A-Z][\w$]*(?:\.[\w$]+)*)[\s/>]/g;
+const FENCED_CODE = /^ {0,3}(```+|~~~+)[^\n]*\n[\s\S]*?(?:^ {0,3}\1[ \t]*$|(?![\s\S]))/gm;
+const INLINE_CODE = /`[^`\n]*`/g;
+
+/** Bindings of the file's `import` statements. */
+function mdxImports(content: string): ImportBinding[] {
+  const bindings: ImportBinding[] = [];
+  for (const m of content.matchAll(MDX_IMPORT)) {
+    const clause = m[1]!.trim();
+    const source = m[2]!;
+    const named = /\{([^}]*)\}/.exec(clause);
+    for (const spec of named?.[1]!.split(',') ?? []) {
+      const [imported, local] = spec.trim().split(/\s+as\s+/);
+      if (imported) bindings.push({ local: local ?? imported, imported, source });
+    }
+    const namespace = /\*\s*as\s+([\w$]+)/.exec(clause);
+    if (namespace) bindings.push({ local: namespace[1]!, imported: '*', source });
+    const defaultName = /^([\w$]+)\s*(?:,|$)/.exec(clause);
+    if (defaultName) bindings.push({ local: defaultName[1]!, imported: 'default', source });
+  }
+  return bindings;
+}
+
+/**
+ * Components a piece of MDX renders, code blocks and inline code excluded.
+ * `<Tabs.Item>` uses both `Tabs` (the import) and `Item` (the member).
+ */
+export function mdxComponentUses(text: string): string[] {
+  const prose = text.replace(FENCED_CODE, '').replace(INLINE_CODE, '');
+  const uses = new Set<string>();
+  for (const m of prose.matchAll(JSX_COMPONENT)) {
+    for (const part of m[1]!.split('.')) uses.add(part);
+  }
+  return [...uses];
+}
+
+/**
+ * Chunk an MDX file. Returns null when the docs chunker doesn't see markdown
+ * (a page that is all JSX) so the caller can fall back to the regular chunker.
+ */
+export function chunkMdx(
+  content: string,
+  chunkSize: number,
+  maxChunkSize: number
+): ContractChunks | null {
+  let sections;
+  try {
+    // chunkSize is in characters; the docs chunker counts ~4 characters per token.
+    sections = chunkMarkdown(content, { targetTokens: Math.max(1, Math.round(chunkSize / 4)) });
+  } catch (err) {
+    if (err instanceof NotMarkdownError) return null;
+    throw err;
+  }
+  if (sections.length === 0) return null;
+
+  const lines = content.split('\n');
+  const imports = mdxImports(content);
+  const chunks: ChunkResult[] = [];
+  const symbolResults: SymbolExtractionResult[] = [];
+  let prevEnd = -1;
+  for (const section of sections) {
+    // The docs chunker leaves headings to the breadcrumb; here they open the chunk below them.
+    let start = prevEnd + 1;
+    while (start < section.startLine && !lines[start]!.trim()) start++;
+    prevEnd = section.endLine;
+    for (const piece of fixedSplit(lines, start, section.endLine, maxChunkSize)) {
+      const uses = mdxComponentUses(piece.content);
+      chunks.push(piece);
+      symbolResults.push({
+        defines_symbols: [],
+        defined_symbols: [],
+        uses_symbols: uses,
+        imports: imports.filter((b) => uses.includes(b.local)),
+        heritage: [],
+      });
+    }
+  }
+  return { chunks, symbolResults };
+}
@@ -2,7 +2,7 @@ import path from 'path';
 import os from 'os';
 import fs from 'fs';
 import Database from 'better-sqlite3';
-import type { ChunkCommit, ChunkTicket, SymbolEdge } from './types.js';
+import type { ChunkCommit, ChunkTicket, Contributor, ProjectLinks, SymbolEdge } from './types.js';
 
 const PAPARATS_DIR = path.join(os.homedir(), '.paparats');
 const DEFAULT_DB_PATH = path.join(PAPARATS_DIR, 'metadata.db');
@@ -34,9 +34,20 @@ export interface GitCachedHunk {
   endLine: number;
 }
 
+/** Consecutive lines `git blame` attributes to one commit. */
+export interface GitCachedBlameRange {
+  startLine: number;
+  endLine: number;
+  email: string;
+  /** Author time, epoch seconds */
+  time: number;
+}
+
 export interface GitFileCacheData {
   commits: GitCachedCommit[];
   hunks: GitCachedHunk[];
+  /** Absent in entries cached before ownership was tracked */
+  blame?: GitCachedBlameRange[];
 }
 
 export class MetadataStore {
@@ -58,6 +69,7 @@ export class MetadataStore {
   private deleteEdgesToStmt: Database.Statement;
   private getEdgesFromStmt: Database.Statement;
   private getEdgesToStmt: Database.Statement;
+  private getTableReferencesStmt: Database.Statement;
   private deleteChunkEdgesStmt: Database.Statement;
   private deleteProjectCommitsStmt: Database.Statement;
   private deleteProjectTicketsStmt: Database.Statement;
@@ -65,6 +77,20 @@ export class MetadataStore {
   private getGitFileCacheStmt: Database.Statement;
   private setGitFileCacheStmt: Database.Statement;
   private deleteProjectGitCacheStmt: Database.Statement;
+  private insertChunkContributorStmt: Database.Statement;
+  private deleteChunkContributorsStmt: Database.Statement;
+  private getChunkContributorsStmt: Database.Statement;
+  private deleteProjectChunkContributorsStmt: Database.Statement;
+  private insertFileContributorStmt: Database.Statement;
+  private deleteFileContributorsStmt: Database.Statement;
+  private deleteProjectFileContributorsStmt: Database.Statement;
+  private insertCodeOwnersStmt: Database.Statement;
+  private getCodeOwnersStmt: Database.Statement;
+  private deleteFileCodeOwnersStmt: Database.Statement;
+  private deleteProjectCodeOwnersStmt: Database.Statement;
+  private setProjectLinksStmt: Database.Statement;
+  private getProjectLinksStmt: Database.Statement;
+  private deleteProjectLinksStmt: Database.Statement;
 
   constructor(dbPath?: string) {
     const p = dbPath ?? DEFAULT_DB_PATH;
@@ -172,6 +198,41 @@ export class MetadataStore {
         data TEXT NOT NULL,
         PRIMARY KEY (grp, project, file_path)
       );
+
+      CREATE TABLE IF NOT EXISTS chunk_contributors (
+        chunk_id TEXT NOT NULL,
+        author_email TEXT NOT NULL,
+        lines INTEGER NOT NULL,
+        last_at TEXT NOT NULL,
+        PRIMARY KEY (chunk_id, author_email)
+      );
+
+      CREATE TABLE IF NOT EXISTS file_contributors (
+        grp TEXT NOT NULL,
+        project TEXT NOT NULL,
+        file_path TEXT NOT NULL,
+        author_email TEXT NOT NULL,
+        lines INTEGER NOT NULL,
+        last_at TEXT NOT NULL,
+        PRIMARY KEY (grp, project, file_path, author_email)
+      );
+
+      -- owners: JSON array; [] when the matching CODEOWNERS rule names nobody.
+      CREATE TABLE IF NOT EXISTS code_owners (
+        grp TEXT NOT NULL,
+        project TEXT NOT NULL,
+        file_path TEXT NOT NULL,
+        owners TEXT NOT NULL,
+        PRIMARY KEY (grp, project, file_path)
+      );
+
+      -- links: JSON ProjectLinks, written by the indexer for remote repos.
+      CREATE TABLE IF NOT EXISTS project_links (
+        grp TEXT NOT NULL,
+        project TEXT NOT NULL,
+        links TEXT NOT NULL,
+        PRIMARY KEY (grp, project)
+      );
     `);
 
     // Migrate legacy databases pre-dating the confidence column. Older installs
@@ -249,6 +310,9 @@ export class MetadataStore {
     this.getEdgesToStmt = this.db.prepare(
       'SELECT from_chunk_id, to_chunk_id, relation_type, symbol_name, confidence FROM symbol_edges WHERE to_chunk_id = ?'
     );
+    this.getTableReferencesStmt = this.db.prepare(
+      "SELECT from_chunk_id, to_chunk_id, relation_type, symbol_name, confidence FROM symbol_edges WHERE grp = ? AND symbol_name = ? AND relation_type = 'references' ORDER BY from_chunk_id, to_chunk_id"
+    );
     this.deleteChunkEdgesStmt = this.db.prepare(
       'DELETE FROM symbol_edges WHERE from_chunk_id = ? OR to_chunk_id = ?'
     );
@@ -271,6 +335,49 @@ export class MetadataStore {
     this.deleteProjectGitCacheStmt = this.db.prepare(
       'DELETE FROM git_file_cache WHERE grp = ? AND project = ?'
     );
+
+    this.insertChunkContributorStmt = this.db.prepare(
+      'INSERT OR REPLACE INTO chunk_contributors (chunk_id, author_email, lines, last_at) VALUES (?, ?, ?, ?)'
+    );
+    this.deleteChunkContributorsStmt = this.db.prepare(
+      'DELETE FROM chunk_contributors WHERE chunk_id = ?'
+    );
+    this.getChunkContributorsStmt = this.db.prepare(
+      'SELECT author_email, lines, last_at FROM chunk_contributors WHERE chunk_id = ? ORDER BY lines DESC, last_at DESC LIMIT ?'
+    );
+    this.deleteProjectChunkContributorsStmt = this.db.prepare(
+      "DELETE FROM chunk_contributors WHERE chunk_id LIKE ? ESCAPE '\\'"
+    );
+    this.insertFileContributorStmt = this.db.prepare(
+      'INSERT OR REPLACE INTO file_contributors (grp, project, file_path, author_email, lines, last_at) VALUES (?, ?, ?, ?, ?, ?)'
+    );
+    this.deleteFileContributorsStmt = this.db.prepare(
+      'DELETE FROM file_contributors WHERE grp = ? AND project = ? AND file_path = ?'
+    );
+    this.deleteProjectFileContributorsStmt = this.db.prepare(
+      'DELETE FROM file_contributors WHERE grp = ? AND project = ?'
+    );
+    this.insertCodeOwnersStmt = this.db.prepare(
+      'INSERT OR REPLACE INTO code_owners (grp, project, file_path, owners) VALUES (?, ?, ?, ?)'
+    );
+    this.getCodeOwnersStmt = this.db.prepare(
+      'SELECT owners FROM code_owners WHERE grp = ? AND project = ? AND file_path = ?'
+    );
+    this.deleteFileCodeOwnersStmt = this.db.prepare(
+      'DELETE FROM code_owners WHERE grp = ? AND project = ? AND file_path = ?'
+    );
+    this.deleteProjectCodeOwnersStmt = this.db.prepare(
+      'DELETE FROM code_owners WHERE grp = ? AND project = ?'
+    );
+    this.setProjectLinksStmt = this.db.prepare(
+      'INSERT OR REPLACE INTO project_links (grp, project, links) VALUES (?, ?, ?)'
+    );
+    this.getProjectLinksStmt = this.db.prepare(
+      'SELECT links FROM project_links WHERE grp = ? AND project = ?'
+    );
+    this.deleteProjectLinksStmt = this.db.prepare(
+      'DELETE FROM project_links WHERE grp = ? AND project = ?'
+    );
   }
 
   upsertCommits(chunkId: string, commits: Omit<ChunkCommit, 'chunk_id'>[]): void {
@@ -319,6 +426,7 @@ export class MetadataStore {
     const tx = this.db.transaction(() => {
       this.deleteChunkCommitsStmt.run(chunkId);
       this.deleteChunkTicketsStmt.run(chunkId);
+      this.deleteChunkContributorsStmt.run(chunkId);
       this.deleteChunkEdgesStmt.run(chunkId, chunkId);
     });
     tx();
@@ -332,6 +440,10 @@ export class MetadataStore {
       this.deleteProjectTicketsStmt.run(pattern);
       this.deleteProjectEdgesStmt.run(pattern, pattern);
       this.deleteProjectGitCacheStmt.run(group, project);
+      this.deleteProjectChunkContributorsStmt.run(pattern);
+      this.deleteProjectFileContributorsStmt.run(group, project);
+      this.deleteProjectCodeOwnersStmt.run(group, project);
+      this.deleteProjectLinksStmt.run(group, project);
     });
     tx();
   }
@@ -360,9 +472,122 @@ export class MetadataStore {
     file: string,
     head: string,
     commits: GitCachedCommit[],
-    hunks: GitCachedHunk[]
+    hunks: GitCachedHunk[],
+    blame?: GitCachedBlameRange[]
+  ): void {
+    this.setGitFileCacheStmt.run(
+      group,
+      project,
+      file,
+      head,
+      JSON.stringify({ commits, hunks, blame })
+    );
+  }
+
+  // ── Ownership (CODEOWNERS + blame contributors) ─────────────────────────
+
+  upsertChunkContributors(chunkId: string, contributors: Contributor[]): void {
+    const tx = this.db.transaction(() => {
+      this.deleteChunkContributorsStmt.run(chunkId);
+      for (const c of contributors) {
+        this.insertChunkContributorStmt.run(chunkId, c.author_email, c.lines, c.last_at);
+      }
+    });
+    tx();
+  }
+
+  getChunkContributors(chunkId: string, limit = 10): Contributor[] {
+    return this.getChunkContributorsStmt.all(chunkId, limit) as Contributor[];
+  }
+
+  upsertFileContributors(
+    group: string,
+    project: string,
+    file: string,
+    contributors: Contributor[]
   ): void {
-    this.setGitFileCacheStmt.run(group, project, file, head, JSON.stringify({ commits, hunks }));
+    const tx = this.db.transaction(() => {
+      this.deleteFileContributorsStmt.run(group, project, file);
+      for (const c of contributors) {
+        this.insertFileContributorStmt.run(
+          group,
+          project,
+          file,
+          c.author_email,
+          c.lines,
+          c.last_at
+        );
+      }
+    });
+    tx();
+  }
+
+  /**
+   * Contributors summed over the files at or under `paths` (project-relative
+   * files or directories; empty = the whole project), most lines first.
+   */
+  getContributors(group: string, project: string, paths: string[], limit: number): Contributor[] {
+    const { clause, params } = pathScope(paths);
+    return this.db
+      .prepare(
+        'SELECT author_email, SUM(lines) AS lines, MAX(last_at) AS last_at FROM file_contributors ' +
+          `WHERE grp = ? AND project = ?${clause} ` +
+          'GROUP BY author_email ORDER BY lines DESC, last_at DESC LIMIT ?'
+      )
+      .all(group, project, ...params, limit) as Contributor[];
+  }
+
+  /**
+   * Replace a project's CODEOWNERS assignments: file → owners of the last
+   * matching rule. Files no rule matches are left out.
+   */
+  replaceCodeOwners(group: string, project: string, owners: Map<string, string[]>): void {
+    const tx = this.db.transaction(() => {
+      this.deleteProjectCodeOwnersStmt.run(group, project);
+      for (const [file, fileOwners] of owners) {
+        this.insertCodeOwnersStmt.run(group, project, file, JSON.stringify(fileOwners));
+      }
+    });
+    tx();
+  }
+
+  /** CODEOWNERS owners of a file; null when no rule covers it. */
+  getCodeOwners(group: string, project: string, file: string): string[] | null {
+    const row = this.getCodeOwnersStmt.get(group, project, file) as { owners: string } | undefined;
+    return row ? parseOwners(row.owners) : null;
+  }
+
+  /** CODEOWNERS owners of each covered file at or under `paths` (empty = the whole project). */
+  getCodeOwnersIn(
+    group: string,
+    project: string,
+    paths: string[]
+  ): Array<{ file: string; owners: string[] }> {
+    const { clause, params } = pathScope(paths);
+    const rows = this.db
+      .prepare(
+        `SELECT file_path, owners FROM code_owners WHERE grp = ? AND project = ?${clause} ORDER BY file_path`
+      )
+      .all(group, project, ...params) as Array<{ file_path: string; owners: string }>;
+    return rows.map((r) => ({ file: r.file_path, owners: parseOwners(r.owners) }));
+  }
+
+  // ── Project links ───────────────────────────────────────────────────────
+
+  /** Record a project's link templates; null clears them. */
+  setProjectLinks(group: string, project: string, links: ProjectLinks | null): void {
+    if (links) this.setProjectLinksStmt.run(group, project, JSON.stringify(links));
+    else this.deleteProjectLinksStmt.run(group, project);
+  }
+
+  getProjectLinks(group: string, project: string): ProjectLinks | null {
+    const row = this.getProjectLinksStmt.get(group, project) as { links: string } | undefined;
+    if (!row) return null;
+    try {
+      return JSON.parse(row.links) as ProjectLinks;
+    } catch {
+      return null;
+    }
   }
 
   // ── Symbol edge methods ─────────────────────────────────────────────────
@@ -412,11 +637,35 @@ export class MetadataStore {
     return this.getEdgesToStmt.all(chunkId) as SymbolEdge[];
   }
 
+  /** `references` edges into the chunks creating database table `table` (a normalized name). */
+  getTableReferences(group: string, table: string): SymbolEdge[] {
+    return this.getTableReferencesStmt.all(group, table) as SymbolEdge[];
+  }
+
+  /**
+   * Edges in `group` with at least one end whose chunk_id starts with one of
+   * `prefixes` (e.g. `group//project//src/billing/`), up to `limit` rows.
+   * Ordered so repeated exports of the same scope come out identically.
+   */
+  getEdgesInScope(group: string, prefixes: string[], limit: number): SymbolEdge[] {
+    if (prefixes.length === 0) return [];
+    const like = "LIKE ? ESCAPE '\\'";
+    const clauses = prefixes.map(() => `from_chunk_id ${like} OR to_chunk_id ${like}`);
+    const patterns = prefixes.flatMap((p) => [`${escapeLike(p)}%`, `${escapeLike(p)}%`]);
+    return this.db
+      .prepare(
+        `SELECT from_chunk_id, to_chunk_id, relation_type, symbol_name, confidence FROM symbol_edges ` +
+          `WHERE grp = ? AND (${clauses.join(' OR ')}) ` +
+          `ORDER BY from_chunk_id, to_chunk_id, relation_type, symbol_name LIMIT ?`
+      )
+      .all(group, ...patterns, limit) as SymbolEdge[];
+  }
+
   deleteEdgesForChunk(chunkId: string): void {
     this.deleteChunkEdgesStmt.run(chunkId, chunkId);
   }
 
-  /** Delete all metadata (commits, tickets, edges) for a specific file within a project */
+  /** Delete all metadata (commits, tickets, edges, ownership) for a specific file within a project */
   deleteByFile(group: string, project: string, file: string): void {
     const prefix = `${escapeLike(group)}//${escapeLike(project)}//${escapeLike(file)}//`;
     const pattern = `${prefix}%`;
@@ -424,6 +673,9 @@ export class MetadataStore {
       this.deleteProjectCommitsStmt.run(pattern);
       this.deleteProjectTicketsStmt.run(pattern);
       this.deleteProjectEdgesStmt.run(pattern, pattern);
+      this.deleteProjectChunkContributorsStmt.run(pattern);
+      this.deleteFileContributorsStmt.run(group, project, file);
+      this.deleteFileCodeOwnersStmt.run(group, project, file);
     });
     tx();
   }
@@ -658,6 +910,26 @@ export class MetadataStore {
   }
 }
 
+/** `AND (file_path = ? OR file_path LIKE 'dir/%' …)` for project-relative paths; none = no filter. */
+function pathScope(paths: string[]): { clause: string; params: string[] } {
+  const normalized = paths.map((p) => p.replace(/^\.?\/+/, '').replace(/\/+$/, '')).filter(Boolean);
+  if (normalized.length === 0) return { clause: '', params: [] };
+  const clauses = normalized.map(() => "file_path = ? OR file_path LIKE ? ESCAPE '\\'");
+  return {
+    clause: ` AND (${clauses.join(' OR ')})`,
+    params: normalized.flatMap((p) => [p, `${escapeLike(p)}/%`]),
+  };
+}
+
+function parseOwners(json: string): string[] {
+  try {
+    const owners = JSON.parse(json) as unknown;
+    return Array.isArray(owners) ? owners.filter((o): o is string => typeof o === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
 /**
  * Nearest-rank percentile on an array that is already sorted descending.
  * The SQL queries in `computeGroupDegreeStats` emit `ORDER BY degree DESC`,
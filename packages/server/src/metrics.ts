@@ -29,6 +29,10 @@ export interface MetricsRegistry {
   /** Snapshot of how many points the arch collection holds, by kind and status. */
   setArchCollectionSize(group: string, kind: string, status: string, value: number): void;
 
+  // ── Access control ──────────────────────────────────────────────────────
+  /** A caller's token rules denied a request. `tool` is the MCP tool or REST route. */
+  incAccessDeniedTotal(tool: string, resource: string): void;
+
   getMetricsHandler(): RequestHandler;
 }
 
@@ -53,6 +57,7 @@ class NoOpMetrics implements MetricsRegistry {
   incArchContextCallsTotal(_group: string): void {}
   observeArchSearchScore(_score: number): void {}
   setArchCollectionSize(_group: string, _kind: string, _status: string, _value: number): void {}
+  incAccessDeniedTotal(_tool: string, _resource: string): void {}
 
   getMetricsHandler(): RequestHandler {
     return (_req, res) => {
@@ -177,6 +182,13 @@ async function createPrometheusMetrics(): Promise<MetricsRegistry> {
     registers: [registry],
   });
 
+  const accessDeniedTotal = new prom.Counter({
+    name: 'paparats_access_denied_total',
+    help: 'Requests denied by per-token access rules, by MCP tool / REST route and resource kind',
+    labelNames: ['tool', 'resource'] as const,
+    registers: [registry],
+  });
+
   return {
     enabled: true,
 
@@ -228,6 +240,9 @@ async function createPrometheusMetrics(): Promise<MetricsRegistry> {
     setArchCollectionSize(group: string, kind: string, status: string, value: number) {
       archCollectionSize.set({ group, kind, status }, value);
     },
+    incAccessDeniedTotal(tool: string, resource: string) {
+      accessDeniedTotal.inc({ tool, resource });
+    },
 
     getMetricsHandler(): RequestHandler {
       return async (_req, res) => {
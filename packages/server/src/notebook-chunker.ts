@@ -0,0 +1,126 @@
+import { fixedSplit } from './ast-chunker.js';
+import type { SymbolExtractionResult } from './ast-symbol-extractor.js';
+import type { ContractChunks } from './contract-chunker.js';
+import type { ChunkResult } from './types.js';
+
+/**
+ * Jupyter notebooks (nbformat 4). The `.ipynb` JSON is never indexed as is:
+ * outputs (tables, inline base64 images) are dropped and each code or
+ * markdown cell becomes its own chunk. A notebook has no meaningful source
+ * lines, so every chunk of a cell is anchored at the cell's index — `startLine`
+ * and `endLine` both hold it. Code cells are in the kernel's language (from
+ * `language_info` / `kernelspec` metadata), which is what the chunks are
+ * indexed and parsed as.
+ */
+
+export interface NotebookCell {
+  /** 0-based position among all cells, raw cells included. */
+  index: number;
+  type: 'code' | 'markdown';
+  source: string;
+}
+
+export interface Notebook {
+  /** Kernel language normalized to our language keys (`python3` → `python`). */
+  language: string;
+  cells: NotebookCell[];
+}
+
+/**
+ * Symbols for pieces of one code cell, by line range within the cell. Backed by
+ * tree-sitter in the indexer; null when the kernel language has no grammar.
+ */
+export type CellSymbolExtractor = (
+  code: string,
+  ranges: Array<{ startLine: number; endLine: number }>
+) => Promise<SymbolExtractionResult[] | null>;
+
+/** Kernel language names that differ from our language keys. */
+const KERNEL_LANGUAGES: Record<string, string> = {
+  python3: 'python',
+  ipython: 'python',
+  ipython3: 'python',
+  javascript: 'typescript',
+  'c++': 'cpp',
+  'c#': 'csharp',
+};
+
+/** IPython magics and shell escapes (`%matplotlib inline`, `!pip install …`) aren't Python. */
+const MAGIC_LINE = /^\s*[%!]/;
+
+const noSymbols = (): SymbolExtractionResult => ({
+  defines_symbols: [],
+  uses_symbols: [],
+  defined_symbols: [],
+  imports: [],
+  heritage: [],
+});
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** nbformat stores multi-line strings either whole or as an array of lines. */
+function joinSource(source: unknown): string {
+  if (typeof source === 'string') return source;
+  return Array.isArray(source) ? source.filter((s) => typeof s === 'string').join('') : '';
+}
+
+/** Parse an nbformat 4 notebook. Null for invalid JSON or anything that isn't one. */
+export function parseNotebook(content: string): Notebook | null {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(content);
+  } catch {
+    return null;
+  }
+  if (!isObject(doc) || !Array.isArray(doc.cells)) return null;
+
+  const metadata = isObject(doc.metadata) ? doc.metadata : {};
+  const info = isObject(metadata.language_info) ? metadata.language_info.name : undefined;
+  const kernel = isObject(metadata.kernelspec) ? metadata.kernelspec.language : undefined;
+  const raw = (typeof info === 'string' ? info : typeof kernel === 'string' ? kernel : 'python')
+    .trim()
+    .toLowerCase();
+
+  const cells: NotebookCell[] = [];
+  doc.cells.forEach((cell, index) => {
+    if (!isObject(cell)) return;
+    if (cell.cell_type !== 'code' && cell.cell_type !== 'markdown') return;
+    const source = joinSource(cell.source).replace(/\r\n/g, '\n');
+    if (source.trim()) cells.push({ index, type: cell.cell_type, source });
+  });
+  return { language: KERNEL_LANGUAGES[raw] ?? raw, cells };
+}
+
+/**
+ * One chunk per cell (oversized cells split by lines, every piece anchored at
+ * the cell index). Code cells get symbols from `extractSymbols`, parsed with
+ * magics blanked out; markdown cells define nothing.
+ */
+export async function chunkNotebook(
+  notebook: Notebook,
+  maxChunkSize: number,
+  extractSymbols?: CellSymbolExtractor
+): Promise<ContractChunks> {
+  const chunks: ChunkResult[] = [];
+  const symbolResults: SymbolExtractionResult[] = [];
+  for (const cell of notebook.cells) {
+    const lines = cell.source.split('\n');
+    const pieces = fixedSplit(lines, 0, lines.length - 1, maxChunkSize);
+    let symbols: SymbolExtractionResult[] | null = null;
+    if (cell.type === 'code' && extractSymbols) {
+      const code = lines.map((l) => (MAGIC_LINE.test(l) ? '' : l)).join('\n');
+      symbols = await extractSymbols(
+        code,
+        pieces.map((p) => ({ startLine: p.startLine, endLine: p.endLine }))
+      );
+    }
+    pieces.forEach((piece, i) => {
+      chunks.push({ ...piece, startLine: cell.index, endLine: cell.index });
+      symbolResults.push(symbols?.[i] ?? noSymbols());
+    });
+  }
+  return { chunks, symbolResults };
+}
@@ -28,11 +28,16 @@ export interface Prompts {
     delete_project: { description: string };
     get_chunk: { description: string };
     get_chunk_meta: { description: string };
+    who_owns: { description: string };
     search_changes: { description: string };
     find_usages: { description: string };
+    find_symbol: { description: string };
+    find_tests: { description: string };
+    trace_path: { description: string };
     explain_feature: { description: string };
     recent_changes: { description: string };
     impact_analysis: { description: string };
+    review_diff: { description: string };
     list_projects: { description: string };
     arch_context: { description: string };
     arch_record_component: { description: string };
@@ -94,11 +99,16 @@ function validatePrompts(data: unknown): Prompts {
     'delete_project',
     'get_chunk',
     'get_chunk_meta',
+    'who_owns',
     'search_changes',
     'find_usages',
+    'find_symbol',
+    'find_tests',
+    'trace_path',
     'explain_feature',
     'recent_changes',
     'impact_analysis',
+    'review_diff',
     'list_projects',
     'arch_context',
     'arch_record_component',
@@ -1,5 +1,6 @@
 import { createHash } from 'crypto';
-import type { SearchResponse } from './types.js';
+import type { SearchOptions, SearchResponse } from './types.js';
+import { access } from './auth/access.js';
 
 export interface QueryCacheConfig {
   /** Maximum number of cached entries (default: 1000, env QUERY_CACHE_MAX_ENTRIES) */
@@ -40,7 +41,7 @@ export class QueryCache {
   buildKey(
     group: string,
     query: string,
-    options?: { project?: string; limit?: number },
+    options?: SearchOptions,
     additionalFilter?: { must: Array<Record<string, unknown>> }
   ): string {
     const keyObj = {
@@ -48,7 +49,13 @@ export class QueryCache {
       query,
       project: options?.project ?? 'all',
       limit: options?.limit ?? 5,
+      mode: options?.mode ?? 'hybrid',
+      intentWeight: options?.intentWeight ?? 0,
+      filters: options?.filters ?? null,
+      ...(options?.branch ? { branch: options.branch } : {}),
       filter: additionalFilter ?? null,
+      // Results are scoped by the caller's rules — never share them across callers.
+      access: access.current(),
     };
     return createHash('sha256').update(JSON.stringify(keyObj)).digest('hex');
   }
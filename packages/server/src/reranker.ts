@@ -0,0 +1,148 @@
+import type { SearchResult } from './types.js';
+import { tokenizeCode } from './code-bm25.js';
+
+/**
+ * Second-stage reranking for code search. The searcher over-fetches
+ * candidates by vector score, hands them to a Reranker together with the
+ * query, and keeps the top `limit` by the reranker's score. Result `score`
+ * stays the retrieval score (cosine / BM25) — reranker scores are not on a
+ * common scale across implementations, so they only decide the order.
+ */
+export interface Reranker {
+  /** Short identifier recorded in telemetry (e.g. `llama:bge-reranker-v2-m3`). */
+  readonly name: string;
+  /** One relevance score per candidate, aligned with `candidates`. Higher is better. */
+  rerank(query: string, candidates: SearchResult[]): Promise<number[]>;
+}
+
+// ── llama-server /rerank ───────────────────────────────────────────────────
+
+const RERANK_TIMEOUT_MS = 30_000;
+
+export interface LlamaServerRerankerConfig {
+  /** Base URL of a llama-server started with `--reranking` */
+  url: string;
+  /** Model name sent with the request and recorded in telemetry */
+  model?: string;
+  /** Request timeout in milliseconds (default: 30000) */
+  timeoutMs?: number;
+}
+
+interface LlamaRerankResponse {
+  results: Array<{ index: number; relevance_score: number }>;
+}
+
+/** Cross-encoder reranking via llama-server's `/rerank` endpoint (e.g. bge-reranker). */
+export class LlamaServerReranker implements Reranker {
+  readonly name: string;
+  private readonly url: string;
+  private readonly model: string | undefined;
+  private readonly timeoutMs: number;
+
+  constructor(config: LlamaServerRerankerConfig) {
+    this.url = config.url.replace(/\/+$/, '');
+    this.model = config.model;
+    this.timeoutMs = config.timeoutMs ?? RERANK_TIMEOUT_MS;
+    this.name = `llama:${config.model ?? 'default'}`;
+  }
+
+  async rerank(query: string, candidates: SearchResult[]): Promise<number[]> {
+    if (candidates.length === 0) return [];
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+    let data: LlamaRerankResponse;
+    try {
+      const res = await fetch(`${this.url}/rerank`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(this.model ? { model: this.model } : {}),
+          query,
+          documents: candidates.map((c) => c.content),
+        }),
+        signal: controller.signal,
+      });
+      if (!res.ok) {
+        throw new Error(`llama-server rerank error ${res.status}: ${await res.text()}`);
+      }
+      data = (await res.json()) as LlamaRerankResponse;
+    } catch (err) {
+      if ((err as Error).name === 'AbortError') {
+        throw new Error(`llama-server rerank request timeout after ${this.timeoutMs}ms`, {
+          cause: err,
+        });
+      }
+      throw err;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    if (!Array.isArray(data?.results)) {
+      throw new Error('llama-server rerank returned no results array');
+    }
+    // Results come back sorted by relevance, not by input order.
+    const scores = new Array<number>(candidates.length).fill(Number.NEGATIVE_INFINITY);
+    for (const r of data.results) {
+      if (r.index >= 0 && r.index < candidates.length) scores[r.index] = r.relevance_score;
+    }
+    return scores;
+  }
+}
+
+// ── Heuristic (no model) ───────────────────────────────────────────────────
+
+/** Bonus for the share of query terms that appear in the chunk. */
+const TERM_COVERAGE_WEIGHT = 0.2;
+/** Bonus when the chunk defines a symbol named in the query. */
+const SYMBOL_MATCH_WEIGHT = 0.1;
+
+/**
+ * Deterministic, model-free reranker: retrieval score plus small bonuses for
+ * query-term coverage and for defining a symbol the query names. Cheap enough
+ * to run on every search and stable enough for tests.
+ */
+export class HeuristicReranker implements Reranker {
+  readonly name = 'heuristic';
+
+  async rerank(query: string, candidates: SearchResult[]): Promise<number[]> {
+    const queryTerms = new Set(tokenizeCode(query));
+    if (queryTerms.size === 0) return candidates.map((c) => c.score);
+
+    return candidates.map((c) => {
+      const chunkTerms = new Set(tokenizeCode(c.content));
+      let covered = 0;
+      for (const t of queryTerms) {
+        if (chunkTerms.has(t)) covered++;
+      }
+      const symbols = [c.symbol_name, ...c.defines_symbols].filter((s): s is string => !!s);
+      const symbolHit = symbols.some((s) => queryTerms.has(s.toLowerCase()));
+      return (
+        c.score +
+        TERM_COVERAGE_WEIGHT * (covered / queryTerms.size) +
+        (symbolHit ? SYMBOL_MATCH_WEIGHT : 0)
+      );
+    });
+  }
+}
+
+// ── Env config ─────────────────────────────────────────────────────────────
+
+/**
+ * Build the reranker selected by env. `RERANKER=llama` needs `RERANK_URL`
+ * (a llama-server running a reranker model; `RERANK_MODEL` is optional),
+ * `RERANKER=heuristic` needs nothing. Unset / `none` disables reranking.
+ */
+export function createRerankerFromEnv(env: NodeJS.ProcessEnv = process.env): Reranker | undefined {
+  const kind = env['RERANKER']?.trim().toLowerCase();
+  if (!kind || kind === 'none') return undefined;
+  if (kind === 'heuristic') return new HeuristicReranker();
+  if (kind === 'llama') {
+    const url = env['RERANK_URL']?.trim();
+    if (!url) {
+      throw new Error('RERANKER=llama requires RERANK_URL (none found in environment)');
+    }
+    return new LlamaServerReranker({ url, model: env['RERANK_MODEL']?.trim() || undefined });
+  }
+  throw new Error(`Unknown RERANKER "${kind}" (expected llama, heuristic or none)`);
+}
@@ -0,0 +1,151 @@
+import { Minimatch } from 'minimatch';
+import type { ChunkKind, SearchFilters } from './types.js';
+
+/**
+ * Structured filters for code search. Language, kind, tags, service and
+ * bounded_context become Qdrant `must` conditions on keyword-indexed payload
+ * fields, `exclude_tests` a `must_not` on the `is_test` flag. Path globs can't
+ * be expressed against a keyword index, so the searcher pages through the
+ * ranking and matches them against `file` until it has enough results.
+ */
+
+export const CHUNK_KINDS = [
+  'function',
+  'class',
+  'method',
+  'interface',
+  'type',
+  'enum',
+  'constant',
+  'variable',
+  'module',
+  'resource',
+  'data',
+  'output',
+  'provider',
+  'table',
+  'unknown',
+] as const satisfies readonly ChunkKind[];
+
+/** Page size multiplier when path globs are post-filtered (capped by the search limit cap). */
+export const PATH_FILTER_OVERFETCH = 5;
+
+/**
+ * Most candidates one path-filtered search pages through before returning
+ * what it has, so a glob that matches almost nothing can't scan a whole
+ * collection.
+ */
+export const PATH_FILTER_MAX_CANDIDATES = 2000;
+
+/** Qdrant `must` conditions for the index-backed filters. Empty when none are set. */
+export function filterConditions(filters?: SearchFilters): Array<Record<string, unknown>> {
+  if (!filters) return [];
+  const must: Array<Record<string, unknown>> = [];
+  if (filters.languages?.length) {
+    must.push({ key: 'language', match: { any: filters.languages } });
+  }
+  if (filters.kinds?.length) {
+    must.push({ key: 'kind', match: { any: filters.kinds } });
+  }
+  if (filters.tags?.length) {
+    must.push({ key: 'tags', match: { any: filters.tags } });
+  }
+  if (filters.service) {
+    must.push({ key: 'service', match: { value: filters.service } });
+  }
+  if (filters.bounded_context) {
+    must.push({ key: 'bounded_context', match: { value: filters.bounded_context } });
+  }
+  return must;
+}
+
+/**
+ * Qdrant `must_not` conditions for the index-backed filters. `exclude_tests`
+ * drops chunks flagged as tests rather than keeping those flagged as
+ * production, so chunks indexed before the flag existed stay searchable.
+ */
+export function filterExclusions(filters?: SearchFilters): Array<Record<string, unknown>> {
+  return filters?.exclude_tests ? [{ key: 'is_test', match: { value: true } }] : [];
+}
+
+/**
+ * Compile the include/exclude path globs into a predicate over the chunk's
+ * project-relative `file`. Returns null when no path filter is set.
+ */
+export function compilePathFilter(filters?: SearchFilters): ((file: string) => boolean) | null {
+  const include = (filters?.paths ?? []).map((g) => new Minimatch(g, { dot: true }));
+  const exclude = (filters?.exclude_paths ?? []).map((g) => new Minimatch(g, { dot: true }));
+  if (include.length === 0 && exclude.length === 0) return null;
+  return (file) =>
+    (include.length === 0 || include.some((m) => m.match(file))) &&
+    !exclude.some((m) => m.match(file));
+}
+
+function stringList(raw: unknown, field: string): string[] | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (!Array.isArray(raw) || raw.some((v) => typeof v !== 'string' || !v.trim())) {
+    throw new Error(`filters.${field} must be an array of non-empty strings`);
+  }
+  return raw.length > 0 ? (raw as string[]) : undefined;
+}
+
+function optionalString(raw: unknown, field: string): string | undefined {
+  if (raw === undefined || raw === null || raw === '') return undefined;
+  if (typeof raw !== 'string') {
+    throw new Error(`filters.${field} must be a string`);
+  }
+  return raw;
+}
+
+function optionalBoolean(raw: unknown, field: string): boolean | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw !== 'boolean') {
+    throw new Error(`filters.${field} must be a boolean`);
+  }
+  return raw;
+}
+
+/**
+ * Validate a `filters` object from an untyped request body (`POST /api/search`).
+ * Throws with a message naming the offending field; returns undefined when
+ * nothing is set so an empty object doesn't fragment the query cache.
+ */
+export function parseSearchFilters(raw: unknown): SearchFilters | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('filters must be an object');
+  }
+  const obj = raw as Record<string, unknown>;
+  const kinds = stringList(obj['kinds'], 'kinds');
+  const unknownKind = kinds?.find((k) => !(CHUNK_KINDS as readonly string[]).includes(k));
+  if (unknownKind) {
+    throw new Error(`filters.kinds: unknown kind "${unknownKind}"`);
+  }
+
+  const filters: SearchFilters = {
+    languages: stringList(obj['languages'], 'languages'),
+    kinds: kinds as ChunkKind[] | undefined,
+    paths: stringList(obj['paths'], 'paths'),
+    exclude_paths: stringList(obj['exclude_paths'], 'exclude_paths'),
+    tags: stringList(obj['tags'], 'tags'),
+    service: optionalString(obj['service'], 'service'),
+    bounded_context: optionalString(obj['bounded_context'], 'bounded_context'),
+    exclude_tests: optionalBoolean(obj['exclude_tests'], 'exclude_tests'),
+  };
+  return normalizeSearchFilters(filters);
+}
+
+/** Drop unset fields; undefined when no filter is active. */
+export function normalizeSearchFilters(filters?: SearchFilters): SearchFilters | undefined {
+  if (!filters) return undefined;
+  const out: SearchFilters = {};
+  if (filters.languages?.length) out.languages = filters.languages;
+  if (filters.kinds?.length) out.kinds = filters.kinds;
+  if (filters.paths?.length) out.paths = filters.paths;
+  if (filters.exclude_paths?.length) out.exclude_paths = filters.exclude_paths;
+  if (filters.tags?.length) out.tags = filters.tags;
+  if (filters.service) out.service = filters.service;
+  if (filters.bounded_context) out.bounded_context = filters.bounded_context;
+  if (filters.exclude_tests) out.exclude_tests = true;
+  return Object.keys(out).length > 0 ? out : undefined;
+}
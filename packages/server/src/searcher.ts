@@ -1,8 +1,17 @@
 import type { QdrantClient } from '@qdrant/js-client-rest';
 import type { CachedEmbeddingProvider } from './embeddings.js';
-import type { SearchResult, SearchMetrics, SearchResponse, ChunkKind } from './types.js';
+import type {
+  SearchResult,
+  SearchMetrics,
+  SearchResponse,
+  SearchOptions,
+  SearchMode,
+  ChunkKind,
+} from './types.js';
 import { expandQuery } from './query-expansion.js';
 import type { QueryCache } from './query-cache.js';
+import { canAccessGroup, narrowProjects } from './auth/access.js';
+import { branchCondition, splitBranchProject } from './branches.js';
 import type { MetricsRegistry } from './metrics.js';
 import {
   toCollectionName,
@@ -10,6 +19,26 @@ import {
   applyProjectSuffix,
   stripProjectSuffix,
 } from './indexer.js';
+import {
+  CODE_DENSE_VECTOR,
+  CODE_SPARSE_VECTOR,
+  CODE_DOC_VECTOR,
+  DEFAULT_SEARCH_MODE,
+  EMPTY_CORPUS,
+  buildCodeQuerySparseVector,
+  vectorLayoutOf,
+  type VectorLayout,
+} from './code-bm25.js';
+import type { SparseVector } from './docs/bm25.js';
+import type { DocsIdfStore } from './docs/idf-store.js';
+import type { Reranker } from './reranker.js';
+import {
+  PATH_FILTER_MAX_CANDIDATES,
+  PATH_FILTER_OVERFETCH,
+  compilePathFilter,
+  filterConditions,
+  filterExclusions,
+} from './search-filters.js';
 import type { Telemetry } from './telemetry/facade.js';
 import type { AnalyticsStore } from './telemetry/analytics-store.js';
 import type { SearchResultRecord } from './telemetry/types.js';
@@ -42,9 +71,30 @@ export interface SearcherConfig {
    * way OUT so clients never see the suffix. Default '' = unchanged behavior.
    */
   projectSuffix?: string;
+  /**
+   * BM25 corpus store for the code collections (see code-bm25.ts) — the same
+   * file the indexer writes. Without it query terms are weighted uniformly.
+   */
+  idf?: DocsIdfStore;
+  /**
+   * Optional second-stage reranker for `search` / `expandedSearch`. When set,
+   * `limit * rerankOverfetch` candidates are retrieved and reordered by it.
+   */
+  reranker?: Reranker;
+  /** Candidate multiplier when a reranker is configured (default: 4, capped at 100 candidates) */
+  rerankOverfetch?: number;
 }
 
 const QDRANT_TIMEOUT_MS = 30_000;
+const DEFAULT_RERANK_OVERFETCH = 4;
+const MAX_SEARCH_LIMIT = 100;
+
+/** Before/after ranks of a reranked response, for telemetry. */
+interface RerankTrace {
+  reranker: string;
+  /** Candidate rank (0-based) before reranking, per returned result. */
+  preRanks: number[];
+}
 
 /** Expected payload shape from Qdrant chunks */
 interface QdrantPayload {
@@ -67,6 +117,72 @@ interface QdrantPayload {
   ticket_keys?: string[];
   defines_symbols?: string[];
   uses_symbols?: string[];
+  doc_summary?: string | null;
+}
+
+/** A retrieved point, best first; `score` is the cosine shown to users. */
+interface RetrievedPoint {
+  score: number;
+  payload?: Record<string, unknown> | null;
+}
+
+/** RRF constant for fusing ranked lists (the customary k = 60). */
+const RANK_FUSION_K = 60;
+
+/** Reciprocal-rank score of the result at 0-based `rank` in its list. */
+function rankScoreAt(rank: number): number {
+  return 1 / (RANK_FUSION_K + rank + 1);
+}
+
+/** Stamp each result with the rank score of its position in `results`. */
+function withRankScores(results: SearchResult[]): SearchResult[] {
+  return results.map((r, i) => ({ ...r, rankScore: rankScoreAt(i) }));
+}
+
+/**
+ * Sort comparator for merging result lists from several groups: best first by
+ * rank score — which depends only on a result's position in its own list, so
+ * legacy, hybrid and reranked groups interleave fairly — then by cosine.
+ */
+export function compareByRank(
+  a: Pick<SearchResult, 'score' | 'rankScore'>,
+  b: Pick<SearchResult, 'score' | 'rankScore'>
+): number {
+  return (b.rankScore ?? 0) - (a.rankScore ?? 0) || b.score - a.score;
+}
+
+/**
+ * Re-score points ranked by something other than cosine (RRF, BM25) with the
+ * cosine of their dense vector, keeping their order.
+ */
+function cosineScored(
+  points: Array<{ vector?: unknown; payload?: Record<string, unknown> | null }>,
+  queryVector: number[]
+): RetrievedPoint[] {
+  return points.map((p) => ({
+    score: denseCosine(p.vector, queryVector) ?? 0,
+    payload: p.payload,
+  }));
+}
+
+/** Cosine similarity of a point's dense vector to the query, or null when Qdrant didn't return it. */
+function denseCosine(vector: unknown, query: number[]): number | null {
+  const v =
+    vector && typeof vector === 'object' && !Array.isArray(vector)
+      ? (vector as Record<string, unknown>)[CODE_DENSE_VECTOR]
+      : undefined;
+  if (!Array.isArray(v) || v.length !== query.length) return null;
+  let dot = 0;
+  let vNorm = 0;
+  let qNorm = 0;
+  for (let i = 0; i < query.length; i++) {
+    const x = v[i] as number;
+    const y = query[i]!;
+    dot += x * y;
+    vNorm += x * x;
+    qNorm += y * y;
+  }
+  return vNorm > 0 && qNorm > 0 ? dot / Math.sqrt(vNorm * qNorm) : 0;
 }
 
 export class Searcher {
@@ -81,6 +197,11 @@ export class Searcher {
   private readonly allowedProjects: string[] | null;
   /** Storage-layer project-name suffix ('' = disabled). */
   private readonly projectSuffix: string;
+  private idf?: DocsIdfStore;
+  /** Vector layout per group collection (only `named` is cached — see layoutOf). */
+  private layouts = new Map<string, VectorLayout>();
+  private reranker?: Reranker;
+  private readonly rerankOverfetch: number;
 
   constructor(config: SearcherConfig) {
     this.qdrant =
@@ -98,14 +219,13 @@ export class Searcher {
     this.allowedProjects =
       config.allowedProjects && config.allowedProjects.length > 0 ? config.allowedProjects : null;
     this.projectSuffix = config.projectSuffix ?? '';
+    this.idf = config.idf;
+    this.reranker = config.reranker;
+    this.rerankOverfetch = Math.max(1, config.rerankOverfetch ?? DEFAULT_RERANK_OVERFETCH);
   }
 
   /** Search within a group collection, optionally filtering by project */
-  async search(
-    groupName: string,
-    query: string,
-    options?: { project?: string; limit?: number }
-  ): Promise<SearchResponse> {
+  async search(groupName: string, query: string, options?: SearchOptions): Promise<SearchResponse> {
     const startTime = performance.now();
 
     // Check cache
@@ -136,8 +256,20 @@ export class Searcher {
     }
 
     let response: SearchResponse;
+    let rerank: RerankTrace | null;
     try {
-      response = await this._searchInternal(groupName, query, options);
+      const limit = Math.max(1, Math.min(options?.limit ?? 5, MAX_SEARCH_LIMIT));
+      const candidates = await this._searchInternal(groupName, query, {
+        ...options,
+        limit: this.candidateLimit(limit),
+      });
+      const ranked = await this.rerankResults(query, candidates.results, limit);
+      rerank = ranked.trace;
+      response = {
+        results: ranked.results,
+        total: ranked.results.length,
+        metrics: this.computeMetrics(ranked.results),
+      };
     } catch (err) {
       const empty: SearchResponse = { results: [], total: 0, metrics: this.computeMetrics([]) };
       this.emitSearchTelemetry({
@@ -178,6 +310,7 @@ export class Searcher {
       durationMs: performance.now() - startTime,
       cacheHit: false,
       error: null,
+      rerank,
     });
 
     return response;
@@ -187,7 +320,7 @@ export class Searcher {
   async expandedSearch(
     groupName: string,
     query: string,
-    options?: { project?: string; limit?: number }
+    options?: SearchOptions
   ): Promise<SearchResponse> {
     const startTime = performance.now();
 
@@ -225,7 +358,11 @@ export class Searcher {
     }
 
     const limit = options?.limit ?? 5;
-    const internalLimit = Math.max(1, Math.min(limit * 2, 100));
+    const candidateLimit = this.candidateLimit(Math.max(1, Math.min(limit, MAX_SEARCH_LIMIT)));
+    const internalLimit = Math.max(
+      1,
+      Math.min(Math.max(limit * 2, candidateLimit), MAX_SEARCH_LIMIT)
+    );
 
     const responses = await Promise.all(
       variations.map((q) =>
@@ -233,13 +370,16 @@ export class Searcher {
       )
     );
 
-    // Merge: keep highest score per unique hash, track which variation contributed each result
+    // Merge: RRF over the variations' rankings, keeping the highest-scoring
+    // copy of each unique hash; track which variation contributed each result
     const byHash = new Map<string, SearchResult>();
+    const fused = new Map<string, number>();
     const contributedBy = new Map<string, number>(); // hash -> variation index that first added it
     for (let i = 0; i < responses.length; i++) {
       const response = responses[i]!;
       for (const result of response.results) {
         const existing = byHash.get(result.hash);
+        fused.set(result.hash, (fused.get(result.hash) ?? 0) + (result.rankScore ?? 0));
         if (!existing) {
           byHash.set(result.hash, result);
           contributedBy.set(result.hash, i);
@@ -249,9 +389,15 @@ export class Searcher {
       }
     }
 
-    const merged = Array.from(byHash.values())
-      .sort((a, b) => b.score - a.score)
-      .slice(0, limit);
+    const ranked = await this.rerankResults(
+      query,
+      Array.from(byHash.values())
+        .map((r) => ({ ...r, rankScore: fused.get(r.hash) ?? 0 }))
+        .sort(compareByRank)
+        .slice(0, candidateLimit),
+      limit
+    );
+    const merged = ranked.results;
 
     // Log which variations contributed to final results
     const variationHits = new Map<number, number>();
@@ -305,6 +451,7 @@ export class Searcher {
       durationMs: performance.now() - startTime,
       cacheHit: false,
       error: null,
+      rerank: ranked.trace,
     });
 
     return response;
@@ -315,7 +462,7 @@ export class Searcher {
     groupName: string,
     query: string,
     additionalFilter: { must: Array<Record<string, unknown>> },
-    options?: { project?: string; limit?: number }
+    options?: SearchOptions
   ): Promise<SearchResponse> {
     if (!groupName?.trim()) {
       throw new Error('Group name is required');
@@ -356,7 +503,10 @@ export class Searcher {
     const limit = Math.max(1, Math.min(options?.limit ?? 5, 100));
     const project = options?.project ?? 'all';
 
-    const { projects: effectiveProjects, forbidden } = this.resolveEffectiveProjects(project);
+    const { projects: effectiveProjects, forbidden } = this.resolveEffectiveProjects(
+      groupName,
+      project
+    );
     if (forbidden) {
       const metrics = this.computeMetrics([]);
       this.searchCount++;
@@ -374,27 +524,22 @@ export class Searcher {
       return response;
     }
 
-    const queryVector = await this.provider.embedQuery(query);
-
-    const must: Array<Record<string, unknown>> = [...additionalFilter.must];
-    if (effectiveProjects) {
-      must.push(this.buildProjectCondition(effectiveProjects));
-    }
+    const must: Array<Record<string, unknown>> = [
+      ...additionalFilter.must,
+      ...filterConditions(options?.filters),
+    ];
+    const scope = this.scopeCondition(effectiveProjects, options?.branch);
+    if (scope) must.push(scope);
 
     let results: SearchResult[];
     try {
-      const hits = await this.retryQdrant(() =>
-        this.qdrant.search(toCollectionName(groupName), {
-          vector: queryVector,
-          limit,
-          with_payload: true,
-          filter: { must, must_not: [this.metaExclusion()] },
-        })
+      results = await this.retrieveResults(
+        groupName,
+        query,
+        { must, must_not: [this.metaExclusion(), ...filterExclusions(options?.filters)] },
+        limit,
+        options
       );
-
-      results = hits
-        .filter((h): h is typeof h & { payload: QdrantPayload } => this.validatePayload(h.payload))
-        .map((h) => this.mapPayload(h.payload, h.score));
     } catch (err) {
       const errorMsg = (err as Error).message.toLowerCase();
       if (errorMsg.includes('not found') || errorMsg.includes('does not exist')) {
@@ -443,7 +588,7 @@ export class Searcher {
   private async _searchInternal(
     groupName: string,
     query: string,
-    options?: { project?: string; limit?: number }
+    options?: SearchOptions
   ): Promise<SearchResponse> {
     // Input validation
     if (!groupName?.trim()) {
@@ -455,34 +600,27 @@ export class Searcher {
     const limit = Math.max(1, Math.min(options?.limit ?? 5, 100));
     const project = options?.project ?? 'all';
 
-    const { projects: effectiveProjects, forbidden } = this.resolveEffectiveProjects(project);
+    const { projects: effectiveProjects, forbidden } = this.resolveEffectiveProjects(
+      groupName,
+      project
+    );
     if (forbidden) {
       return { results: [], total: 0, metrics: this.computeMetrics([]) };
     }
 
-    const queryVector = await this.provider.embedQuery(query);
-
     const filter: Record<string, unknown> = {
-      must_not: [this.metaExclusion()],
+      must_not: [this.metaExclusion(), ...filterExclusions(options?.filters)],
     };
-    if (effectiveProjects) {
-      filter['must'] = [this.buildProjectCondition(effectiveProjects)];
+    const must = filterConditions(options?.filters);
+    const scope = this.scopeCondition(effectiveProjects, options?.branch);
+    if (scope) must.push(scope);
+    if (must.length > 0) {
+      filter['must'] = must;
     }
 
     let results: SearchResult[];
     try {
-      const hits = await this.retryQdrant(() =>
-        this.qdrant.search(toCollectionName(groupName), {
-          vector: queryVector,
-          limit,
-          with_payload: true,
-          filter,
-        })
-      );
-
-      results = hits
-        .filter((h): h is typeof h & { payload: QdrantPayload } => this.validatePayload(h.payload))
-        .map((h) => this.mapPayload(h.payload, h.score));
+      results = await this.retrieveResults(groupName, query, filter, limit, options);
     } catch (err) {
       const errorMsg = (err as Error).message.toLowerCase();
       if (errorMsg.includes('not found') || errorMsg.includes('does not exist')) {
@@ -505,16 +643,296 @@ export class Searcher {
     };
   }
 
+  /**
+   * Retrieve and map up to `limit` results, stamped with the rank score of
+   * their position (see {@link compareByRank}). Path globs aren't indexable, so
+   * with a path filter we page through the ranking and match `file` here
+   * until `limit` results match, the ranking runs out, or
+   * {@link PATH_FILTER_MAX_CANDIDATES} candidates have been looked at.
+   */
+  private async retrieveResults(
+    groupName: string,
+    query: string,
+    filter: Record<string, unknown>,
+    limit: number,
+    options: SearchOptions | undefined
+  ): Promise<SearchResult[]> {
+    const mode = options?.mode ?? DEFAULT_SEARCH_MODE;
+    const intentWeight = options?.intentWeight ?? 0;
+    const toResults = (hits: RetrievedPoint[]): SearchResult[] =>
+      hits
+        .filter((h): h is typeof h & { payload: QdrantPayload } => this.validatePayload(h.payload))
+        .map((h) => this.mapPayload(h.payload, h.score));
+
+    const pathFilter = compilePathFilter(options?.filters);
+    if (!pathFilter) {
+      return withRankScores(
+        toResults(await this.retrieve(groupName, query, filter, limit, 0, mode, intentWeight))
+      );
+    }
+
+    const pageSize = Math.min(limit * PATH_FILTER_OVERFETCH, MAX_SEARCH_LIMIT);
+    const results: SearchResult[] = [];
+    for (let offset = 0; offset < PATH_FILTER_MAX_CANDIDATES; offset += pageSize) {
+      const hits = await this.retrieve(
+        groupName,
+        query,
+        filter,
+        pageSize,
+        offset,
+        mode,
+        intentWeight
+      );
+      results.push(...toResults(hits).filter((r) => pathFilter(r.file)));
+      if (results.length >= limit || hits.length < pageSize) break;
+    }
+    return withRankScores(results.slice(0, limit));
+  }
+
+  /**
+   * Run one collection query in the requested mode, returning ranks
+   * `offset + 1 … offset + limit`. Legacy single-vector collections only
+   * support dense retrieval, so every mode falls back to it.
+   *
+   * `hybrid` fuses a dense and a BM25 prefetch with RRF and keeps the fused
+   * order, so a chunk only the keyword side found (exact identifier, error
+   * string, config key) ranks where the fusion put it. `sparse` ranks by BM25
+   * alone. Both bring back the hits' dense vectors so `score` is a cosine
+   * similarity in every mode, for the confidence bands search_code reports.
+   *
+   * A positive `intentWeight` on a collection with the doc vector blends in
+   * how well the query matches the chunks' doc comments (see
+   * {@link retrieveByIntent}); elsewhere, and in `sparse` mode, it is ignored.
+   */
+  private async retrieve(
+    groupName: string,
+    query: string,
+    filter: Record<string, unknown>,
+    limit: number,
+    offset: number,
+    mode: SearchMode,
+    intentWeight: number
+  ): Promise<RetrievedPoint[]> {
+    const collection = toCollectionName(groupName);
+    const layout = await this.layoutOf(groupName);
+    const effectiveMode: SearchMode = layout === 'legacy' ? 'dense' : mode;
+    const page = offset > 0 ? { offset } : {};
+
+    const sparse =
+      effectiveMode === 'dense'
+        ? null
+        : buildCodeQuerySparseVector(query, this.idf?.getCorpusStats(groupName) ?? EMPTY_CORPUS);
+    if (effectiveMode === 'sparse') {
+      // Nothing tokenizable (e.g. only punctuation) — BM25 can't match anything.
+      if (!sparse || sparse.indices.length === 0) return [];
+      const queryVector = await this.provider.embedQuery(query);
+      const res = await this.guardLayout(groupName, () =>
+        this.qdrant.query(collection, {
+          query: sparse,
+          using: CODE_SPARSE_VECTOR,
+          limit,
+          ...page,
+          with_payload: true,
+          with_vector: [CODE_DENSE_VECTOR],
+          filter,
+        })
+      );
+      return cosineScored(res.points, queryVector);
+    }
+
+    const queryVector = await this.provider.embedQuery(query);
+
+    if (layout === 'legacy') {
+      return this.guardLayout(groupName, () =>
+        this.qdrant.search(collection, {
+          vector: queryVector,
+          limit,
+          ...page,
+          with_payload: true,
+          filter,
+        })
+      );
+    }
+
+    if (layout === 'documented' && intentWeight > 0) {
+      return this.retrieveByIntent(
+        groupName,
+        queryVector,
+        sparse,
+        filter,
+        limit,
+        offset,
+        intentWeight
+      );
+    }
+
+    if (!sparse || sparse.indices.length === 0) {
+      const res = await this.guardLayout(groupName, () =>
+        this.qdrant.query(collection, {
+          query: queryVector,
+          using: CODE_DENSE_VECTOR,
+          limit,
+          ...page,
+          with_payload: true,
+          filter,
+        })
+      );
+      return res.points;
+    }
+
+    const prefetchLimit = Math.max((offset + limit) * 4, 20);
+    const res = await this.guardLayout(groupName, () =>
+      this.qdrant.query(collection, {
+        prefetch: [
+          { query: queryVector, using: CODE_DENSE_VECTOR, limit: prefetchLimit, filter },
+          { query: sparse, using: CODE_SPARSE_VECTOR, limit: prefetchLimit, filter },
+        ],
+        query: { fusion: 'rrf' },
+        limit,
+        ...page,
+        with_payload: true,
+        with_vector: [CODE_DENSE_VECTOR],
+        filter,
+      })
+    );
+    return cosineScored(res.points, queryVector);
+  }
+
+  /**
+   * Intent-weighted retrieval: `score = (1 − w) · code + w · doc`, where `code`
+   * is the chunk's cosine against the dense code vector (over the hybrid
+   * candidates when there are BM25 terms) and `doc` its cosine against the
+   * embedded doc summary. A chunk missing from one side scores 0 there, so at
+   * `w = 1` undocumented chunks rank last.
+   */
+  private async retrieveByIntent(
+    groupName: string,
+    queryVector: number[],
+    sparse: SparseVector | null,
+    filter: Record<string, unknown>,
+    limit: number,
+    offset: number,
+    intentWeight: number
+  ): Promise<RetrievedPoint[]> {
+    const prefetchLimit = Math.max((offset + limit) * 4, 20);
+    const dense = { query: queryVector, using: CODE_DENSE_VECTOR, limit: prefetchLimit, filter };
+    const code =
+      sparse && sparse.indices.length > 0
+        ? {
+            prefetch: {
+              prefetch: [
+                dense,
+                { query: sparse, using: CODE_SPARSE_VECTOR, limit: prefetchLimit, filter },
+              ],
+              query: { fusion: 'rrf' as const },
+              limit: prefetchLimit,
+            },
+            ...dense,
+          }
+        : dense;
+    const w = Math.min(1, intentWeight);
+    const res = await this.guardLayout(groupName, () =>
+      this.qdrant.query(toCollectionName(groupName), {
+        prefetch: [
+          code,
+          { query: queryVector, using: CODE_DOC_VECTOR, limit: prefetchLimit, filter },
+        ],
+        query: {
+          formula: {
+            sum: [{ mult: [1 - w, '$score[0]'] }, { mult: [w, '$score[1]'] }],
+          },
+          defaults: { '$score[0]': 0, '$score[1]': 0 },
+        },
+        limit,
+        ...(offset > 0 ? { offset } : {}),
+        with_payload: true,
+        filter,
+      })
+    );
+    return res.points;
+  }
+
+  /**
+   * Vector layout of a group's collection. Falls back to `legacy` (plain dense
+   * search, which surfaces a missing collection as "not found") when the
+   * collection can't be inspected. Legacy isn't cached, since a legacy
+   * collection can be migrated while the server runs.
+   */
+  private async layoutOf(groupName: string): Promise<VectorLayout> {
+    const cached = this.layouts.get(groupName);
+    if (cached) return cached;
+    try {
+      const layout = vectorLayoutOf(await this.qdrant.getCollection(toCollectionName(groupName)));
+      if (layout !== 'legacy') this.layouts.set(groupName, layout);
+      return layout;
+    } catch {
+      return 'legacy';
+    }
+  }
+
+  /** Retry a Qdrant call; on final failure forget the cached layout so a
+   *  dropped-and-recreated collection is re-inspected on the next search. */
+  private async guardLayout<T>(groupName: string, fn: () => Promise<T>): Promise<T> {
+    try {
+      return await this.retryQdrant(fn);
+    } catch (err) {
+      this.layouts.delete(groupName);
+      throw err;
+    }
+  }
+
+  /** How many candidates to retrieve for `limit` results: over-fetch only when reranking. */
+  private candidateLimit(limit: number): number {
+    if (!this.reranker) return limit;
+    return Math.min(limit * this.rerankOverfetch, MAX_SEARCH_LIMIT);
+  }
+
+  /**
+   * Reorder candidates with the configured reranker and keep the top `limit`.
+   * A failing reranker never fails the search — the retrieval order is kept.
+   */
+  private async rerankResults(
+    query: string,
+    candidates: SearchResult[],
+    limit: number
+  ): Promise<{ results: SearchResult[]; trace: RerankTrace | null }> {
+    if (!this.reranker || candidates.length === 0) {
+      return { results: withRankScores(candidates.slice(0, limit)), trace: null };
+    }
+
+    let scores: number[];
+    try {
+      scores = await this.reranker.rerank(query, candidates);
+    } catch (err) {
+      console.warn(
+        `[searcher] Reranker ${this.reranker.name} failed, keeping retrieval order: ${(err as Error).message}`
+      );
+      return { results: withRankScores(candidates.slice(0, limit)), trace: null };
+    }
+
+    // Stable: ties keep their retrieval order.
+    const order = candidates
+      .map((_, i) => i)
+      .sort((a, b) => (scores[b] ?? -Infinity) - (scores[a] ?? -Infinity) || a - b)
+      .slice(0, limit);
+    return {
+      results: withRankScores(order.map((i) => candidates[i]!)),
+      trace: { reranker: this.reranker.name, preRanks: order },
+    };
+  }
+
   /** Write a search_event to telemetry. Resolves anchor project from context+param. */
   private emitSearchTelemetry(args: {
     tool: string;
     groupName: string;
     query: string;
-    options: { project?: string; limit?: number } | undefined;
+    options: SearchOptions | undefined;
     response: SearchResponse;
     durationMs: number;
     cacheHit: boolean;
     error: Error | null;
+    /** Present when the results were reordered by a reranker. */
+    rerank?: RerankTrace | null;
   }): void {
     if (!this.telemetry) return;
     const ctx = tctx.getOrAnonymous();
@@ -538,6 +956,7 @@ export class Searcher {
         chunkLines,
         fileTotalLines,
         chunkId: r.chunk_id ?? null,
+        preRerankRank: args.rerank?.preRanks[idx] ?? null,
       };
     });
 
@@ -555,6 +974,7 @@ export class Searcher {
         resultCount: args.response.results.length,
         cacheHit: args.cacheHit,
         error: args.error ? args.error.message.slice(0, 256) : null,
+        reranker: args.rerank?.reranker ?? null,
         results,
       });
     } catch (err) {
@@ -563,18 +983,29 @@ export class Searcher {
   }
 
   /**
-   * Resolve effective project list from allowedProjects + explicit project param.
-   * Returns `forbidden: true` if the explicit project is not in the allowed set.
+   * Resolve effective project list from allowedProjects + the caller's access
+   * rules + explicit project param. Returns `forbidden: true` if the group is
+   * not readable by the caller, or the explicit project is not in the allowed set.
    */
-  private resolveEffectiveProjects(explicitProject: string): {
+  private resolveEffectiveProjects(
+    groupName: string,
+    explicitProject: string
+  ): {
     projects: string[] | null;
     forbidden: boolean;
   } {
-    if (this.allowedProjects) {
+    if (!canAccessGroup(groupName)) {
+      return { projects: null, forbidden: true };
+    }
+    const allowed = narrowProjects(this.allowedProjects);
+    if (allowed) {
+      if (allowed.length === 0) {
+        return { projects: null, forbidden: true };
+      }
       if (explicitProject === 'all') {
-        return { projects: this.allowedProjects, forbidden: false };
+        return { projects: allowed, forbidden: false };
       }
-      if (this.allowedProjects.includes(explicitProject)) {
+      if (allowed.includes(splitBranchProject(explicitProject).project)) {
         return { projects: [explicitProject], forbidden: false };
       }
       return { projects: null, forbidden: true };
@@ -597,6 +1028,19 @@ export class Searcher {
     return { key: 'project', match: { any: stored } };
   }
 
+  /** The project condition of a search, narrowed to a branch's view when one
+   *  is asked for. Null when neither restricts anything. */
+  private scopeCondition(
+    projects: string[] | null,
+    branch: string | undefined
+  ): Record<string, unknown> | null {
+    if (!branch) return projects ? this.buildProjectCondition(projects) : null;
+    const bases = projects?.map((p) =>
+      applyProjectSuffix(splitBranchProject(p).project, this.projectSuffix)
+    );
+    return branchCondition(branch, bases ?? null);
+  }
+
   /** Filter clause that excludes the per-collection metadata sentinel point.
    *  Real chunks don't carry __meta, so this is a cheap must_not. */
   private metaExclusion(): { key: string; match: { value: boolean } } {
@@ -630,6 +1074,7 @@ export class Searcher {
       last_commit_at: (p.last_commit_at as string | null) ?? null,
       defines_symbols: p.defines_symbols ?? [],
       uses_symbols: p.uses_symbols ?? [],
+      ...(p.doc_summary ? { doc_summary: p.doc_summary } : {}),
     };
   }
 
@@ -688,6 +1133,7 @@ export class Searcher {
   /** Invalidate all cached search results for a group (e.g. after file change) */
   invalidateGroupCache(groupName: string): void {
     this.cache?.invalidateGroup(groupName);
+    this.layouts.delete(groupName);
   }
 
   /** Get query cache stats, or null if cache is not configured */
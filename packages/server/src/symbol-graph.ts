@@ -1,4 +1,24 @@
-import type { EdgeConfidence, SymbolEdge } from './types.js';
+import type {
+  EdgeConfidence,
+  HeritageRef,
+  ImportBinding,
+  RelationType,
+  SymbolEdge,
+} from './types.js';
+import { buildFileIndex, resolveImport } from './import-resolver.js';
+import type { ProjectFileIndex } from './import-resolver.js';
+
+/** Every edge relation, for tool schemas that filter by relation. */
+export const RELATION_TYPES = [
+  'calls',
+  'called_by',
+  'references',
+  'referenced_by',
+  'extends',
+  'implements',
+  'overrides',
+  'tests',
+] as const satisfies readonly RelationType[];
 
 /**
  * A symbol defined in more than this many chunks is treated as structural noise
@@ -31,13 +51,269 @@ function fileKey(chunkId: string): string | null {
   return parts.slice(0, 3).join('//');
 }
 
+/** Resolves a chunk's used symbols through its file's imports. Memoises
+ * binding → target files, since every chunk of a file repeats the same imports. */
+class ImportLinker {
+  private readonly indexes = new Map<string, ProjectFileIndex>();
+  private readonly targets = new Map<string, Set<string>>();
+
+  constructor(
+    chunkIds: string[],
+    private readonly definedBy: Map<string, Set<string>>
+  ) {
+    const filesByRoot = new Map<string, string[]>();
+    for (const id of chunkIds) {
+      const parts = id.split('//');
+      if (parts.length < 3) continue;
+      const root = `${parts[0]}//${parts[1]}`;
+      const files = filesByRoot.get(root) ?? [];
+      files.push(parts[2]!);
+      filesByRoot.set(root, files);
+    }
+    for (const [root, files] of filesByRoot) this.indexes.set(root, buildFileIndex(files));
+  }
+
+  /**
+   * Definitions of `sym` that the chunk's imports point at, with the name they
+   * are defined under (differs from `sym` for aliased imports). Named imports
+   * win over namespace / wildcard ones. Null when no import resolves — the
+   * caller then falls back to name matching.
+   */
+  resolve(
+    chunkId: string,
+    sym: string,
+    imports: ImportBinding[]
+  ): { symbol: string; defs: string[] } | null {
+    const parts = chunkId.split('//');
+    if (parts.length < 3) return null;
+    const root = `${parts[0]}//${parts[1]}`;
+    const file = parts[2]!;
+    const index = this.indexes.get(root);
+    if (!index) return null;
+
+    for (const b of imports) {
+      if (b.imported === '*' || b.local !== sym) continue;
+      const symbol = b.imported === 'default' ? sym : b.imported;
+      const defs = this.defsIn(symbol, this.targetFiles(root, file, b, index));
+      if (defs.length > 0) return { symbol, defs };
+    }
+
+    const files = new Set<string>();
+    for (const b of imports) {
+      if (b.imported !== '*') continue;
+      for (const f of this.targetFiles(root, file, b, index)) files.add(f);
+    }
+    const defs = this.defsIn(sym, files);
+    return defs.length > 0 ? { symbol: sym, defs } : null;
+  }
+
+  private targetFiles(
+    root: string,
+    file: string,
+    binding: ImportBinding,
+    index: ProjectFileIndex
+  ): Set<string> {
+    const key = `${root}//${file}\0${binding.source}\0${binding.imported}`;
+    let files = this.targets.get(key);
+    if (!files) {
+      files = new Set(resolveImport(file, binding, index).map((f) => `${root}//${f}`));
+      this.targets.set(key, files);
+    }
+    return files;
+  }
+
+  private defsIn(symbol: string, files: Set<string>): string[] {
+    if (files.size === 0) return [];
+    const defs: string[] = [];
+    for (const id of this.definedBy.get(symbol) ?? []) {
+      const key = fileKey(id);
+      if (key && files.has(key)) defs.push(id);
+    }
+    return defs;
+  }
+}
+
+interface HierarchyContext {
+  definedBy: Map<string, Set<string>>;
+  linker: ImportLinker | null;
+  maxDefinitionFanout: number;
+  /** supertype → chunks that declare or implement it; never a valid target for that supertype. */
+  subtypeChunks: Map<string, Set<string>>;
+}
+
+/**
+ * Resolve a supertype named by a chunk to the chunks defining it — through the
+ * chunk's imports first, then by name under the same rules as `calls` edges.
+ * Chunks that themselves extend / implement the supertype are dropped: Rust's
+ * `impl Trait for T` also counts as a definition of `Trait`, and sibling
+ * subclasses are never the supertype.
+ */
+function resolveSupertype(
+  chunkId: string,
+  supertype: string,
+  imports: ImportBinding[] | undefined,
+  ctx: HierarchyContext
+): { defs: string[]; confidence: EdgeConfidence } | null {
+  const subtypes = ctx.subtypeChunks.get(supertype);
+  const candidate = (id: string): boolean => id !== chunkId && !subtypes?.has(id);
+
+  if (ctx.linker && imports?.length) {
+    const viaImport = ctx.linker.resolve(chunkId, supertype, imports);
+    const defs = viaImport?.defs.filter(candidate) ?? [];
+    if (defs.length > 0) return { defs, confidence: 'RESOLVED' };
+  }
+
+  const defs = Array.from(ctx.definedBy.get(supertype) ?? []).filter(candidate);
+  if (defs.length === 0 || defs.length > ctx.maxDefinitionFanout) return null;
+  if (defs.length > 1) return { defs, confidence: 'AMBIGUOUS' };
+  const from = fileKey(chunkId);
+  return { defs, confidence: from && from === fileKey(defs[0]!) ? 'EXTRACTED' : 'INFERRED' };
+}
+
+/**
+ * Type-hierarchy edges from each chunk's `heritage`: `extends` / `implements`
+ * from the chunk declaring a type to its supertype's definition, and
+ * `overrides` from a method to the same-named method defined in the
+ * supertype's file. Emitted before `calls` edges so they claim the
+ * (from, to, symbol) key a plain type reference would otherwise take.
+ */
+function appendHierarchyEdges(
+  chunkSymbols: Array<{
+    chunk_id: string;
+    imports?: ImportBinding[];
+    heritage?: HeritageRef[];
+  }>,
+  ctx: HierarchyContext,
+  edges: SymbolEdge[],
+  seen: Set<string>
+): void {
+  const push = (
+    from: string,
+    to: string,
+    relation: RelationType,
+    symbol: string,
+    confidence: EdgeConfidence
+  ): void => {
+    const key = `${from}\0${to}\0${symbol}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    edges.push({
+      from_chunk_id: from,
+      to_chunk_id: to,
+      relation_type: relation,
+      symbol_name: symbol,
+      confidence,
+    });
+  };
+
+  for (const chunk of chunkSymbols) {
+    for (const ref of chunk.heritage ?? []) {
+      const parent = resolveSupertype(chunk.chunk_id, ref.supertype, chunk.imports, ctx);
+      if (!parent) continue;
+
+      if (ref.declared) {
+        for (const def of parent.defs) {
+          push(chunk.chunk_id, def, ref.relation, ref.supertype, parent.confidence);
+        }
+      }
+
+      if (ref.methods.length === 0) continue;
+      const parentFiles = new Set(parent.defs.map(fileKey));
+      const subtypes = ctx.subtypeChunks.get(ref.supertype);
+      for (const method of ref.methods) {
+        for (const def of ctx.definedBy.get(method) ?? []) {
+          if (def === chunk.chunk_id || subtypes?.has(def)) continue;
+          if (!parentFiles.has(fileKey(def))) continue;
+          push(chunk.chunk_id, def, 'overrides', method, parent.confidence);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * `references` edges from chunks that use a database table (queries, ORM
+ * mappings, schema changes) to the chunks that create it (`CREATE TABLE`,
+ * migrations). Table names live in their own namespace — a table `users` and
+ * a function `users` never link — and take the same confidence labels and
+ * fan-out cap as `calls` edges. Emitted before `calls` edges so a chunk that
+ * queries a table isn't also said to call the DDL defining it.
+ */
+function appendTableEdges(
+  chunkSymbols: Array<{ chunk_id: string; defines_tables?: string[]; uses_tables?: string[] }>,
+  maxDefinitionFanout: number,
+  edges: SymbolEdge[],
+  seen: Set<string>,
+  stats: SymbolEdgeStats
+): void {
+  const definedBy = new Map<string, Set<string>>();
+  for (const chunk of chunkSymbols) {
+    for (const table of chunk.defines_tables ?? []) {
+      let set = definedBy.get(table);
+      if (!set) {
+        set = new Set();
+        definedBy.set(table, set);
+      }
+      set.add(chunk.chunk_id);
+    }
+  }
+  if (definedBy.size === 0) return;
+
+  for (const chunk of chunkSymbols) {
+    for (const table of chunk.uses_tables ?? []) {
+      const defChunks = definedBy.get(table);
+      if (!defChunks) continue;
+      if (defChunks.size > maxDefinitionFanout) {
+        stats.skippedEdges += defChunks.size;
+        const skipKey = `\0skip-table\0${table}`;
+        if (!seen.has(skipKey)) {
+          seen.add(skipKey);
+          stats.skippedSymbols += 1;
+        }
+        continue;
+      }
+      const callerFile = fileKey(chunk.chunk_id);
+      for (const defChunkId of defChunks) {
+        if (defChunkId === chunk.chunk_id) continue;
+        const key = `${chunk.chunk_id}\0${defChunkId}\0${table}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        edges.push({
+          from_chunk_id: chunk.chunk_id,
+          to_chunk_id: defChunkId,
+          relation_type: 'references',
+          symbol_name: table,
+          confidence:
+            defChunks.size > 1
+              ? 'AMBIGUOUS'
+              : callerFile && callerFile === fileKey(defChunkId)
+                ? 'EXTRACTED'
+                : 'INFERRED',
+        });
+      }
+    }
+  }
+}
+
 /**
  * Build cross-chunk symbol edges from chunk symbol data.
  *
  * For each chunk's `uses_symbols`, finds chunks that define those symbols
- * and creates a `'calls'` edge (from_chunk → to_chunk via symbol).
+ * and creates a `'calls'` edge (from_chunk → to_chunk via symbol). Chunks
+ * with `heritage` also get `extends` / `implements` / `overrides` edges
+ * (see {@link appendHierarchyEdges}), and chunks using a database table get
+ * `references` edges to the chunks creating it (see {@link appendTableEdges}).
+ * A use from a test chunk (`is_test`) of a symbol defined in production code
+ * is a `tests` edge instead of `calls` — what `find_tests` follows back.
+ *
+ * When the chunk carries `imports`, a used symbol is first resolved through
+ * them to the exporting file; only symbols no import accounts for fall back
+ * to matching by bare name.
  *
  * Each edge is tagged with a confidence label:
+ * - `RESOLVED`: the caller imports the symbol and the import resolves to the
+ *   defining file. Not subject to the fan-out cap — the import already picked
+ *   the definition out of however many share its name.
  * - `EXTRACTED`: caller and definition share the same source file — the
  *   AST resolver already proved they're connected.
  * - `INFERRED`: cross-file edge where exactly one chunk defines the symbol.
@@ -52,6 +328,11 @@ export function buildSymbolEdges(
     chunk_id: string;
     defines_symbols: string[];
     uses_symbols: string[];
+    imports?: ImportBinding[];
+    heritage?: HeritageRef[];
+    defines_tables?: string[];
+    uses_tables?: string[];
+    is_test?: boolean;
   }>,
   maxDefinitionFanout: number = MAX_DEFINITION_FANOUT
 ): { edges: SymbolEdge[]; stats: SymbolEdgeStats } {
@@ -71,9 +352,59 @@ export function buildSymbolEdges(
   const edges: SymbolEdge[] = [];
   const seen = new Set<string>();
   const stats: SymbolEdgeStats = { skippedSymbols: 0, skippedEdges: 0 };
+  const linker = chunkSymbols.some((c) => c.imports?.length)
+    ? new ImportLinker(
+        chunkSymbols.map((c) => c.chunk_id),
+        definedBy
+      )
+    : null;
+
+  const subtypeChunks = new Map<string, Set<string>>();
+  for (const chunk of chunkSymbols) {
+    for (const ref of chunk.heritage ?? []) {
+      let set = subtypeChunks.get(ref.supertype);
+      if (!set) {
+        set = new Set();
+        subtypeChunks.set(ref.supertype, set);
+      }
+      set.add(chunk.chunk_id);
+    }
+  }
+  if (subtypeChunks.size > 0) {
+    appendHierarchyEdges(
+      chunkSymbols,
+      { definedBy, linker, maxDefinitionFanout, subtypeChunks },
+      edges,
+      seen
+    );
+  }
+  appendTableEdges(chunkSymbols, maxDefinitionFanout, edges, seen, stats);
+
+  const testChunks = new Set(chunkSymbols.filter((c) => c.is_test).map((c) => c.chunk_id));
+  const useRelation = (from: string, to: string): RelationType =>
+    testChunks.has(from) && !testChunks.has(to) ? 'tests' : 'calls';
 
   for (const chunk of chunkSymbols) {
     for (const sym of chunk.uses_symbols) {
+      const viaImport =
+        linker && chunk.imports?.length ? linker.resolve(chunk.chunk_id, sym, chunk.imports) : null;
+      if (viaImport) {
+        for (const defChunkId of viaImport.defs) {
+          if (defChunkId === chunk.chunk_id) continue;
+          const key = `${chunk.chunk_id}\0${defChunkId}\0${viaImport.symbol}`;
+          if (seen.has(key)) continue;
+          seen.add(key);
+          edges.push({
+            from_chunk_id: chunk.chunk_id,
+            to_chunk_id: defChunkId,
+            relation_type: useRelation(chunk.chunk_id, defChunkId),
+            symbol_name: viaImport.symbol,
+            confidence: 'RESOLVED',
+          });
+        }
+        continue;
+      }
+
       const defChunks = definedBy.get(sym);
       if (!defChunks) continue;
 
@@ -115,7 +446,7 @@ export function buildSymbolEdges(
         edges.push({
           from_chunk_id: chunk.chunk_id,
           to_chunk_id: defChunkId,
-          relation_type: 'calls',
+          relation_type: useRelation(chunk.chunk_id, defChunkId),
           symbol_name: sym,
           confidence,
         });
@@ -0,0 +1,188 @@
+import type { Indexer } from './indexer.js';
+import type { MetadataStore } from './metadata-db.js';
+import type { SymbolChunk } from './types.js';
+import { canAccessChunk, narrowProjects } from './auth/access.js';
+
+/**
+ * Go-to-definition by name over the `defines_symbols` payload, for agents that
+ * already know the identifier and shouldn't have to go through embeddings.
+ * `exact` is a keyword-index lookup; `prefix` and `fuzzy` scan a group's
+ * defining chunks (up to a cap per group) and match in memory. Definitions are ranked by how well the
+ * name matched, then by kind (types before functions before variables), then
+ * by in-degree in the symbol graph, so the widely used definition wins a tie.
+ */
+
+export const SYMBOL_MATCH_MODES = ['exact', 'prefix', 'fuzzy'] as const;
+export type SymbolMatchMode = (typeof SYMBOL_MATCH_MODES)[number];
+
+export interface SymbolDefinition extends Omit<SymbolChunk, 'defines_symbols'> {
+  group: string;
+  /** The defined symbol that matched the query. */
+  symbol: string;
+  /** How it matched: `exact` also covers a case-insensitive equal name. */
+  match: SymbolMatchMode;
+  /** Incoming edges in the symbol graph (0 without a metadata store). */
+  in_degree: number;
+}
+
+export interface FindSymbolResult {
+  definitions: SymbolDefinition[];
+  /** A group had more defining chunks than a prefix / fuzzy lookup scans; matches may be missing. */
+  truncated: boolean;
+}
+
+export interface FindSymbolOptions {
+  mode?: SymbolMatchMode;
+  /** Clean project names to search (see resolveSymbolProjects), or null/undefined for every project. */
+  projects?: string[] | null;
+  /** Only definitions of these chunk kinds. */
+  kinds?: string[];
+  limit?: number;
+}
+
+/** Lower sorts first. Kinds not listed (terraform blocks, `unknown`) go last. */
+const KIND_PRIORITY: Record<string, number> = {
+  class: 0,
+  interface: 0,
+  type: 0,
+  enum: 0,
+  table: 0,
+  function: 1,
+  method: 1,
+  constant: 2,
+  variable: 3,
+  module: 4,
+};
+const OTHER_KIND_PRIORITY = 5;
+
+/** Levenshtein distance, giving up (returning `max + 1`) once it must exceed `max`. */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      const v = Math.min(prev[j]! + 1, row[j - 1]! + 1, prev[j - 1]! + cost);
+      row.push(v);
+      if (v < rowMin) rowMin = v;
+    }
+    if (rowMin > max) return max + 1;
+    prev = row;
+  }
+  return prev[b.length]!;
+}
+
+/**
+ * Rank of `candidate` as a match for `query` under `mode`, or null when it
+ * doesn't match. 0 = exact, 1 = equal ignoring case, 2 = prefix, 3 = substring,
+ * 4+ = within edit distance (4 + distance). Prefix and fuzzy ignore case.
+ */
+export function matchSymbolName(
+  candidate: string,
+  query: string,
+  mode: SymbolMatchMode
+): number | null {
+  if (candidate === query) return 0;
+  if (mode === 'exact') return null;
+  const c = candidate.toLowerCase();
+  const q = query.toLowerCase();
+  if (c === q) return 1;
+  if (c.startsWith(q)) return 2;
+  if (mode === 'prefix') return null;
+  if (c.includes(q)) return 3;
+  // ~1 typo per 4 characters, at least one.
+  const max = Math.max(1, Math.floor(q.length / 4));
+  const dist = editDistance(c, q, max);
+  return dist <= max ? 4 + dist : null;
+}
+
+/**
+ * Projects to look in: the server-wide scope narrowed by the caller's rules,
+ * then by an explicit `project` ("all" or omitted = no narrowing). `[]` means
+ * nothing is reachable; null means every project.
+ */
+export function resolveSymbolProjects(
+  serverScope: string[] | null,
+  project: string | undefined
+): string[] | null {
+  const allowed = narrowProjects(serverScope);
+  if (project === undefined || project === 'all') return allowed;
+  return allowed === null || allowed.includes(project) ? [project] : [];
+}
+
+function matchLabel(rank: number): SymbolMatchMode {
+  if (rank <= 1) return 'exact';
+  return rank === 2 ? 'prefix' : 'fuzzy';
+}
+
+/**
+ * Find definitions of `query` across `groups`. Chunks the caller's access
+ * rules don't cover are dropped (see auth/access.ts); the caller is expected
+ * to have narrowed `projects` to the server-wide scope already.
+ */
+export async function findSymbolDefinitions(
+  deps: { indexer: Indexer; metadataStore?: MetadataStore | null },
+  groups: string[],
+  query: string,
+  options: FindSymbolOptions = {}
+): Promise<FindSymbolResult> {
+  const mode = options.mode ?? 'exact';
+  const limit = options.limit ?? 10;
+  const kinds = options.kinds && options.kinds.length > 0 ? new Set(options.kinds) : null;
+  const storedName = (p: string): string => deps.indexer.storedProjectName(p);
+
+  if (options.projects && options.projects.length === 0) {
+    return { definitions: [], truncated: false };
+  }
+
+  const ranked: Array<{ def: SymbolDefinition; rank: number }> = [];
+  let truncated = false;
+  for (const group of groups) {
+    const listed = await deps.indexer.listSymbolChunks(group, {
+      exact: mode === 'exact' ? query : undefined,
+      projects: options.projects,
+      matches: (defs) => defs.some((d) => matchSymbolName(d, query, mode) !== null),
+    });
+    truncated ||= listed.truncated;
+    for (const chunk of listed.chunks) {
+      if (kinds && !kinds.has(chunk.kind ?? 'unknown')) continue;
+      if (!canAccessChunk(chunk.chunk_id, storedName)) continue;
+      let best: { symbol: string; rank: number } | null = null;
+      for (const d of chunk.defines_symbols) {
+        const rank = matchSymbolName(d, query, mode);
+        if (rank !== null && (best === null || rank < best.rank)) best = { symbol: d, rank };
+      }
+      if (!best) continue;
+      ranked.push({
+        def: {
+          chunk_id: chunk.chunk_id,
+          group,
+          project: chunk.project,
+          file: chunk.file,
+          language: chunk.language,
+          startLine: chunk.startLine,
+          endLine: chunk.endLine,
+          kind: chunk.kind,
+          symbol: best.symbol,
+          match: matchLabel(best.rank),
+          in_degree: deps.metadataStore?.getInDegree(group, chunk.chunk_id) ?? 0,
+        },
+        rank: best.rank,
+      });
+    }
+  }
+
+  const kindPriority = (d: SymbolDefinition): number =>
+    KIND_PRIORITY[d.kind ?? ''] ?? OTHER_KIND_PRIORITY;
+  ranked.sort(
+    (a, b) =>
+      a.rank - b.rank ||
+      kindPriority(a.def) - kindPriority(b.def) ||
+      b.def.in_degree - a.def.in_degree ||
+      a.def.symbol.length - b.def.symbol.length ||
+      a.def.chunk_id.localeCompare(b.def.chunk_id)
+  );
+  return { definitions: ranked.slice(0, limit).map((r) => r.def), truncated };
+}
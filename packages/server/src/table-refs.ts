@@ -0,0 +1,137 @@
+import type { TableRefs } from './types.js';
+
+/**
+ * Database tables touched by application code, found with regexes over a
+ * chunk's text — no grammar needed, so it works the same for every language:
+ *
+ * - Raw SQL in string literals (`"SELECT … FROM invoices"`): tables after
+ *   FROM / JOIN / INTO / UPDATE / TABLE / REFERENCES.
+ * - ORM mappings: SQLAlchemy `__tablename__`, Django `db_table`,
+ *   ActiveRecord `self.table_name` (or the class name by Rails convention),
+ *   JPA `@Table(name = …)`, TypeORM `@Entity('…')`, Sequelize `tableName:`,
+ *   GORM `TableName()`, Exposed `Table("…")`.
+ * - Migrations: Rails `create_table` / `add_column` …, Alembic
+ *   `op.create_table` / `op.add_column` …, Knex and Laravel schema builders.
+ *   Creating a table defines it; every other schema change uses it.
+ *
+ * `.sql` files don't come through here: the SQL scanner in
+ * contract-chunker.ts reads their DDL directly.
+ */
+
+/** One SQL identifier, bare or quoted: `invoices`, `"Invoices"`, `` `invoices` ``, `[invoices]`. */
+export const SQL_IDENT = '(?:"[^"\\n]+"|`[^`\\n]+`|\\[[^\\]\\n]+\\]|[A-Za-z_][\\w$]*)';
+/** A possibly schema-qualified SQL name: `invoices`, `billing."Invoices"`, `[dbo].[invoices]`. */
+export const SQL_NAME = `${SQL_IDENT}(?:\\s*\\.\\s*${SQL_IDENT})*`;
+
+const SQL_TABLE_USE = new RegExp(
+  `\\b(?:from|join|into|update|table|references)\\s+(?:if\\s+(?:not\\s+)?exists\\s+)?(?:only\\s+)?(${SQL_NAME})`,
+  'gi'
+);
+
+/** Words that follow FROM / TABLE / … but are never a table name. */
+const NOT_TABLES = new Set([
+  'select',
+  'where',
+  'set',
+  'values',
+  'lateral',
+  'unnest',
+  'as',
+  'on',
+  'using',
+  'join',
+  'if',
+  'exists',
+  'not',
+  'only',
+  'dual',
+]);
+
+/** String literals: backtick templates, Python triple quotes, then single-line quotes. */
+const STRING_LITERAL =
+  /`(?:[^`\\]|\\.)*`|"""[\s\S]*?"""|'''[\s\S]*?'''|"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'/g;
+const SQL_STATEMENT = /^[\s`'"]*(?:select|insert|update|delete|with|merge|create|alter|drop)\b/i;
+
+const ORM_TABLE_PATTERNS: RegExp[] = [
+  /\b__tablename__\s*=\s*['"]([\w.]+)['"]/g,
+  /\bdb_table\s*=\s*['"]([\w.]+)['"]/g,
+  /\bself\.table_name\s*=\s*[:'"]([\w.]+)/g,
+  /@Table\s*\(\s*(?:name\s*=\s*)?"([\w.]+)"/g,
+  /@Entity\s*\(\s*(?:\{\s*name\s*:\s*)?['"]([\w.]+)['"]/g,
+  /\btableName\s*:\s*['"]([\w.]+)['"]/g,
+  /\bTableName\s*\(\s*\)\s*string\s*\{\s*return\s+"([\w.]+)"/g,
+  /:\s*(?:\w*IdTable(?:<[^>]*>)?|Table)\s*\(\s*"([\w.]+)"/g,
+];
+
+const MIGRATION_CREATE_PATTERNS: RegExp[] = [
+  /\bcreate_table\s*\(?\s*[:'"]([\w.]+)/g,
+  /\b(?:op\.create_table|createTable|Schema::create)\s*\(\s*['"]([\w.]+)['"]/g,
+];
+
+const MIGRATION_USE_PATTERNS: RegExp[] = [
+  /\b(?:change_table|drop_table|rename_table|add_column|remove_column|rename_column|change_column|change_column_default|change_column_null|add_index|remove_index|add_reference|remove_reference|add_timestamps|add_foreign_key|remove_foreign_key)\s*\(?\s*[:'"]([\w.]+)/g,
+  /\bop\.(?:add_column|drop_column|alter_column|drop_table|rename_table|create_unique_constraint|create_check_constraint)\s*\(\s*(?:[\w]+\s*=\s*)?['"]([\w.]+)['"]/g,
+  /\bschema\.(?:alterTable|table|dropTable|dropTableIfExists|renameTable)\s*\(\s*['"]([\w.]+)['"]/g,
+  /\bSchema::(?:table|drop|dropIfExists|rename)\s*\(\s*['"]([\w.]+)['"]/g,
+];
+
+/** `class Invoice < ApplicationRecord` — ActiveRecord maps it to `invoices` unless `table_name` says otherwise. */
+const ACTIVE_RECORD_MODEL =
+  /^[ \t]*class\s+(?:\w+::)*([A-Z]\w*)\s*<\s*(?:ApplicationRecord|ActiveRecord::Base)\b/gm;
+
+/**
+ * Normalized table name: unquoted, schema prefix dropped, lower-case. Null
+ * for keywords and anything that isn't an identifier.
+ */
+export function normalizeTableName(raw: string): string | null {
+  const parts = raw.split(/\s*\.\s*/);
+  const name = parts[parts.length - 1]!.replace(/^["`[]|["`\]]$/g, '').toLowerCase();
+  if (!/^[a-z_][\w$]*$/.test(name) || NOT_TABLES.has(name)) return null;
+  return name;
+}
+
+/** Tables a piece of SQL reads, writes or points a foreign key at. */
+export function sqlTableUses(sql: string): string[] {
+  const uses = new Set<string>();
+  for (const m of sql.matchAll(SQL_TABLE_USE)) {
+    const name = normalizeTableName(m[1]!);
+    if (name) uses.add(name);
+  }
+  return [...uses];
+}
+
+/** `Invoice` → `invoices`, `LineItem` → `line_items`, `Category` → `categories`. */
+function tableize(className: string): string {
+  const snake = className.replace(/([a-z\d])([A-Z])/g, '$1_$2').toLowerCase();
+  if (/[^aeiou]y$/.test(snake)) return `${snake.slice(0, -1)}ies`;
+  if (/(?:s|x|z|ch|sh)$/.test(snake)) return `${snake}es`;
+  return `${snake}s`;
+}
+
+/** Tables a code chunk creates (migrations) and uses (queries, ORM mappings, schema changes). */
+export function extractTableRefs(content: string): TableRefs {
+  const defines = new Set<string>();
+  const uses = new Set<string>();
+  const collect = (patterns: RegExp[], into: Set<string>): void => {
+    for (const re of patterns) {
+      for (const m of content.matchAll(re)) {
+        const name = normalizeTableName(m[1]!);
+        if (name) into.add(name);
+      }
+    }
+  };
+
+  collect(MIGRATION_CREATE_PATTERNS, defines);
+  collect(MIGRATION_USE_PATTERNS, uses);
+  collect(ORM_TABLE_PATTERNS, uses);
+  if (!/\bself\.table_name\s*=/.test(content)) {
+    for (const m of content.matchAll(ACTIVE_RECORD_MODEL)) uses.add(tableize(m[1]!));
+  }
+  for (const literal of content.match(STRING_LITERAL) ?? []) {
+    if (!SQL_STATEMENT.test(literal)) continue;
+    for (const name of sqlTableUses(literal)) uses.add(name);
+  }
+
+  for (const name of defines) uses.delete(name);
+  return { defines: [...defines], uses: [...uses] };
+}
@@ -18,7 +18,7 @@ import type {
 const PAPARATS_DIR = path.join(os.homedir(), '.paparats');
 const DEFAULT_DB_PATH = path.join(PAPARATS_DIR, 'analytics.db');
 
-const SCHEMA_VERSION = 1;
+const SCHEMA_VERSION = 2;
 
 const TOKENS_PER_LANGUAGE_SEED: Record<string, number> = {
   ts: 5.5,
@@ -99,132 +99,8 @@ export class AnalyticsStore implements TelemetrySink {
     if (current >= SCHEMA_VERSION) return;
 
     const tx = this.db.transaction(() => {
-      this.db.exec(`
-        CREATE TABLE IF NOT EXISTS search_events (
-          id              TEXT PRIMARY KEY,
-          request_id      TEXT,
-          ts              INTEGER NOT NULL,
-          user            TEXT NOT NULL,
-          session         TEXT,
-          client          TEXT,
-          tool            TEXT NOT NULL,
-          group_name      TEXT,
-          anchor_project  TEXT,
-          query_text      TEXT,
-          query_hash      TEXT NOT NULL,
-          query_tokens    TEXT NOT NULL,
-          limit_param     INTEGER NOT NULL,
-          duration_ms     INTEGER NOT NULL,
-          result_count    INTEGER NOT NULL,
-          cache_hit       INTEGER NOT NULL,
-          error           TEXT
-        );
-        CREATE INDEX IF NOT EXISTS idx_search_user_ts    ON search_events(user, ts);
-        CREATE INDEX IF NOT EXISTS idx_search_session_ts ON search_events(session, ts);
-        CREATE INDEX IF NOT EXISTS idx_search_query_hash ON search_events(query_hash);
-        CREATE INDEX IF NOT EXISTS idx_search_ts         ON search_events(ts);
-
-        CREATE TABLE IF NOT EXISTS search_results (
-          search_id        TEXT NOT NULL,
-          rank             INTEGER NOT NULL,
-          project          TEXT NOT NULL,
-          file             TEXT,
-          language         TEXT,
-          score            REAL NOT NULL,
-          start_line       INTEGER NOT NULL,
-          end_line         INTEGER NOT NULL,
-          chunk_lines      INTEGER NOT NULL,
-          file_total_lines INTEGER,
-          chunk_id         TEXT,
-          PRIMARY KEY (search_id, rank)
-        );
-        CREATE INDEX IF NOT EXISTS idx_search_results_project  ON search_results(project);
-        CREATE INDEX IF NOT EXISTS idx_search_results_chunk_id ON search_results(chunk_id);
-
-        CREATE TABLE IF NOT EXISTS chunk_fetches (
-          id                  TEXT PRIMARY KEY,
-          ts                  INTEGER NOT NULL,
-          user                TEXT NOT NULL,
-          session             TEXT,
-          chunk_id            TEXT NOT NULL,
-          preceding_search_id TEXT,
-          radius_lines        INTEGER NOT NULL,
-          duration_ms         INTEGER NOT NULL,
-          found               INTEGER NOT NULL
-        );
-        CREATE INDEX IF NOT EXISTS idx_chunk_fetches_search  ON chunk_fetches(preceding_search_id);
-        CREATE INDEX IF NOT EXISTS idx_chunk_fetches_user_ts ON chunk_fetches(user, ts);
-
-        CREATE TABLE IF NOT EXISTS tool_calls (
-          id          TEXT PRIMARY KEY,
-          ts          INTEGER NOT NULL,
-          user        TEXT NOT NULL,
-          session     TEXT,
-          tool        TEXT NOT NULL,
-          duration_ms INTEGER NOT NULL,
-          ok          INTEGER NOT NULL,
-          error       TEXT
-        );
-        CREATE INDEX IF NOT EXISTS idx_tool_calls_user_tool_ts ON tool_calls(user, tool, ts);
-
-        CREATE TABLE IF NOT EXISTS indexing_runs (
-          id            TEXT PRIMARY KEY,
-          started_at    INTEGER NOT NULL,
-          ended_at      INTEGER,
-          group_name    TEXT NOT NULL,
-          project_name  TEXT,
-          trigger       TEXT NOT NULL,
-          files_total   INTEGER NOT NULL DEFAULT 0,
-          files_skipped INTEGER NOT NULL DEFAULT 0,
-          chunks_total  INTEGER NOT NULL DEFAULT 0,
-          errors_total  INTEGER NOT NULL DEFAULT 0,
-          status        TEXT NOT NULL
-        );
-        CREATE INDEX IF NOT EXISTS idx_indexing_runs_started ON indexing_runs(started_at);
-
-        CREATE TABLE IF NOT EXISTS chunking_errors (
-          id           TEXT PRIMARY KEY,
-          run_id       TEXT,
-          ts           INTEGER NOT NULL,
-          group_name   TEXT NOT NULL,
-          project_name TEXT NOT NULL,
-          file         TEXT NOT NULL,
-          language     TEXT,
-          error_class  TEXT NOT NULL,
-          message      TEXT
-        );
-        CREATE INDEX IF NOT EXISTS idx_chunking_errors_run ON chunking_errors(run_id);
-
-        CREATE TABLE IF NOT EXISTS embedding_calls (
-          id          TEXT PRIMARY KEY,
-          ts          INTEGER NOT NULL,
-          user        TEXT NOT NULL,
-          kind        TEXT NOT NULL,
-          batch_size  INTEGER NOT NULL DEFAULT 1,
-          cache_hits  INTEGER NOT NULL DEFAULT 0,
-          cache_miss  INTEGER NOT NULL DEFAULT 0,
-          duration_ms INTEGER NOT NULL,
-          timeout     INTEGER NOT NULL DEFAULT 0,
-          error       TEXT
-        );
-        CREATE INDEX IF NOT EXISTS idx_embedding_calls_ts ON embedding_calls(ts);
-
-        CREATE TABLE IF NOT EXISTS files (
-          group_name   TEXT NOT NULL,
-          project_name TEXT NOT NULL,
-          file         TEXT NOT NULL,
-          language     TEXT,
-          total_lines  INTEGER NOT NULL,
-          total_bytes  INTEGER NOT NULL,
-          indexed_at   INTEGER NOT NULL,
-          PRIMARY KEY (group_name, project_name, file)
-        );
-
-        CREATE TABLE IF NOT EXISTS tokens_per_language (
-          language        TEXT PRIMARY KEY,
-          tokens_per_line REAL NOT NULL
-        );
-      `);
+      if (current < 1) this.migrateV1();
+      if (current < 2) this.migrateV2();
       this.db
         .prepare('INSERT INTO schema_migrations (version, applied_at) VALUES (?, ?)')
         .run(SCHEMA_VERSION, Date.now());
@@ -232,26 +108,163 @@ export class AnalyticsStore implements TelemetrySink {
     tx();
   }
 
+  private migrateV1(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS search_events (
+        id              TEXT PRIMARY KEY,
+        request_id      TEXT,
+        ts              INTEGER NOT NULL,
+        user            TEXT NOT NULL,
+        session         TEXT,
+        client          TEXT,
+        tool            TEXT NOT NULL,
+        group_name      TEXT,
+        anchor_project  TEXT,
+        query_text      TEXT,
+        query_hash      TEXT NOT NULL,
+        query_tokens    TEXT NOT NULL,
+        limit_param     INTEGER NOT NULL,
+        duration_ms     INTEGER NOT NULL,
+        result_count    INTEGER NOT NULL,
+        cache_hit       INTEGER NOT NULL,
+        error           TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_search_user_ts    ON search_events(user, ts);
+      CREATE INDEX IF NOT EXISTS idx_search_session_ts ON search_events(session, ts);
+      CREATE INDEX IF NOT EXISTS idx_search_query_hash ON search_events(query_hash);
+      CREATE INDEX IF NOT EXISTS idx_search_ts         ON search_events(ts);
+
+      CREATE TABLE IF NOT EXISTS search_results (
+        search_id        TEXT NOT NULL,
+        rank             INTEGER NOT NULL,
+        project          TEXT NOT NULL,
+        file             TEXT,
+        language         TEXT,
+        score            REAL NOT NULL,
+        start_line       INTEGER NOT NULL,
+        end_line         INTEGER NOT NULL,
+        chunk_lines      INTEGER NOT NULL,
+        file_total_lines INTEGER,
+        chunk_id         TEXT,
+        PRIMARY KEY (search_id, rank)
+      );
+      CREATE INDEX IF NOT EXISTS idx_search_results_project  ON search_results(project);
+      CREATE INDEX IF NOT EXISTS idx_search_results_chunk_id ON search_results(chunk_id);
+
+      CREATE TABLE IF NOT EXISTS chunk_fetches (
+        id                  TEXT PRIMARY KEY,
+        ts                  INTEGER NOT NULL,
+        user                TEXT NOT NULL,
+        session             TEXT,
+        chunk_id            TEXT NOT NULL,
+        preceding_search_id TEXT,
+        radius_lines        INTEGER NOT NULL,
+        duration_ms         INTEGER NOT NULL,
+        found               INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_chunk_fetches_search  ON chunk_fetches(preceding_search_id);
+      CREATE INDEX IF NOT EXISTS idx_chunk_fetches_user_ts ON chunk_fetches(user, ts);
+
+      CREATE TABLE IF NOT EXISTS tool_calls (
+        id          TEXT PRIMARY KEY,
+        ts          INTEGER NOT NULL,
+        user        TEXT NOT NULL,
+        session     TEXT,
+        tool        TEXT NOT NULL,
+        duration_ms INTEGER NOT NULL,
+        ok          INTEGER NOT NULL,
+        error       TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_tool_calls_user_tool_ts ON tool_calls(user, tool, ts);
+
+      CREATE TABLE IF NOT EXISTS indexing_runs (
+        id            TEXT PRIMARY KEY,
+        started_at    INTEGER NOT NULL,
+        ended_at      INTEGER,
+        group_name    TEXT NOT NULL,
+        project_name  TEXT,
+        trigger       TEXT NOT NULL,
+        files_total   INTEGER NOT NULL DEFAULT 0,
+        files_skipped INTEGER NOT NULL DEFAULT 0,
+        chunks_total  INTEGER NOT NULL DEFAULT 0,
+        errors_total  INTEGER NOT NULL DEFAULT 0,
+        status        TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_indexing_runs_started ON indexing_runs(started_at);
+
+      CREATE TABLE IF NOT EXISTS chunking_errors (
+        id           TEXT PRIMARY KEY,
+        run_id       TEXT,
+        ts           INTEGER NOT NULL,
+        group_name   TEXT NOT NULL,
+        project_name TEXT NOT NULL,
+        file         TEXT NOT NULL,
+        language     TEXT,
+        error_class  TEXT NOT NULL,
+        message      TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_chunking_errors_run ON chunking_errors(run_id);
+
+      CREATE TABLE IF NOT EXISTS embedding_calls (
+        id          TEXT PRIMARY KEY,
+        ts          INTEGER NOT NULL,
+        user        TEXT NOT NULL,
+        kind        TEXT NOT NULL,
+        batch_size  INTEGER NOT NULL DEFAULT 1,
+        cache_hits  INTEGER NOT NULL DEFAULT 0,
+        cache_miss  INTEGER NOT NULL DEFAULT 0,
+        duration_ms INTEGER NOT NULL,
+        timeout     INTEGER NOT NULL DEFAULT 0,
+        error       TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_embedding_calls_ts ON embedding_calls(ts);
+
+      CREATE TABLE IF NOT EXISTS files (
+        group_name   TEXT NOT NULL,
+        project_name TEXT NOT NULL,
+        file         TEXT NOT NULL,
+        language     TEXT,
+        total_lines  INTEGER NOT NULL,
+        total_bytes  INTEGER NOT NULL,
+        indexed_at   INTEGER NOT NULL,
+        PRIMARY KEY (group_name, project_name, file)
+      );
+
+      CREATE TABLE IF NOT EXISTS tokens_per_language (
+        language        TEXT PRIMARY KEY,
+        tokens_per_line REAL NOT NULL
+      );
+    `);
+  }
+
+  /** v2: reranking — which reranker ordered a search, and each result's rank before it. */
+  private migrateV2(): void {
+    this.db.exec(`
+      ALTER TABLE search_events ADD COLUMN reranker TEXT;
+      ALTER TABLE search_results ADD COLUMN pre_rerank_rank INTEGER;
+    `);
+  }
+
   private prepareStatements(): void {
     this.insSearchEvent = this.db.prepare(`
       INSERT INTO search_events (
         id, request_id, ts, user, session, client, tool, group_name, anchor_project,
         query_text, query_hash, query_tokens, limit_param,
-        duration_ms, result_count, cache_hit, error
+        duration_ms, result_count, cache_hit, error, reranker
       ) VALUES (
         @id, @request_id, @ts, @user, @session, @client, @tool, @group_name, @anchor_project,
         @query_text, @query_hash, @query_tokens, @limit_param,
-        @duration_ms, @result_count, @cache_hit, @error
+        @duration_ms, @result_count, @cache_hit, @error, @reranker
       )
     `);
 
     this.insSearchResult = this.db.prepare(`
       INSERT INTO search_results (
         search_id, rank, project, file, language, score,
-        start_line, end_line, chunk_lines, file_total_lines, chunk_id
+        start_line, end_line, chunk_lines, file_total_lines, chunk_id, pre_rerank_rank
       ) VALUES (
         @search_id, @rank, @project, @file, @language, @score,
-        @start_line, @end_line, @chunk_lines, @file_total_lines, @chunk_id
+        @start_line, @end_line, @chunk_lines, @file_total_lines, @chunk_id, @pre_rerank_rank
       )
     `);
 
@@ -385,6 +398,7 @@ export class AnalyticsStore implements TelemetrySink {
         result_count: event.resultCount,
         cache_hit: event.cacheHit ? 1 : 0,
         error: event.error,
+        reranker: event.reranker ?? null,
       });
       for (const r of event.results) {
         this.insSearchResult.run({
@@ -399,6 +413,7 @@ export class AnalyticsStore implements TelemetrySink {
           chunk_lines: r.chunkLines,
           file_total_lines: r.fileTotalLines,
           chunk_id: r.chunkId,
+          pre_rerank_rank: r.preRerankRank ?? null,
         });
       }
     });
@@ -88,6 +88,7 @@ export class OtelSink implements TelemetrySink {
         'paparats.search.duration_ms': event.durationMs,
         'paparats.search.result_count': event.resultCount,
         'paparats.search.cache_hit': event.cacheHit,
+        ...(event.reranker ? { 'paparats.search.reranker': event.reranker } : {}),
       },
     });
     this.withIdentity(span);
@@ -11,6 +11,8 @@ export interface SearchResultRecord {
   chunkLines: number;
   fileTotalLines: number | null;
   chunkId: string | null;
+  /** Rank among the over-fetched candidates before reranking (null = not reranked). */
+  preRerankRank?: number | null;
 }
 
 export interface SearchRecordEvent {
@@ -26,6 +28,8 @@ export interface SearchRecordEvent {
   resultCount: number;
   cacheHit: boolean;
   error: string | null;
+  /** Reranker that ordered `results`, or null when retrieval order was kept. */
+  reranker?: string | null;
   results: SearchResultRecord[];
 }
 
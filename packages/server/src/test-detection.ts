@@ -0,0 +1,46 @@
+/**
+ * Test vs production code. A chunk is a test when its file follows the test
+ * naming convention of its language (`*.test.ts`, `_test.go`, `test_*.py`,
+ * `FooTest.java`…) or sits under a test directory (`test/`, `spec/`,
+ * `__tests__/`; Java's `src/test/` falls out of that). Rust keeps unit tests
+ * next to the code in `mod tests`, so there the chunk's enclosing scope counts
+ * too. Stored as the `is_test` payload flag; the symbol graph turns a test's
+ * uses of production code into `tests` edges.
+ */
+
+/** Directory names whose contents are tests, in every language. */
+const TEST_DIRS = new Set(['test', 'tests', '__tests__', 'spec', 'specs', 'e2e', 'testdata']);
+
+const JS_TEST = /\.(?:test|spec)\.[cm]?[jt]sx?$/;
+const C_TEST = /^test_.*\.(?:c|cc|cpp|cxx)$|_(?:test|unittest)\.(?:c|cc|cpp|cxx)$/;
+
+/** File name conventions per language key (see `detectLanguageByPath`). */
+const TEST_FILE_NAMES: Record<string, RegExp> = {
+  typescript: JS_TEST,
+  javascript: JS_TEST,
+  go: /_test\.go$/,
+  python: /^(?:test_.*|.*_test|tests|conftest)\.py$/,
+  ruby: /_(?:spec|test)\.rb$/,
+  java: /(?:Test|Tests|IT)\.java$/,
+  kotlin: /(?:Test|Tests|Spec)\.kts?$/,
+  scala: /(?:Test|Tests|Spec|Suite)\.scala$/,
+  swift: /Tests?\.swift$/,
+  csharp: /Tests?\.cs$/,
+  php: /Test\.php$/,
+  c: C_TEST,
+  cpp: C_TEST,
+};
+
+/** Whether a project-relative file is test code by its name or directory. */
+export function isTestFile(file: string, language: string): boolean {
+  const parts = file.split(/[\\/]/);
+  const name = parts.pop() ?? '';
+  if (parts.some((dir) => TEST_DIRS.has(dir))) return true;
+  return TEST_FILE_NAMES[language]?.test(name) ?? false;
+}
+
+/** A chunk is a test when its file is, or — in Rust — when it sits in `mod tests`. */
+export function isTestChunk(file: string, language: string, scope?: string[]): boolean {
+  if (isTestFile(file, language)) return true;
+  return language === 'rust' && (scope?.includes('tests') ?? false);
+}
@@ -0,0 +1,89 @@
+import { Router, type Request, type Response } from 'express';
+import type { ApiTokenStore } from './auth/token-store.js';
+
+const MAX_USER_LENGTH = 256;
+const ACCESS_FIELDS = ['groups', 'projects', 'audiences'] as const;
+
+function isStringList(v: unknown): v is string[] {
+  return Array.isArray(v) && v.every((s) => typeof s === 'string');
+}
+
+export interface BuildTokensRouterOptions {
+  store: ApiTokenStore;
+}
+
+/**
+ * Admin API for per-user tokens, mounted at /api/tokens behind adminAuth.
+ *
+ *   GET    /            list active tokens (`?all=true` includes revoked)
+ *   POST   /            { user, label?, groups?, projects?, audiences? } → 201 with the
+ *                        plaintext token (shown once). Omitted lists = unrestricted.
+ *   DELETE /:id         revoke
+ *
+ * Token hashes never leave the store; list responses carry metadata only.
+ */
+export function buildTokensRouter(options: BuildTokensRouterOptions): Router {
+  const router = Router();
+  const { store } = options;
+
+  router.get('/', (req: Request, res: Response) => {
+    try {
+      const includeRevoked = req.query['all'] === 'true';
+      res.json({ tokens: store.list({ includeRevoked }) });
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  });
+
+  router.post('/', (req: Request, res: Response) => {
+    try {
+      const body = req.body ?? {};
+      const { user, label } = body;
+      if (typeof user !== 'string' || !user.trim()) {
+        res.status(400).json({ error: 'user is required' });
+        return;
+      }
+      // Same cap identityMiddleware applies to the header it replaces.
+      if (user.length > MAX_USER_LENGTH) {
+        res.status(400).json({ error: `user must be at most ${MAX_USER_LENGTH} characters` });
+        return;
+      }
+      if (label !== undefined && typeof label !== 'string') {
+        res.status(400).json({ error: 'label must be a string' });
+        return;
+      }
+      for (const field of ACCESS_FIELDS) {
+        if (body[field] !== undefined && body[field] !== null && !isStringList(body[field])) {
+          res.status(400).json({ error: `${field} must be an array of strings` });
+          return;
+        }
+      }
+      const issued = store.create(user, {
+        label,
+        groups: body.groups ?? null,
+        projects: body.projects ?? null,
+        audiences: body.audiences ?? null,
+      });
+      console.log(`[auth] Issued token ${issued.id}`);
+      res.status(201).json(issued);
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  });
+
+  router.delete('/:id', (req: Request<{ id: string }>, res: Response) => {
+    try {
+      const { id } = req.params;
+      if (!store.revoke(id)) {
+        res.status(404).json({ error: `Token not found or already revoked: ${id}` });
+        return;
+      }
+      console.log(`[auth] Revoked token ${id}`);
+      res.json({ revoked: id });
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  });
+
+  return router;
+}
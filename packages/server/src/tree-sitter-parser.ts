@@ -33,6 +33,10 @@ const LANGUAGE_GRAMMAR_MAP: Record<string, GrammarRef | null> = {
   c: 'c',
   cpp: 'cpp',
   csharp: 'c_sharp',
+  php: 'php',
+  kotlin: 'kotlin',
+  swift: 'swift',
+  scala: 'scala',
   terraform: { pkg: '@tree-sitter-grammars/tree-sitter-hcl', file: 'tree-sitter-terraform.wasm' },
 };
 
@@ -14,6 +14,7 @@ export type ChunkKind =
   | 'data'
   | 'output'
   | 'provider'
+  | 'table'
   | 'unknown';
 
 // ── Config types (from .paparats.yml) ──────────────────────────────────────
@@ -22,6 +23,8 @@ export interface GitMetadataConfig {
   enabled?: boolean;
   maxCommitsPerFile?: number;
   ticketPatterns?: string[];
+  /** Blame lines older than this many months don't count towards ownership */
+  ownershipMonths?: number;
 }
 
 export interface MetadataConfig {
@@ -59,6 +62,8 @@ export interface IndexingConfig {
   overlap?: number;
   concurrency?: number;
   batchSize?: number;
+  /** Template of the header embedded above each chunk (see chunk-header.ts); '' disables it. */
+  chunkHeader?: string;
 }
 
 export interface WatcherConfig {
@@ -87,6 +92,8 @@ export interface ProjectConfig {
   watcher: Required<WatcherConfig>;
   embeddings: Required<EmbeddingsConfig>;
   metadata: ResolvedMetadataConfig;
+  /** Web links for commits and tickets; set by the indexer from its host config */
+  links?: ProjectLinks;
 }
 
 export interface ResolvedIndexingConfig {
@@ -98,6 +105,7 @@ export interface ResolvedIndexingConfig {
   overlap: number;
   concurrency: number;
   batchSize: number;
+  chunkHeader: string;
 }
 
 // ── Group = Qdrant collection ──────────────────────────────────────────────
@@ -119,12 +127,27 @@ export interface ChunkResult {
 
 // ── Symbol graph types ────────────────────────────────────────────────────
 
-export type RelationType = 'calls' | 'called_by' | 'references' | 'referenced_by';
+/**
+ * Edge relation. `extends` / `implements` point from a subtype to its
+ * supertype; `overrides` from a method to the supertype method it replaces;
+ * `tests` from a test chunk to the production code it uses.
+ */
+export type RelationType =
+  | 'calls'
+  | 'called_by'
+  | 'references'
+  | 'referenced_by'
+  | 'extends'
+  | 'implements'
+  | 'overrides'
+  | 'tests';
 
 /**
  * Confidence label for symbol-graph edges, mirroring the EXTRACTED/INFERRED/
  * AMBIGUOUS scheme used by graph-style code intelligence tools.
  *
+ * - `RESOLVED`: the caller's file imports the symbol and the import resolves
+ *   to the file that defines it. Highest confidence for cross-file edges.
  * - `EXTRACTED`: the edge is structurally certain (e.g. caller and definition
  *   are in the same file, resolved by AST without name lookup).
  * - `INFERRED`: cross-file edge resolved by name match where exactly one
@@ -132,7 +155,49 @@ export type RelationType = 'calls' | 'called_by' | 'references' | 'referenced_by
  * - `AMBIGUOUS`: name resolved to multiple defining chunks; the caller could
  *   be hitting any of them. Treat as low-confidence in `find_usages`.
  */
-export type EdgeConfidence = 'EXTRACTED' | 'INFERRED' | 'AMBIGUOUS';
+export type EdgeConfidence = 'RESOLVED' | 'EXTRACTED' | 'INFERRED' | 'AMBIGUOUS';
+
+/** A type declaration's named supertype, as seen from one chunk. */
+export interface HeritageRef {
+  /** The declaring type (`Money` in `class Money extends Value`, or `impl Display for Money`). */
+  type: string;
+  /** The named supertype (`Value`, `Display`). */
+  supertype: string;
+  relation: 'extends' | 'implements';
+  /** True when this chunk holds the declaration header — the source of the `extends` / `implements` edge. */
+  declared: boolean;
+  /** Methods of `type` defined in this chunk — candidates for `overrides` edges. */
+  methods: string[];
+}
+
+/**
+ * Database tables a chunk touches, by normalized name (lower-case, no quotes
+ * or schema prefix). `defines` are declared here — `CREATE TABLE`, a
+ * migration's `create_table` — and `uses` are read or written: queries in
+ * string literals, ORM table mappings, `ALTER TABLE`. The symbol graph links
+ * each use to the defining chunks with a `references` edge.
+ */
+export interface TableRefs {
+  defines: string[];
+  uses: string[];
+}
+
+/**
+ * A name one source file brings into scope from another module
+ * (`import`, `require`, `from … import`, Go `import`, Rust `use`, Java `import`).
+ */
+export interface ImportBinding {
+  /** Name as used in the importing file (the alias when renamed). */
+  local: string;
+  /**
+   * Name as exported by the source module. `'*'` for namespace / package /
+   * wildcard imports (`import * as ns`, Go packages, `use a::*`), `'default'`
+   * for JS default imports.
+   */
+  imported: string;
+  /** Module specifier as written (`./billing`, `.models`, `crate::billing`, `com.acme.billing`). */
+  source: string;
+}
 
 export interface SymbolEdge {
   from_chunk_id: string;
@@ -147,8 +212,62 @@ export interface SymbolEdge {
   confidence?: EdgeConfidence;
 }
 
+/** A defining chunk as returned by `Indexer.listSymbolChunks` — location only, no content. */
+export interface SymbolChunk {
+  chunk_id: string;
+  /** Clean (unsuffixed) project name. */
+  project: string;
+  file: string;
+  language: string;
+  startLine: number;
+  endLine: number;
+  kind: string | null;
+  defines_symbols: string[];
+}
+
 // ── Search types ───────────────────────────────────────────────────────────
 
+/**
+ * Retrieval mode for code search. `dense` = embedding similarity only,
+ * `sparse` = BM25 keyword match only, `hybrid` = both fused with RRF.
+ */
+export type SearchMode = 'dense' | 'sparse' | 'hybrid';
+
+/**
+ * Structured filters for code search. List fields match any of their values;
+ * all set fields must hold. Paths are globs against the project-relative file.
+ */
+export interface SearchFilters {
+  languages?: string[];
+  kinds?: ChunkKind[];
+  /** Include globs (e.g. `internal/billing/**`); a chunk must match at least one */
+  paths?: string[];
+  /** Exclude globs (e.g. `**\/*_test.go`); a chunk matching any is dropped */
+  exclude_paths?: string[];
+  tags?: string[];
+  service?: string;
+  bounded_context?: string;
+  /** Drop test chunks (`is_test`); chunks indexed before the flag existed are kept. */
+  exclude_tests?: boolean;
+}
+
+/** Per-call options shared by the Searcher entry points. */
+export interface SearchOptions {
+  project?: string;
+  limit?: number;
+  /** Retrieval mode (default `hybrid`). Legacy single-vector collections always run dense. */
+  mode?: SearchMode;
+  /**
+   * 0–1: how much the match against chunks' doc comments ("intent") counts
+   * against the match against their code ("implementation"). Default 0 (code
+   * only). Needs a collection with the doc vector; ignored in `sparse` mode.
+   */
+  intentWeight?: number;
+  filters?: SearchFilters;
+  /** Search this branch's view of the projects (see branches.ts) instead of the default branch. */
+  branch?: string;
+}
+
 export interface SearchResult {
   project: string;
   file: string;
@@ -156,7 +275,15 @@ export interface SearchResult {
   startLine: number;
   endLine: number;
   content: string;
+  /** Cosine similarity to the query, whatever the search mode. Shown to users. */
   score: number;
+  /**
+   * Reciprocal-rank score of the result's position in the searcher's final
+   * order (after fusion and reranking). It depends only on that position, so
+   * it compares across groups whatever their layout or mode; merge result
+   * lists with `compareByRank` (searcher.ts), not `score`.
+   */
+  rankScore?: number;
   hash: string;
   chunk_id: string | null;
   symbol_name: string | null;
@@ -167,6 +294,8 @@ export interface SearchResult {
   last_commit_at: string | null;
   defines_symbols: string[];
   uses_symbols: string[];
+  /** Doc comments of the chunk's declarations, when it has any. */
+  doc_summary?: string | null;
 }
 
 export interface SearchMetrics {
@@ -210,6 +339,27 @@ export interface IndexerStats {
   skipped: number;
 }
 
+/**
+ * Stage of a project index run: `chunk` while listing and removing files,
+ * `embed` while files are chunked and embedded, then the post-index passes.
+ */
+export type IndexPhase = 'chunk' | 'embed' | 'git-metadata' | 'symbol-graph';
+
+export interface IndexProgress {
+  phase: IndexPhase;
+  filesProcessed: number;
+  filesTotal: number;
+  /** Chunks embedded so far (unchanged files add none). */
+  chunks: number;
+}
+
+export interface IndexRunOptions {
+  /** Called on each phase change and every few files. */
+  onProgress?: (progress: IndexProgress) => void;
+  /** Aborting stops the run between files; it then rejects with the abort reason. */
+  signal?: AbortSignal;
+}
+
 // ── Git metadata types ──────────────────────────────────────────────────
 
 export interface ChunkCommit {
@@ -225,3 +375,28 @@ export interface ChunkTicket {
   ticket_key: string;
   source: 'jira' | 'github' | 'custom';
 }
+
+/**
+ * URL templates turning a project's commits and ticket references into links.
+ * Placeholders: `{repo}` (host path, e.g. `team/billing`), `{sha}`,
+ * `{number}` and `{key}`.
+ */
+export interface ProjectLinks {
+  /** The project's repo path on its host; fills `{repo}` */
+  repo: string;
+  /** Commit page, e.g. `https://git.example.com/{repo}/commit/{sha}` */
+  commit?: string;
+  /** Issue or pull request page for `#12` and `org/repo#12`; `{repo}`, `{number}` */
+  issue?: string;
+  /** Tracker page for keyed tickets (`PAY-12`, custom patterns); `{key}` */
+  ticket?: string;
+}
+
+/** An author's share of a chunk or file by `git blame`, within the ownership window. */
+export interface Contributor {
+  author_email: string;
+  /** Lines they last touched inside the window */
+  lines: number;
+  /** Their most recent change among those lines (ISO 8601) */
+  last_at: string;
+}
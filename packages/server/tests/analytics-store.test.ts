@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import fs from 'fs';
+import Database from 'better-sqlite3';
 import path from 'path';
 import os from 'os';
 import { AnalyticsStore } from '../src/telemetry/analytics-store.js';
@@ -396,4 +397,66 @@ describe('analytics queries', () => {
     const ast = rows.find((r) => r.error_class === 'ast_chunk_zero');
     expect(ast?.count).toBe(2);
   });
+
+  it('stores the reranker and pre-rerank rank per result', () => {
+    tctx.run(newContext({ user: 'carol' }), () => {
+      store.recordSearch({
+        ts: Date.now(),
+        tool: 'expandedSearch',
+        groupName: 'g',
+        anchorProject: null,
+        queryText: 'q',
+        queryHash: hashQuery('q'),
+        queryTokens: tokenizeQuery('q'),
+        limit: 5,
+        durationMs: 12,
+        resultCount: 1,
+        cacheHit: false,
+        error: null,
+        reranker: 'heuristic',
+        results: [
+          {
+            rank: 0,
+            project: 'p',
+            file: 'a.ts',
+            language: 'ts',
+            score: 0.6,
+            startLine: 1,
+            endLine: 5,
+            chunkLines: 5,
+            fileTotalLines: null,
+            chunkId: 'C1',
+            preRerankRank: 3,
+          },
+        ],
+      });
+    });
+
+    const ev = store.database.prepare('SELECT reranker FROM search_events').get() as {
+      reranker: string | null;
+    };
+    expect(ev.reranker).toBe('heuristic');
+    const res = store.database.prepare('SELECT pre_rerank_rank FROM search_results').get() as {
+      pre_rerank_rank: number | null;
+    };
+    expect(res.pre_rerank_rank).toBe(3);
+  });
+
+  it('upgrades a v1 database in place', () => {
+    store.close();
+    // Roll the schema back to v1: drop the v2 columns and the version row.
+    const db = new Database(dbPath);
+    db.exec(`
+      ALTER TABLE search_events DROP COLUMN reranker;
+      ALTER TABLE search_results DROP COLUMN pre_rerank_rank;
+      UPDATE schema_migrations SET version = 1;
+    `);
+    db.close();
+
+    store = new AnalyticsStore({ dbPath });
+    const cols = (
+      store.database.prepare('PRAGMA table_info(search_results)').all() as { name: string }[]
+    ).map((c) => c.name);
+    expect(cols).toContain('pre_rerank_rank');
+  });
 });
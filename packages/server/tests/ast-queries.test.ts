@@ -17,6 +17,10 @@ const GRAMMAR_MAP: Record<string, string> = {
   c: 'c',
   cpp: 'cpp',
   csharp: 'c_sharp',
+  php: 'php',
+  kotlin: 'kotlin',
+  swift: 'swift',
+  scala: 'scala',
 };
 
 let parser: Parser;
@@ -48,7 +52,7 @@ function queryCaptures(lang: string, code: string, queryStr: string): string[] {
 }
 
 describe('LANGUAGE_QUERIES', () => {
-  it('covers all 10 supported languages', async () => {
+  it('covers all supported languages', async () => {
     await setup();
     const supported = Object.keys(GRAMMAR_MAP);
     for (const lang of supported) {
@@ -179,6 +183,42 @@ describe('LANGUAGE_QUERIES', () => {
     expect(defs).toContain('Point');
   });
 
+  it('PHP: extracts definitions and usages', () => {
+    const code =
+      '<?php\nclass UserController { const MAX = 3; public function show(): User { return helper(User::find(1)); } }\ntrait Loggable {}\nfunction helper($u) {}';
+    const defs = queryCaptures('php', code, LANGUAGE_QUERIES['php']!.definitions);
+    expect(defs).toEqual(['UserController', 'MAX', 'show', 'Loggable', 'helper']);
+    const uses = queryCaptures('php', code, LANGUAGE_QUERIES['php']!.usages);
+    expect(uses).toEqual(expect.arrayContaining(['User', 'helper', 'find']));
+  });
+
+  it('Kotlin: extracts definitions and usages', () => {
+    const code =
+      'class UserService(val repo: Repo) { fun greet(): String = repo.find(1).name }\nobject Registry\ntypealias Handler = () -> Unit\nval MAX = 3';
+    const defs = queryCaptures('kotlin', code, LANGUAGE_QUERIES['kotlin']!.definitions);
+    expect(defs).toEqual(['UserService', 'greet', 'Registry', 'Handler', 'MAX']);
+    const uses = queryCaptures('kotlin', code, LANGUAGE_QUERIES['kotlin']!.usages);
+    expect(uses).toEqual(expect.arrayContaining(['Repo', 'String', 'find']));
+  });
+
+  it('Swift: extracts definitions but not extensions', () => {
+    const code =
+      'protocol Greeter { func greet() -> String }\nstruct Point { var x: Int }\nextension Point { func norm() -> Int { return abs(x) } }';
+    const defs = queryCaptures('swift', code, LANGUAGE_QUERIES['swift']!.definitions);
+    expect(defs).toEqual(['Greeter', 'greet', 'Point', 'x', 'norm']);
+    const uses = queryCaptures('swift', code, LANGUAGE_QUERIES['swift']!.usages);
+    expect(uses).toEqual(expect.arrayContaining(['String', 'Int', 'abs']));
+  });
+
+  it('Scala: extracts definitions and usages', () => {
+    const code =
+      'trait Greeter { def greet(): String }\nobject Registry { val items = List(1) }\ncase class Point(x: Int)\ndef helper(p: Point): Int = p.norm()';
+    const defs = queryCaptures('scala', code, LANGUAGE_QUERIES['scala']!.definitions);
+    expect(defs).toEqual(['Greeter', 'greet', 'Registry', 'items', 'Point', 'helper']);
+    const uses = queryCaptures('scala', code, LANGUAGE_QUERIES['scala']!.usages);
+    expect(uses).toEqual(expect.arrayContaining(['String', 'List', 'Point', 'norm']));
+  });
+
   it('TSX: works with JSX content', () => {
     const defs = queryCaptures(
       'tsx',
@@ -187,4 +227,110 @@ describe('LANGUAGE_QUERIES', () => {
     );
     expect(defs).toContain('App');
   });
+
+  describe('hierarchy', () => {
+    function hierarchy(lang: string, code: string): string[] {
+      const language = languages.get(lang)!;
+      parser.setLanguage(language);
+      const tree = parser.parse(code)!;
+      const query = new Query(language, LANGUAGE_QUERIES[lang]!.hierarchy!);
+      const captures = query.captures(tree.rootNode).map((c) => `${c.name}:${c.node.text}`);
+      query.delete();
+      tree.delete();
+      return captures;
+    }
+
+    it('TypeScript: captures extends and implements', () => {
+      expect(
+        hierarchy(
+          'typescript',
+          'class A extends base.B<T> implements I, J<K> {}\ninterface X extends Y, Z<W> {}'
+        )
+      ).toEqual(['extends:B', 'implements:I', 'implements:J', 'extends:Y', 'extends:Z']);
+    });
+
+    it('Python: captures base classes but not keyword arguments', () => {
+      expect(hierarchy('python', 'class A(B, mod.C, metaclass=M):\n    pass')).toEqual([
+        'extends:B',
+        'extends:C',
+      ]);
+    });
+
+    it('Java: captures superclass, interfaces and interface extension', () => {
+      expect(
+        hierarchy('java', 'class A extends B implements I, J<K> {}\ninterface X extends Y {}')
+      ).toEqual(['extends:B', 'implements:I', 'implements:J', 'extends:Y']);
+    });
+
+    it('Rust: trait impls implement, supertraits extend', () => {
+      expect(
+        hierarchy(
+          'rust',
+          'impl Display for Money {}\nimpl fmt::Debug for Money {}\nimpl Money {}\ntrait Shape: Debug {}'
+        )
+      ).toEqual(['implements:Display', 'implements:Debug', 'extends:Debug']);
+    });
+
+    it('C#: splits the base list on the interface naming convention', () => {
+      expect(hierarchy('csharp', 'class A : B, IFoo, IBar<T> {}')).toEqual([
+        'extends:B',
+        'implements:IFoo',
+        'implements:IBar',
+      ]);
+    });
+
+    it('PHP: captures extends and implements, qualified or not', () => {
+      expect(
+        hierarchy(
+          'php',
+          '<?php\nclass A extends B implements I, \\Countable {}\ninterface X extends Y {}'
+        )
+      ).toEqual(['extends:B', 'implements:I', 'implements:Countable', 'extends:Y']);
+    });
+
+    it('Kotlin: the supertype with a constructor call is the superclass', () => {
+      expect(hierarchy('kotlin', 'class A : B(), I, J<K>\nclass C : I')).toEqual([
+        'extends:B',
+        'implements:I',
+        'implements:J',
+        'implements:I',
+      ]);
+    });
+
+    it('Swift: the first entry of a class is its superclass', () => {
+      expect(
+        hierarchy(
+          'swift',
+          'class A: B, I {}\nstruct P: Equatable, I {}\nextension P: J {}\nprotocol X: Y {}'
+        )
+      ).toEqual([
+        'extends:B',
+        'implements:I',
+        'implements:Equatable',
+        'implements:I',
+        'implements:J',
+        'extends:Y',
+      ]);
+    });
+
+    it('Scala: extends the first type, mixes in the rest', () => {
+      expect(
+        hierarchy(
+          'scala',
+          'class A extends B[T] with I with J\ntrait X extends Y\nobject O extends Z'
+        )
+      ).toEqual(['extends:B', 'implements:I', 'implements:J', 'extends:Y', 'extends:Z']);
+    });
+
+    it('C++ and Ruby: capture base classes', () => {
+      expect(hierarchy('cpp', 'class A : public B, private ns::C {};')).toEqual([
+        'extends:B',
+        'extends:C',
+      ]);
+      expect(hierarchy('ruby', 'class A < B\nend\nclass C < Mod::D\nend')).toEqual([
+        'extends:B',
+        'extends:D',
+      ]);
+    });
+  });
 });
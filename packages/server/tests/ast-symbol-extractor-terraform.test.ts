@@ -95,6 +95,15 @@ describe('extractSymbolsForChunks (terraform)', () => {
     expect(r.uses_symbols).toContain('var.region');
   });
 
+  it('defines each locals attribute as local.<name>', () => {
+    const lines = SAMPLE.split('\n');
+    const start = lines.indexOf('locals {');
+    const r = parseChunks([{ startLine: start, endLine: start + 2 }])[0]!;
+    expect(r.defines_symbols).toEqual(['local.name']);
+    expect(r.defined_symbols[0]?.kind).toBe('variable');
+    expect(r.uses_symbols).toContain('var.region');
+  });
+
   it('tags definition kinds by block type', () => {
     const r = parseAll();
     const web = r.defined_symbols.find((d) => d.name === 'aws_instance.web');
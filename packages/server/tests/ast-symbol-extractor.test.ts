@@ -1,7 +1,7 @@
-import { describe, it, expect, afterAll } from 'vitest';
+import { describe, it, expect, afterAll, beforeAll } from 'vitest';
 import { Parser, Language } from 'web-tree-sitter';
 import { createRequire } from 'module';
-import { extractSymbolsForChunks } from '../src/ast-symbol-extractor.js';
+import { extractFileImports, extractSymbolsForChunks } from '../src/ast-symbol-extractor.js';
 
 const require = createRequire(import.meta.url);
 
@@ -18,6 +18,10 @@ const GRAMMAR_MAP: Record<string, string> = {
   c: 'c',
   cpp: 'cpp',
   csharp: 'c_sharp',
+  php: 'php',
+  kotlin: 'kotlin',
+  swift: 'swift',
+  scala: 'scala',
 };
 
 async function setup() {
@@ -657,6 +661,118 @@ end`;
     expect(byName.get('MyModule')).toBe('module');
   });
 
+  it('extracts kinds and filters locals for PHP', async () => {
+    const code = `<?php
+class UserController {
+  const MAX = 3;
+  public function show() {
+    $fn = function () { return 1; };
+  }
+}
+trait Loggable {}
+function helper() {}`;
+    const { tree, language } = parse('php', code);
+    const results = extractSymbolsForChunks(tree, language, [{ startLine: 0, endLine: 8 }], 'php');
+    tree.delete();
+
+    const byName = new Map(results[0]!.defined_symbols.map((s) => [s.name, s.kind]));
+    expect(Object.fromEntries(byName)).toEqual({
+      UserController: 'class',
+      MAX: 'constant',
+      show: 'method',
+      Loggable: 'class',
+      helper: 'function',
+    });
+  });
+
+  it('extracts kinds and filters locals for Kotlin', async () => {
+    const code = `class UserService {
+  val cache = 1
+  fun greet(): String {
+    val user = load()
+    return user.name
+  }
+}
+object Registry
+typealias Handler = () -> Unit`;
+    const { tree, language } = parse('kotlin', code);
+    const results = extractSymbolsForChunks(
+      tree,
+      language,
+      [{ startLine: 0, endLine: 8 }],
+      'kotlin'
+    );
+    tree.delete();
+
+    const byName = new Map(results[0]!.defined_symbols.map((s) => [s.name, s.kind]));
+    expect(Object.fromEntries(byName)).toEqual({
+      UserService: 'class',
+      cache: 'variable',
+      greet: 'function',
+      Registry: 'class',
+      Handler: 'type',
+    });
+    expect(results[0]!.uses_symbols).toContain('load');
+  });
+
+  it('extracts kinds and filters locals for Swift', async () => {
+    const code = `protocol Greeter { func greet() -> String }
+struct Point {
+  var size: Int
+  init() { let seed = 1; size = seed }
+  func norm() -> Int { let y = abs(size); return y }
+}
+typealias Handler = () -> Void`;
+    const { tree, language } = parse('swift', code);
+    const results = extractSymbolsForChunks(
+      tree,
+      language,
+      [{ startLine: 0, endLine: 6 }],
+      'swift'
+    );
+    tree.delete();
+
+    const byName = new Map(results[0]!.defined_symbols.map((s) => [s.name, s.kind]));
+    expect(Object.fromEntries(byName)).toEqual({
+      Greeter: 'interface',
+      greet: 'method',
+      Point: 'class',
+      size: 'variable',
+      norm: 'function',
+      Handler: 'type',
+    });
+  });
+
+  it('extracts kinds and filters locals for Scala', async () => {
+    const code = `trait Greeter { def greet(): String }
+object Registry {
+  val items = List(1)
+  def find(id: Int): Int = {
+    val local = id + 1
+    local
+  }
+}
+type Handler = Int => Unit`;
+    const { tree, language } = parse('scala', code);
+    const results = extractSymbolsForChunks(
+      tree,
+      language,
+      [{ startLine: 0, endLine: 8 }],
+      'scala'
+    );
+    tree.delete();
+
+    const byName = new Map(results[0]!.defined_symbols.map((s) => [s.name, s.kind]));
+    expect(Object.fromEntries(byName)).toEqual({
+      Greeter: 'interface',
+      greet: 'function',
+      Registry: 'class',
+      items: 'variable',
+      find: 'function',
+      Handler: 'type',
+    });
+  });
+
   it('defined_symbols and defines_symbols stay in sync', async () => {
     const code = 'function greet() {}\nclass MyClass {}';
     const { tree, language } = parse('typescript', code);
@@ -672,3 +788,247 @@ end`;
     expect(r.defines_symbols).toEqual(r.defined_symbols.map((d) => d.name));
   });
 });
+
+describe('extractFileImports', () => {
+  beforeAll(async () => {
+    if (languages.size === 0) await setup();
+  });
+
+  function importsOf(lang: string, code: string) {
+    const { tree } = parse(lang, code);
+    const imports = extractFileImports(tree, lang);
+    tree.delete();
+    return imports;
+  }
+
+  it('extracts TypeScript imports and CommonJS requires', () => {
+    const imports = importsOf(
+      'typescript',
+      `import { charge, refund as undo } from './billing.js';
+import Money from '../money';
+import * as fx from './fx';
+import './side-effect';
+const legacy = require('./legacy');
+const { parse, format: fmt } = require('./codec');`
+    );
+    expect(imports).toEqual([
+      { local: 'charge', imported: 'charge', source: './billing.js' },
+      { local: 'undo', imported: 'refund', source: './billing.js' },
+      { local: 'Money', imported: 'default', source: '../money' },
+      { local: 'fx', imported: '*', source: './fx' },
+      { local: 'legacy', imported: '*', source: './legacy' },
+      { local: 'parse', imported: 'parse', source: './codec' },
+      { local: 'fmt', imported: 'format', source: './codec' },
+    ]);
+  });
+
+  it('extracts Python imports', () => {
+    const imports = importsOf(
+      'python',
+      `import os.path
+import billing.models as bm
+from .charge import Charge, refund as undo
+from ..util import *`
+    );
+    expect(imports).toEqual([
+      { local: 'os', imported: '*', source: 'os.path' },
+      { local: 'bm', imported: '*', source: 'billing.models' },
+      { local: 'Charge', imported: 'Charge', source: '.charge' },
+      { local: 'undo', imported: 'refund', source: '.charge' },
+      { local: '*', imported: '*', source: '..util' },
+    ]);
+  });
+
+  it('extracts Go imports, skipping blank imports', () => {
+    const imports = importsOf(
+      'go',
+      `package main
+import (
+  "fmt"
+  b "github.com/acme/shop/internal/billing"
+  _ "github.com/lib/pq"
+)`
+    );
+    expect(imports).toEqual([
+      { local: 'fmt', imported: '*', source: 'fmt' },
+      { local: 'b', imported: '*', source: 'github.com/acme/shop/internal/billing' },
+    ]);
+  });
+
+  it('extracts Rust use declarations including lists, aliases and globs', () => {
+    const imports = importsOf(
+      'rust',
+      `use crate::billing::charge::Charge;
+use super::money::{Money, Currency as Cur};
+use crate::util::*;`
+    );
+    expect(imports).toEqual([
+      { local: 'Charge', imported: 'Charge', source: 'crate::billing::charge' },
+      { local: 'Money', imported: 'Money', source: 'super::money' },
+      { local: 'Cur', imported: 'Currency', source: 'super::money' },
+      { local: '*', imported: '*', source: 'crate::util' },
+    ]);
+  });
+
+  it('extracts Java imports', () => {
+    const imports = importsOf(
+      'java',
+      `package com.acme.app;
+import com.acme.billing.Charge;
+import com.acme.money.*;`
+    );
+    expect(imports).toEqual([
+      { local: 'Charge', imported: 'Charge', source: 'com.acme.billing' },
+      { local: '*', imported: '*', source: 'com.acme.money' },
+    ]);
+  });
+
+  it('attaches only the imports a chunk uses', () => {
+    const code = `import { charge, refund } from './billing';
+import * as fx from './fx';
+
+export function checkout() {
+  return charge(fx.rate());
+}
+
+export const VERSION = 1;`;
+    const { tree, language } = parse('typescript', code);
+    const results = extractSymbolsForChunks(
+      tree,
+      language,
+      [
+        { startLine: 3, endLine: 5 },
+        { startLine: 7, endLine: 7 },
+      ],
+      'typescript'
+    );
+    tree.delete();
+
+    expect(results[0]!.imports).toEqual([
+      { local: 'charge', imported: 'charge', source: './billing' },
+      { local: 'fx', imported: '*', source: './fx' },
+    ]);
+    expect(results[1]!.imports).toEqual([]);
+  });
+});
+
+describe('heritage', () => {
+  beforeAll(async () => {
+    if (languages.size === 0) await setup();
+  });
+
+  it('attaches supertypes to the header chunk and the method chunks of a type', () => {
+    const code = `class Card extends PaymentMethod implements Chargeable {
+  constructor() { super(); }
+
+  charge() { return 1; }
+}`;
+    const { tree, language } = parse('typescript', code);
+    const results = extractSymbolsForChunks(
+      tree,
+      language,
+      [
+        { startLine: 0, endLine: 1 },
+        { startLine: 3, endLine: 4 },
+      ],
+      'typescript'
+    );
+    tree.delete();
+
+    expect(results[0]!.heritage).toEqual([
+      {
+        type: 'Card',
+        supertype: 'PaymentMethod',
+        relation: 'extends',
+        declared: true,
+        methods: ['constructor'],
+      },
+      {
+        type: 'Card',
+        supertype: 'Chargeable',
+        relation: 'implements',
+        declared: true,
+        methods: ['constructor'],
+      },
+    ]);
+    expect(results[1]!.heritage.map((h) => [h.supertype, h.declared, h.methods])).toEqual([
+      ['PaymentMethod', false, ['charge']],
+      ['Chargeable', false, ['charge']],
+    ]);
+  });
+
+  it('treats a Rust trait impl as implementing the trait for the impl type', () => {
+    const code = `impl Shape for Circle {
+    fn area(&self) -> f64 { 1.0 }
+}`;
+    const { tree, language } = parse('rust', code);
+    const results = extractSymbolsForChunks(tree, language, [{ startLine: 0, endLine: 2 }], 'rust');
+    tree.delete();
+
+    expect(results[0]!.heritage).toEqual([
+      {
+        type: 'Circle',
+        supertype: 'Shape',
+        relation: 'implements',
+        declared: true,
+        methods: ['area'],
+      },
+    ]);
+  });
+
+  it('collects Kotlin members without field names for overrides', () => {
+    const code = `class UserService : BaseService(), Greeter {
+  override fun greet(): String = "hi"
+}`;
+    const { tree, language } = parse('kotlin', code);
+    const results = extractSymbolsForChunks(
+      tree,
+      language,
+      [{ startLine: 0, endLine: 2 }],
+      'kotlin'
+    );
+    tree.delete();
+
+    expect(results[0]!.heritage.map((h) => [h.type, h.supertype, h.relation, h.methods])).toEqual([
+      ['UserService', 'BaseService', 'extends', ['greet']],
+      ['UserService', 'Greeter', 'implements', ['greet']],
+    ]);
+  });
+
+  it('attaches Swift extension conformances to the extended type', () => {
+    const code = `extension Point: Greeter {
+  func greet() -> String { return "" }
+}`;
+    const { tree, language } = parse('swift', code);
+    const results = extractSymbolsForChunks(
+      tree,
+      language,
+      [{ startLine: 0, endLine: 2 }],
+      'swift'
+    );
+    tree.delete();
+
+    expect(results[0]!.heritage).toEqual([
+      {
+        type: 'Point',
+        supertype: 'Greeter',
+        relation: 'implements',
+        declared: true,
+        methods: ['greet'],
+      },
+    ]);
+  });
+
+  it('returns no heritage for chunks outside any subtype', () => {
+    const { tree, language } = parse('python', 'def helper():\n    return 1');
+    const results = extractSymbolsForChunks(
+      tree,
+      language,
+      [{ startLine: 0, endLine: 1 }],
+      'python'
+    );
+    tree.delete();
+
+    expect(results[0]!.heritage).toEqual([]);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import {
+  UNRESTRICTED,
+  access,
+  canAccessChunk,
+  checkGroupWide,
+  checkScope,
+  narrowProjects,
+  type AccessRules,
+} from '../../src/auth/access.js';
+
+const rules: AccessRules = { groups: ['g1'], projects: ['billing'], audiences: null };
+const suffixed = (p: string): string => `${p}-v3`;
+
+describe('access', () => {
+  it('is unrestricted outside a bound request', async () => {
+    expect(access.current()).toBe(UNRESTRICTED);
+    const inside = await access.run(rules, async () => {
+      await Promise.resolve();
+      return access.current();
+    });
+    expect(inside).toBe(rules);
+    expect(access.current()).toBe(UNRESTRICTED);
+  });
+
+  it('checkScope denies foreign groups and projects, and ignores "all"', () => {
+    expect(checkScope('g2', undefined, rules)?.resource).toBe('group');
+    expect(checkScope('g1', 'ledger', rules)?.resource).toBe('project');
+    expect(checkScope('g1', 'all', rules)).toBeNull();
+    expect(checkScope('g1', 'billing', rules)).toBeNull();
+    expect(checkScope('g2', 'ledger', UNRESTRICTED)).toBeNull();
+  });
+
+  it('checkGroupWide also needs every project of the group', () => {
+    expect(checkGroupWide('g1', rules)?.resource).toBe('scope');
+    expect(checkGroupWide('g1', { ...rules, projects: null })).toBeNull();
+    expect(checkGroupWide('g2', { ...rules, projects: null })?.resource).toBe('group');
+  });
+
+  it('canAccessChunk matches the stored project name carried in the id', () => {
+    expect(canAccessChunk('g1//billing-v3//a.ts//1-5//h', suffixed, rules)).toBe(true);
+    expect(canAccessChunk('g1//billing//a.ts//1-5//h', suffixed, rules)).toBe(false);
+    expect(canAccessChunk('g2//billing-v3//a.ts//1-5//h', suffixed, rules)).toBe(false);
+    expect(canAccessChunk('not-a-chunk-id', suffixed, rules)).toBe(false);
+    expect(canAccessChunk('not-a-chunk-id', suffixed, UNRESTRICTED)).toBe(true);
+  });
+
+  it('narrowProjects intersects with the server-wide scope', () => {
+    expect(narrowProjects(null, UNRESTRICTED)).toBeNull();
+    expect(narrowProjects(['billing', 'ledger'], UNRESTRICTED)).toEqual(['billing', 'ledger']);
+    expect(narrowProjects(null, rules)).toEqual(['billing']);
+    expect(narrowProjects(['ledger'], rules)).toEqual([]);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import Database from 'better-sqlite3';
+import { ApiTokenStore, TOKEN_PREFIX, hashToken } from '../../src/auth/token-store.js';
+
+function createTempDir(): string {
+  const tmpDir = path.join(
+    os.tmpdir(),
+    `paparats-auth-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+  );
+  fs.mkdirSync(tmpDir, { recursive: true });
+  return tmpDir;
+}
+
+describe('ApiTokenStore', () => {
+  let tmpDir: string;
+  let dbPath: string;
+  let store: ApiTokenStore;
+
+  beforeEach(() => {
+    tmpDir = createTempDir();
+    dbPath = path.join(tmpDir, 'auth.db');
+    store = new ApiTokenStore(dbPath);
+  });
+
+  afterEach(() => {
+    store.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('issues prefixed tokens and verifies them back to the user', () => {
+    const issued = store.create('alice', { label: 'laptop' }, 1000);
+    expect(issued.token.startsWith(TOKEN_PREFIX)).toBe(true);
+    expect(issued).toMatchObject({ user: 'alice', label: 'laptop', createdAt: 1000 });
+
+    const verified = store.verify(issued.token, 2000);
+    expect(verified).toMatchObject({ id: issued.id, user: 'alice', lastUsedAt: 2000 });
+  });
+
+  it('stores only the hash of the token', () => {
+    const issued = store.create('alice');
+    const db = new Database(dbPath, { readonly: true });
+    const rows = db.prepare('SELECT * FROM api_tokens').all() as Array<Record<string, unknown>>;
+    db.close();
+    expect(rows).toHaveLength(1);
+    expect(rows[0]!['token_hash']).toBe(hashToken(issued.token));
+    expect(JSON.stringify(rows)).not.toContain(issued.token);
+  });
+
+  it('rejects unknown, malformed and revoked tokens', () => {
+    const issued = store.create('alice');
+    expect(store.verify(`${TOKEN_PREFIX}nope`)).toBeNull();
+    expect(store.verify('not-a-token')).toBeNull();
+
+    expect(store.revoke(issued.id)).toBe(true);
+    expect(store.verify(issued.token)).toBeNull();
+    expect(store.revoke(issued.id)).toBe(false);
+    expect(store.revoke('missing')).toBe(false);
+  });
+
+  it('lists active tokens, or all with includeRevoked', () => {
+    const a = store.create('alice', {}, 1);
+    const b = store.create('bob', {}, 2);
+    store.revoke(a.id, 3);
+
+    expect(store.list().map((t) => t.user)).toEqual(['bob']);
+    const all = store.list({ includeRevoked: true });
+    expect(all.map((t) => [t.user, t.revokedAt])).toEqual([
+      ['alice', 3],
+      ['bob', null],
+    ]);
+    expect(all.some((t) => 'token' in t)).toBe(false);
+    expect(store.activeCount()).toBe(1);
+    expect(b.label).toBeNull();
+  });
+
+  it('only rewrites last_used_at once per minute', () => {
+    const issued = store.create('alice', {}, 0);
+    expect(store.verify(issued.token, 10_000)?.lastUsedAt).toBe(10_000);
+    expect(store.verify(issued.token, 20_000)?.lastUsedAt).toBe(10_000);
+    expect(store.verify(issued.token, 80_000)?.lastUsedAt).toBe(80_000);
+  });
+
+  it('stores access rules per token', () => {
+    const scoped = store.create('alice', {
+      groups: ['backend', ' backend '],
+      projects: ['billing'],
+      audiences: [],
+    });
+    const open = store.create('bob');
+    expect(scoped).toMatchObject({ groups: ['backend'], projects: ['billing'], audiences: [] });
+    expect(store.verify(scoped.token)).toMatchObject({
+      groups: ['backend'],
+      projects: ['billing'],
+      audiences: [],
+    });
+    expect(store.verify(open.token)).toMatchObject({
+      groups: null,
+      projects: null,
+      audiences: null,
+    });
+  });
+
+  it('adds the access-rule columns to an older auth.db as unrestricted', () => {
+    store.close();
+    fs.rmSync(dbPath);
+    const db = new Database(dbPath);
+    db.exec(
+      'CREATE TABLE api_tokens (id TEXT PRIMARY KEY, user TEXT NOT NULL, label TEXT, ' +
+        'token_hash TEXT NOT NULL UNIQUE, created_at INTEGER NOT NULL, last_used_at INTEGER, ' +
+        'revoked_at INTEGER)'
+    );
+    db.prepare('INSERT INTO api_tokens (id, user, token_hash, created_at) VALUES (?, ?, ?, ?)').run(
+      'old',
+      'carol',
+      hashToken(`${TOKEN_PREFIX}legacy`),
+      1
+    );
+    db.close();
+
+    store = new ApiTokenStore(dbPath);
+    expect(store.verify(`${TOKEN_PREFIX}legacy`)).toMatchObject({
+      user: 'carol',
+      groups: null,
+      projects: null,
+      audiences: null,
+    });
+  });
+
+  it('rejects an empty user', () => {
+    expect(() => store.create('  ')).toThrow('non-empty');
+  });
+
+  it('persists tokens across reopen', () => {
+    const issued = store.create('alice');
+    store.close();
+    store = new ApiTokenStore(dbPath);
+    expect(store.verify(issued.token)?.user).toBe('alice');
+  });
+});
@@ -0,0 +1,234 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import {
+  branchCondition,
+  branchProjectName,
+  isOnBranch,
+  splitBranchProject,
+} from '../src/branches.js';
+import { Indexer, applyProjectSuffix, stripProjectSuffix } from '../src/indexer.js';
+import { EmbeddingCache, CachedEmbeddingProvider } from '../src/embeddings.js';
+import type { EmbeddingProvider, ProjectConfig } from '../src/types.js';
+
+describe('branch project names', () => {
+  it('splits at the first separator and treats a plain name as the default branch', () => {
+    expect(branchProjectName('billing', 'release/2.x')).toBe('billing@release/2.x');
+    expect(splitBranchProject('billing@release/2.x')).toEqual({
+      project: 'billing',
+      branch: 'release/2.x',
+    });
+    expect(splitBranchProject('billing')).toEqual({ project: 'billing', branch: null });
+    expect(splitBranchProject('@scope')).toEqual({ project: '@scope', branch: null });
+  });
+
+  it('puts the project suffix on the base name', () => {
+    expect(applyProjectSuffix('billing@feat', '-v3')).toBe('billing-v3@feat');
+    expect(stripProjectSuffix('billing-v3@feat', '-v3')).toBe('billing@feat');
+    expect(stripProjectSuffix('billing-v3', '-v3')).toBe('billing');
+    expect(applyProjectSuffix('billing@feat', '')).toBe('billing@feat');
+  });
+
+  it('selects the variant chunks and the default-branch chunks shared with the branch', () => {
+    expect(branchCondition('feat', ['a', 'b'])).toEqual({
+      should: [
+        { key: 'project', match: { any: ['a@feat', 'b@feat'] } },
+        {
+          must: [
+            { key: 'project', match: { any: ['a', 'b'] } },
+            { key: 'branches', match: { value: 'feat' } },
+          ],
+        },
+      ],
+    });
+    expect(branchCondition('feat', null)).toEqual({
+      should: [
+        { key: 'branch', match: { value: 'feat' } },
+        { key: 'branches', match: { value: 'feat' } },
+      ],
+    });
+    expect(isOnBranch({ branch: 'feat' }, 'feat')).toBe(true);
+    expect(isOnBranch({ branches: ['feat', 'x'] }, 'feat')).toBe(true);
+    expect(isOnBranch({ branches: ['x'] }, 'feat')).toBe(false);
+  });
+});
+
+class MockEmbeddingProvider implements EmbeddingProvider {
+  readonly model = 'test-model';
+  readonly dimensions = 4;
+
+  async embed(text: string): Promise<number[]> {
+    return [text.length, 0, 0, 1];
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    return texts.map((t) => [t.length, 0, 0, 1]);
+  }
+}
+
+type Condition = { key: string; match: { value?: unknown; any?: unknown[] } };
+
+/** In-memory Qdrant that understands array payloads and applies setPayload by point id. */
+function createMockQdrant() {
+  const collections = new Map<
+    string,
+    Map<string, { id: string; payload: Record<string, unknown> }>
+  >();
+
+  const matches = (payload: Record<string, unknown>, c: Condition): boolean => {
+    const value = payload[c.key];
+    const wanted = c.match.any ?? [c.match.value];
+    return Array.isArray(value) ? value.some((v) => wanted.includes(v)) : wanted.includes(value);
+  };
+  const matchesFilter = (
+    point: { payload: Record<string, unknown> },
+    filter?: { must?: Condition[] }
+  ): boolean => (filter?.must ?? []).every((c) => matches(point.payload, c));
+
+  const client = {
+    getCollection: vi.fn().mockImplementation((name: string) => {
+      if (!collections.has(name)) throw new Error('Collection not found');
+      return Promise.resolve({ points_count: collections.get(name)!.size, status: 'green' });
+    }),
+    createCollection: vi.fn().mockImplementation((name: string) => {
+      if (!collections.has(name)) collections.set(name, new Map());
+      return Promise.resolve(true);
+    }),
+    createPayloadIndex: vi.fn().mockResolvedValue(true),
+    upsert: vi.fn().mockImplementation((name: string, opts: { points: Array<{ id: string }> }) => {
+      if (!collections.has(name)) collections.set(name, new Map());
+      for (const p of opts.points) collections.get(name)!.set(String(p.id), p as never);
+      return Promise.resolve(true);
+    }),
+    delete: vi
+      .fn()
+      .mockImplementation((name: string, opts: { filter?: { must?: Condition[] } }) => {
+        const points = collections.get(name);
+        for (const [id, point] of points ?? []) {
+          if (matchesFilter(point, opts.filter)) points!.delete(id);
+        }
+        return Promise.resolve(true);
+      }),
+    scroll: vi
+      .fn()
+      .mockImplementation((name: string, opts: { filter?: { must?: Condition[] } }) => {
+        const points = [...(collections.get(name)?.values() ?? [])].filter((p) =>
+          matchesFilter(p, opts.filter)
+        );
+        return Promise.resolve({ points, next_page_offset: null });
+      }),
+    retrieve: vi.fn().mockResolvedValue([]),
+    setPayload: vi
+      .fn()
+      .mockImplementation(
+        (name: string, opts: { points?: string[]; payload: Record<string, unknown> }) => {
+          for (const id of opts.points ?? []) {
+            const point = collections.get(name)?.get(String(id));
+            if (point) point.payload = { ...point.payload, ...opts.payload };
+          }
+          return Promise.resolve(true);
+        }
+      ),
+  };
+
+  const pointsOf = (project: string) =>
+    [...collections.values()].flatMap((points) =>
+      [...points.values()].filter((p) => p.payload['project'] === project)
+    );
+
+  return { client, pointsOf };
+}
+
+function projectConfig(name: string, dir: string): ProjectConfig {
+  return {
+    name,
+    path: dir,
+    group: 'test-group',
+    languages: ['typescript'],
+    patterns: ['**/*.ts'],
+    exclude: [],
+    indexing: {
+      paths: [],
+      exclude: [],
+      respectGitignore: false,
+      extensions: [],
+      chunkSize: 1024,
+      overlap: 128,
+      concurrency: 2,
+      batchSize: 50,
+    },
+    watcher: { enabled: false, debounce: 1000, stabilityThreshold: 1000 },
+    embeddings: { provider: 'llama', model: 'test', dimensions: 4 },
+    metadata: {
+      service: 'app',
+      bounded_context: null,
+      tags: [],
+      directory_tags: {},
+      git: { enabled: false, maxCommitsPerFile: 50, ticketPatterns: [], ownershipMonths: 12 },
+    },
+  };
+}
+
+describe('Indexer branch variants', () => {
+  const A = 'export function alpha() {\n  return 1;\n}\n';
+  const B = 'export function beta() {\n  return 2;\n}\n';
+  let baseDir: string;
+  let branchDir: string;
+  let cacheDir: string;
+  let embeddingProvider: CachedEmbeddingProvider;
+
+  beforeEach(() => {
+    baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'paparats-branch-base-'));
+    branchDir = fs.mkdtempSync(path.join(os.tmpdir(), 'paparats-branch-feat-'));
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'paparats-branch-cache-'));
+    embeddingProvider = new CachedEmbeddingProvider(
+      new MockEmbeddingProvider(),
+      new EmbeddingCache(path.join(cacheDir, 'cache.db'), 100)
+    );
+    for (const dir of [baseDir, branchDir]) {
+      fs.writeFileSync(path.join(dir, 'a.ts'), A);
+      fs.writeFileSync(path.join(dir, 'b.ts'), B);
+    }
+    fs.writeFileSync(path.join(branchDir, 'b.ts'), 'export function beta() {\n  return 3;\n}\n');
+  });
+
+  afterEach(() => {
+    embeddingProvider.close();
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+    fs.rmSync(baseDir, { recursive: true, force: true });
+    fs.rmSync(branchDir, { recursive: true, force: true });
+  });
+
+  it('stores only the files that differ and tags the shared ones on the default branch', async () => {
+    const qdrant = createMockQdrant();
+    const indexer = new Indexer({
+      qdrantUrl: 'http://localhost:6333',
+      embeddingProvider,
+      dimensions: 4,
+      qdrantClient: qdrant.client as never,
+    });
+
+    await indexer.indexProject(projectConfig('app', baseDir));
+    await indexer.indexProject(projectConfig('app@feat', branchDir));
+
+    const own = qdrant.pointsOf('app@feat');
+    expect(own.map((p) => p.payload['file'])).toEqual(['b.ts']);
+    expect(own.every((p) => p.payload['branch'] === 'feat')).toBe(true);
+
+    const shared = (file: string) =>
+      qdrant.pointsOf('app').filter((p) => p.payload['file'] === file);
+    expect(shared('a.ts').every((p) => isOnBranch(p.payload, 'feat'))).toBe(true);
+    expect(shared('b.ts').some((p) => isOnBranch(p.payload, 'feat'))).toBe(false);
+
+    // The branch catches up with the default branch: b.ts is shared too.
+    fs.writeFileSync(path.join(branchDir, 'b.ts'), B);
+    await indexer.indexProject(projectConfig('app@feat', branchDir));
+    expect(qdrant.pointsOf('app@feat')).toEqual([]);
+    expect(shared('b.ts').every((p) => isOnBranch(p.payload, 'feat'))).toBe(true);
+
+    // Dropping the variant unshares everything.
+    await indexer.deleteProjectChunks('test-group', 'app@feat');
+    expect(qdrant.pointsOf('app').some((p) => isOnBranch(p.payload, 'feat'))).toBe(false);
+  });
+});
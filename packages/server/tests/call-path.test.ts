@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import { traceCallPaths, type EdgeReader } from '../src/call-path.js';
+import type { EdgeConfidence, RelationType, SymbolEdge } from '../src/types.js';
+
+const id = (name: string): string => `g//p//src/${name}.ts//1-9//${name}`;
+
+function edge(
+  from: string,
+  to: string,
+  confidence?: EdgeConfidence,
+  relation: RelationType = 'calls'
+): SymbolEdge {
+  return {
+    from_chunk_id: id(from),
+    to_chunk_id: id(to),
+    relation_type: relation,
+    symbol_name: to,
+    ...(confidence ? { confidence } : {}),
+  };
+}
+
+/** In-memory edge store with a fixed hub set. */
+function createStore(edges: SymbolEdge[], hubs: string[] = []): EdgeReader {
+  const hubChunkIds = new Set(hubs.map(id));
+  return {
+    getEdgesFrom: (chunkId: string) => edges.filter((e) => e.from_chunk_id === chunkId),
+    getEdgesTo: (chunkId: string) => edges.filter((e) => e.to_chunk_id === chunkId),
+    getGroupDegreeSnapshot: () => ({
+      inDegreeP95: 5,
+      outDegreeP95: 5,
+      topInDegree: [],
+      topOutDegree: [],
+      hubChunkIds,
+    }),
+  };
+}
+
+const names = (path: Array<{ from: string; to: string }>): string[] =>
+  [path[0]!.from, ...path.map((e) => e.to)].map((c) => c.split('//')[4]!);
+
+describe('traceCallPaths', () => {
+  it('finds the shortest chain and defaults missing confidence to INFERRED', () => {
+    const store = createStore([
+      edge('handler', 'service', 'RESOLVED'),
+      edge('service', 'repo'),
+      edge('repo', 'db', 'EXTRACTED'),
+      // A longer detour that must not be returned.
+      edge('handler', 'audit', 'RESOLVED'),
+      edge('audit', 'queue', 'RESOLVED'),
+      edge('queue', 'worker', 'RESOLVED'),
+      edge('worker', 'db', 'RESOLVED'),
+    ]);
+
+    const result = traceCallPaths(store, [id('handler')], [id('db')]);
+
+    expect(result.hops).toBe(3);
+    expect(result.paths).toHaveLength(1);
+    expect(names(result.paths[0]!)).toEqual(['handler', 'service', 'repo', 'db']);
+    expect(result.paths[0]!.map((e) => e.confidence)).toEqual([
+      'RESOLVED',
+      'INFERRED',
+      'EXTRACTED',
+    ]);
+  });
+
+  it('returns every shortest chain, strongest weakest-link first', () => {
+    const store = createStore([
+      edge('a', 'weak', 'AMBIGUOUS'),
+      edge('weak', 'z', 'RESOLVED'),
+      edge('a', 'strong', 'RESOLVED'),
+      edge('strong', 'z', 'EXTRACTED'),
+    ]);
+
+    const result = traceCallPaths(store, [id('a')], [id('z')]);
+
+    expect(result.paths.map(names)).toEqual([
+      ['a', 'strong', 'z'],
+      ['a', 'weak', 'z'],
+    ]);
+    expect(traceCallPaths(store, [id('a')], [id('z')], { limit: 1 }).paths).toHaveLength(1);
+  });
+
+  it('keeps one edge per chunk pair, the most confident', () => {
+    const store = createStore([
+      edge('a', 'b', 'INFERRED', 'references'),
+      edge('a', 'b', 'RESOLVED', 'calls'),
+      edge('b', 'c', 'RESOLVED'),
+    ]);
+
+    const result = traceCallPaths(store, [id('a')], [id('c')]);
+
+    expect(result.paths).toHaveLength(1);
+    expect(result.paths[0]![0]).toMatchObject({ relation: 'calls', confidence: 'RESOLVED' });
+  });
+
+  it('follows edges in their stored direction only', () => {
+    const store = createStore([edge('a', 'b'), edge('b', 'c')]);
+    expect(traceCallPaths(store, [id('c')], [id('a')]).paths).toEqual([]);
+  });
+
+  it('does not walk through hubs unless asked', () => {
+    const store = createStore(
+      [edge('a', 'logger'), edge('logger', 'z'), edge('a', 'b'), edge('b', 'c'), edge('c', 'z')],
+      ['logger']
+    );
+
+    const skipped = traceCallPaths(store, [id('a')], [id('z')]);
+    expect(skipped.paths.map(names)).toEqual([['a', 'b', 'c', 'z']]);
+    expect(skipped.skippedHubs).toBe(1);
+
+    const withHubs = traceCallPaths(store, [id('a')], [id('z')], { includeHubs: true });
+    expect(withHubs.paths.map(names)).toEqual([['a', 'logger', 'z']]);
+  });
+
+  it('always expands endpoints, even hub ones', () => {
+    const store = createStore([edge('a', 'b'), edge('b', 'z')], ['a', 'z']);
+    expect(traceCallPaths(store, [id('a')], [id('z')]).hops).toBe(2);
+  });
+
+  it('respects max hops, relation filters and readability', () => {
+    const store = createStore([
+      edge('a', 'b'),
+      edge('b', 'c'),
+      edge('c', 'z'),
+      edge('a', 'base', 'RESOLVED', 'extends'),
+      edge('base', 'z'),
+    ]);
+
+    expect(traceCallPaths(store, [id('a')], [id('z')], { maxHops: 1 }).hops).toBeNull();
+    expect(
+      traceCallPaths(store, [id('a')], [id('z')], { relationTypes: ['calls'] }).paths.map(names)
+    ).toEqual([['a', 'b', 'c', 'z']]);
+    expect(
+      traceCallPaths(store, [id('a')], [id('z')], {
+        canRead: (c) => !c.endsWith('//base'),
+      }).hops
+    ).toBe(3);
+  });
+
+  it('starts from several candidate definitions at once', () => {
+    const store = createStore([edge('a2', 'b'), edge('b', 'z')]);
+    const result = traceCallPaths(store, [id('a1'), id('a2')], [id('z')]);
+    expect(result.paths.map(names)).toEqual([['a2', 'b', 'z']]);
+  });
+
+  it('gives up at the visit budget', () => {
+    const edges: SymbolEdge[] = [];
+    for (let i = 0; i < 20; i++) edges.push(edge('a', `n${i}`));
+    const result = traceCallPaths(createStore(edges), [id('a')], [id('z')], { maxVisited: 10 });
+    expect(result.paths).toEqual([]);
+    expect(result.truncated).toBe(true);
+  });
+});
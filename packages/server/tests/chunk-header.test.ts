@@ -0,0 +1,139 @@
+import { describe, it, expect, afterAll, beforeAll } from 'vitest';
+import { Parser, Language } from 'web-tree-sitter';
+import { createRequire } from 'module';
+import { extractSymbolsForChunks } from '../src/ast-symbol-extractor.js';
+import {
+  chunkHeaderFingerprint,
+  DEFAULT_CHUNK_HEADER,
+  embeddingInput,
+  NO_CHUNK_HEADER,
+  renderChunkHeader,
+  unknownChunkHeaderFields,
+} from '../src/chunk-header.js';
+
+const require = createRequire(import.meta.url);
+
+let parser: Parser;
+const languages = new Map<string, Language>();
+
+beforeAll(async () => {
+  await Parser.init();
+  parser = new Parser();
+  for (const lang of ['typescript', 'python', 'rust']) {
+    const wasmPath = require.resolve(`tree-sitter-wasms/out/tree-sitter-${lang}.wasm`);
+    languages.set(lang, await Language.load(wasmPath));
+  }
+});
+
+afterAll(() => {
+  parser?.delete();
+});
+
+/** Enclosing scope of each chunk of `code`, chunked by the given line ranges. */
+function scopesOf(
+  lang: string,
+  code: string,
+  ranges: Array<[number, number]>
+): Array<string[] | undefined> {
+  const language = languages.get(lang)!;
+  parser.setLanguage(language);
+  const tree = parser.parse(code)!;
+  try {
+    return extractSymbolsForChunks(
+      tree,
+      language,
+      ranges.map(([startLine, endLine]) => ({ startLine, endLine })),
+      lang
+    ).map((r) => r.scope);
+  } finally {
+    tree.delete();
+  }
+}
+
+describe('renderChunkHeader', () => {
+  it('fills the default template', () => {
+    expect(
+      renderChunkHeader(DEFAULT_CHUNK_HEADER, {
+        file: 'src/billing.ts',
+        scope: 'Billing',
+        symbol: 'refund',
+        kind: 'method',
+        service: 'payments',
+        bounded_context: 'billing',
+      })
+    ).toBe(
+      'File: src/billing.ts\nScope: Billing\nSymbol: method refund\nService: payments\nBounded context: billing'
+    );
+  });
+
+  it('drops lines with an empty placeholder', () => {
+    expect(
+      renderChunkHeader(DEFAULT_CHUNK_HEADER, {
+        file: 'main.py',
+        symbol: 'run',
+        service: 'cli',
+        bounded_context: null,
+      })
+    ).toBe('File: main.py\nService: cli');
+  });
+
+  it('renders nothing for an empty template', () => {
+    expect(renderChunkHeader('', { file: 'a.ts' })).toBe('');
+    expect(embeddingInput('', 'const a = 1;')).toBe('const a = 1;');
+    expect(embeddingInput('File: a.ts', 'const a = 1;')).toBe('File: a.ts\n\nconst a = 1;');
+  });
+});
+
+describe('unknownChunkHeaderFields', () => {
+  it('lists placeholders that are not fields', () => {
+    expect(unknownChunkHeaderFields(DEFAULT_CHUNK_HEADER)).toEqual([]);
+    expect(unknownChunkHeaderFields('{file} {team} {owner}')).toEqual(['team', 'owner']);
+  });
+});
+
+describe('chunkHeaderFingerprint', () => {
+  it('is stable per template and "none" for no header', () => {
+    expect(chunkHeaderFingerprint(DEFAULT_CHUNK_HEADER)).toBe(
+      chunkHeaderFingerprint(DEFAULT_CHUNK_HEADER)
+    );
+    expect(chunkHeaderFingerprint('{file}')).not.toBe(chunkHeaderFingerprint('{file} {scope}'));
+    expect(chunkHeaderFingerprint('  ')).toBe(NO_CHUNK_HEADER);
+  });
+});
+
+describe('enclosing scope extraction', () => {
+  it('names the namespace and class chain around a method chunk', () => {
+    const code = `namespace Payments {
+  export class Billing {
+    charge() {
+      return 1;
+    }
+
+    refund() {
+      return 0;
+    }
+  }
+}`;
+    expect(
+      scopesOf('typescript', code, [
+        [0, 5],
+        [6, 10],
+      ])
+    ).toEqual([undefined, ['Payments', 'Billing']]);
+  });
+
+  it('reads Python classes and Rust impl blocks', () => {
+    const python = `class Invoice:
+    def total(self):
+        return 0
+`;
+    expect(scopesOf('python', python, [[1, 2]])).toEqual([['Invoice']]);
+
+    const rust = `mod billing {
+    impl Invoice {
+        fn total(&self) -> u32 { 0 }
+    }
+}`;
+    expect(scopesOf('rust', rust, [[2, 2]])).toEqual([['billing', 'Invoice']]);
+  });
+});
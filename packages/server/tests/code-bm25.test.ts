@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  tokenizeCode,
+  vectorLayoutOf,
+  buildCodeDocumentSparseVector,
+  buildCodeQuerySparseVector,
+  EMPTY_CORPUS,
+} from '../src/code-bm25.js';
+import { termToIndex } from '../src/docs/bm25.js';
+
+describe('tokenizeCode', () => {
+  it('keeps camelCase identifiers whole and adds their parts', () => {
+    expect(tokenizeCode('getUserToken()')).toEqual(['getusertoken', 'get', 'user', 'token']);
+  });
+
+  it('splits snake_case and SCREAMING_CASE', () => {
+    expect(tokenizeCode('MAX_RETRIES = 3')).toEqual(['max_retries', 'max', 'retries']);
+  });
+
+  it('handles acronyms inside identifiers', () => {
+    expect(tokenizeCode('parseHTTPResponse')).toEqual([
+      'parsehttpresponse',
+      'parse',
+      'http',
+      'response',
+    ]);
+  });
+
+  it('keeps short words that a prose tokenizer would drop', () => {
+    expect(tokenizeCode('if (x in items) return not_found')).toEqual([
+      'if',
+      'in',
+      'items',
+      'return',
+      'not_found',
+      'not',
+      'found',
+    ]);
+  });
+});
+
+describe('vectorLayoutOf', () => {
+  it('detects named dense + sparse collections', () => {
+    const info = { config: { params: { vectors: { dense: { size: 4, distance: 'Cosine' } } } } };
+    expect(vectorLayoutOf(info)).toBe('named');
+  });
+
+  it('detects collections carrying the doc vector', () => {
+    const dense = { size: 4, distance: 'Cosine' };
+    const info = { config: { params: { vectors: { dense, doc: dense } } } };
+    expect(vectorLayoutOf(info)).toBe('documented');
+  });
+
+  it('treats a single unnamed vector as legacy', () => {
+    const info = { config: { params: { vectors: { size: 4, distance: 'Cosine' } } } };
+    expect(vectorLayoutOf(info)).toBe('legacy');
+  });
+
+  it('treats missing config as legacy', () => {
+    expect(vectorLayoutOf({})).toBe('legacy');
+    expect(vectorLayoutOf(null)).toBe('legacy');
+  });
+});
+
+describe('code sparse vectors', () => {
+  it('index identifier parts so natural-language queries hit them', () => {
+    const doc = buildCodeDocumentSparseVector('function getUserToken() {}', EMPTY_CORPUS);
+    const query = buildCodeQuerySparseVector('user token', EMPTY_CORPUS);
+    for (const idx of query.indices) {
+      expect(doc.indices).toContain(idx);
+    }
+    expect(doc.indices).toContain(termToIndex('getusertoken'));
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import {
+  codeownersPatternToRegExp,
+  loadCodeowners,
+  ownersOf,
+  parseCodeowners,
+} from '../src/codeowners.js';
+
+function matches(pattern: string, file: string): boolean {
+  return codeownersPatternToRegExp(pattern).test(file);
+}
+
+describe('codeownersPatternToRegExp', () => {
+  it('matches unanchored names at any depth', () => {
+    expect(matches('*.js', 'src/app.js')).toBe(true);
+    expect(matches('*.js', 'app.ts')).toBe(false);
+    expect(matches('apps/', 'services/apps/main.go')).toBe(true);
+    expect(matches('apps/', 'apps')).toBe(false);
+  });
+
+  it('anchors patterns with a leading or inner slash', () => {
+    expect(matches('/build/logs/', 'build/logs/today.log')).toBe(true);
+    expect(matches('/build/logs/', 'src/build/logs/today.log')).toBe(false);
+    expect(matches('docs/api', 'docs/api/v1.md')).toBe(true);
+    expect(matches('docs/api', 'src/docs/api/v1.md')).toBe(false);
+  });
+
+  it('keeps `dir/*` to direct children and lets `**` cross directories', () => {
+    expect(matches('docs/*', 'docs/intro.md')).toBe(true);
+    expect(matches('docs/*', 'docs/guides/setup.md')).toBe(false);
+    expect(matches('**/logs', 'deep/nested/logs/a.log')).toBe(true);
+    expect(matches('/src/**/billing.ts', 'src/billing.ts')).toBe(true);
+    expect(matches('/src/**/billing.ts', 'src/a/b/billing.ts')).toBe(true);
+  });
+});
+
+describe('parseCodeowners / ownersOf', () => {
+  const rules = parseCodeowners(`# Default owners
+*       @org/platform
+
+/src/billing/   @org/payments @alice  # money
+*.md            docs@example.com
+/src/billing/generated/
+[Section]
+/src/my\\ file.ts @bob
+`);
+
+  it('skips comments and section headers and unescapes spaces', () => {
+    expect(rules.map((r) => r.pattern)).toEqual([
+      '*',
+      '/src/billing/',
+      '*.md',
+      '/src/billing/generated/',
+      '/src/my file.ts',
+    ]);
+  });
+
+  it('lets the last matching rule win', () => {
+    expect(ownersOf(rules, 'src/billing/refund.ts')).toEqual(['@org/payments', '@alice']);
+    expect(ownersOf(rules, 'src/billing/README.md')).toEqual(['docs@example.com']);
+    expect(ownersOf(rules, 'src/search.ts')).toEqual(['@org/platform']);
+    expect(ownersOf(rules, 'src/my file.ts')).toEqual(['@bob']);
+  });
+
+  it('returns [] for an owner-less rule and null when nothing matches', () => {
+    expect(ownersOf(rules, 'src/billing/generated/api.ts')).toEqual([]);
+    expect(ownersOf(parseCodeowners('/src/ @a'), 'lib/x.ts')).toBeNull();
+  });
+});
+
+describe('loadCodeowners', () => {
+  let tmpDir: string | undefined;
+
+  afterEach(() => {
+    if (tmpDir) fs.rmSync(tmpDir, { recursive: true, force: true });
+    tmpDir = undefined;
+  });
+
+  it('prefers .github/CODEOWNERS and returns null without one', async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'paparats-codeowners-'));
+    expect(await loadCodeowners(tmpDir)).toBeNull();
+
+    fs.writeFileSync(path.join(tmpDir, 'CODEOWNERS'), '* @root\n');
+    fs.mkdirSync(path.join(tmpDir, '.github'));
+    fs.writeFileSync(path.join(tmpDir, '.github', 'CODEOWNERS'), '* @github\n');
+
+    const loaded = await loadCodeowners(tmpDir);
+    expect(loaded?.file).toBe('.github/CODEOWNERS');
+    expect(ownersOf(loaded!.rules, 'a.ts')).toEqual(['@github']);
+  });
+});
@@ -13,6 +13,7 @@ import {
   autoProjectConfig,
   CONFIG_FILE,
 } from '../src/config.js';
+import { DEFAULT_CHUNK_HEADER } from '../src/chunk-header.js';
 
 function createTempDir(): string {
   const tmpDir = path.join(
@@ -302,6 +303,27 @@ injection: !!js/function >
       });
     });
 
+    describe('chunkHeader', () => {
+      it('defaults to the built-in template', () => {
+        const config = resolveProject(projectDir, { group: 'g', language: 'ruby' });
+        expect(config.indexing.chunkHeader).toBe(DEFAULT_CHUNK_HEADER);
+      });
+
+      it('accepts a custom template and an empty one', () => {
+        const custom = { group: 'g', language: 'ruby', indexing: { chunkHeader: '{file}' } };
+        expect(resolveProject(projectDir, custom).indexing.chunkHeader).toBe('{file}');
+        const off = { group: 'g', language: 'ruby', indexing: { chunkHeader: '' } };
+        expect(resolveProject(projectDir, off).indexing.chunkHeader).toBe('');
+      });
+
+      it('rejects unknown placeholders', () => {
+        const raw = { group: 'g', language: 'ruby', indexing: { chunkHeader: 'Team: {team}' } };
+        expect(() => resolveProject(projectDir, raw)).toThrow(
+          'chunkHeader has unknown placeholders: {team}'
+        );
+      });
+    });
+
     describe('embeddings validation', () => {
       it('rejects invalid provider', () => {
         const raw = {
@@ -377,6 +399,15 @@ injection: !!js/function >
       expect(langs).toContain('typescript');
       expect(langs).not.toContain('generic');
     });
+
+    it('includes the API contract languages', () => {
+      expect(getSupportedLanguages()).toEqual(
+        expect.arrayContaining(['protobuf', 'graphql', 'openapi', 'sql'])
+      );
+      expect(getLanguageProfile('openapi').patterns).toContain(
+        '**/{openapi,swagger}*.{yaml,yml,json}'
+      );
+    });
   });
 
   describe('git metadata config', () => {
@@ -389,6 +420,7 @@ injection: !!js/function >
       expect(config.metadata.git.enabled).toBe(true);
       expect(config.metadata.git.maxCommitsPerFile).toBe(50);
       expect(config.metadata.git.ticketPatterns).toEqual([]);
+      expect(config.metadata.git.ownershipMonths).toBe(12);
     });
 
     it('resolves partial git config with defaults', () => {
@@ -435,6 +467,15 @@ injection: !!js/function >
       );
     });
 
+    it('rejects ownershipMonths outside 1..120', () => {
+      for (const ownershipMonths of [0, 121, 1.5]) {
+        const raw = { group: 'g', language: 'ruby', metadata: { git: { ownershipMonths } } };
+        expect(() => resolveProject(projectDir, raw)).toThrow(
+          'metadata.git.ownershipMonths must be between 1 and 120'
+        );
+      }
+    });
+
     it('rejects invalid ticket patterns', () => {
       const raw = {
         group: 'g',
@@ -580,6 +621,43 @@ metadata:
       }
     });
 
+    it('detects php, kotlin, swift and scala from build manifests', () => {
+      const tmpDir = createTempDir();
+      try {
+        fs.writeFileSync(path.join(tmpDir, 'composer.json'), '{}');
+        fs.writeFileSync(path.join(tmpDir, 'build.gradle.kts'), '');
+        fs.writeFileSync(path.join(tmpDir, 'Package.swift'), '');
+        fs.writeFileSync(path.join(tmpDir, 'build.sbt'), '');
+        expect(detectLanguages(tmpDir)).toEqual(['kotlin', 'scala', 'swift', 'php']);
+      } finally {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    });
+
+    it('detects SQL schemas and migrations next to the app language', () => {
+      const tmpDir = createTempDir();
+      try {
+        fs.writeFileSync(path.join(tmpDir, 'Gemfile'), '');
+        fs.mkdirSync(path.join(tmpDir, 'db'));
+        fs.writeFileSync(path.join(tmpDir, 'db', 'structure.sql'), '');
+        expect(detectLanguages(tmpDir)).toEqual(['ruby', 'sql']);
+      } finally {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    });
+
+    it('detects Helm charts and compose files as infrastructure languages', () => {
+      const tmpDir = createTempDir();
+      try {
+        fs.writeFileSync(path.join(tmpDir, 'go.mod'), '');
+        fs.writeFileSync(path.join(tmpDir, 'Chart.yaml'), '');
+        fs.writeFileSync(path.join(tmpDir, 'docker-compose.yml'), '');
+        expect(detectLanguages(tmpDir)).toEqual(['go', 'kubernetes', 'compose']);
+      } finally {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    });
+
     it('detects multiple languages', () => {
       const tmpDir = createTempDir();
       try {
@@ -0,0 +1,494 @@
+import { describe, it, expect } from 'vitest';
+import { chunkContract, isContractLanguage } from '../src/contract-chunker.js';
+import type { ContractChunks } from '../src/contract-chunker.js';
+
+/** `[startLine, endLine, defines, uses]` per chunk. */
+function summarize(result: ContractChunks | null): Array<[number, number, string[], string[]]> {
+  expect(result).not.toBeNull();
+  return result!.chunks.map((c, i) => [
+    c.startLine,
+    c.endLine,
+    result!.symbolResults[i]!.defines_symbols,
+    result!.symbolResults[i]!.uses_symbols,
+  ]);
+}
+
+describe('isContractLanguage', () => {
+  it('recognises the contract languages only', () => {
+    expect(isContractLanguage('protobuf')).toBe(true);
+    expect(isContractLanguage('graphql')).toBe(true);
+    expect(isContractLanguage('openapi')).toBe(true);
+    expect(isContractLanguage('sql')).toBe(true);
+    expect(isContractLanguage('kubernetes')).toBe(true);
+    expect(isContractLanguage('compose')).toBe(true);
+    expect(isContractLanguage('typescript')).toBe(false);
+  });
+});
+
+describe('chunkContract — protobuf', () => {
+  const proto = [
+    'syntax = "proto3";', // 0
+    'package acme.users.v1;', // 1
+    '', // 2
+    '// A user account.', // 3
+    'message User {', // 4
+    '  string id = 1;', // 5
+    '  google.protobuf.Timestamp created_at = 2; // not a { brace', // 6
+    '  map<string, Address> addresses = 3;', // 7
+    '  message Address { string line = 1; }', // 8
+    '}', // 9
+    '', // 10
+    'enum Role { ROLE_UNSPECIFIED = 0; }', // 11
+    '', // 12
+    'service UserService {', // 13
+    '  // Fetch one user.', // 14
+    '  rpc GetUser(GetUserRequest) returns (User);', // 15
+    '  rpc WatchUsers(WatchRequest) returns (stream User) {', // 16
+    '    option (google.api.http) = { get: "/v1/users" };', // 17
+    '  }', // 18
+    '}', // 19
+  ].join('\n');
+
+  it('emits one chunk per message, enum, service and rpc', () => {
+    expect(summarize(chunkContract(proto, 'protobuf', 4096))).toEqual([
+      [0, 1, [], []],
+      [3, 9, ['User', 'Address'], ['Timestamp']],
+      [11, 11, ['Role'], []],
+      [13, 13, ['UserService'], []],
+      [14, 15, ['GetUser'], ['GetUserRequest', 'User']],
+      [16, 19, ['WatchUsers'], ['WatchRequest', 'User']],
+    ]);
+  });
+
+  it('labels definitions with chunk kinds', () => {
+    const result = chunkContract(proto, 'protobuf', 4096)!;
+    expect(result.symbolResults.flatMap((r) => r.defined_symbols)).toEqual([
+      { name: 'User', kind: 'type' },
+      { name: 'Address', kind: 'type' },
+      { name: 'Role', kind: 'enum' },
+      { name: 'UserService', kind: 'interface' },
+      { name: 'GetUser', kind: 'method' },
+      { name: 'WatchUsers', kind: 'method' },
+    ]);
+  });
+
+  it('splits oversized declarations and keeps definitions on the first piece', () => {
+    const fields = Array.from({ length: 40 }, (_, i) => `  Item item_${i} = ${i + 1};`);
+    const big = ['message Cart {', ...fields, '}'].join('\n');
+    const result = chunkContract(big, 'protobuf', 400)!;
+
+    expect(result.chunks.length).toBeGreaterThan(1);
+    expect(result.symbolResults[0]!.defines_symbols).toEqual(['Cart']);
+    expect(result.symbolResults[1]!.defines_symbols).toEqual([]);
+    expect(result.symbolResults.every((r) => r.uses_symbols.includes('Item'))).toBe(true);
+  });
+
+  it('returns null when there is nothing to anchor on', () => {
+    expect(chunkContract('syntax = "proto3";\n', 'protobuf', 4096)).toBeNull();
+    expect(chunkContract('  \n', 'protobuf', 4096)).toBeNull();
+  });
+});
+
+describe('chunkContract — graphql', () => {
+  const sdl = [
+    '"""', // 0
+    'A user.', // 1
+    '"""', // 2
+    'type User implements Node & Entity {', // 3
+    '  id: ID!', // 4
+    '  posts(first: Int = 10): [Post!]!', // 5
+    '}', // 6
+    '', // 7
+    'union SearchResult = User | Post', // 8
+    '', // 9
+    'type Query {', // 10
+    '  "Fetch one user"', // 11
+    '  user(id: ID!): User', // 12
+    '  search(term: String!): [SearchResult!]!', // 13
+    '}', // 14
+  ].join('\n');
+
+  it('chunks types and splits root operation types per field', () => {
+    expect(summarize(chunkContract(sdl, 'graphql', 4096))).toEqual([
+      [0, 6, ['User'], ['Node', 'Entity', 'Post']],
+      [8, 8, ['SearchResult'], ['User', 'Post']],
+      [10, 10, ['Query'], []],
+      [11, 12, ['user'], ['User']],
+      [13, 14, ['search'], ['SearchResult']],
+    ]);
+  });
+
+  it('records implemented interfaces as heritage', () => {
+    const result = chunkContract(sdl, 'graphql', 4096)!;
+    expect(result.symbolResults[0]!.heritage).toEqual([
+      { type: 'User', supertype: 'Node', relation: 'implements', declared: true, methods: [] },
+      { type: 'User', supertype: 'Entity', relation: 'implements', declared: true, methods: [] },
+    ]);
+  });
+
+  it('links operations to root fields, variable types and fragments', () => {
+    const doc = [
+      'query GetUser($id: ID!, $filter: PostFilter) {',
+      '  user(id: $id) {',
+      '    ...UserFields',
+      '    posts(filter: $filter) { title }',
+      '  }',
+      '  me: viewer { id }',
+      '}',
+      '',
+      'fragment UserFields on User { id name }',
+    ].join('\n');
+
+    expect(summarize(chunkContract(doc, 'graphql', 4096))).toEqual([
+      [0, 6, ['GetUser'], ['PostFilter', 'user', 'UserFields', 'viewer']],
+      [8, 8, ['UserFields'], ['User']],
+    ]);
+  });
+
+  it('does not define extended types again', () => {
+    const result = chunkContract('extend type User {\n  age: Int\n}', 'graphql', 4096)!;
+    expect(result.symbolResults[0]!.defines_symbols).toEqual([]);
+    expect(result.symbolResults[0]!.uses_symbols).toEqual([]);
+  });
+});
+
+describe('chunkContract — openapi', () => {
+  const yamlSpec = [
+    'openapi: 3.0.3', // 0
+    'info:', // 1
+    '  title: Users', // 2
+    'paths:', // 3
+    '  /users/{id}:', // 4
+    '    parameters:', // 5
+    '    - name: id', // 6
+    '      in: path', // 7
+    '    get:', // 8
+    '      operationId: getUser', // 9
+    '      responses:', // 10
+    "        '200':", // 11
+    '          content:', // 12
+    '            application/json:', // 13
+    '              schema:', // 14
+    "                $ref: '#/components/schemas/User'", // 15
+    '    # Irreversible.', // 16
+    '    delete:', // 17
+    '      responses:', // 18
+    "        '404':", // 19
+    "          $ref: '#/components/responses/NotFound'", // 20
+    'components:', // 21
+    '  schemas:', // 22
+    '    User:', // 23
+    '      type: object', // 24
+    '      properties:', // 25
+    '        role:', // 26
+    "          $ref: '#/components/schemas/Role'", // 27
+    '    Role:', // 28
+    '      type: string', // 29
+    '  responses:', // 30
+    '    NotFound:', // 31
+    '      description: Not found', // 32
+  ].join('\n');
+
+  it('emits one chunk per path + operation and per component', () => {
+    expect(summarize(chunkContract(yamlSpec, 'openapi', 4096))).toEqual([
+      [0, 3, [], []],
+      [4, 15, ['getUser'], ['User']],
+      [16, 20, [], ['NotFound']],
+      [21, 27, ['User'], ['Role']],
+      [28, 29, ['Role'], []],
+      [30, 32, ['NotFound'], []],
+    ]);
+  });
+
+  it('labels operations as functions and schemas as types', () => {
+    const result = chunkContract(yamlSpec, 'openapi', 4096)!;
+    expect(result.symbolResults.flatMap((r) => r.defined_symbols)).toEqual([
+      { name: 'getUser', kind: 'function' },
+      { name: 'User', kind: 'type' },
+      { name: 'Role', kind: 'type' },
+      { name: 'NotFound', kind: 'constant' },
+    ]);
+  });
+
+  it('reads pretty-printed JSON and Swagger 2 definitions', () => {
+    const spec = JSON.stringify(
+      {
+        swagger: '2.0',
+        paths: {
+          '/pets': {
+            post: {
+              operationId: 'addPet',
+              parameters: [{ in: 'body', schema: { $ref: '#/definitions/Pet' } }],
+            },
+          },
+        },
+        definitions: { Pet: { type: 'object' } },
+      },
+      null,
+      2
+    );
+    const result = chunkContract(spec, 'openapi', 4096)!;
+    const defined = result.symbolResults.map((r) => r.defines_symbols);
+
+    expect(defined).toContainEqual(['addPet']);
+    expect(defined).toContainEqual(['Pet']);
+    const addPet = defined.findIndex((d) => d[0] === 'addPet');
+    expect(result.chunks[addPet]!.content).toContain('"/pets": {');
+    expect(result.symbolResults[addPet]!.uses_symbols).toEqual(['Pet']);
+  });
+
+  it('returns null for YAML that is not an OpenAPI document or is minified', () => {
+    expect(chunkContract('name: x\npaths:\n  /a:\n    get: {}\n', 'openapi', 4096)).toBeNull();
+    expect(chunkContract('{"openapi":"3.0.0","paths":{}}', 'openapi', 4096)).toBeNull();
+  });
+});
+
+describe('chunkContract — sql', () => {
+  const ddl = [
+    '-- Customer invoices.', // 0
+    'CREATE TABLE IF NOT EXISTS billing.invoices (', // 1
+    '  id BIGSERIAL PRIMARY KEY,', // 2
+    '  "customer_id" BIGINT NOT NULL REFERENCES customers(id),', // 3
+    "  status TEXT DEFAULT 'draft; pending',", // 4
+    '  total NUMERIC(12, 2),', // 5
+    '  CONSTRAINT positive_total CHECK (total >= 0)', // 6
+    ');', // 7
+    '', // 8
+    'CREATE INDEX ON invoices (customer_id);', // 9
+    '', // 10
+    'ALTER TABLE invoices ADD COLUMN paid_at TIMESTAMPTZ, ADD CONSTRAINT uq UNIQUE (id);', // 11
+    '', // 12
+    'CREATE OR REPLACE VIEW open_invoices AS', // 13
+    "  SELECT * FROM invoices i JOIN customers c ON c.id = i.customer_id WHERE status <> 'paid';", // 14
+    '', // 15
+    'CREATE FUNCTION touch_invoice() RETURNS trigger AS $$', // 16
+    'BEGIN', // 17
+    '  UPDATE audit_log SET at = now(); RETURN NEW;', // 18
+    'END;', // 19
+    '$$ LANGUAGE plpgsql;', // 20
+    '', // 21
+    'CREATE TRIGGER invoices_touch BEFORE UPDATE ON invoices', // 22
+    '  FOR EACH ROW EXECUTE FUNCTION touch_invoice();', // 23
+    '', // 24
+    "INSERT INTO invoices (status) VALUES ('draft');", // 25
+  ].join('\n');
+
+  it('emits one chunk per statement with tables and qualified columns', () => {
+    expect(summarize(chunkContract(ddl, 'sql', 4096))).toEqual([
+      [
+        0,
+        7,
+        ['invoices', 'invoices.id', 'invoices.customer_id', 'invoices.status', 'invoices.total'],
+        [],
+      ],
+      [9, 9, [], []],
+      [11, 11, ['invoices.paid_at'], []],
+      [13, 14, ['open_invoices'], []],
+      [16, 20, ['touch_invoice'], []],
+      [22, 23, ['invoices_touch'], ['touch_invoice']],
+      [25, 25, [], []],
+    ]);
+  });
+
+  it('records created and used tables', () => {
+    const result = chunkContract(ddl, 'sql', 4096)!;
+    expect(result.symbolResults.map((r) => r.tables)).toEqual([
+      { defines: ['invoices'], uses: ['customers'] },
+      { defines: [], uses: ['invoices'] },
+      { defines: [], uses: ['invoices'] },
+      { defines: ['open_invoices'], uses: ['invoices', 'customers'] },
+      { defines: [], uses: ['audit_log'] },
+      { defines: [], uses: ['invoices'] },
+      { defines: [], uses: ['invoices'] },
+    ]);
+    expect(result.symbolResults[0]!.defined_symbols[0]).toEqual({
+      name: 'invoices',
+      kind: 'table',
+    });
+    expect(result.symbolResults[4]!.defined_symbols[0]).toEqual({
+      name: 'touch_invoice',
+      kind: 'function',
+    });
+  });
+
+  it('splits T-SQL batches on GO', () => {
+    const tsql =
+      'CREATE TABLE [dbo].[Orders] ([Id] INT)\nGO\nCREATE VIEW dbo.Recent AS SELECT Id FROM dbo.Orders\nGO\n';
+    const result = chunkContract(tsql, 'sql', 4096)!;
+    expect(result.symbolResults.map((r) => r.defines_symbols)).toEqual([
+      ['orders', 'orders.id'],
+      ['recent'],
+    ]);
+  });
+
+  it('returns null for files without DDL', () => {
+    expect(chunkContract('SELECT 1;\n', 'sql', 4096)).toBeNull();
+  });
+});
+
+describe('chunkContract — kubernetes', () => {
+  const manifests = [
+    '# API tier', // 0
+    'apiVersion: apps/v1', // 1
+    'kind: Deployment', // 2
+    'metadata:', // 3
+    '  name: api', // 4
+    '  labels: { team: core }', // 5
+    'spec:', // 6
+    '  selector:', // 7
+    '    matchLabels: { tier: web, app: api }', // 8
+    '  template:', // 9
+    '    metadata:', // 10
+    '      labels: { app: api, tier: web, version: v2 }', // 11
+    '    spec:', // 12
+    '      serviceAccountName: api', // 13
+    '      containers:', // 14
+    '        - name: api', // 15
+    '          envFrom:', // 16
+    '            - configMapRef: { name: api-env }', // 17
+    '          env:', // 18
+    '            - name: DB_PASSWORD', // 19
+    '              valueFrom:', // 20
+    '                secretKeyRef: { name: db-creds, key: password }', // 21
+    '      volumes:', // 22
+    '        - name: certs', // 23
+    '          secret: { secretName: tls-certs }', // 24
+    '---', // 25
+    'apiVersion: v1', // 26
+    'kind: Service', // 27
+    'metadata:', // 28
+    '  name: api', // 29
+    'spec:', // 30
+    '  selector: { app: api, tier: web }', // 31
+    '---', // 32
+    'apiVersion: v1', // 33
+    'kind: ConfigMap', // 34
+    'metadata: { name: api-env }', // 35
+    'data: { LOG_LEVEL: info }', // 36
+  ].join('\n');
+
+  it('emits one chunk per object with selector and mount references', () => {
+    expect(summarize(chunkContract(manifests, 'kubernetes', 4096))).toEqual([
+      [
+        0,
+        24,
+        ['Deployment/api', 'selector:app=api,tier=web'],
+        ['ServiceAccount/api', 'ConfigMap/api-env', 'Secret/db-creds', 'Secret/tls-certs'],
+      ],
+      [25, 31, ['Service/api'], ['selector:app=api,tier=web']],
+      [32, 36, ['ConfigMap/api-env'], []],
+    ]);
+  });
+
+  it('keeps Helm template actions in names so charts link internally', () => {
+    const template = [
+      '{{- if .Values.enabled }}', // 0
+      'apiVersion: apps/v1', // 1
+      'kind: Deployment', // 2
+      'metadata:', // 3
+      '  name: {{ include "app.fullname" . }}', // 4
+      'spec:', // 5
+      '  replicas: {{ .Values.replicaCount }}', // 6
+      '  selector:', // 7
+      '    matchLabels:', // 8
+      '      {{- include "app.selectorLabels" . | nindent 6 }}', // 9
+      '  template:', // 10
+      '    spec:', // 11
+      '      containers:', // 12
+      '        - name: app', // 13
+      '          envFrom:', // 14
+      '            - configMapRef:', // 15
+      '                name: {{ include "app.fullname" . }}-env', // 16
+      '{{- end }}', // 17
+      '---', // 18
+      'apiVersion: v1', // 19
+      'kind: Service', // 20
+      'metadata:', // 21
+      '  name: {{ include "app.fullname" . }}', // 22
+      'spec:', // 23
+      '  selector:', // 24
+      '    {{- include "app.selectorLabels" . | nindent 4 }}', // 25
+    ].join('\n');
+    expect(summarize(chunkContract(template, 'kubernetes', 4096))).toEqual([
+      [
+        0,
+        17,
+        [
+          'Deployment/{{ include "app.fullname" . }}',
+          'selector:{{ include "app.selectorLabels" . }}',
+        ],
+        ['ConfigMap/{{ include "app.fullname" . }}-env'],
+      ],
+      [
+        18,
+        25,
+        ['Service/{{ include "app.fullname" . }}'],
+        ['selector:{{ include "app.selectorLabels" . }}'],
+      ],
+    ]);
+  });
+
+  it('falls back to kind and name when a document does not parse', () => {
+    const broken = 'apiVersion: v1\nkind: Secret\nmetadata:\n  name: db-creds\ndata: [oops\n';
+    expect(summarize(chunkContract(broken, 'kubernetes', 4096))).toEqual([
+      [0, 4, ['Secret/db-creds'], []],
+    ]);
+  });
+
+  it('returns null for YAML without Kubernetes objects', () => {
+    expect(
+      chunkContract('replicaCount: 2\nimage: { tag: latest }\n', 'kubernetes', 4096)
+    ).toBeNull();
+  });
+});
+
+describe('chunkContract — compose', () => {
+  const compose = [
+    'x-env: &env', // 0
+    '  LOG_LEVEL: info', // 1
+    'services:', // 2
+    '  web:', // 3
+    '    image: acme/web', // 4
+    '    environment: *env', // 5
+    '    depends_on:', // 6
+    '      db: { condition: service_healthy }', // 7
+    '    networks: [front, back]', // 8
+    '    volumes:', // 9
+    '      - ./static:/srv/static', // 10
+    '      - uploads:/srv/uploads', // 11
+    '    secrets: [api_key]', // 12
+    '  db:', // 13
+    '    image: postgres:16', // 14
+    '    volumes:', // 15
+    '      - type: volume', // 16
+    '        source: pgdata', // 17
+    '        target: /var/lib/postgresql/data', // 18
+    '    networks: { back: {} }', // 19
+    'volumes:', // 20
+    '  uploads:', // 21
+    '  pgdata: {}', // 22
+    'networks:', // 23
+    '  front:', // 24
+    '  back:', // 25
+    'secrets:', // 26
+    '  api_key: { file: ./api_key.txt }', // 27
+  ].join('\n');
+
+  it('emits one chunk per service, volume, network and secret', () => {
+    expect(summarize(chunkContract(compose, 'compose', 4096))).toEqual([
+      [0, 2, [], []],
+      [
+        3,
+        12,
+        ['service.web'],
+        ['service.db', 'volume.uploads', 'network.front', 'network.back', 'secret.api_key'],
+      ],
+      [13, 19, ['service.db'], ['volume.pgdata', 'network.back']],
+      [20, 21, ['volume.uploads'], []],
+      [22, 22, ['volume.pgdata'], []],
+      [23, 24, ['network.front'], []],
+      [25, 25, ['network.back'], []],
+      [26, 27, ['secret.api_key'], []],
+    ]);
+  });
+});
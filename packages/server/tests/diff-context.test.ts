@@ -0,0 +1,267 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { execSync } from 'child_process';
+import {
+  DiffInputError,
+  buildDiffContext,
+  gitDiff,
+  parseUnifiedDiff,
+  readDiff,
+  validateGitRange,
+} from '../src/diff-context.js';
+import type { SymbolEdge } from '../src/types.js';
+
+const DIFF = `diff --git a/src/billing.ts b/src/billing.ts
+index 1111111..2222222 100644
+--- a/src/billing.ts
++++ b/src/billing.ts
+@@ -3,2 +3,3 @@ export function charge() {
+--- old comment
+-  return 1;
++++ new comment
++  return 2;
++  // done
+@@ -20,0 +22,4 @@ export function refund() {
++a
++b
++c
++d
+diff --git a/src/new.ts b/src/new.ts
+new file mode 100644
+index 0000000..3333333
+--- /dev/null
++++ b/src/new.ts
+@@ -0,0 +1,2 @@
++export const x = 1;
++export const y = 2;
+diff --git a/src/old.ts b/src/renamed.ts
+similarity index 100%
+rename from src/old.ts
+rename to src/renamed.ts
+diff --git a/src/gone.ts b/src/gone.ts
+deleted file mode 100644
+index 4444444..0000000
+--- a/src/gone.ts
++++ /dev/null
+@@ -1 +0,0 @@
+-export {};
+`;
+
+describe('parseUnifiedDiff', () => {
+  const files = parseUnifiedDiff(DIFF);
+
+  it('reads every file with its status, renames and pure renames included', () => {
+    expect(files.map((f) => [f.oldFile, f.newFile, f.status])).toEqual([
+      ['src/billing.ts', 'src/billing.ts', 'modified'],
+      [null, 'src/new.ts', 'added'],
+      ['src/old.ts', 'src/renamed.ts', 'renamed'],
+      ['src/gone.ts', null, 'deleted'],
+    ]);
+  });
+
+  it('keeps both sides of each hunk and marks pure insertions by their neighbour line', () => {
+    expect(files[0]!.base).toEqual([
+      { startLine: 3, endLine: 4 },
+      { startLine: 20, endLine: 20 },
+    ]);
+    expect(files[0]!.head).toEqual([
+      { startLine: 3, endLine: 5 },
+      { startLine: 22, endLine: 25 },
+    ]);
+    expect(files[3]!.base).toEqual([{ startLine: 1, endLine: 1 }]);
+  });
+
+  it('does not take hunk content that looks like a header for one', () => {
+    expect(files[0]!.base).toHaveLength(2);
+  });
+
+  it('reads plain diff -u output', () => {
+    const plain = parseUnifiedDiff(`--- a.txt\t2024-01-01
++++ a.txt\t2024-01-02
+@@ -1,3 +1,3 @@
+ one
+-two
++TWO
+ three
+`);
+    expect(plain).toEqual([
+      {
+        oldFile: 'a.txt',
+        newFile: 'a.txt',
+        status: 'modified',
+        base: [{ startLine: 1, endLine: 3 }],
+        head: [{ startLine: 1, endLine: 3 }],
+      },
+    ]);
+  });
+});
+
+describe('validateGitRange', () => {
+  it('accepts revisions and ranges only', () => {
+    expect(validateGitRange('main...feature/x')).toBeNull();
+    expect(validateGitRange('HEAD~3..HEAD')).toBeNull();
+    expect(validateGitRange('abc123')).toBeNull();
+    expect(validateGitRange('--output=/tmp/x')).toMatch(/must not start/);
+    expect(validateGitRange('main; rm -rf /')).toMatch(/revision/);
+    expect(validateGitRange(' ')).toMatch(/empty/);
+  });
+});
+
+describe('gitDiff / readDiff', () => {
+  let tmpDir: string | undefined;
+
+  afterEach(() => {
+    if (tmpDir) fs.rmSync(tmpDir, { recursive: true, force: true });
+    tmpDir = undefined;
+  });
+
+  function git(cmd: string): string {
+    return execSync(`git ${cmd}`, {
+      cwd: tmpDir,
+      encoding: 'utf8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+    }).trim();
+  }
+
+  it('diffs a range and a single commit in a checkout', async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'paparats-diff-'));
+    git('init');
+    git('config user.email "test@test.com"');
+    git('config user.name "Test"');
+    fs.writeFileSync(path.join(tmpDir, 'a.ts'), 'one\ntwo\nthree\n');
+    git('add a.ts');
+    git('commit -m base');
+    fs.writeFileSync(path.join(tmpDir, 'a.ts'), 'one\nTWO\nthree\nfour\n');
+    git('commit -am change');
+
+    const range = parseUnifiedDiff(await gitDiff(tmpDir, 'HEAD~1..HEAD'));
+    expect(range).toHaveLength(1);
+    expect(range[0]!.base).toEqual([
+      { startLine: 2, endLine: 2 },
+      { startLine: 3, endLine: 3 },
+    ]);
+    expect(range[0]!.head).toEqual([
+      { startLine: 2, endLine: 2 },
+      { startLine: 4, endLine: 4 },
+    ]);
+
+    const commit = await readDiff({ range: 'HEAD', projectPath: tmpDir });
+    expect(commit).toEqual(range);
+
+    await expect(gitDiff(tmpDir, 'nope..HEAD')).rejects.toBeInstanceOf(DiffInputError);
+  });
+
+  it('needs a checkout for a range and some input at all', async () => {
+    await expect(readDiff({ range: 'HEAD~1..HEAD', projectPath: '' })).rejects.toThrow(
+      /no checkout/
+    );
+    await expect(readDiff({})).rejects.toThrow(/range or a unified diff/);
+    await expect(readDiff({ diff: 'not a diff' })).rejects.toThrow(/no file changes/);
+  });
+});
+
+describe('buildDiffContext', () => {
+  const id = (file: string, start: number, end: number): string =>
+    `g//app//${file}//${start}-${end}//h${start}`;
+
+  const chunks = [
+    { file: 'src/billing.ts', startLine: 0, endLine: 9, symbol: 'charge' },
+    { file: 'src/billing.ts', startLine: 10, endLine: 30, symbol: 'refund' },
+    { file: 'src/api.ts', startLine: 0, endLine: 20, symbol: 'handler' },
+  ];
+
+  const indexer = {
+    storedProjectName: (p: string) => p,
+    cleanProjectName: (p: string) => p,
+    getAdjacentChunks: async (
+      _group: string,
+      _project: string,
+      file: string,
+      startLine: number,
+      endLine: number
+    ) =>
+      chunks
+        .filter((c) => c.file === file && c.startLine <= endLine && c.endLine >= startLine)
+        .map((c) => ({
+          chunk_id: id(c.file, c.startLine, c.endLine),
+          file: c.file,
+          startLine: c.startLine,
+          endLine: c.endLine,
+          symbol_name: c.symbol,
+          kind: 'function',
+          defines_symbols: [c.symbol],
+        })),
+  };
+
+  const edges: SymbolEdge[] = [
+    {
+      from_chunk_id: id('src/api.ts', 0, 20),
+      to_chunk_id: id('src/billing.ts', 0, 9),
+      relation_type: 'calls',
+      symbol_name: 'charge',
+      confidence: 'RESOLVED',
+    },
+    {
+      from_chunk_id: id('src/billing.ts', 10, 30),
+      to_chunk_id: id('src/billing.ts', 0, 9),
+      relation_type: 'calls',
+      symbol_name: 'charge',
+      confidence: 'RESOLVED',
+    },
+    {
+      from_chunk_id: 'g//secret//x.ts//0-1//h',
+      to_chunk_id: id('src/billing.ts', 0, 9),
+      relation_type: 'calls',
+      symbol_name: 'charge',
+      confidence: 'RESOLVED',
+    },
+  ];
+
+  const metadataStore = {
+    getEdgesTo: (chunkId: string) => edges.filter((e) => e.to_chunk_id === chunkId),
+    getTickets: (chunkId: string) =>
+      chunkId === id('src/billing.ts', 0, 9)
+        ? [{ chunk_id: chunkId, ticket_key: 'PAY-1', source: 'jira' as const }]
+        : [],
+  };
+
+  it('maps base-side hunks to chunks and collects dependents and tickets', async () => {
+    const ctx = await buildDiffContext(
+      { indexer, metadataStore, canReadChunk: (cid) => !cid.includes('secret') },
+      { group: 'g', project: 'app', files: parseUnifiedDiff(DIFF) }
+    );
+
+    // Base lines 3-4 → rows 2-3 (charge); line 20 → row 19 (refund).
+    expect(ctx.chunks.map((c) => c.symbol_name)).toEqual(['charge', 'refund']);
+    expect(ctx.symbols).toEqual(['charge', 'refund']);
+    expect(ctx.unmapped).toEqual(['src/new.ts', 'src/renamed.ts', 'src/gone.ts']);
+    // Only the caller outside the change, and only a readable one.
+    expect(ctx.dependents).toEqual([
+      {
+        chunk_id: id('src/api.ts', 0, 20),
+        project: 'app',
+        file: 'src/api.ts',
+        startLine: 0,
+        endLine: 20,
+        relation: 'calls',
+        symbol: 'charge',
+        target: id('src/billing.ts', 0, 9),
+      },
+    ]);
+    expect(ctx.tickets).toEqual([{ ticket_key: 'PAY-1', source: 'jira', chunks: 1 }]);
+    expect(ctx.arch).toBeNull();
+  });
+
+  it('maps head-side lines when asked', async () => {
+    const ctx = await buildDiffContext(
+      { indexer },
+      { group: 'g', project: 'app', files: parseUnifiedDiff(DIFF), side: 'head' }
+    );
+    // Head lines 22-25 → rows 21-24 (refund); new.ts has no chunks.
+    expect(ctx.chunks.map((c) => c.symbol_name)).toEqual(['charge', 'refund']);
+    expect(ctx.files[1]).toEqual({ file: 'src/new.ts', status: 'added', hunks: 1, chunks: 0 });
+    expect(ctx.dependents).toEqual([]);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, afterAll, beforeAll } from 'vitest';
+import { Parser, Language } from 'web-tree-sitter';
+import { createRequire } from 'module';
+import { extractSymbolsForChunks } from '../src/ast-symbol-extractor.js';
+import { cleanComment, summarizeDocs, MAX_DOC_SUMMARY } from '../src/doc-comments.js';
+
+const require = createRequire(import.meta.url);
+
+let parser: Parser;
+const languages = new Map<string, Language>();
+
+beforeAll(async () => {
+  await Parser.init();
+  parser = new Parser();
+  for (const lang of ['typescript', 'python', 'go', 'rust']) {
+    const wasmPath = require.resolve(`tree-sitter-wasms/out/tree-sitter-${lang}.wasm`);
+    languages.set(lang, await Language.load(wasmPath));
+  }
+});
+
+afterAll(() => {
+  parser?.delete();
+});
+
+/** doc_summary of each chunk of `code`, chunked by the given line ranges. */
+function docsOf(
+  lang: string,
+  code: string,
+  ranges: Array<[number, number]>
+): Array<string | undefined> {
+  const language = languages.get(lang)!;
+  parser.setLanguage(language);
+  const tree = parser.parse(code)!;
+  try {
+    return extractSymbolsForChunks(
+      tree,
+      language,
+      ranges.map(([startLine, endLine]) => ({ startLine, endLine })),
+      lang
+    ).map((r) => r.doc_summary);
+  } finally {
+    tree.delete();
+  }
+}
+
+describe('cleanComment', () => {
+  it('strips JSDoc markers and the leading stars', () => {
+    expect(cleanComment('/**\n * Retry a request.\n *\n * @param n attempts\n */')).toBe(
+      'Retry a request.\n\n@param n attempts'
+    );
+  });
+
+  it('strips line comment markers', () => {
+    expect(cleanComment('/// Parses a header.')).toBe('Parses a header.');
+    expect(cleanComment('# Loads the config.')).toBe('Loads the config.');
+  });
+});
+
+describe('summarizeDocs', () => {
+  it('joins distinct docs and caps the summary', () => {
+    expect(summarizeDocs(['a', 'b', 'a'])).toBe('a\n\nb');
+    const long = summarizeDocs(['x'.repeat(MAX_DOC_SUMMARY * 2)]);
+    expect(long).toHaveLength(MAX_DOC_SUMMARY);
+    expect(long.endsWith('…')).toBe(true);
+  });
+});
+
+describe('doc_summary extraction', () => {
+  it('takes the JSDoc above an exported function and each method', () => {
+    const code = `import { x } from './x';
+
+/** Charges the customer's default card. */
+export async function charge(amount: number) {
+  return x(amount);
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function untouched(a: any) {
+  return a;
+}
+
+class Billing {
+  /**
+   * Refunds a charge in full.
+   */
+  refund() {}
+}`;
+    const [chargeDoc, untouchedDoc, billingDoc] = docsOf('typescript', code, [
+      [2, 6],
+      [7, 11],
+      [12, 17],
+    ]);
+    expect(chargeDoc).toBe("Charges the customer's default card.");
+    expect(untouchedDoc).toBeUndefined();
+    expect(billingDoc).toBe('Refunds a charge in full.');
+  });
+
+  it('ignores a comment separated by a blank line or trailing code', () => {
+    const code = `// Section header
+
+function a() {}
+const b = 1; // trailing note
+function c() {}`;
+    expect(docsOf('typescript', code, [[0, 4]])).toEqual([undefined]);
+  });
+
+  it('reads Python docstrings of functions and classes', () => {
+    const code = `class Invoice:
+    """An issued invoice.
+
+    Immutable once sent.
+    """
+
+    def total(self):
+        """Sum of all line items."""
+        return 0
+`;
+    const [doc] = docsOf('python', code, [[0, 8]]);
+    expect(doc).toBe('An issued invoice.\n\nImmutable once sent.\n\nSum of all line items.');
+  });
+
+  it('reads godoc comments, type specs included', () => {
+    const code = `package billing
+
+// Invoice is a bill sent to a customer.
+type Invoice struct{}
+
+// Total sums the line items.
+func (i Invoice) Total() int { return 0 }`;
+    const [typeDoc, methodDoc] = docsOf('go', code, [
+      [2, 3],
+      [5, 6],
+    ]);
+    expect(typeDoc).toBe('Invoice is a bill sent to a customer.');
+    expect(methodDoc).toBe('Total sums the line items.');
+  });
+
+  it('reads rustdoc across attributes and skips inner docs', () => {
+    const code = `//! Billing module.
+
+/// A customer invoice.
+/// Sent monthly.
+#[derive(Debug)]
+pub struct Invoice {}`;
+    expect(docsOf('rust', code, [[0, 5]])).toEqual(['A customer invoice.\nSent monthly.']);
+  });
+});
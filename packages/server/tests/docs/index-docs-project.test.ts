@@ -49,7 +49,7 @@ function project(dir: string, overrides?: Partial<ProjectConfig>): ProjectConfig
       bounded_context: null,
       tags: [],
       directory_tags: {},
-      git: { enabled: false, maxCommitsPerFile: 50, ticketPatterns: [] },
+      git: { enabled: false, maxCommitsPerFile: 50, ticketPatterns: [], ownershipMonths: 12 },
     },
     ...overrides,
   };
@@ -4,7 +4,7 @@ import path from 'path';
 import os from 'os';
 import { execSync } from 'child_process';
 import { MetadataStore } from '../src/metadata-db.js';
-import { extractGitMetadata } from '../src/git-metadata.js';
+import { extractGitMetadata, tallyContributors } from '../src/git-metadata.js';
 import { toCollectionName } from '../src/indexer.js';
 
 function createTempDir(): string {
@@ -80,6 +80,7 @@ describe('extractGitMetadata', () => {
       project: 'p',
       maxCommitsPerFile: 50,
       ticketPatterns: [],
+      ownershipMonths: 12,
       metadataStore: store,
       qdrantClient: mockQdrantClient as never,
       chunksByFile,
@@ -134,6 +135,7 @@ describe('extractGitMetadata', () => {
       project: 'p',
       maxCommitsPerFile: 50,
       ticketPatterns: [],
+      ownershipMonths: 12,
       metadataStore: store,
       qdrantClient: mockQdrantClient as never,
       chunksByFile,
@@ -163,6 +165,7 @@ describe('extractGitMetadata', () => {
       project: 'p',
       maxCommitsPerFile: 50,
       ticketPatterns: ['TASK_(\\d+)'],
+      ownershipMonths: 12,
       metadataStore: store,
       qdrantClient: mockQdrantClient as never,
       chunksByFile,
@@ -208,6 +211,7 @@ describe('extractGitMetadata', () => {
       project: 'p',
       maxCommitsPerFile: 50,
       ticketPatterns: [],
+      ownershipMonths: 12,
       metadataStore: store,
       qdrantClient: mockQdrantClient as never,
       chunksByFile,
@@ -246,6 +250,7 @@ describe('extractGitMetadata', () => {
       project: 'p',
       maxCommitsPerFile: 50,
       ticketPatterns: [],
+      ownershipMonths: 12,
       metadataStore: store,
       qdrantClient: mockQdrantClient as never,
       chunksByFile,
@@ -290,6 +295,7 @@ describe('extractGitMetadata git cache', () => {
       project: 'p',
       maxCommitsPerFile: 50,
       ticketPatterns: [],
+      ownershipMonths: 12,
       metadataStore: store,
       qdrantClient: mockQdrantClient as never,
       chunksByFile: chunksByFile as never,
@@ -370,6 +376,7 @@ describe('extractGitMetadata git cache', () => {
       project: 'p-v3',
       maxCommitsPerFile: 50,
       ticketPatterns: [],
+      ownershipMonths: 12,
       metadataStore: store,
       qdrantClient: mockQdrantClient as never,
       chunksByFile: new Map([
@@ -429,6 +436,99 @@ describe('extractGitMetadata git cache', () => {
   });
 });
 
+describe('tallyContributors', () => {
+  const blame = [
+    { startLine: 1, endLine: 4, email: 'a@x.com', time: 2000 },
+    { startLine: 5, endLine: 5, email: 'b@x.com', time: 3000 },
+    { startLine: 6, endLine: 9, email: 'a@x.com', time: 1000 },
+  ];
+
+  it('counts lines per author inside the range and the window', () => {
+    expect(tallyContributors(blame, 0)).toEqual([
+      { author_email: 'a@x.com', lines: 8, last_at: new Date(2000_000).toISOString() },
+      { author_email: 'b@x.com', lines: 1, last_at: new Date(3000_000).toISOString() },
+    ]);
+    expect(tallyContributors(blame, 1500, 3, 7)).toEqual([
+      { author_email: 'a@x.com', lines: 2, last_at: new Date(2000_000).toISOString() },
+      { author_email: 'b@x.com', lines: 1, last_at: new Date(3000_000).toISOString() },
+    ]);
+  });
+});
+
+describe('extractGitMetadata ownership', () => {
+  let tmpDir: string;
+  let dbDir: string;
+  let store: MetadataStore;
+
+  beforeEach(() => {
+    tmpDir = createTempDir();
+    dbDir = createTempDir();
+    store = new MetadataStore(path.join(dbDir, 'test-metadata.db'));
+  });
+
+  afterEach(() => {
+    store.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    fs.rmSync(dbDir, { recursive: true, force: true });
+  });
+
+  function commitAs(email: string, date: string, message: string): void {
+    execSync(`git commit -m "${message}"`, {
+      cwd: tmpDir,
+      stdio: 'ignore',
+      env: {
+        ...process.env,
+        GIT_AUTHOR_EMAIL: email,
+        GIT_AUTHOR_DATE: date,
+        GIT_COMMITTER_DATE: date,
+      },
+    });
+  }
+
+  it('stores blame contributors per chunk and per file, within the window', async () => {
+    gitInit(tmpDir);
+    gitAdd(tmpDir, 'src/pay.ts', 'a\nb\nc\nd\n');
+    commitAs('old@x.com', '2015-01-01T00:00:00Z', 'initial');
+    gitAdd(tmpDir, 'src/pay.ts', 'a\nB\nC\nd\n');
+    const recent = new Date(Date.now() - 24 * 3600 * 1000).toISOString();
+    commitAs('new@x.com', recent, 'rework');
+
+    const result = await extractGitMetadata({
+      projectPath: tmpDir,
+      group: 'g',
+      project: 'p',
+      maxCommitsPerFile: 50,
+      ticketPatterns: [],
+      ownershipMonths: 6,
+      metadataStore: store,
+      qdrantClient: { setPayload: vi.fn().mockResolvedValue(undefined) } as never,
+      chunksByFile: new Map([
+        [
+          'src/pay.ts',
+          [
+            { chunk_id: 'g//p//src/pay.ts//1-1//h1', startLine: 1, endLine: 1 },
+            { chunk_id: 'g//p//src/pay.ts//2-4//h2', startLine: 2, endLine: 4 },
+          ],
+        ],
+      ]),
+    });
+
+    // The 2015 author is outside the 6-month window everywhere.
+    expect(store.getChunkContributors('g//p//src/pay.ts//1-1//h1')).toEqual([]);
+    expect(store.getChunkContributors('g//p//src/pay.ts//2-4//h2')).toEqual([
+      expect.objectContaining({ author_email: 'new@x.com', lines: 2 }),
+    ]);
+    expect(store.getContributors('g', 'p', ['src'], 10)).toEqual([
+      expect.objectContaining({ author_email: 'new@x.com', lines: 2 }),
+    ]);
+    expect(result.contributorsStored).toBe(1);
+
+    // Blame is cached alongside the commits for the same HEAD.
+    const head = execSync('git rev-parse HEAD', { cwd: tmpDir, encoding: 'utf8' }).trim();
+    expect(store.getGitFileCache('g', 'p', 'src/pay.ts', head)?.blame).toHaveLength(3);
+  });
+});
+
 describe('extractGitMetadata on non-git directories', () => {
   let tmpDir: string;
   let dbDir: string;
@@ -462,12 +562,18 @@ describe('extractGitMetadata on non-git directories', () => {
       project: 'p',
       maxCommitsPerFile: 50,
       ticketPatterns: [],
+      ownershipMonths: 12,
       metadataStore: store,
       qdrantClient: mockQdrantClient as never,
       chunksByFile,
     });
 
-    expect(result).toEqual({ filesProcessed: 0, commitsStored: 0, ticketsStored: 0 });
+    expect(result).toEqual({
+      filesProcessed: 0,
+      commitsStored: 0,
+      ticketsStored: 0,
+      contributorsStored: 0,
+    });
     // Without the early return each file logs a per-file git failure warning
     expect(warnSpy).not.toHaveBeenCalled();
     expect(mockQdrantClient.setPayload).not.toHaveBeenCalled();
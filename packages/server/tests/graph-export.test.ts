@@ -0,0 +1,191 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildGraph,
+  collectGraphEdges,
+  toDot,
+  toGraphML,
+  toNodeLinkJson,
+  type GraphEdgeReader,
+} from '../src/graph-export.js';
+import type { EdgeConfidence, RelationType, SymbolEdge } from '../src/types.js';
+
+/** `p/file:name` → a chunk id in group g. */
+function id(ref: string): string {
+  const slash = ref.indexOf('/');
+  const [file, name] = ref.slice(slash + 1).split(':') as [string, string];
+  const project = ref.slice(0, slash);
+  return `g//${project}//${file}//1-9//${name}`;
+}
+
+function edge(
+  from: string,
+  to: string,
+  confidence?: EdgeConfidence,
+  relation: RelationType = 'calls'
+): SymbolEdge {
+  return {
+    from_chunk_id: id(from),
+    to_chunk_id: id(to),
+    relation_type: relation,
+    symbol_name: to.split(':')[1]!,
+    ...(confidence ? { confidence } : {}),
+  };
+}
+
+function createStore(edges: SymbolEdge[]): GraphEdgeReader & { prefixes: string[][] } {
+  const prefixes: string[][] = [];
+  return {
+    prefixes,
+    getEdgesInScope: (_group: string, p: string[], limit: number) => {
+      prefixes.push(p);
+      return edges
+        .filter((e) => p.some((x) => e.from_chunk_id.startsWith(x) || e.to_chunk_id.startsWith(x)))
+        .slice(0, limit);
+    },
+    getEdgesFrom: (chunkId: string) => edges.filter((e) => e.from_chunk_id === chunkId),
+    getEdgesTo: (chunkId: string) => edges.filter((e) => e.to_chunk_id === chunkId),
+  };
+}
+
+const graphOf = (edges: SymbolEdge[], level: 'chunk' | 'file' | 'project' = 'chunk') =>
+  buildGraph(edges, {
+    group: 'g',
+    level,
+    inScope: (c) => c.startsWith('g//p//'),
+    cleanProject: (p) => p.replace(/-v3$/, ''),
+  });
+
+describe('collectGraphEdges', () => {
+  const edges = [
+    edge('p/src/a.ts:a', 'p/src/b.ts:b'),
+    edge('p/src/b.ts:b', 'p/lib/c.ts:c'),
+    edge('q/x.ts:x', 'q/y.ts:y'),
+  ];
+
+  it('scopes by group, project and path prefixes', () => {
+    const store = createStore(edges);
+
+    expect(collectGraphEdges(store, 'g', {}, 10).edges).toHaveLength(3);
+    expect(collectGraphEdges(store, 'g', { project: 'p' }, 10).edges).toHaveLength(2);
+    const sub = collectGraphEdges(store, 'g', { project: 'p', path: './lib/' }, 10);
+    expect(sub.edges).toHaveLength(1);
+    expect(store.prefixes.at(-1)).toEqual(['g//p//lib//', 'g//p//lib/']);
+    expect(sub.inScope(id('p/lib/c.ts:c'))).toBe(true);
+    expect(sub.inScope(id('p/src/b.ts:b'))).toBe(false);
+  });
+
+  it('flags truncation when the scope has more edges than the limit', () => {
+    const result = collectGraphEdges(createStore(edges), 'g', {}, 2);
+    expect(result.edges).toHaveLength(2);
+    expect(result.truncated).toBe(true);
+  });
+
+  it('walks a chunk neighbourhood in both directions up to depth', () => {
+    const store = createStore(edges);
+    const one = collectGraphEdges(store, 'g', { chunkId: id('p/src/b.ts:b') }, 10);
+    expect(one.edges).toHaveLength(2);
+
+    const fromA = collectGraphEdges(store, 'g', { chunkId: id('p/src/a.ts:a') }, 10);
+    expect(fromA.edges).toHaveLength(1);
+    const deeper = collectGraphEdges(store, 'g', { chunkId: id('p/src/a.ts:a'), depth: 2 }, 10);
+    expect(deeper.edges).toHaveLength(2);
+  });
+});
+
+describe('buildGraph', () => {
+  it('keeps chunk-level nodes with line ranges and marks out-of-scope ends', () => {
+    const graph = graphOf([edge('p/src/a.ts:a', 'q-v3/lib.ts:l', 'RESOLVED')]);
+
+    expect(graph.nodes).toEqual([
+      expect.objectContaining({
+        id: id('p/src/a.ts:a'),
+        project: 'p',
+        file: 'src/a.ts',
+        startLine: 1,
+        endLine: 9,
+        external: false,
+      }),
+      expect.objectContaining({ project: 'q', external: true }),
+    ]);
+    expect(graph.links).toEqual([
+      {
+        source: id('p/src/a.ts:a'),
+        target: id('q-v3/lib.ts:l'),
+        weight: 1,
+        relations: ['calls'],
+        symbols: ['l'],
+        confidence: 'RESOLVED',
+      },
+    ]);
+  });
+
+  it('collapses to files, merging parallel edges and dropping self-loops', () => {
+    const graph = graphOf(
+      [
+        edge('p/a.ts:one', 'p/b.ts:x', 'AMBIGUOUS'),
+        edge('p/a.ts:two', 'p/b.ts:y', 'EXTRACTED', 'references'),
+        edge('p/a.ts:one', 'p/a.ts:two'),
+      ],
+      'file'
+    );
+
+    expect(graph.nodes.map((n) => n.id)).toEqual(['p//a.ts', 'p//b.ts']);
+    expect(graph.nodes[0]).toMatchObject({ file: 'a.ts', startLine: null });
+    expect(graph.links).toEqual([
+      {
+        source: 'p//a.ts',
+        target: 'p//b.ts',
+        weight: 2,
+        relations: ['calls', 'references'],
+        symbols: ['x', 'y'],
+        confidence: 'EXTRACTED',
+      },
+    ]);
+  });
+
+  it('collapses to projects with clean names', () => {
+    const graph = graphOf(
+      [
+        edge('p/a.ts:a', 'q-v3/b.ts:b'),
+        edge('p/c.ts:c', 'q-v3/d.ts:d'),
+        edge('p/a.ts:a', 'p/c.ts:c'),
+      ],
+      'project'
+    );
+
+    expect(graph.nodes.map((n) => [n.id, n.file, n.external])).toEqual([
+      ['p', null, false],
+      ['q', null, true],
+    ]);
+    expect(graph.links).toEqual([expect.objectContaining({ source: 'p', target: 'q', weight: 2 })]);
+  });
+});
+
+describe('renderers', () => {
+  const graph = graphOf([edge('p/a&b.ts:a', 'q/"c".ts:c')], 'file');
+
+  it('emits a networkx-style node-link document', () => {
+    const doc = toNodeLinkJson(graph);
+    expect(doc).toMatchObject({
+      directed: true,
+      multigraph: false,
+      graph: { group: 'g', level: 'file', truncated: false },
+    });
+    expect(doc.links).toHaveLength(1);
+  });
+
+  it('escapes GraphML attributes and omits null data', () => {
+    const xml = toGraphML(graph);
+    expect(xml).toContain('<node id="p//a&amp;b.ts">');
+    expect(xml).toContain('<edge source="p//a&amp;b.ts" target="q//&quot;c&quot;.ts">');
+    expect(xml).toContain('<data key="external">true</data>');
+    expect(xml).not.toContain('key="startLine">');
+    expect(xml.trimEnd().endsWith('</graphml>')).toBe(true);
+  });
+
+  it('quotes DOT ids and dashes external nodes', () => {
+    const dot = toDot(graph);
+    expect(dot).toContain('"q//\\"c\\".ts" [label="q/\\"c\\".ts", style=dashed];');
+    expect(dot).toContain('"p//a&b.ts" -> "q//\\"c\\".ts" [label="calls", weight=1];');
+  });
+});
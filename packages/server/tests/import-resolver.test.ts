@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import { buildFileIndex, resolveImport } from '../src/import-resolver.js';
+
+const index = buildFileIndex([
+  'src/billing/charge.ts',
+  'src/billing/index.ts',
+  'src/money.ts',
+  'app/models/__init__.py',
+  'app/models/invoice.py',
+  'app/services/billing.py',
+  'internal/billing/charge.go',
+  'internal/billing/charge_test.go',
+  'internal/billing/refund.go',
+  'crates/shop/src/lib.rs',
+  'crates/shop/src/billing/mod.rs',
+  'crates/shop/src/billing/charge.rs',
+  'crates/shop/src/money.rs',
+  'src/main/java/com/acme/billing/Charge.java',
+  'src/main/java/com/acme/billing/Refund.java',
+]);
+
+describe('resolveImport', () => {
+  it('resolves relative TS/JS specifiers, including `.js` suffixes and index files', () => {
+    const from = 'src/checkout.ts';
+    expect(
+      resolveImport(from, { local: 'c', imported: 'c', source: './billing/charge.js' }, index)
+    ).toEqual(['src/billing/charge.ts']);
+    expect(resolveImport(from, { local: 'b', imported: '*', source: './billing' }, index)).toEqual([
+      'src/billing/index.ts',
+    ]);
+    expect(
+      resolveImport(
+        'src/billing/charge.ts',
+        { local: 'M', imported: 'default', source: '../money' },
+        index
+      )
+    ).toEqual(['src/money.ts']);
+  });
+
+  it('leaves package imports unresolved', () => {
+    expect(resolveImport('src/a.ts', { local: 'z', imported: 'z', source: 'zod' }, index)).toEqual(
+      []
+    );
+    expect(
+      resolveImport(
+        'internal/billing/charge.go',
+        { local: 'fmt', imported: '*', source: 'fmt' },
+        index
+      )
+    ).toEqual([]);
+    expect(
+      resolveImport('crates/shop/src/lib.rs', { local: 'io', imported: 'io', source: 'std' }, index)
+    ).toEqual([]);
+  });
+
+  it('resolves relative and absolute Python imports', () => {
+    expect(
+      resolveImport(
+        'app/services/billing.py',
+        { local: 'I', imported: 'I', source: '..models.invoice' },
+        index
+      )
+    ).toEqual(['app/models/invoice.py']);
+    expect(
+      resolveImport(
+        'app/services/billing.py',
+        { local: 'm', imported: '*', source: 'app.models' },
+        index
+      )
+    ).toEqual(['app/models/__init__.py']);
+    expect(
+      resolveImport(
+        'app/services/billing.py',
+        { local: 'I', imported: 'I', source: 'models.invoice' },
+        index
+      )
+    ).toEqual(['app/models/invoice.py']);
+  });
+
+  it('resolves Go imports to the package directory without tests', () => {
+    expect(
+      resolveImport(
+        'cmd/main.go',
+        { local: 'billing', imported: '*', source: 'github.com/acme/shop/internal/billing' },
+        index
+      )
+    ).toEqual(['internal/billing/charge.go', 'internal/billing/refund.go']);
+  });
+
+  it('resolves Rust crate:: and super:: paths from the crate root', () => {
+    expect(
+      resolveImport(
+        'crates/shop/src/lib.rs',
+        { local: 'C', imported: 'C', source: 'crate::billing::charge' },
+        index
+      )
+    ).toEqual(['crates/shop/src/billing/charge.rs']);
+    expect(
+      resolveImport(
+        'crates/shop/src/billing/charge.rs',
+        { local: 'M', imported: 'M', source: 'super::money' },
+        index
+      )
+    ).toEqual([]);
+    expect(
+      resolveImport(
+        'crates/shop/src/billing/mod.rs',
+        { local: 'M', imported: 'M', source: 'super::money' },
+        index
+      )
+    ).toEqual(['crates/shop/src/money.rs']);
+    expect(
+      resolveImport(
+        'crates/shop/src/lib.rs',
+        { local: '*', imported: '*', source: 'crate::billing' },
+        index
+      )
+    ).toEqual(['crates/shop/src/billing/mod.rs']);
+  });
+
+  it('resolves Java class and wildcard imports', () => {
+    const from = 'src/main/java/com/acme/app/App.java';
+    expect(
+      resolveImport(
+        from,
+        { local: 'Charge', imported: 'Charge', source: 'com.acme.billing' },
+        index
+      )
+    ).toEqual(['src/main/java/com/acme/billing/Charge.java']);
+    expect(
+      resolveImport(from, { local: '*', imported: '*', source: 'com.acme.billing' }, index)
+    ).toEqual([
+      'src/main/java/com/acme/billing/Charge.java',
+      'src/main/java/com/acme/billing/Refund.java',
+    ]);
+  });
+});
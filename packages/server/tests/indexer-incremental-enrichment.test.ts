@@ -121,7 +121,7 @@ function createProjectConfig(projectDir: string): ProjectConfig {
       bounded_context: null,
       tags: [],
       directory_tags: {},
-      git: { enabled: true, maxCommitsPerFile: 50, ticketPatterns: [] },
+      git: { enabled: true, maxCommitsPerFile: 50, ticketPatterns: [], ownershipMonths: 12 },
     },
   };
 }
@@ -130,13 +130,14 @@ function git(dir: string, cmd: string): void {
   execSync(`git ${cmd}`, { cwd: dir, stdio: 'ignore' });
 }
 
-/** Extract the chunk_id filter values from recorded setPayload calls */
+/** Extract the chunk_id filter values from recorded setPayload calls (the
+ *  metadata sentinel's chunk header record is set by point id, not filter) */
 function setPayloadChunkIds(client: ReturnType<typeof createMockQdrant>['client']): string[] {
-  return client.setPayload.mock.calls.map((call) => {
+  return client.setPayload.mock.calls.flatMap((call) => {
     const opts = call[1] as {
-      filter: { must: Array<{ key: string; match: { value: string } }> };
+      filter?: { must: Array<{ key: string; match: { value: string } }> };
     };
-    return opts.filter.must.find((m) => m.key === 'chunk_id')!.match.value;
+    return opts.filter ? [opts.filter.must.find((m) => m.key === 'chunk_id')!.match.value] : [];
   });
 }
 
@@ -213,4 +214,75 @@ describe('indexProject incremental git enrichment', () => {
     expect(secondIds.some((id) => id.includes('//src/b.ts//'))).toBe(true);
     expect(secondIds.some((id) => id.includes('//src/a.ts//'))).toBe(false);
   });
+
+  it('re-maps CODEOWNERS for unchanged files and records blame contributors', async () => {
+    const indexer = new Indexer({
+      qdrantUrl: 'http://localhost:6333',
+      embeddingProvider,
+      dimensions: 4,
+      qdrantClient: mockQdrant.client as never,
+      metadataStore,
+    });
+    const project = createProjectConfig(projectDir);
+    fs.writeFileSync(path.join(projectDir, 'CODEOWNERS'), '* @org/core\n/src/b.ts @bob\n');
+
+    await indexer.indexProject(project);
+    expect(metadataStore.getCodeOwners('test-group', 'test-project', 'src/a.ts')).toEqual([
+      '@org/core',
+    ]);
+    expect(metadataStore.getCodeOwners('test-group', 'test-project', 'src/b.ts')).toEqual(['@bob']);
+    expect(metadataStore.getContributors('test-group', 'test-project', ['src/a.ts'], 5)).toEqual([
+      expect.objectContaining({ author_email: 'test@test.com', lines: 5 }),
+    ]);
+
+    // No source file changed — the new rules still apply on the next run.
+    fs.writeFileSync(path.join(projectDir, 'CODEOWNERS'), '/src/ @org/billing\n');
+    await indexer.indexProject(project);
+    expect(metadataStore.getCodeOwners('test-group', 'test-project', 'src/a.ts')).toEqual([
+      '@org/billing',
+    ]);
+  });
+
+  it('applies a diff without walking the project', async () => {
+    const indexer = new Indexer({
+      qdrantUrl: 'http://localhost:6333',
+      embeddingProvider,
+      dimensions: 4,
+      qdrantClient: mockQdrant.client as never,
+      metadataStore,
+    });
+    const project = createProjectConfig(projectDir);
+    await indexer.indexProject(project);
+
+    fs.rmSync(path.join(projectDir, 'src', 'a.ts'));
+    fs.writeFileSync(
+      path.join(projectDir, 'src', 'b.ts'),
+      'export function beta() {\n  return 6;\n}\n'
+    );
+    fs.writeFileSync(
+      path.join(projectDir, 'src', 'c.ts'),
+      'export function gamma() {\n  return 7;\n}\n'
+    );
+    fs.writeFileSync(path.join(projectDir, 'notes.txt'), 'not indexed\n');
+    git(projectDir, 'add -A');
+    git(projectDir, 'commit -m "rework"');
+    mockQdrant.client.setPayload.mockClear();
+
+    const chunks = await indexer.indexChangedFiles(project, {
+      changed: ['src/b.ts', 'src/c.ts', 'notes.txt'],
+      deleted: ['src/a.ts'],
+    });
+    expect(chunks).toBeGreaterThan(0);
+
+    // Sentinel points (chunk header record) carry no file.
+    const files = Array.from(mockQdrant.collections.values())
+      .flatMap((points) => Array.from(points.values()))
+      .flatMap((p) => (p as { payload: { file?: string } }).payload.file ?? []);
+    expect([...new Set(files)].sort()).toEqual(['src/b.ts', 'src/c.ts']);
+
+    // Git enrichment covers only the files in the diff.
+    const ids = setPayloadChunkIds(mockQdrant.client);
+    expect(ids.some((id) => id.includes('//src/c.ts//'))).toBe(true);
+    expect(ids.some((id) => id.includes('//src/a.ts//'))).toBe(false);
+  });
 });
@@ -7,6 +7,9 @@ import { toArchCollectionName } from '../src/arch/collection.js';
 import { toDocsCollectionName } from '../src/docs/collection.js';
 import { toTermsCollectionName } from '../src/terminology/collection.js';
 import { EmbeddingCache, CachedEmbeddingProvider } from '../src/embeddings.js';
+import { DocsIdfStore } from '../src/docs/idf-store.js';
+import { createTreeSitterManager } from '../src/tree-sitter-parser.js';
+import { chunkHeaderFingerprint, NO_CHUNK_HEADER } from '../src/chunk-header.js';
 import type { EmbeddingProvider, ProjectConfig } from '../src/types.js';
 
 function createTempDir(): string {
@@ -35,6 +38,8 @@ class MockEmbeddingProvider implements EmbeddingProvider {
 /** Mock Qdrant - stores points in memory */
 function createMockQdrant() {
   const collections = new Map<string, Map<string, unknown>>();
+  /** Vector config per collection, as passed to createCollection. */
+  const vectorConfigs = new Map<string, unknown>();
   const upsertedPoints: { group: string; points: unknown[] }[] = [];
 
   const client = {
@@ -46,13 +51,17 @@ function createMockQdrant() {
       return Promise.resolve({
         points_count: points.size,
         status: 'green',
+        ...(vectorConfigs.has(name)
+          ? { config: { params: { vectors: vectorConfigs.get(name) } } }
+          : {}),
       });
     }),
 
-    createCollection: vi.fn().mockImplementation((name: string, _opts?: unknown) => {
+    createCollection: vi.fn().mockImplementation((name: string, opts?: { vectors?: unknown }) => {
       if (!collections.has(name)) {
         collections.set(name, new Map());
       }
+      if (opts?.vectors) vectorConfigs.set(name, opts.vectors);
       return Promise.resolve(true);
     }),
 
@@ -117,6 +126,7 @@ function createMockQdrant() {
 
     deleteCollection: vi.fn().mockImplementation((name: string) => {
       collections.delete(name);
+      vectorConfigs.delete(name);
       return Promise.resolve(true);
     }),
 
@@ -132,6 +142,28 @@ function createMockQdrant() {
       const out = opts.ids.map((id) => points.get(String(id))).filter(Boolean);
       return Promise.resolve(out);
     }),
+
+    setPayload: vi
+      .fn()
+      .mockImplementation(
+        (
+          groupName: string,
+          opts: { points: string[]; payload: Record<string, unknown>; key?: string }
+        ) => {
+          for (const id of opts.points) {
+            const point = collections.get(groupName)?.get(String(id)) as
+              { payload: Record<string, unknown> } | undefined;
+            if (!point) continue;
+            if (opts.key) {
+              const nested = (point.payload[opts.key] ?? {}) as Record<string, unknown>;
+              point.payload[opts.key] = { ...nested, ...opts.payload };
+            } else {
+              Object.assign(point.payload, opts.payload);
+            }
+          }
+          return Promise.resolve(true);
+        }
+      ),
   };
 
   return { client, upsertedPoints, collections };
@@ -165,7 +197,7 @@ function createProjectConfig(
       bounded_context: null,
       tags: [],
       directory_tags: {},
-      git: { enabled: true, maxCommitsPerFile: 50, ticketPatterns: [] },
+      git: { enabled: true, maxCommitsPerFile: 50, ticketPatterns: [], ownershipMonths: 12 },
     },
     ...overrides,
   };
@@ -237,7 +269,8 @@ describe('Indexer', () => {
     await indexer.ensureCollection('new-group');
 
     expect(mockQdrant.client.createCollection).toHaveBeenCalledWith(toCollectionName('new-group'), {
-      vectors: { size: 4, distance: 'Cosine' },
+      vectors: { dense: { size: 4, distance: 'Cosine' }, doc: { size: 4, distance: 'Cosine' } },
+      sparse_vectors: { text: {} },
     });
     expect(mockQdrant.client.createPayloadIndex).toHaveBeenCalledWith(
       toCollectionName('new-group'),
@@ -345,15 +378,236 @@ describe('Indexer', () => {
 
     const points = mockQdrant.upsertedPoints.flatMap((u) => u.points) as {
       id: string;
-      vector: number[];
+      vector: { dense: number[]; text?: { indices: number[]; values: number[] } };
       payload: { file: string; project: string; content: string };
     }[];
     expect(points[0]!.payload.file).toBe('src/foo.ts');
     expect(points[0]!.payload.project).toBe('test-project');
-    expect(points[0]!.vector).toHaveLength(4);
+    expect(points[0]!.vector.dense).toHaveLength(4);
+    expect(points[0]!.vector.text?.indices.length).toBeGreaterThan(0);
     expect(points[0]!.payload.content).toBeDefined();
   });
 
+  it('indexFile chunks .proto files per declaration with defines_symbols', async () => {
+    const protoPath = path.join(projectDir, 'proto', 'users.proto');
+    fs.mkdirSync(path.dirname(protoPath), { recursive: true });
+    fs.writeFileSync(
+      protoPath,
+      [
+        'syntax = "proto3";',
+        '',
+        'message GetUserRequest {',
+        '  string id = 1;',
+        '}',
+        '',
+        'service UserService {',
+        '  rpc GetUser(GetUserRequest) returns (User);',
+        '}',
+      ].join('\n')
+    );
+
+    const indexer = new Indexer({
+      qdrantUrl: 'http://localhost:6333',
+      embeddingProvider,
+      dimensions: 4,
+      qdrantClient: mockQdrant.client as never,
+    });
+
+    const project = createProjectConfig(projectDir);
+    await indexer.indexFile('test-group', project, protoPath);
+
+    const payloads = mockQdrant.upsertedPoints
+      .flatMap((u) => u.points)
+      .map((p) => (p as { payload: Record<string, unknown> }).payload);
+    expect(payloads.map((p) => p['language'])).toEqual(Array(4).fill('protobuf'));
+    expect(payloads.map((p) => p['defines_symbols'])).toEqual([
+      [],
+      ['GetUserRequest'],
+      ['UserService'],
+      ['GetUser'],
+    ]);
+    expect(payloads[3]!['kind']).toBe('method');
+    expect(payloads[3]!['uses_symbols']).toEqual(['GetUserRequest', 'User']);
+  });
+
+  it('indexFile records created and used tables for SQL and code', async () => {
+    const sqlPath = path.join(projectDir, 'db', 'schema.sql');
+    const tsPath = path.join(projectDir, 'src', 'invoices.ts');
+    fs.mkdirSync(path.dirname(sqlPath), { recursive: true });
+    fs.mkdirSync(path.dirname(tsPath), { recursive: true });
+    fs.writeFileSync(sqlPath, 'CREATE TABLE invoices (\n  id BIGINT PRIMARY KEY\n);\n');
+    fs.writeFileSync(
+      tsPath,
+      'export const openInvoices = (db: Db) =>\n  db.query(`SELECT * FROM invoices WHERE paid_at IS NULL`);\n'
+    );
+
+    const indexer = new Indexer({
+      qdrantUrl: 'http://localhost:6333',
+      embeddingProvider,
+      dimensions: 4,
+      qdrantClient: mockQdrant.client as never,
+    });
+
+    const project = createProjectConfig(projectDir);
+    await indexer.indexFile('test-group', project, sqlPath);
+    await indexer.indexFile('test-group', project, tsPath);
+
+    const payloads = mockQdrant.upsertedPoints
+      .flatMap((u) => u.points)
+      .map((p) => (p as { payload: Record<string, unknown> }).payload);
+    const [sql, ts] = [payloads[0]!, payloads[payloads.length - 1]!];
+    expect(sql['language']).toBe('sql');
+    expect(sql['kind']).toBe('table');
+    expect(sql['defines_symbols']).toEqual(['invoices', 'invoices.id']);
+    expect(sql['defines_tables']).toEqual(['invoices']);
+    expect(ts['defines_tables']).toEqual([]);
+    expect(ts['uses_tables']).toEqual(['invoices']);
+  });
+
+  it('indexFile chunks notebooks per cell in the kernel language, outputs dropped', async () => {
+    const nbPath = path.join(projectDir, 'notebooks', 'explore.ipynb');
+    fs.mkdirSync(path.dirname(nbPath), { recursive: true });
+    fs.writeFileSync(
+      nbPath,
+      JSON.stringify({
+        nbformat: 4,
+        metadata: { kernelspec: { name: 'python3', language: 'python' } },
+        cells: [
+          { cell_type: 'markdown', source: ['# Revenue\n', 'Monthly totals.'] },
+          {
+            cell_type: 'code',
+            source: ['%matplotlib inline\n', 'def monthly_total(rows):\n', '    return sum(rows)'],
+            outputs: [{ output_type: 'display_data', data: { 'image/png': 'iVBOR'.repeat(4000) } }],
+          },
+        ],
+      })
+    );
+
+    const treeSitter = await createTreeSitterManager();
+    try {
+      const indexer = new Indexer({
+        qdrantUrl: 'http://localhost:6333',
+        embeddingProvider,
+        dimensions: 4,
+        qdrantClient: mockQdrant.client as never,
+        treeSitter,
+      });
+      await indexer.indexFile('test-group', createProjectConfig(projectDir), nbPath);
+    } finally {
+      treeSitter.close();
+    }
+
+    const payloads = mockQdrant.upsertedPoints
+      .flatMap((u) => u.points)
+      .map((p) => (p as { payload: Record<string, unknown> }).payload);
+    expect(payloads.map((p) => [p['startLine'], p['endLine'], p['language']])).toEqual([
+      [0, 0, 'python'],
+      [1, 1, 'python'],
+    ]);
+    expect(payloads[0]!['content']).toBe('# Revenue\nMonthly totals.');
+    expect(payloads[1]!['defines_symbols']).toEqual(['monthly_total']);
+    expect(String(payloads[1]!['content'])).not.toContain('iVBOR');
+  });
+
+  it('indexFile stores doc comments as doc_summary and embeds them into the doc vector', async () => {
+    const tsPath = path.join(projectDir, 'src', 'billing.ts');
+    fs.mkdirSync(path.dirname(tsPath), { recursive: true });
+    fs.writeFileSync(
+      tsPath,
+      [
+        '/** Charges the default card. */',
+        'export function charge() {',
+        '  return 1;',
+        '}',
+        '',
+        'export function refund() {',
+        '  return 2;',
+        '}',
+      ].join('\n')
+    );
+
+    const treeSitter = await createTreeSitterManager();
+    try {
+      const indexer = new Indexer({
+        qdrantUrl: 'http://localhost:6333',
+        embeddingProvider,
+        dimensions: 4,
+        qdrantClient: mockQdrant.client as never,
+        treeSitter,
+      });
+      const base = createProjectConfig(projectDir);
+      const project = createProjectConfig(projectDir, {
+        indexing: { ...base.indexing, chunkSize: 40 },
+      });
+      await indexer.indexFile('test-group', project, tsPath);
+    } finally {
+      treeSitter.close();
+    }
+
+    const points = mockQdrant.upsertedPoints.flatMap((u) => u.points) as {
+      vector: { dense: number[]; doc?: number[] };
+      payload: Record<string, unknown>;
+    }[];
+    const charge = points.find((p) => p.payload['symbol_name'] === 'charge')!;
+    const refund = points.find((p) => p.payload['symbol_name'] === 'refund')!;
+    expect(charge.payload['doc_summary']).toBe('Charges the default card.');
+    expect(charge.vector.doc).toEqual(['Charges the default card.'.length, 0, 0, 1]);
+    expect(refund.payload['doc_summary']).toBeNull();
+    expect(refund.vector.doc).toBeUndefined();
+  });
+
+  it('embeds each chunk under its contextual header but stores the raw content', async () => {
+    const tsPath = path.join(projectDir, 'src', 'config.ts');
+    fs.mkdirSync(path.dirname(tsPath), { recursive: true });
+    fs.writeFileSync(tsPath, 'export const retries = 3;');
+
+    const indexer = new Indexer({
+      qdrantUrl: 'http://localhost:6333',
+      embeddingProvider,
+      dimensions: 4,
+      qdrantClient: mockQdrant.client as never,
+    });
+    const base = createProjectConfig(projectDir);
+    const project = createProjectConfig(projectDir, {
+      indexing: { ...base.indexing, chunkHeader: 'File: {file}\nService: {service}' },
+    });
+    const embed = vi.spyOn(embeddingProvider, 'embedBatchPassage');
+    await indexer.indexFile('test-group', project, tsPath);
+
+    const input = 'File: src/config.ts\nService: test-project\n\nexport const retries = 3;';
+    expect(embed.mock.calls[0]![0]).toEqual([input]);
+    const [point] = mockQdrant.upsertedPoints.flatMap((u) => u.points) as {
+      vector: { dense: number[] };
+      payload: Record<string, unknown>;
+    }[];
+    expect(point!.vector.dense).toEqual([input.length, 0, 0, 1]);
+    expect(point!.payload['content']).toBe('export const retries = 3;');
+  });
+
+  it('flags chunks of test files with is_test', async () => {
+    fs.mkdirSync(path.join(projectDir, 'src'), { recursive: true });
+    fs.writeFileSync(path.join(projectDir, 'src', 'cart.ts'), 'export const total = 1;');
+    fs.writeFileSync(path.join(projectDir, 'src', 'cart.test.ts'), 'expect(total).toBe(1);');
+
+    const indexer = new Indexer({
+      qdrantUrl: 'http://localhost:6333',
+      embeddingProvider,
+      dimensions: 4,
+      qdrantClient: mockQdrant.client as never,
+    });
+    const project = createProjectConfig(projectDir);
+    await indexer.indexFile('test-group', project, path.join(projectDir, 'src', 'cart.ts'));
+    await indexer.indexFile('test-group', project, path.join(projectDir, 'src', 'cart.test.ts'));
+
+    const payloads = mockQdrant.upsertedPoints
+      .flatMap((u) => u.points as { payload: Record<string, unknown> }[])
+      .map((p) => [p.payload['file'], p.payload['is_test']]);
+    expect(payloads).toEqual([
+      ['src/cart.ts', false],
+      ['src/cart.test.ts', true],
+    ]);
+  });
+
   it('deleteFile removes chunks for file', async () => {
     const indexer = new Indexer({
       qdrantUrl: 'http://localhost:6333',
@@ -378,6 +632,69 @@ describe('Indexer', () => {
     });
   });
 
+  it('keeps BM25 corpus stats in step with indexed and deleted chunks', async () => {
+    const tsPath = path.join(projectDir, 'src', 'user.ts');
+    fs.mkdirSync(path.dirname(tsPath), { recursive: true });
+    fs.writeFileSync(tsPath, 'export function getUserToken() {\n  return 1;\n}\n');
+
+    const idf = new DocsIdfStore(path.join(projectDir, 'code-idf.db'));
+    const indexer = new Indexer({
+      qdrantUrl: 'http://localhost:6333',
+      embeddingProvider,
+      dimensions: 4,
+      qdrantClient: mockQdrant.client as never,
+      idf,
+    });
+
+    const project = createProjectConfig(projectDir);
+    const chunks = await indexer.indexFile('test-group', project, tsPath);
+    expect(chunks).toBeGreaterThan(0);
+    const after = idf.getCorpusStats('test-group');
+    expect(after.docCount).toBe(chunks);
+    expect(after.docFreq('token')).toBe(1);
+
+    await indexer.deleteFile('test-group', project, tsPath);
+    expect(idf.getCorpusStats('test-group').docCount).toBe(0);
+    idf.close();
+  });
+
+  it('migrateToHybrid rewrites a legacy collection with named dense + sparse vectors', async () => {
+    const collection = toCollectionName('legacy-group');
+    mockQdrant.collections.set(
+      collection,
+      new Map<string, unknown>([
+        [
+          'p1',
+          {
+            id: 'p1',
+            vector: [1, 0, 0, 1],
+            payload: { project: 'p', file: 'a.ts', content: 'function getUserToken() {}' },
+          },
+        ],
+      ])
+    );
+
+    const indexer = new Indexer({
+      qdrantUrl: 'http://localhost:6333',
+      embeddingProvider,
+      dimensions: 4,
+      qdrantClient: mockQdrant.client as never,
+    });
+
+    const migrated = await indexer.migrateToHybrid('legacy-group');
+    expect(migrated).toBe(1);
+    expect(mockQdrant.collections.has(`${collection}__hybrid_migration`)).toBe(false);
+
+    const point = mockQdrant.collections.get(collection)!.get('p1') as {
+      vector: { dense: number[]; text: { indices: number[] } };
+    };
+    expect(point.vector.dense).toEqual([1, 0, 0, 1]);
+    expect(point.vector.text.indices.length).toBeGreaterThan(0);
+
+    // Second run is a no-op
+    expect(await indexer.migrateToHybrid('legacy-group')).toBe(0);
+  });
+
   it('indexProject excludes files matching .gitignore when respectGitignore is true', async () => {
     fs.mkdirSync(path.join(projectDir, 'src'), { recursive: true });
     fs.mkdirSync(path.join(projectDir, 'secrets'), { recursive: true });
@@ -678,6 +995,41 @@ describe('Indexer', () => {
     expect(mockQdrant.client.delete).not.toHaveBeenCalled();
   });
 
+  it('indexProject reports progress and stops when aborted', async () => {
+    const srcDir = path.join(projectDir, 'src');
+    fs.mkdirSync(srcDir, { recursive: true });
+    fs.writeFileSync(path.join(srcDir, 'a.ts'), 'export const a = 1;\n');
+    fs.writeFileSync(path.join(srcDir, 'b.ts'), 'export const b = 2;\n');
+
+    const indexer = new Indexer({
+      qdrantUrl: 'http://localhost:6333',
+      embeddingProvider,
+      dimensions: 4,
+      qdrantClient: mockQdrant.client as never,
+    });
+    const project = createProjectConfig(projectDir, { patterns: ['**/*.ts'], exclude: [] });
+
+    const onProgress = vi.fn();
+    const chunks = await indexer.indexProject(project, { onProgress });
+    expect(onProgress.mock.calls.map(([p]) => p.phase)).toEqual(['chunk', 'embed', 'embed']);
+    expect(onProgress).toHaveBeenLastCalledWith({
+      phase: 'embed',
+      filesProcessed: 2,
+      filesTotal: 2,
+      chunks,
+    });
+
+    const controller = new AbortController();
+    controller.abort(new Error('cancelled'));
+    mockQdrant.client.delete.mockClear();
+    fs.rmSync(path.join(srcDir, 'b.ts'));
+    await expect(indexer.indexProject(project, { signal: controller.signal })).rejects.toThrow(
+      'cancelled'
+    );
+    // No orphan cleanup after an aborted walk.
+    expect(mockQdrant.client.delete).not.toHaveBeenCalled();
+  });
+
   it('listGroups returns groups with point counts', async () => {
     mockQdrant.collections.set(toCollectionName('g1'), new Map());
     mockQdrant.collections.set(toCollectionName('g2'), new Map());
@@ -1325,10 +1677,82 @@ describe('Indexer collection metadata sentinel', () => {
       model: 'jina-code-embeddings',
       dimensions: 4,
       createdAt: expect.any(Number),
-      metaVersion: 1,
+      metaVersion: 2,
+      chunkHeaders: {},
     });
   });
 
+  it('records the chunk header template and re-embeds unchanged files when it changes', async () => {
+    const projectDir = createTempDir();
+    fs.writeFileSync(path.join(projectDir, 'a.ts'), 'export const a = 1;');
+    const indexer = new Indexer({
+      qdrantUrl: 'http://127.0.0.1:6333',
+      embeddingProvider: provider,
+      dimensions: 4,
+      qdrantClient: mockQdrant.client as never,
+    });
+    const base = createProjectConfig(projectDir);
+    const withHeader = createProjectConfig(projectDir, {
+      indexing: { ...base.indexing, chunkHeader: 'File: {file}' },
+    });
+    const withoutHeader = createProjectConfig(projectDir, {
+      indexing: { ...base.indexing, chunkHeader: '' },
+    });
+
+    try {
+      expect(await indexer.indexProject(withHeader)).toBe(1);
+      const meta = await indexer.readCollectionMeta('test-group');
+      expect(meta?.chunkHeaders['test-project']).toBe(chunkHeaderFingerprint('File: {file}'));
+
+      // Same template: the unchanged file is skipped.
+      expect(await indexer.indexProject(withHeader)).toBe(0);
+
+      // New template: same chunks, different embedding input — re-embedded.
+      expect(await indexer.indexProject(withoutHeader)).toBe(1);
+      const after = await indexer.readCollectionMeta('test-group');
+      expect(after?.chunkHeaders['test-project']).toBe(NO_CHUNK_HEADER);
+      const dense = mockQdrant.upsertedPoints
+        .flatMap(
+          (u) => u.points as { vector: { dense: number[] }; payload: { __meta?: boolean } }[]
+        )
+        .filter((p) => !p.payload.__meta)
+        .map((p) => p.vector.dense[0]);
+      expect(dense).toEqual([
+        'File: a.ts\n\nexport const a = 1;'.length,
+        'export const a = 1;'.length,
+      ]);
+    } finally {
+      fs.rmSync(projectDir, { recursive: true, force: true });
+    }
+  });
+
+  it('re-embeds projects indexed before chunk headers were recorded', async () => {
+    const projectDir = createTempDir();
+    fs.writeFileSync(path.join(projectDir, 'a.ts'), 'export const a = 1;');
+    const indexer = new Indexer({
+      qdrantUrl: 'http://127.0.0.1:6333',
+      embeddingProvider: provider,
+      dimensions: 4,
+      qdrantClient: mockQdrant.client as never,
+    });
+    const project = createProjectConfig(projectDir);
+
+    try {
+      expect(await indexer.indexProject(project)).toBe(1);
+      // Downgrade the sentinel to a version-1 record without chunk headers.
+      const sentinel = [...mockQdrant.collections.get(toCollectionName('test-group'))!.values()]
+        .map((p) => p as { payload: Record<string, unknown> })
+        .find((p) => p.payload['__meta'])!;
+      sentinel.payload['metaVersion'] = 1;
+      delete sentinel.payload['chunkHeaders'];
+
+      expect(await indexer.indexProject(project)).toBe(1);
+      expect(await indexer.indexProject(project)).toBe(0);
+    } finally {
+      fs.rmSync(projectDir, { recursive: true, force: true });
+    }
+  });
+
   it('throws CollectionMetaMismatchError when reopening a collection with a different provider', async () => {
     const stamp = new Indexer({
       qdrantUrl: 'http://127.0.0.1:6333',
@@ -1531,3 +1955,130 @@ describe('listProjectsInGroup with projectSuffix', () => {
     expect(projects.map((p) => p.name)).toEqual(['billing']);
   });
 });
+
+describe('listSymbolChunks', () => {
+  let cache: EmbeddingCache;
+  let cacheDbPath: string;
+  let provider: CachedEmbeddingProvider;
+
+  beforeEach(() => {
+    const tmp = createTempDir();
+    cacheDbPath = path.join(tmp, 'cache.db');
+    cache = new EmbeddingCache(cacheDbPath, 100);
+    provider = new CachedEmbeddingProvider(new MockEmbeddingProvider(), cache);
+  });
+
+  afterEach(() => {
+    provider.close();
+    fs.rmSync(path.dirname(cacheDbPath), { recursive: true, force: true });
+  });
+
+  /** Qdrant stub whose scroll returns `pages` in order. */
+  function scrollMock(pages: Array<Array<Record<string, unknown>>>) {
+    const scroll = vi.fn();
+    pages.forEach((payloads, i) =>
+      scroll.mockResolvedValueOnce({
+        points: payloads.map((payload, j) => ({ id: `${i}-${j}`, payload })),
+        next_page_offset: i < pages.length - 1 ? `page-${i + 1}` : null,
+      })
+    );
+    return { scroll };
+  }
+
+  function symbolPayload(chunkId: string, defines: string[], project = 'billing-v3') {
+    return {
+      chunk_id: chunkId,
+      project,
+      file: 'src/invoice.ts',
+      language: 'typescript',
+      startLine: 1,
+      endLine: 9,
+      kind: 'class',
+      defines_symbols: defines,
+    };
+  }
+
+  it('keyword-matches exact names within the stored project names', async () => {
+    const client = scrollMock([[symbolPayload('g//billing-v3//a//1-9//h', ['Invoice'])]]);
+    const indexer = new Indexer({
+      qdrantUrl: 'http://127.0.0.1:6333',
+      embeddingProvider: provider,
+      dimensions: 4,
+      qdrantClient: client as never,
+      projectSuffix: '-v3',
+    });
+
+    const { chunks } = await indexer.listSymbolChunks('g', {
+      exact: 'Invoice',
+      projects: ['billing'],
+      matches: () => true,
+    });
+
+    expect(chunks).toEqual([
+      expect.objectContaining({ chunk_id: 'g//billing-v3//a//1-9//h', project: 'billing' }),
+    ]);
+    const filter = (client.scroll.mock.calls[0]![1] as { filter: { must: unknown[] } }).filter;
+    expect(filter.must).toEqual([
+      { key: 'defines_symbols', match: { value: 'Invoice' } },
+      { key: 'project', match: { any: ['billing-v3'] } },
+    ]);
+  });
+
+  it('pages through the group and keeps only chunks the matcher accepts', async () => {
+    const client = scrollMock([
+      [symbolPayload('g//p//a//1-9//h1', ['InvoiceService'], 'p')],
+      [symbolPayload('g//p//b//1-9//h2', ['Ledger'], 'p')],
+    ]);
+    const indexer = new Indexer({
+      qdrantUrl: 'http://127.0.0.1:6333',
+      embeddingProvider: provider,
+      dimensions: 4,
+      qdrantClient: client as never,
+    });
+
+    const { chunks, truncated } = await indexer.listSymbolChunks('g', {
+      matches: (defs) => defs.some((d) => d.startsWith('Invoice')),
+    });
+
+    expect(chunks.map((c) => c.chunk_id)).toEqual(['g//p//a//1-9//h1']);
+    expect(truncated).toBe(false);
+    expect(client.scroll).toHaveBeenCalledTimes(2);
+    expect((client.scroll.mock.calls[1]![1] as { offset?: string }).offset).toBe('page-1');
+  });
+
+  it('stops scanning at maxScanned and reports truncation', async () => {
+    const client = scrollMock([
+      [symbolPayload('g//p//a//1-9//h1', ['InvoiceService'], 'p')],
+      [symbolPayload('g//p//b//1-9//h2', ['InvoiceLine'], 'p')],
+    ]);
+    const indexer = new Indexer({
+      qdrantUrl: 'http://127.0.0.1:6333',
+      embeddingProvider: provider,
+      dimensions: 4,
+      qdrantClient: client as never,
+    });
+
+    const result = await indexer.listSymbolChunks('g', { matches: () => true, maxScanned: 1 });
+
+    expect(result).toEqual({
+      chunks: [expect.objectContaining({ chunk_id: 'g//p//a//1-9//h1' })],
+      truncated: true,
+    });
+    expect(client.scroll).toHaveBeenCalledTimes(1);
+    expect((client.scroll.mock.calls[0]![1] as { limit: number }).limit).toBe(1);
+  });
+
+  it('returns nothing for a group that has no collection', async () => {
+    const client = { scroll: vi.fn().mockRejectedValue(new Error('Not found: Collection')) };
+    const indexer = new Indexer({
+      qdrantUrl: 'http://127.0.0.1:6333',
+      embeddingProvider: provider,
+      dimensions: 4,
+      qdrantClient: client as never,
+    });
+    expect(await indexer.listSymbolChunks('missing', { matches: () => true })).toEqual({
+      chunks: [],
+      truncated: false,
+    });
+  });
+});
@@ -1,10 +1,13 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import express from 'express';
-import type { Searcher } from '../src/searcher.js';
+import { Searcher } from '../src/searcher.js';
+import { HeuristicReranker } from '../src/reranker.js';
 import type { Indexer } from '../src/indexer.js';
 import { McpHandler } from '../src/mcp-handler.js';
 import type { MetadataStore } from '../src/metadata-db.js';
 import type { ProjectConfig, ChunkKind } from '../src/types.js';
+import { NoOpMetrics } from '../src/metrics.js';
+import { access, type AccessRules } from '../src/auth/access.js';
 
 /** Parse SSE or JSON response from MCP Streamable HTTP */
 async function parseMcpResponse(res: Response): Promise<unknown> {
@@ -55,7 +58,12 @@ function createMockIndexer(suffix = ''): Indexer {
     getGroupStats: vi.fn().mockResolvedValue({ points: 0, status: 'not_indexed' }),
     deleteProjectChunks: vi.fn().mockResolvedValue(undefined),
     getChunkById: vi.fn().mockResolvedValue(null),
+    getAdjacentChunks: vi.fn().mockResolvedValue([]),
+    listSymbolChunks: vi.fn().mockResolvedValue({ chunks: [], truncated: false }),
     storedProjectName: vi.fn((name: string) => (suffix ? `${name}${suffix}` : name)),
+    cleanProjectName: vi.fn((name: string) =>
+      suffix && name.endsWith(suffix) ? name.slice(0, -suffix.length) : name
+    ),
   } as unknown as Indexer;
 }
 
@@ -66,6 +74,12 @@ function createMockMetadataStore(): MetadataStore {
     getEdgesTo: vi.fn().mockReturnValue([]),
     getEdgesFrom: vi.fn().mockReturnValue([]),
     deleteByProject: vi.fn(),
+    getInDegree: vi.fn().mockReturnValue(0),
+    getCodeOwners: vi.fn().mockReturnValue(null),
+    getCodeOwnersIn: vi.fn().mockReturnValue([]),
+    getChunkContributors: vi.fn().mockReturnValue([]),
+    getContributors: vi.fn().mockReturnValue([]),
+    getProjectLinks: vi.fn().mockReturnValue(null),
   } as unknown as MetadataStore;
 }
 
@@ -118,7 +132,7 @@ function createProjectConfig(overrides?: Partial<ProjectConfig>): ProjectConfig
       bounded_context: null,
       tags: [],
       directory_tags: {},
-      git: { enabled: true, maxCommitsPerFile: 50, ticketPatterns: [] },
+      git: { enabled: true, maxCommitsPerFile: 50, ticketPatterns: [], ownershipMonths: 12 },
     },
     ...overrides,
   };
@@ -438,6 +452,7 @@ describe('McpHandler', () => {
       expect(searcher.expandedSearch).toHaveBeenCalledWith('g1', 'authentication', {
         project: 'all',
         limit: 10,
+        mode: 'hybrid',
       });
     } finally {
       server.close();
@@ -670,6 +685,117 @@ describe('McpHandler', () => {
     expect(metadataStore.deleteByProject).toHaveBeenCalledWith('g1', returned);
   });
 
+  /** Qdrant payload hit for the real-Searcher search_code tests. */
+  function qdrantHit(file: string, score: number, content: string, vector?: number[]) {
+    return {
+      id: file,
+      score,
+      ...(vector ? { vector: { dense: vector } } : {}),
+      payload: {
+        project: 'p1',
+        file,
+        language: 'typescript',
+        startLine: 1,
+        endLine: 5,
+        content,
+        hash: file,
+      },
+    };
+  }
+
+  async function withSearchServer<T>(
+    searcher: Searcher,
+    groups: string[],
+    fn: (port: number) => Promise<T>
+  ): Promise<T> {
+    const app = express();
+    app.use(express.json());
+    const handler2 = new McpHandler({
+      searcher,
+      indexer: createMockIndexer(),
+      getProjects: () => new Map(groups.map((g) => [g, [createProjectConfig({ group: g })]])),
+      getGroupNames: () => groups,
+    });
+    handler2.mount(app);
+    const server = app.listen(0);
+    try {
+      return await fn((server.address() as { port: number }).port);
+    } finally {
+      server.close();
+      handler2.destroy();
+    }
+  }
+
+  it('search_code keeps the reranked order', async () => {
+    // Legacy layout (getCollection fails) → plain dense search.
+    const qdrant = {
+      getCollection: vi.fn().mockRejectedValue(new Error('unavailable')),
+      search: vi
+        .fn()
+        .mockResolvedValue([
+          qdrantHit('src/logger.ts', 0.8, 'export const log = console.log;'),
+          qdrantHit('src/refund.ts', 0.7, 'export function refundPayment(order) {}'),
+        ]),
+    };
+    const searcher = new Searcher({
+      qdrantUrl: 'http://127.0.0.1:6333',
+      embeddingProvider: { embedQuery: async () => [1, 0, 0, 0] } as never,
+      qdrantClient: qdrant as never,
+      reranker: new HeuristicReranker(),
+    });
+
+    const { text } = await withSearchServer(searcher, ['g1'], (port) =>
+      callTool(port, 'search_code', { query: 'refundPayment', limit: 2 })
+    );
+    // The heuristic reranker lifts the chunk that names the query above the
+    // one with the higher cosine; search_code must not re-sort by cosine.
+    expect(text.indexOf('src/refund.ts')).toBeGreaterThan(-1);
+    expect(text.indexOf('src/refund.ts')).toBeLessThan(text.indexOf('src/logger.ts'));
+    // The displayed score is still the retrieval cosine.
+    expect(text).toContain('(70.0%');
+  });
+
+  it('search_code merges a legacy and a hybrid group by rank, not raw score', async () => {
+    const qdrant = {
+      // g1 predates hybrid search (single unnamed vector); g2 is hybrid.
+      getCollection: vi.fn(async (collection: string) => ({
+        config: {
+          params: {
+            vectors: collection.endsWith('g1')
+              ? { size: 4, distance: 'Cosine' }
+              : { dense: { size: 4, distance: 'Cosine' } },
+          },
+        },
+      })),
+      search: vi
+        .fn()
+        .mockResolvedValue([
+          qdrantHit('src/legacy-a.ts', 0.9, 'a'),
+          qdrantHit('src/legacy-b.ts', 0.85, 'b'),
+        ]),
+      // RRF scores (~0.5) are on another scale than cosine; the vector gives the cosine.
+      query: vi.fn().mockResolvedValue({
+        points: [qdrantHit('src/hybrid-a.ts', 0.5, 'c', [1, 1, 0, 0])],
+      }),
+    };
+    const searcher = new Searcher({
+      qdrantUrl: 'http://127.0.0.1:6333',
+      embeddingProvider: { embedQuery: async () => [1, 0, 0, 0] } as never,
+      qdrantClient: qdrant as never,
+    });
+
+    const { text } = await withSearchServer(searcher, ['g1', 'g2'], (port) =>
+      callTool(port, 'search_code', { query: 'retries', limit: 3 })
+    );
+    const order = ['src/legacy-a.ts', 'src/hybrid-a.ts', 'src/legacy-b.ts'].map((f) =>
+      text.indexOf(f)
+    );
+    expect(order.every((i) => i > -1)).toBe(true);
+    expect(order).toEqual([...order].sort((a, b) => a - b));
+    // Both groups report cosine: 1/√2 for the hybrid hit.
+    expect(text).toContain('(70.7%');
+  });
+
   // ── Orchestration tools ──────────────────────────────────────────────────
 
   /** Helper: init session + call tool in one shot */
@@ -1157,6 +1283,81 @@ describe('McpHandler', () => {
     }
   });
 
+  it('impact_analysis only traverses the requested relation types', async () => {
+    const searcher = createMockSearcher();
+    vi.mocked(searcher.expandedSearch).mockResolvedValue({
+      results: [makeSearchResult()],
+      total: 1,
+      metrics: {
+        tokensReturned: 10,
+        estimatedFullFileTokens: 100,
+        tokensSaved: 90,
+        savingsPercent: 90,
+      },
+    });
+
+    const metadataStore = createMockMetadataStore();
+    vi.mocked(metadataStore.getEdgesTo).mockImplementation((id: string) =>
+      id === 'g1//p1//src/auth.ts//10-20//h1'
+        ? [
+            {
+              from_chunk_id: 'g1//p1//src/login.ts//5-15//h2',
+              to_chunk_id: id,
+              relation_type: 'calls' as const,
+              symbol_name: 'authenticate',
+            },
+            {
+              from_chunk_id: 'g1//p1//src/oauth.ts//1-30//h3',
+              to_chunk_id: id,
+              relation_type: 'implements' as const,
+              symbol_name: 'Authenticator',
+            },
+          ]
+        : []
+    );
+    vi.mocked(metadataStore.getEdgesFrom).mockReturnValue([]);
+
+    const indexer = createMockIndexer();
+    vi.mocked(indexer.getChunkById).mockImplementation(async (id: string) => ({
+      project: 'p1',
+      file: id.split('//')[2],
+      startLine: 1,
+      endLine: 10,
+      service: 'auth-service',
+    }));
+
+    const app = express();
+    app.use(express.json());
+    const handler2 = new McpHandler({
+      searcher,
+      indexer,
+      getProjects: () => new Map([['g1', [createProjectConfig()]]]),
+      getGroupNames: () => ['g1'],
+      metadataStore,
+    });
+    handler2.mount(app);
+
+    const server = app.listen(0);
+    const port = (server.address() as { port: number }).port;
+
+    try {
+      const { text, status } = await callTool(
+        port,
+        'impact_analysis',
+        { question: 'authentication', relation_types: ['implements'] },
+        '/support/mcp'
+      );
+
+      expect(status).toBe(200);
+      expect(text).toContain('src/oauth.ts');
+      expect(text).toContain('| implements | `Authenticator` |');
+      expect(text).not.toContain('src/login.ts');
+    } finally {
+      server.close();
+      handler2.destroy();
+    }
+  });
+
   it('impact_analysis without metadataStore returns only seed chunks', async () => {
     const searcher = createMockSearcher();
     vi.mocked(searcher.expandedSearch).mockResolvedValue({
@@ -1205,4 +1406,735 @@ describe('McpHandler', () => {
       handler2.destroy();
     }
   });
+
+  // ── find_symbol ──────────────────────────────────────────────────────────
+
+  /** A defining chunk as Indexer.listSymbolChunks returns it. */
+  function makeSymbolChunk(overrides?: Partial<Record<string, unknown>>) {
+    return {
+      chunk_id: 'g1//p1//src/auth.ts//10-20//h1',
+      project: 'p1',
+      file: 'src/auth.ts',
+      language: 'typescript',
+      startLine: 10,
+      endLine: 20,
+      kind: 'class',
+      defines_symbols: ['AuthService'],
+      ...overrides,
+    };
+  }
+
+  it('find_symbol lists definitions ranked by kind, with in-degree', async () => {
+    const indexer = createMockIndexer();
+    vi.mocked(indexer.listSymbolChunks).mockResolvedValue({
+      chunks: [
+        makeSymbolChunk({
+          chunk_id: 'g1//p1//src/auth.ts//30-40//h2',
+          startLine: 30,
+          endLine: 40,
+          kind: 'variable',
+        }),
+        makeSymbolChunk(),
+      ],
+      truncated: false,
+    });
+    const metadataStore = createMockMetadataStore();
+    vi.mocked(metadataStore.getInDegree).mockImplementation((_g, id) =>
+      id.endsWith('h1') ? 4 : 0
+    );
+
+    const app = express();
+    app.use(express.json());
+    const handler2 = new McpHandler({
+      searcher: createMockSearcher(),
+      indexer,
+      getProjects: () => new Map(),
+      getGroupNames: () => ['g1'],
+      metadataStore,
+    });
+    handler2.mount(app);
+    const server = app.listen(0);
+    const port = (server.address() as { port: number }).port;
+
+    try {
+      const { text } = await callTool(port, 'find_symbol', { name: 'AuthService' }, '/support/mcp');
+      expect(text).toContain('Definitions of `AuthService` (2)');
+      expect(text.indexOf('src/auth.ts:10-20')).toBeLessThan(text.indexOf('src/auth.ts:30-40'));
+      expect(text).toContain('class `AuthService` (4 incoming)');
+      expect(text).toContain('_chunk: g1//p1//src/auth.ts//10-20//h1_');
+      expect(indexer.listSymbolChunks).toHaveBeenCalledWith(
+        'g1',
+        expect.objectContaining({ exact: 'AuthService', projects: null })
+      );
+      expect(text).not.toContain('were scanned');
+    } finally {
+      server.close();
+      handler2.destroy();
+    }
+  });
+
+  it('find_symbol says when a fuzzy scan hit its cap', async () => {
+    const indexer = createMockIndexer();
+    vi.mocked(indexer.listSymbolChunks).mockResolvedValue({ chunks: [], truncated: true });
+
+    const app = express();
+    app.use(express.json());
+    const handler2 = new McpHandler({
+      searcher: createMockSearcher(),
+      indexer,
+      getProjects: () => new Map(),
+      getGroupNames: () => ['g1'],
+    });
+    handler2.mount(app);
+    const server = app.listen(0);
+    const port = (server.address() as { port: number }).port;
+
+    try {
+      const { text } = await callTool(
+        port,
+        'find_symbol',
+        { name: 'AuthServce', mode: 'fuzzy' },
+        '/support/mcp'
+      );
+      expect(text).toContain('No definitions found for `AuthServce` (fuzzy)');
+      expect(text).toContain('defining chunks per group were scanned');
+    } finally {
+      server.close();
+      handler2.destroy();
+    }
+  });
+
+  it('get_chunk and search_code read a chunk on an indexed branch', async () => {
+    const indexer = createMockIndexer();
+    const onBranch = vi.fn().mockResolvedValue({
+      project: 'p1',
+      file: 'src/auth.ts',
+      language: 'typescript',
+      startLine: 10,
+      endLine: 20,
+      content: 'function authenticate() {}',
+      chunk_id: 'g1//p1//src/auth.ts//10-20//h1',
+      branches: ['release/2.x'],
+    });
+    Object.assign(indexer, { getChunkOnBranch: onBranch });
+    const searcher = createMockSearcher();
+
+    const app = express();
+    app.use(express.json());
+    const handler2 = new McpHandler({
+      searcher,
+      indexer,
+      getProjects: () => new Map(),
+      getGroupNames: () => ['g1'],
+    });
+    handler2.mount(app);
+    const server = app.listen(0);
+    const port = (server.address() as { port: number }).port;
+
+    try {
+      const { text } = await callTool(port, 'get_chunk', {
+        chunk_id: 'g1//p1//src/auth.ts//10-20//h1',
+        branch: 'release/2.x',
+      });
+      expect(onBranch).toHaveBeenCalledWith('g1//p1//src/auth.ts//10-20//h1', 'release/2.x');
+      expect(indexer.getChunkById).not.toHaveBeenCalled();
+      expect(text).toContain('Branch: `release/2.x` (same as the default branch)');
+
+      onBranch.mockResolvedValueOnce(null);
+      const missing = await callTool(port, 'get_chunk', {
+        chunk_id: 'g1//p1//src/gone.ts//1-2//h',
+        branch: 'release/2.x',
+      });
+      expect(missing.text).toContain('Chunk not found on branch "release/2.x"');
+
+      await callTool(port, 'search_code', { query: 'auth', branch: 'release/2.x' });
+      expect(searcher.expandedSearch).toHaveBeenCalledWith(
+        'g1',
+        'auth',
+        expect.objectContaining({ branch: 'release/2.x' })
+      );
+    } finally {
+      server.close();
+      handler2.destroy();
+    }
+  });
+
+  it('find_symbol suggests looser modes when nothing matches', async () => {
+    const app = express();
+    app.use(express.json());
+    const handler2 = new McpHandler({
+      searcher: createMockSearcher(),
+      indexer: createMockIndexer(),
+      getProjects: () => new Map(),
+      getGroupNames: () => ['g1'],
+    });
+    handler2.mount(app);
+    const server = app.listen(0);
+    const port = (server.address() as { port: number }).port;
+
+    try {
+      const { text } = await callTool(port, 'find_symbol', { name: 'Nope' });
+      expect(text).toContain('No definitions found for `Nope`');
+      expect(text).toContain('"prefix" or "fuzzy"');
+    } finally {
+      server.close();
+      handler2.destroy();
+    }
+  });
+
+  // ── find_tests ───────────────────────────────────────────────────────────
+
+  it('find_tests lists the test chunks with a tests edge to the target', async () => {
+    const target = 'g1//p1//src/auth.ts//10-20//h1';
+    const test = 'g1//p1//src/auth.test.ts//5-30//t1';
+    const indexer = createMockIndexer();
+    vi.mocked(indexer.getChunkById).mockImplementation(async (id) => ({
+      project: 'p1',
+      file: id === test ? 'src/auth.test.ts' : 'src/login.ts',
+      startLine: 5,
+      endLine: 30,
+      symbol_name: null,
+    }));
+    const metadataStore = createMockMetadataStore();
+    vi.mocked(metadataStore.getEdgesTo).mockReturnValue([
+      {
+        from_chunk_id: test,
+        to_chunk_id: target,
+        relation_type: 'tests',
+        symbol_name: 'AuthService',
+        confidence: 'RESOLVED',
+      },
+      {
+        from_chunk_id: 'g1//p1//src/login.ts//1-9//c1',
+        to_chunk_id: target,
+        relation_type: 'calls',
+        symbol_name: 'AuthService',
+        confidence: 'RESOLVED',
+      },
+    ]);
+
+    const app = express();
+    app.use(express.json());
+    const handler2 = new McpHandler({
+      searcher: createMockSearcher(),
+      indexer,
+      getProjects: () => new Map(),
+      getGroupNames: () => ['g1'],
+      metadataStore,
+    });
+    handler2.mount(app);
+    const server = app.listen(0);
+    const port = (server.address() as { port: number }).port;
+
+    try {
+      const { text } = await callTool(port, 'find_tests', { target });
+      expect(text).toContain('Tests for `' + target + '` (1)');
+      expect(text).toContain('**[p1] src/auth.test.ts:5** — uses `AuthService`');
+      expect(text).not.toContain('src/login.ts');
+
+      vi.mocked(metadataStore.getEdgesTo).mockReturnValue([]);
+      const none = await callTool(port, 'find_tests', { target });
+      expect(none.text).toContain('No tests found');
+    } finally {
+      server.close();
+      handler2.destroy();
+    }
+  });
+
+  // ── who_owns / get_chunk_meta owners ────────────────────────────────────
+
+  it('who_owns reports CODEOWNERS and blame contributors for a chunk or a path', async () => {
+    const chunkId = 'g1//p1-v2//src/billing/refund.ts//10-20//h1';
+    const indexer = createMockIndexer('-v2');
+    vi.mocked(indexer.getChunkById).mockResolvedValue({
+      project: 'p1',
+      file: 'src/billing/refund.ts',
+      startLine: 10,
+      endLine: 20,
+    });
+    const metadataStore = createMockMetadataStore();
+    const alice = { author_email: 'alice@x.com', lines: 9, last_at: '2026-09-01T10:00:00.000Z' };
+    vi.mocked(metadataStore.getCodeOwners).mockReturnValue(['@org/payments']);
+    vi.mocked(metadataStore.getCodeOwnersIn).mockReturnValue([
+      { file: 'src/billing/refund.ts', owners: ['@org/payments'] },
+      { file: 'src/billing/charge.ts', owners: ['@org/payments'] },
+      { file: 'src/billing/gen.ts', owners: [] },
+    ]);
+    vi.mocked(metadataStore.getChunkContributors).mockReturnValue([alice]);
+    vi.mocked(metadataStore.getContributors).mockReturnValue([alice]);
+
+    const app = express();
+    app.use(express.json());
+    const handler2 = new McpHandler({
+      searcher: createMockSearcher(),
+      indexer,
+      getProjects: () => new Map(),
+      getGroupNames: () => ['g1'],
+      metadataStore,
+    });
+    handler2.mount(app);
+    const server = app.listen(0);
+    const port = (server.address() as { port: number }).port;
+
+    try {
+      const path = await callTool(
+        port,
+        'who_owns',
+        { group: 'g1', project: 'p1', path: 'src/billing' },
+        '/support/mcp'
+      );
+      expect(metadataStore.getContributors).toHaveBeenCalledWith(
+        'g1',
+        'p1-v2',
+        ['src/billing'],
+        10
+      );
+      expect(path.text).toContain('## Owners of `src/billing` [p1]');
+      expect(path.text).toContain('- `@org/payments` — 2 files');
+      expect(path.text).toContain('- _explicitly unowned_ — 1 file');
+      expect(path.text).toContain('| alice@x.com | 9 | 2026-09-01 |');
+
+      const chunk = await callTool(port, 'who_owns', { chunk_id: chunkId }, '/support/mcp');
+      expect(metadataStore.getChunkContributors).toHaveBeenCalledWith(chunkId, 10);
+      expect(chunk.text).toContain('## Owners of `src/billing/refund.ts:10-20` [p1]');
+
+      const missing = await callTool(port, 'who_owns', { project: 'p1' }, '/support/mcp');
+      expect(missing.text).toContain('Pass a chunk_id, or a group and project');
+
+      const meta = await callTool(port, 'get_chunk_meta', { chunk_id: chunkId }, '/support/mcp');
+      expect(metadataStore.getCodeOwners).toHaveBeenCalledWith(
+        'g1',
+        'p1-v2',
+        'src/billing/refund.ts'
+      );
+      expect(meta.text).toContain('### Owners\nCODEOWNERS: `@org/payments`');
+      expect(meta.text).toContain('| alice@x.com | 9 | 2026-09-01 |');
+    } finally {
+      server.close();
+      handler2.destroy();
+    }
+  });
+
+  it('get_chunk_meta links commits and tickets through the project link templates', async () => {
+    const chunkId = 'g1//p1//src/billing.ts//1-9//h1';
+    const indexer = createMockIndexer();
+    vi.mocked(indexer.getChunkById).mockResolvedValue({
+      project: 'p1',
+      file: 'src/billing.ts',
+      startLine: 1,
+      endLine: 9,
+    });
+    const metadataStore = createMockMetadataStore();
+    vi.mocked(metadataStore.getProjectLinks).mockReturnValue({
+      repo: 'team/billing',
+      commit: 'https://git.example.com/{repo}/-/commit/{sha}',
+      issue: 'https://git.example.com/{repo}/-/issues/{number}',
+      ticket: 'https://jira.example.com/browse/{key}',
+    });
+    vi.mocked(metadataStore.getCommits).mockReturnValue([
+      {
+        chunk_id: chunkId,
+        commit_hash: 'abcdef1234567890abcdef1234567890abcdef12',
+        committed_at: '2026-09-01T10:00:00.000Z',
+        author_email: 'alice@x.com',
+        message_summary: 'Fix refunds',
+      },
+    ]);
+    vi.mocked(metadataStore.getTickets).mockReturnValue([
+      { chunk_id: chunkId, ticket_key: 'PAY-12', source: 'jira' },
+      { chunk_id: chunkId, ticket_key: '#7', source: 'github' },
+      { chunk_id: chunkId, ticket_key: 'team/ledger#3', source: 'github' },
+    ]);
+
+    const app = express();
+    app.use(express.json());
+    const handler2 = new McpHandler({
+      searcher: createMockSearcher(),
+      indexer,
+      getProjects: () => new Map(),
+      getGroupNames: () => ['g1'],
+      metadataStore,
+    });
+    handler2.mount(app);
+    const server = app.listen(0);
+    const port = (server.address() as { port: number }).port;
+
+    try {
+      const meta = await callTool(port, 'get_chunk_meta', { chunk_id: chunkId }, '/support/mcp');
+      expect(metadataStore.getProjectLinks).toHaveBeenCalledWith('g1', 'p1');
+      expect(meta.text).toContain(
+        '| [2026-09-01 abcdef1](https://git.example.com/team/billing/-/commit/abcdef1234567890abcdef1234567890abcdef12) | alice@x.com | Fix refunds |'
+      );
+      expect(meta.text).toContain('- [PAY-12](https://jira.example.com/browse/PAY-12) (jira)');
+      expect(meta.text).toContain(
+        '- [#7](https://git.example.com/team/billing/-/issues/7) (github)'
+      );
+      expect(meta.text).toContain(
+        '- [team/ledger#3](https://git.example.com/team/ledger/-/issues/3) (github)'
+      );
+    } finally {
+      server.close();
+      handler2.destroy();
+    }
+  });
+
+  // ── review_diff ─────────────────────────────────────────────────────────
+
+  it('review_diff maps a pasted diff onto chunks, dependents and tickets', async () => {
+    const touched = 'g1//p1-v2//src/billing.ts//0-9//h1';
+    const caller = 'g1//p1-v2//src/api.ts//4-12//h2';
+    const indexer = createMockIndexer('-v2');
+    vi.mocked(indexer.getAdjacentChunks).mockResolvedValue([
+      {
+        chunk_id: touched,
+        file: 'src/billing.ts',
+        startLine: 0,
+        endLine: 9,
+        symbol_name: 'charge',
+        kind: 'function',
+        defines_symbols: ['charge'],
+      },
+    ]);
+    const metadataStore = createMockMetadataStore();
+    vi.mocked(metadataStore.getEdgesTo).mockReturnValue([
+      {
+        from_chunk_id: caller,
+        to_chunk_id: touched,
+        relation_type: 'calls',
+        symbol_name: 'charge',
+        confidence: 'RESOLVED',
+      },
+    ]);
+    vi.mocked(metadataStore.getTickets).mockReturnValue([
+      { chunk_id: touched, ticket_key: 'PAY-7', source: 'jira' },
+    ]);
+
+    const app = express();
+    app.use(express.json());
+    const handler2 = new McpHandler({
+      searcher: createMockSearcher(),
+      indexer,
+      getProjects: () => new Map(),
+      getGroupNames: () => ['g1'],
+      metadataStore,
+    });
+    handler2.mount(app);
+    const server = app.listen(0);
+    const port = (server.address() as { port: number }).port;
+
+    try {
+      const diff = '--- a/src/billing.ts\n+++ b/src/billing.ts\n@@ -5,2 +5 @@\n-a\n-b\n+c\n';
+      const res = await callTool(port, 'review_diff', { group: 'g1', project: 'p1', diff });
+      expect(indexer.getAdjacentChunks).toHaveBeenCalledWith(
+        'g1',
+        'p1-v2',
+        'src/billing.ts',
+        4,
+        5,
+        0
+      );
+      expect(res.text).toContain('## Diff review: p1 (1 file, 1 chunk touched)');
+      expect(res.text).toContain(`| src/billing.ts | 0-9 | \`charge\` (function) | ${touched} |`);
+      expect(res.text).toContain(
+        `| p1/src/api.ts:4-12 _${caller}_ | calls | \`charge\` | ${touched} |`
+      );
+      expect(res.text).toContain('- [PAY-7] (jira) — 1 touched chunk');
+
+      const noCheckout = await callTool(port, 'review_diff', {
+        group: 'g1',
+        project: 'p1',
+        range: 'main...feature',
+      });
+      expect(noCheckout.text).toContain('pass the diff text instead of a range');
+    } finally {
+      server.close();
+      handler2.destroy();
+    }
+  });
+
+  // ── find_usages table_usages ─────────────────────────────────────────────
+
+  it('find_usages table_usages lists the defining DDL and the code touching a table', async () => {
+    const ddlId = 'g1//p1//db/schema.sql//1-9//h1';
+    const metadataStore = createMockMetadataStore();
+    const getTableReferences = vi.fn().mockReturnValue([
+      {
+        from_chunk_id: 'g1//p1//app/models/invoice.rb//1-5//h2',
+        to_chunk_id: ddlId,
+        relation_type: 'references' as const,
+        symbol_name: 'invoices',
+        confidence: 'INFERRED' as const,
+      },
+      {
+        from_chunk_id: 'g1//p1//app/jobs/dunning.py//3-20//h3',
+        to_chunk_id: ddlId,
+        relation_type: 'references' as const,
+        symbol_name: 'invoices',
+      },
+    ]);
+    (metadataStore as unknown as Record<string, unknown>)['getTableReferences'] =
+      getTableReferences;
+    const indexer = createMockIndexer();
+    vi.mocked(indexer.getChunkById).mockImplementation(async (id) => ({
+      project: 'p1',
+      file: id.split('//')[2],
+      startLine: 1,
+      symbol_name: id === ddlId ? 'invoices' : null,
+    }));
+
+    const app = express();
+    app.use(express.json());
+    const handler2 = new McpHandler({
+      searcher: createMockSearcher(),
+      indexer,
+      getProjects: () => new Map(),
+      getGroupNames: () => ['g1'],
+      metadataStore,
+    });
+    handler2.mount(app);
+    const server = app.listen(0);
+    const port = (server.address() as { port: number }).port;
+
+    try {
+      const { text } = await callTool(port, 'find_usages', {
+        mode: 'table_usages',
+        table: 'Billing."Invoices"',
+      });
+      expect(getTableReferences).toHaveBeenCalledWith('g1', 'invoices');
+      expect(text).toContain('## Usages of table `invoices`');
+      expect(text).toContain('### Defined in (1)');
+      expect(text).toContain('**[p1] db/schema.sql:1** (invoices)');
+      expect(text).toContain('### Referenced by (2)');
+      expect(text).toContain('**[p1] app/jobs/dunning.py:1** — references `INFERRED`');
+
+      const missing = await callTool(port, 'find_usages', { mode: 'table_usages' });
+      expect(missing.text).toContain('needs `table`');
+
+      const noChunk = await callTool(port, 'find_usages', {});
+      expect(noChunk.text).toContain('chunk_id is required');
+    } finally {
+      server.close();
+      handler2.destroy();
+    }
+  });
+
+  // ── trace_path ───────────────────────────────────────────────────────────
+
+  it('trace_path resolves symbol names and prints the call chain', async () => {
+    const handlerId = 'g1//p1//src/handler.ts//1-9//h1';
+    const serviceId = 'g1//p1//src/service.ts//1-9//h2';
+    const dbId = 'g1//p1//src/db.ts//1-9//h3';
+    const edges = [
+      {
+        from_chunk_id: handlerId,
+        to_chunk_id: serviceId,
+        relation_type: 'calls' as const,
+        symbol_name: 'charge',
+        confidence: 'RESOLVED' as const,
+      },
+      {
+        from_chunk_id: serviceId,
+        to_chunk_id: dbId,
+        relation_type: 'calls' as const,
+        symbol_name: 'insertRow',
+      },
+    ];
+    const metadataStore = createMockMetadataStore();
+    vi.mocked(metadataStore.getEdgesFrom).mockImplementation((id) =>
+      edges.filter((e) => e.from_chunk_id === id)
+    );
+    vi.mocked(metadataStore.getEdgesTo).mockImplementation((id) =>
+      edges.filter((e) => e.to_chunk_id === id)
+    );
+    (metadataStore as unknown as Record<string, unknown>)['getGroupDegreeSnapshot'] = vi
+      .fn()
+      .mockReturnValue({ hubChunkIds: new Set() });
+    const indexer = createMockIndexer();
+    vi.mocked(indexer.listSymbolChunks).mockResolvedValue({
+      chunks: [makeSymbolChunk({ chunk_id: handlerId, defines_symbols: ['handleCharge'] })],
+      truncated: false,
+    });
+    vi.mocked(indexer.getChunkById).mockImplementation(async (id) => ({
+      project: 'p1',
+      file: id.split('//')[2],
+      startLine: 1,
+      symbol_name: null,
+    }));
+
+    const app = express();
+    app.use(express.json());
+    const handler2 = new McpHandler({
+      searcher: createMockSearcher(),
+      indexer,
+      getProjects: () => new Map(),
+      getGroupNames: () => ['g1'],
+      metadataStore,
+    });
+    handler2.mount(app);
+    const server = app.listen(0);
+    const port = (server.address() as { port: number }).port;
+
+    try {
+      const { text } = await callTool(port, 'trace_path', { from: 'handleCharge', to: dbId });
+      expect(text).toContain('(1 shortest, 2 hops)');
+      expect(text).toContain('1. **[p1] src/handler.ts:1**');
+      expect(text).toContain('2. **[p1] src/service.ts:1**');
+      expect(text).toContain('3. **[p1] src/db.ts:1**');
+      expect(text).toContain('calls `charge` `RESOLVED`');
+      expect(text).toContain('calls `insertRow` `INFERRED`');
+
+      const reversed = await callTool(port, 'trace_path', { from: dbId, to: handlerId });
+      expect(reversed.text).toContain('No path from');
+      expect(reversed.text).toContain('try swapping');
+
+      const unknown = await callTool(port, 'trace_path', { from: 'nope', to: dbId });
+      expect(unknown.text).toContain('No definition found for `nope`');
+    } finally {
+      server.close();
+      handler2.destroy();
+    }
+  });
+
+  // ── Access rules ─────────────────────────────────────────────────────────
+
+  describe('access rules', () => {
+    const rules: AccessRules = { groups: ['g1'], projects: ['p1'], audiences: null };
+
+    /** Mount `handler2` behind a middleware binding `rules`, as bearerAuth does. */
+    async function withScopedServer<T>(
+      handler2: McpHandler,
+      fn: (port: number) => Promise<T>
+    ): Promise<T> {
+      const app = express();
+      app.use(express.json());
+      app.use((_req, _res, next) => access.run(rules, () => next()));
+      handler2.mount(app);
+      const server = app.listen(0);
+      try {
+        return await fn((server.address() as { port: number }).port);
+      } finally {
+        server.close();
+        handler2.destroy();
+      }
+    }
+
+    it('refuses tools aimed outside the rules and counts the denial', async () => {
+      const indexer = createMockIndexer();
+      const metrics = new NoOpMetrics();
+      const denied = vi.spyOn(metrics, 'incAccessDeniedTotal');
+      const handler2 = new McpHandler({
+        searcher: createMockSearcher(),
+        indexer,
+        getProjects: () => new Map([['g1', [createProjectConfig()]]]),
+        getGroupNames: () => ['g1'],
+        metrics,
+      });
+
+      await withScopedServer(handler2, async (port) => {
+        const del = await callTool(port, 'delete_project', { group: 'g1', project: 'p2' });
+        expect(del.text).toContain('Access denied');
+        expect(indexer.deleteProjectChunks).not.toHaveBeenCalled();
+
+        const chunk = await callTool(port, 'get_chunk', { chunk_id: 'g2//p1//a.ts//1-5//h' });
+        expect(chunk.text).toContain('Access denied');
+        expect(indexer.getChunkById).not.toHaveBeenCalled();
+
+        const search = await callTool(port, 'search_code', { query: 'auth', group: 'g2' });
+        expect(search.text).toContain('group "g2" is not available');
+
+        const trace = await callTool(port, 'trace_path', {
+          from: 'g1//p1//a.ts//1-5//h',
+          to: 'g1//p2//b.ts//1-5//h',
+        });
+        expect(trace.text).toContain('Access denied');
+      });
+
+      expect(denied.mock.calls).toEqual([
+        ['delete_project', 'project'],
+        ['get_chunk', 'chunk'],
+        ['search_code', 'group'],
+        ['trace_path', 'chunk'],
+      ]);
+    });
+
+    it('fans out only over the groups the caller may read', async () => {
+      const searcher = createMockSearcher();
+      const handler2 = new McpHandler({
+        searcher,
+        indexer: createMockIndexer(),
+        getProjects: () => new Map(),
+        getGroupNames: () => ['g1', 'g2'],
+      });
+
+      await withScopedServer(handler2, (port) => callTool(port, 'search_code', { query: 'auth' }));
+
+      const groups = vi.mocked(searcher.expandedSearch).mock.calls.map((c) => c[0]);
+      expect(groups).toEqual(['g1']);
+    });
+
+    it('drops find_usages neighbours the caller cannot read', async () => {
+      const metadataStore = createMockMetadataStore();
+      const seed = 'g1//p1//src/auth.ts//10-20//h1';
+      vi.mocked(metadataStore.getEdgesTo).mockReturnValue([
+        {
+          from_chunk_id: 'g1//p1//src/login.ts//5-15//h2',
+          to_chunk_id: seed,
+          relation_type: 'calls' as const,
+          symbol_name: 'authenticate',
+        },
+        {
+          from_chunk_id: 'g1//secret//src/admin.ts//1-9//h3',
+          to_chunk_id: seed,
+          relation_type: 'calls' as const,
+          symbol_name: 'authenticate',
+        },
+      ]);
+      (metadataStore as unknown as Record<string, unknown>)['getGroupDegreeSnapshot'] = vi
+        .fn()
+        .mockReturnValue({ hubChunkIds: new Set() });
+      const indexer = createMockIndexer();
+      vi.mocked(indexer.getChunkById).mockResolvedValue({ project: 'p1', file: 'src/auth.ts' });
+      const handler2 = new McpHandler({
+        searcher: createMockSearcher(),
+        indexer,
+        getProjects: () => new Map(),
+        getGroupNames: () => ['g1'],
+        metadataStore,
+      });
+
+      const { text } = await withScopedServer(handler2, (port) =>
+        callTool(port, 'find_usages', { chunk_id: seed })
+      );
+
+      expect(text).toContain('Incoming (1)');
+      expect(text).toContain('src/login.ts');
+      expect(text).not.toContain('admin.ts');
+    });
+
+    it('find_symbol only looks in, and returns, what the caller may read', async () => {
+      const indexer = createMockIndexer();
+      vi.mocked(indexer.listSymbolChunks).mockResolvedValue({
+        chunks: [
+          makeSymbolChunk(),
+          makeSymbolChunk({ chunk_id: 'g1//secret//src/auth.ts//1-9//h3', project: 'secret' }),
+        ],
+        truncated: false,
+      });
+      const handler2 = new McpHandler({
+        searcher: createMockSearcher(),
+        indexer,
+        getProjects: () => new Map(),
+        getGroupNames: () => ['g1', 'g2'],
+      });
+
+      const { text } = await withScopedServer(handler2, (port) =>
+        callTool(port, 'find_symbol', { name: 'AuthService' })
+      );
+
+      expect(vi.mocked(indexer.listSymbolChunks).mock.calls.map((c) => c[0])).toEqual(['g1']);
+      expect(vi.mocked(indexer.listSymbolChunks).mock.calls[0]![1].projects).toEqual(['p1']);
+      expect(text).toContain('(1)');
+      expect(text).not.toContain('secret');
+    });
+  });
 });
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { chunkMdx, mdxComponentUses } from '../src/mdx-chunker.js';
+
+describe('mdxComponentUses', () => {
+  it('finds capitalized JSX tags outside code', () => {
+    const text = [
+      '<Callout type="warn">Careful</Callout> and <div>html</div>',
+      '<Tabs.Item label="a" />',
+      'Inline `<NotThis />` stays out.',
+      '```tsx',
+      '<AlsoNotThis />',
+      '```',
+    ].join('\n');
+    expect(mdxComponentUses(text)).toEqual(['Callout', 'Tabs', 'Item']);
+  });
+});
+
+describe('chunkMdx', () => {
+  const mdx = [
+    "import { Chart, Legend as Key } from '../components/Chart';", // 0
+    "import Tabs from '@acme/ui/tabs';", // 1
+    '', // 2
+    '# Revenue', // 3
+    '', // 4
+    'Monthly totals.', // 5
+    '', // 6
+    '<Chart data={rows} />', // 7
+    '', // 8
+    '## Breakdown', // 9
+    '', // 10
+    '<Tabs><Key /></Tabs>', // 11
+  ].join('\n');
+
+  it('chunks by heading with rendered components and their imports', () => {
+    const result = chunkMdx(mdx, 400, 4096)!;
+    expect(result.chunks.map((c) => [c.startLine, c.endLine])).toEqual([
+      [0, 1],
+      [3, 7],
+      [9, 11],
+    ]);
+    expect(result.symbolResults.map((r) => r.uses_symbols)).toEqual([
+      [],
+      ['Chart'],
+      ['Tabs', 'Key'],
+    ]);
+    expect(result.symbolResults[2]!.imports).toEqual([
+      { local: 'Key', imported: 'Legend', source: '../components/Chart' },
+      { local: 'Tabs', imported: 'default', source: '@acme/ui/tabs' },
+    ]);
+  });
+
+  it('returns null when the page has no markdown structure', () => {
+    expect(chunkMdx('<Hero title="x" />\n', 1000, 4096)).toBeNull();
+  });
+});
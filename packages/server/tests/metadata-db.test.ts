@@ -376,6 +376,31 @@ describe('MetadataStore', () => {
     expect(to[0]!.from_chunk_id).toBe('g//p//caller.ts//1-5//h1');
   });
 
+  it('getEdgesInScope returns edges touching any chunk-id prefix, capped at the limit', async () => {
+    const edge = (from: string, to: string) => ({
+      from_chunk_id: from,
+      to_chunk_id: to,
+      relation_type: 'calls' as const,
+      symbol_name: 'x',
+    });
+    await store.upsertSymbolEdges([
+      edge('g//p//src/a.ts//1-5//h1', 'g//p//src/sub/b.ts//1-5//h2'),
+      edge('g//q//lib.ts//1-5//h3', 'g//p//src//1-5//h4'),
+      edge('g//q//lib.ts//1-5//h3', 'g//q//other.ts//1-5//h5'),
+      edge('g//p_x//src/a.ts//1-5//h6', 'g//p_x//src/c.ts//1-5//h7'),
+    ]);
+
+    expect(store.getEdgesInScope('g', ['g//p//'], 100)).toHaveLength(2);
+    expect(store.getEdgesInScope('g', ['g//p//src/sub//', 'g//p//src/sub/'], 100)).toEqual([
+      expect.objectContaining({ to_chunk_id: 'g//p//src/sub/b.ts//1-5//h2' }),
+    ]);
+    // `_` is literal, not a LIKE wildcard.
+    expect(store.getEdgesInScope('g', ['g//p_x//'], 100)).toHaveLength(1);
+    expect(store.getEdgesInScope('g', ['g//'], 2)).toHaveLength(2);
+    expect(store.getEdgesInScope('other', ['g//'], 100)).toEqual([]);
+    expect(store.getEdgesInScope('g', [], 100)).toEqual([]);
+  });
+
   it('round-trips EXTRACTED/INFERRED/AMBIGUOUS confidence values', async () => {
     await store.upsertSymbolEdges([
       {
@@ -993,3 +1018,117 @@ describe('MetadataStore git file cache', () => {
     expect(timeout).toBeGreaterThanOrEqual(30000);
   });
 });
+
+describe('MetadataStore ownership', () => {
+  let tmpDir: string;
+  let store: MetadataStore;
+
+  beforeEach(() => {
+    tmpDir = createTempDir();
+    store = new MetadataStore(path.join(tmpDir, 'test-metadata.db'));
+  });
+
+  afterEach(() => {
+    store.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('stores chunk contributors, most lines first, replacing on upsert', () => {
+    const id = 'g//p//src/a.ts//1-10//h1';
+    store.upsertChunkContributors(id, [
+      { author_email: 'b@x.com', lines: 2, last_at: '2026-01-02T00:00:00.000Z' },
+      { author_email: 'a@x.com', lines: 8, last_at: '2026-01-01T00:00:00.000Z' },
+    ]);
+    expect(store.getChunkContributors(id).map((c) => c.author_email)).toEqual([
+      'a@x.com',
+      'b@x.com',
+    ]);
+    expect(store.getChunkContributors(id, 1)).toHaveLength(1);
+
+    store.upsertChunkContributors(id, []);
+    expect(store.getChunkContributors(id)).toEqual([]);
+  });
+
+  it('sums file contributors over a directory, a file or the whole project', () => {
+    store.upsertFileContributors('g', 'p', 'src/billing/a.ts', [
+      { author_email: 'a@x.com', lines: 5, last_at: '2026-01-01T00:00:00.000Z' },
+      { author_email: 'b@x.com', lines: 3, last_at: '2026-03-01T00:00:00.000Z' },
+    ]);
+    store.upsertFileContributors('g', 'p', 'src/billing/b.ts', [
+      { author_email: 'b@x.com', lines: 4, last_at: '2026-02-01T00:00:00.000Z' },
+    ]);
+    store.upsertFileContributors('g', 'p', 'src/billing_old.ts', [
+      { author_email: 'c@x.com', lines: 50, last_at: '2026-01-01T00:00:00.000Z' },
+    ]);
+
+    expect(store.getContributors('g', 'p', ['src/billing/'], 10)).toEqual([
+      { author_email: 'b@x.com', lines: 7, last_at: '2026-03-01T00:00:00.000Z' },
+      { author_email: 'a@x.com', lines: 5, last_at: '2026-01-01T00:00:00.000Z' },
+    ]);
+    expect(
+      store.getContributors('g', 'p', ['src/billing/b.ts'], 10).map((c) => c.author_email)
+    ).toEqual(['b@x.com']);
+    expect(store.getContributors('g', 'p', [], 1).map((c) => c.author_email)).toEqual(['c@x.com']);
+  });
+
+  it('replaces CODEOWNERS assignments per project', () => {
+    store.replaceCodeOwners(
+      'g',
+      'p',
+      new Map([
+        ['src/billing/a.ts', ['@org/payments']],
+        ['src/billing/gen.ts', []],
+      ])
+    );
+    expect(store.getCodeOwners('g', 'p', 'src/billing/a.ts')).toEqual(['@org/payments']);
+    expect(store.getCodeOwners('g', 'p', 'src/billing/gen.ts')).toEqual([]);
+    expect(store.getCodeOwners('g', 'p', 'src/other.ts')).toBeNull();
+    expect(store.getCodeOwnersIn('g', 'p', ['src/billing'])).toEqual([
+      { file: 'src/billing/a.ts', owners: ['@org/payments'] },
+      { file: 'src/billing/gen.ts', owners: [] },
+    ]);
+
+    store.replaceCodeOwners('g', 'p', new Map());
+    expect(store.getCodeOwnersIn('g', 'p', [])).toEqual([]);
+  });
+
+  it('drops ownership with the file and the project', () => {
+    const id = 'g//p//src/a.ts//1-10//h1';
+    const contributors = [{ author_email: 'a@x.com', lines: 1, last_at: '2026-01-01T00:00:00Z' }];
+    store.upsertChunkContributors(id, contributors);
+    store.upsertFileContributors('g', 'p', 'src/a.ts', contributors);
+    store.upsertFileContributors('g', 'p', 'src/b.ts', contributors);
+    store.replaceCodeOwners(
+      'g',
+      'p',
+      new Map([
+        ['src/a.ts', ['@a']],
+        ['src/b.ts', ['@b']],
+      ])
+    );
+
+    store.deleteByFile('g', 'p', 'src/a.ts');
+    expect(store.getChunkContributors(id)).toEqual([]);
+    expect(store.getCodeOwners('g', 'p', 'src/a.ts')).toBeNull();
+    expect(store.getContributors('g', 'p', ['src/a.ts'], 10)).toEqual([]);
+    expect(store.getContributors('g', 'p', ['src/b.ts'], 10)).toHaveLength(1);
+
+    store.deleteByProject('g', 'p');
+    expect(store.getContributors('g', 'p', [], 10)).toEqual([]);
+    expect(store.getCodeOwners('g', 'p', 'src/b.ts')).toBeNull();
+  });
+
+  it('stores project link templates until cleared or the project is dropped', () => {
+    const links = { repo: 'team/billing', commit: 'https://git.example.com/{repo}/-/commit/{sha}' };
+    store.setProjectLinks('g', 'p', links);
+    expect(store.getProjectLinks('g', 'p')).toEqual(links);
+    expect(store.getProjectLinks('g', 'other')).toBeNull();
+
+    store.setProjectLinks('g', 'p', null);
+    expect(store.getProjectLinks('g', 'p')).toBeNull();
+
+    store.setProjectLinks('g', 'p', links);
+    store.deleteByProject('g', 'p');
+    expect(store.getProjectLinks('g', 'p')).toBeNull();
+  });
+});
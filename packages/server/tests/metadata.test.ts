@@ -39,7 +39,7 @@ describe('resolveTags', () => {
       bounded_context: null,
       tags: ['api', 'auth'],
       directory_tags: {},
-      git: { enabled: true, maxCommitsPerFile: 50, ticketPatterns: [] },
+      git: { enabled: true, maxCommitsPerFile: 50, ticketPatterns: [], ownershipMonths: 12 },
     };
     const tags = resolveTags(metadata, 'README.md');
     expect(tags).toContain('api');
@@ -54,7 +54,7 @@ describe('resolveTags', () => {
       directory_tags: {
         'src/controllers': ['controller', 'api'],
       },
-      git: { enabled: true, maxCommitsPerFile: 50, ticketPatterns: [] },
+      git: { enabled: true, maxCommitsPerFile: 50, ticketPatterns: [], ownershipMonths: 12 },
     };
     const tags = resolveTags(metadata, 'src/controllers/user.ts');
     expect(tags).toContain('controller');
@@ -69,7 +69,7 @@ describe('resolveTags', () => {
       directory_tags: {
         'src/controllers': ['controller'],
       },
-      git: { enabled: true, maxCommitsPerFile: 50, ticketPatterns: [] },
+      git: { enabled: true, maxCommitsPerFile: 50, ticketPatterns: [], ownershipMonths: 12 },
     };
     const tags = resolveTags(metadata, 'src/models/user.ts');
     expect(tags).not.toContain('controller');
@@ -83,7 +83,7 @@ describe('resolveTags', () => {
       directory_tags: {
         'src/controllers': ['controller'],
       },
-      git: { enabled: true, maxCommitsPerFile: 50, ticketPatterns: [] },
+      git: { enabled: true, maxCommitsPerFile: 50, ticketPatterns: [], ownershipMonths: 12 },
     };
     const tags = resolveTags(metadata, 'src/controllers/login.ts');
     expect(tags).toContain('auth');
@@ -99,7 +99,7 @@ describe('resolveTags', () => {
       directory_tags: {
         'src/controllers': ['controllers'],
       },
-      git: { enabled: true, maxCommitsPerFile: 50, ticketPatterns: [] },
+      git: { enabled: true, maxCommitsPerFile: 50, ticketPatterns: [], ownershipMonths: 12 },
     };
     const tags = resolveTags(metadata, 'src/controllers/user.ts');
     const controllersCount = tags.filter((t) => t === 'controllers').length;
@@ -20,6 +20,7 @@ describe('NoOpMetrics', () => {
     noop.setQueryCacheSize(50);
     noop.setQueryCacheHitRate(0.8);
     noop.setQdrantCollections(3);
+    noop.incAccessDeniedTotal('search_code', 'project');
   });
 
   it('handler returns 404', async () => {
@@ -81,6 +82,7 @@ describe('PrometheusMetrics', () => {
     metrics.incIndexErrorsTotal('test-group');
     metrics.observeEmbeddingDuration(0.05);
     metrics.incWatcherEventsTotal('test-group', 'changed');
+    metrics.incAccessDeniedTotal('get_chunk', 'chunk');
   });
 
   it('gauges work without throwing', () => {
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { chunkNotebook, parseNotebook } from '../src/notebook-chunker.js';
+import type { CellSymbolExtractor } from '../src/notebook-chunker.js';
+
+const notebook = (metadata: object, cells: object[]): string =>
+  JSON.stringify({ nbformat: 4, nbformat_minor: 5, metadata, cells });
+
+describe('parseNotebook', () => {
+  it('reads cells and the kernel language', () => {
+    const nb = parseNotebook(
+      notebook({ language_info: { name: 'python' }, kernelspec: { language: 'R' } }, [
+        { cell_type: 'markdown', source: ['# Title\n', 'Intro'] },
+        { cell_type: 'raw', source: 'ignored' },
+        { cell_type: 'code', source: 'x = 1', outputs: [] },
+        { cell_type: 'code', source: '   ' },
+      ])
+    );
+    expect(nb).toEqual({
+      language: 'python',
+      cells: [
+        { index: 0, type: 'markdown', source: '# Title\nIntro' },
+        { index: 2, type: 'code', source: 'x = 1' },
+      ],
+    });
+  });
+
+  it('normalizes kernel names and defaults to python', () => {
+    expect(parseNotebook(notebook({ kernelspec: { language: 'Python3' } }, []))?.language).toBe(
+      'python'
+    );
+    expect(parseNotebook(notebook({ language_info: { name: 'scala' } }, []))?.language).toBe(
+      'scala'
+    );
+    expect(parseNotebook(notebook({}, []))?.language).toBe('python');
+  });
+
+  it('returns null for anything but a notebook', () => {
+    expect(parseNotebook('{"cells": ')).toBeNull();
+    expect(parseNotebook('{"name": "pkg"}')).toBeNull();
+  });
+});
+
+describe('chunkNotebook', () => {
+  const nb = parseNotebook(
+    notebook({ kernelspec: { language: 'python' } }, [
+      { cell_type: 'markdown', source: '## Load' },
+      {
+        cell_type: 'code',
+        source: ['!pip install pandas\n', 'import pandas as pd\n', 'df = pd.read_csv("x")'],
+      },
+    ])
+  )!;
+
+  it('anchors every chunk at its cell index', async () => {
+    const { chunks, symbolResults } = await chunkNotebook(nb, 4096);
+    expect(chunks.map((c) => [c.startLine, c.endLine, c.content])).toEqual([
+      [0, 0, '## Load'],
+      [1, 1, '!pip install pandas\nimport pandas as pd\ndf = pd.read_csv("x")'],
+    ]);
+    expect(symbolResults.map((r) => r.defines_symbols)).toEqual([[], []]);
+  });
+
+  it('parses code cells with magics blanked, by line range within the cell', async () => {
+    const calls: Array<[string, Array<{ startLine: number; endLine: number }>]> = [];
+    const extract: CellSymbolExtractor = async (code, ranges) => {
+      calls.push([code, ranges]);
+      return ranges.map(() => ({
+        defines_symbols: ['df'],
+        uses_symbols: ['pd'],
+        defined_symbols: [{ name: 'df', kind: 'variable' }],
+        imports: [],
+        heritage: [],
+      }));
+    };
+    const { chunks, symbolResults } = await chunkNotebook(nb, 40, extract);
+    expect(calls).toEqual([
+      [
+        '\nimport pandas as pd\ndf = pd.read_csv("x")',
+        [
+          { startLine: 0, endLine: 1 },
+          { startLine: 2, endLine: 2 },
+        ],
+      ],
+    ]);
+    expect(chunks.map((c) => [c.startLine, c.endLine])).toEqual([
+      [0, 0],
+      [1, 1],
+      [1, 1],
+    ]);
+    expect(symbolResults.map((r) => r.defines_symbols)).toEqual([[], ['df'], ['df']]);
+  });
+});
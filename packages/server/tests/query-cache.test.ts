@@ -63,6 +63,13 @@ describe('QueryCache', () => {
     expect(key1).not.toBe(key2);
   });
 
+  it('buildKey includes structured search filters in hash', () => {
+    const key1 = cache.buildKey('group', 'query', { limit: 5 });
+    const key2 = cache.buildKey('group', 'query', { limit: 5, filters: { languages: ['go'] } });
+    const key3 = cache.buildKey('group', 'query', { limit: 5, filters: { languages: ['ts'] } });
+    expect(new Set([key1, key2, key3]).size).toBe(3);
+  });
+
   it('get/set roundtrip works', () => {
     const key = cache.buildKey('group', 'query');
     const response = makeResponse();
@@ -0,0 +1,123 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { HeuristicReranker, LlamaServerReranker, createRerankerFromEnv } from '../src/reranker.js';
+import type { SearchResult } from '../src/types.js';
+
+function result(overrides: Partial<SearchResult>): SearchResult {
+  return {
+    project: 'p',
+    file: 'src/a.ts',
+    language: 'typescript',
+    startLine: 1,
+    endLine: 5,
+    content: '',
+    score: 0.5,
+    hash: 'h',
+    chunk_id: null,
+    symbol_name: null,
+    kind: null,
+    service: null,
+    bounded_context: null,
+    tags: [],
+    last_commit_at: null,
+    defines_symbols: [],
+    uses_symbols: [],
+    ...overrides,
+  };
+}
+
+describe('HeuristicReranker', () => {
+  const reranker = new HeuristicReranker();
+
+  it('boosts chunks covering more query terms', async () => {
+    const [a, b] = await reranker.rerank('refresh token expiry', [
+      result({ content: 'function render() {}', score: 0.6 }),
+      result({ content: 'if (token.expiry < now) refresh(token)', score: 0.55 }),
+    ]);
+    expect(b!).toBeGreaterThan(a!);
+  });
+
+  it('boosts chunks that define a symbol named in the query', async () => {
+    const [a, b] = await reranker.rerank('where is getUserToken', [
+      result({ content: 'x', score: 0.5 }),
+      result({ content: 'x', score: 0.5, defines_symbols: ['getUserToken'] }),
+    ]);
+    expect(b!).toBeGreaterThan(a!);
+  });
+
+  it('is deterministic and falls back to the retrieval score for empty queries', async () => {
+    const candidates = [result({ content: 'a b c', score: 0.7 }), result({ score: 0.3 })];
+    expect(await reranker.rerank('', candidates)).toEqual([0.7, 0.3]);
+    expect(await reranker.rerank('abc', candidates)).toEqual(
+      await reranker.rerank('abc', candidates)
+    );
+  });
+});
+
+describe('LlamaServerReranker', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('posts query + documents to /rerank and maps scores back to input order', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        results: [
+          { index: 1, relevance_score: 4.2 },
+          { index: 0, relevance_score: -1.3 },
+        ],
+      }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const reranker = new LlamaServerReranker({
+      url: 'http://rerank:8080/',
+      model: 'bge-reranker-v2-m3',
+    });
+    const scores = await reranker.rerank('q', [
+      result({ content: 'first' }),
+      result({ content: 'second' }),
+    ]);
+
+    expect(scores).toEqual([-1.3, 4.2]);
+    expect(reranker.name).toBe('llama:bge-reranker-v2-m3');
+    const [url, init] = fetchMock.mock.calls[0]!;
+    expect(url).toBe('http://rerank:8080/rerank');
+    expect(JSON.parse((init as { body: string }).body)).toEqual({
+      model: 'bge-reranker-v2-m3',
+      query: 'q',
+      documents: ['first', 'second'],
+    });
+  });
+
+  it('throws on HTTP errors', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue({ ok: false, status: 501, text: async () => 'not enabled' })
+    );
+    const reranker = new LlamaServerReranker({ url: 'http://rerank:8080' });
+    await expect(reranker.rerank('q', [result({ content: 'x' })])).rejects.toThrow(
+      'llama-server rerank error 501'
+    );
+  });
+});
+
+describe('createRerankerFromEnv', () => {
+  it('is disabled by default', () => {
+    expect(createRerankerFromEnv({})).toBeUndefined();
+    expect(createRerankerFromEnv({ RERANKER: 'none' })).toBeUndefined();
+  });
+
+  it('builds the heuristic and llama rerankers', () => {
+    expect(createRerankerFromEnv({ RERANKER: 'heuristic' })?.name).toBe('heuristic');
+    expect(
+      createRerankerFromEnv({ RERANKER: 'llama', RERANK_URL: 'http://r:1', RERANK_MODEL: 'm' })
+        ?.name
+    ).toBe('llama:m');
+  });
+
+  it('rejects llama without a URL and unknown kinds', () => {
+    expect(() => createRerankerFromEnv({ RERANKER: 'llama' })).toThrow('RERANK_URL');
+    expect(() => createRerankerFromEnv({ RERANKER: 'cohere' })).toThrow('Unknown RERANKER');
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compilePathFilter,
+  filterConditions,
+  filterExclusions,
+  normalizeSearchFilters,
+  parseSearchFilters,
+} from '../src/search-filters.js';
+
+describe('filterConditions', () => {
+  it('returns no conditions without filters', () => {
+    expect(filterConditions(undefined)).toEqual([]);
+    expect(filterConditions({ languages: [], tags: [] })).toEqual([]);
+  });
+
+  it('leaves path globs to the post-filter', () => {
+    expect(filterConditions({ paths: ['src/**'], exclude_paths: ['**/*.test.ts'] })).toEqual([]);
+  });
+});
+
+describe('filterExclusions', () => {
+  it('drops chunks flagged as tests only when asked', () => {
+    expect(filterExclusions(undefined)).toEqual([]);
+    expect(filterExclusions({ exclude_tests: false })).toEqual([]);
+    expect(filterExclusions({ exclude_tests: true })).toEqual([
+      { key: 'is_test', match: { value: true } },
+    ]);
+  });
+});
+
+describe('compilePathFilter', () => {
+  it('returns null without path globs', () => {
+    expect(compilePathFilter({ languages: ['go'] })).toBeNull();
+  });
+
+  it('requires an include match and no exclude match', () => {
+    const match = compilePathFilter({
+      paths: ['internal/billing/**', 'pkg/**'],
+      exclude_paths: ['**/*_test.go'],
+    })!;
+    expect(match('internal/billing/charge.go')).toBe(true);
+    expect(match('pkg/money/money.go')).toBe(true);
+    expect(match('internal/billing/charge_test.go')).toBe(false);
+    expect(match('cmd/main.go')).toBe(false);
+  });
+
+  it('exclude-only keeps everything else, including dot directories', () => {
+    const match = compilePathFilter({ exclude_paths: ['vendor/**'] })!;
+    expect(match('.github/workflows/ci.yml')).toBe(true);
+    expect(match('vendor/x/y.go')).toBe(false);
+  });
+});
+
+describe('parseSearchFilters', () => {
+  it('accepts a well-formed filters object and drops empty fields', () => {
+    expect(
+      parseSearchFilters({
+        languages: ['go'],
+        kinds: ['method'],
+        paths: [],
+        service: '',
+        bounded_context: 'invoicing',
+      })
+    ).toEqual({ languages: ['go'], kinds: ['method'], bounded_context: 'invoicing' });
+  });
+
+  it('returns undefined for missing or empty filters', () => {
+    expect(parseSearchFilters(undefined)).toBeUndefined();
+    expect(parseSearchFilters({})).toBeUndefined();
+  });
+
+  it('rejects malformed input with the field name', () => {
+    expect(() => parseSearchFilters('go')).toThrow('filters must be an object');
+    expect(() => parseSearchFilters({ languages: 'go' })).toThrow('filters.languages');
+    expect(() => parseSearchFilters({ kinds: ['lambda'] })).toThrow('unknown kind "lambda"');
+    expect(() => parseSearchFilters({ service: 42 })).toThrow('filters.service');
+    expect(() => parseSearchFilters({ exclude_tests: 'yes' })).toThrow(
+      'filters.exclude_tests must be a boolean'
+    );
+  });
+
+  it('keeps exclude_tests only when set', () => {
+    expect(parseSearchFilters({ exclude_tests: true })).toEqual({ exclude_tests: true });
+    expect(parseSearchFilters({ exclude_tests: false })).toBeUndefined();
+  });
+});
+
+describe('normalizeSearchFilters', () => {
+  it('returns undefined when nothing is set', () => {
+    expect(normalizeSearchFilters({ languages: undefined, tags: [] })).toBeUndefined();
+  });
+});
@@ -4,6 +4,8 @@ import path from 'path';
 import os from 'os';
 import { Searcher } from '../src/searcher.js';
 import { toCollectionName } from '../src/indexer.js';
+import { QueryCache } from '../src/query-cache.js';
+import { access, UNRESTRICTED } from '../src/auth/access.js';
 
 /** All searches now exclude the per-collection metadata sentinel point.
  *  Shorthand so the test assertions stay readable. */
@@ -105,6 +107,7 @@ describe('Searcher', () => {
       endLine: 25,
       content: 'const x = 1;',
       score: 0.95,
+      rankScore: 1 / 61,
       hash: 'abc123',
       chunk_id: null,
       symbol_name: null,
@@ -1063,6 +1066,71 @@ describe('Searcher', () => {
       );
     });
 
+    it('branch: searches the branch variants plus the default-branch chunks shared with it', async () => {
+      mockQdrant.client.search.mockResolvedValue([]);
+
+      const searcher = new Searcher({
+        qdrantUrl: 'http://127.0.0.1:6333',
+        embeddingProvider,
+        qdrantClient: mockQdrant.client as never,
+        allowedProjects: ['billing', 'feed'],
+        projectSuffix: '-v3',
+      });
+
+      await searcher.search('test-group', 'query', { project: 'all', branch: 'release/2.x' });
+
+      expect(mockQdrant.client.search).toHaveBeenCalledWith(
+        toCollectionName('test-group'),
+        expect.objectContaining({
+          filter: {
+            must: [
+              {
+                should: [
+                  {
+                    key: 'project',
+                    match: { any: ['billing-v3@release/2.x', 'feed-v3@release/2.x'] },
+                  },
+                  {
+                    must: [
+                      { key: 'project', match: { any: ['billing-v3', 'feed-v3'] } },
+                      { key: 'branches', match: { value: 'release/2.x' } },
+                    ],
+                  },
+                ],
+              },
+            ],
+            must_not: META_NOT,
+          },
+        })
+      );
+    });
+
+    it('explicit branch project of an allowed project is allowed', async () => {
+      mockQdrant.client.search.mockResolvedValue([]);
+
+      const searcher = new Searcher({
+        qdrantUrl: 'http://127.0.0.1:6333',
+        embeddingProvider,
+        qdrantClient: mockQdrant.client as never,
+        allowedProjects: ['org/core'],
+      });
+
+      await searcher.search('test-group', 'query', { project: 'org/core@feat' });
+      const forbidden = await searcher.search('test-group', 'query', { project: 'org/x@feat' });
+
+      expect(mockQdrant.client.search).toHaveBeenCalledTimes(1);
+      expect(mockQdrant.client.search).toHaveBeenCalledWith(
+        toCollectionName('test-group'),
+        expect.objectContaining({
+          filter: {
+            must: [{ key: 'project', match: { value: 'org/core@feat' } }],
+            must_not: META_NOT,
+          },
+        })
+      );
+      expect(forbidden.results).toEqual([]);
+    });
+
     it('explicit project NOT in allowed set: returns empty, Qdrant not called', async () => {
       const searcher = new Searcher({
         qdrantUrl: 'http://127.0.0.1:6333',
@@ -1163,4 +1231,543 @@ describe('Searcher', () => {
       );
     });
   });
+
+  describe('caller access rules', () => {
+    const scoped = (groups: string[] | null, projects: string[] | null) => ({
+      ...UNRESTRICTED,
+      groups,
+      projects,
+    });
+
+    it('narrows the server-wide scope to the caller projects', async () => {
+      mockQdrant.client.search.mockResolvedValue([]);
+      const searcher = new Searcher({
+        qdrantUrl: 'http://127.0.0.1:6333',
+        embeddingProvider,
+        qdrantClient: mockQdrant.client as never,
+        allowedProjects: ['org/core', 'org/tracking'],
+      });
+
+      await access.run(scoped(null, ['org/tracking', 'org/other']), () =>
+        searcher.search('test-group', 'query')
+      );
+
+      expect(mockQdrant.client.search).toHaveBeenCalledWith(
+        toCollectionName('test-group'),
+        expect.objectContaining({
+          filter: {
+            must: [{ key: 'project', match: { value: 'org/tracking' } }],
+            must_not: META_NOT,
+          },
+        })
+      );
+    });
+
+    it('returns empty without calling Qdrant for a group or project outside the rules', async () => {
+      const searcher = new Searcher({
+        qdrantUrl: 'http://127.0.0.1:6333',
+        embeddingProvider,
+        qdrantClient: mockQdrant.client as never,
+      });
+
+      const otherGroup = await access.run(scoped(['g1'], null), () =>
+        searcher.search('test-group', 'query')
+      );
+      const otherProject = await access.run(scoped(null, ['org/core']), () =>
+        searcher.search('test-group', 'query', { project: 'org/tracking' })
+      );
+      const disjoint = await access.run(scoped(null, []), () =>
+        searcher.search('test-group', 'query')
+      );
+
+      expect([otherGroup.total, otherProject.total, disjoint.total]).toEqual([0, 0, 0]);
+      expect(mockQdrant.client.search).not.toHaveBeenCalled();
+    });
+
+    it('does not serve cached results across callers with different rules', async () => {
+      mockQdrant.client.search.mockResolvedValue([]);
+      const searcher = new Searcher({
+        qdrantUrl: 'http://127.0.0.1:6333',
+        embeddingProvider,
+        qdrantClient: mockQdrant.client as never,
+        cache: new QueryCache(),
+      });
+
+      await searcher.search('test-group', 'query');
+      await access.run(scoped(null, ['org/core']), () => searcher.search('test-group', 'query'));
+      await access.run(scoped(null, ['org/core']), () => searcher.search('test-group', 'query'));
+
+      expect(mockQdrant.client.search).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('hybrid collections', () => {
+    const HIT = {
+      id: '1',
+      score: 0.82,
+      payload: {
+        project: 'p',
+        file: 'src/retry.ts',
+        language: 'typescript',
+        startLine: 1,
+        endLine: 5,
+        content: 'const MAX_RETRIES = 3;',
+        hash: 'h1',
+      },
+    };
+
+    function createHybridQdrant() {
+      return {
+        getCollection: vi.fn().mockResolvedValue({
+          config: { params: { vectors: { dense: { size: 4, distance: 'Cosine' } } } },
+        }),
+        query: vi.fn().mockResolvedValue({ points: [HIT] }),
+        search: vi.fn(),
+      };
+    }
+
+    it('hybrid (default): fuses dense + BM25 with RRF and keeps the fused order', async () => {
+      const qdrant = createHybridQdrant();
+      const searcher = new Searcher({
+        qdrantUrl: 'http://127.0.0.1:6333',
+        embeddingProvider,
+        qdrantClient: qdrant as never,
+      });
+
+      const response = await searcher.search('test-group', 'MAX_RETRIES', { limit: 3 });
+
+      expect(response.results[0]!.rankScore).toBe(1 / 61);
+      expect(qdrant.search).not.toHaveBeenCalled();
+      const [collection, body] = qdrant.query.mock.calls[0]!;
+      expect(collection).toBe(toCollectionName('test-group'));
+      expect(body).toMatchObject({
+        query: { fusion: 'rrf' },
+        limit: 3,
+        with_payload: true,
+        with_vector: ['dense'],
+      });
+      expect(body.using).toBeUndefined();
+      expect(body.prefetch.map((p: { using: string }) => p.using)).toEqual(['dense', 'text']);
+      expect(body.prefetch[0].query).toHaveLength(4);
+      const sparse = body.prefetch[1].query as { indices: number[]; values: number[] };
+      // "MAX_RETRIES" → max_retries, max, retries
+      expect(sparse.indices).toHaveLength(3);
+      expect(body.prefetch[0].filter).toEqual({ must_not: META_NOT });
+    });
+
+    it('hybrid: a BM25-only hit keeps its fused rank; score is the cosine from the dense vector', async () => {
+      const qdrant = createHybridQdrant();
+      // RRF put the exact-identifier hit first even though its cosine is lower.
+      qdrant.query.mockResolvedValue({
+        points: [
+          {
+            ...HIT,
+            score: 0.5,
+            vector: { dense: [0, 1, 0, 0] },
+          },
+          {
+            ...HIT,
+            id: '2',
+            score: 0.33,
+            vector: { dense: [11, 77, 0, 1] },
+            payload: { ...HIT.payload, file: 'src/http.ts', hash: 'h2' },
+          },
+        ],
+      });
+      const searcher = new Searcher({
+        qdrantUrl: 'http://127.0.0.1:6333',
+        embeddingProvider,
+        qdrantClient: qdrant as never,
+      });
+
+      // Query vector for "MAX_RETRIES" is [11, 77, 0, 1].
+      const response = await searcher.search('test-group', 'MAX_RETRIES', { limit: 2 });
+
+      expect(response.results.map((r) => r.file)).toEqual(['src/retry.ts', 'src/http.ts']);
+      expect(response.results.map((r) => r.rankScore)).toEqual([1 / 61, 1 / 62]);
+      expect(response.results[0]!.score).toBeCloseTo(77 / Math.sqrt(11 * 11 + 77 * 77 + 1));
+      expect(response.results[1]!.score).toBeCloseTo(1);
+    });
+
+    it('sparse: BM25-only query against the named sparse vector', async () => {
+      const qdrant = createHybridQdrant();
+      const searcher = new Searcher({
+        qdrantUrl: 'http://127.0.0.1:6333',
+        embeddingProvider,
+        qdrantClient: qdrant as never,
+      });
+
+      qdrant.query.mockResolvedValue({
+        points: [{ ...HIT, score: 7.4, vector: { dense: [1, 0, 0, 0] } }],
+      });
+      const response = await searcher.search('test-group', 'ECONNRESET', { mode: 'sparse' });
+
+      const body = qdrant.query.mock.calls[0]![1];
+      expect(body.using).toBe('text');
+      expect(body.with_vector).toEqual(['dense']);
+      // The BM25 weight is not a cosine; the reported score is.
+      expect(response.results[0]!.score).toBeGreaterThan(0);
+      expect(response.results[0]!.score).toBeLessThanOrEqual(1);
+      expect(body.query.indices).toHaveLength(1);
+      expect(body.prefetch).toBeUndefined();
+    });
+
+    it('sparse: a query with no tokens returns nothing without calling Qdrant', async () => {
+      const qdrant = createHybridQdrant();
+      const searcher = new Searcher({
+        qdrantUrl: 'http://127.0.0.1:6333',
+        embeddingProvider,
+        qdrantClient: qdrant as never,
+      });
+
+      const response = await searcher.search('test-group', '=> {}', { mode: 'sparse' });
+
+      expect(response.results).toEqual([]);
+      expect(qdrant.query).not.toHaveBeenCalled();
+    });
+
+    it('dense: queries the named dense vector only', async () => {
+      const qdrant = createHybridQdrant();
+      const searcher = new Searcher({
+        qdrantUrl: 'http://127.0.0.1:6333',
+        embeddingProvider,
+        qdrantClient: qdrant as never,
+      });
+
+      await searcher.search('test-group', 'retry logic', { mode: 'dense' });
+
+      const body = qdrant.query.mock.calls[0]![1];
+      expect(body.using).toBe('dense');
+      expect(body.prefetch).toBeUndefined();
+    });
+
+    it('legacy single-vector collection: every mode falls back to dense search', async () => {
+      const qdrant = createHybridQdrant();
+      qdrant.getCollection.mockResolvedValue({
+        config: { params: { vectors: { size: 4, distance: 'Cosine' } } },
+      });
+      qdrant.search.mockResolvedValue([HIT]);
+      const searcher = new Searcher({
+        qdrantUrl: 'http://127.0.0.1:6333',
+        embeddingProvider,
+        qdrantClient: qdrant as never,
+      });
+
+      const response = await searcher.search('test-group', 'retries', { mode: 'sparse' });
+
+      expect(response.results).toHaveLength(1);
+      expect(qdrant.query).not.toHaveBeenCalled();
+      expect(qdrant.search).toHaveBeenCalledTimes(1);
+    });
+
+    it('intentWeight blends the code and doc vector scores with a formula', async () => {
+      const qdrant = createHybridQdrant();
+      qdrant.getCollection.mockResolvedValue({
+        config: {
+          params: {
+            vectors: {
+              dense: { size: 4, distance: 'Cosine' },
+              doc: { size: 4, distance: 'Cosine' },
+            },
+          },
+        },
+      });
+      const searcher = new Searcher({
+        qdrantUrl: 'http://127.0.0.1:6333',
+        embeddingProvider,
+        qdrantClient: qdrant as never,
+      });
+
+      await searcher.search('test-group', 'charge the card', { limit: 3, intentWeight: 0.7 });
+
+      const body = qdrant.query.mock.calls[0]![1];
+      expect(body.using).toBeUndefined();
+      expect(body.prefetch.map((p: { using: string }) => p.using)).toEqual(['dense', 'doc']);
+      // The code side re-scores the dense + BM25 candidates by the dense vector
+      expect(body.prefetch[0].prefetch.query).toEqual({ fusion: 'rrf' });
+      expect(body.query.formula.sum[0].mult[0]).toBeCloseTo(0.3);
+      expect(body.query.formula.sum[1]).toEqual({ mult: [0.7, '$score[1]'] });
+      expect(body.query.defaults).toEqual({ '$score[0]': 0, '$score[1]': 0 });
+    });
+
+    it('intentWeight is ignored on collections without the doc vector', async () => {
+      const qdrant = createHybridQdrant();
+      const searcher = new Searcher({
+        qdrantUrl: 'http://127.0.0.1:6333',
+        embeddingProvider,
+        qdrantClient: qdrant as never,
+      });
+
+      await searcher.search('test-group', 'charge the card', { intentWeight: 1 });
+
+      const body = qdrant.query.mock.calls[0]![1];
+      expect(body.query).toEqual({ fusion: 'rrf' });
+      expect(body.prefetch.map((p: { using: string }) => p.using)).toEqual(['dense', 'text']);
+    });
+
+    it('caches per mode', async () => {
+      const qdrant = createHybridQdrant();
+      const searcher = new Searcher({
+        qdrantUrl: 'http://127.0.0.1:6333',
+        embeddingProvider,
+        qdrantClient: qdrant as never,
+        cache: new QueryCache(),
+      });
+
+      await searcher.search('test-group', 'retries', { mode: 'dense' });
+      await searcher.search('test-group', 'retries', { mode: 'dense' });
+      await searcher.search('test-group', 'retries', { mode: 'sparse' });
+
+      expect(qdrant.query).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('reranking', () => {
+    function hit(id: string, score: number, content: string) {
+      return {
+        id,
+        score,
+        payload: {
+          project: 'p',
+          file: `src/${id}.ts`,
+          language: 'typescript',
+          startLine: 1,
+          endLine: 5,
+          content,
+          hash: `h${id}`,
+          chunk_id: `chunk-${id}`,
+        },
+      };
+    }
+
+    it('over-fetches candidates and returns the reranked top `limit`', async () => {
+      mockQdrant.client.search.mockResolvedValue([
+        hit('a', 0.9, 'render()'),
+        hit('b', 0.8, 'layout()'),
+        hit('c', 0.7, 'refreshToken()'),
+      ]);
+      const recordSearch = vi.fn();
+      const searcher = new Searcher({
+        qdrantUrl: 'http://127.0.0.1:6333',
+        embeddingProvider,
+        qdrantClient: mockQdrant.client as never,
+        telemetry: { recordSearch } as never,
+        reranker: { name: 'test', rerank: async () => [0.1, 0.2, 0.9] },
+        rerankOverfetch: 3,
+      });
+
+      const response = await searcher.search('g', 'refresh token', { limit: 2 });
+
+      expect(mockQdrant.client.search).toHaveBeenCalledWith(
+        toCollectionName('g'),
+        expect.objectContaining({ limit: 6 })
+      );
+      expect(response.results.map((r) => r.file)).toEqual(['src/c.ts', 'src/b.ts']);
+      // Retrieval score is kept; the reranked position travels as the order key.
+      expect(response.results[0]!.score).toBe(0.7);
+      expect(response.results.map((r) => r.rankScore)).toEqual([1 / 61, 1 / 62]);
+
+      const event = recordSearch.mock.calls[0]![0];
+      expect(event.reranker).toBe('test');
+      expect(
+        event.results.map((r: { rank: number; preRerankRank: number }) => [r.rank, r.preRerankRank])
+      ).toEqual([
+        [0, 2],
+        [1, 1],
+      ]);
+    });
+
+    it('keeps retrieval order when the reranker fails', async () => {
+      mockQdrant.client.search.mockResolvedValue([hit('a', 0.9, 'x'), hit('b', 0.8, 'y')]);
+      const recordSearch = vi.fn();
+      const searcher = new Searcher({
+        qdrantUrl: 'http://127.0.0.1:6333',
+        embeddingProvider,
+        qdrantClient: mockQdrant.client as never,
+        telemetry: { recordSearch } as never,
+        reranker: {
+          name: 'down',
+          rerank: async () => {
+            throw new Error('connection refused');
+          },
+        },
+      });
+
+      const response = await searcher.search('g', 'x', { limit: 1 });
+
+      expect(response.results.map((r) => r.file)).toEqual(['src/a.ts']);
+      expect(recordSearch.mock.calls[0]![0].reranker).toBeNull();
+    });
+
+    it('reranks the merged candidates of an expanded search', async () => {
+      mockQdrant.client.search.mockResolvedValue([
+        hit('a', 0.9, 'render()'),
+        hit('b', 0.5, 'function authMiddleware() {}'),
+      ]);
+      const searcher = new Searcher({
+        qdrantUrl: 'http://127.0.0.1:6333',
+        embeddingProvider,
+        qdrantClient: mockQdrant.client as never,
+        reranker: {
+          name: 'test',
+          rerank: async (_q, candidates) => candidates.map((c) => (c.file === 'src/b.ts' ? 1 : 0)),
+        },
+      });
+
+      const response = await searcher.expandedSearch('g', 'auth middleware', { limit: 1 });
+
+      expect(response.results.map((r) => r.file)).toEqual(['src/b.ts']);
+    });
+  });
+
+  describe('structured filters', () => {
+    function hit(file: string, score: number) {
+      return {
+        id: file,
+        score,
+        payload: {
+          project: 'p',
+          file,
+          language: 'go',
+          startLine: 1,
+          endLine: 5,
+          content: 'func Charge() {}',
+          hash: `h-${file}`,
+        },
+      };
+    }
+
+    it('turns language / kind / tags / service / bounded_context into Qdrant conditions', async () => {
+      mockQdrant.client.search.mockResolvedValue([]);
+      const searcher = new Searcher({
+        qdrantUrl: 'http://127.0.0.1:6333',
+        embeddingProvider,
+        qdrantClient: mockQdrant.client as never,
+      });
+
+      await searcher.search('g', 'charge card', {
+        filters: {
+          languages: ['go'],
+          kinds: ['method'],
+          tags: ['payments'],
+          service: 'billing',
+          bounded_context: 'invoicing',
+        },
+      });
+
+      const call = mockQdrant.client.search.mock.calls[0]![1] as {
+        filter: { must: unknown[] };
+        limit: number;
+      };
+      expect(call.filter.must).toEqual([
+        { key: 'language', match: { any: ['go'] } },
+        { key: 'kind', match: { any: ['method'] } },
+        { key: 'tags', match: { any: ['payments'] } },
+        { key: 'service', match: { value: 'billing' } },
+        { key: 'bounded_context', match: { value: 'invoicing' } },
+      ]);
+      expect(call.limit).toBe(5);
+    });
+
+    it('over-fetches and matches path globs against the file', async () => {
+      mockQdrant.client.search.mockResolvedValue([
+        hit('internal/billing/charge.go', 0.9),
+        hit('internal/billing/charge_test.go', 0.85),
+        hit('cmd/main.go', 0.8),
+        hit('internal/billing/refund.go', 0.7),
+      ]);
+      const searcher = new Searcher({
+        qdrantUrl: 'http://127.0.0.1:6333',
+        embeddingProvider,
+        qdrantClient: mockQdrant.client as never,
+      });
+
+      const response = await searcher.search('g', 'charge', {
+        limit: 2,
+        filters: { paths: ['internal/billing/**'], exclude_paths: ['**/*_test.go'] },
+      });
+
+      expect(mockQdrant.client.search.mock.calls[0]![1]).toMatchObject({ limit: 10 });
+      expect(response.results.map((r) => r.file)).toEqual([
+        'internal/billing/charge.go',
+        'internal/billing/refund.go',
+      ]);
+    });
+
+    it('pages past the first window until enough chunks match the path globs', async () => {
+      const elsewhere = Array.from({ length: 10 }, (_, i) => hit(`cmd/tool${i}.go`, 0.9 - i / 100));
+      mockQdrant.client.search
+        .mockResolvedValueOnce(elsewhere)
+        .mockResolvedValueOnce([...elsewhere.slice(0, 9), hit('internal/billing/charge.go', 0.6)])
+        .mockResolvedValueOnce([
+          hit('internal/billing/refund.go', 0.5),
+          hit('internal/billing/invoice.go', 0.4),
+        ]);
+      const searcher = new Searcher({
+        qdrantUrl: 'http://127.0.0.1:6333',
+        embeddingProvider,
+        qdrantClient: mockQdrant.client as never,
+      });
+
+      const response = await searcher.search('g', 'charge', {
+        limit: 2,
+        filters: { paths: ['internal/billing/**'] },
+      });
+
+      expect(response.results.map((r) => r.file)).toEqual([
+        'internal/billing/charge.go',
+        'internal/billing/refund.go',
+      ]);
+      const calls = mockQdrant.client.search.mock.calls.map(
+        (c) => c[1] as { limit: number; offset?: number }
+      );
+      expect(calls.map((c) => [c.limit, c.offset])).toEqual([
+        [10, undefined],
+        [10, 10],
+        [10, 20],
+      ]);
+    });
+
+    it('stops paging when the ranking runs out', async () => {
+      mockQdrant.client.search
+        .mockResolvedValueOnce(Array.from({ length: 10 }, (_, i) => hit(`cmd/tool${i}.go`, 0.9)))
+        .mockResolvedValueOnce([hit('cmd/main.go', 0.5)]);
+      const searcher = new Searcher({
+        qdrantUrl: 'http://127.0.0.1:6333',
+        embeddingProvider,
+        qdrantClient: mockQdrant.client as never,
+      });
+
+      const response = await searcher.search('g', 'charge', {
+        limit: 2,
+        filters: { paths: ['internal/billing/**'] },
+      });
+
+      expect(response.results).toEqual([]);
+      expect(mockQdrant.client.search).toHaveBeenCalledTimes(2);
+    });
+
+    it('searchWithFilter merges filters with the caller conditions', async () => {
+      mockQdrant.client.search.mockResolvedValue([]);
+      const searcher = new Searcher({
+        qdrantUrl: 'http://127.0.0.1:6333',
+        embeddingProvider,
+        qdrantClient: mockQdrant.client as never,
+      });
+
+      await searcher.searchWithFilter(
+        'g',
+        'charge',
+        { must: [{ key: 'last_commit_at', range: { gte: '2024-01-01' } }] },
+        { project: 'billing', filters: { languages: ['go'] } }
+      );
+
+      const call = mockQdrant.client.search.mock.calls[0]![1] as { filter: { must: unknown[] } };
+      expect(call.filter.must).toEqual([
+        { key: 'last_commit_at', range: { gte: '2024-01-01' } },
+        { key: 'language', match: { any: ['go'] } },
+        { key: 'project', match: { value: 'billing' } },
+      ]);
+    });
+  });
 });
@@ -10,6 +10,7 @@ import type { WatcherManager } from '../src/watcher.js';
 import type { CachedEmbeddingProvider } from '../src/embeddings.js';
 import type { MetadataStore } from '../src/metadata-db.js';
 import type { ProjectConfig } from '../src/types.js';
+import { ApiTokenStore } from '../src/auth/token-store.js';
 // ── Test helpers ───────────────────────────────────────────────────────────
 
 function createTempDir(): string {
@@ -46,7 +47,7 @@ function createProjectConfig(overrides?: Partial<ProjectConfig>): ProjectConfig
       bounded_context: null,
       tags: [],
       directory_tags: {},
-      git: { enabled: true, maxCommitsPerFile: 50, ticketPatterns: [] },
+      git: { enabled: true, maxCommitsPerFile: 50, ticketPatterns: [], ownershipMonths: 12 },
     },
     ...overrides,
   };
@@ -86,7 +87,12 @@ function createMockIndexer(suffix = ''): Indexer {
     updateFileContent: vi.fn().mockResolvedValue(0),
     deleteFileByPath: vi.fn().mockResolvedValue(undefined),
     deleteProjectChunks: vi.fn().mockResolvedValue(undefined),
+    listSymbolChunks: vi.fn().mockResolvedValue({ chunks: [], truncated: false }),
+    getAdjacentChunks: vi.fn().mockResolvedValue([]),
     storedProjectName: vi.fn((name: string) => (suffix ? `${name}${suffix}` : name)),
+    cleanProjectName: vi.fn((name: string) =>
+      suffix && name.endsWith(suffix) ? name.slice(0, -suffix.length) : name
+    ),
     reindexGroup: vi.fn().mockResolvedValue(0),
     stats: { files: 0, chunks: 0, cached: 0, errors: 0, skipped: 0 },
   } as unknown as Indexer;
@@ -231,6 +237,28 @@ describe('Server API', () => {
       });
     });
 
+    it('passes intent_weight through and rejects values outside 0–1', async () => {
+      const ok = await fetchApi('/api/search', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ group: 'g', query: 'foo', intent_weight: 0.5 }),
+      });
+      expect(ok.status).toBe(200);
+      expect(mockSearcher.search).toHaveBeenCalledWith(
+        'g',
+        'foo',
+        expect.objectContaining({ intentWeight: 0.5 })
+      );
+
+      const bad = await fetchApi('/api/search', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ group: 'g', query: 'foo', intent_weight: 2 }),
+      });
+      expect(bad.status).toBe(400);
+      expect((await bad.json()).error).toBe('intent_weight must be a number between 0 and 1');
+    });
+
     it('returns 500 when search throws', async () => {
       vi.mocked(mockSearcher.search).mockRejectedValueOnce(new Error('Qdrant connection refused'));
       const res = await fetchApi('/api/search', {
@@ -446,6 +474,185 @@ describe('Server API', () => {
     });
   });
 
+  describe('GET /api/symbol', () => {
+    it('returns 400 without a name or with an unknown mode / kind', async () => {
+      expect((await fetchApi('/api/symbol')).status).toBe(400);
+      expect((await fetchApi('/api/symbol?name=Foo&mode=regex')).status).toBe(400);
+      const badKind = await fetchApi('/api/symbol?name=Foo&kinds=widget');
+      expect(badKind.status).toBe(400);
+      expect((await badKind.json()).error).toContain('widget');
+    });
+
+    it('looks the name up in every registered group', async () => {
+      projectsByGroup.set('g1', [createProjectConfig({ group: 'g1' })]);
+      projectsByGroup.set('g2', [createProjectConfig({ group: 'g2' })]);
+      vi.mocked(mockIndexer.listSymbolChunks).mockImplementation(async (group) => ({
+        chunks:
+          group === 'g1'
+            ? [
+                {
+                  chunk_id: 'g1//p1//src/foo.ts//1-9//h1',
+                  project: 'p1',
+                  file: 'src/foo.ts',
+                  language: 'typescript',
+                  startLine: 1,
+                  endLine: 9,
+                  kind: 'function',
+                  defines_symbols: ['fooBar'],
+                },
+              ]
+            : [],
+        truncated: false,
+      }));
+
+      const res = await fetchApi('/api/symbol?name=foo&mode=prefix&limit=5');
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.total).toBe(1);
+      expect(body.truncated).toBe(false);
+      expect(body.results[0]).toMatchObject({
+        group: 'g1',
+        project: 'p1',
+        symbol: 'fooBar',
+        match: 'prefix',
+        in_degree: 0,
+      });
+      expect(vi.mocked(mockIndexer.listSymbolChunks).mock.calls.map((c) => c[0])).toEqual([
+        'g1',
+        'g2',
+      ]);
+    });
+  });
+
+  describe('GET /api/graph/:group', () => {
+    it('validates format, level, path and chunk', async () => {
+      expect((await fetchApi('/api/graph/g1?format=svg')).status).toBe(400);
+      expect((await fetchApi('/api/graph/g1?level=module')).status).toBe(400);
+      expect((await fetchApi('/api/graph/g1?path=src')).status).toBe(400);
+      expect((await fetchApi('/api/graph/g1?chunk=g2//p//a.ts//1-2//h')).status).toBe(400);
+    });
+
+    it('returns 404 for an unknown group and 501 without a metadata store', async () => {
+      expect((await fetchApi('/api/graph/nope')).status).toBe(404);
+      projectsByGroup.set('g1', [createProjectConfig({ group: 'g1' })]);
+      expect((await fetchApi('/api/graph/g1')).status).toBe(501);
+    });
+
+    it('exports a suffixed project collapsed to files, in every format', async () => {
+      const indexer = createMockIndexer('-v3');
+      const metadataStore = {
+        getEdgesInScope: vi.fn().mockReturnValue([
+          {
+            from_chunk_id: 'g1//p1-v3//src/a.ts//1-5//h1',
+            to_chunk_id: 'g1//p1-v3//src/b.ts//1-5//h2',
+            relation_type: 'calls',
+            symbol_name: 'b',
+          },
+        ]),
+      } as unknown as MetadataStore;
+      const { app: graphApp } = createApp({
+        searcher: createMockSearcher(),
+        indexer,
+        watcherManager: createMockWatcherManager(),
+        embeddingProvider: createMockEmbeddingProvider(),
+        projectsByGroup: new Map([['g1', [createProjectConfig({ group: 'g1' })]]]),
+        metadataStore,
+      });
+      const srv = graphApp.listen(0);
+      const base = `http://127.0.0.1:${(srv.address() as { port: number }).port}/api/graph/g1`;
+      try {
+        const json = await fetch(`${base}?project=p1&path=src&level=file`);
+        expect(json.status).toBe(200);
+        const body = await json.json();
+        expect(body.graph).toMatchObject({ group: 'g1', level: 'file', truncated: false });
+        expect(body.links).toEqual([
+          expect.objectContaining({ source: 'p1//src/a.ts', target: 'p1//src/b.ts', weight: 1 }),
+        ]);
+        expect(vi.mocked(metadataStore.getEdgesInScope)).toHaveBeenCalledWith(
+          'g1',
+          ['g1//p1-v3//src//', 'g1//p1-v3//src/'],
+          5001
+        );
+
+        const graphml = await fetch(`${base}?format=graphml`);
+        expect(graphml.headers.get('content-type')).toContain('application/graphml+xml');
+        expect(await graphml.text()).toContain('<graphml');
+
+        const dot = await fetch(`${base}?format=dot&level=project`);
+        expect(dot.headers.get('content-type')).toContain('text/vnd.graphviz');
+        // Both ends are in p1, so the only edge collapses away.
+        expect(await dot.text()).toBe('digraph "g1" {\n  node [shape=box];\n}\n');
+      } finally {
+        await new Promise<void>((resolve, reject) => {
+          srv.close((err) => (err ? reject(err) : resolve()));
+        });
+      }
+    });
+  });
+
+  describe('POST /api/diff-context', () => {
+    const post = (body: Record<string, unknown>): Promise<Response> =>
+      fetchApi('/api/diff-context', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+    it('validates the request', async () => {
+      expect((await post({ group: 'g1' })).status).toBe(400);
+      expect((await post({ group: 'g1', project: 'p1', side: 'left' })).status).toBe(400);
+      expect((await post({ group: 'g1', project: 'p1', range: 42 })).status).toBe(400);
+      expect((await post({ group: 'nope', project: 'p1', diff: 'x' })).status).toBe(404);
+
+      projectsByGroup.set('g1', [createProjectConfig({ group: 'g1', name: 'p1', path: '' })]);
+      const noCheckout = await post({ group: 'g1', project: 'p1', range: 'main..feature' });
+      expect(noCheckout.status).toBe(400);
+      expect((await noCheckout.json()).error).toContain('pass the diff text');
+      const badRange = await post({ group: 'g1', project: 'p1', range: '--help' });
+      expect(badRange.status).toBe(400);
+    });
+
+    it('maps a pasted diff onto the indexed chunks', async () => {
+      projectsByGroup.set('g1', [createProjectConfig({ group: 'g1', name: 'p1' })]);
+      vi.mocked(mockIndexer.getAdjacentChunks).mockResolvedValue([
+        {
+          chunk_id: 'g1//p1//src/a.ts//0-9//h1',
+          file: 'src/a.ts',
+          startLine: 0,
+          endLine: 9,
+          symbol_name: 'charge',
+          kind: 'function',
+          defines_symbols: ['charge'],
+        },
+      ]);
+
+      const res = await post({
+        group: 'g1',
+        project: 'p1',
+        diff: '--- a/src/a.ts\n+++ b/src/a.ts\n@@ -3 +3 @@\n-a\n+b\n',
+      });
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(vi.mocked(mockIndexer.getAdjacentChunks)).toHaveBeenCalledWith(
+        'g1',
+        'p1',
+        'src/a.ts',
+        2,
+        2,
+        0
+      );
+      expect(body).toMatchObject({
+        group: 'g1',
+        project: 'p1',
+        side: 'base',
+        files: [{ file: 'src/a.ts', status: 'modified', hunks: 1, chunks: 1 }],
+        symbols: ['charge'],
+        dependents: [],
+        arch: null,
+      });
+    });
+  });
+
   describe('GET /health', () => {
     it('returns 200 with status, groups, uptime, memory', async () => {
       const res = await fetchApi('/health');
@@ -484,6 +691,208 @@ describe('Server API', () => {
     });
   });
 
+  describe('Token auth', () => {
+    let tokenStore: ApiTokenStore;
+    let srv: Server;
+    let authPort: number;
+
+    function fetchAuth(path: string, token?: string, init?: RequestInit): Promise<Response> {
+      return fetch(`http://127.0.0.1:${authPort}${path}`, {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+          ...(init?.headers as Record<string, string> | undefined),
+        },
+      });
+    }
+
+    beforeEach(() => {
+      tokenStore = new ApiTokenStore(path.join(tmpDir, 'auth.db'));
+      const { app: authApp } = createApp({
+        searcher: createMockSearcher(),
+        indexer: createMockIndexer(),
+        watcherManager: createMockWatcherManager(),
+        embeddingProvider: createMockEmbeddingProvider(),
+        projectsByGroup: new Map(),
+        tokenStore,
+        requireTokens: true,
+        adminToken: 'admin-secret',
+      });
+      srv = authApp.listen(0);
+      authPort = (srv.address() as { port: number }).port;
+    });
+
+    afterEach(async () => {
+      await new Promise<void>((resolve, reject) => {
+        srv.close((err) => (err ? reject(err) : resolve()));
+      });
+      tokenStore.close();
+    });
+
+    it('rejects API and MCP requests without a valid token', async () => {
+      const missing = await fetchAuth('/api/stats');
+      expect(missing.status).toBe(401);
+      expect(missing.headers.get('www-authenticate')).toContain('Bearer');
+
+      const bogus = await fetchAuth('/api/stats', 'ppt_bogus');
+      expect(bogus.status).toBe(401);
+
+      const mcp = await fetchAuth('/mcp', undefined, { method: 'POST', body: '{}' });
+      expect(mcp.status).toBe(401);
+    });
+
+    it('keeps /health open', async () => {
+      const res = await fetchAuth('/health');
+      expect(res.status).toBe(200);
+    });
+
+    it('takes the identity from the token, not the identity header', async () => {
+      const { token } = tokenStore.create('alice');
+      const res = await fetchAuth('/api/stats', token, {
+        headers: { 'X-Paparats-User': 'mallory' },
+      });
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.identity.user).toBe('alice');
+    });
+
+    it('stops accepting a token once revoked', async () => {
+      const { id, token } = tokenStore.create('alice');
+      expect((await fetchAuth('/api/stats', token)).status).toBe(200);
+      tokenStore.revoke(id);
+      expect((await fetchAuth('/api/stats', token)).status).toBe(401);
+    });
+
+    it('manages tokens through /api/tokens with the admin token', async () => {
+      expect((await fetchAuth('/api/tokens')).status).toBe(401);
+      const { token: userToken } = tokenStore.create('bob');
+      expect((await fetchAuth('/api/tokens', userToken)).status).toBe(401);
+
+      const created = await fetchAuth('/api/tokens', 'admin-secret', {
+        method: 'POST',
+        body: JSON.stringify({ user: 'carol', label: 'ci' }),
+      });
+      expect(created.status).toBe(201);
+      const issued = await created.json();
+      expect(issued.user).toBe('carol');
+      expect((await fetchAuth('/api/stats', issued.token)).status).toBe(200);
+
+      const listed = await (await fetchAuth('/api/tokens', 'admin-secret')).json();
+      expect(listed.tokens.map((t: { user: string }) => t.user).sort()).toEqual(['bob', 'carol']);
+      expect(JSON.stringify(listed)).not.toContain(issued.token);
+
+      const revoked = await fetchAuth(`/api/tokens/${issued.id}`, 'admin-secret', {
+        method: 'DELETE',
+      });
+      expect(revoked.status).toBe(200);
+      expect((await fetchAuth('/api/stats', issued.token)).status).toBe(401);
+
+      const again = await fetchAuth(`/api/tokens/${issued.id}`, 'admin-secret', {
+        method: 'DELETE',
+      });
+      expect(again.status).toBe(404);
+    });
+
+    it('enforces the token access rules on REST routes', async () => {
+      const { token } = tokenStore.create('alice', { groups: ['g1'], projects: ['p1'] });
+      const search = (body: Record<string, unknown>) =>
+        fetchAuth('/api/search', token, {
+          method: 'POST',
+          body: JSON.stringify({ query: 'q', ...body }),
+        });
+
+      expect((await search({ group: 'g2' })).status).toBe(403);
+      const otherProject = await search({ group: 'g1', project: 'p2' });
+      expect(otherProject.status).toBe(403);
+      expect((await otherProject.json()).error).toContain('Access denied');
+      expect((await search({ group: 'g1', project: 'p1' })).status).toBe(200);
+
+      expect((await fetchAuth('/api/project/g1/p2', token, { method: 'DELETE' })).status).toBe(403);
+      const chunkId = encodeURIComponent('g1//p2//src/a.ts//1-5//abc');
+      expect((await fetchAuth(`/api/chunk/${chunkId}`, token)).status).toBe(403);
+      expect((await fetchAuth('/api/symbol?name=Foo&group=g2', token)).status).toBe(403);
+      expect((await fetchAuth('/api/symbol?name=Foo&project=p2', token)).status).toBe(403);
+      // Group-wide operations need every project of the group.
+      const migrate = await fetchAuth('/api/hybrid/migrate', token, {
+        method: 'POST',
+        body: JSON.stringify({ group: 'g1' }),
+      });
+      expect(migrate.status).toBe(403);
+    });
+
+    it('guards /ui and /api/analytics with tokens when no basic-auth is set', async () => {
+      expect((await fetchAuth('/api/analytics')).status).toBe(401);
+      expect((await fetchAuth('/ui/')).status).toBe(401);
+
+      const { token } = tokenStore.create('alice');
+      expect((await fetchAuth('/api/analytics', token)).status).not.toBe(401);
+      expect((await fetchAuth('/ui/', token)).status).not.toBe(401);
+
+      // Analytics cover every group and user — not for a scoped token.
+      const { token: scoped } = tokenStore.create('bob', { groups: ['g1'] });
+      expect((await fetchAuth('/api/analytics', scoped)).status).toBe(403);
+    });
+
+    it('leaves /ui and /api/analytics to basic-auth when it is set', async () => {
+      process.env['PAPARATS_UI_BASIC_AUTH'] = 'ops:pw';
+      const { app: basicApp } = createApp({
+        searcher: createMockSearcher(),
+        indexer: createMockIndexer(),
+        watcherManager: createMockWatcherManager(),
+        embeddingProvider: createMockEmbeddingProvider(),
+        projectsByGroup: new Map(),
+        tokenStore,
+        requireTokens: true,
+      });
+      delete process.env['PAPARATS_UI_BASIC_AUTH'];
+      const basicSrv = basicApp.listen(0);
+      const basicPort = (basicSrv.address() as { port: number }).port;
+      try {
+        const res = await fetch(`http://127.0.0.1:${basicPort}/api/analytics`, {
+          headers: { Authorization: 'Basic ' + Buffer.from('ops:pw').toString('base64') },
+        });
+        expect(res.status).not.toBe(401);
+        const other = await fetch(`http://127.0.0.1:${basicPort}/api/stats`);
+        expect(other.status).toBe(401);
+      } finally {
+        await new Promise<void>((resolve) => basicSrv.close(() => resolve()));
+      }
+    });
+
+    it('issues scoped tokens through /api/tokens', async () => {
+      const bad = await fetchAuth('/api/tokens', 'admin-secret', {
+        method: 'POST',
+        body: JSON.stringify({ user: 'dave', groups: 'g1' }),
+      });
+      expect(bad.status).toBe(400);
+
+      const created = await fetchAuth('/api/tokens', 'admin-secret', {
+        method: 'POST',
+        body: JSON.stringify({ user: 'dave', groups: ['g1'], audiences: ['public'] }),
+      });
+      expect(created.status).toBe(201);
+      expect(await created.json()).toMatchObject({
+        groups: ['g1'],
+        projects: null,
+        audiences: ['public'],
+      });
+    });
+
+    it('returns 400 when creating a token without a user', async () => {
+      const res = await fetchAuth('/api/tokens', 'admin-secret', {
+        method: 'POST',
+        body: JSON.stringify({ label: 'x' }),
+      });
+      expect(res.status).toBe(400);
+    });
+
+    it('does not mount /api/tokens on an open server', async () => {
+      const res = await fetchApi('/api/tokens');
+      expect(res.status).toBe(404);
+    });
+  });
+
   describe('Shutdown state', () => {
     it('returns 503 when shuttingDown is true', async () => {
       const projects2 = new Map<string, ProjectConfig[]>();
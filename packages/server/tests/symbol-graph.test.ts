@@ -168,4 +168,340 @@ describe('buildSymbolEdges', () => {
       expect(stats.skippedSymbols).toBe(0);
     });
   });
+
+  describe('import resolution', () => {
+    it('labels an edge RESOLVED when the import points at the defining file', () => {
+      const { edges } = buildSymbolEdges([
+        {
+          chunk_id: 'g//p//src/billing.ts//1-5//h1',
+          defines_symbols: ['charge'],
+          uses_symbols: [],
+        },
+        { chunk_id: 'g//p//src/legacy.ts//1-5//h2', defines_symbols: ['charge'], uses_symbols: [] },
+        {
+          chunk_id: 'g//p//src/checkout.ts//3-9//h3',
+          defines_symbols: ['checkout'],
+          uses_symbols: ['charge'],
+          imports: [{ local: 'charge', imported: 'charge', source: './billing.js' }],
+        },
+      ]);
+
+      expect(edges).toEqual([
+        {
+          from_chunk_id: 'g//p//src/checkout.ts//3-9//h3',
+          to_chunk_id: 'g//p//src/billing.ts//1-5//h1',
+          relation_type: 'calls',
+          symbol_name: 'charge',
+          confidence: 'RESOLVED',
+        },
+      ]);
+    });
+
+    it('follows aliased imports to the exported name', () => {
+      const { edges } = buildSymbolEdges([
+        { chunk_id: 'g//p//a.py//1-5//h1', defines_symbols: ['refund'], uses_symbols: [] },
+        {
+          chunk_id: 'g//p//b.py//1-5//h2',
+          defines_symbols: [],
+          uses_symbols: ['undo'],
+          imports: [{ local: 'undo', imported: 'refund', source: '.a' }],
+        },
+      ]);
+
+      expect(edges).toHaveLength(1);
+      expect(edges[0]).toMatchObject({ symbol_name: 'refund', confidence: 'RESOLVED' });
+    });
+
+    it('resolves through namespace / package imports', () => {
+      const { edges } = buildSymbolEdges([
+        {
+          chunk_id: 'g//p//internal/billing/charge.go//1-5//h1',
+          defines_symbols: ['Charge'],
+          uses_symbols: [],
+        },
+        {
+          chunk_id: 'g//p//internal/legacy/charge.go//1-5//h2',
+          defines_symbols: ['Charge'],
+          uses_symbols: [],
+        },
+        {
+          chunk_id: 'g//p//cmd/main.go//1-5//h3',
+          defines_symbols: [],
+          uses_symbols: ['Charge'],
+          imports: [
+            { local: 'billing', imported: '*', source: 'github.com/acme/shop/internal/billing' },
+          ],
+        },
+      ]);
+
+      expect(edges).toHaveLength(1);
+      expect(edges[0]).toMatchObject({
+        to_chunk_id: 'g//p//internal/billing/charge.go//1-5//h1',
+        confidence: 'RESOLVED',
+      });
+    });
+
+    it('is exempt from the fan-out cap', () => {
+      const chunks = [
+        { chunk_id: 'g//p//a.ts//1-5//h1', defines_symbols: ['render'], uses_symbols: [] },
+        { chunk_id: 'g//p//b.ts//1-5//h2', defines_symbols: ['render'], uses_symbols: [] },
+        { chunk_id: 'g//p//c.ts//1-5//h3', defines_symbols: ['render'], uses_symbols: [] },
+        {
+          chunk_id: 'g//p//main.ts//1-5//h4',
+          defines_symbols: [],
+          uses_symbols: ['render'],
+          imports: [{ local: 'render', imported: 'render', source: './b' }],
+        },
+      ];
+      const { edges, stats } = buildSymbolEdges(chunks, 2);
+
+      expect(edges).toHaveLength(1);
+      expect(edges[0]).toMatchObject({
+        to_chunk_id: 'g//p//b.ts//1-5//h2',
+        confidence: 'RESOLVED',
+      });
+      expect(stats.skippedSymbols).toBe(0);
+    });
+
+    it('falls back to name matching when the import leaves the project', () => {
+      const { edges } = buildSymbolEdges([
+        { chunk_id: 'g//p//a.ts//1-5//h1', defines_symbols: ['z'], uses_symbols: [] },
+        {
+          chunk_id: 'g//p//b.ts//1-5//h2',
+          defines_symbols: [],
+          uses_symbols: ['z'],
+          imports: [{ local: 'z', imported: 'z', source: 'zod' }],
+        },
+      ]);
+
+      expect(edges).toHaveLength(1);
+      expect(edges[0]?.confidence).toBe('INFERRED');
+    });
+  });
+
+  describe('type hierarchy', () => {
+    const heritage = (
+      type: string,
+      supertype: string,
+      relation: 'extends' | 'implements',
+      declared: boolean,
+      methods: string[] = []
+    ) => [{ type, supertype, relation, declared, methods }];
+
+    it('emits extends / implements from the declaring chunk, taking precedence over calls', () => {
+      const { edges } = buildSymbolEdges([
+        {
+          chunk_id: 'g//p//base.ts//1-5//h1',
+          defines_symbols: ['PaymentMethod'],
+          uses_symbols: [],
+        },
+        {
+          chunk_id: 'g//p//chargeable.ts//1-5//h2',
+          defines_symbols: ['Chargeable'],
+          uses_symbols: [],
+        },
+        {
+          chunk_id: 'g//p//card.ts//1-5//h3',
+          defines_symbols: ['Card'],
+          uses_symbols: ['PaymentMethod', 'Chargeable'],
+          heritage: [
+            ...heritage('Card', 'PaymentMethod', 'extends', true),
+            ...heritage('Card', 'Chargeable', 'implements', true),
+          ],
+        },
+      ]);
+
+      expect(edges.map((e) => [e.relation_type, e.to_chunk_id, e.symbol_name])).toEqual([
+        ['extends', 'g//p//base.ts//1-5//h1', 'PaymentMethod'],
+        ['implements', 'g//p//chargeable.ts//1-5//h2', 'Chargeable'],
+      ]);
+      expect(edges.every((e) => e.confidence === 'INFERRED')).toBe(true);
+    });
+
+    it('links methods to the same-named method in the supertype file as overrides', () => {
+      const { edges } = buildSymbolEdges([
+        {
+          chunk_id: 'g//p//base.ts//1-3//h1',
+          defines_symbols: ['PaymentMethod'],
+          uses_symbols: [],
+        },
+        { chunk_id: 'g//p//base.ts//4-9//h2', defines_symbols: ['charge'], uses_symbols: [] },
+        { chunk_id: 'g//p//other.ts//1-9//h3', defines_symbols: ['charge'], uses_symbols: [] },
+        {
+          chunk_id: 'g//p//card.ts//4-9//h4',
+          defines_symbols: ['charge'],
+          uses_symbols: [],
+          heritage: heritage('Card', 'PaymentMethod', 'extends', false, ['charge']),
+        },
+      ]);
+
+      expect(edges).toEqual([
+        {
+          from_chunk_id: 'g//p//card.ts//4-9//h4',
+          to_chunk_id: 'g//p//base.ts//4-9//h2',
+          relation_type: 'overrides',
+          symbol_name: 'charge',
+          confidence: 'INFERRED',
+        },
+      ]);
+    });
+
+    it('resolves supertypes through imports', () => {
+      const { edges } = buildSymbolEdges([
+        { chunk_id: 'g//p//a/shape.ts//1-5//h1', defines_symbols: ['Shape'], uses_symbols: [] },
+        { chunk_id: 'g//p//b/shape.ts//1-5//h2', defines_symbols: ['Shape'], uses_symbols: [] },
+        {
+          chunk_id: 'g//p//b/circle.ts//1-5//h3',
+          defines_symbols: ['Circle'],
+          uses_symbols: ['Shape'],
+          imports: [{ local: 'Shape', imported: 'Shape', source: './shape' }],
+          heritage: heritage('Circle', 'Shape', 'implements', true),
+        },
+      ]);
+
+      expect(edges).toEqual([
+        {
+          from_chunk_id: 'g//p//b/circle.ts//1-5//h3',
+          to_chunk_id: 'g//p//b/shape.ts//1-5//h2',
+          relation_type: 'implements',
+          symbol_name: 'Shape',
+          confidence: 'RESOLVED',
+        },
+      ]);
+    });
+
+    it('never targets sibling implementations of the same trait', () => {
+      // Rust counts `impl Shape for X` as a definition of `Shape`.
+      const { edges } = buildSymbolEdges([
+        {
+          chunk_id: 'g//p//shape.rs//1-3//h1',
+          defines_symbols: ['Shape', 'area'],
+          uses_symbols: [],
+        },
+        {
+          chunk_id: 'g//p//shape.rs//5-9//h2',
+          defines_symbols: ['Shape', 'area'],
+          uses_symbols: [],
+          heritage: heritage('Circle', 'Shape', 'implements', true, ['area']),
+        },
+        {
+          chunk_id: 'g//p//shape.rs//11-15//h3',
+          defines_symbols: ['Shape', 'area'],
+          uses_symbols: [],
+          heritage: heritage('Square', 'Shape', 'implements', true, ['area']),
+        },
+      ]);
+
+      const fromSquare = edges.filter((e) => e.from_chunk_id === 'g//p//shape.rs//11-15//h3');
+      expect(fromSquare.map((e) => [e.relation_type, e.to_chunk_id, e.confidence])).toEqual([
+        ['implements', 'g//p//shape.rs//1-3//h1', 'EXTRACTED'],
+        ['overrides', 'g//p//shape.rs//1-3//h1', 'EXTRACTED'],
+      ]);
+    });
+  });
+
+  describe('table references', () => {
+    const ddl = 'g//p//db/schema.sql//1-9//h1';
+    const model = 'g//p//app/models/invoice.rb//1-5//h2';
+
+    it('links table users to the chunk creating the table', () => {
+      const { edges } = buildSymbolEdges([
+        {
+          chunk_id: ddl,
+          defines_symbols: ['invoices', 'invoices.id'],
+          uses_symbols: [],
+          defines_tables: ['invoices'],
+          uses_tables: [],
+        },
+        {
+          chunk_id: model,
+          defines_symbols: ['Invoice'],
+          uses_symbols: ['invoices'],
+          uses_tables: ['invoices'],
+        },
+      ]);
+
+      // The table edge claims the key a same-named `calls` edge would take.
+      expect(edges).toEqual([
+        {
+          from_chunk_id: model,
+          to_chunk_id: ddl,
+          relation_type: 'references',
+          symbol_name: 'invoices',
+          confidence: 'INFERRED',
+        },
+      ]);
+    });
+
+    it('keeps tables apart from symbols of the same name', () => {
+      const { edges } = buildSymbolEdges([
+        { chunk_id: ddl, defines_symbols: ['users'], uses_symbols: [] },
+        { chunk_id: model, defines_symbols: [], uses_symbols: [], uses_tables: ['users'] },
+      ]);
+      expect(edges).toEqual([]);
+    });
+
+    it('caps table fan-out like symbol fan-out', () => {
+      const creators = Array.from({ length: 3 }, (_, i) => ({
+        chunk_id: `g//p//db/migrate/${i}.rb//1-5//h${i}`,
+        defines_symbols: [],
+        uses_symbols: [],
+        defines_tables: ['events'],
+      }));
+      const { edges, stats } = buildSymbolEdges(
+        [
+          ...creators,
+          { chunk_id: model, defines_symbols: [], uses_symbols: [], uses_tables: ['events'] },
+        ],
+        2
+      );
+      expect(edges).toEqual([]);
+      expect(stats).toEqual({ skippedSymbols: 1, skippedEdges: 3 });
+    });
+  });
+
+  describe('test edges', () => {
+    const prod = 'g//p//src/billing.ts//1-9//h1';
+    const helper = 'g//p//src/billing.test.ts//1-4//h2';
+    const test = 'g//p//src/billing.test.ts//5-20//h3';
+
+    it('labels a test chunk using production code `tests`, test-to-test uses stay `calls`', () => {
+      const { edges } = buildSymbolEdges([
+        { chunk_id: prod, defines_symbols: ['charge'], uses_symbols: [] },
+        { chunk_id: helper, defines_symbols: ['fakeCard'], uses_symbols: [], is_test: true },
+        {
+          chunk_id: test,
+          defines_symbols: [],
+          uses_symbols: ['charge', 'fakeCard'],
+          is_test: true,
+        },
+      ]);
+      expect(edges.map((e) => [e.from_chunk_id, e.to_chunk_id, e.relation_type])).toEqual([
+        [test, prod, 'tests'],
+        [test, helper, 'calls'],
+      ]);
+    });
+
+    it('labels import-resolved uses from tests `tests` too', () => {
+      const { edges } = buildSymbolEdges([
+        { chunk_id: prod, defines_symbols: ['charge'], uses_symbols: [] },
+        {
+          chunk_id: test,
+          defines_symbols: [],
+          uses_symbols: ['charge'],
+          imports: [{ local: 'charge', imported: 'charge', source: './billing' }],
+          is_test: true,
+        },
+      ]);
+      expect(edges).toEqual([
+        {
+          from_chunk_id: test,
+          to_chunk_id: prod,
+          relation_type: 'tests',
+          symbol_name: 'charge',
+          confidence: 'RESOLVED',
+        },
+      ]);
+    });
+  });
 });
@@ -0,0 +1,180 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  editDistance,
+  findSymbolDefinitions,
+  matchSymbolName,
+  resolveSymbolProjects,
+} from '../src/symbol-lookup.js';
+import { access, UNRESTRICTED } from '../src/auth/access.js';
+import type { Indexer } from '../src/indexer.js';
+import type { MetadataStore } from '../src/metadata-db.js';
+import type { SymbolChunk } from '../src/types.js';
+
+function chunk(id: string, defines: string[], overrides?: Partial<SymbolChunk>): SymbolChunk {
+  return {
+    chunk_id: `g1//p1//src/${id}.ts//1-9//${id}`,
+    project: 'p1',
+    file: `src/${id}.ts`,
+    language: 'typescript',
+    startLine: 1,
+    endLine: 9,
+    kind: 'function',
+    defines_symbols: defines,
+    ...overrides,
+  };
+}
+
+/** Indexer stub that applies the `matches` callback the way listSymbolChunks does. */
+function createIndexer(chunks: SymbolChunk[], truncated = false): Indexer {
+  return {
+    listSymbolChunks: vi.fn(
+      async (_group: string, opts: { matches: (defs: string[]) => boolean }) => ({
+        chunks: chunks.filter((c) => opts.matches(c.defines_symbols)),
+        truncated,
+      })
+    ),
+    storedProjectName: (p: string) => p,
+  } as unknown as Indexer;
+}
+
+function createMetadataStore(inDegree: Record<string, number>): MetadataStore {
+  return {
+    getInDegree: vi.fn((_group: string, chunkId: string) => inDegree[chunkId] ?? 0),
+  } as unknown as MetadataStore;
+}
+
+describe('editDistance', () => {
+  it('counts single-character edits', () => {
+    expect(editDistance('invoice', 'invoice', 2)).toBe(0);
+    expect(editDistance('invoice', 'invoise', 2)).toBe(1);
+    expect(editDistance('invoice', 'invoic', 2)).toBe(1);
+  });
+
+  it('gives up past the maximum', () => {
+    expect(editDistance('invoice', 'ledger', 2)).toBe(3);
+    expect(editDistance('a', 'abcdef', 2)).toBe(3);
+  });
+});
+
+describe('matchSymbolName', () => {
+  it('exact mode only accepts the identical name', () => {
+    expect(matchSymbolName('Invoice', 'Invoice', 'exact')).toBe(0);
+    expect(matchSymbolName('invoice', 'Invoice', 'exact')).toBeNull();
+    expect(matchSymbolName('InvoiceService', 'Invoice', 'exact')).toBeNull();
+  });
+
+  it('prefix mode ranks equal names above longer ones, ignoring case', () => {
+    expect(matchSymbolName('invoice', 'Invoice', 'prefix')).toBe(1);
+    expect(matchSymbolName('InvoiceService', 'invoice', 'prefix')).toBe(2);
+    expect(matchSymbolName('createInvoice', 'invoice', 'prefix')).toBeNull();
+  });
+
+  it('fuzzy mode accepts substrings and small typos', () => {
+    expect(matchSymbolName('createInvoice', 'invoice', 'fuzzy')).toBe(3);
+    expect(matchSymbolName('InvoiceService', 'InvoiseService', 'fuzzy')).toBe(5);
+    expect(matchSymbolName('Ledger', 'Invoice', 'fuzzy')).toBeNull();
+  });
+});
+
+describe('resolveSymbolProjects', () => {
+  it('narrows the server scope by the explicit project', () => {
+    expect(resolveSymbolProjects(null, undefined)).toBeNull();
+    expect(resolveSymbolProjects(null, 'all')).toBeNull();
+    expect(resolveSymbolProjects(null, 'p1')).toEqual(['p1']);
+    expect(resolveSymbolProjects(['p1', 'p2'], 'all')).toEqual(['p1', 'p2']);
+    expect(resolveSymbolProjects(['p1'], 'p2')).toEqual([]);
+  });
+
+  it('applies the caller access rules', () => {
+    const rules = { ...UNRESTRICTED, projects: ['p2'] };
+    access.run(rules, () => {
+      expect(resolveSymbolProjects(null, undefined)).toEqual(['p2']);
+      expect(resolveSymbolProjects(['p1', 'p2'], 'p1')).toEqual([]);
+    });
+  });
+});
+
+describe('findSymbolDefinitions', () => {
+  it('ranks by match, then kind, then in-degree', async () => {
+    const indexer = createIndexer([
+      chunk('var', ['Invoice'], { kind: 'variable' }),
+      chunk('fn-low', ['Invoice']),
+      chunk('fn-high', ['Invoice']),
+      chunk('cls', ['Invoice'], { kind: 'class' }),
+      chunk('prefixed', ['InvoiceService'], { kind: 'class' }),
+    ]);
+    const metadataStore = createMetadataStore({ 'g1//p1//src/fn-high.ts//1-9//fn-high': 5 });
+
+    const { definitions: defs, truncated } = await findSymbolDefinitions(
+      { indexer, metadataStore },
+      ['g1'],
+      'Invoice',
+      { mode: 'prefix' }
+    );
+
+    expect(defs.map((d) => d.file)).toEqual([
+      'src/cls.ts',
+      'src/fn-high.ts',
+      'src/fn-low.ts',
+      'src/var.ts',
+      'src/prefixed.ts',
+    ]);
+    expect(defs[1]).toMatchObject({ group: 'g1', symbol: 'Invoice', match: 'exact', in_degree: 5 });
+    expect(defs[4]).toMatchObject({ symbol: 'InvoiceService', match: 'prefix' });
+    expect(truncated).toBe(false);
+  });
+
+  it('reports a group whose scan hit the cap', async () => {
+    const indexer = createIndexer([chunk('a', ['InvoiceService'])], true);
+    const result = await findSymbolDefinitions({ indexer }, ['g1'], 'Invoice', { mode: 'fuzzy' });
+    expect(result.definitions.map((d) => d.symbol)).toEqual(['InvoiceService']);
+    expect(result.truncated).toBe(true);
+  });
+
+  it('passes exact lookups to the keyword index and honours kinds and limit', async () => {
+    const indexer = createIndexer([
+      chunk('a', ['Invoice'], { kind: 'class' }),
+      chunk('b', ['Invoice'], { kind: 'interface' }),
+      chunk('c', ['Invoice']),
+    ]);
+
+    const { definitions: defs } = await findSymbolDefinitions(
+      { indexer },
+      ['g1', 'g2'],
+      'Invoice',
+      {
+        kinds: ['class', 'interface'],
+        limit: 1,
+        projects: ['p1'],
+      }
+    );
+
+    expect(defs).toHaveLength(1);
+    expect(defs[0]!.in_degree).toBe(0);
+    expect(indexer.listSymbolChunks).toHaveBeenCalledTimes(2);
+    expect(indexer.listSymbolChunks).toHaveBeenCalledWith(
+      'g1',
+      expect.objectContaining({ exact: 'Invoice', projects: ['p1'] })
+    );
+  });
+
+  it('skips the index when no project is reachable', async () => {
+    const indexer = createIndexer([chunk('a', ['Invoice'])]);
+    expect(await findSymbolDefinitions({ indexer }, ['g1'], 'Invoice', { projects: [] })).toEqual({
+      definitions: [],
+      truncated: false,
+    });
+    expect(indexer.listSymbolChunks).not.toHaveBeenCalled();
+  });
+
+  it('drops chunks outside the caller access rules', async () => {
+    const indexer = createIndexer([
+      chunk('a', ['Invoice']),
+      chunk('b', ['Invoice'], { chunk_id: 'g1//secret//src/b.ts//1-9//b', project: 'secret' }),
+    ]);
+    const { definitions } = await access.run({ ...UNRESTRICTED, projects: ['p1'] }, () =>
+      findSymbolDefinitions({ indexer }, ['g1'], 'Invoice')
+    );
+    expect(definitions.map((d) => d.project)).toEqual(['p1']);
+  });
+});
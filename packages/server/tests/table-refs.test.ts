@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { extractTableRefs, normalizeTableName, sqlTableUses } from '../src/table-refs.js';
+
+describe('normalizeTableName', () => {
+  it('drops quotes and schema prefixes and lower-cases', () => {
+    expect(normalizeTableName('billing."Invoices"')).toBe('invoices');
+    expect(normalizeTableName('[dbo].[Orders]')).toBe('orders');
+    expect(normalizeTableName('`line_items`')).toBe('line_items');
+    expect(normalizeTableName('select')).toBeNull();
+    expect(normalizeTableName('42')).toBeNull();
+  });
+});
+
+describe('sqlTableUses', () => {
+  it('finds tables after FROM, JOIN, INTO, UPDATE and REFERENCES', () => {
+    expect(
+      sqlTableUses(
+        'SELECT * FROM invoices i JOIN customers c ON c.id = i.customer_id WHERE i.id IN (SELECT id FROM payments)'
+      )
+    ).toEqual(['invoices', 'customers', 'payments']);
+    expect(
+      sqlTableUses('INSERT INTO audit_log VALUES (1); UPDATE public.invoices SET x = 1')
+    ).toEqual(['audit_log', 'invoices']);
+  });
+});
+
+describe('extractTableRefs', () => {
+  it('reads raw SQL from string literals only', () => {
+    const code = [
+      'from billing import models',
+      'def open_invoices(db):',
+      '    """Rows from the invoices table."""',
+      '    return db.execute("SELECT id FROM invoices WHERE status = %s", ("open",))',
+    ].join('\n');
+    expect(extractTableRefs(code)).toEqual({ defines: [], uses: ['invoices'] });
+  });
+
+  it('reads ORM table mappings', () => {
+    expect(extractTableRefs("class Invoice(Base):\n    __tablename__ = 'invoices'").uses).toEqual([
+      'invoices',
+    ]);
+    expect(
+      extractTableRefs('@Entity\n@Table(name = "invoices")\npublic class Invoice {}').uses
+    ).toEqual(['invoices']);
+    expect(extractTableRefs("@Entity('invoices')\nexport class Invoice {}").uses).toEqual([
+      'invoices',
+    ]);
+    expect(
+      extractTableRefs('func (Invoice) TableName() string { return "invoices" }').uses
+    ).toEqual(['invoices']);
+  });
+
+  it('maps ActiveRecord models by convention unless table_name is set', () => {
+    expect(extractTableRefs('class LineItem < ApplicationRecord\nend').uses).toEqual([
+      'line_items',
+    ]);
+    expect(extractTableRefs('class Category < ActiveRecord::Base\nend').uses).toEqual([
+      'categories',
+    ]);
+    expect(
+      extractTableRefs(
+        "class Invoice < ApplicationRecord\n  self.table_name = 'legacy_invoices'\nend"
+      ).uses
+    ).toEqual(['legacy_invoices']);
+  });
+
+  it('treats migrations that create a table as its definition', () => {
+    const rails = [
+      'class CreateInvoices < ActiveRecord::Migration[7.1]',
+      '  def change',
+      '    create_table :invoices do |t|',
+      '      t.references :customer',
+      '    end',
+      '    add_index :invoices, :customer_id',
+      '    add_column :customers, :vip, :boolean',
+      '  end',
+      'end',
+    ].join('\n');
+    expect(extractTableRefs(rails)).toEqual({ defines: ['invoices'], uses: ['customers'] });
+
+    const alembic =
+      "op.create_table('payments', sa.Column('id', sa.Integer))\nop.add_column('invoices', sa.Column('paid_at', sa.DateTime))";
+    expect(extractTableRefs(alembic)).toEqual({ defines: ['payments'], uses: ['invoices'] });
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { isTestChunk, isTestFile } from '../src/test-detection.js';
+
+describe('isTestFile', () => {
+  it.each([
+    ['src/billing.test.ts', 'typescript'],
+    ['src/Billing.spec.tsx', 'typescript'],
+    ['lib/cart.spec.js', 'javascript'],
+    ['internal/billing/charge_test.go', 'go'],
+    ['billing/test_charge.py', 'python'],
+    ['billing/charge_test.py', 'python'],
+    ['conftest.py', 'python'],
+    ['spec/models/invoice_spec.rb', 'ruby'],
+    ['src/test/java/com/acme/InvoiceTest.java', 'java'],
+    ['app/src/main/kotlin/InvoiceTests.kt', 'kotlin'],
+    ['Billing.Tests/InvoiceTests.cs', 'csharp'],
+    ['src/__tests__/cart.ts', 'typescript'],
+    ['tests/integration.rs', 'rust'],
+    ['net/url_unittest.cc', 'cpp'],
+  ])('%s is a test', (file, language) => {
+    expect(isTestFile(file, language)).toBe(true);
+  });
+
+  it.each([
+    ['src/billing.ts', 'typescript'],
+    ['src/testing-utils.ts', 'typescript'],
+    ['internal/billing/charge.go', 'go'],
+    ['billing/contest.py', 'python'],
+    ['src/main/java/com/acme/Manifest.java', 'java'],
+    ['app/models/spec_parser.rb', 'ruby'],
+    ['src/lib.rs', 'rust'],
+  ])('%s is production code', (file, language) => {
+    expect(isTestFile(file, language)).toBe(false);
+  });
+
+  it('applies a convention only to its own language', () => {
+    expect(isTestFile('charge_test.go', 'go')).toBe(true);
+    expect(isTestFile('charge_test.go', 'typescript')).toBe(false);
+  });
+});
+
+describe('isTestChunk', () => {
+  it('counts Rust chunks inside `mod tests` as tests', () => {
+    expect(isTestChunk('src/billing.rs', 'rust', ['tests'])).toBe(true);
+    expect(isTestChunk('src/billing.rs', 'rust', ['Invoice'])).toBe(false);
+    expect(isTestChunk('src/billing.ts', 'typescript', ['tests'])).toBe(false);
+  });
+});
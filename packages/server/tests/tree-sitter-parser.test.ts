@@ -31,6 +31,21 @@ describe('TreeSitterManager', () => {
     result!.tree.delete();
   });
 
+  it('parses PHP, Kotlin, Swift and Scala', async () => {
+    const samples: Array<[string, string, string]> = [
+      ['php', '<?php\nfunction greet() {}', 'program'],
+      ['kotlin', 'fun greet() {}', 'source_file'],
+      ['swift', 'func greet() {}', 'source_file'],
+      ['scala', 'object Main { def greet() = 1 }', 'compilation_unit'],
+    ];
+    for (const [language, code, root] of samples) {
+      const result = await manager.parseFile(code, language);
+      expect(result, language).not.toBeNull();
+      expect(result!.tree.rootNode.type).toBe(root);
+      result!.tree.delete();
+    }
+  });
+
   it('parses Terraform', async () => {
     const result = await manager.parseFile('resource "aws_s3_bucket" "b" {}', 'terraform');
     expect(result).not.toBeNull();
@@ -55,6 +70,10 @@ describe('TreeSitterManager', () => {
     expect(manager.isAvailable('csharp')).toBe(true);
     expect(manager.isAvailable('tsx')).toBe(true);
     expect(manager.isAvailable('terraform')).toBe(true);
+    expect(manager.isAvailable('php')).toBe(true);
+    expect(manager.isAvailable('kotlin')).toBe(true);
+    expect(manager.isAvailable('swift')).toBe(true);
+    expect(manager.isAvailable('scala')).toBe(true);
     expect(manager.isAvailable('unknown')).toBe(false);
   });
 });
@@ -58,7 +58,7 @@ function createProjectConfig(
       bounded_context: null,
       tags: [],
       directory_tags: {},
-      git: { enabled: true, maxCommitsPerFile: 50, ticketPatterns: [] },
+      git: { enabled: true, maxCommitsPerFile: 50, ticketPatterns: [], ownershipMonths: 12 },
     },
     ...overrides,
   };
@@ -704,6 +704,53 @@
     setText('embTimeouts', `${fmtInt.format(e.timeouts)} timeouts`);
   }
 
+  function renderRerank(d) {
+    const chip = $('#rerankChip');
+    const r = d.rerank || { searches: 0, fetched: 0 };
+
+    if (!d.analyticsEnabled || r.searches === 0) {
+      chip.dataset.state = '';
+      chip.textContent = d.analyticsEnabled ? 'off' : 'disabled';
+      setText('rrRank', '—');
+      setText(
+        'rrRankSub',
+        d.analyticsEnabled ? 'no reranked searches in window · set RERANKER' : 'analytics disabled'
+      );
+      setText('rrSearches', d.analyticsEnabled ? '0' : '—');
+      setText('rrReranker', '—');
+      setText('rrReordered', '—');
+      setText('rrPromoted', '—');
+      setText('rrDemoted', '—');
+      return;
+    }
+
+    setText('rrSearches', fmtInt.format(r.searches));
+    setText('rrReranker', r.reranker || '—');
+    setText('rrReordered', fmtPct(r.reorderedShare));
+
+    if (r.fetched === 0 || r.avgRankBefore == null || r.avgRankAfter == null) {
+      chip.dataset.state = '';
+      chip.textContent = 'no fetches';
+      setText('rrRank', '—');
+      setText('rrRankSub', 'no chunks opened after a reranked search yet');
+      setText('rrPromoted', '—');
+      setText('rrDemoted', '—');
+      return;
+    }
+
+    // Ranks are 0-based internally; show them 1-based.
+    const helped = r.promoted > r.demoted;
+    chip.dataset.state = helped ? 'ok' : r.promoted < r.demoted ? 'bad' : '';
+    chip.textContent = helped ? 'helping' : r.promoted < r.demoted ? 'hurting' : 'neutral';
+    setText('rrRank', `#${(r.avgRankAfter + 1).toFixed(1)}`);
+    setText(
+      'rrRankSub',
+      `was #${(r.avgRankBefore + 1).toFixed(1)} before rerank · ${fmtInt.format(r.fetched)} opened`
+    );
+    setText('rrPromoted', `${fmtInt.format(r.promoted)} up`);
+    setText('rrDemoted', `${fmtInt.format(r.demoted)} down`);
+  }
+
   function renderErrors(d) {
     const body = $('#errBody');
     if (!d.analyticsEnabled) {
@@ -769,6 +816,7 @@
       renderErrors(data);
       renderFailedSearches(data);
       renderEmbedding(data);
+      renderRerank(data);
       setText($('#lastRefresh'), new Date().toLocaleTimeString());
     } catch (err) {
       setConn('bad');
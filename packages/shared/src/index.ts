@@ -8,5 +8,11 @@ export {
 } from './language-excludes.js';
 export { createGitignoreFilter, filterFilesByGitignore } from './gitignore.js';
 export { detectNonSource, type NonSourceVerdict } from './non-source-detect.js';
-export { detectLanguageByPath, detectProjectLanguage } from './language-detect.js';
+export {
+  detectLanguageByPath,
+  detectProjectLanguage,
+  isComposeFile,
+  isKubernetesManifest,
+  isOpenApiFile,
+} from './language-detect.js';
 export { DEFAULT_GROUP } from './group.js';
@@ -20,12 +20,68 @@ describe('detectLanguageByPath', () => {
     expect(detectLanguageByPath('Program.cs')).toBe('csharp');
   });
 
+  it('maps PHP, Kotlin, Swift and Scala extensions', () => {
+    expect(detectLanguageByPath('app/Http/Controllers/UserController.php')).toBe('php');
+    expect(detectLanguageByPath('Main.kt')).toBe('kotlin');
+    expect(detectLanguageByPath('build.gradle.kts')).toBe('kotlin');
+    expect(detectLanguageByPath('Sources/App/App.swift')).toBe('swift');
+    expect(detectLanguageByPath('Main.scala')).toBe('scala');
+    expect(detectLanguageByPath('script.sc')).toBe('scala');
+    expect(detectLanguageByPath('artisan', '#!/usr/bin/env php\n<?php\n')).toBe('php');
+  });
+
   it('maps terraform extensions', () => {
     expect(detectLanguageByPath('main.tf')).toBe('terraform');
     expect(detectLanguageByPath('environments/prod/variables.tf')).toBe('terraform');
     expect(detectLanguageByPath('config.hcl')).toBe('terraform');
   });
 
+  it('maps Protobuf and GraphQL extensions', () => {
+    expect(detectLanguageByPath('proto/acme/users/v1/users.proto')).toBe('protobuf');
+    expect(detectLanguageByPath('schema.graphql')).toBe('graphql');
+    expect(detectLanguageByPath('schema.graphqls')).toBe('graphql');
+    expect(detectLanguageByPath('queries/GetUser.gql')).toBe('graphql');
+  });
+
+  it('maps SQL schemas and migrations', () => {
+    expect(detectLanguageByPath('db/structure.sql')).toBe('sql');
+    expect(detectLanguageByPath('src/main/resources/db/migration/V1__init.sql')).toBe('sql');
+    expect(detectLanguageByPath('prisma/migrations/20240101_init/migration.sql')).toBe('sql');
+  });
+
+  it('maps notebooks and MDX pages', () => {
+    expect(detectLanguageByPath('notebooks/explore.ipynb')).toBe('notebook');
+    expect(detectLanguageByPath('docs/intro.mdx')).toBe('mdx');
+  });
+
+  it('detects OpenAPI documents by file name or version key', () => {
+    expect(detectLanguageByPath('api/openapi.yaml')).toBe('openapi');
+    expect(detectLanguageByPath('swagger.json')).toBe('openapi');
+    expect(detectLanguageByPath('specs/billing.openapi.yml')).toBe('openapi');
+    expect(detectLanguageByPath('specs/billing.yaml', 'openapi: 3.1.0\ninfo:\n')).toBe('openapi');
+    expect(detectLanguageByPath('api.json', '{\n  "swagger": "2.0",\n')).toBe('openapi');
+    expect(detectLanguageByPath('config.yaml', 'server:\n  openapi: 3\n')).toBeNull();
+    expect(detectLanguageByPath('openapi.ts')).toBe('typescript');
+  });
+
+  it('detects compose files by name and Kubernetes manifests by content or directory', () => {
+    expect(detectLanguageByPath('docker-compose.yml')).toBe('compose');
+    expect(detectLanguageByPath('deploy/docker-compose.prod.yaml')).toBe('compose');
+    expect(detectLanguageByPath('compose.override.yml')).toBe('compose');
+    expect(detectLanguageByPath('deploy/api.yaml', 'apiVersion: apps/v1\nkind: Deployment\n')).toBe(
+      'kubernetes'
+    );
+    expect(
+      detectLanguageByPath(
+        'chart/templates/svc.yaml',
+        '{{- if .Values.enabled }}\napiVersion: v1\nkind: Service\n'
+      )
+    ).toBe('kubernetes');
+    expect(detectLanguageByPath('k8s/base/api.yaml')).toBe('kubernetes');
+    expect(detectLanguageByPath('k8s/base/notes.yaml', 'owner: platform\n')).toBeNull();
+    expect(detectLanguageByPath('.github/workflows/ci.yml')).toBeNull();
+  });
+
   it('maps C/C++ extensions conservatively', () => {
     expect(detectLanguageByPath('foo.c')).toBe('c');
     expect(detectLanguageByPath('foo.h')).toBe('c');
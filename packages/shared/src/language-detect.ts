@@ -6,9 +6,12 @@ import path from 'node:path';
  *
  * Returns a language key matching the server's LANGUAGE_PROFILES keys
  * ('ruby', 'typescript', 'python', 'go', 'rust', 'java', 'c', 'cpp', 'csharp',
- * 'javascript') or null if the file cannot be confidently classified.
+ * 'php', 'kotlin', 'swift', 'scala', 'javascript', 'protobuf', 'graphql',
+ * 'openapi', 'sql', 'kubernetes', 'compose', 'notebook', 'mdx') or null if the
+ * file cannot be confidently classified.
  *
- * Strategy: extension table first, shebang fallback for files without a known
+ * Strategy: OpenAPI, compose and Kubernetes sniffing for YAML/JSON, then the
+ * extension table, then a shebang fallback for files without a known
  * extension. Ambiguous extensions are resolved conservatively:
  *   - `.h` → 'c' (C++ project should carry an explicit project-level fallback)
  *   - `.js` → 'typescript' (our TS profile already covers .js; keeps tree-sitter
@@ -37,14 +40,75 @@ const EXT_TO_LANGUAGE: Record<string, string> = {
   '.hh': 'cpp',
   '.cxx': 'cpp',
   '.cs': 'csharp',
+  '.php': 'php',
+  '.kt': 'kotlin',
+  '.kts': 'kotlin',
+  '.swift': 'swift',
+  '.scala': 'scala',
+  '.sc': 'scala',
   '.tf': 'terraform',
   '.hcl': 'terraform',
+  '.proto': 'protobuf',
+  '.graphql': 'graphql',
+  '.graphqls': 'graphql',
+  '.gql': 'graphql',
+  '.sql': 'sql',
+  '.ipynb': 'notebook',
+  '.mdx': 'mdx',
 };
 
+const OPENAPI_EXTENSIONS = new Set(['.yaml', '.yml', '.json']);
+
+/** `openapi.yaml`, `swagger.json`, `billing.openapi.yml`, `petstore-openapi.yaml`. */
+const OPENAPI_FILE_NAME = /(?:^|[._-])(?:openapi|swagger)(?:[._-]|$)/i;
+
+/** A root-level YAML `openapi: 3.x` or a JSON `"swagger": "2.0"` near the top of the document. */
+const OPENAPI_VERSION_KEY =
+  /^(?:openapi|swagger)\s*:\s*["']?\d|^\s*"(?:openapi|swagger)"\s*:\s*"\d/m;
+
+/**
+ * True for YAML/JSON files that hold an OpenAPI or Swagger document: named
+ * like one, or (when `content` is given) declaring the version key up front.
+ */
+export function isOpenApiFile(relPath: string, content?: string): boolean {
+  const ext = path.extname(relPath).toLowerCase();
+  if (!OPENAPI_EXTENSIONS.has(ext)) return false;
+  if (OPENAPI_FILE_NAME.test(path.basename(relPath, path.extname(relPath)))) return true;
+  return content !== undefined && OPENAPI_VERSION_KEY.test(content.slice(0, 2048));
+}
+
+/** `docker-compose.yml`, `docker-compose.prod.yaml`, `compose.yaml`, `compose.override.yml`. */
+const COMPOSE_FILE_NAME = /^(?:docker-)?compose(?:[.-][\w.-]+)?\.ya?ml$/i;
+
+export function isComposeFile(relPath: string): boolean {
+  return COMPOSE_FILE_NAME.test(path.basename(relPath));
+}
+
+const KUBERNETES_EXTENSIONS = new Set(['.yaml', '.yml']);
+
+/** Directories that by convention hold manifests or Helm charts. */
+const KUBERNETES_DIR = /(?:^|[\\/])(?:k8s|kubernetes|manifests|helm|charts)[\\/]/i;
+
+const KUBERNETES_API_VERSION = /^apiVersion\s*:/m;
+const KUBERNETES_KIND = /^kind\s*:\s*["']?[A-Z]/m;
+
+/**
+ * True for Kubernetes manifests and Helm templates. With `content`, any root
+ * `apiVersion:` + `kind:` pair decides (Helm's `{{ … }}` lines don't hide
+ * them); without it, only YAML under a conventional manifests directory.
+ */
+export function isKubernetesManifest(relPath: string, content?: string): boolean {
+  if (!KUBERNETES_EXTENSIONS.has(path.extname(relPath).toLowerCase())) return false;
+  if (content === undefined) return KUBERNETES_DIR.test(relPath);
+  const head = content.slice(0, 4096);
+  return KUBERNETES_API_VERSION.test(head) && KUBERNETES_KIND.test(head);
+}
+
 const SHEBANG_TO_LANGUAGE: Array<{ pattern: RegExp; language: string }> = [
   { pattern: /^#!.*\b(ruby)\b/, language: 'ruby' },
   { pattern: /^#!.*\b(python[0-9.]*)\b/, language: 'python' },
   { pattern: /^#!.*\b(node|deno|bun)\b/, language: 'typescript' },
+  { pattern: /^#!.*\b(php)\b/, language: 'php' },
 ];
 
 /**
@@ -52,6 +116,10 @@ const SHEBANG_TO_LANGUAGE: Array<{ pattern: RegExp; language: string }> = [
  * detection when the extension is unknown.
  */
 export function detectLanguageByPath(relPath: string, content?: string): string | null {
+  if (isOpenApiFile(relPath, content)) return 'openapi';
+  if (isComposeFile(relPath)) return 'compose';
+  if (isKubernetesManifest(relPath, content)) return 'kubernetes';
+
   const ext = path.extname(relPath).toLowerCase();
   if (ext && EXT_TO_LANGUAGE[ext]) {
     return EXT_TO_LANGUAGE[ext];
@@ -80,7 +148,11 @@ const PROJECT_MARKERS: Array<[string, string]> = [
   ['requirements.txt', 'python'],
   ['setup.py', 'python'],
   ['pom.xml', 'java'],
+  ['build.gradle.kts', 'kotlin'],
   ['build.gradle', 'java'],
+  ['build.sbt', 'scala'],
+  ['Package.swift', 'swift'],
+  ['composer.json', 'php'],
   ['Gemfile', 'ruby'],
   ['Rakefile', 'ruby'],
   ['CMakeLists.txt', 'cpp'],
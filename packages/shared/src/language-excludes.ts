@@ -127,6 +127,14 @@ export const LANGUAGE_EXCLUDE_DEFAULTS: Record<string, string[]> = {
     '**/*.auto.tfvars',
     '**/*.auto.tfvars.json',
   ],
+  protobuf: ['node_modules', 'vendor', 'build', 'dist', '.buf'],
+  graphql: ['node_modules', 'dist', 'build', '.cache'],
+  openapi: ['node_modules', 'vendor', 'dist', 'build'],
+  sql: ['node_modules', 'vendor', 'dist', 'build'],
+  kubernetes: ['node_modules', 'vendor', 'dist', 'build'],
+  compose: ['node_modules', 'vendor', 'dist', 'build'],
+  notebook: ['node_modules', '.ipynb_checkpoints', 'dist', 'build'],
+  mdx: ['node_modules', 'dist', 'build', '.next', '.docusaurus'],
   generic: ['node_modules', 'vendor', 'target', '.git', 'build', 'dist'],
 };
 